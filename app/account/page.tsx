@@ -12,7 +12,12 @@ import TwitchBotChannelManager from "@/components/TwitchBotChannelManager";
 import TwitchAccountLinker from "@/components/TwitchAccountLinker";
 import TwitchModerationSettings from "@/components/TwitchModerationSettings";
 import TwitchBotAnalytics from "@/components/TwitchBotAnalytics";
+import DiscordGuildSettings from "@/components/DiscordGuildSettings";
 import ChallengeHistory from "@/components/ChallengeHistory";
+import AccountDataExport from "@/components/AccountDataExport";
+import AccountDeletion from "@/components/AccountDeletion";
+import TwoFactorSettings from "@/components/TwoFactorSettings";
+import SecurityEventsTimeline from "@/components/SecurityEventsTimeline";
 import { GameTracking } from "@/types";
 
 export default function AccountPage() {
@@ -27,6 +32,7 @@ export default function AccountPage() {
     currentPassword: "",
     newPassword: "",
     confirmPassword: "",
+    twoFactorCode: "",
   });
   const [passwordError, setPasswordError] = useState("");
   const [passwordSuccess, setPasswordSuccess] = useState("");
@@ -217,14 +223,12 @@ export default function AccountPage() {
           }
         }
 
-        // If we don't have username, try calling API without it (API will get from session)
-        // Fetch user data
-        console.log("[Account Page] Fetching account data, username:", username || "none (will use session)");
+        // Fetch user data (the API identifies the user from the session)
         const userResponse = await fetch("/api/accountData", {
           method: "POST",
           headers: { "Content-Type": "application/json" },
           credentials: "include", // Ensure cookies are sent
-          body: JSON.stringify(username ? { username } : {}), // Send empty object if no username
+          body: JSON.stringify({}),
         });
         
         console.log("[Account Page] Account data response status:", userResponse.status);
@@ -282,6 +286,7 @@ export default function AccountPage() {
           healthMonitoring: userData.user.healthMonitoring,
           twitchUsername: userData.user.twitchUsername || null,
           twitchId: userData.user.twitchId || null,
+          twoFactorEnabled: Boolean(userData.user.twoFactorEnabled),
         });
 
         // Initialize email preferences
@@ -370,14 +375,31 @@ export default function AccountPage() {
       return;
     }
 
+    let twoFactorCode: string | undefined;
+    if (accountData?.twoFactorEnabled) {
+      twoFactorCode =
+        prompt("Enter a code from your authenticator app to continue") ||
+        undefined;
+      if (!twoFactorCode) {
+        return;
+      }
+    }
+
     try {
       setSessionsLoading(true);
       const response = await fetch("/api/auth/sessions", {
         method: "DELETE",
         credentials: "include",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ twoFactorCode }),
       });
 
       if (!response.ok) {
+        const data = await response.json().catch(() => ({}));
+        if (data.twoFactorRequired) {
+          setSessionsError(data.message || "Invalid two-factor code");
+          return;
+        }
         throw new Error("Failed to revoke sessions");
       }
 
@@ -500,33 +522,32 @@ export default function AccountPage() {
         return;
       }
 
-      // Check if user has existing password
+      // Change an existing password (re-checks the current one and any two-factor code),
+      // or set one up for accounts that don't have one yet
+      let response;
       if (accountData?.hasPassword) {
-        // User has password, require current password for change
         if (!passwordData.currentPassword) {
           setPasswordError("Current password is required to change password");
           return;
         }
 
-        // Verify current password first
-        const verifyResponse = await axios.post("/api/auth/signin", {
-          identifier: username,
-          password: passwordData.currentPassword,
+        response = await axios.post(
+          "/api/auth/change-password",
+          {
+            currentPassword: passwordData.currentPassword,
+            newPassword: passwordData.newPassword,
+            twoFactorCode: passwordData.twoFactorCode || undefined,
+          },
+          { withCredentials: true }
+        );
+      } else {
+        response = await axios.post("/api/auth/setup-password", {
+          userId,
+          username,
+          newPassword: passwordData.newPassword,
         });
-
-        if (!verifyResponse.data.user) {
-          setPasswordError("Current password is incorrect");
-          return;
-        }
       }
 
-      // Set up or change password
-      const response = await axios.post("/api/auth/setup-password", {
-        userId,
-        username,
-        newPassword: passwordData.newPassword,
-      });
-
       if (response.data) {
         setPasswordSuccess("Password updated successfully!");
         setAccountData((prev) =>
@@ -538,6 +559,7 @@ export default function AccountPage() {
           currentPassword: "",
           newPassword: "",
           confirmPassword: "",
+          twoFactorCode: "",
         });
 
         // Close modal after 2 seconds
@@ -561,6 +583,7 @@ export default function AccountPage() {
       currentPassword: "",
       newPassword: "",
       confirmPassword: "",
+      twoFactorCode: "",
     });
     setPasswordError("");
     setPasswordSuccess("");
@@ -1183,6 +1206,17 @@ export default function AccountPage() {
               </div>
             </div>
 
+            {/* Two-Factor Authentication */}
+            <TwoFactorSettings
+              hasPassword={Boolean(accountData.hasPassword)}
+              onStatusChange={(enabled) =>
+                setAccountData((prev) =>
+                  prev ? { ...prev, twoFactorEnabled: enabled } : null
+                )
+              }
+              className="mt-6"
+            />
+
             {/* Active Sessions */}
             <div className="bg-[#252642]/50 backdrop-blur-sm rounded-2xl p-6 shadow-[0_0_15px_rgba(0,255,255,0.1)] border border-[#00ffff]/20 mt-6">
               <div className="flex items-center justify-between mb-6">
@@ -1326,6 +1360,21 @@ export default function AccountPage() {
                 </div>
               )}
             </div>
+
+            {/* Security Activity */}
+            <SecurityEventsTimeline className="mt-6" />
+
+            {/* Your Data */}
+            <AccountDataExport className="mt-6" />
+
+            {/* Delete Account */}
+            <AccountDeletion
+              username={accountData.username}
+              hasPassword={Boolean(accountData.hasPassword)}
+              hasProAccess={accountData.hasProAccess}
+              twoFactorEnabled={Boolean(accountData.twoFactorEnabled)}
+              className="mt-6"
+            />
           </div>
 
           {/* Subscription Status */}
@@ -1765,6 +1814,11 @@ export default function AccountPage() {
             <div className="mt-6">
               <TwitchBotAnalytics />
             </div>
+
+            {/* Discord Bot Server Settings */}
+            <div className="mt-6">
+              <DiscordGuildSettings />
+            </div>
           </div>
         </div>
 
@@ -1887,6 +1941,29 @@ export default function AccountPage() {
                 </div>
               )}
 
+              {/* Two-factor code (only if two-factor is enabled) */}
+              {accountData?.hasPassword && accountData?.twoFactorEnabled && (
+                <div>
+                  <label className="block text-sm font-medium text-gray-300 mb-1">
+                    Two-Factor Code
+                  </label>
+                  <input
+                    type="text"
+                    autoComplete="one-time-code"
+                    value={passwordData.twoFactorCode}
+                    onChange={(e) =>
+                      setPasswordData((prev) => ({
+                        ...prev,
+                        twoFactorCode: e.target.value,
+                      }))
+                    }
+                    className="w-full p-3 border border-gray-600 rounded-lg focus:ring-2 focus:ring-[#00ffff] focus:border-transparent bg-gray-800 text-white font-mono"
+                    placeholder="Authenticator or recovery code"
+                    required
+                  />
+                </div>
+              )}
+
               {/* New Password */}
               <div>
                 <label className="block text-sm font-medium text-gray-300 mb-1">
@@ -3,6 +3,7 @@
 import { useSearchParams } from "next/navigation";
 import { useEffect, useState, Suspense } from "react";
 import Image from "next/image";
+import axios from "../../utils/axiosConfig";
 
 export const dynamic = "force-dynamic";
 
@@ -11,8 +12,41 @@ function DiscordLandingContent() {
   const searchParams = useSearchParams();
   const botInviteUrl = searchParams?.get("botInvite") ?? null;
   const userId = searchParams?.get("userId") ?? null;
+  const linkCode = searchParams?.get("linkCode") ?? null;
   const [applicationId, setApplicationId] = useState<string | null>(null);
   const [showDiscordModal, setShowDiscordModal] = useState(false);
+  const [linkStatus, setLinkStatus] = useState<{
+    state: "linking" | "success" | "error" | "signin";
+    message: string;
+  } | null>(linkCode ? { state: "linking", message: "Linking your Discord account..." } : null);
+
+  // Opened from the bot's /link command: connect the Discord account to the signed-in user
+  useEffect(() => {
+    if (!linkCode) return;
+
+    const linkDiscordAccount = async () => {
+      try {
+        const response = await axios.post("/api/discord/link", { code: linkCode });
+        setLinkStatus({
+          state: "success",
+          message: `Discord account ${response.data.discordUsername} is now linked. Head back to Discord and try /challenge or /streak!`,
+        });
+      } catch (error: any) {
+        if (error.response?.status === 401) {
+          setLinkStatus({
+            state: "signin",
+            message: "Sign in to Video Game Wingman, then open the link from Discord again.",
+          });
+          return;
+        }
+        setLinkStatus({
+          state: "error",
+          message: error.response?.data?.message || "Failed to link your Discord account. Please try again.",
+        });
+      }
+    };
+    linkDiscordAccount();
+  }, [linkCode]);
 
   useEffect(() => {
     const fetchApplicationId = async () => {
@@ -114,6 +148,24 @@ function DiscordLandingContent() {
             server
           </p>
         </div>
+        {linkStatus && (
+          <div
+            className={`mb-6 p-4 rounded-xl text-sm text-center ${
+              linkStatus.state === "success"
+                ? "bg-green-100 text-green-800"
+                : linkStatus.state === "linking"
+                ? "bg-blue-100 text-blue-800"
+                : "bg-red-100 text-red-800"
+            }`}
+          >
+            <p>{linkStatus.message}</p>
+            {linkStatus.state === "signin" && (
+              <a href="/signin" className="inline-block mt-2 font-semibold underline">
+                Sign in
+              </a>
+            )}
+          </div>
+        )}
         <div className="space-y-4">
           <button
             onClick={handleAddToServer}
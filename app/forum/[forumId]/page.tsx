@@ -13,6 +13,24 @@ import {
   trackForumView,
 } from "../../../utils/analytics";
 
+const REPORT_REASONS = [
+  { value: "spam", label: "Spam" },
+  { value: "harassment", label: "Harassment" },
+  { value: "hate_speech", label: "Hate speech" },
+  { value: "inappropriate", label: "Inappropriate content" },
+  { value: "spoilers", label: "Unmarked spoilers" },
+  { value: "off_topic", label: "Off topic" },
+  { value: "other", label: "Other" },
+];
+
+const MODERATION_ACTION_MESSAGES: Record<string, string> = {
+  hide_post: "Post hidden.",
+  pin_post: "Post pinned.",
+  unpin_post: "Post unpinned.",
+  lock_forum: "Topic locked. No one can post until it's unlocked.",
+  unlock_forum: "Topic unlocked.",
+};
+
 export default function ForumPageWrapper({
   params,
 }: {
@@ -34,6 +52,7 @@ function ForumPage({ params }: { params: { forumId: string } }) {
     deletePost,
     likePost,
     reactToPost,
+    loadMorePosts,
     updateForumStatus,
   } = useForum();
   const [message, setMessage] = useState("");
@@ -42,6 +61,15 @@ function ForumPage({ params }: { params: { forumId: string } }) {
   const [username, setUsername] = useState<string | null>(null);
   const [isAdmin, setIsAdmin] = useState(false);
   const [statusActionLoading, setStatusActionLoading] = useState(false);
+  const [moderationLoading, setModerationLoading] = useState(false);
+  const [reportTarget, setReportTarget] = useState<{
+    targetType: "post" | "forum";
+    postId?: string;
+  } | null>(null);
+  const [reportReason, setReportReason] = useState("spam");
+  const [reportDetails, setReportDetails] = useState("");
+  const [reportSubmitting, setReportSubmitting] = useState(false);
+  const [loadingMorePosts, setLoadingMorePosts] = useState(false);
   const [editingPostId, setEditingPostId] = useState<string | null>(null);
   const [editMessage, setEditMessage] = useState("");
   const [selectedImages, setSelectedImages] = useState<File[]>([]);
@@ -95,9 +123,8 @@ function ForumPage({ params }: { params: { forumId: string } }) {
   useEffect(() => {
     const fetchForum = async () => {
       try {
-        const username = localStorage.getItem("username") || "test-user";
         const response = await axios.get(
-          `/api/getForumTopic?forumId=${params.forumId}&username=${username}`
+          `/api/getForumTopic?forumId=${params.forumId}`
         );
         setCurrentForum(response.data);
         // Track forum view
@@ -131,7 +158,7 @@ function ForumPage({ params }: { params: { forumId: string } }) {
           `/api/feedback/admin/check?username=${encodeURIComponent(u)}`
         );
         const data = await res.json();
-        setIsAdmin(data.isAdmin === true);
+        setIsAdmin(data.permissions?.includes("moderate_forums") === true);
       } catch {
         setIsAdmin(false);
       }
@@ -143,13 +170,71 @@ function ForumPage({ params }: { params: { forumId: string } }) {
     username && currentForum && (currentForum.createdBy === username || isAdmin)
   );
   const isReadOnly = currentForum?.metadata?.status === "archived";
+  const isLocked = Boolean(currentForum?.isLocked);
+  // Staff moderate every forum; creators moderate their own private forums
+  const canModerate = Boolean(
+    username &&
+      currentForum &&
+      (isAdmin ||
+        (currentForum.isPrivate && currentForum.createdBy === username))
+  );
+
+  const reloadForum = async () => {
+    const response = await axios.get(
+      `/api/getForumTopic?forumId=${params.forumId}&incrementView=false`
+    );
+    setCurrentForum(response.data);
+  };
+
+  const handleModerationAction = async (action: string, postId?: string) => {
+    if (!currentForum?.forumId) return;
+    setModerationLoading(true);
+    try {
+      await axios.post("/api/forum-moderation/actions", {
+        action,
+        forumId: currentForum.forumId,
+        postId,
+      });
+      toast.success(MODERATION_ACTION_MESSAGES[action] || "Done.");
+      await reloadForum();
+    } catch (err: any) {
+      toast.error(err.response?.data?.error || "Moderation action failed");
+    } finally {
+      setModerationLoading(false);
+    }
+  };
+
+  const openReport = (targetType: "post" | "forum", postId?: string) => {
+    setReportTarget({ targetType, postId });
+    setReportReason("spam");
+    setReportDetails("");
+  };
+
+  const handleSubmitReport = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!reportTarget || !currentForum?.forumId) return;
+    setReportSubmitting(true);
+    try {
+      const response = await axios.post("/api/forum-moderation/report", {
+        ...reportTarget,
+        forumId: currentForum.forumId,
+        reason: reportReason,
+        details: reportDetails.trim() || undefined,
+      });
+      toast.success(response.data.message || "Report submitted.");
+      setReportTarget(null);
+    } catch (err: any) {
+      toast.error(err.response?.data?.error || "Failed to submit report");
+    } finally {
+      setReportSubmitting(false);
+    }
+  };
 
   const handleForumStatusChange = async (newStatus: "active" | "archived") => {
     if (!currentForum?.forumId || !updateForumStatus) return;
     setStatusActionLoading(true);
     try {
-      const updated = await updateForumStatus(currentForum.forumId, newStatus);
-      if (updated) setCurrentForum(updated);
+      await updateForumStatus(currentForum.forumId, newStatus);
       toast.success(
         newStatus === "active"
           ? "Forum is now open for posts."
@@ -283,12 +368,7 @@ function ForumPage({ params }: { params: { forumId: string } }) {
       ) as HTMLInputElement;
       if (fileInput) fileInput.value = "";
 
-      // Fetch updated forum data
-      const username = localStorage.getItem("username") || "test-user";
-      const response = await axios.get(
-        `/api/getForumTopic?forumId=${params.forumId}&username=${username}`
-      );
-      setCurrentForum(response.data);
+      // The context already updates currentForum, so no need to fetch again
     } catch (err: any) {
       setIsPosting(false);
       // Handle image moderation errors with violation tracking
@@ -483,12 +563,7 @@ function ForumPage({ params }: { params: { forumId: string } }) {
       ) as HTMLInputElement;
       if (fileInput) fileInput.value = "";
 
-      // Fetch updated forum data
-      const username = localStorage.getItem("username") || "test-user";
-      const response = await axios.get(
-        `/api/getForumTopic?forumId=${params.forumId}&username=${username}`
-      );
-      setCurrentForum(response.data);
+      // The context already updates currentForum, so no need to fetch again
     } catch (err: any) {
       // Handle image moderation errors
       if (err.response?.status === 400 || err.response?.status === 403) {
@@ -680,12 +755,7 @@ function ForumPage({ params }: { params: { forumId: string } }) {
       await deletePost(params.forumId, postToDelete);
       setShowDeleteConfirm(false);
       setPostToDelete(null);
-      // Fetch updated forum data
-      const username = localStorage.getItem("username") || "test-user";
-      const response = await axios.get(
-        `/api/getForumTopic?forumId=${params.forumId}&username=${username}`
-      );
-      setCurrentForum(response.data);
+      // The context already updates currentForum, so no need to fetch again
     } catch (err: any) {
       setError(
         err.response?.data?.error || err.message || "Failed to delete post"
@@ -703,17 +773,23 @@ function ForumPage({ params }: { params: { forumId: string } }) {
   const handleLikePost = async (postId: string) => {
     try {
       await likePost(params.forumId, postId);
-      // Fetch updated forum data so the UI reflects the new like state/count
-      const username = localStorage.getItem("username") || "test-user";
-      const response = await axios.get(
-        `/api/getForumTopic?forumId=${params.forumId}&username=${username}`
-      );
-      setCurrentForum(response.data);
+      // The context already updates currentForum, so no need to fetch again
     } catch (err: any) {
       setError(err.message || "Failed to like post");
     }
   };
 
+  const handleLoadMorePosts = async () => {
+    setLoadingMorePosts(true);
+    try {
+      await loadMorePosts(params.forumId);
+    } catch (err: any) {
+      toast.error(err.response?.data?.error || "Failed to load more posts");
+    } finally {
+      setLoadingMorePosts(false);
+    }
+  };
+
   const handleReactToPost = async (postId: string, reactionType: string) => {
     try {
       await reactToPost(params.forumId, postId, reactionType);
@@ -891,12 +967,7 @@ function ForumPage({ params }: { params: { forumId: string } }) {
       ) as HTMLInputElement;
       if (fileInput) fileInput.value = "";
 
-      // Fetch updated forum data
-      const username = localStorage.getItem("username") || "test-user";
-      const response = await axios.get(
-        `/api/getForumTopic?forumId=${params.forumId}&username=${username}`
-      );
-      setCurrentForum(response.data);
+      // The context already updates currentForum, so no need to fetch again
     } catch (err: any) {
       setIsReplyPosting(false);
       // Handle errors similar to regular post submission
@@ -1200,6 +1271,63 @@ function ForumPage({ params }: { params: { forumId: string } }) {
         </div>
       )}
 
+      {/* Report Modal */}
+      {reportTarget && (
+        <div className="fixed inset-0 z-50 flex items-center justify-center bg-black bg-opacity-60">
+          <form
+            onSubmit={handleSubmitReport}
+            className="bg-white dark:bg-gray-800 p-6 rounded-lg shadow-lg max-w-md w-full mx-4"
+          >
+            <h3 className="text-xl font-bold mb-4 text-gray-900 dark:text-gray-100">
+              {reportTarget.targetType === "post" ? "Report Post" : "Report Forum"}
+            </h3>
+            <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+              Reason
+            </label>
+            <select
+              value={reportReason}
+              onChange={(e) => setReportReason(e.target.value)}
+              className="w-full p-2 mb-4 border border-gray-300 dark:border-gray-600 rounded bg-white dark:bg-gray-900 text-gray-900 dark:text-gray-100"
+            >
+              {REPORT_REASONS.map((reason) => (
+                <option key={reason.value} value={reason.value}>
+                  {reason.label}
+                </option>
+              ))}
+            </select>
+            <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+              Details {reportReason === "other" ? "" : "(optional)"}
+            </label>
+            <textarea
+              value={reportDetails}
+              onChange={(e) => setReportDetails(e.target.value)}
+              maxLength={1000}
+              rows={3}
+              className="w-full p-2 mb-6 border border-gray-300 dark:border-gray-600 rounded bg-white dark:bg-gray-900 text-gray-900 dark:text-gray-100"
+            />
+            <div className="flex space-x-4 justify-end">
+              <button
+                type="button"
+                onClick={() => setReportTarget(null)}
+                className="px-4 py-2 bg-gray-200 dark:bg-gray-700 text-gray-800 dark:text-gray-200 rounded hover:bg-gray-300 dark:hover:bg-gray-600 transition-colors"
+              >
+                Cancel
+              </button>
+              <button
+                type="submit"
+                disabled={
+                  reportSubmitting ||
+                  (reportReason === "other" && !reportDetails.trim())
+                }
+                className="px-4 py-2 bg-red-500 text-white rounded hover:bg-red-600 disabled:opacity-50 transition-colors"
+              >
+                {reportSubmitting ? "Reporting…" : "Report"}
+              </button>
+            </div>
+          </form>
+        </div>
+      )}
+
       <button
         onClick={() => router.push("/")}
         className="mb-4 px-4 py-2 rounded font-semibold transition
@@ -1220,13 +1348,40 @@ function ForumPage({ params }: { params: { forumId: string } }) {
               <p>Game: {currentForum.gameTitle}</p>
               <p>Category: {currentForum.category}</p>
               <p>Status: {currentForum.metadata.status}</p>
-              <p>Total Posts: {currentForum.posts?.length || 0}</p>
+              <p>Total Posts: {currentForum.metadata.totalPosts ?? currentForum.posts?.length ?? 0}</p>
               <p>Views: {currentForum.metadata.viewCount}</p>
               {currentForum.isPrivate && (
                 <p className="text-blue-600 font-semibold">🔒 Private Forum</p>
               )}
+              {isLocked && (
+                <p className="text-amber-600 font-semibold">🔐 Locked</p>
+              )}
             </div>
           </div>
+          {/* Lock / Unlock — moderators; Report — everyone else */}
+          <div className="flex flex-wrap gap-2">
+            {canModerate && (
+              <button
+                type="button"
+                onClick={() =>
+                  handleModerationAction(isLocked ? "unlock_forum" : "lock_forum")
+                }
+                disabled={moderationLoading}
+                className="px-4 py-2 rounded bg-amber-600 text-white hover:bg-amber-700 disabled:opacity-50 text-sm font-medium"
+              >
+                {isLocked ? "Unlock Topic" : "Lock Topic"}
+              </button>
+            )}
+            {username && currentForum.createdBy !== username && (
+              <button
+                type="button"
+                onClick={() => openReport("forum")}
+                className="px-4 py-2 rounded border border-red-400 text-red-600 hover:bg-red-50 dark:hover:bg-red-950/30 text-sm font-medium"
+              >
+                Report
+              </button>
+            )}
+          </div>
           {/* Archive / Restore — creator or admin only */}
           {isCreatorOrAdmin && (
             <div className="flex flex-wrap gap-2">
@@ -1269,6 +1424,18 @@ function ForumPage({ params }: { params: { forumId: string } }) {
             </p>
           </div>
         )}
+        {/* Banner when locked by a moderator */}
+        {isLocked && !isReadOnly && (
+          <div
+            className="mt-4 p-4 rounded-lg border bg-amber-50 dark:bg-amber-950/30 border-amber-200 dark:border-amber-800 text-amber-900 dark:text-amber-200"
+            role="status"
+          >
+            <p className="font-medium">🔐 This topic is locked.</p>
+            <p className="text-sm mt-1 opacity-90">
+              A moderator has closed this topic to new posts and replies.
+            </p>
+          </div>
+        )}
       </div>
 
       {/* User Management for Private Forums */}
@@ -1277,7 +1444,7 @@ function ForumPage({ params }: { params: { forumId: string } }) {
           forumId={currentForum.forumId}
           allowedUsers={currentForum.allowedUsers}
           createdBy={currentForum.createdBy}
-          currentUsername={localStorage.getItem("username") || "test-user"}
+          currentUsername={localStorage.getItem("username") || ""}
           onUsersUpdated={(newUsers) => {
             // Update the current forum state
             setCurrentForum({
@@ -1293,6 +1460,10 @@ function ForumPage({ params }: { params: { forumId: string } }) {
           <div className="p-4 rounded-lg border border-gray-200 dark:border-gray-700 bg-gray-50 dark:bg-gray-800/50 text-gray-600 dark:text-gray-400 text-center">
             This forum is archived. No new posts or replies.
           </div>
+        ) : isLocked ? (
+          <div className="p-4 rounded-lg border border-gray-200 dark:border-gray-700 bg-gray-50 dark:bg-gray-800/50 text-gray-600 dark:text-gray-400 text-center">
+            This topic is locked. No new posts or replies.
+          </div>
         ) : username ? (
           <form onSubmit={handlePostSubmit} className="space-y-4">
             <textarea
@@ -1406,6 +1577,35 @@ function ForumPage({ params }: { params: { forumId: string } }) {
         )}
       </div>
 
+      {/* Pinned Posts */}
+      {currentForum.pinnedPosts && currentForum.pinnedPosts.length > 0 && (
+        <div className="mb-6 space-y-2">
+          <h2 className="text-lg font-semibold">📌 Pinned</h2>
+          {currentForum.pinnedPosts.map((pinned) => (
+            <div
+              key={`pinned-${pinned._id}`}
+              className="p-4 rounded-lg border border-amber-300 dark:border-amber-700 bg-amber-50 dark:bg-amber-950/30"
+            >
+              <div className="flex justify-between items-start gap-2">
+                <p className="font-semibold">{pinned.username}</p>
+                {canModerate && (
+                  <button
+                    onClick={() => handleModerationAction("unpin_post", pinned._id)}
+                    disabled={moderationLoading}
+                    className="text-sm text-amber-700 hover:text-amber-900 dark:text-amber-300 disabled:opacity-50"
+                  >
+                    Unpin
+                  </button>
+                )}
+              </div>
+              <p className="mt-1 whitespace-pre-wrap break-words">
+                {pinned.message}
+              </p>
+            </div>
+          ))}
+        </div>
+      )}
+
       <div className="space-y-4">
         {processedPosts.map(({ post, replyDepth }) => {
           // Find the original post if this is a reply
@@ -1852,7 +2052,7 @@ function ForumPage({ params }: { params: { forumId: string } }) {
                         <div className="flex items-center space-x-2">
                           {["🔥", "💡", "❓", "❤️"].map((emoji) => {
                             const currentUsername =
-                              localStorage.getItem("username") || "test-user";
+                              localStorage.getItem("username") || "";
                             const reactions = post.metadata?.reactions || {};
                             const reactionUsers = reactions[emoji] || [];
                             const hasReacted =
@@ -1886,7 +2086,7 @@ function ForumPage({ params }: { params: { forumId: string } }) {
                             );
                           })}
                         </div>
-                        {!isReadOnly && (
+                        {!isReadOnly && !isLocked && (
                           <button
                             onClick={() => handleStartReply(post._id)}
                             className="text-green-500 hover:text-green-700 dark:text-green-400 dark:hover:text-green-300"
@@ -1895,7 +2095,7 @@ function ForumPage({ params }: { params: { forumId: string } }) {
                           </button>
                         )}
                         {post.createdBy ===
-                          (localStorage.getItem("username") || "test-user") && (
+                          (localStorage.getItem("username") || "") && (
                           <>
                             <button
                               onClick={() =>
@@ -1917,6 +2117,39 @@ function ForumPage({ params }: { params: { forumId: string } }) {
                             </button>
                           </>
                         )}
+                        {username && post.createdBy !== username && (
+                          <button
+                            onClick={() => openReport("post", post._id)}
+                            className="text-gray-500 hover:text-red-600 dark:text-gray-400"
+                          >
+                            Report
+                          </button>
+                        )}
+                        {canModerate && (
+                          <>
+                            <button
+                              onClick={() =>
+                                handleModerationAction(
+                                  post.metadata?.isPinned ? "unpin_post" : "pin_post",
+                                  post._id
+                                )
+                              }
+                              disabled={moderationLoading}
+                              className="text-amber-600 hover:text-amber-800 disabled:opacity-50"
+                            >
+                              {post.metadata?.isPinned ? "Unpin" : "Pin"}
+                            </button>
+                            <button
+                              onClick={() =>
+                                handleModerationAction("hide_post", post._id)
+                              }
+                              disabled={moderationLoading}
+                              className="text-gray-600 hover:text-gray-800 dark:text-gray-300 disabled:opacity-50"
+                            >
+                              Hide
+                            </button>
+                          </>
+                        )}
                       </div>
                     )}
 
@@ -2058,6 +2291,18 @@ function ForumPage({ params }: { params: { forumId: string } }) {
             No posts yet. Be the first to add a post!
           </div>
         )}
+
+        {currentForum.postsPagination?.hasMore && (
+          <div className="text-center py-4">
+            <button
+              onClick={handleLoadMorePosts}
+              disabled={loadingMorePosts}
+              className="px-4 py-2 rounded bg-gray-200 text-gray-800 hover:bg-gray-300 dark:bg-gray-700 dark:text-gray-100 dark:hover:bg-gray-600 disabled:opacity-50"
+            >
+              {loadingMorePosts ? "Loading..." : "Load more posts"}
+            </button>
+          </div>
+        )}
       </div>
     </div>
   );
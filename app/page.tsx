@@ -2,18 +2,28 @@
 
 import { useState, useEffect, useCallback, useMemo } from "react";
 import axios from "../utils/axiosConfig";
+import { ensureTokenValid } from "../utils/tokenRefresh";
 import Sidebar from "../components/Sidebar";
+import { streamAssistantAnswer } from "../utils/assistantStreamClient";
 import Image from "next/image";
-import { Conversation } from "../types";
+import {
+  Conversation,
+  ModerationReviewPlatform,
+  SignInSuccessResponse,
+} from "../types";
 import ForumList from "../components/ForumList";
 import { ForumProvider } from "../context/ForumContext";
 import PasswordSetupModal from "../components/PasswordSetupModal";
+import TwoFactorChallenge from "../components/TwoFactorChallenge";
 import EarlyAccessSetupModal from "../components/EarlyAccessSetupModal";
 import FeedbackForm from "../components/FeedbackForm";
 import MyFeedbackList from "../components/MyFeedbackList";
 import AdminFeedbackDashboard from "../components/AdminFeedbackDashboard";
 import FeedbackList from "../components/FeedbackList";
 import FeedbackDetail from "../components/FeedbackDetail";
+import ModerationReviewQueue from "../components/ModerationReviewQueue";
+import ForumReportsQueue from "../components/ForumReportsQueue";
+import ModerationAppealForm from "../components/ModerationAppealForm";
 // import useSocket from "../hooks/useSocket"; // DISABLED due to 404 errors
 import useAchievementPolling from "../hooks/useAchievementPolling";
 import useHealthMonitoring from "../hooks/useHealthMonitoring";
@@ -39,6 +49,8 @@ export default function Home() {
   const [selectedConversation, setSelectedConversation] =
     useState<Conversation | null>(null);
   const [conversations, setConversations] = useState<Conversation[]>([]);
+  // Thread that follow-up questions are sent to (null starts a new conversation)
+  const [activeThreadId, setActiveThreadId] = useState<string | null>(null);
   const [totalConversations, setTotalConversations] = useState<number>(0);
   const [metrics, setMetrics] = useState<any>({});
   const [recommendations, setRecommendations] = useState<any>(null);
@@ -73,6 +85,9 @@ export default function Home() {
   const [lockoutMessage, setLockoutMessage] = useState("");
   const [lockedUntil, setLockedUntil] = useState<Date | null>(null);
   const [requiresUnlock, setRequiresUnlock] = useState(false);
+  const [twoFactorChallengeToken, setTwoFactorChallengeToken] = useState<
+    string | null
+  >(null);
   const [savingGuide, setSavingGuide] = useState(false);
   const [guideSaved, setGuideSaved] = useState(false);
   const [showGuidesModal, setShowGuidesModal] = useState(false);
@@ -86,8 +101,14 @@ export default function Home() {
   const [isAdmin, setIsAdmin] = useState(false);
   const [selectedFeedback, setSelectedFeedback] = useState<any>(null);
   const [feedbackView, setFeedbackView] = useState<
-    "form" | "my-feedback" | "admin-dashboard" | "admin-list"
+    "form" | "my-feedback" | "admin-dashboard" | "admin-list" | "admin-moderation"
   >("form");
+  // Platforms whose violations the signed-in staff member can review
+  const [moderationPlatforms, setModerationPlatforms] = useState<
+    ModerationReviewPlatform[]
+  >([]);
+  // Shown when the assistant reports a suspension that can be appealed
+  const [showAppealForm, setShowAppealForm] = useState(false);
 
   // Track break reminder enabled setting
   // Default to false (disabled) until we load settings from database
@@ -515,7 +536,7 @@ export default function Home() {
           // Try to fetch user by username
           try {
             const res = await axios.get(
-              `/api/findUserByUsername?username=${storedUsername}`
+              "/api/findUserByUsername"
             );
             if (res.data && res.data.user) {
               // Existing user: sync userId/email from backend
@@ -564,9 +585,7 @@ export default function Home() {
     }
 
     try {
-      const response = await axios.post("/api/accountData", {
-        username,
-      });
+      const response = await axios.post("/api/accountData", {});
 
       if (response.data?.user?.healthMonitoring) {
         // Use the actual setting from database, default to false if not set
@@ -683,7 +702,7 @@ export default function Home() {
             // Fetch new user data
             try {
               const res = await axios.get(
-                `/api/findUserByUsername?username=${newUsername}`
+                "/api/findUserByUsername"
               );
               if (res.data && res.data.user) {
                 // Update state with new user
@@ -858,6 +877,7 @@ export default function Home() {
         // Reset user type and admin status when no username
         setUserType("free");
         setIsAdmin(false);
+        setModerationPlatforms([]);
         return;
       }
 
@@ -873,13 +893,26 @@ export default function Home() {
 
         if (adminCheckResponse.ok) {
           const checkResult = await adminCheckResponse.json();
-          if (checkResult.isAdmin) {
+          // Any staff role that can read feedback gets the admin feedback views
+          if (checkResult.permissions?.includes("view_feedback")) {
             setIsAdmin(true);
             // Set default view to admin dashboard for admins
             setFeedbackView("admin-dashboard");
           } else {
             setIsAdmin(false);
           }
+          const permissions: string[] = checkResult.permissions || [];
+          setModerationPlatforms(
+            (
+              [
+                ["web", "moderate_forums"],
+                ["twitch", "moderate_twitch"],
+                ["discord", "moderate_discord"],
+              ] as [ModerationReviewPlatform, string][]
+            )
+              .filter(([, permission]) => permissions.includes(permission))
+              .map(([platform]) => platform)
+          );
         } else {
           setIsAdmin(false);
         }
@@ -912,6 +945,8 @@ export default function Home() {
     if (selectedConversation) {
       setQuestion(selectedConversation.question);
       setResponse(selectedConversation.response);
+      // Follow-up questions continue the selected conversation's thread
+      setActiveThreadId(selectedConversation.threadId || null);
       // Load image URL from conversation if it exists
       if (selectedConversation.imageUrl) {
         setResponseImageUrl(selectedConversation.imageUrl);
@@ -961,6 +996,7 @@ export default function Home() {
 
     setLoading(true);
     setError("");
+    setShowAppealForm(false);
     // Clear previous recommendations when asking a new question
     setRecommendations(null);
     setRecommendationsLoading(false);
@@ -1058,22 +1094,22 @@ export default function Home() {
 
       let res;
       try {
-        res = await axios.post(
-          "/api/assistant",
+        // Stream the answer so long walkthroughs render while they are generated
+        let streamedAnswer = "";
+        const finalPayload = await streamAssistantAnswer(
           {
             question,
             imageFilePath: imageFilePath, // For backward compatibility
             imageUrl: imageUrlForAnalysis, // New: cloud storage URL
+            threadId: activeThreadId || undefined, // Continue the current conversation thread
             // Note: username and userId are now extracted from JWT token in cookies
           },
-          {
-            timeout: 65000, // Increased timeout to 65 seconds to accommodate vision API calls (60s + buffer)
-            headers: {
-              "Content-Type": "application/json",
-            },
-            withCredentials: true, // Ensure cookies are sent
+          (delta) => {
+            streamedAnswer += delta;
+            setResponse(streamedAnswer);
           }
         );
+        res = { data: finalPayload };
       } catch (error: any) {
         // Handle authentication errors
         // Note: The axios interceptor should have already tried to refresh the token
@@ -1108,6 +1144,9 @@ export default function Home() {
       // console.log("Response:", res.data); // Commented out for production
 
       setResponse(res.data.answer);
+      if (res.data.threadId) {
+        setActiveThreadId(res.data.threadId);
+      }
       if (res.data.metrics) {
         setMetrics(res.data.metrics);
       }
@@ -1128,6 +1167,7 @@ export default function Home() {
         response: res.data.answer,
         timestamp: new Date(),
         imageUrl: imageUrlForAnalysis || undefined,
+        threadId: res.data.threadId,
       };
 
       // Add to conversations list immediately (optimistic update) - happens synchronously
@@ -1205,6 +1245,13 @@ export default function Home() {
           error.response?.data?.message ||
             "There was an error processing your request. Please try again."
         );
+        // Suspended users can appeal from here
+        if (
+          error.response?.status === 403 &&
+          error.response?.data?.appeal?.allowed
+        ) {
+          setShowAppealForm(true);
+        }
       }
     } finally {
       setLoading(false);
@@ -1240,6 +1287,7 @@ export default function Home() {
     setResponse("");
     setError("");
     setSelectedConversation(null);
+    setActiveThreadId(null); // Next question starts a new conversation thread
     setImage(null);
     setImageUrl(null);
     setResponseImageUrl(null); // Clear response image too
@@ -1272,16 +1320,10 @@ export default function Home() {
   };
 
   // handle twitch authentication (for linking viewer accounts)
-  const handleTwitchAuth = () => {
-    // Get username from localStorage
-    const username = localStorage.getItem("username");
-
-    // Use the new dedicated viewer OAuth flow
-    const loginUrl = username
-      ? `/api/twitchViewerLogin?username=${encodeURIComponent(username)}`
-      : "/api/twitchViewerLogin";
-
-    window.location.href = loginUrl;
+  const handleTwitchAuth = async () => {
+    // Use the dedicated viewer OAuth flow; it takes the account from the session
+    await ensureTokenValid();
+    window.location.href = "/api/twitchViewerLogin";
   };
 
   const handleDiscordAuth = async () => {
@@ -1302,11 +1344,9 @@ export default function Home() {
           ? "https://assistant.videogamewingman.com"
           : "http://localhost:3000";
 
-      // Construct the Discord login URL with username parameter
-      // This ensures the correct Video Game Wingman account is linked to the Discord account
-      const discordLoginUrl = `${domain}/api/discordLogin?username=${encodeURIComponent(
-        currentUsername
-      )}`;
+      // The Discord account is linked to the signed-in account, so make sure the session is fresh
+      await ensureTokenValid();
+      const discordLoginUrl = `${domain}/api/discordLogin`;
 
       // Open Discord login in new tab instead of current window
       window.open(discordLoginUrl, "_blank");
@@ -1642,6 +1682,52 @@ export default function Home() {
     );
   };
 
+  // Store the signed-in user and continue; shared by password sign-in and the two-factor step
+  const completeSignIn = (data: SignInSuccessResponse) => {
+    setTwoFactorChallengeToken(null);
+
+    // Get old values before updating
+    const oldUsername = localStorage.getItem("username");
+    const oldUserId = localStorage.getItem("userId");
+
+    // Update localStorage
+    localStorage.setItem("username", data.user.username);
+    localStorage.setItem("userId", data.user.userId);
+    localStorage.setItem("userEmail", data.user.email);
+
+    // Dispatch custom events to notify Sidebar and other components
+    window.dispatchEvent(
+      new CustomEvent("localStorageChange", {
+        detail: {
+          key: "username",
+          oldValue: oldUsername,
+          newValue: data.user.username,
+        },
+      })
+    );
+    window.dispatchEvent(
+      new CustomEvent("localStorageChange", {
+        detail: {
+          key: "userId",
+          oldValue: oldUserId,
+          newValue: data.user.userId,
+        },
+      })
+    );
+
+    // Update state
+    setUsername(data.user.username);
+    setUserId(data.user.userId);
+    setShowUsernameModal(false);
+    setConversations([]); // Clear old conversations
+    fetchConversations(); // Fetch new user's conversations
+
+    // Check if user needs to set up password (legacy user)
+    if (data.requiresPasswordSetup && data.isLegacyUser) {
+      setShowPasswordSetupModal(true);
+    }
+  };
+
   const handleUsernameSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     setUsernameError("");
@@ -1698,47 +1784,10 @@ export default function Home() {
         }
       );
 
-      if (res.data && res.data.user) {
-        // Get old values before updating
-        const oldUsername = localStorage.getItem("username");
-        const oldUserId = localStorage.getItem("userId");
-
-        // Update localStorage
-        localStorage.setItem("username", res.data.user.username);
-        localStorage.setItem("userId", res.data.user.userId);
-        localStorage.setItem("userEmail", res.data.user.email);
-
-        // Dispatch custom events to notify Sidebar and other components
-        window.dispatchEvent(
-          new CustomEvent("localStorageChange", {
-            detail: {
-              key: "username",
-              oldValue: oldUsername,
-              newValue: res.data.user.username,
-            },
-          })
-        );
-        window.dispatchEvent(
-          new CustomEvent("localStorageChange", {
-            detail: {
-              key: "userId",
-              oldValue: oldUserId,
-              newValue: res.data.user.userId,
-            },
-          })
-        );
-
-        // Update state
-        setUsername(res.data.user.username);
-        setUserId(res.data.user.userId);
-        setShowUsernameModal(false);
-        setConversations([]); // Clear old conversations
-        fetchConversations(); // Fetch new user's conversations
-
-        // Check if user needs to set up password (legacy user)
-        if (res.data.requiresPasswordSetup && res.data.isLegacyUser) {
-          setShowPasswordSetupModal(true);
-        }
+      if (res.data && res.data.requiresTwoFactor) {
+        setTwoFactorChallengeToken(res.data.challengeToken);
+      } else if (res.data && res.data.user) {
+        completeSignIn(res.data);
       }
     } catch (err: any) {
       // Check if account is locked
@@ -1863,6 +1912,8 @@ export default function Home() {
       setEarlyAccessUserData(null);
       setUserType("free"); // Reset user type on sign out
       setIsAdmin(false); // Reset admin status on sign out
+      setModerationPlatforms([]);
+      setShowAppealForm(false);
 
       // Clear localStorage
       localStorage.removeItem("username");
@@ -1976,6 +2027,7 @@ export default function Home() {
             setLockoutMessage("");
             setLockedUntil(null);
             setRequiresUnlock(false);
+            setTwoFactorChallengeToken(null);
           }}
         >
           <div
@@ -1990,6 +2042,7 @@ export default function Home() {
                 setLockoutMessage("");
                 setLockedUntil(null);
                 setRequiresUnlock(false);
+                setTwoFactorChallengeToken(null);
               }}
               className="absolute top-4 right-4 text-gray-400 hover:text-gray-600 dark:hover:text-gray-300 transition-colors"
               aria-label="Close sign in modal"
@@ -2017,136 +2070,147 @@ export default function Home() {
               priority
             />
             <h2 className="text-2xl font-bold mb-4 text-center">Sign In</h2>
-            <form
-              onSubmit={handleUsernameSubmit}
-              className="space-y-4 w-full mt-2"
-              noValidate
-            >
-              <div>
-                <input
-                  type="text"
-                  value={usernameInput}
-                  onChange={(e) => setUsernameInput(e.target.value)}
-                  placeholder="Username or email"
-                  className="w-full p-3 border border-gray-300 dark:border-gray-600 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent bg-white dark:bg-gray-800 text-gray-900 dark:text-white placeholder-gray-500 dark:placeholder-gray-400"
-                  minLength={3}
-                  maxLength={320}
-                  required
-                  autoFocus
-                />
-              </div>
-              <div className="relative">
-                <input
-                  type={showPassword ? "text" : "password"}
-                  value={passwordInput}
-                  onChange={(e) => setPasswordInput(e.target.value)}
-                  placeholder="Password (optional for legacy users)"
-                  className="w-full p-3 pr-12 border border-gray-300 dark:border-gray-600 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent bg-white dark:bg-gray-800 text-gray-900 dark:text-white placeholder-gray-500 dark:placeholder-gray-400"
-                />
-                <button
-                  type="button"
-                  onClick={() => setShowPassword(!showPassword)}
-                  className="absolute inset-y-0 right-0 pr-3 flex items-center text-gray-400 hover:text-gray-600 dark:hover:text-gray-300 transition-colors"
-                >
-                  {showPassword ? (
-                    <svg
-                      className="h-5 w-5"
-                      fill="none"
-                      viewBox="0 0 24 24"
-                      stroke="currentColor"
-                    >
-                      <path
-                        strokeLinecap="round"
-                        strokeLinejoin="round"
-                        strokeWidth={2}
-                        d="M15 12a3 3 0 11-6 0 3 3 0 016 0z"
-                      />
-                      <path
-                        strokeLinecap="round"
-                        strokeLinejoin="round"
-                        strokeWidth={2}
-                        d="M2.458 12C3.732 7.943 7.523 5 12 5c4.478 0 8.268 2.943 9.542 7-1.274 4.057-5.064 7-9.542 7-4.477 0-8.268-2.943-9.542-7z"
-                      />
-                    </svg>
-                  ) : (
-                    <svg
-                      className="h-5 w-5"
-                      fill="none"
-                      viewBox="0 0 24 24"
-                      stroke="currentColor"
-                    >
-                      <path
-                        strokeLinecap="round"
-                        strokeLinejoin="round"
-                        strokeWidth={2}
-                        d="M13.875 18.825A10.05 10.05 0 0112 19c-4.478 0-8.268-2.943-9.543-7a9.97 9.97 0 011.563-3.029m5.858.908a3 3 0 114.243 4.243M9.878 9.878l4.242 4.242M9.878 9.878L3 3m6.878 6.878L21 21"
-                      />
-                    </svg>
-                  )}
-                </button>
-              </div>
-              {/* Account Lockout Message */}
-              {accountLocked && (
-                <div className="p-3 bg-yellow-100 dark:bg-yellow-900/30 border border-yellow-400 dark:border-yellow-700 rounded-lg mb-3">
-                  <div className="flex items-start">
-                    <svg
-                      className="h-5 w-5 text-yellow-600 dark:text-yellow-400 mr-2 mt-0.5 flex-shrink-0"
-                      fill="none"
-                      viewBox="0 0 24 24"
-                      stroke="currentColor"
-                    >
-                      <path
-                        strokeLinecap="round"
-                        strokeLinejoin="round"
-                        strokeWidth={2}
-                        d="M12 9v2m0 4h.01m-6.938 4h13.856c1.54 0 2.502-1.667 1.732-3L13.732 4c-.77-1.333-2.694-1.333-3.464 0L3.34 16c-.77 1.333.192 3 1.732 3z"
-                      />
-                    </svg>
-                    <div className="flex-1">
-                      <p className="text-yellow-800 dark:text-yellow-200 text-sm font-medium mb-1">
-                        Account Locked
-                      </p>
-                      <p className="text-yellow-700 dark:text-yellow-300 text-xs mb-1">
-                        {lockoutMessage}
-                      </p>
-                      {lockedUntil && !requiresUnlock && (
-                        <p className="text-yellow-600 dark:text-yellow-400 text-xs">
-                          Try again in{" "}
-                          {Math.ceil(
-                            (lockedUntil.getTime() - Date.now()) / (60 * 1000)
-                          )}{" "}
-                          minute(s).
+            {twoFactorChallengeToken ? (
+              <TwoFactorChallenge
+                challengeToken={twoFactorChallengeToken}
+                onSuccess={completeSignIn}
+                onCancel={() => {
+                  setTwoFactorChallengeToken(null);
+                  setPasswordInput("");
+                }}
+              />
+            ) : (
+              <form
+                onSubmit={handleUsernameSubmit}
+                className="space-y-4 w-full mt-2"
+                noValidate
+              >
+                <div>
+                  <input
+                    type="text"
+                    value={usernameInput}
+                    onChange={(e) => setUsernameInput(e.target.value)}
+                    placeholder="Username or email"
+                    className="w-full p-3 border border-gray-300 dark:border-gray-600 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent bg-white dark:bg-gray-800 text-gray-900 dark:text-white placeholder-gray-500 dark:placeholder-gray-400"
+                    minLength={3}
+                    maxLength={320}
+                    required
+                    autoFocus
+                  />
+                </div>
+                <div className="relative">
+                  <input
+                    type={showPassword ? "text" : "password"}
+                    value={passwordInput}
+                    onChange={(e) => setPasswordInput(e.target.value)}
+                    placeholder="Password (optional for legacy users)"
+                    className="w-full p-3 pr-12 border border-gray-300 dark:border-gray-600 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent bg-white dark:bg-gray-800 text-gray-900 dark:text-white placeholder-gray-500 dark:placeholder-gray-400"
+                  />
+                  <button
+                    type="button"
+                    onClick={() => setShowPassword(!showPassword)}
+                    className="absolute inset-y-0 right-0 pr-3 flex items-center text-gray-400 hover:text-gray-600 dark:hover:text-gray-300 transition-colors"
+                  >
+                    {showPassword ? (
+                      <svg
+                        className="h-5 w-5"
+                        fill="none"
+                        viewBox="0 0 24 24"
+                        stroke="currentColor"
+                      >
+                        <path
+                          strokeLinecap="round"
+                          strokeLinejoin="round"
+                          strokeWidth={2}
+                          d="M15 12a3 3 0 11-6 0 3 3 0 016 0z"
+                        />
+                        <path
+                          strokeLinecap="round"
+                          strokeLinejoin="round"
+                          strokeWidth={2}
+                          d="M2.458 12C3.732 7.943 7.523 5 12 5c4.478 0 8.268 2.943 9.542 7-1.274 4.057-5.064 7-9.542 7-4.477 0-8.268-2.943-9.542-7z"
+                        />
+                      </svg>
+                    ) : (
+                      <svg
+                        className="h-5 w-5"
+                        fill="none"
+                        viewBox="0 0 24 24"
+                        stroke="currentColor"
+                      >
+                        <path
+                          strokeLinecap="round"
+                          strokeLinejoin="round"
+                          strokeWidth={2}
+                          d="M13.875 18.825A10.05 10.05 0 0112 19c-4.478 0-8.268-2.943-9.543-7a9.97 9.97 0 011.563-3.029m5.858.908a3 3 0 114.243 4.243M9.878 9.878l4.242 4.242M9.878 9.878L3 3m6.878 6.878L21 21"
+                        />
+                      </svg>
+                    )}
+                  </button>
+                </div>
+                {/* Account Lockout Message */}
+                {accountLocked && (
+                  <div className="p-3 bg-yellow-100 dark:bg-yellow-900/30 border border-yellow-400 dark:border-yellow-700 rounded-lg mb-3">
+                    <div className="flex items-start">
+                      <svg
+                        className="h-5 w-5 text-yellow-600 dark:text-yellow-400 mr-2 mt-0.5 flex-shrink-0"
+                        fill="none"
+                        viewBox="0 0 24 24"
+                        stroke="currentColor"
+                      >
+                        <path
+                          strokeLinecap="round"
+                          strokeLinejoin="round"
+                          strokeWidth={2}
+                          d="M12 9v2m0 4h.01m-6.938 4h13.856c1.54 0 2.502-1.667 1.732-3L13.732 4c-.77-1.333-2.694-1.333-3.464 0L3.34 16c-.77 1.333.192 3 1.732 3z"
+                        />
+                      </svg>
+                      <div className="flex-1">
+                        <p className="text-yellow-800 dark:text-yellow-200 text-sm font-medium mb-1">
+                          Account Locked
                         </p>
-                      )}
-                      {requiresUnlock && (
-                        <p className="text-yellow-600 dark:text-yellow-400 text-xs mt-1">
-                          Check your email for unlock instructions.
+                        <p className="text-yellow-700 dark:text-yellow-300 text-xs mb-1">
+                          {lockoutMessage}
                         </p>
-                      )}
+                        {lockedUntil && !requiresUnlock && (
+                          <p className="text-yellow-600 dark:text-yellow-400 text-xs">
+                            Try again in{" "}
+                            {Math.ceil(
+                              (lockedUntil.getTime() - Date.now()) / (60 * 1000)
+                            )}{" "}
+                            minute(s).
+                          </p>
+                        )}
+                        {requiresUnlock && (
+                          <p className="text-yellow-600 dark:text-yellow-400 text-xs mt-1">
+                            Check your email for unlock instructions.
+                          </p>
+                        )}
+                      </div>
                     </div>
                   </div>
-                </div>
-              )}
+                )}
 
-              {/* Regular Error Message */}
-              {usernameError && !accountLocked && (
-                <p className="text-red-500 text-sm">{usernameError}</p>
-              )}
-              <button
-                type="submit"
-                disabled={isSigningIn}
-                className="w-full p-3 bg-gradient-to-r from-indigo-600 to-purple-600 text-white rounded-lg hover:from-indigo-700 hover:to-purple-700 transition-all duration-300 font-semibold disabled:opacity-50 disabled:cursor-not-allowed"
-              >
-                {isSigningIn ? (
-                  <div className="flex items-center justify-center">
-                    <div className="animate-spin rounded-full h-5 w-5 border-b-2 border-white mr-2"></div>
-                    Signing In...
-                  </div>
-                ) : (
-                  "Sign In"
+                {/* Regular Error Message */}
+                {usernameError && !accountLocked && (
+                  <p className="text-red-500 text-sm">{usernameError}</p>
                 )}
-              </button>
-            </form>
+                <button
+                  type="submit"
+                  disabled={isSigningIn}
+                  className="w-full p-3 bg-gradient-to-r from-indigo-600 to-purple-600 text-white rounded-lg hover:from-indigo-700 hover:to-purple-700 transition-all duration-300 font-semibold disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                  {isSigningIn ? (
+                    <div className="flex items-center justify-center">
+                      <div className="animate-spin rounded-full h-5 w-5 border-b-2 border-white mr-2"></div>
+                      Signing In...
+                    </div>
+                  ) : (
+                    "Sign In"
+                  )}
+                </button>
+              </form>
+            )}
 
             {/* Forgot Password Link */}
             <div className="mt-4 text-center">
@@ -2590,6 +2654,18 @@ export default function Home() {
                         >
                           All Feedback
                         </button>
+                        {moderationPlatforms.length > 0 && (
+                          <button
+                            onClick={() => setFeedbackView("admin-moderation")}
+                            className={`px-4 py-2 rounded-md text-sm font-medium transition-colors ${
+                              feedbackView === "admin-moderation"
+                                ? "bg-blue-600 text-white"
+                                : "bg-gray-100 text-gray-700 hover:bg-gray-200"
+                            }`}
+                          >
+                            Moderation
+                          </button>
+                        )}
                       </>
                     )}
                   </div>
@@ -2642,6 +2718,17 @@ export default function Home() {
                     onFeedbackSelect={setSelectedFeedback}
                   />
                 )}
+
+                {isAdmin &&
+                  feedbackView === "admin-moderation" &&
+                  moderationPlatforms.length > 0 && (
+                    <>
+                      <ModerationReviewQueue platforms={moderationPlatforms} />
+                      {moderationPlatforms.includes("web") && (
+                        <ForumReportsQueue />
+                      )}
+                    </>
+                  )}
               </div>
             )}
 
@@ -2676,6 +2763,9 @@ export default function Home() {
 
             {loading && <div className="spinner mt-4"></div>}
             {error && <div className="mt-4 text-red-500">{error}</div>}
+            {showAppealForm && (
+              <ModerationAppealForm onClose={() => setShowAppealForm(false)} />
+            )}
             {activeView === "chat" &&
               (response || selectedConversation?.response) && (
                 <div className="mt-8 w-full max-w-3xl">
@@ -292,6 +292,136 @@ export default function TwitchBotDocumentation() {
                     </li>
                   </ul>
                 </div>
+
+                <div className="bg-gray-50 p-4 rounded-lg border border-gray-300">
+                  <h4 className="font-semibold text-gray-900 mb-2">
+                    Custom Commands
+                  </h4>
+                  <p className="text-gray-800 text-sm text-left">
+                    Streamers can add their own commands (like{" "}
+                    <code className="bg-gray-800 text-white px-2 py-1 rounded font-mono text-sm border border-gray-700">
+                      !specs
+                    </code>{" "}
+                    or{" "}
+                    <code className="bg-gray-800 text-white px-2 py-1 rounded font-mono text-sm border border-gray-700">
+                      !discord
+                    </code>
+                    ) in their channel settings, with a cooldown and who may use
+                    them (everyone, subscribers, VIPs, moderators or the
+                    broadcaster). Responses can include {"{user}"},{" "}
+                    {"{channel}"}, {"{game}"}, {"{count}"} (times used) and{" "}
+                    {"{args}"} (text after the command). They appear in{" "}
+                    <code className="bg-gray-800 text-white px-2 py-1 rounded font-mono text-sm border border-gray-700">
+                      !commands
+                    </code>
+                    .
+                  </p>
+                </div>
+
+                <div className="bg-gray-50 p-4 rounded-lg border border-gray-300">
+                  <h4 className="font-semibold text-gray-900 mb-2">
+                    Now Playing
+                  </h4>
+                  <p className="text-gray-800 text-sm text-left">
+                    Questions like &quot;how do I beat this boss?&quot; are
+                    answered about the game you&apos;re streaming, taken from
+                    your Twitch category. Moderators and the streamer can
+                    override it with{" "}
+                    <code className="bg-gray-800 text-white px-2 py-1 rounded font-mono text-sm border border-gray-700">
+                      !game &lt;title&gt;
+                    </code>
+                    , add session notes such as the current chapter or build
+                    with{" "}
+                    <code className="bg-gray-800 text-white px-2 py-1 rounded font-mono text-sm border border-gray-700">
+                      !game notes &lt;text&gt;
+                    </code>{" "}
+                    and go back to the Twitch category with{" "}
+                    <code className="bg-gray-800 text-white px-2 py-1 rounded font-mono text-sm border border-gray-700">
+                      !game clear
+                    </code>
+                    . Anyone can type{" "}
+                    <code className="bg-gray-800 text-white px-2 py-1 rounded font-mono text-sm border border-gray-700">
+                      !game
+                    </code>{" "}
+                    to see it. Changing category clears the override and notes.
+                  </p>
+                </div>
+
+                <div className="bg-gray-50 p-4 rounded-lg border border-gray-300">
+                  <h4 className="font-semibold text-gray-900 mb-2">
+                    Question Queue
+                  </h4>
+                  <p className="text-gray-800 text-sm text-left">
+                    In busy chats, streamers can turn on queue mode from the
+                    question queue page in their channel settings. Questions
+                    are then queued with a number instead of answered right
+                    away, and a question similar to one already queued counts
+                    as a vote for it. Viewers vote with{" "}
+                    <code className="bg-gray-800 text-white px-2 py-1 rounded font-mono text-sm border border-gray-700">
+                      !upvote &lt;number&gt;
+                    </code>
+                    . The streamer, and any moderators they add by Twitch
+                    username, approve questions for the bot to answer, type
+                    their own answer for the bot to post, or reject them. The
+                    queue page also gives a browser-source overlay URL that
+                    shows the top questions on stream. Moderators&apos;
+                    questions skip the queue.
+                  </p>
+                </div>
+
+                <div className="bg-gray-50 p-4 rounded-lg border border-gray-300">
+                  <h4 className="font-semibold text-gray-900 mb-2">Trivia</h4>
+                  <p className="text-gray-800 text-sm text-left">
+                    Once a streamer enables trivia in their channel settings,
+                    they or a moderator can start a round with 
+                    <code className="bg-gray-800 text-white px-2 py-1 rounded font-mono text-sm border border-gray-700">
+                      !trivia
+                    </code>
+                    . The bot asks a question about the game being played,
+                    from the streamer&apos;s own questions or generated by AI,
+                    and viewers answer by typing in chat before time runs out.
+                    Correct answers earn channel points, with a bonus for the
+                    first, and 
+                    <code className="bg-gray-800 text-white px-2 py-1 rounded font-mono text-sm border border-gray-700">
+                      !top
+                    </code> 
+                    shows the leaderboard. Moderators can end a round early
+                    with 
+                    <code className="bg-gray-800 text-white px-2 py-1 rounded font-mono text-sm border border-gray-700">
+                      !trivia end
+                    </code>
+                    .
+                  </p>
+                </div>
+
+                <div className="bg-gray-50 p-4 rounded-lg border border-gray-300">
+                  <h4 className="font-semibold text-gray-900 mb-2">Predictions</h4>
+                  <p className="text-gray-800 text-sm text-left">
+                    With predictions enabled in the trivia settings, the
+                    streamer or a moderator opens one with 
+                    <code className="bg-gray-800 text-white px-2 py-1 rounded font-mono text-sm border border-gray-700">
+                      !predict Will we win? | yes | no
+                    </code>
+                    . Viewers vote with 
+                    <code className="bg-gray-800 text-white px-2 py-1 rounded font-mono text-sm border border-gray-700">
+                      !predict 1
+                    </code> 
+                    (or the outcome&apos;s name) until voting closes. Once the
+                    outcome is known, a moderator settles it with 
+                    <code className="bg-gray-800 text-white px-2 py-1 rounded font-mono text-sm border border-gray-700">
+                      !predict result 1
+                    </code>
+                    , and everyone who called it earns points on the 
+                    <code className="bg-gray-800 text-white px-2 py-1 rounded font-mono text-sm border border-gray-700">
+                      !top
+                    </code> 
+                    leaderboard. 
+                    <code className="bg-gray-800 text-white px-2 py-1 rounded font-mono text-sm border border-gray-700">
+                      !predict cancel
+                    </code> 
+                    ends a prediction without points.
+                  </p>
+                </div>
               </div>
             </div>
 
@@ -0,0 +1,117 @@
+"use client";
+
+import React, { useState, useEffect, Suspense } from "react";
+import { useSearchParams } from "next/navigation";
+import axios from "axios";
+import { TwitchQueuedQuestion } from "@/types";
+
+export const dynamic = "force-dynamic";
+
+const REFRESH_INTERVAL_MS = 5000;
+
+interface OverlayState {
+  enabled: boolean;
+  pendingCount: number;
+  pending: TwitchQueuedQuestion[];
+  current: TwitchQueuedQuestion | null;
+}
+
+/**
+ * Browser-source overlay for a channel's question queue (?channel=name&token=...)
+ * Shows the question being answered and the top-voted pending ones on a transparent background
+ */
+const QuestionQueueOverlayContent: React.FC = () => {
+  const searchParams = useSearchParams();
+  const channelName = searchParams?.get("channel");
+  const token = searchParams?.get("token");
+  const [overlay, setOverlay] = useState<OverlayState | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  // Streaming software composites the page over the stream
+  useEffect(() => {
+    const previousBackground = document.body.style.background;
+    document.body.style.background = "transparent";
+    return () => {
+      document.body.style.background = previousBackground;
+    };
+  }, []);
+
+  useEffect(() => {
+    if (!channelName || !token) {
+      setError("Missing channel or token in the overlay URL");
+      return;
+    }
+
+    const fetchOverlay = async () => {
+      try {
+        const response = await axios.get("/api/twitchBot/questionQueueOverlay", {
+          params: { channelName, token },
+        });
+        setOverlay(response.data);
+        setError(null);
+      } catch (err: any) {
+        // Keep showing the last state through brief outages
+        if (err.response?.status === 404) {
+          setError(err.response.data?.message || "Overlay not found");
+        }
+      }
+    };
+
+    fetchOverlay();
+    const interval = setInterval(fetchOverlay, REFRESH_INTERVAL_MS);
+    return () => clearInterval(interval);
+  }, [channelName, token]);
+
+  if (error) {
+    return <p className="p-4 text-red-400 text-sm">{error}</p>;
+  }
+
+  if (!overlay || !overlay.enabled) {
+    return null;
+  }
+
+  return (
+    <div className="p-4 w-full max-w-md space-y-3 text-white">
+      {overlay.current && (
+        <div className="bg-purple-900/90 rounded-lg p-4 border border-purple-500 shadow-lg">
+          <p className="text-xs uppercase tracking-wide text-purple-300 mb-1">
+            #{overlay.current.id} · {overlay.current.askedBy}
+          </p>
+          <p className="font-semibold break-words">{overlay.current.question}</p>
+          {overlay.current.answer && (
+            <p className="text-sm text-purple-100 mt-2 break-words">
+              {overlay.current.answer}
+            </p>
+          )}
+        </div>
+      )}
+
+      {overlay.pending.length > 0 && (
+        <div className="bg-gray-900/85 rounded-lg p-3 border border-gray-700 shadow-lg">
+          <p className="text-xs uppercase tracking-wide text-gray-400 mb-2">
+            Up next · {overlay.pendingCount} in queue · !upvote &lt;number&gt;
+          </p>
+          <ul className="space-y-1">
+            {overlay.pending.map((question) => (
+              <li key={question.id} className="flex gap-2 text-sm">
+                <span className="text-purple-300 shrink-0">#{question.id}</span>
+                <span className="truncate flex-1">{question.question}</span>
+                <span className="text-gray-400 shrink-0">▲ {question.votes}</span>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+};
+
+const QuestionQueueOverlayPage: React.FC = () => {
+  return (
+    <Suspense fallback={null}>
+      <QuestionQueueOverlayContent />
+    </Suspense>
+  );
+};
+
+export default QuestionQueueOverlayPage;
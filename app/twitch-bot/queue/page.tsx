@@ -0,0 +1,53 @@
+"use client";
+
+import React, { Suspense } from "react";
+import { useSearchParams } from "next/navigation";
+import TwitchQuestionQueue from "@/components/TwitchQuestionQueue";
+
+export const dynamic = "force-dynamic";
+
+/**
+ * Question queue for a channel (?channel=name), for the streamer and their queue moderators
+ */
+const QuestionQueueContent: React.FC = () => {
+  const searchParams = useSearchParams();
+  const channelName = searchParams?.get("channel")?.toLowerCase().trim();
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-purple-900 via-blue-900 to-indigo-900 py-10 px-4">
+      <div className="max-w-3xl mx-auto">
+        <h1 className="text-3xl font-bold text-white mb-2">Question Queue</h1>
+        {channelName ? (
+          <>
+            <p className="text-gray-300 mb-6">
+              Questions from #{channelName}&apos;s chat. Approved questions are
+              answered by the bot in chat; viewers vote with !upvote &lt;number&gt;.
+            </p>
+            <TwitchQuestionQueue channelName={channelName} />
+          </>
+        ) : (
+          <p className="text-gray-300">
+            No channel selected. Open the question queue from your channel
+            settings, or use the link your streamer shared.
+          </p>
+        )}
+      </div>
+    </div>
+  );
+};
+
+const QuestionQueuePage: React.FC = () => {
+  return (
+    <Suspense
+      fallback={
+        <div className="flex items-center justify-center min-h-screen bg-gradient-to-br from-purple-900 via-blue-900 to-indigo-900">
+          <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-white"></div>
+        </div>
+      }
+    >
+      <QuestionQueueContent />
+    </Suspense>
+  );
+};
+
+export default QuestionQueuePage;
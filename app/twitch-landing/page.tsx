@@ -3,6 +3,7 @@
 import { useSearchParams, useRouter } from "next/navigation";
 import { useEffect, useState, Suspense } from "react";
 import Image from "next/image";
+import { ensureTokenValid } from "@/utils/tokenRefresh";
 
 export const dynamic = "force-dynamic";
 
@@ -27,15 +28,11 @@ function TwitchLandingContent() {
   }, [authStatus, channelName, router]);
 
   // Handle adding the bot to the channel
-  const handleAddToChannel = () => {
+  const handleAddToChannel = async () => {
     setIsAdding(true);
-    // Get username from localStorage as fallback if session is expired
-    const username = localStorage.getItem("username");
-    // Redirect to OAuth flow with username as query parameter
-    const loginUrl = username
-      ? `/api/twitchBotLogin?username=${encodeURIComponent(username)}`
-      : "/api/twitchBotLogin";
-    window.location.href = loginUrl;
+    // The OAuth flow takes the account from the session, so refresh it first if it has expired
+    await ensureTokenValid();
+    window.location.href = "/api/twitchBotLogin";
   };
 
   return (
@@ -3,6 +3,7 @@
 import { useSearchParams, useRouter } from "next/navigation";
 import { useEffect, useState, Suspense } from "react";
 import Image from "next/image";
+import { ensureTokenValid } from "@/utils/tokenRefresh";
 
 export const dynamic = "force-dynamic";
 
@@ -26,15 +27,11 @@ function TwitchViewerLandingContent() {
   }, [authStatus, twitchUsername, router]);
 
   // Handle linking the Twitch account
-  const handleLinkAccount = () => {
+  const handleLinkAccount = async () => {
     setIsLinking(true);
-    // Get username from localStorage as fallback if session is expired
-    const username = localStorage.getItem("username");
-    // Redirect to OAuth flow with username as query parameter
-    const loginUrl = username
-      ? `/api/twitchViewerLogin?username=${encodeURIComponent(username)}`
-      : "/api/twitchViewerLogin";
-    window.location.href = loginUrl;
+    // The OAuth flow takes the account from the session, so refresh it first if it has expired
+    await ensureTokenValid();
+    window.location.href = "/api/twitchViewerLogin";
   };
 
   // Get error message based on error code
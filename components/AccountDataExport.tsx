@@ -0,0 +1,143 @@
+"use client";
+
+import React, { useState, useEffect, useCallback, useRef } from "react";
+import axios from "axios";
+import { AccountDataExportProps, DataExportJob } from "@/types";
+
+const POLL_INTERVAL_MS = 5000;
+
+const formatSize = (bytes: number) => {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+};
+
+/**
+ * Account page section for requesting and downloading a copy of the user's data
+ */
+const AccountDataExport: React.FC<AccountDataExportProps> = ({
+  className = "",
+}) => {
+  const [job, setJob] = useState<DataExportJob | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [requesting, setRequesting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const pollRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+
+  const fetchStatus = useCallback(async () => {
+    try {
+      const response = await axios.get("/api/account/export", {
+        withCredentials: true,
+      });
+      setJob(response.data.export || null);
+    } catch (err: any) {
+      console.error("Error loading data export status:", err);
+      setError(err.response?.data?.error || "Failed to load export status");
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchStatus();
+  }, [fetchStatus]);
+
+  // Poll while the export is being built
+  useEffect(() => {
+    if (job && (job.status === "queued" || job.status === "processing")) {
+      pollRef.current = setTimeout(fetchStatus, POLL_INTERVAL_MS);
+    }
+    return () => {
+      if (pollRef.current) clearTimeout(pollRef.current);
+    };
+  }, [job, fetchStatus]);
+
+  const handleRequest = async () => {
+    setRequesting(true);
+    setError(null);
+    try {
+      const response = await axios.post(
+        "/api/account/export",
+        {},
+        { withCredentials: true }
+      );
+      setJob(response.data.export);
+    } catch (err: any) {
+      setError(err.response?.data?.error || "Failed to start your export");
+    } finally {
+      setRequesting(false);
+    }
+  };
+
+  const inProgress =
+    job?.status === "queued" || job?.status === "processing";
+
+  return (
+    <div
+      className={`bg-[#252642]/50 backdrop-blur-sm rounded-2xl p-6 shadow-[0_0_15px_rgba(0,255,255,0.1)] border border-[#00ffff]/20 ${className}`}
+    >
+      <h2 className="text-2xl font-bold mb-2 text-[#00ffff]">Your Data</h2>
+      <p className="text-gray-400 text-sm mb-4">
+        Download a copy of everything we store about your account: profile,
+        progress, questions, forum posts, feedback, sessions, moderation
+        history and linked Twitch/Discord data.
+      </p>
+
+      {loading ? (
+        <p className="text-gray-400 text-sm">Loading...</p>
+      ) : (
+        <div className="space-y-4">
+          {inProgress && (
+            <div className="flex items-center gap-3 text-gray-300 text-sm">
+              <div className="animate-spin rounded-full h-4 w-4 border-b-2 border-[#00ffff]"></div>
+              Preparing your export. This can take a few minutes.
+            </div>
+          )}
+
+          {job?.status === "ready" && job.downloadUrl && (
+            <div className="bg-[#1a1b2e]/50 rounded-lg p-4">
+              <a
+                href={job.downloadUrl}
+                className="inline-block px-4 py-2 bg-gradient-to-r from-[#00ffff] to-[#ff69b4] text-white rounded-lg hover:opacity-90 transition-all duration-200 text-sm font-semibold"
+              >
+                Download ZIP
+                {job.fileSize ? ` (${formatSize(job.fileSize)})` : ""}
+              </a>
+              {job.expiresAt && (
+                <p className="text-gray-400 text-xs mt-2">
+                  Link expires {new Date(job.expiresAt).toLocaleString()}
+                </p>
+              )}
+            </div>
+          )}
+
+          {job?.status === "failed" && job.error && (
+            <p className="text-red-400 text-sm">{job.error}</p>
+          )}
+
+          {job?.status === "expired" && (
+            <p className="text-gray-400 text-sm">
+              Your last export has expired. Request a new one below.
+            </p>
+          )}
+
+          {error && <p className="text-red-400 text-sm">{error}</p>}
+
+          <button
+            onClick={handleRequest}
+            disabled={requesting || inProgress}
+            className="w-full px-4 py-2 bg-[#1a1b2e] border border-[#00ffff]/40 text-[#00ffff] rounded-lg hover:bg-[#00ffff]/10 disabled:opacity-50 disabled:cursor-not-allowed transition-colors duration-200 text-sm font-semibold"
+          >
+            {requesting
+              ? "Requesting..."
+              : job?.status === "ready"
+              ? "Request a Fresh Export"
+              : "Request Data Export"}
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default AccountDataExport;
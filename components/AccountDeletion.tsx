@@ -0,0 +1,192 @@
+"use client";
+
+import React, { useState } from "react";
+import axios from "axios";
+import { AccountDeletionProps } from "@/types";
+
+/**
+ * Account page "danger zone": schedules the account for deletion after re-confirmation
+ */
+const AccountDeletion: React.FC<AccountDeletionProps> = ({
+  username,
+  hasPassword,
+  hasProAccess,
+  twoFactorEnabled = false,
+  className = "",
+}) => {
+  const [showModal, setShowModal] = useState(false);
+  const [password, setPassword] = useState("");
+  const [confirmUsername, setConfirmUsername] = useState("");
+  const [twoFactorCode, setTwoFactorCode] = useState("");
+  const [submitting, setSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [scheduledMessage, setScheduledMessage] = useState<string | null>(
+    null
+  );
+
+  const closeModal = () => {
+    setShowModal(false);
+    setPassword("");
+    setConfirmUsername("");
+    setTwoFactorCode("");
+    setError(null);
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setSubmitting(true);
+    setError(null);
+    try {
+      const response = await axios.post(
+        "/api/account/delete",
+        {
+          ...(hasPassword ? { password } : { confirmUsername }),
+          ...(twoFactorEnabled ? { twoFactorCode } : {}),
+        },
+        { withCredentials: true }
+      );
+      // The session is gone, so clear the client-side copy of the user
+      localStorage.removeItem("username");
+      localStorage.removeItem("userId");
+      localStorage.removeItem("userEmail");
+      setShowModal(false);
+      setScheduledMessage(response.data.message);
+    } catch (err: any) {
+      setError(err.response?.data?.error || "Failed to delete your account");
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  if (scheduledMessage) {
+    return (
+      <div
+        className={`bg-[#252642]/50 backdrop-blur-sm rounded-2xl p-6 border border-red-500/40 ${className}`}
+      >
+        <h2 className="text-2xl font-bold mb-4 text-red-400">
+          Account Scheduled for Deletion
+        </h2>
+        <p className="text-gray-300 text-sm mb-4">{scheduledMessage}</p>
+        <button
+          onClick={() => (window.location.href = "/")}
+          className="w-full px-4 py-2 bg-gray-700 text-white rounded-lg hover:bg-gray-600 transition-colors duration-200 text-sm font-semibold"
+        >
+          Back to Home
+        </button>
+      </div>
+    );
+  }
+
+  const canSubmit =
+    (hasPassword ? password.length > 0 : confirmUsername === username) &&
+    (!twoFactorEnabled || twoFactorCode.length > 0);
+
+  return (
+    <div
+      className={`bg-[#252642]/50 backdrop-blur-sm rounded-2xl p-6 border border-red-500/30 ${className}`}
+    >
+      <h2 className="text-2xl font-bold mb-2 text-red-400">Delete Account</h2>
+      <p className="text-gray-400 text-sm mb-4">
+        Your account is deactivated right away and permanently deleted after
+        14 days. Until then, you can restore it from the link we email you.
+      </p>
+      <button
+        onClick={() => setShowModal(true)}
+        className="w-full px-4 py-2 bg-red-600 hover:bg-red-700 text-white rounded-lg transition-colors duration-200 text-sm font-semibold"
+      >
+        Delete My Account
+      </button>
+
+      {showModal && (
+        <div className="fixed inset-0 bg-black/70 flex items-center justify-center z-50 p-4">
+          <form
+            onSubmit={handleSubmit}
+            className="bg-[#1a1b2e] rounded-2xl p-6 max-w-md w-full border border-red-500/40"
+          >
+            <h3 className="text-xl font-bold text-red-400 mb-4">
+              Delete your account?
+            </h3>
+            <ul className="text-gray-300 text-sm space-y-2 mb-4 list-disc pl-5">
+              <li>You&apos;ll be signed out on every device.</li>
+              {hasProAccess && (
+                <li>
+                  Your Pro subscription will be canceled. You won&apos;t be
+                  charged again.
+                </li>
+              )}
+              <li>
+                After 14 days, your questions, saved guides, sessions and
+                linked Twitch/Discord accounts are deleted, and your forum
+                posts are shown as written by &quot;deleted user&quot;.
+              </li>
+            </ul>
+
+            {hasPassword ? (
+              <label className="block mb-4">
+                <span className="text-gray-400 text-sm">
+                  Enter your password to confirm
+                </span>
+                <input
+                  type="password"
+                  value={password}
+                  onChange={(e) => setPassword(e.target.value)}
+                  autoComplete="current-password"
+                  className="mt-1 w-full px-4 py-2 bg-[#252642] border border-gray-600 rounded-lg text-white focus:ring-2 focus:ring-red-500 focus:border-transparent"
+                />
+              </label>
+            ) : (
+              <label className="block mb-4">
+                <span className="text-gray-400 text-sm">
+                  Type <strong className="text-white">{username}</strong> to
+                  confirm
+                </span>
+                <input
+                  type="text"
+                  value={confirmUsername}
+                  onChange={(e) => setConfirmUsername(e.target.value)}
+                  className="mt-1 w-full px-4 py-2 bg-[#252642] border border-gray-600 rounded-lg text-white focus:ring-2 focus:ring-red-500 focus:border-transparent"
+                />
+              </label>
+            )}
+
+            {twoFactorEnabled && (
+              <label className="block mb-4">
+                <span className="text-gray-400 text-sm">
+                  Authenticator or recovery code
+                </span>
+                <input
+                  type="text"
+                  autoComplete="one-time-code"
+                  value={twoFactorCode}
+                  onChange={(e) => setTwoFactorCode(e.target.value)}
+                  className="mt-1 w-full px-4 py-2 bg-[#252642] border border-gray-600 rounded-lg text-white font-mono focus:ring-2 focus:ring-red-500 focus:border-transparent"
+                />
+              </label>
+            )}
+
+            {error && <p className="text-red-400 text-sm mb-4">{error}</p>}
+
+            <div className="flex gap-3">
+              <button
+                type="button"
+                onClick={closeModal}
+                className="flex-1 px-4 py-2 bg-gray-700 text-white rounded-lg hover:bg-gray-600 transition-colors duration-200 text-sm"
+              >
+                Cancel
+              </button>
+              <button
+                type="submit"
+                disabled={!canSubmit || submitting}
+                className="flex-1 px-4 py-2 bg-red-600 hover:bg-red-700 disabled:bg-gray-600 disabled:cursor-not-allowed text-white rounded-lg transition-colors duration-200 text-sm font-semibold"
+              >
+                {submitting ? "Deleting..." : "Delete Account"}
+              </button>
+            </div>
+          </form>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default AccountDeletion;
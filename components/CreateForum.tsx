@@ -40,13 +40,13 @@ export default function CreateForum() {
     setError("");
 
     try {
-      const username = localStorage.getItem("username") || "test-user";
+      // The API adds the signed-in creator to a private forum's allowed users
       const forumData = {
         title,
         gameTitle,
         category,
         isPrivate,
-        allowedUsers: isPrivate ? [username] : [],
+        allowedUsers: [],
       };
 
       const success = await createForum(forumData);
@@ -0,0 +1,776 @@
+"use client";
+
+import React, { useState, useEffect, useCallback } from "react";
+import axios from "@/utils/axiosConfig";
+import { toast } from "react-hot-toast";
+import { DiscordGuildSettings as GuildSettings } from "@/config/discordGuildSettings";
+import { DiscordModerationConfig } from "@/config/discordModerationConfig";
+import { DiscordGuildSummary, DiscordGuildSettingsProps } from "@/types";
+
+// Mirrors the server-side defaults (the config modules load database code, so only their types are imported here)
+const defaultDiscordGuildSettings: GuildSettings = {
+  allowedChannelIds: [],
+  triggerMode: "mention",
+  commandPrefix: "!wingman",
+  responseStyle: "reply",
+  requirePro: true,
+  proExemptRoleIds: [],
+};
+
+const defaultDiscordModerationConfig: DiscordModerationConfig = {
+  enabled: true,
+  strictMode: false,
+  timeoutDurations: {
+    first: 0,
+    second: 300,
+    third: 1800,
+    fourth: 3600,
+  },
+  maxViolationsBeforeBan: 5,
+  checkAIResponses: true,
+  logAllActions: true,
+};
+
+const toastStyles = {
+  success: {
+    duration: 4000,
+    position: "top-right" as const,
+    style: {
+      background: "#1a1b2e",
+      color: "#fff",
+      border: "1px solid #00ffff",
+    },
+    iconTheme: {
+      primary: "#00ffff",
+      secondary: "#1a1b2e",
+    },
+  },
+  error: {
+    duration: 5000,
+    position: "top-right" as const,
+    style: {
+      background: "#1a1b2e",
+      color: "#fff",
+      border: "1px solid #ef4444",
+    },
+    iconTheme: {
+      primary: "#ef4444",
+      secondary: "#1a1b2e",
+    },
+  },
+};
+
+interface ToggleProps {
+  enabled: boolean;
+  onToggle: () => void;
+}
+
+const Toggle: React.FC<ToggleProps> = ({ enabled, onToggle }) => (
+  <button
+    type="button"
+    onClick={onToggle}
+    className={`relative inline-flex h-6 w-11 items-center rounded-full transition-colors ${
+      enabled ? "bg-[#00ffff]" : "bg-gray-600"
+    }`}
+  >
+    <span
+      className={`inline-block h-4 w-4 transform rounded-full bg-white transition-transform ${
+        enabled ? "translate-x-6" : "translate-x-1"
+      }`}
+    />
+  </button>
+);
+
+interface IdListEditorProps {
+  label: string;
+  description: string;
+  placeholder: string;
+  ids: string[];
+  onChange: (ids: string[]) => void;
+}
+
+// Editable list of Discord IDs (channels or roles)
+const IdListEditor: React.FC<IdListEditorProps> = ({
+  label,
+  description,
+  placeholder,
+  ids,
+  onChange,
+}) => {
+  const [input, setInput] = useState("");
+
+  const handleAdd = () => {
+    const id = input.trim();
+    if (!/^\d{17,20}$/.test(id)) {
+      toast.error(
+        "Enter a valid Discord ID (enable Developer Mode in Discord, then right-click → Copy ID)",
+        toastStyles.error
+      );
+      return;
+    }
+    if (!ids.includes(id)) {
+      onChange([...ids, id]);
+    }
+    setInput("");
+  };
+
+  return (
+    <div className="p-4 bg-[#1a1b2e]/50 rounded-lg">
+      <label className="text-white font-semibold block">{label}</label>
+      <p className="text-gray-400 text-sm mb-3">{description}</p>
+      <div className="flex gap-2">
+        <input
+          type="text"
+          value={input}
+          onChange={(e) => setInput(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === "Enter") {
+              e.preventDefault();
+              handleAdd();
+            }
+          }}
+          placeholder={placeholder}
+          className="flex-1 px-4 py-2 bg-[#1a1b2e]/50 border border-gray-600 rounded-lg text-white focus:ring-2 focus:ring-[#00ffff] focus:border-transparent"
+        />
+        <button
+          type="button"
+          onClick={handleAdd}
+          className="px-4 py-2 bg-[#00ffff]/20 text-[#00ffff] border border-[#00ffff]/40 rounded-lg hover:bg-[#00ffff]/30 transition-colors font-semibold"
+        >
+          Add
+        </button>
+      </div>
+      {ids.length > 0 && (
+        <div className="flex flex-wrap gap-2 mt-3">
+          {ids.map((id) => (
+            <span
+              key={id}
+              className="inline-flex items-center gap-2 px-3 py-1 bg-[#252642] border border-gray-600 rounded-full text-sm text-gray-200"
+            >
+              {id}
+              <button
+                type="button"
+                onClick={() => onChange(ids.filter((existing) => existing !== id))}
+                className="text-gray-400 hover:text-red-400"
+                aria-label={`Remove ${id}`}
+              >
+                ×
+              </button>
+            </span>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+const DiscordGuildSettings: React.FC<DiscordGuildSettingsProps> = ({
+  className = "",
+}) => {
+  const [guilds, setGuilds] = useState<DiscordGuildSummary[]>([]);
+  const [discordLinked, setDiscordLinked] = useState(true);
+  const [selectedGuild, setSelectedGuild] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [settings, setSettings] = useState<GuildSettings>(
+    defaultDiscordGuildSettings
+  );
+  const [moderationConfig, setModerationConfig] =
+    useState<DiscordModerationConfig>(defaultDiscordModerationConfig);
+  // Initialize collapsed state from localStorage if available
+  const [isCollapsed, setIsCollapsed] = useState(() => {
+    if (typeof window !== "undefined") {
+      try {
+        const saved = localStorage.getItem("discordGuildSettingsCollapsed");
+        if (saved !== null) {
+          return JSON.parse(saved) === true;
+        }
+      } catch (e) {
+        console.error(
+          "Error loading Discord settings collapsed state from localStorage:",
+          e
+        );
+      }
+    }
+    return false;
+  });
+
+  const fetchGuilds = useCallback(async () => {
+    try {
+      setLoading(true);
+      setError(null);
+      const response = await axios.get("/api/discord/guilds");
+      const guildsData: DiscordGuildSummary[] = response.data.guilds || [];
+      setDiscordLinked(response.data.discordLinked !== false);
+      setGuilds(guildsData);
+
+      // Auto-select first server if available
+      if (guildsData.length > 0) {
+        setSelectedGuild((current) => current || guildsData[0].guildId);
+      }
+    } catch (err: any) {
+      console.error("Error fetching Discord servers:", err);
+      setError(err.response?.data?.message || "Failed to load Discord servers");
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchGuilds();
+  }, [fetchGuilds]);
+
+  const fetchGuildSettings = useCallback(async (guildId: string) => {
+    try {
+      setLoading(true);
+      setError(null);
+      const [settingsResponse, moderationResponse] = await Promise.all([
+        axios.get("/api/discord/guildSettings", { params: { guildId } }),
+        axios.get("/api/discord/moderation", { params: { guildId } }),
+      ]);
+
+      setSettings({
+        ...defaultDiscordGuildSettings,
+        ...(settingsResponse.data.settings || {}),
+      });
+      setModerationConfig(
+        moderationResponse.data.config || defaultDiscordModerationConfig
+      );
+    } catch (err: any) {
+      console.error("Error fetching Discord server settings:", err);
+      setError(
+        err.response?.data?.message || "Failed to load server settings"
+      );
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    if (selectedGuild) {
+      fetchGuildSettings(selectedGuild);
+    }
+  }, [selectedGuild, fetchGuildSettings]);
+
+  const handleSave = async () => {
+    if (!selectedGuild) {
+      setError("Please select a server");
+      return;
+    }
+
+    try {
+      setSaving(true);
+      setError(null);
+
+      const [settingsResponse, moderationResponse] = await Promise.all([
+        axios.put("/api/discord/guildSettings", {
+          guildId: selectedGuild,
+          settings,
+        }),
+        axios.post("/api/discord/moderation", {
+          guildId: selectedGuild,
+          config: moderationConfig,
+        }),
+      ]);
+
+      // Show what the server actually saved (values may have been corrected)
+      setSettings(settingsResponse.data.settings);
+      setModerationConfig(moderationResponse.data.config);
+
+      const guildName =
+        guilds.find((guild) => guild.guildId === selectedGuild)?.guildName ||
+        "your server";
+      toast.success(
+        `Discord bot settings saved for ${guildName}!`,
+        toastStyles.success
+      );
+    } catch (err: any) {
+      console.error("Error saving Discord server settings:", err);
+      const errorMessage =
+        err.response?.data?.message || "Failed to save server settings";
+      setError(errorMessage);
+      toast.error(errorMessage, toastStyles.error);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleReset = () => {
+    if (!confirm("Are you sure you want to reset to default settings?")) {
+      return;
+    }
+    setSettings(defaultDiscordGuildSettings);
+    setModerationConfig(defaultDiscordModerationConfig);
+  };
+
+  const toggleCollapsed = () => {
+    const newState = !isCollapsed;
+    setIsCollapsed(newState);
+    // Save to localStorage immediately
+    try {
+      if (typeof window !== "undefined") {
+        localStorage.setItem(
+          "discordGuildSettingsCollapsed",
+          JSON.stringify(newState)
+        );
+      }
+    } catch (e) {
+      console.error(
+        "Error saving Discord settings collapsed state to localStorage:",
+        e
+      );
+    }
+  };
+
+  const formatDuration = (seconds: number): string => {
+    if (seconds === 0) return "Warning only";
+    if (seconds < 60) return `${seconds}s`;
+    if (seconds < 3600) return `${Math.floor(seconds / 60)}m`;
+    return `${Math.floor(seconds / 3600)}h`;
+  };
+
+  const timeoutSliders: {
+    key: keyof DiscordModerationConfig["timeoutDurations"];
+    label: string;
+    min: number;
+    max: number;
+    step: number;
+    minLabel: string;
+    maxLabel: string;
+  }[] = [
+    { key: "first", label: "1st Violation", min: 0, max: 300, step: 60, minLabel: "Warning", maxLabel: "5m" },
+    { key: "second", label: "2nd Violation", min: 60, max: 600, step: 60, minLabel: "1m", maxLabel: "10m" },
+    { key: "third", label: "3rd Violation", min: 300, max: 3600, step: 300, minLabel: "5m", maxLabel: "1h" },
+    { key: "fourth", label: "4th Violation", min: 600, max: 7200, step: 600, minLabel: "10m", maxLabel: "2h" },
+  ];
+
+  if (loading && guilds.length === 0) {
+    return (
+      <div
+        className={`bg-[#252642]/50 backdrop-blur-sm rounded-2xl p-6 shadow-[0_0_15px_rgba(0,255,255,0.1)] border border-[#00ffff]/20 ${className}`}
+      >
+        <div className="text-center py-8">
+          <div className="inline-block animate-spin rounded-full h-8 w-8 border-b-2 border-[#00ffff]"></div>
+          <p className="mt-2 text-gray-400">Loading Discord servers...</p>
+        </div>
+      </div>
+    );
+  }
+
+  if (guilds.length === 0) {
+    return (
+      <div
+        className={`bg-[#252642]/50 backdrop-blur-sm rounded-2xl p-6 shadow-[0_0_15px_rgba(0,255,255,0.1)] border border-[#00ffff]/20 ${className}`}
+      >
+        <h2 className="text-2xl font-bold mb-4 text-[#00ffff]">
+          Discord Bot Server Settings
+        </h2>
+        <div className="text-center py-8">
+          {error ? (
+            <p className="text-red-300 mb-4">{error}</p>
+          ) : !discordLinked ? (
+            <p className="text-gray-400 mb-4">
+              Link your Discord account to manage the bot in your servers. Use
+              the <span className="text-[#00ffff]">/link</span> command in
+              Discord to get started.
+            </p>
+          ) : (
+            <p className="text-gray-400 mb-4">
+              No servers found. Add the bot to a server where you have the
+              Manage Server permission to configure it here.
+            </p>
+          )}
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div
+      className={`bg-[#252642]/50 backdrop-blur-sm rounded-2xl shadow-[0_0_15px_rgba(0,255,255,0.1)] border border-[#00ffff]/20 transition-all ${className} ${
+        isCollapsed ? "p-3" : "p-6"
+      }`}
+    >
+      <div
+        className={`flex items-center justify-between ${
+          isCollapsed ? "mb-0" : "mb-6"
+        }`}
+      >
+        <h2 className="text-2xl font-bold text-[#00ffff]">
+          Discord Bot Server Settings
+        </h2>
+        <button
+          onClick={toggleCollapsed}
+          className="text-[#00ffff] hover:text-[#00ffff]/80 transition-colors"
+          aria-label={isCollapsed ? "Expand section" : "Collapse section"}
+        >
+          <svg
+            className={`w-5 h-5 transition-transform ${
+              isCollapsed ? "rotate-180" : ""
+            }`}
+            fill="none"
+            stroke="currentColor"
+            viewBox="0 0 24 24"
+          >
+            <path
+              strokeLinecap="round"
+              strokeLinejoin="round"
+              strokeWidth={2}
+              d="M19 9l-7 7-7-7"
+            />
+          </svg>
+        </button>
+      </div>
+
+      {!isCollapsed && (
+        <>
+          {error && (
+            <div className="mb-4 p-3 bg-red-500/20 border border-red-500/40 rounded-lg">
+              <p className="text-red-200 text-sm">{error}</p>
+            </div>
+          )}
+
+          {/* Server Selector */}
+          <div className="mb-6">
+            <label className="block text-gray-300 text-sm font-semibold mb-2">
+              Select Server
+            </label>
+            <select
+              value={selectedGuild || ""}
+              onChange={(e) => setSelectedGuild(e.target.value)}
+              className="w-full px-4 py-2 bg-[#1a1b2e]/50 border border-gray-600 rounded-lg text-white focus:ring-2 focus:ring-[#00ffff] focus:border-transparent"
+            >
+              {guilds.map((guild) => (
+                <option key={guild.guildId} value={guild.guildId}>
+                  {guild.guildName}
+                </option>
+              ))}
+            </select>
+          </div>
+
+          {selectedGuild && (
+            <div className="space-y-6">
+              <h3 className="text-lg font-semibold text-white">Bot Behavior</h3>
+
+              {/* Trigger Mode */}
+              <div className="p-4 bg-[#1a1b2e]/50 rounded-lg">
+                <label className="text-white font-semibold block">
+                  How members ask questions
+                </label>
+                <p className="text-gray-400 text-sm mb-3">
+                  Slash commands always work; this controls regular messages
+                </p>
+                <select
+                  value={settings.triggerMode}
+                  onChange={(e) =>
+                    setSettings({
+                      ...settings,
+                      triggerMode: e.target.value as GuildSettings["triggerMode"],
+                    })
+                  }
+                  className="w-full px-4 py-2 bg-[#1a1b2e]/50 border border-gray-600 rounded-lg text-white focus:ring-2 focus:ring-[#00ffff] focus:border-transparent"
+                >
+                  <option value="mention">Mention the bot (@Video Game Wingman)</option>
+                  <option value="prefix">Mention or command prefix</option>
+                  <option value="slash">Slash commands only</option>
+                </select>
+
+                {settings.triggerMode === "prefix" && (
+                  <div className="mt-4">
+                    <label className="text-gray-300 text-sm block mb-2">
+                      Command Prefix
+                    </label>
+                    <input
+                      type="text"
+                      value={settings.commandPrefix}
+                      maxLength={20}
+                      onChange={(e) =>
+                        setSettings({ ...settings, commandPrefix: e.target.value })
+                      }
+                      placeholder="!wingman"
+                      className="w-full px-4 py-2 bg-[#1a1b2e]/50 border border-gray-600 rounded-lg text-white focus:ring-2 focus:ring-[#00ffff] focus:border-transparent"
+                    />
+                  </div>
+                )}
+              </div>
+
+              {/* Allowed Channels */}
+              <IdListEditor
+                label="Allowed Channels"
+                description="Channel IDs the bot answers in. Leave empty to allow every channel."
+                placeholder="Channel ID"
+                ids={settings.allowedChannelIds}
+                onChange={(allowedChannelIds) =>
+                  setSettings({ ...settings, allowedChannelIds })
+                }
+              />
+
+              {/* Response Style */}
+              <div className="p-4 bg-[#1a1b2e]/50 rounded-lg">
+                <label className="text-white font-semibold block">
+                  Response Style
+                </label>
+                <p className="text-gray-400 text-sm mb-3">
+                  How the bot replies to questions asked in messages
+                </p>
+                <select
+                  value={settings.responseStyle}
+                  onChange={(e) =>
+                    setSettings({
+                      ...settings,
+                      responseStyle: e.target.value as GuildSettings["responseStyle"],
+                    })
+                  }
+                  className="w-full px-4 py-2 bg-[#1a1b2e]/50 border border-gray-600 rounded-lg text-white focus:ring-2 focus:ring-[#00ffff] focus:border-transparent"
+                >
+                  <option value="reply">Reply and ping the member</option>
+                  <option value="no-mention">Reply without pinging</option>
+                  <option value="embed">Reply with an embed</option>
+                </select>
+              </div>
+
+              {/* Custom System Message */}
+              <div className="p-4 bg-[#1a1b2e]/50 rounded-lg">
+                <label className="text-white font-semibold block">
+                  Custom System Message
+                </label>
+                <p className="text-gray-400 text-sm mb-3">
+                  Optional instructions for the AI in this server. Leave empty
+                  to use the default.
+                </p>
+                <textarea
+                  value={settings.customSystemMessage || ""}
+                  maxLength={2000}
+                  rows={4}
+                  onChange={(e) =>
+                    setSettings({
+                      ...settings,
+                      customSystemMessage: e.target.value,
+                    })
+                  }
+                  placeholder="e.g. You are the gaming assistant for our speedrunning community..."
+                  className="w-full px-4 py-2 bg-[#1a1b2e]/50 border border-gray-600 rounded-lg text-white focus:ring-2 focus:ring-[#00ffff] focus:border-transparent"
+                />
+                <p className="text-gray-500 text-xs mt-1 text-right">
+                  {(settings.customSystemMessage || "").length}/2000
+                </p>
+              </div>
+
+              {/* Pro Gating */}
+              <div className="flex items-center justify-between p-4 bg-[#1a1b2e]/50 rounded-lg">
+                <div>
+                  <label className="text-white font-semibold">
+                    Require Pro
+                  </label>
+                  <p className="text-gray-400 text-sm">
+                    Only Video Game Wingman Pro members can ask questions
+                  </p>
+                </div>
+                <Toggle
+                  enabled={settings.requirePro}
+                  onToggle={() =>
+                    setSettings({ ...settings, requirePro: !settings.requirePro })
+                  }
+                />
+              </div>
+
+              {settings.requirePro && (
+                <IdListEditor
+                  label="Pro-Exempt Roles"
+                  description="Members with any of these role IDs can ask questions without Pro (e.g. server boosters)."
+                  placeholder="Role ID"
+                  ids={settings.proExemptRoleIds}
+                  onChange={(proExemptRoleIds) =>
+                    setSettings({ ...settings, proExemptRoleIds })
+                  }
+                />
+              )}
+
+              <h3 className="text-lg font-semibold text-white pt-2">
+                Moderation
+              </h3>
+
+              {/* Enable Moderation */}
+              <div className="flex items-center justify-between p-4 bg-[#1a1b2e]/50 rounded-lg">
+                <div>
+                  <label className="text-white font-semibold">
+                    Enable Moderation
+                  </label>
+                  <p className="text-gray-400 text-sm">
+                    Enable content moderation for this server
+                  </p>
+                </div>
+                <Toggle
+                  enabled={moderationConfig.enabled}
+                  onToggle={() =>
+                    setModerationConfig({
+                      ...moderationConfig,
+                      enabled: !moderationConfig.enabled,
+                    })
+                  }
+                />
+              </div>
+
+              {moderationConfig.enabled && (
+                <>
+                  {/* Strict Mode */}
+                  <div className="flex items-center justify-between p-4 bg-[#1a1b2e]/50 rounded-lg">
+                    <div>
+                      <label className="text-white font-semibold">
+                        Strict Mode
+                      </label>
+                      <p className="text-gray-400 text-sm">
+                        More aggressive content detection
+                      </p>
+                    </div>
+                    <Toggle
+                      enabled={moderationConfig.strictMode}
+                      onToggle={() =>
+                        setModerationConfig({
+                          ...moderationConfig,
+                          strictMode: !moderationConfig.strictMode,
+                        })
+                      }
+                    />
+                  </div>
+
+                  {/* Timeout Durations */}
+                  <div className="p-4 bg-[#1a1b2e]/50 rounded-lg">
+                    <label className="text-white font-semibold mb-4 block">
+                      Timeout Durations (Progressive Moderation)
+                    </label>
+                    <div className="space-y-4">
+                      {timeoutSliders.map((slider) => (
+                        <div key={slider.key}>
+                          <label className="text-gray-300 text-sm">
+                            {slider.label}:{" "}
+                            {formatDuration(
+                              moderationConfig.timeoutDurations[slider.key]
+                            )}
+                          </label>
+                          <input
+                            type="range"
+                            min={slider.min}
+                            max={slider.max}
+                            step={slider.step}
+                            value={moderationConfig.timeoutDurations[slider.key]}
+                            onChange={(e) =>
+                              setModerationConfig({
+                                ...moderationConfig,
+                                timeoutDurations: {
+                                  ...moderationConfig.timeoutDurations,
+                                  [slider.key]: parseInt(e.target.value),
+                                },
+                              })
+                            }
+                            className="w-full h-2 bg-gray-700 rounded-lg appearance-none cursor-pointer"
+                          />
+                          <div className="flex justify-between text-xs text-gray-400 mt-1">
+                            <span>{slider.minLabel}</span>
+                            <span>{slider.maxLabel}</span>
+                          </div>
+                        </div>
+                      ))}
+                    </div>
+                  </div>
+
+                  {/* Max Violations Before Ban */}
+                  <div className="p-4 bg-[#1a1b2e]/50 rounded-lg">
+                    <label className="text-white font-semibold mb-2 block">
+                      Max Violations Before Ban:{" "}
+                      {moderationConfig.maxViolationsBeforeBan}
+                    </label>
+                    <input
+                      type="range"
+                      min="3"
+                      max="10"
+                      step="1"
+                      value={moderationConfig.maxViolationsBeforeBan}
+                      onChange={(e) =>
+                        setModerationConfig({
+                          ...moderationConfig,
+                          maxViolationsBeforeBan: parseInt(e.target.value),
+                        })
+                      }
+                      className="w-full h-2 bg-gray-700 rounded-lg appearance-none cursor-pointer"
+                    />
+                    <div className="flex justify-between text-xs text-gray-400 mt-1">
+                      <span>3</span>
+                      <span>10</span>
+                    </div>
+                    <p className="text-gray-400 text-sm mt-2">
+                      Members will be banned from using the bot after this many
+                      violations
+                    </p>
+                  </div>
+
+                  {/* Check AI Responses */}
+                  <div className="flex items-center justify-between p-4 bg-[#1a1b2e]/50 rounded-lg">
+                    <div>
+                      <label className="text-white font-semibold">
+                        Check AI Responses
+                      </label>
+                      <p className="text-gray-400 text-sm">
+                        Filter inappropriate AI-generated responses
+                      </p>
+                    </div>
+                    <Toggle
+                      enabled={moderationConfig.checkAIResponses}
+                      onToggle={() =>
+                        setModerationConfig({
+                          ...moderationConfig,
+                          checkAIResponses: !moderationConfig.checkAIResponses,
+                        })
+                      }
+                    />
+                  </div>
+
+                  {/* Log All Actions */}
+                  <div className="flex items-center justify-between p-4 bg-[#1a1b2e]/50 rounded-lg">
+                    <div>
+                      <label className="text-white font-semibold">
+                        Log All Actions
+                      </label>
+                      <p className="text-gray-400 text-sm">
+                        Log all moderation actions to database for audit
+                      </p>
+                    </div>
+                    <Toggle
+                      enabled={moderationConfig.logAllActions}
+                      onToggle={() =>
+                        setModerationConfig({
+                          ...moderationConfig,
+                          logAllActions: !moderationConfig.logAllActions,
+                        })
+                      }
+                    />
+                  </div>
+                </>
+              )}
+
+              {/* Action Buttons */}
+              <div className="flex gap-3 pt-4 items-stretch">
+                <button
+                  onClick={handleSave}
+                  disabled={saving || loading}
+                  className="px-5 py-2 bg-gradient-to-r from-[#00ffff] to-[#ff69b4] text-white rounded-lg hover:opacity-90 transition-all duration-200 font-semibold disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                  {saving ? "Saving..." : "Save Settings"}
+                </button>
+                <button
+                  onClick={handleReset}
+                  className="px-2 py-2 bg-gray-600 hover:bg-gray-700 text-white rounded-lg transition-colors font-semibold flex items-center"
+                >
+                  Reset to Defaults
+                </button>
+              </div>
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  );
+};
+
+export default DiscordGuildSettings;
@@ -55,7 +55,7 @@ const FeedbackForm: React.FC<FeedbackFormProps> = ({
         headers: {
           "Content-Type": "application/json",
         },
-        body: JSON.stringify({ username }),
+        body: JSON.stringify({}),
       });
 
       if (!accountResponse.ok) {
@@ -71,7 +71,6 @@ const FeedbackForm: React.FC<FeedbackFormProps> = ({
           "Content-Type": "application/json",
         },
         body: JSON.stringify({
-          username,
           email: userEmail,
           userType,
           category: formData.category,
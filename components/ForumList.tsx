@@ -373,7 +373,7 @@ export default function ForumList() {
                   </p>
                   <div className="mt-2 text-sm text-gray-500">
                     <span className="mr-4">
-                      Posts: {forum.posts?.length || 0}
+                      Posts: {forum.metadata?.totalPosts || 0}
                     </span>
                     <span className="mr-4">
                       Views: {forum.metadata?.viewCount || 0}
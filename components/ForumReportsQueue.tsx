@@ -0,0 +1,245 @@
+"use client";
+
+import React, { useState, useEffect, useCallback } from "react";
+import axios from "@/utils/axiosConfig";
+import toast from "react-hot-toast";
+import { ForumReportQueueItem } from "@/types";
+
+const REASON_LABELS: Record<string, string> = {
+  spam: "Spam",
+  harassment: "Harassment",
+  hate_speech: "Hate speech",
+  inappropriate: "Inappropriate",
+  spoilers: "Spoilers",
+  off_topic: "Off topic",
+  other: "Other",
+};
+
+const ACTION_LABELS: Record<string, string> = {
+  hide_post: "Hide post",
+  restore_post: "Restore post",
+  warn_author: "Warn author",
+  lock_forum: "Lock topic",
+  unlock_forum: "Unlock topic",
+  dismiss_reports: "Dismiss",
+};
+
+/**
+ * Admin queue of reported forum posts and topics, most reported first
+ */
+const ForumReportsQueue: React.FC = () => {
+  const [items, setItems] = useState<ForumReportQueueItem[]>([]);
+  const [page, setPage] = useState(1);
+  const [totalPages, setTotalPages] = useState(1);
+  const [loading, setLoading] = useState(false);
+  const [reasons, setReasons] = useState<Record<string, string>>({});
+  const [acting, setActing] = useState<string | null>(null);
+
+  const fetchQueue = useCallback(async () => {
+    setLoading(true);
+    try {
+      const response = await axios.get("/api/forum-moderation/queue", {
+        params: { page },
+      });
+      setItems(response.data.items || []);
+      setTotalPages(response.data.pagination?.totalPages || 1);
+    } catch (err: any) {
+      console.error("Error loading forum reports:", err);
+      toast.error(err.response?.data?.error || "Failed to load forum reports");
+    } finally {
+      setLoading(false);
+    }
+  }, [page]);
+
+  useEffect(() => {
+    fetchQueue();
+  }, [fetchQueue]);
+
+  const keyFor = (item: ForumReportQueueItem) =>
+    `${item.forumId}:${item.postId || "forum"}`;
+
+  const act = async (item: ForumReportQueueItem, action: string) => {
+    const key = keyFor(item);
+    setActing(key);
+    try {
+      await axios.post("/api/forum-moderation/actions", {
+        action,
+        forumId: item.forumId,
+        postId: item.postId || undefined,
+        reason: reasons[key]?.trim() || undefined,
+      });
+      toast.success(`${ACTION_LABELS[action]}: done`);
+      setReasons((prev) => ({ ...prev, [key]: "" }));
+      await fetchQueue();
+    } catch (err: any) {
+      toast.error(err.response?.data?.error || "Moderation action failed");
+    } finally {
+      setActing(null);
+    }
+  };
+
+  const actionsFor = (item: ForumReportQueueItem) => {
+    if (item.targetType === "forum") {
+      return [
+        item.forum?.isLocked ? "unlock_forum" : "lock_forum",
+        "dismiss_reports",
+      ];
+    }
+    return [
+      item.post?.status === "hidden" ? "restore_post" : "hide_post",
+      "warn_author",
+      "dismiss_reports",
+    ];
+  };
+
+  return (
+    <div className="max-w-7xl mx-auto p-6">
+      <div className="mb-6">
+        <h2 className="text-2xl font-bold text-white">Forum Reports</h2>
+        <p className="text-gray-300 mt-1">
+          Posts and topics reported by the community
+        </p>
+      </div>
+
+      {loading ? (
+        <div className="text-center py-12">
+          <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-600 mx-auto"></div>
+        </div>
+      ) : items.length === 0 ? (
+        <p className="text-center text-gray-300 py-12">No open reports.</p>
+      ) : (
+        <ul className="space-y-4">
+          {items.map((item) => {
+            const key = keyFor(item);
+            return (
+              <li
+                key={key}
+                className="bg-white p-4 rounded-lg shadow-md border border-gray-200"
+              >
+                <div className="flex flex-wrap items-start justify-between gap-2">
+                  <div>
+                    <p className="font-semibold text-gray-900">
+                      {item.targetType === "post" ? "Post" : "Topic"} in{" "}
+                      <a
+                        href={`/forum/${item.forumId}`}
+                        className="text-blue-600 hover:underline"
+                      >
+                        {item.forum?.title || item.forumId}
+                      </a>
+                      {item.reportedUser && (
+                        <span className="text-gray-500 font-normal">
+                          {" "}
+                          by {item.reportedUser}
+                        </span>
+                      )}
+                    </p>
+                    <p className="text-sm text-gray-600">
+                      Last reported{" "}
+                      {new Date(item.lastReportedAt).toLocaleString()}
+                    </p>
+                  </div>
+                  <span className="px-2 py-1 text-xs font-medium rounded-full bg-red-100 text-red-800">
+                    {item.reportCount} report{item.reportCount === 1 ? "" : "s"}
+                  </span>
+                </div>
+
+                <div className="mt-2 flex flex-wrap gap-2">
+                  {Object.entries(item.reasonCounts).map(([reason, count]) => (
+                    <span
+                      key={reason}
+                      className="px-2 py-1 text-xs rounded-full bg-gray-100 text-gray-700"
+                    >
+                      {REASON_LABELS[reason] || reason} × {count}
+                    </span>
+                  ))}
+                </div>
+
+                {item.post && (
+                  <div className="mt-3 p-3 bg-gray-50 rounded-md text-sm text-gray-800 whitespace-pre-wrap break-words">
+                    {item.post.status === "hidden" && (
+                      <p className="text-xs font-medium text-gray-500 mb-1">
+                        Hidden
+                      </p>
+                    )}
+                    {item.post.message}
+                  </div>
+                )}
+
+                {item.reports.some((report) => report.details) && (
+                  <ul className="mt-3 space-y-1 text-sm text-gray-600">
+                    {item.reports
+                      .filter((report) => report.details)
+                      .map((report, index) => (
+                        <li key={index}>
+                          <span className="font-medium">{report.reportedBy}:</span>{" "}
+                          {report.details}
+                        </li>
+                      ))}
+                  </ul>
+                )}
+
+                <div className="mt-3 space-y-2">
+                  <input
+                    type="text"
+                    value={reasons[key] || ""}
+                    onChange={(e) =>
+                      setReasons((prev) => ({ ...prev, [key]: e.target.value }))
+                    }
+                    maxLength={500}
+                    placeholder="Reason (required to warn the author)"
+                    className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm text-gray-900"
+                  />
+                  <div className="flex flex-wrap gap-2">
+                    {actionsFor(item).map((action) => (
+                      <button
+                        key={action}
+                        onClick={() => act(item, action)}
+                        disabled={
+                          acting === key ||
+                          (action === "warn_author" && !reasons[key]?.trim())
+                        }
+                        className={`px-4 py-2 rounded-md text-sm font-medium text-white disabled:opacity-50 transition-colors ${
+                          action === "dismiss_reports"
+                            ? "bg-gray-500 hover:bg-gray-600"
+                            : action === "warn_author"
+                            ? "bg-red-600 hover:bg-red-700"
+                            : "bg-blue-600 hover:bg-blue-700"
+                        }`}
+                      >
+                        {ACTION_LABELS[action]}
+                      </button>
+                    ))}
+                  </div>
+                </div>
+              </li>
+            );
+          })}
+        </ul>
+      )}
+
+      {totalPages > 1 && (
+        <div className="flex justify-center items-center gap-4 mt-6">
+          <button
+            onClick={() => setPage((p) => Math.max(1, p - 1))}
+            disabled={page === 1}
+            className="px-4 py-2 bg-gray-100 text-gray-700 rounded-md disabled:opacity-50"
+          >
+            Previous
+          </button>
+          <span className="text-gray-300 text-sm">
+            Page {page} of {totalPages}
+          </span>
+          <button
+            onClick={() => setPage((p) => Math.min(totalPages, p + 1))}
+            disabled={page === totalPages}
+            className="px-4 py-2 bg-gray-100 text-gray-700 rounded-md disabled:opacity-50"
+          >
+            Next
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ForumReportsQueue;
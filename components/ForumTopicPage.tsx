@@ -15,7 +15,7 @@ export default function ContentModeration() {
       // Validate post data
       const validationErrors = validatePostData({
         message,
-        username: localStorage.getItem("username") || "test-user",
+        username: localStorage.getItem("username") || "",
         forumId: "your-forum-id", // Replace with actual forum ID if needed
       });
       if (validationErrors.length > 0) {
@@ -26,7 +26,7 @@ export default function ContentModeration() {
       // Check for offensive content
       const contentCheck = await containsOffensiveContent(
         message,
-        localStorage.getItem("username") || "test-user"
+        localStorage.getItem("username") || ""
       );
       if (contentCheck.isOffensive) {
         setError(
@@ -0,0 +1,250 @@
+"use client";
+
+import React, { useState, useEffect, useCallback } from "react";
+import axios from "@/utils/axiosConfig";
+import { toast } from "react-hot-toast";
+import {
+  ModerationAppealEntry,
+  ModerationAppealFormProps,
+  ModerationViolationRecord,
+} from "@/types";
+
+const MAX_APPEAL_LENGTH = 2000;
+
+const PLATFORM_LABELS: Record<string, string> = {
+  web: "Video Game Wingman",
+  twitch: "Twitch",
+  discord: "Discord",
+};
+
+const STATUS_LABELS: Record<ModerationAppealEntry["status"], string> = {
+  pending: "Waiting for review",
+  upheld: "Penalty upheld",
+  overturned: "Penalty overturned",
+  reduced: "Penalty reduced",
+};
+
+const describePenalty = (record: ModerationViolationRecord) => {
+  if (record.isBanned) {
+    if (record.isPermanent) return "Permanent ban";
+    return record.banExpiresAt
+      ? `Suspended until ${new Date(record.banExpiresAt).toLocaleDateString()}`
+      : "Banned";
+  }
+  return `${record.warningCount} warning${record.warningCount === 1 ? "" : "s"}`;
+};
+
+const describeRecord = (record: ModerationViolationRecord) => {
+  const where = record.channelName
+    ? ` (#${record.channelName})`
+    : record.guildId
+    ? ` (server ${record.guildId})`
+    : "";
+  return `${PLATFORM_LABELS[record.platform]}${where}: ${describePenalty(record)}`;
+};
+
+/**
+ * Lets a suspended or warned user ask a moderator to review their penalty
+ */
+const ModerationAppealForm: React.FC<ModerationAppealFormProps> = ({
+  onClose,
+}) => {
+  const [records, setRecords] = useState<ModerationViolationRecord[]>([]);
+  const [appeals, setAppeals] = useState<ModerationAppealEntry[]>([]);
+  const [selectedRecordId, setSelectedRecordId] = useState("");
+  const [message, setMessage] = useState("");
+  const [loading, setLoading] = useState(true);
+  const [submitting, setSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchAppeals = useCallback(async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      const response = await axios.get("/api/appeals");
+      const fetchedRecords: ModerationViolationRecord[] = response.data.records || [];
+      setRecords(fetchedRecords);
+      setAppeals(response.data.appeals || []);
+      // Default to the website ban, since that's what blocks the assistant
+      const preferred =
+        fetchedRecords.find((r) => r.platform === "web" && r.isBanned) ||
+        fetchedRecords[0];
+      setSelectedRecordId(preferred ? preferred.id : "");
+    } catch (err: any) {
+      console.error("Error loading appeals:", err);
+      setError(err.response?.data?.error || "Failed to load your penalties");
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchAppeals();
+  }, [fetchAppeals]);
+
+  const pendingRecordIds = new Set(
+    appeals.filter((a) => a.status === "pending").map((a) => a.violationRecordId)
+  );
+  const selectedRecord = records.find((r) => r.id === selectedRecordId);
+  const alreadyPending = selectedRecord
+    ? pendingRecordIds.has(selectedRecord.id)
+    : false;
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!selectedRecord || !message.trim()) return;
+
+    setSubmitting(true);
+    try {
+      const response = await axios.post("/api/appeals", {
+        platform: selectedRecord.platform,
+        violationRecordId: selectedRecord.id,
+        message: message.trim(),
+      });
+      toast.success(response.data.message || "Appeal submitted");
+      setMessage("");
+      await fetchAppeals();
+    } catch (err: any) {
+      toast.error(err.response?.data?.error || "Failed to submit appeal");
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="mt-4 w-full max-w-3xl bg-[#252642]/50 backdrop-blur-sm rounded-2xl border border-[#00ffff]/20 p-6">
+      <div className="flex items-center justify-between mb-4">
+        <h3 className="text-xl font-bold text-[#00ffff]">Appeal a Penalty</h3>
+        {onClose && (
+          <button
+            onClick={onClose}
+            className="text-gray-400 hover:text-white transition-colors"
+            aria-label="Close appeal form"
+          >
+            ✕
+          </button>
+        )}
+      </div>
+
+      {loading ? (
+        <div className="spinner"></div>
+      ) : error ? (
+        <p className="text-red-300">{error}</p>
+      ) : (
+        <>
+          {records.length === 0 ? (
+            <p className="text-gray-400 mb-4">
+              You don&apos;t have any active penalties to appeal.
+            </p>
+          ) : (
+            <form onSubmit={handleSubmit} className="space-y-4">
+              <div>
+                <label className="block text-gray-300 text-sm font-semibold mb-2">
+                  Penalty
+                </label>
+                <select
+                  value={selectedRecordId}
+                  onChange={(e) => setSelectedRecordId(e.target.value)}
+                  className="w-full px-4 py-2 bg-[#1a1b2e]/50 border border-gray-600 rounded-lg text-white focus:ring-2 focus:ring-[#00ffff] focus:border-transparent"
+                >
+                  {records.map((record) => (
+                    <option key={record.id} value={record.id}>
+                      {describeRecord(record)}
+                    </option>
+                  ))}
+                </select>
+              </div>
+
+              {selectedRecord && selectedRecord.violations.length > 0 && (
+                <div className="p-4 bg-[#1a1b2e]/50 rounded-lg">
+                  <p className="text-gray-300 text-sm font-semibold mb-2">
+                    Most recent violation
+                  </p>
+                  <p className="text-gray-400 text-sm">
+                    {new Date(
+                      selectedRecord.violations[0].timestamp
+                    ).toLocaleString()}
+                    : {selectedRecord.violations[0].offendingWords.join(", ")}
+                  </p>
+                </div>
+              )}
+
+              {alreadyPending ? (
+                <p className="text-yellow-300 text-sm">
+                  Your appeal for this penalty is waiting for review.
+                </p>
+              ) : (
+                <>
+                  <div>
+                    <label className="block text-gray-300 text-sm font-semibold mb-2">
+                      Why should this penalty be reviewed?
+                    </label>
+                    <textarea
+                      value={message}
+                      onChange={(e) => setMessage(e.target.value)}
+                      maxLength={MAX_APPEAL_LENGTH}
+                      rows={4}
+                      className="w-full px-4 py-2 bg-[#1a1b2e]/50 border border-gray-600 rounded-lg text-white focus:ring-2 focus:ring-[#00ffff] focus:border-transparent"
+                      placeholder="Explain what happened..."
+                    />
+                    <p className="text-gray-500 text-xs mt-1 text-right">
+                      {message.length}/{MAX_APPEAL_LENGTH}
+                    </p>
+                  </div>
+                  <button
+                    type="submit"
+                    disabled={submitting || !message.trim()}
+                    className="px-6 py-2 bg-[#00ffff] text-[#1a1b2e] font-semibold rounded-lg hover:bg-[#00ffff]/80 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+                  >
+                    {submitting ? "Submitting..." : "Submit Appeal"}
+                  </button>
+                </>
+              )}
+            </form>
+          )}
+
+          {appeals.length > 0 && (
+            <div className="mt-6">
+              <h4 className="text-lg font-semibold text-white mb-2">
+                Your Appeals
+              </h4>
+              <ul className="space-y-2">
+                {appeals.map((appeal) => (
+                  <li
+                    key={appeal._id}
+                    className="p-3 bg-[#1a1b2e]/50 rounded-lg text-sm"
+                  >
+                    <div className="flex justify-between text-gray-300">
+                      <span>{PLATFORM_LABELS[appeal.platform]}</span>
+                      <span
+                        className={
+                          appeal.status === "pending"
+                            ? "text-yellow-300"
+                            : appeal.status === "upheld"
+                            ? "text-red-300"
+                            : "text-green-300"
+                        }
+                      >
+                        {STATUS_LABELS[appeal.status]}
+                      </span>
+                    </div>
+                    <p className="text-gray-400 mt-1">
+                      Submitted {new Date(appeal.createdAt).toLocaleString()}
+                    </p>
+                    {appeal.reviewNote && (
+                      <p className="text-gray-300 mt-1">
+                        Moderator note: {appeal.reviewNote}
+                      </p>
+                    )}
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  );
+};
+
+export default ModerationAppealForm;
@@ -0,0 +1,376 @@
+"use client";
+
+import React, { useState, useEffect, useCallback } from "react";
+import axios from "@/utils/axiosConfig";
+import toast from "react-hot-toast";
+import {
+  ModerationReviewPlatform,
+  ModerationReviewQueueProps,
+  ModerationViolationRecord,
+} from "@/types";
+
+const PLATFORM_LABELS: Record<ModerationReviewPlatform, string> = {
+  web: "Website",
+  twitch: "Twitch",
+  discord: "Discord",
+};
+
+const STATUS_FILTERS = [
+  { value: "appealed", label: "Pending appeals" },
+  { value: "banned", label: "Banned" },
+  { value: "penalized", label: "Banned or warned" },
+  { value: "all", label: "All" },
+];
+
+type Outcome = "uphold" | "overturn" | "reduce";
+
+const OUTCOME_LABELS: Record<Outcome, string> = {
+  uphold: "Uphold",
+  overturn: "Overturn",
+  reduce: "Reduce",
+};
+
+/**
+ * Admin review queue for website, Twitch and Discord violations and their appeals
+ */
+const ModerationReviewQueue: React.FC<ModerationReviewQueueProps> = ({
+  platforms,
+}) => {
+  const [platform, setPlatform] = useState<ModerationReviewPlatform>(
+    platforms[0] || "web"
+  );
+  const [status, setStatus] = useState("appealed");
+  const [records, setRecords] = useState<ModerationViolationRecord[]>([]);
+  const [page, setPage] = useState(1);
+  const [totalPages, setTotalPages] = useState(1);
+  const [loading, setLoading] = useState(false);
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+  const [notes, setNotes] = useState<Record<string, string>>({});
+  const [banDays, setBanDays] = useState<Record<string, number>>({});
+  const [history, setHistory] = useState<Record<string, any[]>>({});
+  const [deciding, setDeciding] = useState<string | null>(null);
+
+  const fetchQueue = useCallback(async () => {
+    setLoading(true);
+    try {
+      const response = await axios.get("/api/admin/moderation/violations", {
+        params: { platform, status, page },
+      });
+      setRecords(response.data.records || []);
+      setTotalPages(response.data.pagination?.totalPages || 1);
+    } catch (err: any) {
+      console.error("Error loading moderation queue:", err);
+      toast.error(err.response?.data?.error || "Failed to load the review queue");
+    } finally {
+      setLoading(false);
+    }
+  }, [platform, status, page]);
+
+  useEffect(() => {
+    fetchQueue();
+  }, [fetchQueue]);
+
+  const fetchHistory = async (record: ModerationViolationRecord) => {
+    try {
+      const response = await axios.get("/api/admin/moderation/decisions", {
+        params: { platform: record.platform, subject: record.subject },
+      });
+      setHistory((prev) => ({ ...prev, [record.id]: response.data.decisions || [] }));
+    } catch (err: any) {
+      toast.error(err.response?.data?.error || "Failed to load decision history");
+    }
+  };
+
+  const toggleExpanded = (record: ModerationViolationRecord) => {
+    if (expandedId === record.id) {
+      setExpandedId(null);
+      return;
+    }
+    setExpandedId(record.id);
+    if (!history[record.id]) {
+      fetchHistory(record);
+    }
+  };
+
+  const decide = async (record: ModerationViolationRecord, outcome: Outcome) => {
+    setDeciding(record.id);
+    try {
+      await axios.post("/api/admin/moderation/decisions", {
+        platform: record.platform,
+        violationRecordId: record.id,
+        outcome,
+        note: notes[record.id]?.trim() || undefined,
+        appealId: record.pendingAppeals?.[0]?._id,
+        banDays:
+          outcome === "reduce" && record.platform === "web" && record.isBanned
+            ? banDays[record.id] || 0
+            : undefined,
+      });
+      toast.success(`Decision recorded: ${OUTCOME_LABELS[outcome].toLowerCase()}`);
+      setNotes((prev) => ({ ...prev, [record.id]: "" }));
+      setHistory((prev) => {
+        const next = { ...prev };
+        delete next[record.id];
+        return next;
+      });
+      setExpandedId(null);
+      await fetchQueue();
+    } catch (err: any) {
+      toast.error(err.response?.data?.error || "Failed to record decision");
+    } finally {
+      setDeciding(null);
+    }
+  };
+
+  const describePenalty = (record: ModerationViolationRecord) => {
+    if (record.isBanned) {
+      if (record.isPermanent) return "Permanently banned";
+      return record.banExpiresAt
+        ? `Banned until ${new Date(record.banExpiresAt).toLocaleString()}`
+        : "Banned";
+    }
+    return `${record.warningCount} warning(s)`;
+  };
+
+  return (
+    <div className="max-w-7xl mx-auto p-6">
+      <div className="mb-6 flex flex-wrap items-center justify-between gap-4">
+        <div>
+          <h1 className="text-3xl font-bold text-white">Moderation Review</h1>
+          <p className="text-gray-300 mt-1">
+            Review violations and appeals, then uphold, overturn or reduce the
+            penalty
+          </p>
+        </div>
+        <div className="flex flex-wrap gap-2">
+          {platforms.map((p) => (
+            <button
+              key={p}
+              onClick={() => {
+                setPlatform(p);
+                setPage(1);
+              }}
+              className={`px-4 py-2 rounded-md text-sm font-medium transition-colors ${
+                platform === p
+                  ? "bg-blue-600 text-white"
+                  : "bg-gray-100 text-gray-700 hover:bg-gray-200"
+              }`}
+            >
+              {PLATFORM_LABELS[p]}
+            </button>
+          ))}
+          <select
+            value={status}
+            onChange={(e) => {
+              setStatus(e.target.value);
+              setPage(1);
+            }}
+            className="px-3 py-2 rounded-md text-sm bg-gray-100 text-gray-700"
+          >
+            {STATUS_FILTERS.map((filter) => (
+              <option key={filter.value} value={filter.value}>
+                {filter.label}
+              </option>
+            ))}
+          </select>
+        </div>
+      </div>
+
+      {loading ? (
+        <div className="text-center py-12">
+          <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-600 mx-auto"></div>
+        </div>
+      ) : records.length === 0 ? (
+        <p className="text-center text-gray-300 py-12">
+          Nothing to review.
+        </p>
+      ) : (
+        <ul className="space-y-4">
+          {records.map((record) => (
+            <li
+              key={record.id}
+              className="bg-white p-4 rounded-lg shadow-md border border-gray-200"
+            >
+              <div
+                className="flex flex-wrap items-center justify-between gap-2 cursor-pointer"
+                onClick={() => toggleExpanded(record)}
+              >
+                <div>
+                  <p className="font-semibold text-gray-900">
+                    {record.subject}
+                    {record.channelName && (
+                      <span className="text-gray-500 font-normal">
+                        {" "}
+                        in #{record.channelName}
+                      </span>
+                    )}
+                    {record.guildId && (
+                      <span className="text-gray-500 font-normal">
+                        {" "}
+                        in server {record.guildId}
+                      </span>
+                    )}
+                  </p>
+                  <p className="text-sm text-gray-600">
+                    {describePenalty(record)}
+                    {record.banCount !== undefined &&
+                      ` · ${record.banCount} ban(s)`}
+                    {record.timeoutCount !== undefined &&
+                      ` · ${record.timeoutCount} timeout(s)`}
+                  </p>
+                </div>
+                {record.pendingAppeals && record.pendingAppeals.length > 0 && (
+                  <span className="px-2 py-1 text-xs font-medium rounded-full bg-yellow-100 text-yellow-800">
+                    Appeal pending
+                  </span>
+                )}
+              </div>
+
+              {expandedId === record.id && (
+                <div className="mt-4 space-y-4">
+                  {record.pendingAppeals?.map((appeal) => (
+                    <div
+                      key={appeal._id}
+                      className="p-3 bg-yellow-50 border border-yellow-200 rounded-md"
+                    >
+                      <p className="text-sm text-gray-700 font-medium">
+                        Appeal from {appeal.username} ·{" "}
+                        {new Date(appeal.createdAt).toLocaleString()}
+                      </p>
+                      <p className="text-sm text-gray-800 mt-1 whitespace-pre-wrap">
+                        {appeal.message}
+                      </p>
+                    </div>
+                  ))}
+
+                  <div>
+                    <p className="text-sm font-medium text-gray-700 mb-2">
+                      Violations
+                    </p>
+                    <ul className="space-y-2">
+                      {record.violations.map((violation, index) => (
+                        <li
+                          key={index}
+                          className="p-3 bg-gray-50 rounded-md text-sm text-gray-700"
+                        >
+                          <p className="text-gray-500">
+                            {new Date(violation.timestamp).toLocaleString()}
+                            {violation.actionTaken &&
+                              ` · ${violation.actionTaken}`}
+                            {violation.reason && ` · ${violation.reason}`}
+                          </p>
+                          <p className="mt-1">
+                            <span className="font-medium">Matched:</span>{" "}
+                            {violation.offendingWords.join(", ") || "—"}
+                          </p>
+                          {violation.content && (
+                            <p className="mt-1 whitespace-pre-wrap break-words">
+                              <span className="font-medium">Content:</span>{" "}
+                              {violation.content}
+                            </p>
+                          )}
+                        </li>
+                      ))}
+                    </ul>
+                  </div>
+
+                  <div className="space-y-2">
+                    <textarea
+                      value={notes[record.id] || ""}
+                      onChange={(e) =>
+                        setNotes((prev) => ({ ...prev, [record.id]: e.target.value }))
+                      }
+                      maxLength={1000}
+                      rows={2}
+                      placeholder="Note for the decision history (shown to the user if they appealed)"
+                      className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm text-gray-900"
+                    />
+                    {record.platform === "web" && record.isBanned && (
+                      <label className="flex items-center gap-2 text-sm text-gray-700">
+                        Reduce to
+                        <input
+                          type="number"
+                          min={0}
+                          max={365}
+                          value={banDays[record.id] ?? 0}
+                          onChange={(e) =>
+                            setBanDays((prev) => ({
+                              ...prev,
+                              [record.id]: Math.max(0, parseInt(e.target.value) || 0),
+                            }))
+                          }
+                          className="w-20 px-2 py-1 border border-gray-300 rounded-md text-gray-900"
+                        />
+                        day(s) from now (0 lifts the ban)
+                      </label>
+                    )}
+                    <div className="flex flex-wrap gap-2">
+                      {(Object.keys(OUTCOME_LABELS) as Outcome[]).map((outcome) => (
+                        <button
+                          key={outcome}
+                          onClick={() => decide(record, outcome)}
+                          disabled={deciding === record.id}
+                          className={`px-4 py-2 rounded-md text-sm font-medium text-white disabled:opacity-50 transition-colors ${
+                            outcome === "uphold"
+                              ? "bg-red-600 hover:bg-red-700"
+                              : outcome === "overturn"
+                              ? "bg-green-600 hover:bg-green-700"
+                              : "bg-blue-600 hover:bg-blue-700"
+                          }`}
+                        >
+                          {OUTCOME_LABELS[outcome]}
+                        </button>
+                      ))}
+                    </div>
+                  </div>
+
+                  {history[record.id] && history[record.id].length > 0 && (
+                    <div>
+                      <p className="text-sm font-medium text-gray-700 mb-2">
+                        Decision history
+                      </p>
+                      <ul className="space-y-1 text-sm text-gray-600">
+                        {history[record.id].map((decision) => (
+                          <li key={decision._id}>
+                            {new Date(decision.createdAt).toLocaleString()} ·{" "}
+                            {OUTCOME_LABELS[decision.outcome as Outcome]} by{" "}
+                            {decision.performedBy}
+                            {decision.note && ` — ${decision.note}`}
+                          </li>
+                        ))}
+                      </ul>
+                    </div>
+                  )}
+                </div>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {totalPages > 1 && (
+        <div className="flex justify-center items-center gap-4 mt-6">
+          <button
+            onClick={() => setPage((p) => Math.max(1, p - 1))}
+            disabled={page === 1}
+            className="px-4 py-2 bg-gray-100 text-gray-700 rounded-md disabled:opacity-50"
+          >
+            Previous
+          </button>
+          <span className="text-gray-300 text-sm">
+            Page {page} of {totalPages}
+          </span>
+          <button
+            onClick={() => setPage((p) => Math.min(totalPages, p + 1))}
+            disabled={page === totalPages}
+            className="px-4 py-2 bg-gray-100 text-gray-700 rounded-md disabled:opacity-50"
+          >
+            Next
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ModerationReviewQueue;
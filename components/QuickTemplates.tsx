@@ -21,9 +21,7 @@ export default function QuickTemplates({
     const fetchUserContext = async () => {
       setLoading(true);
       try {
-        const response = await fetch(
-          `/api/user-context?username=${encodeURIComponent(username)}`
-        );
+        const response = await fetch("/api/user-context");
         if (response.ok) {
           const data = await response.json();
           setUserContext(data);
@@ -0,0 +1,139 @@
+"use client";
+
+import React, { useState, useEffect, useCallback } from "react";
+import axios from "axios";
+import { SecurityEventItem, SecurityEventsTimelineProps } from "@/types";
+
+const PAGE_SIZE = 10;
+
+const EVENT_LABELS: Record<SecurityEventItem["type"], string> = {
+  login: "Signed in",
+  login_reported: "Sign-in reported as not you",
+  account_locked: "Account locked after failed sign-ins",
+  password_changed: "Password changed",
+  password_reset: "Password reset",
+  email_changed: "Email address changed",
+  two_factor_enabled: "Two-factor authentication turned on",
+  two_factor_disabled: "Two-factor authentication turned off",
+  sessions_revoked: "Sessions signed out",
+};
+
+const SEVERITY_DOT: Record<SecurityEventItem["severity"], string> = {
+  info: "bg-[#00ffff]",
+  warning: "bg-yellow-400",
+  critical: "bg-red-500",
+};
+
+/**
+ * Account page section listing recent sign-ins and security changes, newest first
+ */
+const SecurityEventsTimeline: React.FC<SecurityEventsTimelineProps> = ({
+  className = "",
+}) => {
+  const [events, setEvents] = useState<SecurityEventItem[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [loadingMore, setLoadingMore] = useState(false);
+  const [hasMore, setHasMore] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchEvents = useCallback(async (before?: string) => {
+    try {
+      const response = await axios.get("/api/account/security-events", {
+        params: { limit: PAGE_SIZE, before },
+        withCredentials: true,
+      });
+      const page: SecurityEventItem[] = response.data.events || [];
+      setEvents((current) => (before ? [...current, ...page] : page));
+      setHasMore(page.length === PAGE_SIZE);
+    } catch (err: any) {
+      console.error("Error loading security events:", err);
+      setError(err.response?.data?.error || "Failed to load security activity");
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchEvents().finally(() => setLoading(false));
+  }, [fetchEvents]);
+
+  const loadMore = async () => {
+    const last = events[events.length - 1];
+    if (!last?.createdAt) return;
+    setLoadingMore(true);
+    await fetchEvents(last.createdAt);
+    setLoadingMore(false);
+  };
+
+  return (
+    <div
+      className={`bg-[#252642]/50 backdrop-blur-sm rounded-2xl p-6 shadow-[0_0_15px_rgba(0,255,255,0.1)] border border-[#00ffff]/20 ${className}`}
+    >
+      <h2 className="text-2xl font-bold mb-2 text-[#00ffff]">
+        Security Activity
+      </h2>
+      <p className="text-gray-400 text-sm mb-4">
+        Recent sign-ins and changes to your account. We email you when a
+        sign-in looks unusual.
+      </p>
+
+      {loading ? (
+        <p className="text-gray-400 text-sm">Loading...</p>
+      ) : events.length === 0 ? (
+        !error && <p className="text-gray-400 text-sm">No activity yet.</p>
+      ) : (
+        <ol className="relative border-l border-gray-600 ml-2 space-y-4">
+          {events.map((event) => (
+            <li key={event.id} className="ml-4">
+              <span
+                className={`absolute -left-1.5 mt-1.5 h-3 w-3 rounded-full ${SEVERITY_DOT[event.severity]}`}
+              />
+              <div className="flex flex-wrap items-center gap-2">
+                <span className="text-white text-sm font-semibold">
+                  {EVENT_LABELS[event.type] || event.type}
+                </span>
+                {event.severity !== "info" && event.type === "login" && (
+                  <span className="text-xs px-2 py-0.5 rounded-full bg-yellow-500/20 text-yellow-300">
+                    Unusual
+                  </span>
+                )}
+                {event.reportedAt && (
+                  <span className="text-xs px-2 py-0.5 rounded-full bg-red-500/20 text-red-300">
+                    Reported
+                  </span>
+                )}
+              </div>
+              <p className="text-gray-400 text-xs">
+                {event.createdAt
+                  ? new Date(event.createdAt).toLocaleString()
+                  : "Unknown time"}
+                {event.device && ` · ${event.device}`}
+                {event.location && ` · ${event.location}`}
+                {event.ipAddress && ` · ${event.ipAddress}`}
+              </p>
+              {event.riskReasons.length > 0 && (
+                <ul className="mt-1 text-xs text-yellow-300 list-disc list-inside">
+                  {event.riskReasons.map((reason) => (
+                    <li key={reason}>{reason}</li>
+                  ))}
+                </ul>
+              )}
+            </li>
+          ))}
+        </ol>
+      )}
+
+      {hasMore && !loading && (
+        <button
+          onClick={loadMore}
+          disabled={loadingMore}
+          className="mt-4 w-full px-4 py-2 bg-gray-700 text-white rounded-lg hover:bg-gray-600 disabled:opacity-50 transition-colors duration-200 text-sm"
+        >
+          {loadingMore ? "Loading..." : "Load More"}
+        </button>
+      )}
+
+      {error && <p className="text-red-400 text-sm mt-2">{error}</p>}
+    </div>
+  );
+};
+
+export default SecurityEventsTimeline;
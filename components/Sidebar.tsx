@@ -1,6 +1,6 @@
 "use client";
 
-import { SideBarProps } from "../types";
+import { SideBarProps, NotificationData } from "../types";
 import ProStatus from "./ProStatus";
 import DarkModeToggle from "./DarkModeToggle";
 import { useState, useEffect, useCallback } from "react";
@@ -74,6 +74,9 @@ type HotTopicSummary = {
   lastActivityAt: string | Date | null;
 };
 
+// How often the bell badge checks for new notifications
+const NOTIFICATION_POLL_INTERVAL = 60 * 1000;
+
 // Sidebar component that displays conversation history
 const Sidebar: React.FC<SideBarProps & { className?: string }> = ({
   conversations,
@@ -112,6 +115,10 @@ const Sidebar: React.FC<SideBarProps & { className?: string }> = ({
     number | null
   >(null);
   const [showHotTopics, setShowHotTopics] = useState(true);
+  const [notifications, setNotifications] = useState<NotificationData[]>([]);
+  const [unreadCount, setUnreadCount] = useState(0);
+  const [showNotifications, setShowNotifications] = useState(false);
+  const [notificationsLoading, setNotificationsLoading] = useState(false);
 
   // Calculate if there are more conversations to load
   // Prioritize actualTotalConversations (fetched from API), then conversationCount prop, then check array length
@@ -152,7 +159,7 @@ const Sidebar: React.FC<SideBarProps & { className?: string }> = ({
       // Fetch streak data
       try {
         const streakResponse = await fetch(
-          `/api/streak?username=${encodeURIComponent(storedUsername)}`
+          "/api/streak"
         );
         if (streakResponse.ok) {
           const streakData = await streakResponse.json();
@@ -168,7 +175,7 @@ const Sidebar: React.FC<SideBarProps & { className?: string }> = ({
       // Fetch stats data
       try {
         const statsResponse = await fetch(
-          `/api/stats?username=${encodeURIComponent(storedUsername)}`
+          "/api/stats"
         );
         if (statsResponse.ok) {
           const statsData = await statsResponse.json();
@@ -208,14 +215,13 @@ const Sidebar: React.FC<SideBarProps & { className?: string }> = ({
     }
   }, []);
 
-  const fetchHotTopics = useCallback(async (user?: string | null) => {
-    const effectiveUsername =
-      user || localStorage.getItem("username") || "test-user";
+  // Private forums are included for the signed-in user
+  const fetchHotTopics = useCallback(async () => {
     setHotTopicsLoading(true);
     setHotTopicsError(null);
     try {
       const response = await fetch(
-        `/api/hotTopics?username=${encodeURIComponent(effectiveUsername)}`
+        "/api/hotTopics"
       );
       if (!response.ok) {
         throw new Error(`Failed to fetch hot topics (${response.status})`);
@@ -301,10 +307,103 @@ const Sidebar: React.FC<SideBarProps & { className?: string }> = ({
     };
   }, [updateUserData]);
 
+  // Refetch when the user signs in or out
   useEffect(() => {
-    fetchHotTopics(username);
+    fetchHotTopics();
   }, [username, fetchHotTopics]);
 
+  const fetchUnreadCount = useCallback(async () => {
+    try {
+      const response = await fetch("/api/notifications/unread-count");
+      if (response.ok) {
+        const data = await response.json();
+        setUnreadCount(data.unreadCount || 0);
+      }
+    } catch (error) {
+      console.error("Error fetching unread notification count:", error);
+    }
+  }, []);
+
+  const fetchNotifications = useCallback(async () => {
+    setNotificationsLoading(true);
+    try {
+      const response = await fetch("/api/notifications?pageSize=10");
+      if (response.ok) {
+        const data = await response.json();
+        setNotifications(data.notifications || []);
+        setUnreadCount(data.unreadCount || 0);
+      }
+    } catch (error) {
+      console.error("Error fetching notifications:", error);
+    } finally {
+      setNotificationsLoading(false);
+    }
+  }, []);
+
+  // Poll the unread count while signed in (skipped while the tab is hidden)
+  useEffect(() => {
+    if (!username) {
+      setNotifications([]);
+      setUnreadCount(0);
+      setShowNotifications(false);
+      return;
+    }
+
+    fetchUnreadCount();
+    const interval = setInterval(() => {
+      if (document.visibilityState === "visible") {
+        fetchUnreadCount();
+      }
+    }, NOTIFICATION_POLL_INTERVAL);
+
+    return () => clearInterval(interval);
+  }, [username, fetchUnreadCount]);
+
+  const toggleNotifications = () => {
+    const next = !showNotifications;
+    setShowNotifications(next);
+    if (next) {
+      fetchNotifications();
+    }
+  };
+
+  const handleNotificationClick = async (notification: NotificationData) => {
+    if (!notification.isRead) {
+      setNotifications((prev) =>
+        prev.map((n) => (n.id === notification.id ? { ...n, isRead: true } : n))
+      );
+      setUnreadCount((count) => Math.max(0, count - 1));
+      try {
+        await fetch("/api/notifications/mark-read", {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ notificationIds: [notification.id] }),
+        });
+      } catch (error) {
+        console.error("Error marking notification read:", error);
+      }
+    }
+
+    // Feedback responses live in the Feedback view rather than at a URL
+    if (notification.type === "feedback_response") {
+      setShowNotifications(false);
+      setActiveView("feedback");
+    } else if (notification.link) {
+      window.location.href = notification.link;
+    }
+  };
+
+  const handleMarkAllRead = async () => {
+    setNotifications((prev) => prev.map((n) => ({ ...n, isRead: true })));
+    setUnreadCount(0);
+    try {
+      await fetch("/api/notifications/mark-all-read", { method: "POST" });
+    } catch (error) {
+      console.error("Error marking all notifications read:", error);
+      fetchNotifications();
+    }
+  };
+
   // Reset currentPage when conversations are refreshed from parent (e.g., after new question)
   // This happens when conversations are reset to page 1
   useEffect(() => {
@@ -329,7 +428,7 @@ const Sidebar: React.FC<SideBarProps & { className?: string }> = ({
         await new Promise((resolve) => setTimeout(resolve, 500));
         try {
           const statsResponse = await fetch(
-            `/api/stats?username=${encodeURIComponent(username)}`
+            "/api/stats"
           );
           if (statsResponse.ok) {
             const statsData = await statsResponse.json();
@@ -410,6 +509,91 @@ const Sidebar: React.FC<SideBarProps & { className?: string }> = ({
         />
       </div>
 
+      {/* Notifications Bell */}
+      {username && (
+        <div className="mb-4">
+          <button
+            className="w-full px-3 py-2 bg-gray-800 rounded-lg border border-gray-700 hover:bg-gray-700 transition flex items-center justify-between"
+            onClick={toggleNotifications}
+            aria-label={`Notifications${unreadCount > 0 ? ` (${unreadCount} unread)` : ""}`}
+            aria-expanded={showNotifications}
+          >
+            <span className="flex items-center space-x-2 text-sm text-gray-300">
+              <svg
+                className="w-5 h-5"
+                fill="none"
+                stroke="currentColor"
+                viewBox="0 0 24 24"
+              >
+                <path
+                  strokeLinecap="round"
+                  strokeLinejoin="round"
+                  strokeWidth={2}
+                  d="M15 17h5l-1.405-1.405A2.032 2.032 0 0118 14.158V11a6.002 6.002 0 00-4-5.659V5a2 2 0 10-4 0v.341C7.67 6.165 6 8.388 6 11v3.159c0 .538-.214 1.055-.595 1.436L4 17h5m6 0v1a3 3 0 11-6 0v-1m6 0H9"
+                />
+              </svg>
+              <span>Notifications</span>
+            </span>
+            {unreadCount > 0 && (
+              <span className="min-w-[20px] px-1.5 py-0.5 rounded-full bg-red-500 text-white text-xs font-bold text-center">
+                {unreadCount > 99 ? "99+" : unreadCount}
+              </span>
+            )}
+          </button>
+
+          {showNotifications && (
+            <div className="mt-2 p-2 bg-gray-800 rounded-lg border border-gray-700">
+              <div className="flex items-center justify-between mb-2 px-1">
+                <span className="text-xs font-semibold text-gray-400 uppercase tracking-wide">
+                  Recent
+                </span>
+                {unreadCount > 0 && (
+                  <button
+                    className="text-xs text-blue-400 hover:text-blue-300"
+                    onClick={handleMarkAllRead}
+                  >
+                    Mark all read
+                  </button>
+                )}
+              </div>
+              <div className="max-h-64 overflow-y-auto space-y-1">
+                {notificationsLoading && notifications.length === 0 ? (
+                  <p className="text-xs text-gray-400 px-1">Loading...</p>
+                ) : notifications.length === 0 ? (
+                  <p className="text-xs text-gray-400 px-1">
+                    You&apos;re all caught up.
+                  </p>
+                ) : (
+                  notifications.map((notification) => (
+                    <button
+                      key={notification.id}
+                      className={`w-full text-left p-2 rounded-md transition text-sm ${
+                        notification.isRead
+                          ? "bg-gray-900/30 hover:bg-gray-900/60"
+                          : "bg-blue-900/40 hover:bg-blue-900/60"
+                      }`}
+                      onClick={() => handleNotificationClick(notification)}
+                    >
+                      <div className="flex justify-between text-xs text-gray-400">
+                        <span className="truncate font-semibold text-white">
+                          {notification.title}
+                        </span>
+                        <span className="ml-2 flex-shrink-0">
+                          {formatRelativeTime(notification.createdAt)}
+                        </span>
+                      </div>
+                      <div className="text-xs text-gray-300 line-clamp-2">
+                        {notification.message}
+                      </div>
+                    </button>
+                  ))
+                )}
+              </div>
+            </div>
+          )}
+        </div>
+      )}
+
       {/* Quick Stats Widget */}
       {username && stats && (
         <div className="mb-4 p-3 bg-gray-800 rounded-lg border border-gray-700">
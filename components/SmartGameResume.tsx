@@ -32,9 +32,7 @@ export default function SmartGameResume({
       setLoading(true);
 
       try {
-        const response = await axios.get<GameResumeData>("/api/game-resume", {
-          params: { username },
-        });
+        const response = await axios.get<GameResumeData>("/api/game-resume");
 
         if (response.data && response.data.game && response.data.suggestion) {
           setResumeData(response.data);
@@ -433,7 +433,7 @@ const TwitchBotAnalytics: React.FC<TwitchBotAnalyticsProps> = ({ className = ""
         <>
           {/* Summary Cards */}
           {summaryData && (
-            <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mb-6">
+            <div className="grid grid-cols-1 md:grid-cols-2 xl:grid-cols-4 gap-4 mb-6">
               <div className="bg-[#1a1b2e]/50 rounded-lg p-4 border border-[#00ffff]/20">
                 <div className="text-sm text-gray-400 mb-1">Total Messages</div>
                 <div className="text-2xl font-bold text-[#00ffff]">{summaryData.totalMessages.toLocaleString()}</div>
@@ -455,6 +455,13 @@ const TwitchBotAnalytics: React.FC<TwitchBotAnalyticsProps> = ({ className = ""
                   Processing: {summaryData.avgProcessingTimeMs}ms
                 </div>
               </div>
+              <div className="bg-[#1a1b2e]/50 rounded-lg p-4 border border-[#00ffff]/20">
+                <div className="text-sm text-gray-400 mb-1">Trivia Rounds</div>
+                <div className="text-2xl font-bold text-[#00ffff]">{summaryData.trivia.rounds.toLocaleString()}</div>
+                <div className="text-xs text-gray-500 mt-1">
+                  {summaryData.trivia.predictions} predictions, {summaryData.trivia.participants} players, {summaryData.trivia.correctAnswers} correct
+                </div>
+              </div>
             </div>
           )}
 
@@ -2,11 +2,31 @@
 
 import React, { useState, useEffect } from "react";
 import axios from "axios";
+import TwitchChannelTimers from "./TwitchChannelTimers";
+import TwitchChannelTrivia from "./TwitchChannelTrivia";
 import {
   TwitchChannelSettingsProps,
   type TwitchChannelSettings,
+  type TwitchCustomCommand,
+  type TwitchCommandPermission,
 } from "../types";
 
+const emptyCommandDraft = {
+  name: "",
+  response: "",
+  cooldownSeconds: 5,
+  permission: "everyone" as TwitchCommandPermission,
+  enabled: true,
+};
+
+const permissionOptions: { value: TwitchCommandPermission; label: string }[] = [
+  { value: "everyone", label: "Everyone" },
+  { value: "subscriber", label: "Subscribers" },
+  { value: "vip", label: "VIPs" },
+  { value: "moderator", label: "Moderators" },
+  { value: "broadcaster", label: "Broadcaster only" },
+];
+
 const TwitchChannelSettings: React.FC<TwitchChannelSettingsProps> = ({
   channelName,
   onClose,
@@ -17,6 +37,12 @@ const TwitchChannelSettings: React.FC<TwitchChannelSettingsProps> = ({
   const [error, setError] = useState<string | null>(null);
   const [success, setSuccess] = useState<string | null>(null);
   const [newPrefix, setNewPrefix] = useState("");
+  const [commands, setCommands] = useState<TwitchCustomCommand[]>([]);
+  const [commandDraft, setCommandDraft] = useState(emptyCommandDraft);
+  // Name of the command being edited, or null when the form adds a new one
+  const [editingCommand, setEditingCommand] = useState<string | null>(null);
+  const [commandError, setCommandError] = useState<string | null>(null);
+  const [commandSaving, setCommandSaving] = useState(false);
 
   useEffect(() => {
     const fetchSettings = async () => {
@@ -55,6 +81,26 @@ const TwitchChannelSettings: React.FC<TwitchChannelSettingsProps> = ({
     fetchSettings();
   }, [channelName]);
 
+  useEffect(() => {
+    const fetchCommands = async () => {
+      try {
+        const response = await axios.get("/api/twitchBot/customCommands", {
+          params: { channelName },
+        });
+        if (response.data.success) {
+          setCommands(response.data.commands || []);
+        }
+      } catch (err: any) {
+        console.error("Error fetching custom commands:", err);
+        setCommandError(
+          err.response?.data?.message || "Failed to load custom commands"
+        );
+      }
+    };
+
+    fetchCommands();
+  }, [channelName]);
+
   const handleSave = async () => {
     try {
       setSaving(true);
@@ -110,6 +156,94 @@ const TwitchChannelSettings: React.FC<TwitchChannelSettingsProps> = ({
     });
   };
 
+  // Custom commands are saved immediately, separately from the settings form
+  const handleSaveCommand = async () => {
+    try {
+      setCommandSaving(true);
+      setCommandError(null);
+
+      if (editingCommand) {
+        const response = await axios.put("/api/twitchBot/customCommands", {
+          channelName,
+          name: editingCommand,
+          command: commandDraft,
+        });
+        setCommands(
+          commands.map((command) =>
+            command.name === editingCommand ? response.data.command : command
+          )
+        );
+      } else {
+        const response = await axios.post("/api/twitchBot/customCommands", {
+          channelName,
+          command: commandDraft,
+        });
+        setCommands([...commands, response.data.command]);
+      }
+
+      setCommandDraft(emptyCommandDraft);
+      setEditingCommand(null);
+    } catch (err: any) {
+      console.error("Error saving custom command:", err);
+      setCommandError(err.response?.data?.message || "Failed to save command");
+    } finally {
+      setCommandSaving(false);
+    }
+  };
+
+  const handleEditCommand = (command: TwitchCustomCommand) => {
+    setEditingCommand(command.name);
+    setCommandError(null);
+    setCommandDraft({
+      name: command.name,
+      response: command.response,
+      cooldownSeconds: command.cooldownSeconds,
+      permission: command.permission,
+      enabled: command.enabled,
+    });
+  };
+
+  const handleCancelEditCommand = () => {
+    setEditingCommand(null);
+    setCommandError(null);
+    setCommandDraft(emptyCommandDraft);
+  };
+
+  const handleToggleCommand = async (command: TwitchCustomCommand) => {
+    try {
+      setCommandError(null);
+      const response = await axios.put("/api/twitchBot/customCommands", {
+        channelName,
+        name: command.name,
+        command: { enabled: !command.enabled },
+      });
+      setCommands(
+        commands.map((c) => (c.name === command.name ? response.data.command : c))
+      );
+    } catch (err: any) {
+      console.error("Error updating custom command:", err);
+      setCommandError(err.response?.data?.message || "Failed to update command");
+    }
+  };
+
+  const handleDeleteCommand = async (name: string) => {
+    if (!window.confirm(`Delete !${name}?`)) return;
+
+    try {
+      setCommandError(null);
+      await axios.delete("/api/twitchBot/customCommands", {
+        params: { channelName, name },
+      });
+      setCommands(commands.filter((command) => command.name !== name));
+      if (editingCommand === name) {
+        handleCancelEditCommand();
+      }
+    } catch (err: any) {
+      console.error("Error deleting custom command:", err);
+      setCommandError(err.response?.data?.message || "Failed to delete command");
+    }
+  };
+
   const formatTime = (ms: number): string => {
     if (ms < 1000) return `${ms}ms`;
     if (ms < 60000) return `${ms / 1000}s`;
@@ -210,6 +344,187 @@ const TwitchChannelSettings: React.FC<TwitchChannelSettingsProps> = ({
           </div>
         </div>
 
+        {/* Custom Commands */}
+        <div className="bg-gray-900 rounded-lg p-4 border border-gray-700">
+          <h3 className="text-lg font-semibold text-white mb-3">
+            Custom Commands
+          </h3>
+          <p className="text-sm text-gray-400 mb-3">
+            Static chat commands like !specs or !discord. Responses can use{" "}
+            <code>{"{user}"}</code>, <code>{"{channel}"}</code>,{" "}
+            <code>{"{game}"}</code>, <code>{"{count}"}</code> and{" "}
+            <code>{"{args}"}</code>. Changes here are saved immediately.
+          </p>
+
+          {commandError && (
+            <div className="mb-3 p-3 bg-red-900/30 border border-red-700 rounded-lg text-red-300 text-sm">
+              {commandError}
+            </div>
+          )}
+
+          {commands.length > 0 && (
+            <div className="space-y-2 mb-4">
+              {commands.map((command) => (
+                <div
+                  key={command.name}
+                  className={`p-3 bg-gray-800 rounded-lg border border-gray-700 ${
+                    command.enabled ? "" : "opacity-60"
+                  }`}
+                >
+                  <div className="flex items-center justify-between gap-3">
+                    <div className="min-w-0">
+                      <span className="text-purple-300 font-medium">
+                        !{command.name}
+                      </span>
+                      <span className="ml-2 text-xs text-gray-500">
+                        {permissionOptions.find(
+                          (option) => option.value === command.permission
+                        )?.label || command.permission}
+                        {" · "}
+                        {command.cooldownSeconds}s cooldown
+                        {" · "}
+                        used {command.useCount || 0}×
+                      </span>
+                      <p className="text-sm text-gray-300 truncate">
+                        {command.response}
+                      </p>
+                      {command.name === "game" && command.enabled && (
+                        <p className="text-xs text-yellow-400">
+                          Answers instead of the bot&apos;s built-in !game, so mods can&apos;t set
+                          the game from chat. Disable or rename it to use the built-in one.
+                        </p>
+                      )}
+                    </div>
+                    <div className="flex gap-2 shrink-0 text-sm">
+                      <button
+                        onClick={() => handleToggleCommand(command)}
+                        className="text-gray-400 hover:text-white"
+                      >
+                        {command.enabled ? "Disable" : "Enable"}
+                      </button>
+                      <button
+                        onClick={() => handleEditCommand(command)}
+                        className="text-purple-300 hover:text-white"
+                      >
+                        Edit
+                      </button>
+                      <button
+                        onClick={() => handleDeleteCommand(command.name)}
+                        className="text-red-400 hover:text-red-300"
+                      >
+                        Delete
+                      </button>
+                    </div>
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+
+          <div className="space-y-3">
+            <div className="flex gap-2">
+              <input
+                type="text"
+                value={commandDraft.name}
+                onChange={(e) =>
+                  setCommandDraft({ ...commandDraft, name: e.target.value })
+                }
+                placeholder="!specs"
+                className="w-40 px-3 py-2 bg-gray-800 border border-gray-700 rounded-lg text-white placeholder-gray-500 focus:outline-none focus:border-purple-600"
+              />
+              <select
+                value={commandDraft.permission}
+                onChange={(e) =>
+                  setCommandDraft({
+                    ...commandDraft,
+                    permission: e.target.value as TwitchCommandPermission,
+                  })
+                }
+                className="px-3 py-2 bg-gray-800 border border-gray-700 rounded-lg text-white focus:outline-none focus:border-purple-600"
+              >
+                {permissionOptions.map((option) => (
+                  <option key={option.value} value={option.value}>
+                    {option.label}
+                  </option>
+                ))}
+              </select>
+              <label className="flex items-center gap-2 text-sm text-gray-400">
+                Cooldown (s)
+                <input
+                  type="number"
+                  min="0"
+                  max="3600"
+                  value={commandDraft.cooldownSeconds}
+                  onChange={(e) =>
+                    setCommandDraft({
+                      ...commandDraft,
+                      cooldownSeconds: parseInt(e.target.value) || 0,
+                    })
+                  }
+                  className="w-20 px-2 py-2 bg-gray-800 border border-gray-700 rounded-lg text-white focus:outline-none focus:border-purple-600"
+                />
+              </label>
+            </div>
+            <textarea
+              value={commandDraft.response}
+              onChange={(e) =>
+                setCommandDraft({ ...commandDraft, response: e.target.value })
+              }
+              rows={2}
+              maxLength={500}
+              placeholder="@{user} the PC specs are: ..."
+              className="w-full px-3 py-2 bg-gray-800 border border-gray-700 rounded-lg text-white placeholder-gray-500 focus:outline-none focus:border-purple-600 resize-none"
+            />
+            <div className="flex gap-2">
+              <button
+                onClick={handleSaveCommand}
+                disabled={
+                  commandSaving ||
+                  !commandDraft.name.trim() ||
+                  !commandDraft.response.trim()
+                }
+                className="px-4 py-2 bg-purple-600 hover:bg-purple-700 text-white rounded-lg transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                {commandSaving
+                  ? "Saving..."
+                  : editingCommand
+                  ? "Update Command"
+                  : "Add Command"}
+              </button>
+              {editingCommand && (
+                <button
+                  onClick={handleCancelEditCommand}
+                  className="px-4 py-2 bg-gray-700 hover:bg-gray-600 text-white rounded-lg transition-colors"
+                >
+                  Cancel
+                </button>
+              )}
+            </div>
+          </div>
+        </div>
+
+        <TwitchChannelTimers channelName={channelName} />
+
+        {/* Question Queue */}
+        <div className="bg-gray-900 rounded-lg p-4 border border-gray-700">
+          <h3 className="text-lg font-semibold text-white mb-3">
+            Question Queue
+          </h3>
+          <p className="text-sm text-gray-400 mb-3">
+            For busy chats: queue questions instead of answering them right
+            away, let viewers vote with !upvote, and pick which ones the bot
+            answers. The queue page also has the stream overlay URL.
+          </p>
+          <a
+            href={`/twitch-bot/queue?channel=${encodeURIComponent(channelName)}`}
+            className="inline-block px-4 py-2 bg-purple-600 hover:bg-purple-700 text-white rounded-lg transition-colors"
+          >
+            Open Question Queue
+          </a>
+        </div>
+
+        <TwitchChannelTrivia channelName={channelName} />
+
         {/* Bot Mention */}
         <div className="bg-gray-900 rounded-lg p-4 border border-gray-700">
           <h3 className="text-lg font-semibold text-white mb-3">Bot Mention</h3>
@@ -0,0 +1,458 @@
+"use client";
+
+import React, { useState, useEffect } from "react";
+import axios from "axios";
+import {
+  TwitchChannelTimersProps,
+  type TwitchTimer,
+  type TwitchScheduledAnnouncement,
+} from "../types";
+
+const emptyTimerDraft = {
+  name: "",
+  messages: "",
+  intervalMinutes: 15,
+  minChatLines: 10,
+};
+
+const announcementStatusStyles: Record<TwitchScheduledAnnouncement["status"], string> = {
+  pending: "text-purple-300",
+  sent: "text-green-400",
+  cancelled: "text-gray-500",
+  missed: "text-yellow-400",
+};
+
+/**
+ * Timers and scheduled announcements for a channel
+ * Changes are saved immediately, separately from the channel settings form
+ */
+const TwitchChannelTimers: React.FC<TwitchChannelTimersProps> = ({
+  channelName,
+}) => {
+  const [timers, setTimers] = useState<TwitchTimer[]>([]);
+  const [timersPaused, setTimersPaused] = useState(false);
+  const [announcements, setAnnouncements] = useState<
+    TwitchScheduledAnnouncement[]
+  >([]);
+  // Messages are edited one per line
+  const [timerDraft, setTimerDraft] = useState(emptyTimerDraft);
+  const [editingTimer, setEditingTimer] = useState<string | null>(null);
+  const [announcementMessage, setAnnouncementMessage] = useState("");
+  const [announcementSendAt, setAnnouncementSendAt] = useState("");
+  const [error, setError] = useState<string | null>(null);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    const fetchTimers = async () => {
+      try {
+        const [timersResponse, announcementsResponse] = await Promise.all([
+          axios.get("/api/twitchBot/timers", { params: { channelName } }),
+          axios.get("/api/twitchBot/announcements", {
+            params: { channelName },
+          }),
+        ]);
+        setTimers(timersResponse.data.timers || []);
+        setTimersPaused(timersResponse.data.timersPaused || false);
+        setAnnouncements(announcementsResponse.data.announcements || []);
+      } catch (err: any) {
+        console.error("Error fetching timers:", err);
+        setError(err.response?.data?.message || "Failed to load timers");
+      }
+    };
+
+    fetchTimers();
+  }, [channelName]);
+
+  const handleSaveTimer = async () => {
+    const timer = {
+      name: timerDraft.name,
+      messages: timerDraft.messages
+        .split("\n")
+        .map((message) => message.trim())
+        .filter(Boolean),
+      intervalMinutes: timerDraft.intervalMinutes,
+      minChatLines: timerDraft.minChatLines,
+    };
+
+    try {
+      setSaving(true);
+      setError(null);
+
+      if (editingTimer) {
+        const response = await axios.put("/api/twitchBot/timers", {
+          channelName,
+          id: editingTimer,
+          timer,
+        });
+        setTimers(
+          timers.map((t) => (t.id === editingTimer ? response.data.timer : t))
+        );
+      } else {
+        const response = await axios.post("/api/twitchBot/timers", {
+          channelName,
+          timer,
+        });
+        setTimers([...timers, response.data.timer]);
+      }
+
+      setTimerDraft(emptyTimerDraft);
+      setEditingTimer(null);
+    } catch (err: any) {
+      console.error("Error saving timer:", err);
+      setError(err.response?.data?.message || "Failed to save timer");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleEditTimer = (timer: TwitchTimer) => {
+    setEditingTimer(timer.id);
+    setError(null);
+    setTimerDraft({
+      name: timer.name,
+      messages: timer.messages.join("\n"),
+      intervalMinutes: timer.intervalMinutes,
+      minChatLines: timer.minChatLines,
+    });
+  };
+
+  const handleCancelEditTimer = () => {
+    setEditingTimer(null);
+    setError(null);
+    setTimerDraft(emptyTimerDraft);
+  };
+
+  const handleToggleTimer = async (timer: TwitchTimer) => {
+    try {
+      setError(null);
+      const response = await axios.put("/api/twitchBot/timers", {
+        channelName,
+        id: timer.id,
+        timer: { paused: !timer.paused },
+      });
+      setTimers(timers.map((t) => (t.id === timer.id ? response.data.timer : t)));
+    } catch (err: any) {
+      console.error("Error updating timer:", err);
+      setError(err.response?.data?.message || "Failed to update timer");
+    }
+  };
+
+  const handleDeleteTimer = async (timer: TwitchTimer) => {
+    if (!window.confirm(`Delete the "${timer.name}" timer?`)) return;
+
+    try {
+      setError(null);
+      await axios.delete("/api/twitchBot/timers", {
+        params: { channelName, id: timer.id },
+      });
+      setTimers(timers.filter((t) => t.id !== timer.id));
+      if (editingTimer === timer.id) {
+        handleCancelEditTimer();
+      }
+    } catch (err: any) {
+      console.error("Error deleting timer:", err);
+      setError(err.response?.data?.message || "Failed to delete timer");
+    }
+  };
+
+  const handleTogglePauseAll = async () => {
+    try {
+      setError(null);
+      const response = await axios.patch("/api/twitchBot/timers", {
+        channelName,
+        paused: !timersPaused,
+      });
+      setTimersPaused(response.data.timersPaused);
+    } catch (err: any) {
+      console.error("Error pausing timers:", err);
+      setError(err.response?.data?.message || "Failed to update timers");
+    }
+  };
+
+  const handleScheduleAnnouncement = async () => {
+    try {
+      setSaving(true);
+      setError(null);
+      const response = await axios.post("/api/twitchBot/announcements", {
+        channelName,
+        announcement: {
+          message: announcementMessage,
+          // datetime-local values are in the browser's timezone
+          sendAt: new Date(announcementSendAt).toISOString(),
+        },
+      });
+      setAnnouncements(
+        [...announcements, response.data.announcement].sort(
+          (a, b) => new Date(a.sendAt).getTime() - new Date(b.sendAt).getTime()
+        )
+      );
+      setAnnouncementMessage("");
+      setAnnouncementSendAt("");
+    } catch (err: any) {
+      console.error("Error scheduling announcement:", err);
+      setError(
+        err.response?.data?.message || "Failed to schedule announcement"
+      );
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleCancelAnnouncement = async (id: string) => {
+    try {
+      setError(null);
+      await axios.delete("/api/twitchBot/announcements", {
+        params: { channelName, id },
+      });
+      setAnnouncements(
+        announcements.map((announcement) =>
+          announcement.id === id
+            ? { ...announcement, status: "cancelled" }
+            : announcement
+        )
+      );
+    } catch (err: any) {
+      console.error("Error cancelling announcement:", err);
+      setError(err.response?.data?.message || "Failed to cancel announcement");
+    }
+  };
+
+  return (
+    <>
+      {/* Timers */}
+      <div className="bg-gray-900 rounded-lg p-4 border border-gray-700">
+        <div className="flex items-center justify-between mb-3">
+          <h3 className="text-lg font-semibold text-white">Timers</h3>
+          {timers.length > 0 && (
+            <button
+              onClick={handleTogglePauseAll}
+              className={`px-3 py-1.5 rounded text-sm font-medium transition-colors text-white ${
+                timersPaused
+                  ? "bg-green-600 hover:bg-green-700"
+                  : "bg-yellow-600 hover:bg-yellow-700"
+              }`}
+            >
+              {timersPaused ? "Resume All" : "Pause All"}
+            </button>
+          )}
+        </div>
+        <p className="text-sm text-gray-400 mb-3">
+          Post a rotating list of messages every few minutes. A timer only
+          posts once chat has had enough messages since its last post, so it
+          stays quiet when chat is. Changes here are saved immediately.
+        </p>
+
+        {error && (
+          <div className="mb-3 p-3 bg-red-900/30 border border-red-700 rounded-lg text-red-300 text-sm">
+            {error}
+          </div>
+        )}
+
+        {timersPaused && timers.length > 0 && (
+          <div className="mb-3 p-3 bg-yellow-900/30 border border-yellow-700 rounded-lg text-yellow-300 text-sm">
+            All timers are paused.
+          </div>
+        )}
+
+        {timers.length > 0 && (
+          <div className="space-y-2 mb-4">
+            {timers.map((timer) => (
+              <div
+                key={timer.id}
+                className={`p-3 bg-gray-800 rounded-lg border border-gray-700 ${
+                  timer.paused ? "opacity-60" : ""
+                }`}
+              >
+                <div className="flex items-center justify-between gap-3">
+                  <div className="min-w-0">
+                    <span className="text-purple-300 font-medium">
+                      {timer.name}
+                    </span>
+                    <span className="ml-2 text-xs text-gray-500">
+                      every {timer.intervalMinutes} min · after{" "}
+                      {timer.minChatLines} chat lines · {timer.messages.length}{" "}
+                      message{timer.messages.length === 1 ? "" : "s"}
+                      {timer.paused ? " · paused" : ""}
+                    </span>
+                    <p className="text-sm text-gray-300 truncate">
+                      {timer.messages[0]}
+                    </p>
+                  </div>
+                  <div className="flex gap-2 shrink-0 text-sm">
+                    <button
+                      onClick={() => handleToggleTimer(timer)}
+                      className="text-gray-400 hover:text-white"
+                    >
+                      {timer.paused ? "Resume" : "Pause"}
+                    </button>
+                    <button
+                      onClick={() => handleEditTimer(timer)}
+                      className="text-purple-300 hover:text-white"
+                    >
+                      Edit
+                    </button>
+                    <button
+                      onClick={() => handleDeleteTimer(timer)}
+                      className="text-red-400 hover:text-red-300"
+                    >
+                      Delete
+                    </button>
+                  </div>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+
+        <div className="space-y-3">
+          <div className="flex flex-wrap gap-2">
+            <input
+              type="text"
+              value={timerDraft.name}
+              onChange={(e) =>
+                setTimerDraft({ ...timerDraft, name: e.target.value })
+              }
+              placeholder="Timer name"
+              className="w-48 px-3 py-2 bg-gray-800 border border-gray-700 rounded-lg text-white placeholder-gray-500 focus:outline-none focus:border-purple-600"
+            />
+            <label className="flex items-center gap-2 text-sm text-gray-400">
+              Every (min)
+              <input
+                type="number"
+                min="5"
+                max="1440"
+                value={timerDraft.intervalMinutes}
+                onChange={(e) =>
+                  setTimerDraft({
+                    ...timerDraft,
+                    intervalMinutes: parseInt(e.target.value) || 0,
+                  })
+                }
+                className="w-20 px-2 py-2 bg-gray-800 border border-gray-700 rounded-lg text-white focus:outline-none focus:border-purple-600"
+              />
+            </label>
+            <label className="flex items-center gap-2 text-sm text-gray-400">
+              Min. chat lines
+              <input
+                type="number"
+                min="0"
+                max="1000"
+                value={timerDraft.minChatLines}
+                onChange={(e) =>
+                  setTimerDraft({
+                    ...timerDraft,
+                    minChatLines: parseInt(e.target.value) || 0,
+                  })
+                }
+                className="w-20 px-2 py-2 bg-gray-800 border border-gray-700 rounded-lg text-white focus:outline-none focus:border-purple-600"
+              />
+            </label>
+          </div>
+          <textarea
+            value={timerDraft.messages}
+            onChange={(e) =>
+              setTimerDraft({ ...timerDraft, messages: e.target.value })
+            }
+            rows={3}
+            placeholder={
+              "One message per line, posted in rotation\nFollow on socials: ..."
+            }
+            className="w-full px-3 py-2 bg-gray-800 border border-gray-700 rounded-lg text-white placeholder-gray-500 focus:outline-none focus:border-purple-600 resize-none"
+          />
+          <div className="flex gap-2">
+            <button
+              onClick={handleSaveTimer}
+              disabled={
+                saving || !timerDraft.name.trim() || !timerDraft.messages.trim()
+              }
+              className="px-4 py-2 bg-purple-600 hover:bg-purple-700 text-white rounded-lg transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {saving ? "Saving..." : editingTimer ? "Update Timer" : "Add Timer"}
+            </button>
+            {editingTimer && (
+              <button
+                onClick={handleCancelEditTimer}
+                className="px-4 py-2 bg-gray-700 hover:bg-gray-600 text-white rounded-lg transition-colors"
+              >
+                Cancel
+              </button>
+            )}
+          </div>
+        </div>
+      </div>
+
+      {/* Scheduled Announcements */}
+      <div className="bg-gray-900 rounded-lg p-4 border border-gray-700">
+        <h3 className="text-lg font-semibold text-white mb-3">
+          Scheduled Announcements
+        </h3>
+        <p className="text-sm text-gray-400 mb-3">
+          One-off messages posted at a set time. Announcements the bot could
+          not post within 15 minutes (for example while it was offline) are
+          marked missed.
+        </p>
+
+        {announcements.length > 0 && (
+          <div className="space-y-2 mb-4">
+            {announcements.map((announcement) => (
+              <div
+                key={announcement.id}
+                className="p-3 bg-gray-800 rounded-lg border border-gray-700 flex items-center justify-between gap-3"
+              >
+                <div className="min-w-0">
+                  <span className="text-xs text-gray-500">
+                    {new Date(announcement.sendAt).toLocaleString()} ·{" "}
+                    <span className={announcementStatusStyles[announcement.status]}>
+                      {announcement.status}
+                    </span>
+                  </span>
+                  <p className="text-sm text-gray-300 truncate">
+                    {announcement.message}
+                  </p>
+                </div>
+                {announcement.status === "pending" && (
+                  <button
+                    onClick={() => handleCancelAnnouncement(announcement.id)}
+                    className="text-sm text-red-400 hover:text-red-300 shrink-0"
+                  >
+                    Cancel
+                  </button>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+
+        <div className="space-y-3">
+          <textarea
+            value={announcementMessage}
+            onChange={(e) => setAnnouncementMessage(e.target.value)}
+            rows={2}
+            maxLength={500}
+            placeholder="Giveaway starts in 10 minutes!"
+            className="w-full px-3 py-2 bg-gray-800 border border-gray-700 rounded-lg text-white placeholder-gray-500 focus:outline-none focus:border-purple-600 resize-none"
+          />
+          <div className="flex gap-2">
+            <input
+              type="datetime-local"
+              value={announcementSendAt}
+              onChange={(e) => setAnnouncementSendAt(e.target.value)}
+              className="px-3 py-2 bg-gray-800 border border-gray-700 rounded-lg text-white focus:outline-none focus:border-purple-600"
+            />
+            <button
+              onClick={handleScheduleAnnouncement}
+              disabled={
+                saving || !announcementMessage.trim() || !announcementSendAt
+              }
+              className="px-4 py-2 bg-purple-600 hover:bg-purple-700 text-white rounded-lg transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              Schedule
+            </button>
+          </div>
+        </div>
+      </div>
+    </>
+  );
+};
+
+export default TwitchChannelTimers;
@@ -0,0 +1,442 @@
+"use client";
+
+import React, { useState, useEffect } from "react";
+import axios from "axios";
+import {
+  TwitchChannelTriviaProps,
+  type TwitchTriviaSettings,
+  type TwitchTriviaBankQuestion,
+  type TwitchTriviaLeaderboardEntry,
+  type TwitchTriviaRecentRound,
+} from "../types";
+
+const emptyQuestionDraft = {
+  question: "",
+  answers: "",
+  gameTitle: "",
+};
+
+const sourceDescriptions: Record<TwitchTriviaSettings["source"], string> = {
+  mixed: "Your questions first, then AI questions about the current game",
+  bank: "Only your questions",
+  ai: "Only AI questions about the current game",
+};
+
+/**
+ * Trivia and prediction settings, question bank and leaderboard for a channel
+ * Changes are saved immediately, separately from the channel settings form
+ */
+const TwitchChannelTrivia: React.FC<TwitchChannelTriviaProps> = ({
+  channelName,
+}) => {
+  const [settings, setSettings] = useState<TwitchTriviaSettings | null>(null);
+  const [questions, setQuestions] = useState<TwitchTriviaBankQuestion[]>([]);
+  const [leaderboard, setLeaderboard] = useState<
+    TwitchTriviaLeaderboardEntry[]
+  >([]);
+  const [recentRounds, setRecentRounds] = useState<TwitchTriviaRecentRound[]>(
+    []
+  );
+  // Accepted answers are edited one per line
+  const [questionDraft, setQuestionDraft] = useState(emptyQuestionDraft);
+  const [error, setError] = useState<string | null>(null);
+  const [saving, setSaving] = useState(false);
+  const [settingsSaved, setSettingsSaved] = useState(false);
+
+  useEffect(() => {
+    const fetchTrivia = async () => {
+      try {
+        const response = await axios.get("/api/twitchBot/trivia", {
+          params: { channelName },
+        });
+        setSettings(response.data.settings);
+        setQuestions(response.data.questions || []);
+        setLeaderboard(response.data.leaderboard || []);
+        setRecentRounds(response.data.recentRounds || []);
+      } catch (err: any) {
+        console.error("Error fetching trivia:", err);
+        setError(err.response?.data?.message || "Failed to load trivia");
+      }
+    };
+
+    fetchTrivia();
+  }, [channelName]);
+
+  const handleSaveSettings = async () => {
+    if (!settings) return;
+
+    try {
+      setSaving(true);
+      setError(null);
+      setSettingsSaved(false);
+      const response = await axios.put("/api/twitchBot/trivia", {
+        channelName,
+        settings,
+      });
+      setSettings(response.data.settings);
+      setSettingsSaved(true);
+    } catch (err: any) {
+      console.error("Error saving trivia settings:", err);
+      setError(err.response?.data?.message || "Failed to save trivia settings");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleAddQuestion = async () => {
+    try {
+      setSaving(true);
+      setError(null);
+      const response = await axios.post("/api/twitchBot/trivia", {
+        channelName,
+        question: {
+          question: questionDraft.question,
+          answers: questionDraft.answers
+            .split("\n")
+            .map((answer) => answer.trim())
+            .filter(Boolean),
+          gameTitle: questionDraft.gameTitle.trim() || undefined,
+        },
+      });
+      setQuestions([...questions, response.data.question]);
+      setQuestionDraft(emptyQuestionDraft);
+    } catch (err: any) {
+      console.error("Error adding trivia question:", err);
+      setError(err.response?.data?.message || "Failed to add question");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDeleteQuestion = async (question: TwitchTriviaBankQuestion) => {
+    if (!window.confirm(`Delete "${question.question}"?`)) return;
+
+    try {
+      setError(null);
+      await axios.delete("/api/twitchBot/trivia", {
+        params: { channelName, id: question.id },
+      });
+      setQuestions(questions.filter((q) => q.id !== question.id));
+    } catch (err: any) {
+      console.error("Error deleting trivia question:", err);
+      setError(err.response?.data?.message || "Failed to delete question");
+    }
+  };
+
+  const updateSettings = (changes: Partial<TwitchTriviaSettings>) => {
+    if (!settings) return;
+    setSettings({ ...settings, ...changes });
+    setSettingsSaved(false);
+  };
+
+  return (
+    <div className="bg-gray-900 rounded-lg p-4 border border-gray-700">
+      <h3 className="text-lg font-semibold text-white mb-3">Trivia</h3>
+      <p className="text-sm text-gray-400 mb-3">
+        You or a moderator start a round with !trivia. The bot asks a question
+        about the game you are playing and viewers answer in chat before time
+        runs out. Correct answers earn points on the channel leaderboard
+        (!top), with a bonus for the first. Predictions (!predict) let
+        viewers call what happens next for points on the same leaderboard.
+        Changes here are saved immediately.
+      </p>
+
+      {error && (
+        <div className="mb-3 p-3 bg-red-900/30 border border-red-700 rounded-lg text-red-300 text-sm">
+          {error}
+        </div>
+      )}
+
+      {settings && (
+        <div className="space-y-3 mb-4">
+          <label className="flex items-center gap-3">
+            <input
+              type="checkbox"
+              checked={settings.enabled}
+              onChange={(e) => updateSettings({ enabled: e.target.checked })}
+              className="w-4 h-4 text-purple-600 bg-gray-800 border-gray-700 rounded focus:ring-purple-500"
+            />
+            <span className="text-white">Enable !trivia and !top</span>
+          </label>
+          <div className="flex flex-wrap gap-2">
+            <label className="flex items-center gap-2 text-sm text-gray-400">
+              Questions
+              <select
+                value={settings.source}
+                onChange={(e) =>
+                  updateSettings({
+                    source: e.target.value as TwitchTriviaSettings["source"],
+                  })
+                }
+                className="px-2 py-2 bg-gray-800 border border-gray-700 rounded-lg text-white focus:outline-none focus:border-purple-600"
+              >
+                <option value="mixed">Mixed</option>
+                <option value="bank">My questions</option>
+                <option value="ai">AI</option>
+              </select>
+            </label>
+            <label className="flex items-center gap-2 text-sm text-gray-400">
+              Answer time (s)
+              <input
+                type="number"
+                min="10"
+                max="120"
+                value={settings.answerWindowSeconds}
+                onChange={(e) =>
+                  updateSettings({
+                    answerWindowSeconds: parseInt(e.target.value) || 0,
+                  })
+                }
+                className="w-20 px-2 py-2 bg-gray-800 border border-gray-700 rounded-lg text-white focus:outline-none focus:border-purple-600"
+              />
+            </label>
+            <label className="flex items-center gap-2 text-sm text-gray-400">
+              Points
+              <input
+                type="number"
+                min="1"
+                max="1000"
+                value={settings.points}
+                onChange={(e) =>
+                  updateSettings({ points: parseInt(e.target.value) || 0 })
+                }
+                className="w-20 px-2 py-2 bg-gray-800 border border-gray-700 rounded-lg text-white focus:outline-none focus:border-purple-600"
+              />
+            </label>
+            <label className="flex items-center gap-2 text-sm text-gray-400">
+              First answer bonus
+              <input
+                type="number"
+                min="0"
+                max="1000"
+                value={settings.firstAnswerBonus}
+                onChange={(e) =>
+                  updateSettings({
+                    firstAnswerBonus: parseInt(e.target.value) || 0,
+                  })
+                }
+                className="w-20 px-2 py-2 bg-gray-800 border border-gray-700 rounded-lg text-white focus:outline-none focus:border-purple-600"
+              />
+            </label>
+          </div>
+          <p className="text-xs text-gray-500">
+            {sourceDescriptions[settings.source]}
+          </p>
+          <label className="flex items-center gap-3">
+            <input
+              type="checkbox"
+              checked={settings.predictionsEnabled}
+              onChange={(e) =>
+                updateSettings({ predictionsEnabled: e.target.checked })
+              }
+              className="w-4 h-4 text-purple-600 bg-gray-800 border-gray-700 rounded focus:ring-purple-500"
+            />
+            <span className="text-white">Enable !predict</span>
+          </label>
+          <div className="flex flex-wrap gap-2">
+            <label className="flex items-center gap-2 text-sm text-gray-400">
+              Voting time (s)
+              <input
+                type="number"
+                min="15"
+                max="600"
+                value={settings.predictionWindowSeconds}
+                onChange={(e) =>
+                  updateSettings({
+                    predictionWindowSeconds: parseInt(e.target.value) || 0,
+                  })
+                }
+                className="w-20 px-2 py-2 bg-gray-800 border border-gray-700 rounded-lg text-white focus:outline-none focus:border-purple-600"
+              />
+            </label>
+            <label className="flex items-center gap-2 text-sm text-gray-400">
+              Points for calling it
+              <input
+                type="number"
+                min="1"
+                max="1000"
+                value={settings.predictionPoints}
+                onChange={(e) =>
+                  updateSettings({
+                    predictionPoints: parseInt(e.target.value) || 0,
+                  })
+                }
+                className="w-20 px-2 py-2 bg-gray-800 border border-gray-700 rounded-lg text-white focus:outline-none focus:border-purple-600"
+              />
+            </label>
+          </div>
+          <p className="text-xs text-gray-500">
+            Moderators open one with !predict question | outcome | outcome and
+            settle it with !predict result &lt;number&gt;
+          </p>
+          <div className="flex items-center gap-3">
+            <button
+              onClick={handleSaveSettings}
+              disabled={saving}
+              className="px-4 py-2 bg-purple-600 hover:bg-purple-700 text-white rounded-lg transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {saving ? "Saving..." : "Save Trivia Settings"}
+            </button>
+            {settingsSaved && (
+              <span className="text-sm text-green-400">Saved</span>
+            )}
+          </div>
+        </div>
+      )}
+
+      {/* Question Bank */}
+      <h4 className="text-white font-medium mb-2">
+        Your Questions ({questions.length})
+      </h4>
+      {questions.length > 0 && (
+        <div className="space-y-2 mb-4 max-h-72 overflow-y-auto">
+          {questions.map((question) => (
+            <div
+              key={question.id}
+              className="p-3 bg-gray-800 rounded-lg border border-gray-700 flex items-center justify-between gap-3"
+            >
+              <div className="min-w-0">
+                <p className="text-sm text-gray-300 truncate">
+                  {question.question}
+                </p>
+                <span className="text-xs text-gray-500">
+                  {question.answers.join(" / ")}
+                  {question.gameTitle ? ` · ${question.gameTitle}` : " · any game"}
+                </span>
+              </div>
+              <button
+                onClick={() => handleDeleteQuestion(question)}
+                className="text-sm text-red-400 hover:text-red-300 shrink-0"
+              >
+                Delete
+              </button>
+            </div>
+          ))}
+        </div>
+      )}
+
+      <div className="space-y-3 mb-4">
+        <input
+          type="text"
+          value={questionDraft.question}
+          onChange={(e) =>
+            setQuestionDraft({ ...questionDraft, question: e.target.value })
+          }
+          maxLength={300}
+          placeholder="Which boss guards the Haligtree?"
+          className="w-full px-3 py-2 bg-gray-800 border border-gray-700 rounded-lg text-white placeholder-gray-500 focus:outline-none focus:border-purple-600"
+        />
+        <div className="flex flex-wrap gap-2">
+          <textarea
+            value={questionDraft.answers}
+            onChange={(e) =>
+              setQuestionDraft({ ...questionDraft, answers: e.target.value })
+            }
+            rows={2}
+            placeholder={"Accepted answers, one per line\nMalenia"}
+            className="flex-1 min-w-[12rem] px-3 py-2 bg-gray-800 border border-gray-700 rounded-lg text-white placeholder-gray-500 focus:outline-none focus:border-purple-600 resize-none"
+          />
+          <input
+            type="text"
+            value={questionDraft.gameTitle}
+            onChange={(e) =>
+              setQuestionDraft({ ...questionDraft, gameTitle: e.target.value })
+            }
+            maxLength={100}
+            placeholder="Game (optional)"
+            className="w-48 h-fit px-3 py-2 bg-gray-800 border border-gray-700 rounded-lg text-white placeholder-gray-500 focus:outline-none focus:border-purple-600"
+          />
+        </div>
+        <button
+          onClick={handleAddQuestion}
+          disabled={
+            saving ||
+            !questionDraft.question.trim() ||
+            !questionDraft.answers.trim()
+          }
+          className="px-4 py-2 bg-purple-600 hover:bg-purple-700 text-white rounded-lg transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          Add Question
+        </button>
+      </div>
+
+      {/* Leaderboard */}
+      <h4 className="text-white font-medium mb-2">Leaderboard</h4>
+      {leaderboard.length === 0 ? (
+        <p className="text-sm text-gray-500 mb-4">
+          No points yet. Start a round with !trivia or open a prediction with
+          !predict.
+        </p>
+      ) : (
+        <table className="w-full text-sm mb-4">
+          <thead>
+            <tr className="text-left text-gray-500">
+              <th className="py-1 pr-2">#</th>
+              <th className="py-1 pr-2">Viewer</th>
+              <th className="py-1 pr-2 text-right">Points</th>
+              <th className="py-1 pr-2 text-right">Correct</th>
+              <th className="py-1 pr-2 text-right">First</th>
+              <th className="py-1 text-right">Predicted</th>
+            </tr>
+          </thead>
+          <tbody>
+            {leaderboard.map((entry, index) => (
+              <tr key={entry.username} className="border-t border-gray-800">
+                <td className="py-1 pr-2 text-gray-500">{index + 1}</td>
+                <td className="py-1 pr-2 text-purple-300">
+                  {entry.displayName}
+                </td>
+                <td className="py-1 pr-2 text-right text-white">
+                  {entry.points}
+                </td>
+                <td className="py-1 pr-2 text-right text-gray-300">
+                  {entry.correctAnswers}
+                </td>
+                <td className="py-1 pr-2 text-right text-gray-300">
+                  {entry.firstAnswers}
+                </td>
+                <td className="py-1 text-right text-gray-300">
+                  {entry.correctPredictions || 0}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+
+      {/* Recent Rounds */}
+      {recentRounds.length > 0 && (
+        <>
+          <h4 className="text-white font-medium mb-2">Recent Rounds</h4>
+          <div className="space-y-2">
+            {recentRounds.map((round) => (
+              <div
+                key={round.id}
+                className="p-3 bg-gray-800 rounded-lg border border-gray-700"
+              >
+                <span className="text-xs text-gray-500">
+                  {new Date(round.startedAt).toLocaleString()} ·{" "}
+                  {round.source === "ai" ? "AI" : "your question"}
+                  {round.gameTitle ? ` · ${round.gameTitle}` : ""}
+                  {round.status === "open" ? " · in progress" : ""}
+                </span>
+                <p className="text-sm text-gray-300 truncate">
+                  {round.question}
+                </p>
+                {round.status === "closed" && (
+                  <span className="text-xs text-gray-400">
+                    {round.answer} · {round.correctAnswers}/
+                    {round.participants} correct
+                    {round.winner ? ` · first: ${round.winner}` : ""}
+                  </span>
+                )}
+              </div>
+            ))}
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default TwitchChannelTrivia;
@@ -0,0 +1,404 @@
+"use client";
+
+import React, { useState, useEffect, useCallback, useRef } from "react";
+import axios from "axios";
+import {
+  TwitchQuestionQueueProps,
+  type TwitchQueuedQuestion,
+  type TwitchQueuedQuestionStatus,
+  type TwitchQuestionQueueSettings,
+} from "../types";
+
+const statusTabs: { status: TwitchQueuedQuestionStatus; label: string }[] = [
+  { status: "pending", label: "Pending" },
+  { status: "approved", label: "Approved" },
+  { status: "answered", label: "Answered" },
+  { status: "rejected", label: "Rejected" },
+];
+
+// Keep up with chat without hammering the API
+const REFRESH_INTERVAL_MS = 10000;
+
+/**
+ * Review queue for a channel's chat questions
+ * The streamer and their queue moderators can approve, reject or answer questions; only the
+ * streamer sees the queue settings and overlay URL
+ */
+const TwitchQuestionQueue: React.FC<TwitchQuestionQueueProps> = ({
+  channelName,
+}) => {
+  const [status, setStatus] = useState<TwitchQueuedQuestionStatus>("pending");
+  const [questions, setQuestions] = useState<TwitchQueuedQuestion[]>([]);
+  const [settings, setSettings] = useState<TwitchQuestionQueueSettings | null>(
+    null
+  );
+  const [isOwner, setIsOwner] = useState(false);
+  const [moderatorsInput, setModeratorsInput] = useState("");
+  const [answering, setAnswering] = useState<number | null>(null);
+  const [answerDraft, setAnswerDraft] = useState("");
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  // Keep the moderators field as typed until the settings are saved
+  const moderatorsLoaded = useRef(false);
+
+  const fetchQueue = useCallback(async () => {
+    try {
+      const response = await axios.get("/api/twitchBot/questionQueue", {
+        params: { channelName, status },
+      });
+      setQuestions(response.data.questions || []);
+      setIsOwner(response.data.isOwner || false);
+      setSettings(response.data.settings);
+      if (!moderatorsLoaded.current) {
+        moderatorsLoaded.current = true;
+        setModeratorsInput(response.data.settings.moderators.join(", "));
+      }
+    } catch (err: any) {
+      console.error("Error fetching question queue:", err);
+      setError(err.response?.data?.message || "Failed to load the queue");
+    } finally {
+      setLoading(false);
+    }
+  }, [channelName, status]);
+
+  useEffect(() => {
+    fetchQueue();
+    const interval = setInterval(fetchQueue, REFRESH_INTERVAL_MS);
+    return () => clearInterval(interval);
+  }, [fetchQueue]);
+
+  const handleReview = async (
+    question: TwitchQueuedQuestion,
+    action: "approve" | "reject" | "answer",
+    answer?: string
+  ) => {
+    try {
+      setError(null);
+      await axios.patch("/api/twitchBot/questionQueue", {
+        channelName,
+        id: question.id,
+        action,
+        answer,
+      });
+      setQuestions(questions.filter((q) => q.id !== question.id));
+      if (answering === question.id) {
+        setAnswering(null);
+        setAnswerDraft("");
+      }
+    } catch (err: any) {
+      console.error("Error reviewing question:", err);
+      setError(err.response?.data?.message || "Failed to review question");
+      // Another moderator may have reviewed it already
+      if (err.response?.status === 409) {
+        fetchQueue();
+      }
+    }
+  };
+
+  const handleClearQueue = async () => {
+    if (!window.confirm("Reject every pending question?")) return;
+
+    try {
+      setError(null);
+      await axios.delete("/api/twitchBot/questionQueue", {
+        params: { channelName },
+      });
+      setQuestions([]);
+    } catch (err: any) {
+      console.error("Error clearing question queue:", err);
+      setError(err.response?.data?.message || "Failed to clear the queue");
+    }
+  };
+
+  const handleSaveSettings = async (
+    changes: Partial<TwitchQuestionQueueSettings>,
+    regenerateOverlayToken = false
+  ) => {
+    if (!settings) return;
+
+    try {
+      setSaving(true);
+      setError(null);
+      const response = await axios.put("/api/twitchBot/questionQueue", {
+        channelName,
+        settings: {
+          enabled: settings.enabled,
+          moderators: moderatorsInput
+            .split(/[\s,]+/)
+            .map((moderator) => moderator.trim())
+            .filter(Boolean),
+          ...changes,
+        },
+        regenerateOverlayToken,
+      });
+      setSettings(response.data.settings);
+      setModeratorsInput(response.data.settings.moderators.join(", "));
+    } catch (err: any) {
+      console.error("Error saving question queue settings:", err);
+      setError(err.response?.data?.message || "Failed to save settings");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const overlayUrl =
+    settings?.overlayToken && typeof window !== "undefined"
+      ? `${window.location.origin}/twitch-bot/queue-overlay?channel=${encodeURIComponent(
+          channelName
+        )}&token=${settings.overlayToken}`
+      : null;
+
+  const formatTime = (dateString?: string) =>
+    dateString
+      ? new Date(dateString).toLocaleTimeString("en-US", {
+          hour: "numeric",
+          minute: "2-digit",
+        })
+      : "";
+
+  return (
+    <div className="space-y-6">
+      {isOwner && settings && (
+        <div className="bg-gray-900 rounded-lg p-4 border border-gray-700">
+          <h3 className="text-lg font-semibold text-white mb-3">
+            Queue Settings
+          </h3>
+          <div className="space-y-3">
+            <label className="flex items-center gap-3">
+              <input
+                type="checkbox"
+                checked={settings.enabled}
+                disabled={saving}
+                onChange={(e) =>
+                  handleSaveSettings({ enabled: e.target.checked })
+                }
+                className="w-5 h-5 text-purple-600 rounded focus:ring-purple-500"
+              />
+              <span className="text-white">
+                Queue questions instead of answering them right away
+              </span>
+            </label>
+            <div>
+              <label className="block text-sm text-gray-400 mb-1">
+                Queue moderators (Twitch usernames, comma separated)
+              </label>
+              <div className="flex gap-2">
+                <input
+                  type="text"
+                  value={moderatorsInput}
+                  onChange={(e) => setModeratorsInput(e.target.value)}
+                  placeholder="mod_one, mod_two"
+                  className="flex-1 px-3 py-2 bg-gray-800 border border-gray-700 rounded-lg text-white placeholder-gray-500 focus:outline-none focus:border-purple-600"
+                />
+                <button
+                  onClick={() => handleSaveSettings({})}
+                  disabled={saving}
+                  className="px-4 py-2 bg-purple-600 hover:bg-purple-700 text-white rounded-lg transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                  {saving ? "Saving..." : "Save"}
+                </button>
+              </div>
+              <p className="text-xs text-gray-500 mt-1">
+                Moderators sign in with a Video Game Wingman account linked to
+                their Twitch account to use this page.
+              </p>
+            </div>
+            <div>
+              <label className="block text-sm text-gray-400 mb-1">
+                Overlay URL (add as a browser source)
+              </label>
+              {overlayUrl ? (
+                <div className="flex gap-2">
+                  <input
+                    type="text"
+                    readOnly
+                    value={overlayUrl}
+                    onFocus={(e) => e.target.select()}
+                    className="flex-1 px-3 py-2 bg-gray-800 border border-gray-700 rounded-lg text-gray-300 text-sm font-mono"
+                  />
+                  <button
+                    onClick={() => {
+                      if (
+                        window.confirm(
+                          "Create a new overlay URL? The current one will stop working."
+                        )
+                      ) {
+                        handleSaveSettings({}, true);
+                      }
+                    }}
+                    disabled={saving}
+                    className="px-4 py-2 bg-gray-700 hover:bg-gray-600 text-white rounded-lg transition-colors disabled:opacity-50"
+                  >
+                    Regenerate
+                  </button>
+                </div>
+              ) : (
+                <p className="text-sm text-gray-500">
+                  Save the settings once to create the overlay URL.
+                </p>
+              )}
+            </div>
+          </div>
+        </div>
+      )}
+
+      <div className="bg-gray-900 rounded-lg p-4 border border-gray-700">
+        <div className="flex items-center justify-between mb-3">
+          <h3 className="text-lg font-semibold text-white">Questions</h3>
+          {status === "pending" && questions.length > 0 && (
+            <button
+              onClick={handleClearQueue}
+              className="px-3 py-1.5 rounded text-sm font-medium transition-colors text-white bg-red-700 hover:bg-red-800"
+            >
+              Clear Queue
+            </button>
+          )}
+        </div>
+
+        {settings && !settings.enabled && (
+          <div className="mb-3 p-3 bg-yellow-900/30 border border-yellow-700 rounded-lg text-yellow-300 text-sm">
+            Queue mode is off, so the bot answers questions right away.
+          </div>
+        )}
+
+        {error && (
+          <div className="mb-3 p-3 bg-red-900/30 border border-red-700 rounded-lg text-red-300 text-sm">
+            {error}
+          </div>
+        )}
+
+        <div className="flex gap-2 mb-4">
+          {statusTabs.map((tab) => (
+            <button
+              key={tab.status}
+              onClick={() => {
+                setStatus(tab.status);
+                setAnswering(null);
+              }}
+              className={`px-3 py-1.5 rounded text-sm font-medium transition-colors ${
+                status === tab.status
+                  ? "bg-purple-600 text-white"
+                  : "bg-gray-800 text-gray-400 hover:text-white"
+              }`}
+            >
+              {tab.label}
+            </button>
+          ))}
+        </div>
+
+        {loading ? (
+          <p className="text-gray-400 text-sm">Loading questions...</p>
+        ) : questions.length === 0 ? (
+          <p className="text-gray-400 text-sm">No {status} questions.</p>
+        ) : (
+          <div className="space-y-2">
+            {questions.map((question) => (
+              <div
+                key={question.id}
+                className="p-3 bg-gray-800 rounded-lg border border-gray-700"
+              >
+                <div className="flex items-start justify-between gap-3">
+                  <div className="min-w-0">
+                    <span className="text-purple-300 font-medium">
+                      #{question.id}
+                    </span>
+                    <span className="ml-2 text-xs text-gray-500">
+                      {question.askedBy}
+                      {question.askerCount > 1
+                        ? ` +${question.askerCount - 1} asked similar`
+                        : ""}{" "}
+                      · {question.votes} vote{question.votes === 1 ? "" : "s"}
+                      {question.reviewedBy
+                        ? ` · reviewed by ${question.reviewedBy} ${formatTime(
+                            question.reviewedAt
+                          )}`
+                        : ` · ${formatTime(question.createdAt)}`}
+                    </span>
+                    <p className="text-sm text-gray-200 break-words">
+                      {question.question}
+                    </p>
+                    {question.answer && (
+                      <p className="text-sm text-gray-400 mt-1 break-words">
+                        <span className="text-gray-500">
+                          {question.answeredBy === "bot"
+                            ? "Bot answer: "
+                            : "Answer: "}
+                        </span>
+                        {question.answer}
+                      </p>
+                    )}
+                    {question.status === "answered" && !question.answer && (
+                      <p className="text-xs text-gray-500 mt-1">
+                        Answered on stream
+                      </p>
+                    )}
+                  </div>
+                  {question.status === "pending" && (
+                    <div className="flex gap-2 shrink-0 text-sm">
+                      <button
+                        onClick={() => handleReview(question, "approve")}
+                        className="text-green-400 hover:text-green-300"
+                      >
+                        Approve
+                      </button>
+                      <button
+                        onClick={() => {
+                          setAnswering(
+                            answering === question.id ? null : question.id
+                          );
+                          setAnswerDraft("");
+                        }}
+                        className="text-purple-300 hover:text-white"
+                      >
+                        Answer
+                      </button>
+                      <button
+                        onClick={() => handleReview(question, "reject")}
+                        className="text-red-400 hover:text-red-300"
+                      >
+                        Reject
+                      </button>
+                    </div>
+                  )}
+                </div>
+
+                {answering === question.id && (
+                  <div className="mt-3 space-y-2">
+                    <textarea
+                      value={answerDraft}
+                      onChange={(e) => setAnswerDraft(e.target.value)}
+                      rows={2}
+                      maxLength={450}
+                      placeholder="Answer for the bot to post in chat"
+                      className="w-full px-3 py-2 bg-gray-900 border border-gray-700 rounded-lg text-white placeholder-gray-500 focus:outline-none focus:border-purple-600 resize-none"
+                    />
+                    <div className="flex gap-2">
+                      <button
+                        onClick={() =>
+                          handleReview(question, "answer", answerDraft)
+                        }
+                        disabled={!answerDraft.trim()}
+                        className="px-3 py-1.5 bg-purple-600 hover:bg-purple-700 text-white rounded text-sm transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                      >
+                        Post Answer
+                      </button>
+                      <button
+                        onClick={() => handleReview(question, "answer")}
+                        className="px-3 py-1.5 bg-gray-700 hover:bg-gray-600 text-white rounded text-sm transition-colors"
+                      >
+                        Answered on Stream
+                      </button>
+                    </div>
+                  </div>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default TwitchQuestionQueue;
@@ -0,0 +1,117 @@
+"use client";
+
+import React, { useState } from "react";
+import axios from "axios";
+import { TwoFactorChallengeProps } from "@/types";
+
+/**
+ * Second sign-in step for accounts with two-factor enabled
+ */
+const TwoFactorChallenge: React.FC<TwoFactorChallengeProps> = ({
+  challengeToken,
+  onSuccess,
+  onCancel,
+}) => {
+  const [code, setCode] = useState("");
+  const [useRecoveryCode, setUseRecoveryCode] = useState(false);
+  const [submitting, setSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setSubmitting(true);
+    setError(null);
+    try {
+      const response = await axios.post(
+        "/api/auth/2fa/verify",
+        { challengeToken, code },
+        { withCredentials: true }
+      );
+      onSuccess(response.data);
+    } catch (err: any) {
+      const data = err.response?.data;
+      setError(data?.message || "Invalid two-factor code");
+      setCode("");
+      if (data?.challengeExpired || data?.accountLocked) {
+        setTimeout(onCancel, 3000);
+      }
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-4 w-full">
+      <div>
+        <h3 className="text-lg font-semibold text-gray-900 dark:text-white mb-1">
+          Two-factor authentication
+        </h3>
+        <p className="text-gray-600 dark:text-gray-400 text-sm">
+          {useRecoveryCode
+            ? "Enter one of your recovery codes. Each code works once."
+            : "Enter the 6-digit code from your authenticator app."}
+        </p>
+      </div>
+
+      {useRecoveryCode ? (
+        <input
+          type="text"
+          value={code}
+          onChange={(e) => setCode(e.target.value)}
+          placeholder="XXXXX-XXXXX"
+          autoFocus
+          className="w-full p-3 border border-gray-300 dark:border-gray-600 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent bg-white dark:bg-gray-800 text-gray-900 dark:text-white placeholder-gray-500 dark:placeholder-gray-400 font-mono"
+        />
+      ) : (
+        <input
+          type="text"
+          inputMode="numeric"
+          autoComplete="one-time-code"
+          maxLength={6}
+          value={code}
+          onChange={(e) => setCode(e.target.value.replace(/\D/g, ""))}
+          placeholder="123456"
+          autoFocus
+          className="w-full p-3 border border-gray-300 dark:border-gray-600 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent bg-white dark:bg-gray-800 text-gray-900 dark:text-white placeholder-gray-500 dark:placeholder-gray-400 font-mono tracking-widest text-center text-lg"
+        />
+      )}
+
+      {error && (
+        <div className="p-3 bg-red-100 dark:bg-red-900/30 border border-red-400 dark:border-red-700 rounded-lg">
+          <p className="text-red-700 dark:text-red-300 text-sm">{error}</p>
+        </div>
+      )}
+
+      <button
+        type="submit"
+        disabled={submitting || (useRecoveryCode ? !code : code.length !== 6)}
+        className="w-full bg-gradient-to-r from-indigo-600 to-purple-600 text-white py-3 px-6 rounded-xl hover:from-indigo-700 hover:to-purple-700 transition-all duration-300 shadow-lg font-semibold disabled:opacity-50 disabled:cursor-not-allowed"
+      >
+        {submitting ? "Verifying..." : "Verify"}
+      </button>
+
+      <div className="flex justify-between text-sm">
+        <button
+          type="button"
+          onClick={() => {
+            setUseRecoveryCode(!useRecoveryCode);
+            setCode("");
+            setError(null);
+          }}
+          className="text-indigo-600 hover:text-indigo-800 dark:text-indigo-400 dark:hover:text-indigo-200"
+        >
+          {useRecoveryCode ? "Use authenticator app" : "Use a recovery code"}
+        </button>
+        <button
+          type="button"
+          onClick={onCancel}
+          className="text-gray-500 hover:text-gray-700 dark:text-gray-400 dark:hover:text-gray-200"
+        >
+          Back to sign in
+        </button>
+      </div>
+    </form>
+  );
+};
+
+export default TwoFactorChallenge;
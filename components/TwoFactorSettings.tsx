@@ -0,0 +1,374 @@
+"use client";
+
+import React, { useState, useEffect, useCallback } from "react";
+import axios from "axios";
+import { TwoFactorSettingsProps } from "@/types";
+
+type Mode = "idle" | "setup-password" | "setup-code" | "disable" | "regenerate";
+
+/**
+ * Account page section for turning TOTP two-factor authentication on and off
+ */
+const TwoFactorSettings: React.FC<TwoFactorSettingsProps> = ({
+  hasPassword,
+  onStatusChange,
+  className = "",
+}) => {
+  const [enabled, setEnabled] = useState(false);
+  const [recoveryCodesRemaining, setRecoveryCodesRemaining] = useState(0);
+  const [loading, setLoading] = useState(true);
+  const [mode, setMode] = useState<Mode>("idle");
+  const [password, setPassword] = useState("");
+  const [code, setCode] = useState("");
+  const [setupSecret, setSetupSecret] = useState<string | null>(null);
+  const [provisioningUri, setProvisioningUri] = useState<string | null>(null);
+  const [recoveryCodes, setRecoveryCodes] = useState<string[] | null>(null);
+  const [submitting, setSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchStatus = useCallback(async () => {
+    try {
+      const response = await axios.get("/api/auth/2fa/status", {
+        withCredentials: true,
+      });
+      setEnabled(response.data.enabled);
+      setRecoveryCodesRemaining(response.data.recoveryCodesRemaining || 0);
+    } catch (err: any) {
+      console.error("Error loading two-factor status:", err);
+      setError(err.response?.data?.message || "Failed to load two-factor status");
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchStatus();
+  }, [fetchStatus]);
+
+  const reset = () => {
+    setMode("idle");
+    setPassword("");
+    setCode("");
+    setSetupSecret(null);
+    setProvisioningUri(null);
+    setError(null);
+  };
+
+  const startSetup = async () => {
+    setSubmitting(true);
+    setError(null);
+    try {
+      const response = await axios.post(
+        "/api/auth/2fa/setup",
+        { password },
+        { withCredentials: true }
+      );
+      setSetupSecret(response.data.secret);
+      setProvisioningUri(response.data.provisioningUri);
+      setPassword("");
+      setMode("setup-code");
+    } catch (err: any) {
+      setError(err.response?.data?.message || "Failed to start setup");
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const confirmSetup = async () => {
+    setSubmitting(true);
+    setError(null);
+    try {
+      const response = await axios.post(
+        "/api/auth/2fa/enable",
+        { code },
+        { withCredentials: true }
+      );
+      setRecoveryCodes(response.data.recoveryCodes);
+      setEnabled(true);
+      setRecoveryCodesRemaining(response.data.recoveryCodes.length);
+      onStatusChange?.(true);
+      reset();
+    } catch (err: any) {
+      setError(err.response?.data?.message || "Invalid verification code");
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const disable = async () => {
+    setSubmitting(true);
+    setError(null);
+    try {
+      await axios.post(
+        "/api/auth/2fa/disable",
+        { password, code },
+        { withCredentials: true }
+      );
+      setEnabled(false);
+      setRecoveryCodes(null);
+      setRecoveryCodesRemaining(0);
+      onStatusChange?.(false);
+      reset();
+    } catch (err: any) {
+      setError(
+        err.response?.data?.message ||
+          "Failed to turn off two-factor authentication"
+      );
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const regenerate = async () => {
+    setSubmitting(true);
+    setError(null);
+    try {
+      const response = await axios.post(
+        "/api/auth/2fa/recovery-codes",
+        { code },
+        { withCredentials: true }
+      );
+      setRecoveryCodes(response.data.recoveryCodes);
+      setRecoveryCodesRemaining(response.data.recoveryCodes.length);
+      reset();
+    } catch (err: any) {
+      setError(err.response?.data?.message || "Failed to generate new codes");
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const downloadRecoveryCodes = () => {
+    if (!recoveryCodes) return;
+    const blob = new Blob(
+      [
+        `Video Game Wingman recovery codes\n\nEach code can be used once.\n\n${recoveryCodes.join("\n")}\n`,
+      ],
+      { type: "text/plain" }
+    );
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement("a");
+    link.href = url;
+    link.download = "wingman-recovery-codes.txt";
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const inputClass =
+    "w-full px-4 py-2 bg-[#1a1b2e] border border-gray-600 rounded-lg text-white focus:ring-2 focus:ring-[#00ffff] focus:border-transparent";
+  const primaryButtonClass =
+    "px-4 py-2 bg-gradient-to-r from-[#00ffff] to-[#ff69b4] text-white rounded-lg hover:opacity-90 disabled:opacity-50 disabled:cursor-not-allowed transition-all duration-200 text-sm font-semibold";
+  const secondaryButtonClass =
+    "px-4 py-2 bg-gray-700 text-white rounded-lg hover:bg-gray-600 transition-colors duration-200 text-sm";
+
+  return (
+    <div
+      className={`bg-[#252642]/50 backdrop-blur-sm rounded-2xl p-6 shadow-[0_0_15px_rgba(0,255,255,0.1)] border border-[#00ffff]/20 ${className}`}
+    >
+      <h2 className="text-2xl font-bold mb-2 text-[#00ffff]">
+        Two-Factor Authentication
+      </h2>
+      <p className="text-gray-400 text-sm mb-4">
+        Require a code from an authenticator app (Google Authenticator, Authy,
+        1Password, ...) when you sign in and before sensitive account changes.
+      </p>
+
+      {loading ? (
+        <p className="text-gray-400 text-sm">Loading...</p>
+      ) : (
+        <div className="space-y-4">
+          <p className="text-sm">
+            Status:{" "}
+            <span className={enabled ? "text-green-400" : "text-gray-300"}>
+              {enabled ? "On" : "Off"}
+            </span>
+            {enabled && (
+              <span className="text-gray-400">
+                {" "}
+                · {recoveryCodesRemaining} recovery code
+                {recoveryCodesRemaining === 1 ? "" : "s"} left
+              </span>
+            )}
+          </p>
+
+          {recoveryCodes && (
+            <div className="bg-[#1a1b2e]/50 rounded-lg p-4 border border-yellow-500/40">
+              <p className="text-yellow-300 text-sm font-semibold mb-2">
+                Save your recovery codes
+              </p>
+              <p className="text-gray-400 text-xs mb-3">
+                Each code signs you in once if you lose your authenticator.
+                They won&apos;t be shown again.
+              </p>
+              <div className="grid grid-cols-2 gap-2 font-mono text-sm text-white mb-3">
+                {recoveryCodes.map((recoveryCode) => (
+                  <span key={recoveryCode}>{recoveryCode}</span>
+                ))}
+              </div>
+              <div className="flex gap-3">
+                <button onClick={downloadRecoveryCodes} className={secondaryButtonClass}>
+                  Download
+                </button>
+                <button
+                  onClick={() => setRecoveryCodes(null)}
+                  className={secondaryButtonClass}
+                >
+                  I&apos;ve saved them
+                </button>
+              </div>
+            </div>
+          )}
+
+          {mode === "idle" && !enabled && (
+            <button
+              onClick={() => (hasPassword ? setMode("setup-password") : startSetup())}
+              disabled={submitting}
+              className={`w-full ${primaryButtonClass}`}
+            >
+              Set Up Two-Factor Authentication
+            </button>
+          )}
+
+          {mode === "idle" && enabled && (
+            <div className="flex flex-col sm:flex-row gap-3">
+              <button
+                onClick={() => setMode("regenerate")}
+                className={`flex-1 ${secondaryButtonClass}`}
+              >
+                New Recovery Codes
+              </button>
+              <button
+                onClick={() => setMode("disable")}
+                className="flex-1 px-4 py-2 bg-red-600 hover:bg-red-700 text-white rounded-lg transition-colors duration-200 text-sm font-semibold"
+              >
+                Turn Off
+              </button>
+            </div>
+          )}
+
+          {mode === "setup-password" && (
+            <div className="space-y-3">
+              <label className="block">
+                <span className="text-gray-400 text-sm">
+                  Enter your password to continue
+                </span>
+                <input
+                  type="password"
+                  value={password}
+                  onChange={(e) => setPassword(e.target.value)}
+                  autoComplete="current-password"
+                  className={`mt-1 ${inputClass}`}
+                />
+              </label>
+              <div className="flex gap-3">
+                <button onClick={reset} className={`flex-1 ${secondaryButtonClass}`}>
+                  Cancel
+                </button>
+                <button
+                  onClick={startSetup}
+                  disabled={!password || submitting}
+                  className={`flex-1 ${primaryButtonClass}`}
+                >
+                  {submitting ? "Checking..." : "Continue"}
+                </button>
+              </div>
+            </div>
+          )}
+
+          {mode === "setup-code" && setupSecret && provisioningUri && (
+            <div className="space-y-3">
+              <p className="text-gray-300 text-sm">
+                Add Video Game Wingman to your authenticator app. On your phone,
+                tap{" "}
+                <a href={provisioningUri} className="text-[#00ffff] underline">
+                  this setup link
+                </a>
+                , or enter this key manually:
+              </p>
+              <p className="font-mono text-sm text-white bg-[#1a1b2e] rounded-lg p-3 break-all select-all">
+                {setupSecret.match(/.{1,4}/g)?.join(" ")}
+              </p>
+              <label className="block">
+                <span className="text-gray-400 text-sm">
+                  Then enter the 6-digit code it shows
+                </span>
+                <input
+                  type="text"
+                  inputMode="numeric"
+                  autoComplete="one-time-code"
+                  maxLength={6}
+                  value={code}
+                  onChange={(e) => setCode(e.target.value.replace(/\D/g, ""))}
+                  className={`mt-1 ${inputClass} font-mono tracking-widest`}
+                />
+              </label>
+              <div className="flex gap-3">
+                <button onClick={reset} className={`flex-1 ${secondaryButtonClass}`}>
+                  Cancel
+                </button>
+                <button
+                  onClick={confirmSetup}
+                  disabled={code.length !== 6 || submitting}
+                  className={`flex-1 ${primaryButtonClass}`}
+                >
+                  {submitting ? "Verifying..." : "Turn On"}
+                </button>
+              </div>
+            </div>
+          )}
+
+          {(mode === "disable" || mode === "regenerate") && (
+            <div className="space-y-3">
+              {mode === "disable" && hasPassword && (
+                <label className="block">
+                  <span className="text-gray-400 text-sm">Password</span>
+                  <input
+                    type="password"
+                    value={password}
+                    onChange={(e) => setPassword(e.target.value)}
+                    autoComplete="current-password"
+                    className={`mt-1 ${inputClass}`}
+                  />
+                </label>
+              )}
+              <label className="block">
+                <span className="text-gray-400 text-sm">
+                  Authenticator code or recovery code
+                </span>
+                <input
+                  type="text"
+                  autoComplete="one-time-code"
+                  value={code}
+                  onChange={(e) => setCode(e.target.value)}
+                  className={`mt-1 ${inputClass} font-mono`}
+                />
+              </label>
+              <div className="flex gap-3">
+                <button onClick={reset} className={`flex-1 ${secondaryButtonClass}`}>
+                  Cancel
+                </button>
+                <button
+                  onClick={mode === "disable" ? disable : regenerate}
+                  disabled={
+                    !code || (mode === "disable" && hasPassword && !password) || submitting
+                  }
+                  className={`flex-1 ${primaryButtonClass}`}
+                >
+                  {submitting
+                    ? "Working..."
+                    : mode === "disable"
+                    ? "Turn Off Two-Factor"
+                    : "Generate New Codes"}
+                </button>
+              </div>
+            </div>
+          )}
+
+          {error && <p className="text-red-400 text-sm">{error}</p>}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default TwoFactorSettings;
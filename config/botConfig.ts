@@ -26,3 +26,12 @@ export const botConfig = {
     "Game News"
   ]
 };
+
+/**
+ * System prompt for assistant answers in Discord (mentions, DMs and /ask)
+ */
+export function createBotSystemMessage(): string {
+  return `You are ${botConfig.name}, ${botConfig.description}. 
+Your expertise includes: ${botConfig.knowledge.join(', ')}. 
+Character: ${botConfig.bio[0]}`;
+}
@@ -0,0 +1,157 @@
+/**
+ * Discord Bot Server-Specific Settings Configuration
+ *
+ * Centralized configuration for per-server (guild) bot settings
+ * These settings allow server admins to customize bot behavior per server
+ */
+
+export type DiscordTriggerMode = 'mention' | 'prefix' | 'slash';
+
+export type DiscordResponseStyle = 'reply' | 'no-mention' | 'embed';
+
+export interface DiscordGuildSettings {
+  /** Channel IDs the bot answers in (empty = all channels) */
+  allowedChannelIds: string[];
+
+  /**
+   * How users trigger the bot with messages:
+   * 'mention' (@bot), 'prefix' (@bot or a message starting with commandPrefix),
+   * 'slash' (slash commands only - messages are ignored)
+   */
+  triggerMode: DiscordTriggerMode;
+
+  /** Message prefix used when triggerMode is 'prefix' (e.g. '!wingman') */
+  commandPrefix: string;
+
+  /** Response style: 'reply' (reply and ping), 'no-mention' (reply without ping), 'embed' (reply with an embed) */
+  responseStyle: DiscordResponseStyle;
+
+  /** Custom system message for AI (optional, overrides default) */
+  customSystemMessage?: string;
+
+  /** Whether asking questions requires Video Game Wingman Pro */
+  requirePro: boolean;
+
+  /** Role IDs whose members can ask questions without Pro (e.g. server boosters) */
+  proExemptRoleIds: string[];
+}
+
+/**
+ * Default server settings
+ * Sensible defaults that match current bot behavior
+ */
+export const defaultDiscordGuildSettings: DiscordGuildSettings = {
+  allowedChannelIds: [],
+  triggerMode: 'mention',
+  commandPrefix: '!wingman',
+  responseStyle: 'reply',
+  requirePro: true,
+  proExemptRoleIds: [],
+};
+
+// The bot reads settings for every message it sees in a server, so keep them briefly in memory.
+// Changes made on the website take effect within this window.
+const SETTINGS_CACHE_TTL_MS = 60 * 1000;
+const settingsCache = new Map<string, { settings: DiscordGuildSettings; expiresAt: number }>();
+
+/**
+ * Get bot settings for a specific server
+ * Falls back to defaults if server settings not found (and for DMs)
+ *
+ * @param guildId - Discord server (guild) ID
+ * @returns Promise<DiscordGuildSettings> - Server settings
+ */
+export async function getDiscordGuildSettings(guildId?: string | null): Promise<DiscordGuildSettings> {
+  if (!guildId) {
+    return defaultDiscordGuildSettings;
+  }
+
+  const cached = settingsCache.get(guildId);
+  if (cached && cached.expiresAt > Date.now()) {
+    return cached.settings;
+  }
+
+  let settings = defaultDiscordGuildSettings;
+  try {
+    // Dynamically import to avoid circular dependencies
+    const connectToMongoDB = (await import('../utils/mongodb')).default;
+    const DiscordGuild = (await import('../models/DiscordGuild')).default;
+
+    await connectToMongoDB();
+
+    const guild = await DiscordGuild.findOne({ guildId }).select('guildSettings').lean() as {
+      guildSettings?: Partial<DiscordGuildSettings>;
+    } | null;
+
+    if (guild && guild.guildSettings) {
+      // Merge with defaults to ensure all fields are present
+      settings = {
+        ...defaultDiscordGuildSettings,
+        ...guild.guildSettings,
+      };
+    }
+  } catch (error) {
+    // If database lookup fails, fall through to defaults
+    // This ensures the bot continues to work even if DB is unavailable
+    console.warn('Failed to load per-server settings, using defaults', {
+      guildId,
+      error: error instanceof Error ? error.message : String(error)
+    });
+    return settings;
+  }
+
+  settingsCache.set(guildId, { settings, expiresAt: Date.now() + SETTINGS_CACHE_TTL_MS });
+  return settings;
+}
+
+/**
+ * Drop cached settings for a server (after they are updated)
+ */
+export function clearDiscordGuildSettingsCache(guildId: string): void {
+  settingsCache.delete(guildId);
+}
+
+/**
+ * Validate server settings
+ * Ensures settings are within acceptable ranges
+ *
+ * @param settings - Settings to validate
+ * @returns Validated settings with corrections applied
+ */
+export function validateDiscordGuildSettings(settings: Partial<DiscordGuildSettings>): DiscordGuildSettings {
+  const validated = { ...defaultDiscordGuildSettings, ...settings };
+  const isSnowflake = (id: unknown) => typeof id === 'string' && /^\d{17,20}$/.test(id);
+
+  // Validate channel and role IDs (Discord snowflakes)
+  validated.allowedChannelIds = Array.isArray(validated.allowedChannelIds)
+    ? Array.from(new Set(validated.allowedChannelIds.filter(isSnowflake))).slice(0, 50)
+    : [];
+  validated.proExemptRoleIds = Array.isArray(validated.proExemptRoleIds)
+    ? Array.from(new Set(validated.proExemptRoleIds.filter(isSnowflake))).slice(0, 25)
+    : [];
+
+  if (!['mention', 'prefix', 'slash'].includes(validated.triggerMode)) {
+    validated.triggerMode = defaultDiscordGuildSettings.triggerMode;
+  }
+
+  if (!['reply', 'no-mention', 'embed'].includes(validated.responseStyle)) {
+    validated.responseStyle = defaultDiscordGuildSettings.responseStyle;
+  }
+
+  // Validate command prefix (1-20 characters, no whitespace)
+  const prefix = typeof validated.commandPrefix === 'string' ? validated.commandPrefix.trim() : '';
+  validated.commandPrefix = prefix.length > 0 && prefix.length <= 20 && !/\s/.test(prefix)
+    ? prefix
+    : defaultDiscordGuildSettings.commandPrefix;
+
+  validated.requirePro = validated.requirePro !== false;
+
+  // Validate custom system message (max 2000 characters, empty = default)
+  if (typeof validated.customSystemMessage === 'string' && validated.customSystemMessage.trim()) {
+    validated.customSystemMessage = validated.customSystemMessage.trim().substring(0, 2000);
+  } else {
+    delete validated.customSystemMessage;
+  }
+
+  return validated;
+}
@@ -62,11 +62,22 @@ export const defaultDiscordModerationConfig: DiscordModerationConfig = {
  */
 export async function getDiscordModerationConfig(guildId?: string): Promise<DiscordModerationConfig> {
   // If guildId is provided, try to load per-server config from database
-  // For now, we'll use defaults - can be extended later to support per-server config
   if (guildId) {
     try {
-      // TODO: Add per-server configuration support in the future
-      // For now, all servers use the same config
+      // Dynamically import to avoid circular dependencies
+      const connectToMongoDB = (await import('../utils/mongodb')).default;
+      const DiscordGuild = (await import('../models/DiscordGuild')).default;
+
+      await connectToMongoDB();
+
+      const guild = await DiscordGuild.findOne({ guildId }).select('moderationConfig').lean() as {
+        moderationConfig?: DiscordModerationConfig;
+      } | null;
+
+      if (guild && guild.moderationConfig) {
+        // Return per-server config
+        return guild.moderationConfig;
+      }
     } catch (error) {
       // If database lookup fails, fall through to environment/default config
       console.warn('Failed to load per-server moderation config, using defaults', {
@@ -101,3 +112,29 @@ export async function getDiscordModerationConfig(guildId?: string): Promise<Disc
   return config;
 }
 
+/**
+ * Validate a moderation configuration submitted from the dashboard
+ * Clamps values to the ranges offered in the settings UI
+ *
+ * @param config - Submitted configuration
+ * @returns Validated configuration with defaults for missing fields
+ */
+export function validateDiscordModerationConfig(config: any): DiscordModerationConfig {
+  const defaults = defaultDiscordModerationConfig;
+  const clamp = (value: unknown, min: number, max: number, fallback: number) =>
+    typeof value === 'number' && !isNaN(value) ? Math.max(min, Math.min(max, value)) : fallback;
+
+  return {
+    enabled: typeof config?.enabled === 'boolean' ? config.enabled : defaults.enabled,
+    strictMode: typeof config?.strictMode === 'boolean' ? config.strictMode : defaults.strictMode,
+    timeoutDurations: {
+      first: clamp(config?.timeoutDurations?.first, 0, 300, defaults.timeoutDurations.first),
+      second: clamp(config?.timeoutDurations?.second, 60, 600, defaults.timeoutDurations.second),
+      third: clamp(config?.timeoutDurations?.third, 300, 3600, defaults.timeoutDurations.third),
+      fourth: clamp(config?.timeoutDurations?.fourth, 600, 7200, defaults.timeoutDurations.fourth),
+    },
+    maxViolationsBeforeBan: clamp(config?.maxViolationsBeforeBan, 3, 10, defaults.maxViolationsBeforeBan),
+    checkAIResponses: typeof config?.checkAIResponses === 'boolean' ? config.checkAIResponses : defaults.checkAIResponses,
+    logAllActions: typeof config?.logAllActions === 'boolean' ? config.logAllActions : defaults.logAllActions,
+  };
+}
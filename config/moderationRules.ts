@@ -0,0 +1,842 @@
+/**
+ * Content Moderation Rules Configuration
+ *
+ * Moderation rules shared by the website, the Twitch bot and the Discord bot.
+ * Rules are grouped into rule sets stored in the database (models/ModerationRuleSet.ts)
+ * and edited by admins through /api/admin/moderation/rules. The built-in default rule
+ * set below is used until an admin saves one, and whenever the database is unavailable.
+ *
+ * Rules are evaluated by utils/moderation/rulesEngine.ts.
+ */
+
+/** Surfaces that evaluate moderation rules */
+export type ModerationPlatform = 'web' | 'twitch' | 'discord';
+
+export const MODERATION_PLATFORMS: ModerationPlatform[] = ['web', 'twitch', 'discord'];
+
+/**
+ * Rule types:
+ * - word_list: words/phrases matched as whole words
+ * - regex: a regular expression
+ * - links: URLs and bare domains (except allowed domains)
+ * - caps: messages that are mostly capital letters
+ * - spam: long runs of one character or one word repeated over and over
+ * - repeated_message: the same user sending the same message several times in a short window
+ */
+export type ModerationRuleType = 'word_list' | 'regex' | 'links' | 'caps' | 'spam' | 'repeated_message';
+
+export const MODERATION_RULE_TYPES: ModerationRuleType[] = ['word_list', 'regex', 'links', 'caps', 'spam', 'repeated_message'];
+
+export type ModerationSeverity = 'low' | 'medium' | 'high' | 'critical';
+
+export const MODERATION_SEVERITIES: ModerationSeverity[] = ['low', 'medium', 'high', 'critical'];
+
+/**
+ * What happens when a rule matches, from least to most severe:
+ * - log: allow the content, but log the match for review
+ * - block: reject the content without counting a violation
+ * - violation: reject the content and count a violation (progressive warnings/timeouts/bans)
+ * - ban: reject the content and ban immediately (on the website, where bans are always
+ *   progressive, this counts a violation)
+ */
+export type ModerationAction = 'log' | 'block' | 'violation' | 'ban';
+
+export const MODERATION_ACTIONS: ModerationAction[] = ['log', 'block', 'violation', 'ban'];
+
+export interface ModerationRule {
+  /** Short name shown to admins and in logs */
+  name: string;
+
+  type: ModerationRuleType;
+
+  enabled: boolean;
+
+  severity: ModerationSeverity;
+
+  /** word_list: words and phrases to match */
+  words?: string[];
+
+  /**
+   * word_list: also match disguised spellings (leetspeak like "5h1t", look-alike
+   * characters from other alphabets, and spaced-out letters like "s h i t").
+   * Always on when a channel or server uses strict mode.
+   */
+  normalize?: boolean;
+
+  /** regex: pattern source and flags (defaults to 'i') */
+  pattern?: string;
+  flags?: string;
+
+  /** links: domains that are always allowed (subdomains included) */
+  allowedDomains?: string[];
+
+  /** caps: minimum number of letters before the rule applies, and the uppercase ratio that triggers it (0-1) */
+  minLength?: number;
+  maxCapsRatio?: number;
+
+  /** spam: longest allowed run of one character, and of one word repeated back to back */
+  maxRepeatedChars?: number;
+  maxRepeatedWords?: number;
+
+  /** repeated_message: how many identical messages (including this one) within the window trigger the rule */
+  maxRepeats?: number;
+  repeatWindowSeconds?: number;
+}
+
+export interface ModerationRuleSetConfig {
+  name: string;
+  description?: string;
+  enabled: boolean;
+  /** Surfaces this rule set applies to */
+  platforms: ModerationPlatform[];
+  /** Action taken for each severity level */
+  severityActions: Record<ModerationSeverity, ModerationAction>;
+  rules: ModerationRule[];
+}
+
+/**
+ * Default severity → action mapping
+ */
+export const DEFAULT_SEVERITY_ACTIONS: Record<ModerationSeverity, ModerationAction> = {
+  low: 'log',
+  medium: 'block',
+  high: 'violation',
+  critical: 'ban',
+};
+
+// This is a list of words/names/phrases/organizations that are considered offensive and should not be used in this application.
+export const DEFAULT_OFFENSIVE_WORDS = [
+  'ejaculate',
+  'ejaculation',
+  'arsehead',
+  'arse',
+  'arsehole',
+  'asshat',
+  'assfart',
+  'shite',
+  'dumbass',
+  'dumb fuck',
+  'dyke',
+  'load of shit',
+  'full of shit',
+  'horseshit',
+  'dogshit',
+  'son of a bitch',
+  'son of a whore',
+  'prick',
+  'shit',
+  'shithead',
+  'fuck face',
+  'finger yourself',
+  'milf',
+  'dilf',
+  'Stalin',
+  'Satan',
+  'Nazi',
+  'Vladimir Putin',
+  'Kremlin',
+  'Putin',
+  'Pro-Putin',
+  'Pro-Russia',
+  'Pro-Hitler',
+  'Benjamin Netanyahu',
+  'Viktor Orbán',
+  'Xi Jinping',
+  'Ayatollah Ali Khamenei',
+  'Ahmed al‑Sharaa',
+  'Adolf Hitler',
+  'Hitler',
+  'Augusto Pinochet',
+  'Alberto Fujimori',
+  'Lee Kuan Yew',
+  'Recep Tayyip Erdoğan',
+  'Boris Yeltsin',
+  'unified reich',
+  'Javier Milei',
+  'Donald Trump',
+  'Trump',
+  'Trumpism',
+  'Trump2028',
+  'Make America Great Again',
+  'Maga',
+  'Mein Kampf',
+  'fascist',
+  'faggot',
+  'fuck',
+  'fuck you',
+  'fuckbag',
+  'fuck off',
+  'fuck me',
+  'fucking',
+  'bastard',
+  'spastic',
+  'retard',
+  'retarded',
+  'bitch',
+  'pussy',
+  'asshole',
+  'ass',
+  'anal',
+  'anus',
+  'dick',
+  'dickhead',
+  'cunt',
+  'penis',
+  'penal',
+  'scrotum',
+  'vagina',
+  'dildo',
+  'neo-nazi',
+  'proud boys',
+  'oathkeepers',
+  'Al Qaeda',
+  'Taliban',
+  'ISIS',
+  'Qatar',
+  'Osama Bin Laden',
+  'qanon',
+  'cum',
+  'cumming',
+  'Kim Jong Un',
+  'Hamas',
+  'Bashar al-Assad',
+  'Hayʼat Tahrir al-Sham',
+  'Hezbollah',
+  'Houthi',
+  'wanker',
+  'whore',
+  'white power',
+  'white supremacy',
+  'white supremacist',
+  'coon',
+  'cocksucker',
+  'nigga',
+  'nigger',
+  'Stalin',
+  'Hentai',
+  'porn',
+  'pornhub',
+  'pornography',
+  'pornographic',
+  'pedo',
+  'pedophile',
+  'kill yourself',
+  'kys',
+  'rape',
+  'rapist',
+  'raped',
+  'fucked',
+  'fucked up',
+  'motherfucker',
+  'motherfucking',
+  'J.D. Vance',
+  'Elon Musk',
+  'Tulsi Gabbard',
+  'Tucker Carlson',
+  'Jesse Watters',
+  'Kari Lake',
+  'Marco Rubio',
+  'Jeffrey Epstein',
+  'Ghislaine Maxwell',
+  'Rudy Giuliani',
+  'Linda McMahon',
+  'Chuck Grassley',
+  'Steve Bannon',
+  'Tim Scott',
+  'Niki Haley',
+  'Asa Hutchinson',
+  'Francis Suarez',
+  'Will Hurd',
+  'Perry Johnson',
+  'Vivek Ramaswamy',
+  'Kash Patel',
+  'Dan Bongino',
+  'Paul Dans',
+  'Winsome Earle-Sears',
+  'Mike Johnson',
+  'Kyle Rittenhouse',
+  'Rick Scott',
+  'Ron DeSantis',
+  'Casey DeSantis',
+  'Pam Bondi',
+  'Emil Bove',
+  'Pete Hegseth',
+  'Ted Cruz',
+  'Robert F. Kennedy Jr.',
+  'Byron Donalds',
+  'Russel Vought',
+  'Jon Voight',
+  'Marjorie Taylor Greene',
+  'Joe Wilson',
+  'Lauren Boebert',
+  'Matt Gaetz',
+  'Alice Johnson',
+  'Jim Jordan',
+  'Melania Trump',
+  'Donald Trump Jr.',
+  'Laura Trump',
+  'Eric Trump',
+  'Ivanka Trump',
+  'Mitch McConnell',
+  'Doug Burgum',
+  'Tom Homan',
+  'John Roberts',
+  'Amy Coney Barrett',
+  'Clarence Thomas',
+  'Lindsey Graham',
+  'Samuel Alito',
+  'Brett Kavanaugh',
+  'Neil Gorsuch',
+  'Aileen Cannon',
+  'Tommy Tuberville',
+  'Brandon Carr',
+  'Elaine Pelino',
+  'Dr. Oz',
+  'Mehmet Oz',
+  'Julie Fedorchak',
+  'Greg Abbott',
+  'Enrique Tarrio',
+  'Steward Rhodes',
+  'Eric Adams',
+  'Tammy Bruce',
+  'Matt Walsh',
+  'Brad Schimel',
+  'Katie Britt',
+  'Bernie Mareno',
+  'Tom Cotton',
+  'Gabe Evans',
+  'Rand Paul',
+  'Bill Cassidy',
+  'Markwayne Mullin',
+  'John Thune',
+  'Michael Todd Chrisley',
+  'Julie Chrisley',
+  'Dean Cain',
+  'Kelly Ayotte',
+  'Cory Mills',
+  'Larry Kudlow',
+  'John Barraso',
+  'Sarah Palin',
+  'Robert Aderholt',
+  'James Lankford',
+  'Steve Scalise',
+  'Kanye West',
+  'Bill Cosby',
+  'Ben Shapiro',
+  'Derek Chauvin',
+  'Karoline Leavitt',
+  'Dave McCormick',
+  'Chris Rufo',
+  'John Eastman',
+  'Kenneth Chesebro',
+  'Sidney Powell',
+  'Mark Meadows',
+  'Howard Lutnick',
+  'Mike Waltz',
+  'Tim Sheehy',
+  'John Ratcliffe',
+  'Steve Witkoff',
+  'Laura Loomer',
+  'Rush Limbaugh',
+  'Doug Collins',
+  'Lee Greenwood',
+  'Herschel Walker',
+  'Dennis Quaid',
+  'Mike Kehoe',
+  'Brian Kemp',
+  'Alina Habba',
+  'Chip Roy',
+  'David Richardson',
+  'Kristi Noem',
+  'Elise Stefanik',
+  'Jay Clayton',
+  'Boris Epstein',
+  'Ed Martin',
+  'Sean Duffy',
+  'Miley Biggs',
+  'Jim Banks',
+  'Alex Bruesewitz',
+  'Susan Collins',
+  'Robert Giuffra',
+  'Mike Lindell',
+  'Eric Lendrum',
+  'Harmeet Dhillon',
+  'Ryan Walters',
+  'Stephen Miran',
+  'Felix Barry Moore',
+  'Jeanine Pirro',
+  'J. K. Rowling',
+  'Nicki Minaj',
+  'Kenneth Petty',
+  'Mike Haridopolos',
+  'Josh Hawley',
+  'Derek Schmidt',
+  'Jefferson Shreve',
+  'Mike Lee',
+  'John Kennedy',
+  'Craig Goldman',
+  'Derrick Van Orden',
+  'Jeff Bezos',
+  'Scott Bessent',
+  'John Curtis',
+  'Lisa McClain',
+  'Monica Crowley',
+  'Brooke Rollins',
+  'Dabney Friedrich',
+  'Jeff Sessions',
+  'Richard Hudson Jr.',
+  'Andrea Lucas',
+  'Mike Flood',
+  'Kelly Armstrong',
+  'Devin Nunes',
+  'Hulk Hogan',
+  'Kevin Roberts',
+  'Mike Braun',
+  'Rodney Scott',
+  'Steve Moore',
+  'Jeffrey Crank',
+  'Robert Wolf',
+  'Andrew Puzder',
+  'Joshua Divine',
+  'Salvatore Cordileone',
+  'Vance Boelter',
+  'Charlie Kirk',
+  'Kevin Stitt',
+  'Paul Szypula',
+  'Bill Hagerty',
+  'Jeff Landry',
+  'Nick Sortor',
+  'Haile McAnally',
+  'Thom Tillis',
+  'Joe Lombardo',
+  'Kevin Kiley',
+  'Anna Paulina',
+  'Stephen Miller',
+  'Jason Smith',
+  'John Sauer',
+  'Zach Rehl',
+  'Jessica Watkins',
+  'Kenneth Harrelson',
+  'Kyle Young',
+  'James Ho',
+  'Don Willett',
+  'Henry McMaster',
+  'Larry Rhoden',
+  'Ashley Moody',
+  'Mike DeWine',
+  'Robert Morss',
+  'Kelly Meggs',
+  'Greg Gutfeld',
+  'Joseph Hackett',
+  'Gary Palmer',
+  'Dominic Pezzola',
+  'Tim Hale',
+  'Sean Combs',
+  'Dustin Burrows',
+  'Bret Baier',
+  'Marlin Stutzman',
+  'Elliot Gaiser',
+  'Dale Strong',
+  'Joni Ernst',
+  'Andy Harris',
+  'Nancy Mace',
+  'Bruce Westerman',
+  'Joe Gruters',
+  'Sergio Gor',
+  'Ken Paxton',
+  'Brendan Carr',
+  'John Cornyn',
+  'Sarah Huckabee Sanders',
+  'Gregory Katsas',
+  'Justin Walker',
+  'Steve Womack',
+  'Alex Stein',
+  'Tate Reeves',
+  'Corey Lewandowski',
+  'Greg Gianforte',
+  'Jeffrey Wall',
+  'Marsha Blackburn',
+  'Bill Lee',
+  'Michael Bartels',
+  'Joe Lewis',
+  'Alex Dwyer',
+  'Tony Fabrizio',
+  'Markwayne Mullin',
+  'Kay Ivey',
+  'Jim Pellin',
+  'Debra Fischer',
+  'Jon Husted',
+  'Sheri Biggs',
+  'Chris LaCivita',
+  'Jimmy Patronis Jr.',
+  'Randy Fine',
+  'Shelley Moore Capito',
+  'James Comey',
+  'Glenn Youngkin',
+  'Phil McGraw',
+  'Bryan Steil',
+  'Virginia Foxx',
+  'Rick Snyder',
+  'Mike Rogers',
+  'Stacy Garrity',
+  'Todd Hunter',
+  'Charlie Geren',
+  'Rob Bresnahan Jr.',
+  'Addison McDowell',
+  'Benny Johnson',
+  'John Boozman',
+  'Kimberly Guilfoyle',
+  'Paul Ingrassia',
+  'Kid Rock',
+  'Robert James Ritchie',
+  'Callista Gingrich',
+  'Lindsey Halligan',
+  'Nick Begich III',
+  'Brad Little',
+  'Mark Gordon',
+  'Phil Scott',
+  'Spencer Cox',
+  'Kim Reynolds',
+  'Ashley Moore',
+  'Patrick Harrigan',
+  'Jim Justice',
+  'Heather Honey',
+  'Christopher S. Ripley',
+  'Anna Luna',
+  'Thomas Barrett',
+  'David Valadao',
+  'Kandiss Taylor',
+  'James Murphy',
+  'Scott Mayer',
+  'Ryan Mackenzie',
+  'Gloria Gaynor',
+  'Jordan Emery Pratt',
+  'Laura Ingraham',
+  'Troy Downing',
+  'Sean Hannity',
+  'Glenn Beck',
+  'Charlie Hurt',
+  'Mike Dunleavy',
+  'Joe Rogan',
+  'Jake Lang',
+  'Adam Johnson',
+  'Alex Jones',
+  'Liz Wheeler',
+  'Megyn Kelly',
+  'Bryan Kohberger',
+  'Dylan Roof',
+  'Robert Durst',
+  'Ted Bundy',
+  'herpes',
+  'genitalia',
+  'genitals',
+  'sex trafficking',
+  'kiss my ass',
+  'suck my dick',
+  'eat a dick',
+  'blew my load',
+  'blewmyload',
+  'titty fuck',
+  'titty',
+  'nipples',
+  'paizuri',
+  'shotacon',
+  'butt plug',
+  'buttplug',
+  'Ku Klux Klan',
+  'KKK',
+  'Department of Government Effeciency',
+  'Lynching',
+  'buttlicker',
+  'jizz',
+  'cumshot',
+  'blowjob',
+  'titties',
+  'titjob',
+  'handjob',
+  'thighjob',
+  'footjob',
+  'cunnilingus',
+  'butt fuck',
+  'buttfuck',
+  'bitch tits',
+  'bitch ass',
+  'masterbate',
+  'masterbating',
+  'masterbated',
+  'horny',
+  'horny bitch',
+  'slut',
+  'slutty',
+  'Bollocks',
+  'bollocks',
+  'cumdumpster',
+  'cum dumpster',
+  'testicles',
+  'neek',
+  'twat',
+  'gooning',
+  'buttfucker',
+  'butt fucker',
+  'buttfucked',
+  'butt fucked',
+  'pussy hole',
+  'blow me',
+  'blowme',
+  'bulge',
+  'Under Seige',
+  'The Art of the Deal',
+  'Aligator Alcatraz',
+  'Let\'s Go Brandon',
+  'Truth Social',
+  'Young Republicans',
+  'Children\'s Health Defense',
+  'Medical Ethics Defense Act',
+  'The Federalist Society',
+  'Heritage Foundation',
+  'Fox News',
+  'Newsmax',
+  'Sinclair Broadcast Group',
+  'Nexstar Media Group',
+  'Turning Point USA',
+  'One America News Network',
+  'Project 2025',
+  'National Socialist Movement',
+  'Order of the Black Sun',
+  'Blood Tribe',
+  'Patriot Front',
+  'Atomwaffen Division',
+  'Phyllis Schlafly Eagles',
+  'Religious Liberty Commission'
+  // I do not approve any of these words, names, organizations and/or phrases being used in this application.
+];
+
+/**
+ * Built-in default rule set
+ * The offensive word list applies everywhere as before; the heuristic rules are
+ * available but disabled until an admin turns them on.
+ */
+export const defaultModerationRuleSet: ModerationRuleSetConfig = {
+  name: 'Default',
+  description: 'Built-in rules shared by the website, Twitch and Discord',
+  enabled: true,
+  platforms: ['web', 'twitch', 'discord'],
+  severityActions: DEFAULT_SEVERITY_ACTIONS,
+  rules: [
+    {
+      name: 'Offensive terms',
+      type: 'word_list',
+      enabled: true,
+      severity: 'high',
+      words: DEFAULT_OFFENSIVE_WORDS,
+      normalize: false,
+    },
+    {
+      name: 'Links',
+      type: 'links',
+      enabled: false,
+      severity: 'medium',
+      allowedDomains: ['videogamewingman.com', 'twitch.tv', 'discord.gg'],
+    },
+    {
+      name: 'Excessive caps',
+      type: 'caps',
+      enabled: false,
+      severity: 'low',
+      minLength: 15,
+      maxCapsRatio: 0.8,
+    },
+    {
+      name: 'Character and word spam',
+      type: 'spam',
+      enabled: false,
+      severity: 'medium',
+      maxRepeatedChars: 15,
+      maxRepeatedWords: 6,
+    },
+    {
+      name: 'Repeated messages',
+      type: 'repeated_message',
+      enabled: false,
+      severity: 'medium',
+      maxRepeats: 3,
+      repeatWindowSeconds: 60,
+    },
+  ],
+};
+
+// Rules are evaluated for every message and post, so keep them briefly in memory.
+// Changes made by admins take effect within this window in other processes (e.g. the bots).
+const RULES_CACHE_TTL_MS = 60 * 1000;
+let rulesCache: { ruleSets: ModerationRuleSetConfig[]; expiresAt: number } | null = null;
+
+/**
+ * Get the enabled rule sets for a platform
+ * Falls back to the built-in default rule set if none are stored or the database is unavailable
+ *
+ * @param platform - Surface evaluating the rules
+ * @returns Promise<ModerationRuleSetConfig[]> - Rule sets that apply to the platform
+ */
+export async function getModerationRuleSets(platform: ModerationPlatform): Promise<ModerationRuleSetConfig[]> {
+  if (!rulesCache || rulesCache.expiresAt <= Date.now()) {
+    let ruleSets: ModerationRuleSetConfig[] = [defaultModerationRuleSet];
+    try {
+      // Dynamically import to avoid circular dependencies
+      const connectToMongoDB = (await import('../utils/mongodb')).default;
+      const ModerationRuleSet = (await import('../models/ModerationRuleSet')).default;
+
+      await connectToMongoDB();
+
+      const stored = await ModerationRuleSet.find({}).lean() as unknown as ModerationRuleSetConfig[];
+      if (stored.length > 0) {
+        ruleSets = stored;
+      }
+      rulesCache = { ruleSets, expiresAt: Date.now() + RULES_CACHE_TTL_MS };
+    } catch (error) {
+      // If database lookup fails, fall through to the built-in rules
+      // This ensures moderation keeps working even if DB is unavailable
+      console.warn('Failed to load moderation rule sets, using built-in rules', {
+        error: error instanceof Error ? error.message : String(error)
+      });
+      return [defaultModerationRuleSet];
+    }
+  }
+
+  return rulesCache.ruleSets.filter(ruleSet => ruleSet.enabled && ruleSet.platforms.includes(platform));
+}
+
+/**
+ * Drop cached rule sets (after they are changed)
+ */
+export function clearModerationRulesCache(): void {
+  rulesCache = null;
+}
+
+const clampNumber = (value: unknown, min: number, max: number, fallback: number) =>
+  typeof value === 'number' && !isNaN(value) ? Math.max(min, Math.min(max, value)) : fallback;
+
+const cleanStringList = (value: unknown, maxItems: number, maxLength: number): string[] =>
+  Array.isArray(value)
+    ? Array.from(new Set(
+        value
+          .filter((item): item is string => typeof item === 'string')
+          .map(item => item.trim())
+          .filter(item => item.length > 0 && item.length <= maxLength)
+      )).slice(0, maxItems)
+    : [];
+
+/**
+ * Validate a single rule
+ * @throws Error with statusCode 400 describing the first problem found
+ */
+export function validateModerationRule(rule: any): ModerationRule {
+  const fail = (message: string): never => {
+    const error = new Error(message);
+    (error as any).statusCode = 400;
+    throw error;
+  };
+
+  const name = typeof rule?.name === 'string' ? rule.name.trim() : '';
+  if (!name || name.length > 100) {
+    fail('Each rule needs a name of at most 100 characters');
+  }
+  if (!MODERATION_RULE_TYPES.includes(rule.type)) {
+    fail(`Rule "${name}": type must be one of ${MODERATION_RULE_TYPES.join(', ')}`);
+  }
+
+  const validated: ModerationRule = {
+    name,
+    type: rule.type,
+    enabled: rule.enabled !== false,
+    severity: MODERATION_SEVERITIES.includes(rule.severity) ? rule.severity : 'medium',
+  };
+
+  switch (validated.type) {
+    case 'word_list':
+      validated.words = cleanStringList(rule.words, 5000, 100);
+      if (validated.words.length === 0) {
+        fail(`Rule "${name}": add at least one word or phrase`);
+      }
+      validated.normalize = rule.normalize === true;
+      break;
+
+    case 'regex': {
+      const pattern = typeof rule.pattern === 'string' ? rule.pattern : '';
+      const flags = typeof rule.flags === 'string' ? rule.flags.replace(/[^im]/g, '') : 'i';
+      if (!pattern || pattern.length > 500) {
+        fail(`Rule "${name}": pattern is required and must be at most 500 characters`);
+      }
+      try {
+        new RegExp(pattern, flags);
+      } catch (error) {
+        fail(`Rule "${name}": invalid regular expression (${error instanceof Error ? error.message : String(error)})`);
+      }
+      validated.pattern = pattern;
+      validated.flags = flags;
+      break;
+    }
+
+    case 'links':
+      validated.allowedDomains = cleanStringList(rule.allowedDomains, 100, 253)
+        .map(domain => domain.toLowerCase().replace(/^www\./, ''));
+      break;
+
+    case 'caps':
+      validated.minLength = clampNumber(rule.minLength, 5, 500, 15);
+      validated.maxCapsRatio = clampNumber(rule.maxCapsRatio, 0.5, 1, 0.8);
+      break;
+
+    case 'spam':
+      validated.maxRepeatedChars = clampNumber(rule.maxRepeatedChars, 3, 100, 15);
+      validated.maxRepeatedWords = clampNumber(rule.maxRepeatedWords, 2, 50, 6);
+      break;
+
+    case 'repeated_message':
+      validated.maxRepeats = clampNumber(rule.maxRepeats, 2, 20, 3);
+      validated.repeatWindowSeconds = clampNumber(rule.repeatWindowSeconds, 10, 600, 60);
+      break;
+  }
+
+  return validated;
+}
+
+/**
+ * Validate a rule set submitted by an admin
+ * @throws Error with statusCode 400 describing the first problem found
+ */
+export function validateModerationRuleSet(ruleSet: any): ModerationRuleSetConfig {
+  const name = typeof ruleSet?.name === 'string' ? ruleSet.name.trim() : '';
+  if (!name || name.length > 100) {
+    const error = new Error('name is required and must be at most 100 characters');
+    (error as any).statusCode = 400;
+    throw error;
+  }
+
+  const rules = Array.isArray(ruleSet.rules) ? ruleSet.rules : [];
+  if (rules.length > 50) {
+    const error = new Error('A rule set can have at most 50 rules');
+    (error as any).statusCode = 400;
+    throw error;
+  }
+
+  const severityActions = { ...DEFAULT_SEVERITY_ACTIONS };
+  for (const severity of MODERATION_SEVERITIES) {
+    const action = ruleSet.severityActions?.[severity];
+    if (MODERATION_ACTIONS.includes(action)) {
+      severityActions[severity] = action;
+    }
+  }
+
+  const platforms = Array.isArray(ruleSet.platforms)
+    ? MODERATION_PLATFORMS.filter(platform => ruleSet.platforms.includes(platform))
+    : MODERATION_PLATFORMS;
+
+  return {
+    name,
+    description: typeof ruleSet.description === 'string' ? ruleSet.description.trim().substring(0, 500) : undefined,
+    enabled: ruleSet.enabled !== false,
+    platforms,
+    severityActions,
+    rules: rules.map(validateModerationRule),
+  };
+}
@@ -0,0 +1,138 @@
+/**
+ * Twitch Bot Custom Commands Configuration
+ *
+ * Streamer-defined static commands (e.g. !specs, !schedule, !discord) stored per channel
+ * on TwitchBotChannel.customCommands. Responses are templates that may use:
+ *   {user}    - display name of the viewer who ran the command
+ *   {channel} - channel name
+ *   {game}    - game the channel is currently playing
+ *   {count}   - how many times the command has been used (including this one)
+ *   {args}    - anything typed after the command
+ */
+
+/** Who may run a command, lowest to highest */
+export type TwitchCommandPermission = 'everyone' | 'subscriber' | 'vip' | 'moderator' | 'broadcaster';
+
+export const COMMAND_PERMISSION_LEVELS: TwitchCommandPermission[] = [
+  'everyone',
+  'subscriber',
+  'vip',
+  'moderator',
+  'broadcaster',
+];
+
+export interface TwitchCustomCommand {
+  /** Command name without the leading ! (lowercase, e.g. 'specs') */
+  name: string;
+
+  /** Response template (see variables above) */
+  response: string;
+
+  /** Seconds before the command can be used again in the channel (0 = no cooldown) */
+  cooldownSeconds: number;
+
+  /** Minimum permission level required to run the command */
+  permission: TwitchCommandPermission;
+
+  /** Whether the command responds in chat */
+  enabled: boolean;
+
+  /** Number of times the command has been used */
+  useCount: number;
+
+  lastUsedAt?: Date;
+}
+
+/** Commands handled by the bot itself; new custom commands cannot use these names */
+export const RESERVED_COMMAND_NAMES = ['help', 'commands', 'game', 'upvote', 'trivia', 'top', 'predict'];
+
+export const TEMPLATE_VARIABLES = ['user', 'channel', 'game', 'count', 'args'];
+
+export const MAX_CUSTOM_COMMANDS_PER_CHANNEL = 100;
+export const MAX_COMMAND_RESPONSE_LENGTH = 500; // Twitch limit
+export const MAX_COMMAND_COOLDOWN_SECONDS = 3600; // 1 hour
+
+/**
+ * Default values for a new custom command
+ */
+export const defaultCustomCommand: Omit<TwitchCustomCommand, 'name' | 'response'> = {
+  cooldownSeconds: 5,
+  permission: 'everyone',
+  enabled: true,
+  useCount: 0,
+};
+
+/**
+ * Normalize a command name: strip the leading !, trim and lowercase
+ */
+export function normalizeCommandName(name: string): string {
+  return name.trim().replace(/^!+/, '').toLowerCase();
+}
+
+export interface CustomCommandValidationResult {
+  valid: boolean;
+  error?: string;
+  command?: Pick<TwitchCustomCommand, 'name' | 'response' | 'cooldownSeconds' | 'permission' | 'enabled'>;
+}
+
+/**
+ * Validate a custom command submitted by a streamer
+ * Unlike validateChannelSettings, invalid input is rejected rather than corrected,
+ * so the editor can show the streamer what is wrong.
+ *
+ * @param input - Command fields from the request
+ * @param commandPrefixes - The channel's AI command prefixes, which custom commands must not shadow
+ * @param currentName - The command's name before this edit; commands saved before a name was
+ * reserved may keep it
+ */
+export function validateCustomCommand(
+  input: Partial<TwitchCustomCommand>,
+  commandPrefixes: string[] = [],
+  currentName?: string
+): CustomCommandValidationResult {
+  const name = normalizeCommandName(typeof input.name === 'string' ? input.name : '');
+  if (!/^[a-z0-9_]{1,25}$/.test(name)) {
+    return { valid: false, error: 'Command names must be 1-25 letters, numbers or underscores' };
+  }
+
+  const prefixNames = commandPrefixes.map(normalizeCommandName);
+  const reserved = RESERVED_COMMAND_NAMES.indexOf(name) !== -1 && name !== currentName;
+  if (reserved || prefixNames.indexOf(name) !== -1) {
+    return { valid: false, error: `!${name} is already used by the bot` };
+  }
+
+  const response = typeof input.response === 'string' ? input.response.trim() : '';
+  if (!response) {
+    return { valid: false, error: 'Response is required' };
+  }
+  if (response.length > MAX_COMMAND_RESPONSE_LENGTH) {
+    return { valid: false, error: `Response must be at most ${MAX_COMMAND_RESPONSE_LENGTH} characters` };
+  }
+  // Twitch treats messages starting with / or . as chat commands (/ban, /mod, ...)
+  if (/^[/.]/.test(response)) {
+    return { valid: false, error: 'Response cannot start with / or .' };
+  }
+
+  const cooldownSeconds = input.cooldownSeconds === undefined
+    ? defaultCustomCommand.cooldownSeconds
+    : Number(input.cooldownSeconds);
+  if (!Number.isInteger(cooldownSeconds) || cooldownSeconds < 0 || cooldownSeconds > MAX_COMMAND_COOLDOWN_SECONDS) {
+    return { valid: false, error: `Cooldown must be between 0 and ${MAX_COMMAND_COOLDOWN_SECONDS} seconds` };
+  }
+
+  const permission = input.permission || defaultCustomCommand.permission;
+  if (COMMAND_PERMISSION_LEVELS.indexOf(permission) === -1) {
+    return { valid: false, error: `Permission must be one of: ${COMMAND_PERMISSION_LEVELS.join(', ')}` };
+  }
+
+  return {
+    valid: true,
+    command: {
+      name,
+      response,
+      cooldownSeconds,
+      permission,
+      enabled: input.enabled === undefined ? defaultCustomCommand.enabled : Boolean(input.enabled),
+    },
+  };
+}
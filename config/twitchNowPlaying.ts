@@ -0,0 +1,97 @@
+/**
+ * Twitch "Now Playing" Context
+ *
+ * What a channel is currently streaming, so chat questions like "how do I beat this boss?" are
+ * answered about the live game. The Twitch category and stream title are kept up to date from
+ * EventSub (channel.update, stream.online, stream.offline); the streamer or mods can override the
+ * game and add session notes (current chapter, build, ...) with !game.
+ */
+
+export interface TwitchNowPlaying {
+  /** Twitch category, from EventSub */
+  category?: string;
+
+  /** Game set with !game; overrides the category until the category changes */
+  gameTitle?: string;
+
+  /** Stream title, from EventSub */
+  streamTitle?: string;
+
+  /** Free-form notes about the session, e.g. "Chapter 4, bleed build" */
+  sessionNotes?: string;
+
+  isLive: boolean;
+  startedAt?: Date;
+  updatedAt?: Date;
+
+  /** Chatter who last changed the game or notes with !game */
+  updatedBy?: string;
+}
+
+export const MAX_GAME_TITLE_LENGTH = 100;
+export const MAX_SESSION_NOTES_LENGTH = 200;
+
+/**
+ * Twitch categories that are not games
+ * Questions asked while streaming in these categories get no game context.
+ */
+export const NON_GAME_CATEGORIES = [
+  'just chatting',
+  'music',
+  'art',
+  'asmr',
+  'talk shows & podcasts',
+  'science & technology',
+  'software and game development',
+  'makers & crafting',
+  'food & drink',
+  'sports',
+  'fitness & health',
+  'travel & outdoors',
+  'special events',
+  'politics',
+];
+
+/**
+ * The game chat questions should be resolved against, if any
+ */
+export function getCurrentGame(nowPlaying: TwitchNowPlaying | null | undefined): string | undefined {
+  if (!nowPlaying) {
+    return undefined;
+  }
+  if (nowPlaying.gameTitle) {
+    return nowPlaying.gameTitle;
+  }
+  if (nowPlaying.category && NON_GAME_CATEGORIES.indexOf(nowPlaying.category.toLowerCase()) === -1) {
+    return nowPlaying.category;
+  }
+  return undefined;
+}
+
+export interface NowPlayingValidationResult {
+  valid: boolean;
+  error?: string;
+  value?: string;
+}
+
+/**
+ * Validate a game title set with !game
+ */
+export function validateGameTitle(input: unknown): NowPlayingValidationResult {
+  const gameTitle = typeof input === 'string' ? input.trim().replace(/\s+/g, ' ') : '';
+  if (!gameTitle || gameTitle.length > MAX_GAME_TITLE_LENGTH) {
+    return { valid: false, error: `Game titles must be 1-${MAX_GAME_TITLE_LENGTH} characters` };
+  }
+  return { valid: true, value: gameTitle };
+}
+
+/**
+ * Validate session notes set with !game notes
+ */
+export function validateSessionNotes(input: unknown): NowPlayingValidationResult {
+  const sessionNotes = typeof input === 'string' ? input.trim().replace(/\s+/g, ' ') : '';
+  if (!sessionNotes || sessionNotes.length > MAX_SESSION_NOTES_LENGTH) {
+    return { valid: false, error: `Session notes must be 1-${MAX_SESSION_NOTES_LENGTH} characters` };
+  }
+  return { valid: true, value: sessionNotes };
+}
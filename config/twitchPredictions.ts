@@ -0,0 +1,79 @@
+/**
+ * Twitch Prediction Configuration
+ *
+ * The streamer or a chat moderator opens a prediction with
+ *   !predict Will we beat the boss first try? | yes | no
+ * Viewers vote with !predict <number> (or the outcome's name) until voting closes. Once the
+ * outcome is known, a moderator settles it with !predict result <number> and everyone who called
+ * it earns points on the channel's trivia leaderboard (!top). !predict cancel ends it without
+ * points. Predictions are turned on in the channel's trivia settings.
+ */
+
+export const MIN_PREDICTION_OUTCOMES = 2;
+export const MAX_PREDICTION_OUTCOMES = 5;
+export const MAX_PREDICTION_QUESTION_LENGTH = 200;
+export const MAX_PREDICTION_OUTCOME_LENGTH = 50;
+export const MIN_PREDICTION_WINDOW_SECONDS = 15;
+export const MAX_PREDICTION_WINDOW_SECONDS = 600;
+
+/** Predictions nobody settles are cancelled this long after voting closes */
+export const PREDICTION_RESULT_TIMEOUT_MS = 12 * 60 * 60 * 1000;
+
+export interface PredictionValidationResult {
+  valid: boolean;
+  error?: string;
+  prediction?: {
+    question: string;
+    outcomes: string[];
+  };
+}
+
+function normalizeOutcome(text: string): string {
+  return text.toLowerCase().replace(/\s+/g, ' ').trim();
+}
+
+/**
+ * Parse the text after !predict into a question and its outcomes ("question | outcome | outcome")
+ */
+export function parsePrediction(text: string): PredictionValidationResult {
+  const [question, ...outcomes] = text.split('|').map(part => part.replace(/\s+/g, ' ').trim());
+
+  if (!question || question.length > MAX_PREDICTION_QUESTION_LENGTH) {
+    return { valid: false, error: `Questions must be 1-${MAX_PREDICTION_QUESTION_LENGTH} characters` };
+  }
+  // Twitch treats messages starting with / or . as chat commands (/ban, /mod, ...)
+  if (/^[/.]/.test(question)) {
+    return { valid: false, error: 'Questions cannot start with / or .' };
+  }
+
+  if (outcomes.length < MIN_PREDICTION_OUTCOMES || outcomes.length > MAX_PREDICTION_OUTCOMES) {
+    return {
+      valid: false,
+      error: `Give ${MIN_PREDICTION_OUTCOMES}-${MAX_PREDICTION_OUTCOMES} outcomes, separated by |`
+    };
+  }
+  if (outcomes.some(outcome => !outcome || outcome.length > MAX_PREDICTION_OUTCOME_LENGTH)) {
+    return { valid: false, error: `Outcomes must be 1-${MAX_PREDICTION_OUTCOME_LENGTH} characters` };
+  }
+  const normalized = outcomes.map(normalizeOutcome);
+  if (normalized.some((outcome, index) => normalized.indexOf(outcome) !== index)) {
+    return { valid: false, error: 'Outcomes must be different from each other' };
+  }
+
+  return { valid: true, prediction: { question, outcomes } };
+}
+
+/**
+ * Which outcome a vote is for: its number ("2", "#2") or its name ("no")
+ * @returns The outcome's index, or null if the vote matches none
+ */
+export function matchPredictionOutcome(vote: string, outcomes: string[]): number | null {
+  const numbered = /^#?(\d+)$/.exec(vote.trim());
+  if (numbered) {
+    const index = parseInt(numbered[1], 10) - 1;
+    return index >= 0 && index < outcomes.length ? index : null;
+  }
+
+  const index = outcomes.map(normalizeOutcome).indexOf(normalizeOutcome(vote));
+  return index === -1 ? null : index;
+}
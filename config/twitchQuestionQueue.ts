@@ -0,0 +1,133 @@
+/**
+ * Twitch Question Queue Configuration
+ *
+ * In queue mode, questions asked with the bot's command prefixes are queued instead of answered.
+ * Viewers vote with !upvote <id>, and a similar question counts as a vote on the one already queued.
+ * The streamer (or the Twitch moderators they list) approves, rejects or answers questions from the
+ * queue page; the bot answers approved questions in chat.
+ */
+
+/**
+ * pending: waiting for review
+ * approved: the bot will answer it in chat (with the streamer's answer, if one was given)
+ * answered: answered in chat by the bot, or marked as answered on stream
+ * rejected: dismissed
+ */
+export type QueuedQuestionStatus = 'pending' | 'approved' | 'answered' | 'rejected';
+
+export const QUEUED_QUESTION_STATUSES: QueuedQuestionStatus[] = ['pending', 'approved', 'answered', 'rejected'];
+
+export interface TwitchQuestionQueueSettings {
+  /** Queue questions instead of answering them */
+  enabled: boolean;
+
+  /** Twitch usernames (lowercase) who may manage the queue besides the streamer */
+  moderators: string[];
+
+  /** Secret in the overlay URL, so the browser source does not need a login */
+  overlayToken?: string;
+}
+
+export const defaultQuestionQueueSettings: TwitchQuestionQueueSettings = {
+  enabled: false,
+  moderators: [],
+};
+
+export const MAX_PENDING_QUESTIONS = 200;
+export const MAX_QUEUE_MODERATORS = 25;
+export const MAX_QUEUE_ANSWER_LENGTH = 450; // Leaves room for the mention and (#id) prefix
+
+/** Questions sharing at least this fraction of their words count as the same question */
+export const QUESTION_SIMILARITY_THRESHOLD = 0.7;
+
+/** Approved questions the bot has not answered within this window are left for the streamer */
+export const APPROVED_ANSWER_WINDOW_MS = 15 * 60 * 1000; // 15 minutes
+
+// Words that carry no meaning for deciding whether two questions are the same
+const STOP_WORDS = [
+  'a', 'an', 'the', 'is', 'are', 'was', 'were', 'do', 'does', 'did', 'i', 'you', 'we', 'to', 'of',
+  'in', 'on', 'at', 'for', 'it', 'this', 'that', 'and', 'or', 'my', 'me', 'can', 'how', 'what',
+  'please', 'pls', 'hey', 'wingman'
+];
+
+/**
+ * Reduce a question to its meaningful words, for duplicate detection
+ */
+export function normalizeQuestion(question: string): string {
+  return question
+    .toLowerCase()
+    .replace(/[^a-z0-9\s]/g, ' ')
+    .split(/\s+/)
+    .filter(word => word && STOP_WORDS.indexOf(word) === -1)
+    .join(' ');
+}
+
+/**
+ * Similarity (0-1) of two normalized questions: shared words over all words
+ */
+export function questionSimilarity(a: string, b: string): number {
+  if (!a || !b) return 0;
+  if (a === b) return 1;
+
+  const wordsA = Array.from(new Set(a.split(' ').filter(Boolean)));
+  const wordsB = new Set(b.split(' ').filter(Boolean));
+  if (wordsA.length === 0 || wordsB.size === 0) return 0;
+
+  const shared = wordsA.filter(word => wordsB.has(word)).length;
+  return shared / (wordsA.length + wordsB.size - shared);
+}
+
+export interface QueueSettingsValidationResult {
+  valid: boolean;
+  error?: string;
+  settings?: Pick<TwitchQuestionQueueSettings, 'enabled' | 'moderators'>;
+}
+
+/**
+ * Validate queue settings submitted by a streamer
+ */
+export function validateQuestionQueueSettings(
+  input: Partial<TwitchQuestionQueueSettings>,
+  current: TwitchQuestionQueueSettings = defaultQuestionQueueSettings
+): QueueSettingsValidationResult {
+  const moderatorsInput = input.moderators === undefined ? current.moderators : input.moderators;
+  if (!Array.isArray(moderatorsInput)) {
+    return { valid: false, error: 'moderators must be a list of Twitch usernames' };
+  }
+
+  const moderators: string[] = [];
+  for (const moderator of moderatorsInput) {
+    const login = typeof moderator === 'string' ? moderator.trim().replace(/^@/, '').toLowerCase() : '';
+    if (!/^[a-z0-9_]{3,25}$/.test(login)) {
+      return { valid: false, error: `"${moderator}" is not a valid Twitch username` };
+    }
+    if (moderators.indexOf(login) === -1) {
+      moderators.push(login);
+    }
+  }
+  if (moderators.length > MAX_QUEUE_MODERATORS) {
+    return { valid: false, error: `At most ${MAX_QUEUE_MODERATORS} queue moderators can be added` };
+  }
+
+  return {
+    valid: true,
+    settings: {
+      enabled: input.enabled === undefined ? current.enabled : Boolean(input.enabled),
+      moderators,
+    },
+  };
+}
+
+/**
+ * Validate an answer typed by the streamer or a mod, which the bot posts in chat
+ */
+export function validateQueueAnswer(input: unknown): { valid: boolean; error?: string; answer?: string } {
+  const answer = typeof input === 'string' ? input.trim() : '';
+  if (!answer) {
+    return { valid: false, error: 'Answers cannot be empty' };
+  }
+  if (answer.length > MAX_QUEUE_ANSWER_LENGTH) {
+    return { valid: false, error: `Answers must be at most ${MAX_QUEUE_ANSWER_LENGTH} characters` };
+  }
+  return { valid: true, answer };
+}
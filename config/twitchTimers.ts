@@ -0,0 +1,183 @@
+/**
+ * Twitch Bot Timers and Scheduled Announcements Configuration
+ *
+ * Timers post a rotating list of messages every N minutes, but only once chat has seen at least
+ * minChatLines messages since the timer last posted, so they do not spam a quiet chat.
+ * Scheduled announcements are one-off messages posted at a set time.
+ * Both are stored per channel on TwitchBotChannel and run by the bot process.
+ */
+
+export interface TwitchTimer {
+  /** Stable identifier (generated on creation) */
+  id: string;
+
+  /** Label shown in the dashboard */
+  name: string;
+
+  /** Messages posted in rotation */
+  messages: string[];
+
+  /** Minutes between posts */
+  intervalMinutes: number;
+
+  /** Chat lines required since the last post before posting again (0 = post regardless) */
+  minChatLines: number;
+
+  /** Paused timers keep their place in the rotation but do not post */
+  paused: boolean;
+
+  /** Index of the next message to post */
+  nextMessageIndex: number;
+
+  /** When the timer last posted (or was created/resumed, so the first post waits an interval) */
+  lastPostedAt?: Date;
+}
+
+export type AnnouncementStatus = 'pending' | 'sent' | 'cancelled' | 'missed';
+
+export interface TwitchScheduledAnnouncement {
+  id: string;
+  message: string;
+  sendAt: Date;
+  status: AnnouncementStatus;
+  sentAt?: Date;
+}
+
+export const MAX_TIMERS_PER_CHANNEL = 20;
+export const MAX_MESSAGES_PER_TIMER = 10;
+export const MAX_PENDING_ANNOUNCEMENTS = 20;
+export const MAX_TIMER_MESSAGE_LENGTH = 500; // Twitch limit
+export const MIN_TIMER_INTERVAL_MINUTES = 5;
+export const MAX_TIMER_INTERVAL_MINUTES = 24 * 60;
+export const MAX_MIN_CHAT_LINES = 1000;
+
+/** Announcements more than this late (e.g. the bot was offline) are marked missed instead of sent */
+export const ANNOUNCEMENT_GRACE_PERIOD_MS = 15 * 60 * 1000; // 15 minutes
+
+/**
+ * Default values for a new timer
+ */
+export const defaultTimer: Omit<TwitchTimer, 'id' | 'name' | 'messages'> = {
+  intervalMinutes: 15,
+  minChatLines: 10,
+  paused: false,
+  nextMessageIndex: 0,
+};
+
+export interface TimerValidationResult {
+  valid: boolean;
+  error?: string;
+  timer?: Pick<TwitchTimer, 'name' | 'messages' | 'intervalMinutes' | 'minChatLines' | 'paused'>;
+}
+
+export interface AnnouncementValidationResult {
+  valid: boolean;
+  error?: string;
+  announcement?: Pick<TwitchScheduledAnnouncement, 'message' | 'sendAt'>;
+}
+
+/**
+ * Validate a chat message a timer or announcement will post
+ * @returns An error message, or null if the message is acceptable
+ */
+function validateChatMessage(message: unknown): string | null {
+  if (typeof message !== 'string' || !message.trim()) {
+    return 'Messages cannot be empty';
+  }
+  if (message.trim().length > MAX_TIMER_MESSAGE_LENGTH) {
+    return `Messages must be at most ${MAX_TIMER_MESSAGE_LENGTH} characters`;
+  }
+  // Twitch treats messages starting with / or . as chat commands (/ban, /mod, ...)
+  if (/^[/.]/.test(message.trim())) {
+    return 'Messages cannot start with / or .';
+  }
+  return null;
+}
+
+/**
+ * Validate a timer submitted by a streamer
+ * Invalid input is rejected rather than corrected, so the dashboard can show what is wrong.
+ */
+export function validateTimer(input: Partial<TwitchTimer>): TimerValidationResult {
+  const name = typeof input.name === 'string' ? input.name.trim() : '';
+  if (!name || name.length > 50) {
+    return { valid: false, error: 'Timer name must be 1-50 characters' };
+  }
+
+  if (!Array.isArray(input.messages) || input.messages.length === 0) {
+    return { valid: false, error: 'Timers need at least one message' };
+  }
+  if (input.messages.length > MAX_MESSAGES_PER_TIMER) {
+    return { valid: false, error: `Timers can have at most ${MAX_MESSAGES_PER_TIMER} messages` };
+  }
+  for (const message of input.messages) {
+    const error = validateChatMessage(message);
+    if (error) {
+      return { valid: false, error };
+    }
+  }
+
+  const intervalMinutes = input.intervalMinutes === undefined
+    ? defaultTimer.intervalMinutes
+    : Number(input.intervalMinutes);
+  if (
+    !Number.isInteger(intervalMinutes) ||
+    intervalMinutes < MIN_TIMER_INTERVAL_MINUTES ||
+    intervalMinutes > MAX_TIMER_INTERVAL_MINUTES
+  ) {
+    return {
+      valid: false,
+      error: `Interval must be between ${MIN_TIMER_INTERVAL_MINUTES} and ${MAX_TIMER_INTERVAL_MINUTES} minutes`
+    };
+  }
+
+  const minChatLines = input.minChatLines === undefined
+    ? defaultTimer.minChatLines
+    : Number(input.minChatLines);
+  if (!Number.isInteger(minChatLines) || minChatLines < 0 || minChatLines > MAX_MIN_CHAT_LINES) {
+    return { valid: false, error: `Minimum chat lines must be between 0 and ${MAX_MIN_CHAT_LINES}` };
+  }
+
+  return {
+    valid: true,
+    timer: {
+      name,
+      messages: input.messages.map(message => message.trim()),
+      intervalMinutes,
+      minChatLines,
+      paused: input.paused === undefined ? defaultTimer.paused : Boolean(input.paused),
+    },
+  };
+}
+
+/**
+ * Validate a scheduled announcement submitted by a streamer
+ */
+export function validateAnnouncement(
+  input: { message?: unknown; sendAt?: unknown },
+  now: Date = new Date()
+): AnnouncementValidationResult {
+  const error = validateChatMessage(input.message);
+  if (error) {
+    return { valid: false, error };
+  }
+
+  const sendAt = new Date(typeof input.sendAt === 'string' || typeof input.sendAt === 'number' ? input.sendAt : NaN);
+  if (isNaN(sendAt.getTime())) {
+    return { valid: false, error: 'sendAt must be a valid date' };
+  }
+  if (sendAt.getTime() < now.getTime() - 60 * 1000) {
+    return { valid: false, error: 'sendAt must be in the future' };
+  }
+  if (sendAt.getTime() > now.getTime() + 30 * 24 * 60 * 60 * 1000) {
+    return { valid: false, error: 'Announcements can be scheduled at most 30 days ahead' };
+  }
+
+  return {
+    valid: true,
+    announcement: {
+      message: (input.message as string).trim(),
+      sendAt,
+    },
+  };
+}
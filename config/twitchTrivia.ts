@@ -0,0 +1,269 @@
+/**
+ * Twitch Trivia Configuration
+ *
+ * The streamer or a chat moderator starts a round with !trivia. The bot asks a question about the
+ * channel's current game, taken from the streamer's own question bank or generated by AI (and
+ * cached per game), and chat answers by typing in chat until the answer window closes. Viewers who
+ * answer correctly earn points on the channel's leaderboard (!top); the first correct answer earns
+ * a bonus.
+ *
+ * The same settings turn on !predict predictions (see config/twitchPredictions.ts), which award
+ * points on the same leaderboard.
+ */
+
+import { MIN_PREDICTION_WINDOW_SECONDS, MAX_PREDICTION_WINDOW_SECONDS } from './twitchPredictions';
+
+/**
+ * bank: only the streamer's questions
+ * ai: only AI-generated questions about the current game
+ * mixed: the streamer's questions for the current game first, then AI-generated ones
+ */
+export type TriviaQuestionSource = 'bank' | 'ai' | 'mixed';
+
+export const TRIVIA_QUESTION_SOURCES: TriviaQuestionSource[] = ['bank', 'ai', 'mixed'];
+
+/**
+ * A question in a streamer's trivia bank
+ */
+export interface TriviaBankQuestion {
+  /** Stable identifier (generated on creation) */
+  id: string;
+
+  question: string;
+
+  /** Accepted answers; the first is the one announced */
+  answers: string[];
+
+  /** Only ask this question while playing this game (any game if unset) */
+  gameTitle?: string;
+}
+
+export interface TwitchTriviaSettings {
+  /** Allow !trivia rounds in the channel */
+  enabled: boolean;
+
+  /** Where questions come from */
+  source: TriviaQuestionSource;
+
+  /** Seconds chat has to answer */
+  answerWindowSeconds: number;
+
+  /** Points for each correct answer */
+  points: number;
+
+  /** Extra points for the first correct answer */
+  firstAnswerBonus: number;
+
+  /** The streamer's own questions */
+  questions: TriviaBankQuestion[];
+
+  /** Allow !predict predictions in the channel */
+  predictionsEnabled: boolean;
+
+  /** Seconds chat has to vote on a prediction */
+  predictionWindowSeconds: number;
+
+  /** Points for calling a prediction's outcome */
+  predictionPoints: number;
+}
+
+export const defaultTriviaSettings: TwitchTriviaSettings = {
+  enabled: false,
+  source: 'mixed',
+  answerWindowSeconds: 30,
+  points: 10,
+  firstAnswerBonus: 5,
+  questions: [],
+  predictionsEnabled: false,
+  predictionWindowSeconds: 60,
+  predictionPoints: 10,
+};
+
+export const MIN_ANSWER_WINDOW_SECONDS = 10;
+export const MAX_ANSWER_WINDOW_SECONDS = 120;
+export const MAX_TRIVIA_POINTS = 1000;
+export const MAX_BANK_QUESTIONS = 200;
+export const MAX_TRIVIA_QUESTION_LENGTH = 300;
+export const MAX_TRIVIA_ANSWER_LENGTH = 100;
+export const MAX_ANSWERS_PER_QUESTION = 5;
+
+/** A channel is not asked the same question again within this many rounds */
+export const RECENT_QUESTION_MEMORY = 25;
+
+/** AI questions generated per request, and cached for every channel playing the game */
+export const AI_TRIVIA_BATCH_SIZE = 10;
+
+/** Guesses much longer than the answer are not checked, so listing every guess in one line does not win */
+const MAX_EXTRA_GUESS_LENGTH = 20;
+
+/**
+ * Reduce an answer or guess to lowercase words without punctuation or a leading article
+ */
+export function normalizeTriviaAnswer(text: string): string {
+  return text
+    .toLowerCase()
+    .replace(/[^a-z0-9\s]/g, ' ')
+    .replace(/\s+/g, ' ')
+    .trim()
+    .replace(/^(the|a|an) /, '');
+}
+
+/**
+ * Whether a chat message answers the question: it is one of the accepted answers, or contains
+ * one as whole words ("is it malenia" for "Malenia")
+ */
+export function isCorrectTriviaAnswer(guess: string, answers: string[]): boolean {
+  const normalizedGuess = normalizeTriviaAnswer(guess);
+  if (!normalizedGuess) return false;
+
+  return answers.some(answer => {
+    const normalizedAnswer = normalizeTriviaAnswer(answer);
+    if (!normalizedAnswer) return false;
+    if (normalizedGuess === normalizedAnswer) return true;
+    if (normalizedGuess.length > normalizedAnswer.length + MAX_EXTRA_GUESS_LENGTH) return false;
+    return ` ${normalizedGuess} `.indexOf(` ${normalizedAnswer} `) !== -1;
+  });
+}
+
+/**
+ * Key AI-generated questions are cached under, so spelling and case variants share them
+ */
+export function getTriviaGameKey(gameTitle: string): string {
+  return gameTitle.toLowerCase().replace(/[^a-z0-9]+/g, ' ').trim();
+}
+
+export interface TriviaSettingsValidationResult {
+  valid: boolean;
+  error?: string;
+  settings?: Omit<TwitchTriviaSettings, 'questions'>;
+}
+
+export interface TriviaQuestionValidationResult {
+  valid: boolean;
+  error?: string;
+  question?: Omit<TriviaBankQuestion, 'id'>;
+}
+
+function validateInteger(
+  value: unknown,
+  fallback: number,
+  min: number,
+  max: number
+): number | null {
+  const number = value === undefined ? fallback : Number(value);
+  return Number.isInteger(number) && number >= min && number <= max ? number : null;
+}
+
+/**
+ * Validate trivia settings submitted by a streamer (the question bank is edited separately)
+ */
+export function validateTriviaSettings(
+  input: Partial<TwitchTriviaSettings>,
+  current: TwitchTriviaSettings = defaultTriviaSettings
+): TriviaSettingsValidationResult {
+  const source = input.source === undefined ? current.source : input.source;
+  if (TRIVIA_QUESTION_SOURCES.indexOf(source) === -1) {
+    return { valid: false, error: `source must be one of: ${TRIVIA_QUESTION_SOURCES.join(', ')}` };
+  }
+
+  const answerWindowSeconds = validateInteger(
+    input.answerWindowSeconds,
+    current.answerWindowSeconds,
+    MIN_ANSWER_WINDOW_SECONDS,
+    MAX_ANSWER_WINDOW_SECONDS
+  );
+  if (answerWindowSeconds === null) {
+    return {
+      valid: false,
+      error: `Answer window must be between ${MIN_ANSWER_WINDOW_SECONDS} and ${MAX_ANSWER_WINDOW_SECONDS} seconds`
+    };
+  }
+
+  const points = validateInteger(input.points, current.points, 1, MAX_TRIVIA_POINTS);
+  if (points === null) {
+    return { valid: false, error: `Points must be between 1 and ${MAX_TRIVIA_POINTS}` };
+  }
+
+  const firstAnswerBonus = validateInteger(input.firstAnswerBonus, current.firstAnswerBonus, 0, MAX_TRIVIA_POINTS);
+  if (firstAnswerBonus === null) {
+    return { valid: false, error: `First answer bonus must be between 0 and ${MAX_TRIVIA_POINTS}` };
+  }
+
+  const predictionWindowSeconds = validateInteger(
+    input.predictionWindowSeconds,
+    current.predictionWindowSeconds,
+    MIN_PREDICTION_WINDOW_SECONDS,
+    MAX_PREDICTION_WINDOW_SECONDS
+  );
+  if (predictionWindowSeconds === null) {
+    return {
+      valid: false,
+      error: `Voting time must be between ${MIN_PREDICTION_WINDOW_SECONDS} and ${MAX_PREDICTION_WINDOW_SECONDS} seconds`
+    };
+  }
+
+  const predictionPoints = validateInteger(input.predictionPoints, current.predictionPoints, 1, MAX_TRIVIA_POINTS);
+  if (predictionPoints === null) {
+    return { valid: false, error: `Prediction points must be between 1 and ${MAX_TRIVIA_POINTS}` };
+  }
+
+  return {
+    valid: true,
+    settings: {
+      enabled: input.enabled === undefined ? current.enabled : Boolean(input.enabled),
+      source,
+      answerWindowSeconds,
+      points,
+      firstAnswerBonus,
+      predictionsEnabled: input.predictionsEnabled === undefined ? current.predictionsEnabled : Boolean(input.predictionsEnabled),
+      predictionWindowSeconds,
+      predictionPoints,
+    },
+  };
+}
+
+/**
+ * Validate a question a streamer adds to their trivia bank
+ */
+export function validateTriviaQuestion(input: {
+  question?: unknown;
+  answers?: unknown;
+  gameTitle?: unknown;
+}): TriviaQuestionValidationResult {
+  const question = typeof input.question === 'string' ? input.question.trim() : '';
+  if (!question || question.length > MAX_TRIVIA_QUESTION_LENGTH) {
+    return { valid: false, error: `Questions must be 1-${MAX_TRIVIA_QUESTION_LENGTH} characters` };
+  }
+  // Twitch treats messages starting with / or . as chat commands (/ban, /mod, ...)
+  if (/^[/.]/.test(question)) {
+    return { valid: false, error: 'Questions cannot start with / or .' };
+  }
+
+  if (!Array.isArray(input.answers) || input.answers.length === 0) {
+    return { valid: false, error: 'Questions need at least one accepted answer' };
+  }
+  if (input.answers.length > MAX_ANSWERS_PER_QUESTION) {
+    return { valid: false, error: `Questions can have at most ${MAX_ANSWERS_PER_QUESTION} accepted answers` };
+  }
+  const answers: string[] = [];
+  for (const answer of input.answers) {
+    const trimmed = typeof answer === 'string' ? answer.trim() : '';
+    if (!normalizeTriviaAnswer(trimmed) || trimmed.length > MAX_TRIVIA_ANSWER_LENGTH) {
+      return { valid: false, error: `Answers must be 1-${MAX_TRIVIA_ANSWER_LENGTH} characters, with a letter or number` };
+    }
+    answers.push(trimmed);
+  }
+
+  let gameTitle: string | undefined;
+  if (input.gameTitle !== undefined && input.gameTitle !== null && input.gameTitle !== '') {
+    gameTitle = typeof input.gameTitle === 'string' ? input.gameTitle.trim() : '';
+    if (!gameTitle || gameTitle.length > 100) {
+      return { valid: false, error: 'Game title must be 1-100 characters' };
+    }
+  }
+
+  return {
+    valid: true,
+    question: { question, answers, gameTitle },
+  };
+}
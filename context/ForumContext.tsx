@@ -2,7 +2,7 @@
 
 import React, { createContext, useContext, useState, useCallback } from "react";
 import axios from "axios";
-import { Forum, ForumContextType, ForumFilters } from "../types";
+import { Forum, ForumContextType, ForumFilters, ForumPost } from "../types";
 import { trackForumCreated } from "../utils/analytics";
 
 const ForumContext = createContext<ForumContextType | undefined>(undefined);
@@ -19,6 +19,45 @@ export function ForumProvider({ children }: { children: React.ReactNode }) {
     pages: number;
   } | null>(null);
 
+  // Posts are loaded a page at a time, so mutations patch the loaded posts instead of
+  // replacing the whole forum
+  const updateLoadedPosts = useCallback(
+    (
+      forumId: string,
+      update: (posts: ForumPost[]) => ForumPost[],
+      metadata?: Partial<Forum["metadata"]>
+    ) => {
+      setCurrentForum((prev) =>
+        prev && (prev.forumId === forumId || prev._id === forumId)
+          ? {
+              ...prev,
+              posts: update(prev.posts || []),
+              metadata: metadata ? { ...prev.metadata, ...metadata } : prev.metadata,
+            }
+          : prev
+      );
+      if (metadata) {
+        setForums((prevForums) =>
+          prevForums.map((f) =>
+            f.forumId === forumId || f._id === forumId
+              ? { ...f, metadata: { ...f.metadata, ...metadata } }
+              : f
+          )
+        );
+      }
+    },
+    []
+  );
+
+  const replaceLoadedPost = useCallback(
+    (forumId: string, post: ForumPost) => {
+      updateLoadedPosts(forumId, (posts) =>
+        posts.map((p) => (p._id === post._id ? post : p))
+      );
+    },
+    [updateLoadedPosts]
+  );
+
   const fetchForums = useCallback(async (page: number, limit: number, filters?: ForumFilters) => {
     try {
       setLoading(true);
@@ -230,13 +269,12 @@ export function ForumProvider({ children }: { children: React.ReactNode }) {
           }
         );
 
-        const updatedForum = response.data.forum;
-        setForums((prevForums) =>
-          prevForums.map((f) => (f._id === forumId ? updatedForum : f))
+        const { post, forum: updatedForum } = response.data;
+        updateLoadedPosts(
+          forumId,
+          (posts) => [...posts, post],
+          updatedForum?.metadata
         );
-        if (currentForum?._id === forumId) {
-          setCurrentForum(updatedForum);
-        }
         options?.onStatus?.("success");
       } catch (err: any) {
         // Check for content policy violation - show user-friendly message
@@ -289,7 +327,7 @@ export function ForumProvider({ children }: { children: React.ReactNode }) {
         setLoading(false);
       }
     },
-    [currentForum]
+    [updateLoadedPosts]
   );
 
   const editPost = useCallback(
@@ -396,13 +434,7 @@ export function ForumProvider({ children }: { children: React.ReactNode }) {
           }
         );
 
-        const updatedForum = response.data.forum;
-        setForums((prevForums) =>
-          prevForums.map((f) => (f._id === forumId ? updatedForum : f))
-        );
-        if (currentForum?._id === forumId) {
-          setCurrentForum(updatedForum);
-        }
+        replaceLoadedPost(forumId, response.data.post);
       } catch (err: any) {
         setError(
           err.response?.data?.error || err.message || "Failed to edit post"
@@ -412,7 +444,7 @@ export function ForumProvider({ children }: { children: React.ReactNode }) {
         setLoading(false);
       }
     },
-    [currentForum]
+    [replaceLoadedPost]
   );
 
   const deletePost = useCallback(
@@ -433,13 +465,11 @@ export function ForumProvider({ children }: { children: React.ReactNode }) {
           }
         );
 
-        const updatedForum = response.data.forum;
-        setForums((prevForums) =>
-          prevForums.map((f) => (f._id === forumId ? updatedForum : f))
+        updateLoadedPosts(
+          forumId,
+          (posts) => posts.filter((p) => p._id !== postId),
+          response.data.forum?.metadata
         );
-        if (currentForum?._id === forumId) {
-          setCurrentForum(updatedForum);
-        }
       } catch (err: any) {
         setError(err.message || "Failed to delete post");
         throw err;
@@ -447,7 +477,7 @@ export function ForumProvider({ children }: { children: React.ReactNode }) {
         setLoading(false);
       }
     },
-    [currentForum]
+    [updateLoadedPosts]
   );
 
   const likePost = useCallback(
@@ -470,13 +500,7 @@ export function ForumProvider({ children }: { children: React.ReactNode }) {
           }
         );
 
-        const updatedForum = response.data.forum;
-        setForums((prevForums) =>
-          prevForums.map((f) => (f._id === forumId ? updatedForum : f))
-        );
-        if (currentForum?._id === forumId) {
-          setCurrentForum(updatedForum);
-        }
+        replaceLoadedPost(forumId, response.data.post);
       } catch (err: any) {
         setError(err.message || "Failed to like post");
         throw err;
@@ -484,7 +508,7 @@ export function ForumProvider({ children }: { children: React.ReactNode }) {
         setLoading(false);
       }
     },
-    [currentForum]
+    [replaceLoadedPost]
   );
 
   const reactToPost = useCallback(
@@ -508,15 +532,7 @@ export function ForumProvider({ children }: { children: React.ReactNode }) {
           }
         );
 
-        const updatedForum = response.data.forum;
-        if (updatedForum) {
-          setForums((prevForums) =>
-            prevForums.map((f) => (f.forumId === forumId ? updatedForum : f))
-          );
-          if (currentForum?.forumId === forumId) {
-            setCurrentForum(updatedForum);
-          }
-        }
+        replaceLoadedPost(forumId, response.data.post);
       } catch (err: any) {
         setError(err.message || "Failed to react to post");
         throw err;
@@ -524,6 +540,46 @@ export function ForumProvider({ children }: { children: React.ReactNode }) {
         setLoading(false);
       }
     },
+    [replaceLoadedPost]
+  );
+
+  const loadMorePosts = useCallback(
+    async (forumId: string) => {
+      const cursor = currentForum?.postsPagination?.nextCursor;
+      if (!cursor) return;
+      try {
+        setLoading(true);
+        const params = new URLSearchParams({
+          forumId,
+          cursor,
+          username: localStorage.getItem("username") || "test-user",
+        });
+        const response = await axios.get(`/api/forumPosts?${params.toString()}`);
+        const { posts: nextPosts, pagination: nextPagination } = response.data;
+        setCurrentForum((prev) => {
+          if (!prev || (prev.forumId !== forumId && prev._id !== forumId)) {
+            return prev;
+          }
+          // Skip posts already loaded (e.g. added locally since the last page)
+          const loadedIds = new Set((prev.posts || []).map((p) => p._id));
+          return {
+            ...prev,
+            posts: [
+              ...(prev.posts || []),
+              ...nextPosts.filter((p: ForumPost) => !loadedIds.has(p._id)),
+            ],
+            postsPagination: nextPagination,
+          };
+        });
+      } catch (err: any) {
+        setError(
+          err.response?.data?.error || err.message || "Failed to load more posts"
+        );
+        throw err;
+      } finally {
+        setLoading(false);
+      }
+    },
     [currentForum]
   );
 
@@ -552,7 +608,10 @@ export function ForumProvider({ children }: { children: React.ReactNode }) {
           prevForums.map((f) => (f.forumId === forumId ? updatedForum : f))
         );
         if (currentForum?.forumId === forumId) {
-          setCurrentForum(updatedForum);
+          // Keep the posts already loaded; the response only carries forum fields
+          setCurrentForum((prev) =>
+            prev ? { ...updatedForum, posts: prev.posts, postsPagination: prev.postsPagination } : updatedForum
+          );
         }
         return true;
       } catch (err: any) {
@@ -594,7 +653,9 @@ export function ForumProvider({ children }: { children: React.ReactNode }) {
             prevForums.map((f) => (f.forumId === forumId ? updatedForum : f))
           );
           if (currentForum?.forumId === forumId) {
-            setCurrentForum(updatedForum);
+            setCurrentForum((prev) =>
+              prev ? { ...updatedForum, posts: prev.posts, postsPagination: prev.postsPagination } : updatedForum
+            );
           }
         }
         return updatedForum ?? null;
@@ -626,6 +687,7 @@ export function ForumProvider({ children }: { children: React.ReactNode }) {
     deletePost,
     likePost,
     reactToPost,
+    loadMorePosts,
     updateForumUsers,
     updateForumStatus,
     setCurrentForum,
@@ -2,12 +2,14 @@ import React from "react";
 import { useEffect, useRef } from "react";
 import { io, Socket } from "socket.io-client";
 import { toast } from "react-hot-toast";
-import { AchievementData } from "../types";
+import { AchievementData, ChallengeCompletedData, ForumReplyNotificationData } from "../types";
+import { refreshAccessToken } from "../utils/tokenRefresh";
 
 const useSocket = (url: string): Socket => {
   const { current: socket } = useRef<Socket>(
     io(url, {
-      // Use default Socket.IO configuration
+      // Send the access token cookie with the handshake (the server rejects unauthenticated sockets)
+      withCredentials: true,
     })
   );
 
@@ -21,9 +23,29 @@ const useSocket = (url: string): Socket => {
       console.log("❌ Disconnected from socket.io server:", reason);
     });
 
-    socket.on("connect_error", (error) => {
+    socket.on("connect_error", async (error) => {
       console.warn("⚠️ Socket.IO connection error:", error.message);
       console.log("Error details:", error);
+
+      // Access tokens are short-lived: refresh once and reconnect with the new cookie
+      if (error.message === "Token expired" && await refreshAccessToken()) {
+        socket.connect();
+      }
+    });
+
+    // Server-side events are sent only to this user's room, so no filtering is needed here
+    socket.on("challengeCompleted", (data: ChallengeCompletedData) => {
+      toast.success(data.message, {
+        duration: 4000,
+        position: "top-right",
+      });
+    });
+
+    socket.on("forumReply", (data: ForumReplyNotificationData) => {
+      toast(`💬 ${data.message}\n"${data.preview}"`, {
+        duration: 5000,
+        position: "top-right",
+      });
     });
 
     socket.on("achievementEarned", (data: AchievementData) => {
@@ -106,6 +128,8 @@ const useSocket = (url: string): Socket => {
       socket.off("disconnect");
       socket.off("connect_error");
       socket.off("achievementEarned");
+      socket.off("challengeCompleted");
+      socket.off("forumReply");
     };
   }, [socket]);
 
@@ -1,6 +1,10 @@
 import type { NextApiRequest, NextApiResponse } from 'next';
+import mongoose from 'mongoose';
 import { verifyAccessToken, extractTokenFromHeader } from '../utils/jwt';
 import { getTokenFromCookies, ACCESS_TOKEN_COOKIE } from '../utils/session';
+import { connectToWingmanDB } from '../utils/databaseConnections';
+import User from '../models/User';
+import { requirePermission, AdminPermission } from '../utils/adminAccess';
 
 export interface AuthenticatedRequest extends NextApiRequest {
   userId?: string;
@@ -8,6 +12,44 @@ export interface AuthenticatedRequest extends NextApiRequest {
   userEmail?: string;
 }
 
+/**
+ * Dev-only impersonation
+ *
+ * Identity always comes from the session. For local testing without signing in, set
+ * ALLOW_DEV_IMPERSONATION=true in development and send the username of an existing user in the
+ * x-dev-impersonate header. Ignored in every other environment.
+ */
+export const DEV_IMPERSONATION_HEADER = 'x-dev-impersonate';
+
+export const isDevImpersonationEnabled = (): boolean =>
+  process.env.NODE_ENV === 'development' && process.env.ALLOW_DEV_IMPERSONATION === 'true';
+
+const resolveDevImpersonation = async (
+  req: AuthenticatedRequest
+): Promise<{ userId: string; username: string; userEmail?: string } | null> => {
+  if (!isDevImpersonationEnabled()) {
+    return null;
+  }
+
+  const header = req.headers[DEV_IMPERSONATION_HEADER];
+  const username = (Array.isArray(header) ? header[0] : header)?.trim();
+  if (!username) {
+    return null;
+  }
+
+  if (mongoose.connection.readyState !== 1) {
+    await connectToWingmanDB();
+  }
+  const user = await User.findOne({ username }).select('userId username email').lean() as any;
+  if (!user) {
+    console.warn(`[Auth] Dev impersonation ignored: user "${username}" not found`);
+    return null;
+  }
+
+  console.warn(`[Auth] Dev impersonation: ${req.method} ${req.url} as ${user.username}`);
+  return { userId: user.userId, username: user.username, userEmail: user.email };
+};
+
 /**
  * Authentication middleware to protect API routes
  * Verifies JWT token from cookies or Authorization header
@@ -17,6 +59,14 @@ export const requireAuth = async (
   res: NextApiResponse
 ): Promise<{ authenticated: boolean; userId?: string; username?: string; userEmail?: string }> => {
   try {
+    const impersonated = await resolveDevImpersonation(req);
+    if (impersonated) {
+      req.userId = impersonated.userId;
+      req.username = impersonated.username;
+      req.userEmail = impersonated.userEmail;
+      return { authenticated: true, ...impersonated };
+    }
+
     // Try to get token from cookies first (preferred method)
     let token = getTokenFromCookies(req.headers.cookie, ACCESS_TOKEN_COOKIE);
 
@@ -87,6 +137,37 @@ export const withAuth = (
   };
 };
 
+/**
+ * Middleware wrapper for admin-only API route handlers (operator and maintenance tools)
+ * Usage: export default withPermission(ADMIN_ACCESS_LEVELS.MANAGE_USERS, handler)
+ */
+export const withPermission = (
+  permission: AdminPermission,
+  handler: (req: AuthenticatedRequest, res: NextApiResponse) => Promise<unknown>
+) => {
+  return async (req: AuthenticatedRequest, res: NextApiResponse) => {
+    const authResult = await requireAuth(req, res);
+
+    if (!authResult.authenticated || !authResult.username) {
+      return res.status(401).json({
+        error: 'Authentication required',
+        message: 'Please sign in to access this resource',
+      });
+    }
+
+    try {
+      await requirePermission(authResult.username, permission);
+    } catch (error) {
+      return res.status(403).json({
+        error: 'Access denied',
+        message: error instanceof Error ? error.message : 'Access denied',
+      });
+    }
+
+    return handler(req, res);
+  };
+};
+
 /**
  * Optional authentication - doesn't fail if not authenticated
  * Useful for routes that work differently for authenticated vs anonymous users
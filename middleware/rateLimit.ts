@@ -1,5 +1,6 @@
 import type { NextApiRequest, NextApiResponse } from 'next';
-import rateLimit, { RateLimitRequestHandler } from 'express-rate-limit';
+import rateLimit, { RateLimitRequestHandler, Store, Options, ClientRateLimitInfo } from 'express-rate-limit';
+import { getSharedStore } from '../utils/sharedStore';
 
 // Next.js compatible rate limiter wrapper
 export const applyRateLimit = async (
@@ -21,8 +22,40 @@ export const applyRateLimit = async (
   });
 };
 
+/**
+ * express-rate-limit store on the shared store (utils/sharedStore.ts), so a limit holds across
+ * every instance when Redis is configured
+ */
+class SharedRateLimitStore implements Store {
+  prefix: string;
+  localKeys = false; // Only used for double-count checks; not known until the store is first used
+  private windowMs = 15 * 60 * 1000;
+
+  constructor(name: string) {
+    this.prefix = `ratelimit:${name}:`;
+  }
+
+  init(options: Options): void {
+    this.windowMs = options.windowMs;
+  }
+
+  async increment(key: string): Promise<ClientRateLimitInfo> {
+    const state = await getSharedStore().increment(this.prefix + key, this.windowMs);
+    return { totalHits: state.count, resetTime: new Date(state.resetAt) };
+  }
+
+  async decrement(key: string): Promise<void> {
+    await getSharedStore().increment(this.prefix + key, this.windowMs, -1);
+  }
+
+  async resetKey(key: string): Promise<void> {
+    await getSharedStore().delete(this.prefix + key);
+  }
+}
+
 // General purpose rate limiter
 const createRateLimiter = (options?: {
+  name?: string; // Keeps each limiter's counters separate in the shared store
   windowMs?: number;
   max?: number;
   message?: string;
@@ -33,6 +66,8 @@ const createRateLimiter = (options?: {
     message: { error: options?.message || 'Too many requests, please try again later' },
     standardHeaders: true,
     legacyHeaders: false,
+    store: new SharedRateLimitStore(options?.name || 'api'),
+    passOnStoreError: true, // Allow requests rather than fail them if the store is unreachable
   });
 
   return limiter;
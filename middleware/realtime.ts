@@ -1,25 +1,117 @@
-import { Server } from "socket.io";
+import { Server, Socket } from "socket.io";
 import { Server as HttpServer } from "http";
+import { verifyAccessToken, extractTokenFromHeader } from "../utils/jwt";
+import { getTokenFromCookies, ACCESS_TOKEN_COOKIE } from "../utils/session";
+import type { AchievementData, ChallengeCompletedData, ForumReplyNotificationData, NotificationData } from "../types";
 
 let io: Server;
 
+// server.ts and the Next.js API bundles load separate copies of this module,
+// so the running server is also shared through globalThis for getIO()/notifyUser()
+const socketGlobal = globalThis as typeof globalThis & { wingmanSocketIO?: Server };
+
+/**
+ * Events that can be pushed to a single user with notifyUser()
+ * Event name → payload received by the client
+ */
+export interface UserNotificationEvents {
+  achievementEarned: AchievementData;
+  challengeCompleted: ChallengeCompletedData;
+  forumReply: ForumReplyNotificationData;
+  notification: NotificationData; // Every stored notification (see utils/notifications.ts)
+}
+
+// Authenticated user attached to each socket during the handshake (socket.data.user)
+export interface SocketUserData {
+  userId: string;
+  username: string;
+}
+
+// Every authenticated socket joins its user's room, so all of a user's tabs receive their notifications
+const userRoom = (username: string) => `user:${username}`;
+
+/**
+ * Origins allowed to open a socket
+ * Same rules as the API CORS headers (middleware/securityHeaders.ts): ALLOWED_ORIGINS or the app URL
+ * in production, any origin in development
+ */
+const getAllowedOrigins = (): string[] | boolean => {
+  if (process.env.NODE_ENV !== "production") {
+    return true;
+  }
+  const appUrl = process.env.NEXT_PUBLIC_APP_URL || process.env.APP_URL || "https://assistant.videogamewingman.com/";
+  const origins = process.env.ALLOWED_ORIGINS?.split(",") || [appUrl];
+  // Browsers send Origin without a trailing slash
+  return origins.map(origin => origin.trim().replace(/\/+$/, ""));
+};
+
+/**
+ * Authenticate a socket handshake with the same access token the API uses
+ * Token sources, in order: access_token cookie, `auth.token` from the client, Authorization header
+ */
+const authenticateSocket = async (socket: Socket, next: (err?: Error) => void) => {
+  const token =
+    getTokenFromCookies(socket.handshake.headers.cookie, ACCESS_TOKEN_COOKIE) ||
+    (typeof socket.handshake.auth?.token === "string" ? socket.handshake.auth.token : null) ||
+    extractTokenFromHeader(socket.handshake.headers.authorization);
+
+  if (!token) {
+    return next(new Error("Authentication required"));
+  }
+
+  try {
+    const decoded = await verifyAccessToken(token);
+    const user: SocketUserData = { userId: decoded.userId, username: decoded.username };
+    socket.data.user = user;
+    next();
+  } catch (error) {
+    // Expired tokens are refreshed by the client, which then reconnects
+    next(new Error(error instanceof Error && error.message === "Token expired" ? "Token expired" : "Authentication required"));
+  }
+};
+
 // Initialize the Socket.IO server
 const initSocket = (server: HttpServer): void => {
   io = new Server(server, {
     cors: {
-      origin: "*",
-      methods: ["GET", "POST"]
+      origin: getAllowedOrigins(),
+      methods: ["GET", "POST"],
+      credentials: true // Access token cookie is sent with the handshake
     }
   });
 
+  socketGlobal.wingmanSocketIO = io;
+
+  io.use(authenticateSocket);
+
   io.on("connection", (socket) => {
     // console.log(`✅ User connected via ${socket.conn.transport.name}`); // Commented out for production
+    const user = socket.data.user as SocketUserData;
+    socket.join(userRoom(user.username));
     
     // Log when transport upgrades
     socket.conn.on("upgrade", () => {
       // console.log(`🔄 Transport upgraded to: ${socket.conn.transport.name}`); // Commented out for production
     });
 
+    // Streaming assistant: answers are emitted back as assistant:start/delta/done/error events
+    // tagged with the client's requestId (see utils/assistantStream.ts)
+    socket.on("assistant:ask", async (payload) => {
+      const requestId = typeof payload?.requestId === "string" ? payload.requestId : `ask_${Date.now()}`;
+      try {
+        // Imported lazily: the assistant route imports this module for getIO()
+        const { handleAssistantSocketRequest } = await import("../pages/api/assistant");
+        await handleAssistantSocketRequest(socket, requestId, payload);
+      } catch (error) {
+        console.error("Error handling assistant:ask:", error);
+        socket.emit("assistant:error", {
+          requestId,
+          status: 500,
+          error: "Internal Server Error"
+        });
+      }
+    });
+
     socket.on("disconnect", (reason) => {
       // console.log(`❌ User disconnected: ${reason}`); // Commented out for production
     });
@@ -30,10 +122,34 @@ const initSocket = (server: HttpServer): void => {
 
 // Get the Socket.IO server instance
 const getIO = (): Server => {
-  if (!io) {
+  const server = io || socketGlobal.wingmanSocketIO;
+  if (!server) {
     throw new Error("Socket.IO not initialized");
   }
-  return io;
+  return server;
+};
+
+/**
+ * Push an event to every connected socket of one user
+ * Returns false when Socket.IO isn't running (e.g. API routes served without server.ts),
+ * so callers can treat realtime delivery as best-effort.
+ */
+const notifyUser = <E extends keyof UserNotificationEvents>(
+  username: string,
+  event: E,
+  payload: UserNotificationEvents[E]
+): boolean => {
+  const server = io || socketGlobal.wingmanSocketIO;
+  if (!server) {
+    return false;
+  }
+  try {
+    server.to(userRoom(username)).emit(event, payload);
+    return true;
+  } catch (error) {
+    console.error(`Error notifying ${username} of ${event}:`, error);
+    return false;
+  }
 };
 
-export { initSocket, getIO };
\ No newline at end of file
+export { initSocket, getIO, notifyUser };
\ No newline at end of file
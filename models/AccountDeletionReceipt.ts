@@ -0,0 +1,64 @@
+import mongoose, { Document, Schema } from 'mongoose';
+
+/**
+ * Account Deletion Receipt Model
+ *
+ * Proof that a user's account was purged (see utils/accountDeletion.ts). Holds no personal
+ * data: the former account is identified only by a SHA-256 hash of its userId, so support can
+ * confirm a deletion when the user quotes their receipt ID.
+ */
+export interface IAccountDeletionReceipt extends Document {
+  receiptId: string; // Sent to the user in the deletion receipt email
+  userIdHash: string; // SHA-256 of the deleted user's userId
+  requestedAt?: Date; // When the user asked for deletion
+  purgedAt: Date;
+  summary: Record<string, number>; // Records removed or anonymized, by type
+  failedSteps?: string[]; // Steps that failed and may need manual follow-up
+  receiptEmailSent: boolean;
+  createdAt?: Date;
+}
+
+const AccountDeletionReceiptSchema = new Schema<IAccountDeletionReceipt>(
+  {
+    receiptId: {
+      type: String,
+      required: true,
+      unique: true,
+    },
+    userIdHash: {
+      type: String,
+      required: true,
+      index: true,
+    },
+    requestedAt: {
+      type: Date,
+      required: false,
+    },
+    purgedAt: {
+      type: Date,
+      required: true,
+    },
+    summary: {
+      type: Schema.Types.Mixed,
+      default: {},
+    },
+    failedSteps: {
+      type: [String],
+      default: undefined,
+    },
+    receiptEmailSent: {
+      type: Boolean,
+      default: false,
+    },
+  },
+  {
+    collection: 'accountdeletionreceipts',
+    timestamps: { createdAt: true, updatedAt: false },
+  }
+);
+
+const AccountDeletionReceipt =
+  mongoose.models.AccountDeletionReceipt ||
+  mongoose.model<IAccountDeletionReceipt>('AccountDeletionReceipt', AccountDeletionReceiptSchema);
+
+export default AccountDeletionReceipt;
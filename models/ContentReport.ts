@@ -0,0 +1,107 @@
+import mongoose, { Document, Schema } from 'mongoose';
+
+export const REPORT_TARGET_TYPES = ['post', 'forum'] as const;
+export type ReportTargetType = typeof REPORT_TARGET_TYPES[number];
+
+export const REPORT_REASONS = [
+  'spam',
+  'harassment',
+  'hate_speech',
+  'inappropriate',
+  'spoilers',
+  'off_topic',
+  'other'
+] as const;
+export type ReportReason = typeof REPORT_REASONS[number];
+
+export const REPORT_STATUSES = ['open', 'resolved', 'dismissed'] as const;
+export type ReportStatus = typeof REPORT_STATUSES[number];
+
+/**
+ * Content Report Model
+ *
+ * One document per user report of a forum post or a forum (topic). Reports for the same
+ * target are grouped into one item in the forum moderation queue and are closed together
+ * when a moderator acts on the target (see utils/forumModeration.ts).
+ */
+export interface IContentReport extends Document {
+  targetType: ReportTargetType;
+  forumId: string; // Forum.forumId (the reported forum, or the forum containing the reported post)
+  postId?: string; // ForumPost _id when targetType is 'post'
+  reportedUser: string; // Post author or forum creator
+  reportedBy: string; // Username of the reporter
+  reason: ReportReason;
+  details?: string;
+  status: ReportStatus;
+  resolvedBy?: string;
+  resolvedAt?: Date;
+  resolution?: string; // Moderator action that closed the report
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const ContentReportSchema = new Schema<IContentReport>({
+  targetType: {
+    type: String,
+    enum: REPORT_TARGET_TYPES,
+    required: true
+  },
+  forumId: {
+    type: String,
+    required: true
+  },
+  postId: {
+    type: String,
+    required: false
+  },
+  reportedUser: {
+    type: String,
+    required: true
+  },
+  reportedBy: {
+    type: String,
+    required: true
+  },
+  reason: {
+    type: String,
+    enum: REPORT_REASONS,
+    required: true
+  },
+  details: {
+    type: String,
+    required: false,
+    maxlength: 1000,
+    trim: true
+  },
+  status: {
+    type: String,
+    enum: REPORT_STATUSES,
+    default: 'open'
+  },
+  resolvedBy: {
+    type: String,
+    required: false
+  },
+  resolvedAt: {
+    type: Date,
+    required: false
+  },
+  resolution: {
+    type: String,
+    required: false
+  }
+}, {
+  timestamps: true,
+  collection: 'contentreports'
+});
+
+// Moderation queue: open reports grouped by target
+ContentReportSchema.index({ status: 1, forumId: 1, postId: 1 });
+// One open report per user per target
+ContentReportSchema.index(
+  { reportedBy: 1, targetType: 1, forumId: 1, postId: 1 },
+  { unique: true, partialFilterExpression: { status: 'open' } }
+);
+ContentReportSchema.index({ reportedUser: 1, createdAt: -1 });
+
+export default mongoose.models.ContentReport || mongoose.model<IContentReport>('ContentReport', ContentReportSchema);
@@ -0,0 +1,62 @@
+import mongoose, { Document, Schema } from 'mongoose';
+
+/**
+ * Conversation Thread Model
+ *
+ * Groups related Question documents so follow-up questions can be answered
+ * with the earlier turns of the same conversation as context.
+ * Questions reference a thread through Question.threadId.
+ */
+export interface IConversationThread extends Document {
+  threadId: string;
+  username: string;
+  title: string;
+  questionCount: number;
+  lastMessageAt: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const ConversationThreadSchema = new Schema<IConversationThread>({
+  threadId: {
+    type: String,
+    required: true,
+    unique: true,
+    index: true
+  },
+  username: {
+    type: String,
+    required: true,
+    index: true
+  },
+  title: {
+    type: String,
+    required: true,
+    maxlength: 120,
+    trim: true
+  },
+  questionCount: {
+    type: Number,
+    default: 0
+  },
+  lastMessageAt: {
+    type: Date,
+    default: Date.now
+  }
+}, {
+  timestamps: true,
+  collection: 'conversationthreads'
+});
+
+// Thread list is always fetched per user, most recently active first
+ConversationThreadSchema.index({ username: 1, lastMessageAt: -1 });
+
+// Generate unique thread ID before validation so `required` passes
+ConversationThreadSchema.pre('validate', function(next) {
+  if (!this.threadId) {
+    this.threadId = `thread_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+  }
+  next();
+});
+
+export default mongoose.models.ConversationThread || mongoose.model<IConversationThread>('ConversationThread', ConversationThreadSchema);
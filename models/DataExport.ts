@@ -0,0 +1,104 @@
+import mongoose, { Document, Schema } from 'mongoose';
+
+export const DATA_EXPORT_STATUSES = ['queued', 'processing', 'ready', 'failed', 'expired'] as const;
+export type DataExportStatus = typeof DATA_EXPORT_STATUSES[number];
+
+/**
+ * Data Export Model
+ *
+ * A self-service account data export (see utils/dataExport.ts). The job is created by
+ * POST /api/account/export, built in the background, and the finished ZIP is stored in the
+ * 'dataexports' GridFS bucket until expiresAt. Downloads need both the owner's session and the
+ * download token, which is never returned by default queries.
+ */
+export interface IDataExport extends Document {
+  username: string;
+  userId?: string;
+  status: DataExportStatus;
+  fileId?: mongoose.Types.ObjectId; // GridFS file holding the ZIP
+  fileName?: string;
+  fileSize?: number; // Bytes
+  downloadToken?: string; // Random token in the download link
+  sections?: Record<string, number>; // Number of records exported per section
+  error?: string;
+  startedAt?: Date;
+  completedAt?: Date;
+  expiresAt?: Date; // When the download link stops working
+  downloadedAt?: Date; // Last download
+  createdAt?: Date;
+  updatedAt?: Date;
+}
+
+const DataExportSchema = new Schema<IDataExport>(
+  {
+    username: {
+      type: String,
+      required: true,
+      trim: true,
+    },
+    userId: {
+      type: String,
+      required: false,
+    },
+    status: {
+      type: String,
+      enum: DATA_EXPORT_STATUSES,
+      default: 'queued',
+    },
+    fileId: {
+      type: Schema.Types.ObjectId,
+      required: false,
+    },
+    fileName: {
+      type: String,
+      required: false,
+    },
+    fileSize: {
+      type: Number,
+      required: false,
+    },
+    downloadToken: {
+      type: String,
+      required: false,
+      select: false,
+    },
+    sections: {
+      type: Schema.Types.Mixed,
+      required: false,
+    },
+    error: {
+      type: String,
+      required: false,
+    },
+    startedAt: {
+      type: Date,
+      required: false,
+    },
+    completedAt: {
+      type: Date,
+      required: false,
+    },
+    expiresAt: {
+      type: Date,
+      required: false,
+    },
+    downloadedAt: {
+      type: Date,
+      required: false,
+    },
+  },
+  {
+    collection: 'dataexports',
+    timestamps: true, // Automatically adds createdAt and updatedAt
+  }
+);
+
+DataExportSchema.index({ username: 1, createdAt: -1 });
+DataExportSchema.index({ downloadToken: 1 }, { sparse: true });
+DataExportSchema.index({ status: 1, expiresAt: 1 }); // Expiry sweep
+
+const DataExport =
+  mongoose.models.DataExport ||
+  mongoose.model<IDataExport>('DataExport', DataExportSchema);
+
+export default DataExport;
@@ -0,0 +1,107 @@
+import mongoose, { Document, Schema } from 'mongoose';
+import { DiscordModerationConfig } from '../config/discordModerationConfig';
+import { DiscordGuildSettings } from '../config/discordGuildSettings';
+
+export interface IDiscordGuild extends Document {
+  guildId: string; // Discord server (guild) ID
+  guildName: string; // Server name, refreshed whenever the bot sees the server
+  iconUrl?: string; // Server icon
+  isActive: boolean; // Whether the bot is currently in this server
+  addedAt: Date; // First time the bot joined the server
+  removedAt?: Date; // Last time the bot was removed from the server
+  moderationConfig?: DiscordModerationConfig; // Per-server moderation settings
+  guildSettings?: DiscordGuildSettings; // Per-server bot settings (channels, trigger mode, response style, Pro gating)
+  updatedBy?: string; // Video Game Wingman username that last changed the settings
+  createdAt?: Date;
+  updatedAt?: Date;
+}
+
+const DiscordGuildSchema = new Schema<IDiscordGuild>(
+  {
+    guildId: {
+      type: String,
+      required: true,
+      unique: true, // One record per server (creates index automatically)
+    },
+    guildName: {
+      type: String,
+      required: true,
+    },
+    iconUrl: {
+      type: String,
+      required: false,
+    },
+    isActive: {
+      type: Boolean,
+      default: true,
+      index: true,
+    },
+    addedAt: {
+      type: Date,
+      default: Date.now,
+    },
+    removedAt: {
+      type: Date,
+      required: false,
+    },
+    moderationConfig: {
+      type: {
+        enabled: { type: Boolean, default: true },
+        strictMode: { type: Boolean, default: false },
+        timeoutDurations: {
+          first: { type: Number, default: 0 },
+          second: { type: Number, default: 300 },
+          third: { type: Number, default: 1800 },
+          fourth: { type: Number, default: 3600 },
+        },
+        maxViolationsBeforeBan: { type: Number, default: 5 },
+        checkAIResponses: { type: Boolean, default: true },
+        logAllActions: { type: Boolean, default: true },
+      },
+      required: false,
+    },
+    guildSettings: {
+      type: {
+        // Where and how the bot answers messages
+        allowedChannelIds: { type: [String], default: [] },
+        triggerMode: {
+          type: String,
+          enum: ['mention', 'prefix', 'slash'],
+          default: 'mention',
+        },
+        commandPrefix: { type: String, default: '!wingman' },
+
+        // Response style
+        responseStyle: {
+          type: String,
+          enum: ['reply', 'no-mention', 'embed'],
+          default: 'reply',
+        },
+
+        // System message customization
+        customSystemMessage: { type: String, required: false },
+
+        // Pro gating
+        requirePro: { type: Boolean, default: true },
+        proExemptRoleIds: { type: [String], default: [] },
+      },
+      required: false,
+    },
+    updatedBy: {
+      type: String,
+      required: false,
+    },
+  },
+  {
+    collection: 'discordguilds',
+    timestamps: true, // Automatically adds createdAt and updatedAt
+  }
+);
+
+// Note: guildId index is automatically created by unique: true in schema
+
+const DiscordGuild =
+  mongoose.models.DiscordGuild ||
+  mongoose.model<IDiscordGuild>('DiscordGuild', DiscordGuildSchema);
+
+export default DiscordGuild;
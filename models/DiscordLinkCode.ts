@@ -0,0 +1,39 @@
+import mongoose, { Document, Schema } from 'mongoose';
+
+/**
+ * Discord Link Code Model
+ *
+ * One-time codes issued by the Discord bot's /link command. The user opens the
+ * link on the website while signed in, which connects the Discord account that
+ * requested the code to their Wingman account.
+ */
+export interface IDiscordLinkCode extends Document {
+  code: string; // Random token included in the link URL
+  discordId: string; // Discord user who ran /link
+  discordUsername: string; // Discord username at the time of the request
+  expiresAt: Date;
+  createdAt: Date;
+}
+
+const DiscordLinkCodeSchema = new Schema<IDiscordLinkCode>(
+  {
+    code: { type: String, required: true, unique: true },
+    discordId: { type: String, required: true, index: true }, // Replace older codes for the same Discord user
+    discordUsername: { type: String, required: true },
+    expiresAt: { type: Date, required: true },
+  },
+  {
+    timestamps: { createdAt: true, updatedAt: false },
+    collection: 'discordlinkcodes',
+  }
+);
+
+// Expired codes are removed by MongoDB; redemption also checks expiresAt since the
+// TTL monitor only runs about once a minute
+DiscordLinkCodeSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+
+const DiscordLinkCode =
+  mongoose.models.DiscordLinkCode ||
+  mongoose.model<IDiscordLinkCode>('DiscordLinkCode', DiscordLinkCodeSchema);
+
+export default DiscordLinkCode;
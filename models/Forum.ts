@@ -1,76 +1,6 @@
 import mongoose from 'mongoose';
 
-// Define the schema for individual posts within a forum topic
-const PostSchema = new mongoose.Schema({
-  _id: { type: mongoose.Schema.Types.ObjectId, auto: true },
-  username: { type: String, required: true },
-  message: { 
-    type: String, 
-    required: true,
-    minlength: [1, 'Message cannot be empty'],
-    maxlength: [5000, 'Message too long']
-  },
-  timestamp: { type: Date, default: Date.now },
-  createdBy: { type: String, required: true },
-  replyTo: { type: mongoose.Schema.Types.ObjectId, ref: 'Post', default: null },
-  metadata: {
-    edited: { type: Boolean, default: false },
-    editedAt: { type: Date },
-    editedBy: { type: String },
-    likes: { type: Number, default: 0 },
-    likedBy: [{ type: String }],
-    reactions: {
-      type: mongoose.Schema.Types.Mixed,
-      default: {}
-    },
-    attachments: [{
-      type: { type: String, enum: ['image', 'link', 'file'] },
-      url: String,
-      name: String
-    }],
-    status: { 
-      type: String, 
-      enum: ['active', 'hidden', 'deleted'],
-      default: 'active'
-    }
-  }
-});
-
-// Define the schema for a forum topic
-const TopicSchema = new mongoose.Schema({
-  topicId: { 
-    type: String, 
-    required: true,
-    index: true,
-  },
-  topicTitle: { 
-    type: String, 
-    required: true,
-    minlength: [3, 'Title too short'],
-    maxlength: [100, 'Title too long']
-  },
-  description: { type: String, maxlength: 500 },
-  posts: [PostSchema],
-  isPrivate: { type: Boolean, default: false },
-  allowedUsers: [{ type: String }],
-  createdBy: { type: String, required: true },
-  createdAt: { 
-    type: Date, 
-    default: Date.now,
-    index: -1
-  },
-  metadata: {
-    lastPostAt: { type: Date },
-    lastPostBy: { type: String },
-    postCount: { type: Number, default: 0 },
-    viewCount: { type: Number, default: 0 },
-    status: { 
-      type: String, 
-      enum: ['active', 'archived'],
-      default: 'active'
-    }
-  }
-});
+// Posts are stored in their own collection (see models/ForumPost.ts)
 
 // Define the schema for a forum
 const ForumSchema = new mongoose.Schema({
@@ -92,6 +22,10 @@ const ForumSchema = new mongoose.Schema({
   category: { type: String, required: true },
   isPrivate: { type: Boolean, default: false },
   allowedUsers: [{ type: String }],
+  // Locked topics can be read but not posted to (set by moderators, see utils/forumModeration.ts)
+  isLocked: { type: Boolean, default: false },
+  lockedAt: { type: Date },
+  lockedBy: { type: String },
   createdAt: {
     type: Date,
     default: Date.now,
@@ -101,7 +35,6 @@ const ForumSchema = new mongoose.Schema({
     default: Date.now,
   },
   createdBy: { type: String, required: true },
-  posts: [PostSchema],
   metadata: {
     totalPosts: { type: Number, default: 0 },
     lastActivityAt: { type: Date, default: Date.now },
@@ -117,28 +50,15 @@ const ForumSchema = new mongoose.Schema({
   timestamps: true
 });
 
-// Create compound indexes for better query performance
-PostSchema.index({ userId: 1, timestamp: 1 });
-TopicSchema.index({ allowedUsers: 1 });
-
 // Create indexes for metadata fields that are frequently queried
 ForumSchema.index({ 'metadata.gameTitle': 1 });
 ForumSchema.index({ 'metadata.category': 1 });
 ForumSchema.index({ 'metadata.tags': 1 });
 
-// Indexes for weekly digest queries
-// Note: MongoDB has limitations indexing nested arrays, but these help with the query structure
+// Indexes for weekly digest queries (forum access checks; post matching happens on ForumPost)
 ForumSchema.index({ 'metadata.status': 1, isPrivate: 1 });
-ForumSchema.index({ 'posts.username': 1, 'metadata.status': 1 });
 ForumSchema.index({ allowedUsers: 1, 'metadata.status': 1 });
 
-// Compound index for posts queries (recommended for weekly digest)
-// This index helps with queries that filter by posts.timestamp, posts.username, and metadata.status
-ForumSchema.index({ 'posts.timestamp': 1, 'posts.username': 1, 'metadata.status': 1 });
-
-// Index for posts metadata status (for filtering active posts)
-ForumSchema.index({ 'posts.metadata.status': 1 });
-
 // OPTIMIZED: Additional indexes for common automated user queries
 // Index on gameTitle for case-insensitive lookups (used in createForumForGame)
 ForumSchema.index({ gameTitle: 1 });
@@ -158,6 +78,12 @@ ForumSchema.index({ gameTitle: 1, category: 1 });
 // Compound index for gameTitle + status (used in createForumForGame)
 ForumSchema.index({ gameTitle: 1, 'metadata.status': 1 });
 
+// Full-text search over forum titles (utils/search.ts)
+ForumSchema.index(
+  { title: 'text', gameTitle: 'text' },
+  { weights: { title: 3, gameTitle: 2 }, name: 'forum_text_search' }
+);
+
 ForumSchema.methods.updateActivity = async function(userId: string) {
   this.metadata.lastActivityAt = new Date();
   this.metadata.lastActiveUser = userId;
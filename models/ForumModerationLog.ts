@@ -0,0 +1,86 @@
+import mongoose, { Document, Schema } from 'mongoose';
+
+export const FORUM_MODERATION_ACTIONS = [
+  'hide_post',
+  'restore_post',
+  'pin_post',
+  'unpin_post',
+  'lock_forum',
+  'unlock_forum',
+  'move_forum',
+  'warn_author',
+  'dismiss_reports'
+] as const;
+export type ForumModerationAction = typeof FORUM_MODERATION_ACTIONS[number];
+
+/**
+ * Forum Moderation Log Model
+ *
+ * One document per moderator action on a forum or post, so every hide, lock, pin, move
+ * and warning can be traced to who did it, in what capacity and why.
+ */
+export interface IForumModerationLog extends Document {
+  action: ForumModerationAction;
+  forumId: string;
+  postId?: string;
+  targetUsername?: string; // Post author or forum creator affected by the action
+  performedBy: string;
+  performedAs: 'staff' | 'forum_owner'; // moderate_forums permission, or creator of a private forum
+  reason?: string;
+  details?: Record<string, any>; // Action-specific data, e.g. { fromCategory, toCategory } or the violation result
+  resolvedReports: number; // Open reports closed by this action
+  createdAt: Date;
+}
+
+const ForumModerationLogSchema = new Schema<IForumModerationLog>({
+  action: {
+    type: String,
+    enum: FORUM_MODERATION_ACTIONS,
+    required: true
+  },
+  forumId: {
+    type: String,
+    required: true
+  },
+  postId: {
+    type: String,
+    required: false
+  },
+  targetUsername: {
+    type: String,
+    required: false
+  },
+  performedBy: {
+    type: String,
+    required: true
+  },
+  performedAs: {
+    type: String,
+    enum: ['staff', 'forum_owner'],
+    required: true
+  },
+  reason: {
+    type: String,
+    required: false,
+    maxlength: 500,
+    trim: true
+  },
+  details: {
+    type: Schema.Types.Mixed,
+    required: false
+  },
+  resolvedReports: {
+    type: Number,
+    default: 0
+  }
+}, {
+  timestamps: { createdAt: true, updatedAt: false }, // Audit entries are never updated
+  collection: 'forummoderationlogs'
+});
+
+ForumModerationLogSchema.index({ createdAt: -1 });
+ForumModerationLogSchema.index({ forumId: 1, createdAt: -1 });
+ForumModerationLogSchema.index({ performedBy: 1, createdAt: -1 });
+ForumModerationLogSchema.index({ targetUsername: 1, createdAt: -1 });
+
+export default mongoose.models.ForumModerationLog || mongoose.model<IForumModerationLog>('ForumModerationLog', ForumModerationLogSchema);
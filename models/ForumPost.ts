@@ -0,0 +1,118 @@
+import mongoose, { Document, Schema } from 'mongoose';
+
+/**
+ * Forum Post Model
+ *
+ * One document per forum post, referencing its forum by Forum.forumId.
+ * Posts used to be embedded in Forum.posts; scripts/migrate-forum-posts.ts moves existing
+ * posts here, keeping their _id so replyTo references and client post IDs stay valid.
+ *
+ * Posts are read in pages ordered by (timestamp, _id) - see utils/forumPosts.ts.
+ */
+export interface IForumPostAttachment {
+  type: 'image' | 'link' | 'file';
+  url: string;
+  name?: string;
+}
+
+export interface IForumPost extends Document {
+  forumId: string;
+  username: string;
+  message: string; // May be empty for image-only posts
+  timestamp: Date;
+  createdBy: string;
+  replyTo?: mongoose.Types.ObjectId | null;
+  metadata: {
+    edited: boolean;
+    editedAt?: Date;
+    editedBy?: string;
+    likes: number;
+    likedBy: string[];
+    reactions: Record<string, string[]>; // Emoji → usernames
+    attachments: IForumPostAttachment[];
+    status: 'active' | 'hidden' | 'deleted';
+    isPinned?: boolean; // Pinned posts are shown above the thread
+    pinnedAt?: Date;
+    pinnedBy?: string;
+    moderatedAt?: Date; // Last time a moderator hid or restored the post
+    moderatedBy?: string;
+  };
+}
+
+const ForumPostSchema = new Schema<IForumPost>({
+  forumId: {
+    type: String,
+    required: true
+  },
+  username: {
+    type: String,
+    required: true
+  },
+  message: {
+    type: String,
+    default: '',
+    maxlength: [5000, 'Message too long']
+  },
+  timestamp: {
+    type: Date,
+    default: Date.now
+  },
+  createdBy: {
+    type: String,
+    required: true
+  },
+  replyTo: {
+    type: Schema.Types.ObjectId,
+    ref: 'ForumPost',
+    default: null
+  },
+  metadata: {
+    edited: { type: Boolean, default: false },
+    editedAt: { type: Date },
+    editedBy: { type: String },
+    likes: { type: Number, default: 0 },
+    likedBy: [{ type: String }],
+    reactions: {
+      type: Schema.Types.Mixed,
+      default: {}
+    },
+    attachments: [{
+      type: { type: String, enum: ['image', 'link', 'file'] },
+      url: String,
+      name: String
+    }],
+    status: {
+      type: String,
+      enum: ['active', 'hidden', 'deleted'],
+      default: 'active'
+    },
+    isPinned: { type: Boolean, default: false },
+    pinnedAt: { type: Date },
+    pinnedBy: { type: String },
+    moderatedAt: { type: Date },
+    moderatedBy: { type: String }
+  }
+}, {
+  collection: 'forumposts',
+  minimize: false // Keep empty reactions objects
+});
+
+// Forum thread pages (cursor pagination on timestamp + _id)
+ForumPostSchema.index({ forumId: 1, timestamp: 1, _id: 1 });
+
+// Per-user activity: weekly digest, leaderboard, automated users' previous posts
+ForumPostSchema.index({ username: 1, timestamp: -1 });
+
+// Site-wide time-range aggregations (leaderboard, hot topics)
+ForumPostSchema.index({ timestamp: -1, 'metadata.status': 1 });
+
+// Pinned posts of a forum
+ForumPostSchema.index({ forumId: 1, 'metadata.isPinned': 1 }, { partialFilterExpression: { 'metadata.isPinned': true } });
+
+// Replies to a post
+ForumPostSchema.index({ replyTo: 1 }, { sparse: true });
+
+// Full-text search over post messages (utils/search.ts)
+ForumPostSchema.index({ message: 'text' }, { name: 'forumpost_text_search' });
+
+export default mongoose.models.ForumPost || mongoose.model<IForumPost>('ForumPost', ForumPostSchema);
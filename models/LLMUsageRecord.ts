@@ -0,0 +1,136 @@
+import mongoose, { Document, Schema } from 'mongoose';
+
+/**
+ * LLM Usage Record Model
+ *
+ * One document per LLM request (or per response served from an AI cache instead of the model).
+ * Written by utils/llmUsageLedger.ts and aggregated by /api/admin/llm-usage to see what
+ * each user, feature and model actually costs.
+ */
+export type LLMUsageFeature =
+  | 'assistant'
+  | 'twitch_bot'
+  | 'discord_bot'
+  | 'automated_users'
+  | 'weekly_digest'
+  | 'other';
+
+export const LLM_USAGE_FEATURES: LLMUsageFeature[] = [
+  'assistant',
+  'twitch_bot',
+  'discord_bot',
+  'automated_users',
+  'weekly_digest',
+  'other'
+];
+
+export interface ILLMUsageRecord extends Document {
+  username?: string; // Video Game Wingman username, when the request can be attributed to one
+  externalUserId?: string; // Twitch username or Discord user ID for bot requests
+  channel?: string; // Twitch channel or Discord guild ID for bot requests
+  feature: LLMUsageFeature; // Part of the product that made the request
+  provider: string; // LLM provider name ('openai', 'local', 'cache')
+  modelName: string; // Model that served the request ('model' is reserved by mongoose Documents)
+  requestType: 'chat' | 'vision' | 'json';
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+  estimatedCost: number; // USD, from the pricing table in utils/llmUsageLedger.ts
+  cacheHit: boolean; // Served from an AI response cache (no tokens used)
+  durationMs?: number; // Time spent waiting for the model
+  createdAt: Date;
+}
+
+const LLMUsageRecordSchema = new Schema<ILLMUsageRecord>(
+  {
+    username: {
+      type: String,
+      required: false,
+      trim: true,
+    },
+    externalUserId: {
+      type: String,
+      required: false,
+      trim: true,
+    },
+    channel: {
+      type: String,
+      required: false,
+      trim: true,
+    },
+    feature: {
+      type: String,
+      required: true,
+      enum: LLM_USAGE_FEATURES,
+      default: 'other',
+    },
+    provider: {
+      type: String,
+      required: true,
+    },
+    modelName: {
+      type: String,
+      required: true,
+    },
+    requestType: {
+      type: String,
+      required: true,
+      enum: ['chat', 'vision', 'json'],
+      default: 'chat',
+    },
+    promptTokens: {
+      type: Number,
+      required: true,
+      default: 0,
+      min: 0,
+    },
+    completionTokens: {
+      type: Number,
+      required: true,
+      default: 0,
+      min: 0,
+    },
+    totalTokens: {
+      type: Number,
+      required: true,
+      default: 0,
+      min: 0,
+    },
+    estimatedCost: {
+      type: Number,
+      required: true,
+      default: 0,
+      min: 0,
+    },
+    cacheHit: {
+      type: Boolean,
+      required: true,
+      default: false,
+    },
+    durationMs: {
+      type: Number,
+      required: false,
+      min: 0,
+    },
+  },
+  {
+    collection: 'llmusagerecords',
+    timestamps: { createdAt: true, updatedAt: false }, // Records are never updated
+  }
+);
+
+// Time-range queries are the base of every aggregation
+LLMUsageRecordSchema.index({ createdAt: -1 });
+
+// Per-user cost breakdowns
+LLMUsageRecordSchema.index({ username: 1, createdAt: -1 });
+
+// Per-feature and per-model breakdowns
+LLMUsageRecordSchema.index({ feature: 1, createdAt: -1 });
+LLMUsageRecordSchema.index({ modelName: 1, createdAt: -1 });
+
+const LLMUsageRecord =
+  mongoose.models.LLMUsageRecord ||
+  mongoose.model<ILLMUsageRecord>('LLMUsageRecord', LLMUsageRecordSchema);
+
+export default LLMUsageRecord;
@@ -0,0 +1,93 @@
+import mongoose, { Document, Schema } from 'mongoose';
+import { ModerationPlatform, MODERATION_PLATFORMS } from '../config/moderationRules';
+
+export const APPEAL_STATUSES = ['pending', 'upheld', 'overturned', 'reduced'] as const;
+export type AppealStatus = typeof APPEAL_STATUSES[number];
+
+/**
+ * Moderation Appeal Model
+ *
+ * A user's request to review a penalty recorded in UserViolation (website),
+ * TwitchUserViolation or DiscordUserViolation. Submitted through /api/appeals and
+ * decided by moderators through /api/admin/moderation/decisions.
+ */
+export interface IModerationAppeal extends Document {
+  username: string; // Video Game Wingman user who submitted the appeal
+  platform: ModerationPlatform;
+  violationRecordId: string; // _id of the violation record being appealed
+  channelName?: string; // Twitch channel the penalty applies to
+  guildId?: string; // Discord server the penalty applies to
+  message: string; // The user's explanation
+  status: AppealStatus;
+  reviewedBy?: string; // Moderator who decided the appeal
+  reviewedAt?: Date;
+  reviewNote?: string; // Moderator's note, shown to the user
+  createdAt?: Date;
+  updatedAt?: Date;
+}
+
+const ModerationAppealSchema = new Schema<IModerationAppeal>(
+  {
+    username: {
+      type: String,
+      required: true,
+      trim: true,
+    },
+    platform: {
+      type: String,
+      enum: MODERATION_PLATFORMS,
+      required: true,
+    },
+    violationRecordId: {
+      type: String,
+      required: true,
+    },
+    channelName: {
+      type: String,
+      required: false,
+    },
+    guildId: {
+      type: String,
+      required: false,
+    },
+    message: {
+      type: String,
+      required: true,
+      maxlength: 2000,
+      trim: true,
+    },
+    status: {
+      type: String,
+      enum: APPEAL_STATUSES,
+      default: 'pending',
+    },
+    reviewedBy: {
+      type: String,
+      required: false,
+    },
+    reviewedAt: {
+      type: Date,
+      required: false,
+    },
+    reviewNote: {
+      type: String,
+      required: false,
+      maxlength: 1000,
+      trim: true,
+    },
+  },
+  {
+    collection: 'moderationappeals',
+    timestamps: true, // Automatically adds createdAt and updatedAt
+  }
+);
+
+ModerationAppealSchema.index({ status: 1, createdAt: 1 }); // Review queue (oldest first)
+ModerationAppealSchema.index({ username: 1, createdAt: -1 });
+ModerationAppealSchema.index({ platform: 1, violationRecordId: 1, status: 1 });
+
+const ModerationAppeal =
+  mongoose.models.ModerationAppeal ||
+  mongoose.model<IModerationAppeal>('ModerationAppeal', ModerationAppealSchema);
+
+export default ModerationAppeal;
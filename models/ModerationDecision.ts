@@ -0,0 +1,126 @@
+import mongoose, { Document, Schema } from 'mongoose';
+import { ModerationPlatform, MODERATION_PLATFORMS } from '../config/moderationRules';
+
+export const MODERATION_DECISION_OUTCOMES = ['uphold', 'overturn', 'reduce'] as const;
+export type ModerationDecisionOutcome = typeof MODERATION_DECISION_OUTCOMES[number];
+
+/**
+ * Snapshot of the penalty on a violation record before or after a decision
+ * Website records use banCount/banExpiresAt/isPermanentlyBanned; Twitch and Discord use isBanned.
+ */
+export interface IPenaltyState {
+  warningCount: number;
+  banCount?: number;
+  banExpiresAt?: Date | null;
+  isPermanentlyBanned?: boolean;
+  isBanned?: boolean;
+}
+
+/**
+ * Moderation Decision Model
+ *
+ * One document per moderator decision on a violation record (with or without an appeal),
+ * so each user's penalty history can be traced to who changed it and why.
+ */
+export interface IModerationDecision extends Document {
+  platform: ModerationPlatform;
+  violationRecordId: string;
+  subject: string; // Website username, Twitch username or Discord user ID the penalty applies to
+  username?: string; // Video Game Wingman username, when known
+  channelName?: string; // Twitch channel
+  guildId?: string; // Discord server
+  appealId?: string; // Appeal this decision answers, if any
+  outcome: ModerationDecisionOutcome;
+  note?: string;
+  performedBy: string; // Moderator who made the decision
+  previousState: IPenaltyState;
+  newState: IPenaltyState;
+  platformBanLifted?: boolean; // Whether the Twitch/Discord ban was lifted on the platform itself
+  createdAt: Date;
+}
+
+const PenaltyStateSchema = new Schema<IPenaltyState>(
+  {
+    warningCount: { type: Number, required: true },
+    banCount: { type: Number, required: false },
+    banExpiresAt: { type: Date, required: false },
+    isPermanentlyBanned: { type: Boolean, required: false },
+    isBanned: { type: Boolean, required: false },
+  },
+  { _id: false }
+);
+
+const ModerationDecisionSchema = new Schema<IModerationDecision>(
+  {
+    platform: {
+      type: String,
+      enum: MODERATION_PLATFORMS,
+      required: true,
+    },
+    violationRecordId: {
+      type: String,
+      required: true,
+    },
+    subject: {
+      type: String,
+      required: true,
+    },
+    username: {
+      type: String,
+      required: false,
+    },
+    channelName: {
+      type: String,
+      required: false,
+    },
+    guildId: {
+      type: String,
+      required: false,
+    },
+    appealId: {
+      type: String,
+      required: false,
+    },
+    outcome: {
+      type: String,
+      enum: MODERATION_DECISION_OUTCOMES,
+      required: true,
+    },
+    note: {
+      type: String,
+      required: false,
+      maxlength: 1000,
+      trim: true,
+    },
+    performedBy: {
+      type: String,
+      required: true,
+    },
+    previousState: {
+      type: PenaltyStateSchema,
+      required: true,
+    },
+    newState: {
+      type: PenaltyStateSchema,
+      required: true,
+    },
+    platformBanLifted: {
+      type: Boolean,
+      required: false,
+    },
+  },
+  {
+    collection: 'moderationdecisions',
+    timestamps: { createdAt: true, updatedAt: false }, // Decisions are never updated
+  }
+);
+
+ModerationDecisionSchema.index({ username: 1, createdAt: -1 });
+ModerationDecisionSchema.index({ platform: 1, subject: 1, createdAt: -1 });
+ModerationDecisionSchema.index({ violationRecordId: 1, createdAt: -1 });
+
+const ModerationDecision =
+  mongoose.models.ModerationDecision ||
+  mongoose.model<IModerationDecision>('ModerationDecision', ModerationDecisionSchema);
+
+export default ModerationDecision;
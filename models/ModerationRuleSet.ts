@@ -0,0 +1,109 @@
+import mongoose, { Document, Schema } from 'mongoose';
+import {
+  ModerationPlatform,
+  ModerationRule,
+  ModerationAction,
+  ModerationSeverity,
+  MODERATION_PLATFORMS,
+  MODERATION_RULE_TYPES,
+  MODERATION_SEVERITIES,
+  MODERATION_ACTIONS
+} from '../config/moderationRules';
+
+/**
+ * Moderation Rule Set Model
+ *
+ * A named group of moderation rules evaluated by the website, the Twitch bot and the
+ * Discord bot (see config/moderationRules.ts). Edited by admins through
+ * /api/admin/moderation/rules.
+ */
+export interface IModerationRuleSet extends Document {
+  name: string; // Unique name shown to admins
+  description?: string;
+  enabled: boolean;
+  platforms: ModerationPlatform[]; // Surfaces this rule set applies to
+  severityActions: Record<ModerationSeverity, ModerationAction>; // Action taken for each severity
+  rules: ModerationRule[];
+  updatedBy?: string; // Username of the admin who last changed the rule set
+  createdAt?: Date;
+  updatedAt?: Date;
+}
+
+const ModerationRuleSchema = new Schema<ModerationRule>(
+  {
+    name: { type: String, required: true },
+    type: { type: String, enum: MODERATION_RULE_TYPES, required: true },
+    enabled: { type: Boolean, default: true },
+    severity: { type: String, enum: MODERATION_SEVERITIES, default: 'medium' },
+
+    // word_list
+    words: { type: [String], default: undefined },
+    normalize: { type: Boolean, required: false },
+
+    // regex
+    pattern: { type: String, required: false },
+    flags: { type: String, required: false },
+
+    // links
+    allowedDomains: { type: [String], default: undefined },
+
+    // caps
+    minLength: { type: Number, required: false },
+    maxCapsRatio: { type: Number, required: false },
+
+    // spam
+    maxRepeatedChars: { type: Number, required: false },
+    maxRepeatedWords: { type: Number, required: false },
+
+    // repeated_message
+    maxRepeats: { type: Number, required: false },
+    repeatWindowSeconds: { type: Number, required: false },
+  },
+  { _id: false }
+);
+
+const ModerationRuleSetSchema = new Schema<IModerationRuleSet>(
+  {
+    name: {
+      type: String,
+      required: true,
+      unique: true, // Creates index automatically
+    },
+    description: {
+      type: String,
+      required: false,
+    },
+    enabled: {
+      type: Boolean,
+      default: true,
+    },
+    platforms: {
+      type: [{ type: String, enum: MODERATION_PLATFORMS }],
+      default: MODERATION_PLATFORMS,
+    },
+    severityActions: {
+      low: { type: String, enum: MODERATION_ACTIONS, default: 'log' },
+      medium: { type: String, enum: MODERATION_ACTIONS, default: 'block' },
+      high: { type: String, enum: MODERATION_ACTIONS, default: 'violation' },
+      critical: { type: String, enum: MODERATION_ACTIONS, default: 'ban' },
+    },
+    rules: {
+      type: [ModerationRuleSchema],
+      default: [],
+    },
+    updatedBy: {
+      type: String,
+      required: false,
+    },
+  },
+  {
+    collection: 'moderationrulesets',
+    timestamps: true, // Automatically adds createdAt and updatedAt
+  }
+);
+
+const ModerationRuleSet =
+  mongoose.models.ModerationRuleSet ||
+  mongoose.model<IModerationRuleSet>('ModerationRuleSet', ModerationRuleSetSchema);
+
+export default ModerationRuleSet;
@@ -0,0 +1,107 @@
+import mongoose, { Document, Schema } from 'mongoose';
+
+/**
+ * Notification Model
+ *
+ * Persistent in-app notifications shown in the sidebar bell.
+ * Created through utils/notifications.ts, which also pushes them to the user's
+ * open sockets; read state is managed by the /api/notifications endpoints.
+ */
+export type NotificationType =
+  | 'forum_reply'
+  | 'forum_mention'
+  | 'post_reaction'
+  | 'achievement'
+  | 'challenge_milestone'
+  | 'feedback_response'
+  | 'subscription';
+
+export const NOTIFICATION_TYPES: NotificationType[] = [
+  'forum_reply',
+  'forum_mention',
+  'post_reaction',
+  'achievement',
+  'challenge_milestone',
+  'feedback_response',
+  'subscription'
+];
+
+export interface INotification extends Document {
+  username: string; // Recipient
+  type: NotificationType;
+  title: string;
+  message: string;
+  link?: string; // In-app path to open when the notification is clicked
+  actor?: string; // User whose action caused the notification (reply author, reactor)
+  data?: Record<string, any>; // Type-specific details (forumId, postId, achievement names...)
+  dedupeKey?: string; // Set for events that can repeat (e.g. toggling a reaction) so they're only stored once
+  isRead: boolean;
+  readAt?: Date;
+  createdAt: Date;
+}
+
+// Notifications are housekeeping, not history: drop them after 90 days
+const NOTIFICATION_TTL_SECONDS = 90 * 24 * 60 * 60;
+
+const NotificationSchema = new Schema<INotification>({
+  username: {
+    type: String,
+    required: true,
+    trim: true
+  },
+  type: {
+    type: String,
+    required: true,
+    enum: NOTIFICATION_TYPES
+  },
+  title: {
+    type: String,
+    required: true,
+    maxlength: 120,
+    trim: true
+  },
+  message: {
+    type: String,
+    required: true,
+    maxlength: 500,
+    trim: true
+  },
+  link: {
+    type: String,
+    required: false
+  },
+  actor: {
+    type: String,
+    required: false
+  },
+  data: {
+    type: Schema.Types.Mixed,
+    required: false
+  },
+  dedupeKey: {
+    type: String,
+    required: false
+  },
+  isRead: {
+    type: Boolean,
+    default: false
+  },
+  readAt: {
+    type: Date,
+    required: false
+  }
+}, {
+  timestamps: { createdAt: true, updatedAt: false },
+  collection: 'notifications'
+});
+
+// Bell dropdown and unread badge: newest first per user, optionally unread only
+NotificationSchema.index({ username: 1, isRead: 1, createdAt: -1 });
+NotificationSchema.index({ username: 1, createdAt: -1 });
+
+// One notification per repeatable event
+NotificationSchema.index({ username: 1, dedupeKey: 1 }, { unique: true, partialFilterExpression: { dedupeKey: { $type: 'string' } } });
+
+NotificationSchema.index({ createdAt: 1 }, { expireAfterSeconds: NOTIFICATION_TTL_SECONDS });
+
+export default mongoose.models.Notification || mongoose.model<INotification>('Notification', NotificationSchema);
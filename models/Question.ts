@@ -14,6 +14,8 @@ export interface IQuestion {
   difficultyHint?: string;
   interactionType?: string;
   imageUrl?: string; // URL of image uploaded with this question
+
+  threadId?: string; // ConversationThread this question belongs to (for follow-up context)
 }
 
 // Define the Question schema
@@ -29,11 +31,18 @@ const QuestionSchema = new mongoose.Schema<IQuestion>({
   questionCategory: { type: String, required: false },
   difficultyHint: { type: String, required: false },
   interactionType: { type: String, required: false },
-  imageUrl: { type: String, required: false } // URL of image uploaded with this question
+  imageUrl: { type: String, required: false }, // URL of image uploaded with this question
+
+  threadId: { type: String, required: false } // ConversationThread.threadId (absent on legacy questions)
 }, { collection: 'questions' });
 
 // Compound index optimized for weekly digest queries (sorted by timestamp descending)
 QuestionSchema.index({ username: 1, timestamp: -1 });
 QuestionSchema.index({ detectedGenre: 1 }); // Index for future genre-based queries
+QuestionSchema.index({ threadId: 1, timestamp: -1 }); // Index for thread history window lookups
+QuestionSchema.index(
+  { question: 'text', response: 'text' },
+  { weights: { question: 3, response: 1 }, name: 'question_text_search' }
+); // Full-text search over a user's Q&A history (utils/search.ts)
 
 export default mongoose.models.Question || mongoose.model<IQuestion>('Question', QuestionSchema);
\ No newline at end of file
@@ -0,0 +1,59 @@
+import mongoose, { Document, Schema } from 'mongoose';
+import { USER_ROLES, UserRole } from './User';
+
+/**
+ * Role Audit Log Model
+ *
+ * One document per role grant or revocation made through /api/admin/roles,
+ * so every change to staff access can be traced to who made it and why.
+ */
+export interface IRoleAuditLog extends Document {
+  targetUsername: string; // User whose roles changed
+  action: 'grant' | 'revoke';
+  role: UserRole;
+  performedBy: string; // Admin who made the change
+  reason?: string;
+  previousRoles: UserRole[];
+  newRoles: UserRole[];
+  createdAt: Date;
+}
+
+const RoleAuditLogSchema = new Schema<IRoleAuditLog>({
+  targetUsername: {
+    type: String,
+    required: true,
+    trim: true
+  },
+  action: {
+    type: String,
+    required: true,
+    enum: ['grant', 'revoke']
+  },
+  role: {
+    type: String,
+    required: true,
+    enum: USER_ROLES
+  },
+  performedBy: {
+    type: String,
+    required: true,
+    trim: true
+  },
+  reason: {
+    type: String,
+    required: false,
+    maxlength: 500,
+    trim: true
+  },
+  previousRoles: [{ type: String, enum: USER_ROLES }],
+  newRoles: [{ type: String, enum: USER_ROLES }]
+}, {
+  timestamps: { createdAt: true, updatedAt: false }, // Audit entries are never updated
+  collection: 'roleauditlogs'
+});
+
+RoleAuditLogSchema.index({ createdAt: -1 });
+RoleAuditLogSchema.index({ targetUsername: 1, createdAt: -1 });
+RoleAuditLogSchema.index({ performedBy: 1, createdAt: -1 });
+
+export default mongoose.models.RoleAuditLog || mongoose.model<IRoleAuditLog>('RoleAuditLog', RoleAuditLogSchema);
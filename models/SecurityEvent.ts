@@ -0,0 +1,140 @@
+import mongoose, { Document, Schema } from 'mongoose';
+
+export const SECURITY_EVENT_TYPES = [
+  'login',
+  'login_reported', // User followed the "this wasn't me" link from a login alert
+  'account_locked',
+  'password_changed',
+  'password_reset',
+  'email_changed',
+  'two_factor_enabled',
+  'two_factor_disabled',
+  'sessions_revoked',
+] as const;
+export type SecurityEventType = typeof SECURITY_EVENT_TYPES[number];
+
+export const SECURITY_EVENT_SEVERITIES = ['info', 'warning', 'critical'] as const;
+export type SecurityEventSeverity = typeof SECURITY_EVENT_SEVERITIES[number];
+
+export const LOGIN_RISK_REASONS = ['new_device', 'new_country', 'impossible_travel', 'failed_login_burst'] as const;
+export type LoginRiskReason = typeof LOGIN_RISK_REASONS[number];
+
+/**
+ * Security Event Model
+ *
+ * Timeline of security-relevant account activity shown on the account page (see
+ * utils/securityEvents.ts). Logins carry the risk reasons found by utils/loginRisk.ts; risky ones
+ * are emailed to the user with a one-time "this wasn't me" link whose token is stored hashed.
+ */
+export interface ISecurityEvent extends Document {
+  userId: string;
+  username: string;
+  type: SecurityEventType;
+  severity: SecurityEventSeverity;
+  riskReasons?: LoginRiskReason[];
+  sessionId?: string; // Session created by the login, revoked if the user reports it
+  ipAddress?: string;
+  deviceInfo?: {
+    userAgent?: string;
+    browser?: string;
+    os?: string;
+    device?: string;
+  };
+  location?: {
+    country?: string;
+    city?: string;
+    region?: string;
+    latitude?: number;
+    longitude?: number;
+  };
+  details?: Record<string, any>;
+  alertSentAt?: Date;
+  reportTokenHash?: string; // SHA-256 of the "this wasn't me" token
+  reportTokenExpires?: Date;
+  reportedAt?: Date;
+  createdAt?: Date;
+}
+
+const SecurityEventSchema = new Schema<ISecurityEvent>(
+  {
+    userId: {
+      type: String,
+      required: true,
+    },
+    username: {
+      type: String,
+      required: true,
+    },
+    type: {
+      type: String,
+      enum: SECURITY_EVENT_TYPES,
+      required: true,
+    },
+    severity: {
+      type: String,
+      enum: SECURITY_EVENT_SEVERITIES,
+      default: 'info',
+    },
+    riskReasons: {
+      type: [{ type: String, enum: LOGIN_RISK_REASONS }],
+      default: undefined,
+    },
+    sessionId: {
+      type: String,
+      required: false,
+    },
+    ipAddress: {
+      type: String,
+      required: false,
+    },
+    deviceInfo: {
+      userAgent: { type: String, required: false },
+      browser: { type: String, required: false },
+      os: { type: String, required: false },
+      device: { type: String, required: false },
+    },
+    location: {
+      country: { type: String, required: false },
+      city: { type: String, required: false },
+      region: { type: String, required: false },
+      latitude: { type: Number, required: false },
+      longitude: { type: Number, required: false },
+    },
+    details: {
+      type: Schema.Types.Mixed,
+      required: false,
+    },
+    alertSentAt: {
+      type: Date,
+      required: false,
+    },
+    reportTokenHash: {
+      type: String,
+      required: false,
+      select: false,
+    },
+    reportTokenExpires: {
+      type: Date,
+      required: false,
+    },
+    reportedAt: {
+      type: Date,
+      required: false,
+    },
+  },
+  {
+    collection: 'securityevents',
+    timestamps: { createdAt: true, updatedAt: false },
+  }
+);
+
+SecurityEventSchema.index({ userId: 1, createdAt: -1 }); // Timeline and login history
+SecurityEventSchema.index({ reportTokenHash: 1 }, { sparse: true });
+// Keep a year of history
+SecurityEventSchema.index({ createdAt: 1 }, { expireAfterSeconds: 365 * 24 * 60 * 60 });
+
+const SecurityEvent =
+  mongoose.models.SecurityEvent ||
+  mongoose.model<ISecurityEvent>('SecurityEvent', SecurityEventSchema);
+
+export default SecurityEvent;
@@ -29,6 +29,8 @@ export interface ISession extends Document {
     country?: string; // Country code (if available from IP geolocation)
     city?: string; // City name (if available)
     region?: string; // Region/state (if available)
+    latitude?: number; // Approximate coordinates (used for impossible travel checks)
+    longitude?: number;
   };
   lastActivity: Date; // Last time this session was active
   createdAt: Date; // When session was created
@@ -103,6 +105,14 @@ const SessionSchema = new Schema<ISession>(
         type: String,
         required: false,
       },
+      latitude: {
+        type: Number,
+        required: false,
+      },
+      longitude: {
+        type: Number,
+        required: false,
+      },
     },
     lastActivity: {
       type: Date,
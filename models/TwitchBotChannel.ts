@@ -1,6 +1,11 @@
 import mongoose, { Document, Schema } from 'mongoose';
 import { TwitchModerationConfig } from '../config/twitchModerationConfig';
 import { TwitchChannelSettings } from '../config/twitchChannelSettings';
+import { TwitchCustomCommand, COMMAND_PERMISSION_LEVELS } from '../config/twitchCustomCommands';
+import { TwitchTimer, TwitchScheduledAnnouncement } from '../config/twitchTimers';
+import { TwitchNowPlaying } from '../config/twitchNowPlaying';
+import { TwitchQuestionQueueSettings } from '../config/twitchQuestionQueue';
+import { TwitchTriviaSettings, TRIVIA_QUESTION_SOURCES } from '../config/twitchTrivia';
 
 export interface ITwitchBotChannel extends Document {
   channelName: string; // Twitch channel name (lowercase, no #)
@@ -15,6 +20,15 @@ export interface ITwitchBotChannel extends Document {
   messageCount?: number; // Total messages processed in this channel
   moderationConfig?: TwitchModerationConfig; // Per-channel moderation settings
   channelSettings?: TwitchChannelSettings; // Per-channel bot settings (command prefixes, rate limits, response styles)
+  customCommands?: TwitchCustomCommand[]; // Streamer-defined static commands (!specs, !schedule, ...)
+  timers?: TwitchTimer[]; // Recurring chat messages
+  timersPaused?: boolean; // Pauses every timer in the channel (scheduled announcements still post)
+  scheduledAnnouncements?: TwitchScheduledAnnouncement[]; // One-off messages posted at a set time
+  nowPlaying?: TwitchNowPlaying; // Current game and session notes, used as context for chat questions
+  questionQueue?: TwitchQuestionQueueSettings & {
+    lastQuestionNumber?: number; // Last id given to a queued question
+  };
+  trivia?: TwitchTriviaSettings; // !trivia rounds, the streamer's question bank and !predict
   createdAt?: Date;
   updatedAt?: Date;
 }
@@ -115,6 +129,117 @@ const TwitchBotChannelSchema = new Schema<ITwitchBotChannel>(
       },
       required: false,
     },
+    customCommands: {
+      type: [
+        new Schema(
+          {
+            name: { type: String, required: true, lowercase: true, trim: true },
+            response: { type: String, required: true },
+            cooldownSeconds: { type: Number, default: 5 },
+            permission: {
+              type: String,
+              enum: COMMAND_PERMISSION_LEVELS,
+              default: 'everyone',
+            },
+            enabled: { type: Boolean, default: true },
+            useCount: { type: Number, default: 0 },
+            lastUsedAt: { type: Date, required: false },
+          },
+          { _id: false }
+        ),
+      ],
+      default: [],
+    },
+    timers: {
+      type: [
+        new Schema(
+          {
+            id: { type: String, required: true },
+            name: { type: String, required: true, trim: true },
+            messages: { type: [String], default: [] },
+            intervalMinutes: { type: Number, default: 15 },
+            minChatLines: { type: Number, default: 10 },
+            paused: { type: Boolean, default: false },
+            nextMessageIndex: { type: Number, default: 0 },
+            lastPostedAt: { type: Date, required: false },
+          },
+          { _id: false }
+        ),
+      ],
+      default: [],
+    },
+    timersPaused: {
+      type: Boolean,
+      default: false,
+    },
+    scheduledAnnouncements: {
+      type: [
+        new Schema(
+          {
+            id: { type: String, required: true },
+            message: { type: String, required: true },
+            sendAt: { type: Date, required: true },
+            status: {
+              type: String,
+              enum: ['pending', 'sent', 'cancelled', 'missed'],
+              default: 'pending',
+            },
+            sentAt: { type: Date, required: false },
+          },
+          { _id: false }
+        ),
+      ],
+      default: [],
+    },
+    nowPlaying: {
+      type: {
+        category: { type: String, required: false },
+        gameTitle: { type: String, required: false },
+        streamTitle: { type: String, required: false },
+        sessionNotes: { type: String, required: false },
+        isLive: { type: Boolean, default: false },
+        startedAt: { type: Date, required: false },
+        updatedAt: { type: Date, required: false },
+        updatedBy: { type: String, required: false },
+      },
+      required: false,
+    },
+    questionQueue: {
+      type: {
+        enabled: { type: Boolean, default: false },
+        moderators: { type: [String], default: [] },
+        overlayToken: { type: String, required: false },
+        lastQuestionNumber: { type: Number, default: 0 },
+      },
+      required: false,
+    },
+    trivia: {
+      type: {
+        enabled: { type: Boolean, default: false },
+        source: { type: String, enum: TRIVIA_QUESTION_SOURCES, default: 'mixed' },
+        answerWindowSeconds: { type: Number, default: 30 },
+        points: { type: Number, default: 10 },
+        firstAnswerBonus: { type: Number, default: 5 },
+        questions: {
+          type: [
+            new Schema(
+              {
+                id: { type: String, required: true },
+                question: { type: String, required: true },
+                answers: { type: [String], default: [] },
+                gameTitle: { type: String, required: false },
+              },
+              { _id: false }
+            ),
+          ],
+          default: [],
+        },
+        predictionsEnabled: { type: Boolean, default: false },
+        predictionWindowSeconds: { type: Number, default: 60 },
+        predictionPoints: { type: Number, default: 10 },
+      },
+      required: false,
+    },
   },
   {
     collection: 'twitchbotchannels',
@@ -125,6 +250,7 @@ const TwitchBotChannelSchema = new Schema<ITwitchBotChannel>(
 // Create indexes for common queries
 TwitchBotChannelSchema.index({ isActive: 1, channelName: 1 });
 TwitchBotChannelSchema.index({ streamerUsername: 1, isActive: 1 });
+TwitchBotChannelSchema.index({ 'scheduledAnnouncements.status': 1, 'scheduledAnnouncements.sendAt': 1 });
 // Note: channelName index is automatically created by unique: true in schema
 
 const TwitchBotChannel =
@@ -2,12 +2,13 @@ import mongoose, { Document, Schema } from 'mongoose';
 
 /**
  * Interface for Twitch Engagement Events
- * Tracks engagement spikes (subs, follows, raids, hype moments) for contextual bot responses
+ * Tracks engagement spikes (subs, follows, raids, hype moments) for contextual bot responses,
+ * and chat games (trivia rounds, predictions) for analytics
  */
 export interface ITwitchEngagementEvent extends Document {
   channelName: string; // Channel name (lowercase, no #)
-  eventType: 'subscription' | 'follow' | 'raid' | 'hype_moment' | 'gift_subscription' | 'cheer';
-  eventSource: 'eventsub' | 'chat_velocity' | 'api'; // How the event was detected
+  eventType: 'subscription' | 'follow' | 'raid' | 'hype_moment' | 'gift_subscription' | 'cheer' | 'trivia_round' | 'prediction_round';
+  eventSource: 'eventsub' | 'chat_velocity' | 'api' | 'chat_game'; // How the event was detected
   
   // Event details
   username?: string; // User who triggered the event (for subs, follows, raids)
@@ -18,6 +19,9 @@ export interface ITwitchEngagementEvent extends Document {
   raidViewers?: number; // Number of raiders
   messageVelocity?: number; // Messages per minute during hype moment
   bits?: number; // Bits cheered
+  participants?: number; // Viewers who guessed or voted (trivia rounds, predictions)
+  correctAnswers?: number; // Viewers who answered correctly or called the outcome (trivia rounds, predictions)
+  gameTitle?: string; // Game being played during the trivia round or prediction
   
   // Engagement metrics at time of event
   activeViewers?: number; // Estimated active viewers
@@ -50,13 +54,13 @@ const twitchEngagementEventSchema = new Schema<ITwitchEngagementEvent>(
     eventType: {
       type: String,
       required: true,
-      enum: ['subscription', 'follow', 'raid', 'hype_moment', 'gift_subscription', 'cheer'],
+      enum: ['subscription', 'follow', 'raid', 'hype_moment', 'gift_subscription', 'cheer', 'trivia_round', 'prediction_round'],
       index: true
     },
     eventSource: {
       type: String,
       required: true,
-      enum: ['eventsub', 'chat_velocity', 'api'],
+      enum: ['eventsub', 'chat_velocity', 'api', 'chat_game'],
       index: true
     },
     username: {
@@ -98,6 +102,20 @@ const twitchEngagementEventSchema = new Schema<ITwitchEngagementEvent>(
       required: false,
       min: 1
     },
+    participants: {
+      type: Number,
+      required: false,
+      min: 0
+    },
+    correctAnswers: {
+      type: Number,
+      required: false,
+      min: 0
+    },
+    gameTitle: {
+      type: String,
+      required: false
+    },
     activeViewers: {
       type: Number,
       required: false,
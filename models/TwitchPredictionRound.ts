@@ -0,0 +1,126 @@
+import mongoose, { Document, Schema } from 'mongoose';
+
+/**
+ * A viewer's vote in a prediction
+ */
+export interface IPredictionVote {
+  username: string; // Twitch username (lowercase)
+  displayName: string;
+  outcome: number; // Index into the prediction's outcomes
+  votedAt: Date;
+}
+
+/**
+ * Interface for a prediction in a channel (see config/twitchPredictions.ts)
+ */
+export interface ITwitchPredictionRound extends Document {
+  channelName: string; // Channel name (lowercase, no #)
+  question: string;
+  outcomes: string[];
+  gameTitle?: string; // Game being played when it was opened
+  status: 'open' | 'resolved' | 'cancelled'; // Open until a moderator settles or cancels it
+  startedBy: string; // Twitch username of the moderator or streamer who opened it
+  startedAt: Date;
+  locksAt: Date; // Voting closes
+  votingClosed: boolean; // Closing the vote has been announced
+  votes: IPredictionVote[];
+  winningOutcome?: number; // Index into outcomes, once resolved
+  resolvedBy?: string; // Twitch username of the moderator who settled or cancelled it
+  closedAt?: Date;
+  pointsAwarded?: number; // Total points given out when it was resolved
+  createdAt?: Date;
+  updatedAt?: Date;
+}
+
+const predictionVoteSchema = new Schema<IPredictionVote>({
+  username: { type: String, required: true, lowercase: true },
+  displayName: { type: String, required: true },
+  outcome: { type: Number, required: true },
+  votedAt: { type: Date, default: Date.now }
+}, { _id: false });
+
+const twitchPredictionRoundSchema = new Schema<ITwitchPredictionRound>(
+  {
+    channelName: {
+      type: String,
+      required: true,
+      lowercase: true,
+      trim: true
+    },
+    question: {
+      type: String,
+      required: true
+    },
+    outcomes: {
+      type: [String],
+      default: []
+    },
+    gameTitle: {
+      type: String,
+      required: false
+    },
+    status: {
+      type: String,
+      enum: ['open', 'resolved', 'cancelled'],
+      default: 'open'
+    },
+    startedBy: {
+      type: String,
+      required: true
+    },
+    startedAt: {
+      type: Date,
+      required: true
+    },
+    locksAt: {
+      type: Date,
+      required: true
+    },
+    votingClosed: {
+      type: Boolean,
+      default: false
+    },
+    votes: {
+      type: [predictionVoteSchema],
+      default: []
+    },
+    winningOutcome: {
+      type: Number,
+      required: false
+    },
+    resolvedBy: {
+      type: String,
+      required: false
+    },
+    closedAt: {
+      type: Date,
+      required: false
+    },
+    pointsAwarded: {
+      type: Number,
+      required: false
+    }
+  },
+  {
+    collection: 'twitchpredictionrounds',
+    timestamps: true // Automatically adds createdAt and updatedAt
+  }
+);
+
+// One open prediction per channel, so two moderators opening one at once cannot start two
+twitchPredictionRoundSchema.index(
+  { channelName: 1 },
+  { unique: true, partialFilterExpression: { status: 'open' } }
+);
+
+// Voting to close and unsettled predictions to cancel, found by the periodic check
+twitchPredictionRoundSchema.index({ status: 1, locksAt: 1 });
+
+// Predictions are kept for 90 days; the leaderboard keeps the points
+twitchPredictionRoundSchema.index({ startedAt: 1 }, { expireAfterSeconds: 90 * 24 * 60 * 60 });
+
+const TwitchPredictionRound =
+  mongoose.models.TwitchPredictionRound ||
+  mongoose.model<ITwitchPredictionRound>('TwitchPredictionRound', twitchPredictionRoundSchema);
+
+export default TwitchPredictionRound;
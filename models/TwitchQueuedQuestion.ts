@@ -0,0 +1,126 @@
+import mongoose, { Document, Schema } from 'mongoose';
+import { QueuedQuestionStatus, QUEUED_QUESTION_STATUSES } from '../config/twitchQuestionQueue';
+
+/**
+ * A viewer who asked a queued question (or a similar one that was merged into it)
+ */
+export interface IQueuedQuestionAsker {
+  username: string; // Twitch username (lowercase)
+  displayName: string;
+  wingmanUsername?: string; // Linked Video Game Wingman account, for usage attribution
+  askedAt: Date;
+}
+
+/**
+ * Interface for a question waiting in a channel's question queue (see config/twitchQuestionQueue.ts)
+ */
+export interface ITwitchQueuedQuestion extends Document {
+  channelName: string; // Channel name (lowercase, no #)
+  number: number; // Per-channel id viewers use with !upvote
+  question: string;
+  normalizedQuestion: string; // Meaningful words only, for duplicate detection
+  askers: IQueuedQuestionAsker[]; // First entry asked it; later ones asked something similar
+  voters: string[]; // Twitch usernames that asked or upvoted (one vote each)
+  votes: number;
+  status: QueuedQuestionStatus;
+  answer?: string; // Streamer's answer, or the bot's once posted
+  answeredBy?: 'bot' | 'streamer';
+  reviewedBy?: string; // Video Game Wingman username that approved/rejected/answered it
+  reviewedAt?: Date;
+  claimedAt?: Date; // Set by the bot process posting an approved question's answer
+  answeredAt?: Date;
+  createdAt?: Date;
+  updatedAt?: Date;
+}
+
+const queuedQuestionAskerSchema = new Schema<IQueuedQuestionAsker>({
+  username: { type: String, required: true, lowercase: true },
+  displayName: { type: String, required: true },
+  wingmanUsername: { type: String, required: false },
+  askedAt: { type: Date, default: Date.now }
+}, { _id: false });
+
+const twitchQueuedQuestionSchema = new Schema<ITwitchQueuedQuestion>(
+  {
+    channelName: {
+      type: String,
+      required: true,
+      lowercase: true,
+      trim: true
+    },
+    number: {
+      type: Number,
+      required: true
+    },
+    question: {
+      type: String,
+      required: true
+    },
+    normalizedQuestion: {
+      type: String,
+      required: true
+    },
+    askers: {
+      type: [queuedQuestionAskerSchema],
+      default: []
+    },
+    voters: {
+      type: [String],
+      default: []
+    },
+    votes: {
+      type: Number,
+      default: 1
+    },
+    status: {
+      type: String,
+      enum: QUEUED_QUESTION_STATUSES,
+      default: 'pending'
+    },
+    answer: {
+      type: String,
+      required: false
+    },
+    answeredBy: {
+      type: String,
+      enum: ['bot', 'streamer'],
+      required: false
+    },
+    reviewedBy: {
+      type: String,
+      required: false
+    },
+    reviewedAt: {
+      type: Date,
+      required: false
+    },
+    claimedAt: {
+      type: Date,
+      required: false
+    },
+    answeredAt: {
+      type: Date,
+      required: false
+    }
+  },
+  {
+    collection: 'twitchqueuedquestions',
+    timestamps: true // Automatically adds createdAt and updatedAt
+  }
+);
+
+// !upvote looks questions up by their per-channel number
+twitchQueuedQuestionSchema.index({ channelName: 1, number: 1 }, { unique: true });
+
+// Queue page: pending questions by votes, reviewed ones by recency
+twitchQueuedQuestionSchema.index({ channelName: 1, status: 1, votes: -1 });
+twitchQueuedQuestionSchema.index({ status: 1, reviewedAt: 1 });
+
+// Reviewed questions are kept for 30 days; pending ones have no reviewedAt and never expire
+twitchQueuedQuestionSchema.index({ reviewedAt: 1 }, { expireAfterSeconds: 30 * 24 * 60 * 60 });
+
+const TwitchQueuedQuestion =
+  mongoose.models.TwitchQueuedQuestion ||
+  mongoose.model<ITwitchQueuedQuestion>('TwitchQueuedQuestion', twitchQueuedQuestionSchema);
+
+export default TwitchQueuedQuestion;
@@ -0,0 +1,61 @@
+import mongoose, { Document, Schema } from 'mongoose';
+
+/**
+ * Interface for an AI-generated trivia question, cached per game and shared by every channel
+ * playing it (streamers' own questions are stored on TwitchBotChannel)
+ */
+export interface ITwitchTriviaQuestion extends Document {
+  gameKey: string; // Normalized game title (see getTriviaGameKey)
+  gameTitle: string;
+  question: string;
+  answers: string[]; // Accepted answers; the first is the one announced
+  timesAsked: number;
+  lastAskedAt?: Date;
+  createdAt?: Date;
+  updatedAt?: Date;
+}
+
+const twitchTriviaQuestionSchema = new Schema<ITwitchTriviaQuestion>(
+  {
+    gameKey: {
+      type: String,
+      required: true
+    },
+    gameTitle: {
+      type: String,
+      required: true
+    },
+    question: {
+      type: String,
+      required: true
+    },
+    answers: {
+      type: [String],
+      default: []
+    },
+    timesAsked: {
+      type: Number,
+      default: 0
+    },
+    lastAskedAt: {
+      type: Date,
+      required: false
+    }
+  },
+  {
+    collection: 'twitchtriviaquestions',
+    timestamps: true // Automatically adds createdAt and updatedAt
+  }
+);
+
+// The same question is not cached twice for a game
+twitchTriviaQuestionSchema.index({ gameKey: 1, question: 1 }, { unique: true });
+
+// Generated questions are refreshed after 180 days, in case games are updated
+twitchTriviaQuestionSchema.index({ createdAt: 1 }, { expireAfterSeconds: 180 * 24 * 60 * 60 });
+
+const TwitchTriviaQuestion =
+  mongoose.models.TwitchTriviaQuestion ||
+  mongoose.model<ITwitchTriviaQuestion>('TwitchTriviaQuestion', twitchTriviaQuestionSchema);
+
+export default TwitchTriviaQuestion;
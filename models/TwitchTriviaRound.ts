@@ -0,0 +1,133 @@
+import mongoose, { Document, Schema } from 'mongoose';
+
+/**
+ * A viewer who answered a trivia round correctly
+ */
+export interface ITriviaCorrectAnswer {
+  username: string; // Twitch username (lowercase)
+  displayName: string;
+  answeredAt: Date;
+}
+
+/**
+ * Interface for a trivia round in a channel (see config/twitchTrivia.ts)
+ */
+export interface ITwitchTriviaRound extends Document {
+  channelName: string; // Channel name (lowercase, no #)
+  question: string;
+  answers: string[]; // Accepted answers; the first is the one announced
+  source: 'bank' | 'ai';
+  bankQuestionId?: string; // Streamer's bank question, if it came from the bank
+  gameTitle?: string; // Game the question is about
+  status: 'open' | 'closed';
+  startedBy: string; // Twitch username of the moderator or streamer who started it
+  startedAt: Date;
+  endsAt: Date;
+  closedAt?: Date;
+  correct: ITriviaCorrectAnswer[]; // In the order they answered
+  participants: string[]; // Twitch usernames that guessed
+  guessCount: number;
+  pointsAwarded?: number; // Total points given out when the round closed
+  createdAt?: Date;
+  updatedAt?: Date;
+}
+
+const triviaCorrectAnswerSchema = new Schema<ITriviaCorrectAnswer>({
+  username: { type: String, required: true, lowercase: true },
+  displayName: { type: String, required: true },
+  answeredAt: { type: Date, default: Date.now }
+}, { _id: false });
+
+const twitchTriviaRoundSchema = new Schema<ITwitchTriviaRound>(
+  {
+    channelName: {
+      type: String,
+      required: true,
+      lowercase: true,
+      trim: true
+    },
+    question: {
+      type: String,
+      required: true
+    },
+    answers: {
+      type: [String],
+      default: []
+    },
+    source: {
+      type: String,
+      enum: ['bank', 'ai'],
+      required: true
+    },
+    bankQuestionId: {
+      type: String,
+      required: false
+    },
+    gameTitle: {
+      type: String,
+      required: false
+    },
+    status: {
+      type: String,
+      enum: ['open', 'closed'],
+      default: 'open'
+    },
+    startedBy: {
+      type: String,
+      required: true
+    },
+    startedAt: {
+      type: Date,
+      required: true
+    },
+    endsAt: {
+      type: Date,
+      required: true
+    },
+    closedAt: {
+      type: Date,
+      required: false
+    },
+    correct: {
+      type: [triviaCorrectAnswerSchema],
+      default: []
+    },
+    participants: {
+      type: [String],
+      default: []
+    },
+    guessCount: {
+      type: Number,
+      default: 0
+    },
+    pointsAwarded: {
+      type: Number,
+      required: false
+    }
+  },
+  {
+    collection: 'twitchtriviarounds',
+    timestamps: true // Automatically adds createdAt and updatedAt
+  }
+);
+
+// One open round per channel, so two moderators typing !trivia at once cannot start two
+twitchTriviaRoundSchema.index(
+  { channelName: 1 },
+  { unique: true, partialFilterExpression: { status: 'open' } }
+);
+
+// Recent rounds, to avoid repeating questions
+twitchTriviaRoundSchema.index({ channelName: 1, startedAt: -1 });
+
+// Overdue rounds closed by the periodic check
+twitchTriviaRoundSchema.index({ status: 1, endsAt: 1 });
+
+// Rounds are kept for 90 days; the leaderboard keeps the points
+twitchTriviaRoundSchema.index({ startedAt: 1 }, { expireAfterSeconds: 90 * 24 * 60 * 60 });
+
+const TwitchTriviaRound =
+  mongoose.models.TwitchTriviaRound ||
+  mongoose.model<ITwitchTriviaRound>('TwitchTriviaRound', twitchTriviaRoundSchema);
+
+export default TwitchTriviaRound;
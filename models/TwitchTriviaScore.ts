@@ -0,0 +1,72 @@
+import mongoose, { Document, Schema } from 'mongoose';
+
+/**
+ * Interface for a viewer's trivia and prediction points in a channel (the channel's leaderboard)
+ */
+export interface ITwitchTriviaScore extends Document {
+  channelName: string; // Channel name (lowercase, no #)
+  username: string; // Twitch username (lowercase)
+  displayName: string; // Latest display name
+  points: number;
+  correctAnswers: number;
+  firstAnswers: number; // Rounds where they answered correctly first
+  correctPredictions: number; // Predictions whose outcome they called
+  lastCorrectAt?: Date; // Latest correct answer or prediction
+  createdAt?: Date;
+  updatedAt?: Date;
+}
+
+const twitchTriviaScoreSchema = new Schema<ITwitchTriviaScore>(
+  {
+    channelName: {
+      type: String,
+      required: true,
+      lowercase: true,
+      trim: true
+    },
+    username: {
+      type: String,
+      required: true,
+      lowercase: true
+    },
+    displayName: {
+      type: String,
+      required: true
+    },
+    points: {
+      type: Number,
+      default: 0
+    },
+    correctAnswers: {
+      type: Number,
+      default: 0
+    },
+    firstAnswers: {
+      type: Number,
+      default: 0
+    },
+    correctPredictions: {
+      type: Number,
+      default: 0
+    },
+    lastCorrectAt: {
+      type: Date,
+      required: false
+    }
+  },
+  {
+    collection: 'twitchtriviascores',
+    timestamps: true // Automatically adds createdAt and updatedAt
+  }
+);
+
+twitchTriviaScoreSchema.index({ channelName: 1, username: 1 }, { unique: true });
+
+// Leaderboard (!top and the dashboard)
+twitchTriviaScoreSchema.index({ channelName: 1, points: -1 });
+
+const TwitchTriviaScore =
+  mongoose.models.TwitchTriviaScore ||
+  mongoose.model<ITwitchTriviaScore>('TwitchTriviaScore', twitchTriviaScoreSchema);
+
+export default TwitchTriviaScore;
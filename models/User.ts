@@ -1,6 +1,13 @@
 import mongoose, { Document, Schema } from 'mongoose';
 import { Achievement, Progress, Subscription, UsageLimit, HealthMonitoring, ChallengeProgress, ChallengeStreak, ChallengeReward, ChallengeHistoryEntry } from '../types';
 
+/**
+ * Staff roles, granted through /api/admin/roles (see utils/adminAccess.ts for what each role can do)
+ */
+export type UserRole = 'admin' | 'moderator' | 'support' | 'streamer-manager';
+
+export const USER_ROLES: UserRole[] = ['admin', 'moderator', 'support', 'streamer-manager'];
+
 export interface IUser extends Document {
   userId: string;
   username: string;
@@ -20,6 +27,23 @@ export interface IUser extends Document {
   unlockToken?: string; // Token for email-based unlock
   unlockTokenExpires?: Date; // Unlock token expiration
   lastFailedLoginAttempt?: Date; // Timestamp of last failed login attempt
+  passwordResetRequired?: boolean; // Set when a login is reported as "this wasn't me"; sign-in is refused until the password is reset
+  // TOTP two-factor authentication (see utils/twoFactor.ts)
+  twoFactor?: {
+    enabled: boolean;
+    secret?: string; // Encrypted TOTP secret
+    pendingSecret?: string; // Encrypted secret awaiting its first code during enrollment
+    enabledAt?: Date;
+    lastUsedStep?: number; // Last accepted TOTP time step (prevents code replay)
+    recoveryCodes?: Array<{ hash: string; usedAt?: Date }>; // SHA-256 of one-time recovery codes
+  };
+  // Self-service account deletion (see utils/accountDeletion.ts)
+  deletionRequestedAt?: Date; // When the user asked to delete their account
+  deletionScheduledFor?: Date; // When the account will be purged unless restored
+  deletionRestoreToken?: string; // Token for the emailed restore link
+  deletionPurgeAttempts?: number; // Purges that left steps behind
+  deletionPurgeRetryAt?: Date; // Backoff before retrying an incomplete purge
+  deletionReceiptId?: string; // Receipt of the first purge attempt, reused by retries
   conversationCount: number;
   hasProAccess: boolean;
   achievements: Achievement[];
@@ -92,6 +116,11 @@ export interface IUser extends Document {
   // Twitch account linking (for viewers to link their Twitch accounts)
   twitchUsername?: string; // Twitch username (login)
   twitchId?: string; // Twitch user ID
+  // Discord account linking via the bot's /link command (users who signed up with Discord
+  // already have their Discord ID as userId)
+  discordId?: string; // Discord user ID
+  discordUsername?: string; // Discord username at the time of linking
+  roles?: UserRole[]; // Staff roles; regular users have none
   createdAt?: Date; // Mongoose timestamp
   updatedAt?: Date; // Mongoose timestamp
   // Methods
@@ -167,6 +196,29 @@ const UserSchema = new Schema<IUser>({
   unlockToken: { type: String, required: false },
   unlockTokenExpires: { type: Date, required: false },
   lastFailedLoginAttempt: { type: Date, required: false },
+  passwordResetRequired: { type: Boolean, required: false },
+  twoFactor: {
+    enabled: { type: Boolean, default: false },
+    secret: { type: String, required: false, select: false },
+    pendingSecret: { type: String, required: false, select: false },
+    enabledAt: { type: Date, required: false },
+    lastUsedStep: { type: Number, required: false },
+    recoveryCodes: {
+      type: [{
+        hash: { type: String, required: true },
+        usedAt: { type: Date, required: false },
+        _id: false
+      }],
+      default: undefined,
+      select: false
+    }
+  },
+  deletionRequestedAt: { type: Date, required: false },
+  deletionScheduledFor: { type: Date, required: false },
+  deletionRestoreToken: { type: String, required: false },
+  deletionPurgeAttempts: { type: Number, required: false },
+  deletionPurgeRetryAt: { type: Date, required: false },
+  deletionReceiptId: { type: String, required: false },
   conversationCount: { type: Number, required: true, default: 0 },
   hasProAccess: { type: Boolean, default: false },
   achievements: [
@@ -421,9 +473,18 @@ const UserSchema = new Schema<IUser>({
   },
   // Twitch account linking (for viewers to link their Twitch accounts)
   twitchUsername: { type: String, required: false, sparse: true, index: true },
-  twitchId: { type: String, required: false, sparse: true, index: true }
+  twitchId: { type: String, required: false, sparse: true, index: true },
+  discordId: { type: String, required: false, sparse: true, unique: true },
+  discordUsername: { type: String, required: false },
+  roles: {
+    type: [{ type: String, enum: USER_ROLES }],
+    default: undefined // Not stored for regular users
+  }
 }, { collection: 'users' });
 
+// Staff list in the role management endpoint
+UserSchema.index({ roles: 1 }, { sparse: true });
+
 // Create indexes for subscription-related queries
 UserSchema.index({ 'subscription.status': 1 });
 UserSchema.index({ 'subscription.earlyAccessGranted': 1 });
@@ -446,6 +507,10 @@ UserSchema.index({ 'requiresPasswordSetup': 1 });
 UserSchema.index({ 'passwordResetCode': 1 });
 UserSchema.index({ 'lastPasswordResetRequest': 1 });
 
+// Account deletion: purge sweep and restore links
+UserSchema.index({ deletionScheduledFor: 1 }, { sparse: true });
+UserSchema.index({ deletionRestoreToken: 1 }, { sparse: true });
+
 // Method to check if user has active Pro access
 UserSchema.methods.hasActiveProAccess = function (): boolean {
   const now = new Date();
@@ -0,0 +1,74 @@
+import type { NextApiResponse } from 'next';
+import mongoose from 'mongoose';
+import User from '../../../models/User';
+import { connectToWingmanDB } from '../../../utils/databaseConnections';
+import { requireAuth, AuthenticatedRequest } from '../../../middleware/auth';
+import { getTokenFromCookies, clearAuthCookies, ACCESS_TOKEN_COOKIE, REFRESH_TOKEN_COOKIE } from '../../../utils/session';
+import { blacklistToken } from '../../../utils/tokenBlacklist';
+import { requestAccountDeletion, DELETION_GRACE_PERIOD_DAYS } from '../../../utils/accountDeletion';
+import { TWO_FACTOR_SECRET_FIELDS } from '../../../utils/twoFactor';
+
+/**
+ * Account Deletion Endpoint
+ *
+ * POST /api/account/delete
+ * - Body: { password?: string, confirmUsername?: string, twoFactorCode?: string }
+ *   (password for accounts that have one, otherwise the username typed out, plus a code
+ *   when two-factor is enabled)
+ * - Cancels the Pro subscription, signs out every session and schedules the account to be
+ *   purged after the grace period. A restore link is emailed to the user.
+ */
+export default async function handler(req: AuthenticatedRequest, res: NextApiResponse) {
+  if (req.method !== 'POST') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  try {
+    const authResult = await requireAuth(req, res);
+    if (!authResult.authenticated || !authResult.userId || !authResult.username) {
+      return res.status(401).json({ error: 'Authentication required' });
+    }
+
+    if (mongoose.connection.readyState !== 1) {
+      await connectToWingmanDB();
+    }
+
+    const user = await User.findOne({ username: authResult.username }).select(TWO_FACTOR_SECRET_FIELDS);
+    if (!user) {
+      return res.status(404).json({ error: 'User not found' });
+    }
+
+    const { password, confirmUsername, twoFactorCode } = req.body || {};
+    const result = await requestAccountDeletion(user, {
+      password: typeof password === 'string' ? password : undefined,
+      confirmUsername: typeof confirmUsername === 'string' ? confirmUsername : undefined,
+      twoFactorCode: typeof twoFactorCode === 'string' ? twoFactorCode : undefined,
+    });
+
+    // Sign out this device now; other devices can no longer refresh their sessions
+    const accessToken = getTokenFromCookies(req.headers.cookie, ACCESS_TOKEN_COOKIE);
+    const refreshToken = getTokenFromCookies(req.headers.cookie, REFRESH_TOKEN_COOKIE);
+    if (accessToken) {
+      await blacklistToken(accessToken, authResult.userId, authResult.username, 'access', 'account_deletion').catch(() => undefined);
+    }
+    if (refreshToken) {
+      await blacklistToken(refreshToken, authResult.userId, authResult.username, 'refresh', 'account_deletion').catch(() => undefined);
+    }
+    clearAuthCookies(res);
+
+    return res.status(200).json({
+      success: true,
+      message: result.emailSent
+        ? `Your account will be deleted in ${DELETION_GRACE_PERIOD_DAYS} days. We've emailed you a link to restore it before then.`
+        : `Your account will be deleted in ${DELETION_GRACE_PERIOD_DAYS} days. Contact support if you change your mind.`,
+      scheduledFor: result.scheduledFor,
+      subscription: result.subscription,
+    });
+  } catch (error: any) {
+    if (error?.statusCode) {
+      return res.status(error.statusCode).json({ error: error.message, twoFactorRequired: error.twoFactorRequired });
+    }
+    console.error('Error requesting account deletion:', error);
+    return res.status(500).json({ error: 'Failed to delete account' });
+  }
+}
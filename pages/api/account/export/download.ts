@@ -0,0 +1,64 @@
+import type { NextApiResponse } from 'next';
+import mongoose from 'mongoose';
+import { connectToWingmanDB } from '../../../../utils/databaseConnections';
+import { requireAuth, AuthenticatedRequest } from '../../../../middleware/auth';
+import { getDownloadableExport } from '../../../../utils/dataExport';
+
+export const config = {
+  api: {
+    responseLimit: false, // Archives are streamed
+  },
+};
+
+/**
+ * GET /api/account/export/download?token=...
+ * Streams a finished data export ZIP. The link only works for the account that requested
+ * the export, and only until the export expires.
+ */
+export default async function handler(req: AuthenticatedRequest, res: NextApiResponse) {
+  if (req.method !== 'GET') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  try {
+    const authResult = await requireAuth(req, res);
+    if (!authResult.authenticated || !authResult.username) {
+      return res.status(401).json({ error: 'Authentication required' });
+    }
+
+    const { token } = req.query;
+    if (typeof token !== 'string' || !token) {
+      return res.status(400).json({ error: 'Download token is required' });
+    }
+
+    if (mongoose.connection.readyState !== 1) {
+      await connectToWingmanDB();
+    }
+
+    const { fileName, fileSize, stream } = await getDownloadableExport(authResult.username, token);
+
+    res.setHeader('Content-Type', 'application/zip');
+    res.setHeader('Content-Disposition', `attachment; filename="${fileName}"`);
+    res.setHeader('Cache-Control', 'private, no-store');
+    if (fileSize) {
+      res.setHeader('Content-Length', String(fileSize));
+    }
+
+    await new Promise<void>((resolve, reject) => {
+      stream.on('error', reject);
+      stream.on('end', () => resolve());
+      stream.pipe(res);
+    });
+  } catch (error: any) {
+    if (res.headersSent) {
+      console.error('Error streaming data export:', error);
+      res.end();
+      return;
+    }
+    if (error?.statusCode) {
+      return res.status(error.statusCode).json({ error: error.message });
+    }
+    console.error('Error downloading data export:', error);
+    return res.status(500).json({ error: 'Failed to download data export' });
+  }
+}
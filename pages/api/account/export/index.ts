@@ -0,0 +1,62 @@
+import type { NextApiResponse } from 'next';
+import mongoose from 'mongoose';
+import DataExport from '../../../../models/DataExport';
+import { connectToWingmanDB } from '../../../../utils/databaseConnections';
+import { requireAuth, AuthenticatedRequest } from '../../../../middleware/auth';
+import { requestDataExport, serializeDataExport, sweepDataExports } from '../../../../utils/dataExport';
+
+/**
+ * Account Data Export Endpoint
+ *
+ * GET /api/account/export
+ * - Status of the signed-in user's latest export, with a download link once it's ready
+ *
+ * POST /api/account/export
+ * - Starts a new export in the background (one at a time, at most once an hour)
+ * - Poll GET until status is 'ready' or 'failed'
+ */
+export default async function handler(req: AuthenticatedRequest, res: NextApiResponse) {
+  if (req.method !== 'GET' && req.method !== 'POST') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  try {
+    const authResult = await requireAuth(req, res);
+    if (!authResult.authenticated || !authResult.username) {
+      return res.status(401).json({ error: 'Authentication required' });
+    }
+    const username = authResult.username;
+
+    if (mongoose.connection.readyState !== 1) {
+      await connectToWingmanDB();
+    }
+
+    if (req.method === 'GET') {
+      await sweepDataExports(username);
+      const latest = await DataExport.findOne({ username })
+        .select('+downloadToken')
+        .sort({ createdAt: -1 })
+        .lean();
+
+      return res.status(200).json({
+        success: true,
+        export: latest ? serializeDataExport(latest) : null,
+      });
+    }
+
+    const job = await requestDataExport(username, authResult.userId);
+    console.log(`[Data Export] ${username} requested a data export (${job._id})`);
+
+    return res.status(202).json({
+      success: true,
+      message: "Your export is being prepared. We'll have a download link ready shortly.",
+      export: serializeDataExport(job.toObject()),
+    });
+  } catch (error: any) {
+    if (error?.statusCode) {
+      return res.status(error.statusCode).json({ error: error.message });
+    }
+    console.error('Error handling data export request:', error);
+    return res.status(500).json({ error: 'Failed to process data export request' });
+  }
+}
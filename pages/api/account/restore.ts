@@ -0,0 +1,43 @@
+import type { NextApiRequest, NextApiResponse } from 'next';
+import mongoose from 'mongoose';
+import { connectToWingmanDB } from '../../../utils/databaseConnections';
+import { restoreAccount } from '../../../utils/accountDeletion';
+
+/**
+ * API endpoint to cancel a scheduled account deletion using the emailed restore token
+ * POST /api/account/restore
+ * Body: { token: string }
+ */
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (req.method !== 'POST') {
+    return res.status(405).json({ message: 'Method not allowed' });
+  }
+
+  const { token } = req.body || {};
+  if (!token || typeof token !== 'string') {
+    return res.status(400).json({ message: 'Restore token is required' });
+  }
+
+  try {
+    if (mongoose.connection.readyState !== 1) {
+      await connectToWingmanDB();
+    }
+
+    const user = await restoreAccount(token);
+
+    return res.status(200).json({
+      success: true,
+      message: user.subscription?.cancelAtPeriodEnd
+        ? 'Your account has been restored. You can sign in again. Your subscription is still set to cancel; reactivate it from Manage Subscription if you want to keep Pro.'
+        : 'Your account has been restored. You can sign in again.',
+    });
+  } catch (error: any) {
+    if (error?.statusCode) {
+      return res.status(error.statusCode).json({ message: error.message });
+    }
+    console.error('Error in restore-account API:', error);
+    return res.status(500).json({
+      message: 'Error restoring account. Please try again or contact support.',
+    });
+  }
+}
@@ -0,0 +1,45 @@
+import type { NextApiResponse } from 'next';
+import mongoose from 'mongoose';
+import { connectToWingmanDB } from '../../../utils/databaseConnections';
+import { requireAuth, AuthenticatedRequest } from '../../../middleware/auth';
+import { getSecurityTimeline } from '../../../utils/securityEvents';
+
+/**
+ * Security Events Timeline Endpoint
+ *
+ * GET /api/account/security-events?limit=25&before=<ISO date>
+ * - Newest-first sign-ins and security changes for the signed-in user
+ * - Pass the createdAt of the last event as `before` to load older events
+ */
+export default async function handler(req: AuthenticatedRequest, res: NextApiResponse) {
+  if (req.method !== 'GET') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  try {
+    const authResult = await requireAuth(req, res);
+    if (!authResult.authenticated || !authResult.userId) {
+      return res.status(401).json({ error: 'Authentication required' });
+    }
+
+    const limit = parseInt(String(req.query.limit || ''), 10);
+    const before = typeof req.query.before === 'string' ? new Date(req.query.before) : undefined;
+    if (before && isNaN(before.getTime())) {
+      return res.status(400).json({ error: 'Invalid before date' });
+    }
+
+    if (mongoose.connection.readyState !== 1) {
+      await connectToWingmanDB();
+    }
+
+    const events = await getSecurityTimeline(authResult.userId, {
+      limit: isNaN(limit) || limit < 1 ? undefined : limit,
+      before,
+    });
+
+    return res.status(200).json({ success: true, events });
+  } catch (error) {
+    console.error('Error loading security events:', error);
+    return res.status(500).json({ error: 'Failed to load security events' });
+  }
+}
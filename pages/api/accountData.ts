@@ -1,33 +1,20 @@
-import type { NextApiRequest, NextApiResponse } from 'next';
+import type { NextApiResponse } from 'next';
 import { connectToWingmanDB } from '../../utils/databaseConnections';
 import User from '../../models/User';
 import Question from '../../models/Question';
-import { getSession } from '../../utils/session';
+import { requireAuth, AuthenticatedRequest } from '../../middleware/auth';
 
-export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+export default async function handler(req: AuthenticatedRequest, res: NextApiResponse) {
   if (req.method !== 'POST') {
     return res.status(405).json({ message: 'Method not allowed' });
   }
 
   try {
-    let { username } = req.body;
-
-    // If username not provided in body, try to get it from session
-    if (!username) {
-      try {
-        const session = await getSession(req);
-        if (session && session.username) {
-          username = session.username;
-        }
-      } catch (error) {
-        // Session check failed, will require username in body
-        console.error('Error getting session:', error);
-      }
-    }
-
-    if (!username) {
-      return res.status(400).json({ message: 'Username is required. Please provide username in request body or sign in.' });
+    const authResult = await requireAuth(req, res);
+    if (!authResult.authenticated || !authResult.username) {
+      return res.status(401).json({ message: 'Authentication required' });
     }
+    const username = authResult.username;
 
     await connectToWingmanDB();
 
@@ -57,6 +44,7 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
         weeklyDigest: user.weeklyDigest || { enabled: true },
         twitchUsername: user.twitchUsername || null,
         twitchId: user.twitchId || null,
+        twoFactorEnabled: Boolean(user.twoFactor?.enabled),
         createdAt: user.createdAt,
         updatedAt: user.updatedAt
       }
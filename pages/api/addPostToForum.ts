@@ -1,18 +1,29 @@
-import type { NextApiRequest, NextApiResponse } from 'next';
+import type { NextApiResponse } from 'next';
 import mongoose from 'mongoose';
 import connectToMongoDB from '../../utils/mongodb';
 import Forum from '../../models/Forum';
+import ForumPost from '../../models/ForumPost';
 import { containsOffensiveContent } from '../../utils/contentModeration';
 import { checkUserBanStatus } from '../../utils/violationHandler';
+import { notifyUser } from '../../middleware/realtime';
+import { notifyForumReply, notifyForumMentions, truncatePreview } from '../../utils/notifications';
+import { serializeForumPost } from '../../utils/forumPosts';
+import { requireAuth, AuthenticatedRequest } from '../../middleware/auth';
 
-export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+export default async function handler(req: AuthenticatedRequest, res: NextApiResponse) {
   if (req.method !== 'POST') {
     return res.status(405).json({ error: 'Method not allowed' });
   }
 
   try {
+    const authResult = await requireAuth(req, res);
+    if (!authResult.authenticated || !authResult.username) {
+      return res.status(401).json({ error: 'Authentication required' });
+    }
+    const username = authResult.username;
+
     await connectToMongoDB();
-    const { forumId, message, username, attachments, replyTo } = req.body;
+    const { forumId, message, attachments, replyTo } = req.body;
 
     // Log the request for debugging (especially for 400 errors)
     console.log('addPostToForum request:', {
@@ -28,7 +39,6 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
     // Allow empty message if attachments are provided (like social media posts)
     const missingFields: string[] = [];
     if (!forumId) missingFields.push('forumId');
-    if (!username) missingFields.push('username');
     
     // Check if message or attachments are provided
     const hasMessage = message && typeof message === 'string' && message.trim().length > 0;
@@ -76,8 +86,14 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
       return res.status(403).json({ error: 'Forum is not active' });
     }
 
+    // Locked by a moderator: readable, but no new posts
+    if (forum.isLocked) {
+      return res.status(403).json({ error: 'This topic is locked' });
+    }
+
     // Validate replyTo if provided
     let replyToObjectId = null;
+    let repliedToAuthor: string | null = null;
     if (replyTo) {
       // Validate that replyTo is a valid ObjectId format
       if (!mongoose.Types.ObjectId.isValid(replyTo)) {
@@ -85,15 +101,16 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
       }
       
       // Check that the post being replied to exists in this forum
-      const repliedToPost = forum.posts.find((p: any) => 
-        p._id && p._id.toString() === replyTo.toString()
-      );
+      const repliedToPost = await ForumPost.findOne({ _id: replyTo, forumId })
+        .select('username')
+        .lean() as { username: string } | null;
       
       if (!repliedToPost) {
         return res.status(404).json({ error: 'Post being replied to not found in this forum' });
       }
       
       replyToObjectId = new mongoose.Types.ObjectId(replyTo);
+      repliedToAuthor = repliedToPost.username;
     }
 
     // Validate attachments if provided
@@ -131,15 +148,18 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
     // Check for duplicate posts by the same user in this forum (within last 24 hours)
     // This prevents automated users from posting the same message multiple times
     const oneDayAgo = new Date(Date.now() - 24 * 60 * 60 * 1000);
-    const recentPostsByUser = forum.posts.filter((p: any) => 
-      p.username === username &&
-      p.metadata?.status === 'active' &&
-      new Date(p.timestamp) > oneDayAgo &&
-      hasMessage && p.message && p.message.trim().length > 0
-    );
+    const recentPostsByUser = hasMessage
+      ? await ForumPost.find({
+          forumId,
+          username,
+          'metadata.status': 'active',
+          timestamp: { $gt: oneDayAgo },
+          message: { $ne: '' }
+        }).select('message').lean() as unknown as Array<{ message: string }>
+      : [];
     
     // Check for exact duplicate message
-    if (hasMessage && recentPostsByUser.some((p: any) => 
+    if (hasMessage && recentPostsByUser.some((p) => 
       p.message.trim().toLowerCase() === message.trim().toLowerCase()
     )) {
       console.warn('Duplicate post detected:', {
@@ -198,8 +218,8 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
 
     // Create new post with proper structure matching the schema
     // Use message if provided, otherwise use empty string (images-only post)
-    const newPost = {
-      _id: new mongoose.Types.ObjectId(), // Generate ObjectId for the post
+    const newPost = await ForumPost.create({
+      forumId,
       username,
       message: hasMessage ? message.trim() : '', // Allow empty message for image-only posts
       timestamp: new Date(),
@@ -219,33 +239,63 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
         })),
         status: 'active'
       }
-    };
+    });
 
-    // Use findOneAndUpdate with $push to add post without validating entire array
-    // This avoids validation errors on existing posts that might be missing fields
     const updatedForum = await Forum.findOneAndUpdate(
       { forumId },
       {
-        $push: { posts: newPost },
+        $inc: { 'metadata.totalPosts': 1 },
         $set: {
-          'metadata.totalPosts': (forum.metadata.totalPosts || 0) + 1,
           'metadata.lastActivityAt': new Date(),
           'metadata.status': 'active' // Reactivate forum when a new post is added (even if it was inactive)
         }
       },
-      {
-        new: true,
-        runValidators: false // Skip validation to avoid issues with existing posts
-      }
+      { new: true }
     );
 
     if (!updatedForum) {
       return res.status(404).json({ error: 'Forum not found after update' });
     }
 
+    // Let the author of the post being replied to know (not when replying to yourself)
+    if (replyToObjectId && repliedToAuthor && repliedToAuthor !== username) {
+      notifyUser(repliedToAuthor, 'forumReply', {
+        forumId,
+        forumTitle: updatedForum.title,
+        postId: newPost._id.toString(),
+        replyToPostId: replyToObjectId.toString(),
+        repliedBy: username,
+        preview: truncatePreview(newPost.message || 'Shared an image'),
+        message: `${username} replied to your post in ${updatedForum.title}`
+      });
+      await notifyForumReply({
+        recipient: repliedToAuthor,
+        repliedBy: username,
+        forumId,
+        forumTitle: updatedForum.title,
+        postId: newPost._id.toString(),
+        replyToPostId: replyToObjectId.toString(),
+        message: newPost.message
+      });
+    }
+
+    // @mentions (the replied-to author already got a reply notification)
+    if (hasMessage) {
+      await notifyForumMentions({
+        author: username,
+        forumId,
+        forumTitle: updatedForum.title,
+        postId: newPost._id.toString(),
+        message: newPost.message,
+        allowedUsers: updatedForum.isPrivate ? updatedForum.allowedUsers : undefined,
+        skip: repliedToAuthor ? [repliedToAuthor] : []
+      });
+    }
+
     return res.status(200).json({ 
       message: 'Post added successfully', 
-      forum: updatedForum
+      forum: updatedForum,
+      post: serializeForumPost(newPost)
     });
   } catch (error: any) {
     console.error('Error adding post:', error);
@@ -259,14 +309,6 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
       });
     }
     
-    // Check for MongoDB document size limit (16MB)
-    if (error.message && error.message.includes('maximum document size')) {
-      return res.status(400).json({ 
-        error: 'Forum has reached maximum size limit',
-        details: 'The forum has too many posts. Please contact support or create a new forum.'
-      });
-    }
-    
     return res.status(500).json({ 
       error: 'Failed to add post',
       details: process.env.NODE_ENV === 'development' ? error.message : undefined
@@ -1,13 +1,20 @@
-import type { NextApiRequest, NextApiResponse } from 'next';
+import type { NextApiResponse } from 'next';
 import connectToMongoDB from '../../utils/mongodb';
 import Forum from '../../models/Forum';
+import { requireAuth, AuthenticatedRequest } from '../../middleware/auth';
 
-export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+export default async function handler(req: AuthenticatedRequest, res: NextApiResponse) {
   if (req.method !== 'POST') {
     return res.status(405).json({ error: 'Method not allowed' });
   }
 
   try {
+    const authResult = await requireAuth(req, res);
+    if (!authResult.authenticated || !authResult.username) {
+      return res.status(401).json({ error: 'Authentication required' });
+    }
+    const username = authResult.username;
+
     await connectToMongoDB();
     const { forumTitle, usernameToAdd } = req.body;
 
@@ -22,6 +29,11 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
       return res.status(404).json({ error: `Forum "${forumTitle}" not found` });
     }
 
+    // Only the creator manages who can see a private forum
+    if (forum.createdBy !== username) {
+      return res.status(403).json({ error: 'Not authorized' });
+    }
+
     console.log(`Found forum: ${forum.title}`);
     console.log(`Current allowedUsers:`, forum.allowedUsers);
 
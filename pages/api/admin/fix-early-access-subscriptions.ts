@@ -1,10 +1,11 @@
-import type { NextApiRequest, NextApiResponse } from 'next';
+import type { NextApiResponse } from 'next';
 import { connectToWingmanDB, connectToSplashDB } from '../../../utils/databaseConnections';
 import User from '../../../models/User';
 import { requireAdminAccess } from '../../../utils/adminAccess';
 import mongoose from 'mongoose';
 import { Schema } from 'mongoose';
 import { ISplashUser } from '../../../types';
+import { requireAuth, AuthenticatedRequest } from '../../../middleware/auth';
 
 // SplashDB User schema (same as in proAccessUtil.ts)
 // Explicitly set collection name to 'users' since that's where the data is stored in splash database
@@ -25,20 +26,21 @@ const splashUserSchema = new Schema<ISplashUser>({
  * This finds all users with hasProAccess: true but wrong subscription status
  * and updates them to free_period if they're eligible for early access
  */
-export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+export default async function handler(req: AuthenticatedRequest, res: NextApiResponse) {
   // Allow both GET and POST for convenience (GET from browser, POST from scripts)
   if (req.method !== 'GET' && req.method !== 'POST') {
     return res.status(405).json({ message: 'Method not allowed' });
   }
 
   try {
-    // Get username from request (from query params for GET, body/headers for POST)
-    const username = req.method === 'GET' 
-      ? (req.query.username as string)
-      : (req.headers['x-username'] as string || req.body.username);
-    
+    // Scripts authenticate with an access token in the Authorization header
+    const authResult = await requireAuth(req, res);
+    if (!authResult.authenticated || !authResult.username) {
+      return res.status(401).json({ message: 'Authentication required' });
+    }
+
     // Require admin access
-    requireAdminAccess(username);
+    await requireAdminAccess(authResult.username);
 
     // Connect to databases
     if (mongoose.connection.readyState !== 1) {
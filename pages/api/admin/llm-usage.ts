@@ -0,0 +1,237 @@
+import type { NextApiResponse } from 'next';
+import mongoose from 'mongoose';
+import LLMUsageRecord, { LLM_USAGE_FEATURES, LLMUsageFeature } from '../../../models/LLMUsageRecord';
+import { connectToWingmanDB } from '../../../utils/databaseConnections';
+import { requireAdminAccess } from '../../../utils/adminAccess';
+import { requireAuth, AuthenticatedRequest } from '../../../middleware/auth';
+
+const GROUP_BY_OPTIONS = ['user', 'day', 'model', 'feature', 'tier'] as const;
+type GroupBy = typeof GROUP_BY_OPTIONS[number];
+
+const DEFAULT_LIMIT = 50;
+const MAX_LIMIT = 500;
+
+// Sums shared by the totals and every breakdown
+const usageSums = {
+  requests: { $sum: 1 },
+  cacheHits: { $sum: { $cond: ['$cacheHit', 1, 0] } },
+  promptTokens: { $sum: '$promptTokens' },
+  completionTokens: { $sum: '$completionTokens' },
+  totalTokens: { $sum: '$totalTokens' },
+  estimatedCost: { $sum: '$estimatedCost' }
+};
+
+// Join each record's user so usage can be split by Pro vs free
+const lookupUserTier = [
+  {
+    $lookup: {
+      from: 'users',
+      localField: 'username',
+      foreignField: 'username',
+      pipeline: [{ $project: { hasProAccess: 1 } }],
+      as: 'user'
+    }
+  },
+  {
+    $addFields: {
+      tier: {
+        $cond: [
+          { $eq: [{ $size: '$user' }, 0] },
+          'unattributed',
+          { $cond: [{ $arrayElemAt: ['$user.hasProAccess', 0] }, 'pro', 'free'] }
+        ]
+      }
+    }
+  }
+];
+
+/**
+ * LLM Usage Ledger Admin Endpoint
+ *
+ * GET /api/admin/llm-usage
+ * - Aggregates the usage ledger (models/LLMUsageRecord.ts) for the admin user
+ * - Query:
+ *   - groupBy: user | day | model | feature | tier (Pro vs free) (default: day)
+ *   - days: lookback window, 1-365 (default: 30)
+ *   - feature, model, username: optional filters
+ *   - limit: max breakdown rows (default: 50, user breakdown is sorted by cost)
+ */
+export default async function handler(req: AuthenticatedRequest, res: NextApiResponse) {
+  if (req.method !== 'GET') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  try {
+    const authResult = await requireAuth(req, res);
+    if (!authResult.authenticated) {
+      return res.status(401).json({ error: 'Authentication required' });
+    }
+    await requireAdminAccess(authResult.username);
+
+    const { groupBy = 'day', days = '30', feature, model, username, limit } = req.query;
+
+    if (!GROUP_BY_OPTIONS.includes(groupBy as GroupBy)) {
+      return res.status(400).json({
+        error: `groupBy must be one of: ${GROUP_BY_OPTIONS.join(', ')}`
+      });
+    }
+
+    const timeframeDays = parseInt(days as string);
+    if (isNaN(timeframeDays) || timeframeDays < 1 || timeframeDays > 365) {
+      return res.status(400).json({
+        error: 'Timeframe must be between 1 and 365 days'
+      });
+    }
+
+    if (feature && !LLM_USAGE_FEATURES.includes(feature as LLMUsageFeature)) {
+      return res.status(400).json({
+        error: `feature must be one of: ${LLM_USAGE_FEATURES.join(', ')}`
+      });
+    }
+
+    const rowLimit = Math.min(MAX_LIMIT, Math.max(1, parseInt(limit as string) || DEFAULT_LIMIT));
+
+    const endDate = new Date();
+    const startDate = new Date();
+    startDate.setDate(startDate.getDate() - timeframeDays);
+
+    const match: Record<string, any> = { createdAt: { $gte: startDate, $lte: endDate } };
+    if (feature) match.feature = feature;
+    if (typeof model === 'string' && model) match.modelName = model;
+    if (typeof username === 'string' && username) match.username = username;
+
+    if (mongoose.connection.readyState !== 1) {
+      await connectToWingmanDB();
+    }
+
+    let breakdownPipeline: any[];
+    switch (groupBy as GroupBy) {
+      case 'user':
+        breakdownPipeline = [
+          { $group: { _id: '$username', ...usageSums } },
+          { $sort: { estimatedCost: -1 } },
+          { $limit: rowLimit },
+          {
+            $lookup: {
+              from: 'users',
+              localField: '_id',
+              foreignField: 'username',
+              pipeline: [{ $project: { hasProAccess: 1 } }],
+              as: 'user'
+            }
+          },
+          {
+            $project: {
+              _id: 0,
+              username: { $ifNull: ['$_id', null] },
+              hasProAccess: { $ifNull: [{ $arrayElemAt: ['$user.hasProAccess', 0] }, false] },
+              requests: 1,
+              cacheHits: 1,
+              promptTokens: 1,
+              completionTokens: 1,
+              totalTokens: 1,
+              estimatedCost: 1
+            }
+          }
+        ];
+        break;
+      case 'tier':
+        breakdownPipeline = [
+          ...lookupUserTier,
+          { $group: { _id: '$tier', ...usageSums, users: { $addToSet: '$username' } } },
+          {
+            $project: {
+              _id: 0,
+              tier: '$_id',
+              userCount: { $size: '$users' },
+              requests: 1,
+              cacheHits: 1,
+              promptTokens: 1,
+              completionTokens: 1,
+              totalTokens: 1,
+              estimatedCost: 1,
+              costPerUser: {
+                $cond: [{ $gt: [{ $size: '$users' }, 0] }, { $divide: ['$estimatedCost', { $size: '$users' }] }, 0]
+              }
+            }
+          },
+          { $sort: { estimatedCost: -1 } }
+        ];
+        break;
+      case 'day':
+        breakdownPipeline = [
+          { $group: { _id: { $dateToString: { format: '%Y-%m-%d', date: '$createdAt' } }, ...usageSums } },
+          { $sort: { _id: 1 } },
+          { $limit: Math.max(rowLimit, timeframeDays) },
+          { $project: { _id: 0, day: '$_id', requests: 1, cacheHits: 1, promptTokens: 1, completionTokens: 1, totalTokens: 1, estimatedCost: 1 } }
+        ];
+        break;
+      case 'model':
+        breakdownPipeline = [
+          { $group: { _id: '$modelName', ...usageSums } },
+          { $sort: { estimatedCost: -1 } },
+          { $limit: rowLimit },
+          { $project: { _id: 0, model: '$_id', requests: 1, cacheHits: 1, promptTokens: 1, completionTokens: 1, totalTokens: 1, estimatedCost: 1 } }
+        ];
+        break;
+      case 'feature':
+        breakdownPipeline = [
+          { $group: { _id: '$feature', ...usageSums } },
+          { $sort: { estimatedCost: -1 } },
+          { $project: { _id: 0, feature: '$_id', requests: 1, cacheHits: 1, promptTokens: 1, completionTokens: 1, totalTokens: 1, estimatedCost: 1 } }
+        ];
+        break;
+    }
+
+    const [totalsResult, breakdown] = await Promise.all([
+      LLMUsageRecord.aggregate([
+        { $match: match },
+        { $group: { _id: null, ...usageSums } },
+        { $project: { _id: 0 } }
+      ]),
+      LLMUsageRecord.aggregate([{ $match: match }, ...breakdownPipeline])
+    ]);
+
+    const totals = totalsResult[0] || {
+      requests: 0,
+      cacheHits: 0,
+      promptTokens: 0,
+      completionTokens: 0,
+      totalTokens: 0,
+      estimatedCost: 0
+    };
+
+    return res.status(200).json({
+      success: true,
+      timeframe: {
+        days: timeframeDays,
+        startDate,
+        endDate
+      },
+      filters: {
+        feature: feature || null,
+        model: model || null,
+        username: username || null
+      },
+      groupBy,
+      totals: {
+        ...totals,
+        cacheHitRate: totals.requests > 0 ? totals.cacheHits / totals.requests : 0
+      },
+      breakdown
+    });
+  } catch (error: any) {
+    console.error('Error fetching LLM usage:', error);
+
+    // Handle admin access errors
+    if (error.statusCode === 403) {
+      return res.status(403).json({
+        error: error.message || 'Access denied'
+      });
+    }
+
+    return res.status(500).json({
+      error: 'Internal server error. Please try again later.'
+    });
+  }
+}
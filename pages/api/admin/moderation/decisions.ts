@@ -0,0 +1,145 @@
+import type { NextApiResponse } from 'next';
+import mongoose from 'mongoose';
+import ModerationDecision, { MODERATION_DECISION_OUTCOMES } from '../../../../models/ModerationDecision';
+import { connectToWingmanDB } from '../../../../utils/databaseConnections';
+import { requirePermission, getUserRoles, getPermissionsForRoles } from '../../../../utils/adminAccess';
+import { requireAuth, AuthenticatedRequest } from '../../../../middleware/auth';
+import { MODERATION_PLATFORMS, ModerationPlatform } from '../../../../config/moderationRules';
+import { REVIEW_PERMISSIONS, applyModerationDecision } from '../../../../utils/moderation/moderationReview';
+
+const DEFAULT_PAGE_SIZE = 50;
+const MAX_PAGE_SIZE = 200;
+
+/**
+ * Moderation Decisions Endpoint
+ *
+ * GET /api/admin/moderation/decisions
+ * - Decision history, newest first, limited to the platforms the moderator can review
+ * - Query: username (Video Game Wingman user), platform, subject, violationRecordId, page, pageSize
+ *
+ * POST /api/admin/moderation/decisions
+ * - Upholds, overturns or reduces a penalty (also resolves the record's pending appeals)
+ * - Body: { platform, violationRecordId, outcome: 'uphold' | 'overturn' | 'reduce', note?, appealId?, banDays? }
+ * - banDays applies when reducing a website ban: the new ban length from now (0 lifts the ban)
+ *
+ * Requires moderate_forums (web), moderate_twitch or moderate_discord for the platform.
+ */
+export default async function handler(req: AuthenticatedRequest, res: NextApiResponse) {
+  if (req.method !== 'GET' && req.method !== 'POST') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  try {
+    const authResult = await requireAuth(req, res);
+    if (!authResult.authenticated || !authResult.username) {
+      return res.status(401).json({ error: 'Authentication required' });
+    }
+
+    if (req.method === 'GET') {
+      const permissions = getPermissionsForRoles(await getUserRoles(authResult.username));
+      const reviewablePlatforms = MODERATION_PLATFORMS.filter(platform =>
+        permissions.includes(REVIEW_PERMISSIONS[platform])
+      );
+      if (reviewablePlatforms.length === 0) {
+        return res.status(403).json({ error: 'Access denied. A moderation permission is required.' });
+      }
+
+      const { username, platform, subject, violationRecordId } = req.query;
+      const page = Math.max(1, parseInt(req.query.page as string) || 1);
+      const pageSize = Math.min(
+        MAX_PAGE_SIZE,
+        Math.max(1, parseInt(req.query.pageSize as string) || DEFAULT_PAGE_SIZE)
+      );
+
+      const filter: Record<string, any> = { platform: { $in: reviewablePlatforms } };
+      if (typeof platform === 'string' && platform) {
+        if (!reviewablePlatforms.includes(platform as ModerationPlatform)) {
+          return res.status(403).json({ error: `Access denied. The ${REVIEW_PERMISSIONS[platform as ModerationPlatform] || 'moderation'} permission is required.` });
+        }
+        filter.platform = platform;
+      }
+      if (typeof username === 'string' && username) filter.username = username;
+      if (typeof subject === 'string' && subject) filter.subject = subject;
+      if (typeof violationRecordId === 'string' && violationRecordId) filter.violationRecordId = violationRecordId;
+
+      if (mongoose.connection.readyState !== 1) {
+        await connectToWingmanDB();
+      }
+
+      const [decisions, total] = await Promise.all([
+        ModerationDecision.find(filter)
+          .sort({ createdAt: -1 })
+          .skip((page - 1) * pageSize)
+          .limit(pageSize)
+          .lean(),
+        ModerationDecision.countDocuments(filter)
+      ]);
+
+      return res.status(200).json({
+        success: true,
+        decisions,
+        pagination: {
+          total,
+          page,
+          pageSize,
+          totalPages: Math.ceil(total / pageSize)
+        }
+      });
+    }
+
+    const { platform, violationRecordId, outcome, note, appealId, banDays } = req.body || {};
+
+    if (!MODERATION_PLATFORMS.includes(platform)) {
+      return res.status(400).json({ error: `platform must be one of: ${MODERATION_PLATFORMS.join(', ')}` });
+    }
+    await requirePermission(authResult.username, REVIEW_PERMISSIONS[platform as ModerationPlatform]);
+
+    if (typeof violationRecordId !== 'string' || !mongoose.Types.ObjectId.isValid(violationRecordId)) {
+      return res.status(400).json({ error: 'A valid violationRecordId is required' });
+    }
+    if (!MODERATION_DECISION_OUTCOMES.includes(outcome)) {
+      return res.status(400).json({ error: `outcome must be one of: ${MODERATION_DECISION_OUTCOMES.join(', ')}` });
+    }
+    if (appealId !== undefined && (typeof appealId !== 'string' || !mongoose.Types.ObjectId.isValid(appealId))) {
+      return res.status(400).json({ error: 'appealId must be a valid id' });
+    }
+    if (note !== undefined && (typeof note !== 'string' || note.length > 1000)) {
+      return res.status(400).json({ error: 'note must be a string of at most 1000 characters' });
+    }
+
+    if (mongoose.connection.readyState !== 1) {
+      await connectToWingmanDB();
+    }
+
+    const result = await applyModerationDecision({
+      platform,
+      violationRecordId,
+      outcome,
+      performedBy: authResult.username,
+      note: note?.trim() || undefined,
+      appealId,
+      banDays
+    });
+
+    console.log(`[SECURITY] Moderation decision: platform=${platform}, record=${violationRecordId}, outcome=${outcome}, subject=${result.record.subject}, performedBy=${authResult.username}`);
+
+    return res.status(200).json({
+      success: true,
+      decision: result.decision,
+      record: result.record
+    });
+  } catch (error: any) {
+    console.error('Error handling moderation decision:', error);
+
+    // Handle permission, validation and conflict errors
+    if ([400, 403, 404, 409].includes(error.statusCode)) {
+      return res.status(error.statusCode).json({
+        error: error.message || 'Request failed'
+      });
+    }
+
+    return res.status(500).json({
+      error: 'Internal server error. Please try again later.'
+    });
+  }
+}
@@ -0,0 +1,151 @@
+import type { NextApiResponse } from 'next';
+import mongoose from 'mongoose';
+import ModerationRuleSet from '../../../../models/ModerationRuleSet';
+import { connectToWingmanDB } from '../../../../utils/databaseConnections';
+import { requirePermission, ADMIN_ACCESS_LEVELS } from '../../../../utils/adminAccess';
+import { requireAuth, AuthenticatedRequest } from '../../../../middleware/auth';
+import {
+  defaultModerationRuleSet,
+  validateModerationRuleSet,
+  clearModerationRulesCache,
+  MODERATION_PLATFORMS,
+  MODERATION_RULE_TYPES,
+  MODERATION_SEVERITIES,
+  MODERATION_ACTIONS
+} from '../../../../config/moderationRules';
+
+/**
+ * Moderation Rule Set Management Endpoint
+ *
+ * GET /api/admin/moderation/rules
+ * - Lists rule sets
+ *
+ * POST /api/admin/moderation/rules
+ * - Creates a rule set
+ * - Body: { name, description?, enabled?, platforms?, severityActions?, rules }
+ *
+ * PUT /api/admin/moderation/rules
+ * - Replaces a rule set
+ * - Body: { id, ...same fields as POST }
+ *
+ * DELETE /api/admin/moderation/rules?id=<id>
+ * - Deletes a rule set
+ *
+ * The built-in default rule set is saved on first use, so it can be edited and is kept when
+ * other rule sets are added.
+ *
+ * Requires the manage_moderation_rules permission. Changes apply to the website, the
+ * Twitch bot and the Discord bot (other processes pick them up within a minute).
+ */
+export default async function handler(req: AuthenticatedRequest, res: NextApiResponse) {
+  if (!['GET', 'POST', 'PUT', 'DELETE'].includes(req.method || '')) {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  try {
+    const authResult = await requireAuth(req, res);
+    if (!authResult.authenticated) {
+      return res.status(401).json({ error: 'Authentication required' });
+    }
+    await requirePermission(authResult.username, ADMIN_ACCESS_LEVELS.MANAGE_MODERATION_RULES);
+
+    if (mongoose.connection.readyState !== 1) {
+      await connectToWingmanDB();
+    }
+
+    // Save the built-in rules the first time so admins edit real documents. Stored rule sets
+    // replace the built-in one, so this has to happen before any write, not just on GET.
+    if ((await ModerationRuleSet.countDocuments()) === 0) {
+      await ModerationRuleSet.updateOne(
+        { name: defaultModerationRuleSet.name },
+        { $setOnInsert: { ...defaultModerationRuleSet, updatedBy: authResult.username } },
+        { upsert: true }
+      );
+    }
+
+    if (req.method === 'GET') {
+      const ruleSets = await ModerationRuleSet.find({}).sort({ createdAt: 1 }).lean();
+
+      return res.status(200).json({
+        success: true,
+        ruleSets,
+        options: {
+          platforms: MODERATION_PLATFORMS,
+          ruleTypes: MODERATION_RULE_TYPES,
+          severities: MODERATION_SEVERITIES,
+          actions: MODERATION_ACTIONS
+        }
+      });
+    }
+
+    if (req.method === 'DELETE') {
+      const { id } = req.query;
+      if (typeof id !== 'string' || !mongoose.Types.ObjectId.isValid(id)) {
+        return res.status(400).json({ error: 'A valid id is required' });
+      }
+
+      const deleted = await ModerationRuleSet.findByIdAndDelete(id).lean() as { name: string } | null;
+      if (!deleted) {
+        return res.status(404).json({ error: 'Rule set not found' });
+      }
+
+      clearModerationRulesCache();
+      console.log(`[SECURITY] Moderation rule set deleted: name=${deleted.name}, performedBy=${authResult.username}`);
+
+      return res.status(200).json({ success: true, message: `Deleted rule set ${deleted.name}` });
+    }
+
+    const validated = validateModerationRuleSet(req.body || {});
+
+    if (req.method === 'POST') {
+      if (await ModerationRuleSet.exists({ name: validated.name })) {
+        return res.status(409).json({ error: `A rule set named ${validated.name} already exists` });
+      }
+
+      const created = await ModerationRuleSet.create({ ...validated, updatedBy: authResult.username });
+
+      clearModerationRulesCache();
+      console.log(`[SECURITY] Moderation rule set created: name=${validated.name}, performedBy=${authResult.username}`);
+
+      return res.status(201).json({ success: true, ruleSet: created });
+    }
+
+    // PUT
+    const { id } = req.body || {};
+    if (typeof id !== 'string' || !mongoose.Types.ObjectId.isValid(id)) {
+      return res.status(400).json({ error: 'A valid id is required' });
+    }
+
+    if (await ModerationRuleSet.exists({ name: validated.name, _id: { $ne: id } })) {
+      return res.status(409).json({ error: `A rule set named ${validated.name} already exists` });
+    }
+
+    const updated = await ModerationRuleSet.findByIdAndUpdate(
+      id,
+      { $set: { ...validated, updatedBy: authResult.username } },
+      { new: true, runValidators: true }
+    ).lean();
+
+    if (!updated) {
+      return res.status(404).json({ error: 'Rule set not found' });
+    }
+
+    clearModerationRulesCache();
+    console.log(`[SECURITY] Moderation rule set updated: name=${validated.name}, performedBy=${authResult.username}`);
+
+    return res.status(200).json({ success: true, ruleSet: updated });
+  } catch (error: any) {
+    console.error('Error managing moderation rules:', error);
+
+    // Handle permission and validation errors
+    if (error.statusCode === 403 || error.statusCode === 400) {
+      return res.status(error.statusCode).json({
+        error: error.message || 'Request failed'
+      });
+    }
+
+    return res.status(500).json({
+      error: 'Internal server error. Please try again later.'
+    });
+  }
+}
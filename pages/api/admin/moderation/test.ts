@@ -0,0 +1,58 @@
+import type { NextApiResponse } from 'next';
+import { requirePermission, ADMIN_ACCESS_LEVELS } from '../../../../utils/adminAccess';
+import { requireAuth, AuthenticatedRequest } from '../../../../middleware/auth';
+import { checkContentAgainstRules, evaluateModerationRules } from '../../../../utils/moderation/rulesEngine';
+import { MODERATION_PLATFORMS, validateModerationRuleSet } from '../../../../config/moderationRules';
+
+/**
+ * Moderation Rule Test Endpoint
+ *
+ * POST /api/admin/moderation/test
+ * - Shows how content would be moderated, without recording anything
+ * - Body: { content: string, platform?: 'web' | 'twitch' | 'discord', strict?: boolean, ruleSet?: object }
+ * - With ruleSet, evaluates that (unsaved) rule set instead of the saved rules
+ * - Requires the manage_moderation_rules permission
+ */
+export default async function handler(req: AuthenticatedRequest, res: NextApiResponse) {
+  if (req.method !== 'POST') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  try {
+    const authResult = await requireAuth(req, res);
+    if (!authResult.authenticated) {
+      return res.status(401).json({ error: 'Authentication required' });
+    }
+    await requirePermission(authResult.username, ADMIN_ACCESS_LEVELS.MANAGE_MODERATION_RULES);
+
+    const { content, platform = 'web', strict, ruleSet } = req.body || {};
+
+    if (typeof content !== 'string' || !content || content.length > 5000) {
+      return res.status(400).json({ error: 'content is required and must be at most 5000 characters' });
+    }
+
+    if (!MODERATION_PLATFORMS.includes(platform)) {
+      return res.status(400).json({ error: `platform must be one of: ${MODERATION_PLATFORMS.join(', ')}` });
+    }
+
+    const context = { platform, strict: strict === true };
+    const evaluation = ruleSet
+      ? evaluateModerationRules(content, [validateModerationRuleSet(ruleSet)], context)
+      : await checkContentAgainstRules(content, context);
+
+    return res.status(200).json({ success: true, evaluation });
+  } catch (error: any) {
+    console.error('Error testing moderation rules:', error);
+
+    // Handle permission and validation errors
+    if (error.statusCode === 403 || error.statusCode === 400) {
+      return res.status(error.statusCode).json({
+        error: error.message || 'Request failed'
+      });
+    }
+
+    return res.status(500).json({
+      error: 'Internal server error. Please try again later.'
+    });
+  }
+}
@@ -0,0 +1,134 @@
+import type { NextApiResponse } from 'next';
+import mongoose from 'mongoose';
+import ModerationAppeal from '../../../../models/ModerationAppeal';
+import { connectToWingmanDB } from '../../../../utils/databaseConnections';
+import { requirePermission } from '../../../../utils/adminAccess';
+import { requireAuth, AuthenticatedRequest } from '../../../../middleware/auth';
+import { MODERATION_PLATFORMS, ModerationPlatform } from '../../../../config/moderationRules';
+import {
+  REVIEW_PERMISSIONS,
+  getViolationModel,
+  summarizeViolationRecord
+} from '../../../../utils/moderation/moderationReview';
+
+const DEFAULT_PAGE_SIZE = 25;
+const MAX_PAGE_SIZE = 100;
+const QUEUE_STATUSES = ['appealed', 'banned', 'penalized', 'all'];
+
+/**
+ * Moderation Review Queue Endpoint
+ *
+ * GET /api/admin/moderation/violations
+ * - Lists violation records with their offending content and any pending appeals, newest first
+ * - Query: platform ('web' | 'twitch' | 'discord', default web),
+ *          status ('appealed' | 'banned' | 'penalized' | 'all', default appealed),
+ *          subject (website username, Twitch username or Discord user ID), channel, guildId, page, pageSize
+ * - Requires moderate_forums (web), moderate_twitch or moderate_discord
+ */
+export default async function handler(req: AuthenticatedRequest, res: NextApiResponse) {
+  if (req.method !== 'GET') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  try {
+    const authResult = await requireAuth(req, res);
+    if (!authResult.authenticated) {
+      return res.status(401).json({ error: 'Authentication required' });
+    }
+
+    const platform = ((req.query.platform as string) || 'web') as ModerationPlatform;
+    if (!MODERATION_PLATFORMS.includes(platform)) {
+      return res.status(400).json({ error: `platform must be one of: ${MODERATION_PLATFORMS.join(', ')}` });
+    }
+    await requirePermission(authResult.username, REVIEW_PERMISSIONS[platform]);
+
+    const status = (req.query.status as string) || 'appealed';
+    if (!QUEUE_STATUSES.includes(status)) {
+      return res.status(400).json({ error: `status must be one of: ${QUEUE_STATUSES.join(', ')}` });
+    }
+
+    const { subject, channel, guildId } = req.query;
+    const page = Math.max(1, parseInt(req.query.page as string) || 1);
+    const pageSize = Math.min(
+      MAX_PAGE_SIZE,
+      Math.max(1, parseInt(req.query.pageSize as string) || DEFAULT_PAGE_SIZE)
+    );
+
+    if (mongoose.connection.readyState !== 1) {
+      await connectToWingmanDB();
+    }
+
+    const filter: Record<string, any> = {};
+    if (typeof subject === 'string' && subject) {
+      if (platform === 'web') filter.username = subject;
+      if (platform === 'twitch') filter.twitchUsername = subject.toLowerCase();
+      if (platform === 'discord') filter.discordUserId = subject;
+    }
+    if (platform === 'twitch' && typeof channel === 'string' && channel) {
+      filter.channelName = channel.replace('#', '').toLowerCase();
+    }
+    if (platform === 'discord' && typeof guildId === 'string' && guildId) {
+      filter.guildId = guildId;
+    }
+
+    const bannedFilter = platform === 'web'
+      ? [{ isPermanentlyBanned: true }, { banExpiresAt: { $gt: new Date() } }]
+      : [{ isBanned: true }];
+
+    if (status === 'appealed') {
+      const appealedIds = await ModerationAppeal.distinct('violationRecordId', { platform, status: 'pending' });
+      filter._id = { $in: appealedIds.filter(id => mongoose.Types.ObjectId.isValid(id)) };
+    } else if (status === 'banned') {
+      filter.$or = bannedFilter;
+    } else if (status === 'penalized') {
+      filter.$or = [...bannedFilter, { warningCount: { $gt: 0 } }];
+    }
+
+    const Model = getViolationModel(platform) as any;
+    const [records, total] = await Promise.all([
+      Model.find(filter)
+        .sort({ _id: -1 })
+        .skip((page - 1) * pageSize)
+        .limit(pageSize)
+        .lean(),
+      Model.countDocuments(filter)
+    ]);
+
+    const recordIds = records.map((record: any) => String(record._id));
+    const pendingAppeals = await ModerationAppeal.find({
+      platform,
+      violationRecordId: { $in: recordIds },
+      status: 'pending'
+    })
+      .sort({ createdAt: 1 })
+      .lean() as any[];
+
+    return res.status(200).json({
+      success: true,
+      platform,
+      records: records.map((record: any) => ({
+        ...summarizeViolationRecord(platform, record),
+        pendingAppeals: pendingAppeals.filter(appeal => appeal.violationRecordId === String(record._id))
+      })),
+      pagination: {
+        total,
+        page,
+        pageSize,
+        totalPages: Math.ceil(total / pageSize)
+      }
+    });
+  } catch (error: any) {
+    console.error('Error fetching moderation review queue:', error);
+
+    // Handle permission errors
+    if (error.statusCode === 403) {
+      return res.status(403).json({
+        error: error.message || 'Access denied'
+      });
+    }
+
+    return res.status(500).json({
+      error: 'Internal server error. Please try again later.'
+    });
+  }
+}
@@ -0,0 +1,79 @@
+import type { NextApiResponse } from 'next';
+import mongoose from 'mongoose';
+import RoleAuditLog from '../../../../models/RoleAuditLog';
+import { connectToWingmanDB } from '../../../../utils/databaseConnections';
+import { requirePermission, ADMIN_ACCESS_LEVELS } from '../../../../utils/adminAccess';
+import { requireAuth, AuthenticatedRequest } from '../../../../middleware/auth';
+
+const DEFAULT_PAGE_SIZE = 50;
+const MAX_PAGE_SIZE = 200;
+
+/**
+ * Role Audit Trail Endpoint
+ *
+ * GET /api/admin/roles/audit
+ * - Lists role grants and revocations, newest first
+ * - Query: username (target user), performedBy, page, pageSize
+ * - Requires the manage_roles permission
+ */
+export default async function handler(req: AuthenticatedRequest, res: NextApiResponse) {
+  if (req.method !== 'GET') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  try {
+    const authResult = await requireAuth(req, res);
+    if (!authResult.authenticated) {
+      return res.status(401).json({ error: 'Authentication required' });
+    }
+    await requirePermission(authResult.username, ADMIN_ACCESS_LEVELS.MANAGE_ROLES);
+
+    const { username, performedBy } = req.query;
+    const page = Math.max(1, parseInt(req.query.page as string) || 1);
+    const pageSize = Math.min(
+      MAX_PAGE_SIZE,
+      Math.max(1, parseInt(req.query.pageSize as string) || DEFAULT_PAGE_SIZE)
+    );
+
+    const filter: Record<string, any> = {};
+    if (typeof username === 'string' && username) filter.targetUsername = username;
+    if (typeof performedBy === 'string' && performedBy) filter.performedBy = performedBy;
+
+    if (mongoose.connection.readyState !== 1) {
+      await connectToWingmanDB();
+    }
+
+    const [entries, total] = await Promise.all([
+      RoleAuditLog.find(filter)
+        .sort({ createdAt: -1 })
+        .skip((page - 1) * pageSize)
+        .limit(pageSize)
+        .lean(),
+      RoleAuditLog.countDocuments(filter)
+    ]);
+
+    return res.status(200).json({
+      success: true,
+      entries,
+      pagination: {
+        total,
+        page,
+        pageSize,
+        totalPages: Math.ceil(total / pageSize)
+      }
+    });
+  } catch (error: any) {
+    console.error('Error fetching role audit log:', error);
+
+    // Handle permission errors
+    if (error.statusCode === 403) {
+      return res.status(403).json({
+        error: error.message || 'Access denied'
+      });
+    }
+
+    return res.status(500).json({
+      error: 'Internal server error. Please try again later.'
+    });
+  }
+}
@@ -0,0 +1,138 @@
+import type { NextApiResponse } from 'next';
+import mongoose from 'mongoose';
+import User, { USER_ROLES, UserRole } from '../../../../models/User';
+import RoleAuditLog from '../../../../models/RoleAuditLog';
+import { connectToWingmanDB } from '../../../../utils/databaseConnections';
+import { requirePermission, ADMIN_ACCESS_LEVELS, ROLE_PERMISSIONS, getUserRoles } from '../../../../utils/adminAccess';
+import { requireAuth, AuthenticatedRequest } from '../../../../middleware/auth';
+
+/**
+ * Staff Role Management Endpoint
+ *
+ * GET /api/admin/roles
+ * - Lists users with staff roles and the role → permission matrix
+ *
+ * POST /api/admin/roles
+ * - Grants a role
+ * - Body: { username: string, role: UserRole, reason?: string }
+ *
+ * DELETE /api/admin/roles
+ * - Revokes a role
+ * - Body: { username: string, role: UserRole, reason?: string }
+ *
+ * Requires the manage_roles permission. Every grant and revocation is recorded in the
+ * role audit log (GET /api/admin/roles/audit).
+ */
+export default async function handler(req: AuthenticatedRequest, res: NextApiResponse) {
+  if (!['GET', 'POST', 'DELETE'].includes(req.method || '')) {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  try {
+    const authResult = await requireAuth(req, res);
+    if (!authResult.authenticated || !authResult.username) {
+      return res.status(401).json({ error: 'Authentication required' });
+    }
+    await requirePermission(authResult.username, ADMIN_ACCESS_LEVELS.MANAGE_ROLES);
+
+    if (mongoose.connection.readyState !== 1) {
+      await connectToWingmanDB();
+    }
+
+    if (req.method === 'GET') {
+      const staff = await User.find({ roles: { $exists: true, $ne: [] } })
+        .select('username email roles')
+        .sort({ username: 1 })
+        .lean();
+
+      return res.status(200).json({
+        success: true,
+        staff,
+        roles: USER_ROLES,
+        permissions: ROLE_PERMISSIONS
+      });
+    }
+
+    const { username, role, reason } = req.body || {};
+
+    if (!username || typeof username !== 'string') {
+      return res.status(400).json({ error: 'username is required' });
+    }
+
+    if (!USER_ROLES.includes(role)) {
+      return res.status(400).json({ error: `role must be one of: ${USER_ROLES.join(', ')}` });
+    }
+
+    if (reason !== undefined && (typeof reason !== 'string' || reason.length > 500)) {
+      return res.status(400).json({ error: 'reason must be a string of at most 500 characters' });
+    }
+
+    const isGrant = req.method === 'POST';
+
+    // Admins can't lock themselves out of role management
+    if (!isGrant && role === 'admin' && username === authResult.username) {
+      return res.status(400).json({ error: 'You cannot revoke your own admin role' });
+    }
+
+    const target = await User.findOne({ username }).select('username roles').lean() as { username: string; roles?: UserRole[] } | null;
+    if (!target) {
+      return res.status(404).json({ error: 'User not found' });
+    }
+
+    const previousRoles = target.roles || [];
+    const hasRole = previousRoles.includes(role);
+
+    if (isGrant === hasRole) {
+      return res.status(409).json({
+        error: isGrant ? `${username} already has the ${role} role` : `${username} does not have the ${role} role`
+      });
+    }
+
+    const updated = await User.findOneAndUpdate(
+      { username },
+      isGrant ? { $addToSet: { roles: role } } : { $pull: { roles: role } },
+      { new: true, runValidators: false }
+    ).select('username roles').lean() as { username: string; roles?: UserRole[] } | null;
+
+    const newRoles = updated?.roles || [];
+
+    await RoleAuditLog.create({
+      targetUsername: username,
+      action: isGrant ? 'grant' : 'revoke',
+      role,
+      performedBy: authResult.username,
+      reason: reason?.trim() || undefined,
+      previousRoles,
+      newRoles
+    });
+
+    console.log(
+      `[SECURITY] Role ${isGrant ? 'granted' : 'revoked'}: role=${role}, ` +
+        `username=${username}, performedBy=${authResult.username}`
+    );
+
+    return res.status(200).json({
+      success: true,
+      message: isGrant ? `Granted ${role} to ${username}` : `Revoked ${role} from ${username}`,
+      user: {
+        username,
+        roles: newRoles,
+        // Effective roles include the bootstrap admin's implicit admin role
+        effectiveRoles: await getUserRoles(username)
+      }
+    });
+  } catch (error: any) {
+    console.error('Error managing roles:', error);
+
+    // Handle permission errors
+    if (error.statusCode === 403) {
+      return res.status(403).json({
+        error: error.message || 'Access denied'
+      });
+    }
+
+    return res.status(500).json({
+      error: 'Internal server error. Please try again later.'
+    });
+  }
+}
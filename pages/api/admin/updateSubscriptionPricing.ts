@@ -1,9 +1,10 @@
-import type { NextApiRequest, NextApiResponse } from 'next';
+import type { NextApiResponse } from 'next';
 import Stripe from 'stripe';
 import mongoose from 'mongoose';
 import User from '../../../models/User';
 import { connectToWingmanDB } from '../../../utils/databaseConnections';
 import { requireAdminAccess } from '../../../utils/adminAccess';
+import { requireAuth, AuthenticatedRequest } from '../../../middleware/auth';
 
 const stripeSecret = process.env.STRIPE_SECRET_KEY;
 const stripeClient = stripeSecret
@@ -19,21 +20,20 @@ type MigrationDetail = {
   reason?: string;
 };
 
-export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+export default async function handler(req: AuthenticatedRequest, res: NextApiResponse) {
   if (req.method !== 'POST') {
     return res.status(405).json({ message: 'Method not allowed' });
   }
 
-  const adminUsername =
-    (req.headers['x-username'] as string) ||
-    (typeof req.body?.username === 'string' ? req.body.username : undefined);
-
-  if (!adminUsername) {
-    return res.status(400).json({ message: 'Admin username is required' });
+  // Scripts authenticate with an access token in the Authorization header
+  const authResult = await requireAuth(req, res);
+  if (!authResult.authenticated || !authResult.username) {
+    return res.status(401).json({ message: 'Authentication required' });
   }
+  const adminUsername = authResult.username;
 
   try {
-    requireAdminAccess(adminUsername);
+    await requireAdminAccess(adminUsername);
   } catch (error) {
     const message = error instanceof Error ? error.message : 'Unauthorized';
     return res.status(403).json({ message });
@@ -0,0 +1,90 @@
+import type { NextApiResponse } from 'next';
+import mongoose from 'mongoose';
+import ModerationAppeal from '../../../models/ModerationAppeal';
+import { connectToWingmanDB } from '../../../utils/databaseConnections';
+import { requireAuth, AuthenticatedRequest } from '../../../middleware/auth';
+import { getAppealableRecords } from '../../../utils/moderation/moderationReview';
+
+const MAX_APPEAL_LENGTH = 2000;
+
+/**
+ * Moderation Appeals Endpoint
+ *
+ * GET /api/appeals
+ * - Lists the signed-in user's appealable penalties (website, and linked Twitch/Discord accounts)
+ *   and their past appeals with moderators' decisions
+ *
+ * POST /api/appeals
+ * - Submits an appeal
+ * - Body: { platform: 'web' | 'twitch' | 'discord', violationRecordId: string, message: string }
+ * - One pending appeal per penalty
+ */
+export default async function handler(req: AuthenticatedRequest, res: NextApiResponse) {
+  if (req.method !== 'GET' && req.method !== 'POST') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  try {
+    const authResult = await requireAuth(req, res);
+    if (!authResult.authenticated || !authResult.username) {
+      return res.status(401).json({ error: 'Authentication required' });
+    }
+    const username = authResult.username;
+
+    if (mongoose.connection.readyState !== 1) {
+      await connectToWingmanDB();
+    }
+
+    const records = await getAppealableRecords(username);
+
+    if (req.method === 'GET') {
+      const appeals = await ModerationAppeal.find({ username })
+        .sort({ createdAt: -1 })
+        .limit(50)
+        .lean();
+
+      return res.status(200).json({ success: true, records, appeals });
+    }
+
+    const { platform, violationRecordId, message } = req.body || {};
+
+    if (typeof message !== 'string' || !message.trim()) {
+      return res.status(400).json({ error: 'Please explain why the penalty should be reviewed' });
+    }
+    if (message.length > MAX_APPEAL_LENGTH) {
+      return res.status(400).json({ error: `Appeals must be at most ${MAX_APPEAL_LENGTH} characters` });
+    }
+
+    // Users can only appeal their own penalties
+    const record = records.find(r => r.platform === platform && r.id === violationRecordId);
+    if (!record) {
+      return res.status(404).json({ error: 'No penalty found to appeal' });
+    }
+
+    if (await ModerationAppeal.exists({ platform, violationRecordId, status: 'pending' })) {
+      return res.status(409).json({ error: 'This penalty already has an appeal waiting for review' });
+    }
+
+    const appeal = await ModerationAppeal.create({
+      username,
+      platform,
+      violationRecordId,
+      channelName: record.channelName,
+      guildId: record.guildId,
+      message: message.trim()
+    });
+
+    console.log(`[MODERATION] Appeal submitted: platform=${platform}, record=${violationRecordId}, username=${username}`);
+
+    return res.status(201).json({
+      success: true,
+      appeal,
+      message: 'Your appeal has been submitted. A moderator will review it soon.'
+    });
+  } catch (error) {
+    console.error('Error handling moderation appeal:', error);
+    return res.status(500).json({
+      error: 'Internal server error. Please try again later.'
+    });
+  }
+}
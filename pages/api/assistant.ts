@@ -11,7 +11,7 @@ import { getClientCredentialsAccessToken, getAccessToken, getTwitchUserData, red
 import path from 'path';
 import { readFile } from 'fs/promises';
 import { parse } from 'csv-parse/sync';
-import { getIO } from '../../middleware/realtime';
+import { notifyUser, SocketUserData } from '../../middleware/realtime';
 import mongoose from 'mongoose';
 import winston from 'winston';
 import { containsOffensiveContent } from '../../utils/contentModeration';
@@ -21,6 +21,12 @@ import { clearUserCache } from './getConversation';
 import { requireAuth, AuthenticatedRequest } from '../../middleware/auth';
 import { withRequestSizeLimit } from '../../middleware/requestSizeLimit';
 import { LRUCache, cacheManager } from '../../utils/cacheManager';
+import { SharedCache, hashCacheKey } from '../../utils/sharedStore';
+import { findUserThread, createThreadForQuestion, buildThreadHistory, recordThreadActivity, ChatHistoryMessage } from '../../utils/conversationThreads';
+import { AssistantStreamWriter, wantsStreamingResponse, createSSEStreamWriter, createSocketStreamWriter } from '../../utils/assistantStream';
+import { runWithLLMUsageContext, setLLMUsageUsername } from '../../utils/llmUsageLedger';
+import { createNotification } from '../../utils/notifications';
+import type { Socket } from 'socket.io';
 
 // Optimized performance monitoring with conditional logging
 const measureLatency = async (operation: string, callback: () => Promise<any>, enableLogging: boolean = false) => {
@@ -63,31 +69,28 @@ const GENRE_MAPPING_CACHE = new LRUCache<string>(
 // Register with cache manager
 cacheManager.registerCache('GenreMappingCache', GENRE_MAPPING_CACHE);
 
-// Cache for user achievements to reduce database calls with LRU eviction
+// Cache for user achievements to reduce database calls
+// Shared between instances: a stale copy on another instance would award the same achievement twice
 const ACHIEVEMENT_CACHE_TTL = 2 * 60 * 1000; // 2 minutes
-const ACHIEVEMENT_CACHE_MAX_SIZE = 2000; // Max 2000 users
-const userAchievementCache = new LRUCache<{
+const userAchievementCache = new SharedCache<{
   achievements: any[],
   hasProAccess: boolean,
   lastChecked: number
-}>(
-  ACHIEVEMENT_CACHE_MAX_SIZE,
-  ACHIEVEMENT_CACHE_TTL,
-  5 * 60 * 1000 // Cleanup every 5 minutes
-);
-
-// Register with cache manager
-cacheManager.registerCache('UserAchievementCache', userAchievementCache);
+}>('user-achievements', ACHIEVEMENT_CACHE_TTL);
 
 // Request deduplication cache to prevent duplicate API calls
+// In-flight requests are only known to this process; finished results are also kept in the shared
+// store for the TTL so other instances can reuse them, unless the caller opts out with share: false
 const pendingRequests = new Map<string, Promise<any>>();
 const REQUEST_DEDUP_TTL = 30 * 1000; // 30 seconds
+const dedupResultCache = new SharedCache<any>('request-dedup', REQUEST_DEDUP_TTL);
 
 // Generic request deduplication function
+// Pass share: false for credentials and data fetched with them, which must not leave this process
 const deduplicateRequest = async <T>(
   cacheKey: string,
   requestFn: () => Promise<T>,
-  ttl: number = REQUEST_DEDUP_TTL
+  { ttl = REQUEST_DEDUP_TTL, share = true }: { ttl?: number; share?: boolean } = {}
 ): Promise<T> => {
   // Check if request is already in progress
   if (pendingRequests.has(cacheKey)) {
@@ -96,9 +99,19 @@ const deduplicateRequest = async <T>(
   }
 
   // Create new request
+  const sharedKey = hashCacheKey(cacheKey);
   const requestPromise = (async () => {
     try {
+      if (share) {
+        const shared = await dedupResultCache.get(sharedKey);
+        if (shared !== null) {
+          return shared as T;
+        }
+      }
       const result = await requestFn();
+      if (share && result !== undefined && result !== null) {
+        await dedupResultCache.set(sharedKey, result, ttl);
+      }
       // console.log(`Request deduplication: completed request for ${cacheKey}`); // Commented out for production
       return result;
     } catch (error) {
@@ -231,11 +244,11 @@ const cleanupCache = () => {
   }
 
   // LRU caches handle their own cleanup, but we can trigger manual cleanup
+  // (shared caches expire in the shared store)
   const genreRemoved = GENRE_MAPPING_CACHE.cleanup();
-  const achievementRemoved = userAchievementCache.cleanup();
 
-  if (genreRemoved > 0 || achievementRemoved > 0) {
-    // console.log(`Cache cleanup: ${genreRemoved} genre mappings, ${achievementRemoved} achievements removed`); // Commented out for production
+  if (genreRemoved > 0) {
+    // console.log(`Cache cleanup: ${genreRemoved} genre mappings removed`); // Commented out for production
   }
 
   // Clean up request deduplication cache (remove completed requests)
@@ -838,7 +851,7 @@ export const checkAndAwardAchievements = async (username: string, progress: any,
 
   const now = Date.now();
   const cacheKey = username;
-  const cached = userAchievementCache.get(cacheKey);
+  const cached = await userAchievementCache.get(cacheKey);
 
   // Use cache if available (LRU cache handles TTL automatically)
   if (cached && (now - cached.lastChecked) < ACHIEVEMENT_CACHE_TTL) {
@@ -969,7 +982,7 @@ export const checkAndAwardAchievements = async (username: string, progress: any,
     if (newAchievements.length > 0) {
       // console.log('New achievements found using cache:', newAchievements.length); // Commented out for production
       // Update cache with new achievements
-      userAchievementCache.set(cacheKey, {
+      await userAchievementCache.set(cacheKey, {
         achievements: [...currentAchievements, ...newAchievements],
         hasProAccess,
         lastChecked: now
@@ -1120,26 +1133,26 @@ export const checkAndAwardAchievements = async (username: string, progress: any,
       { session: session || undefined, new: true }
     );
 
-    // Emit achievement event with enhanced data for Pro users (only if Socket.IO is available)
-    if (newAchievements.length > 0) {
-      try {
-        const io = getIO();
-        if (io) {
-          io.emit('achievementEarned', {
-            username,
-            achievements: newAchievements,
-            isPro: user?.hasProAccess || false,
-            message: `Congratulations! You've earned ${newAchievements.length} new achievement${newAchievements.length > 1 ? 's' : ''}!`,
-            totalAchievements: (currentAchievements.length + newAchievements.length)
-          });
-        }
-      } catch (e) {
-        console.warn('Socket.IO not initialized, skipping achievement emit.');
-      }
-    }
+    // Notify only this user's sockets (no-op if Socket.IO isn't running)
+    notifyUser(username, 'achievementEarned', {
+      username,
+      achievements: newAchievements.map(a => ({ name: a.name, dateEarned: a.dateEarned.toISOString() })),
+      isPro: user?.hasProAccess || false,
+      message: `Congratulations! You've earned ${newAchievements.length} new achievement${newAchievements.length > 1 ? 's' : ''}!`,
+      totalAchievements: (currentAchievements.length + newAchievements.length)
+    });
+
+    await createNotification({
+      username,
+      type: 'achievement',
+      title: newAchievements.length > 1 ? `${newAchievements.length} achievements unlocked` : 'Achievement unlocked',
+      message: `You earned ${newAchievements.map(a => a.name).join(', ')}`,
+      link: '/account',
+      data: { achievements: newAchievements.map(a => a.name) }
+    });
 
     // Update cache with new achievements and user data
-    userAchievementCache.set(cacheKey, {
+    await userAchievementCache.set(cacheKey, {
       achievements: [...currentAchievements, ...newAchievements],
       hasProAccess: user?.hasProAccess || false,
       lastChecked: now
@@ -1150,7 +1163,7 @@ export const checkAndAwardAchievements = async (username: string, progress: any,
   }
 
   // Update cache even when no new achievements (to avoid repeated DB calls)
-  userAchievementCache.set(cacheKey, {
+  await userAchievementCache.set(cacheKey, {
     achievements: currentAchievements,
     hasProAccess: user?.hasProAccess || false,
     lastChecked: now
@@ -1305,21 +1318,53 @@ class ValidationError extends AssistantError {
   }
 }
 
+// AI request timeouts: regular requests must answer inside Heroku's 30-second H12 limit,
+// streamed requests send data continuously so they can run longer
+const AI_REQUEST_TIMEOUT = 30000; // 30 seconds
+const STREAMING_AI_REQUEST_TIMEOUT = 120000; // 2 minutes
+
 // Main API handler function that processes incoming requests
-const assistantHandler = async (req: AuthenticatedRequest, res: NextApiResponse) => {
+// When a stream writer is active the answer is forwarded as deltas and the final payload is sent as the closing event
+// LLM calls made while handling the request are attributed to the assistant in the usage ledger
+// `caller` is the user of a socket authenticated at its handshake; HTTP requests authenticate here
+const assistantHandler = (
+  req: AuthenticatedRequest,
+  res: NextApiResponse,
+  streamWriter: AssistantStreamWriter | null = wantsStreamingResponse(req) ? createSSEStreamWriter(res) : null,
+  caller: SocketUserData | null = null
+) => runWithLLMUsageContext({ feature: 'assistant' }, () => processAssistantRequest(req, res, streamWriter, caller));
+
+const processAssistantRequest = async (
+  req: AuthenticatedRequest,
+  res: NextApiResponse,
+  streamWriter: AssistantStreamWriter | null,
+  caller: SocketUserData | null
+) => {
   const startTime = performance.now();
-  const { question, code, imageFilePath, imageUrl } = req.body;
+  const { question, code, imageFilePath, imageUrl, threadId } = req.body;
   const metrics: Metrics = {};
   const requestMonitor = new RequestMonitor();
   const aiCache = getAICache();
   let username: string | undefined; // Declare outside try block for error handling
 
+  // Send the final payload as JSON, or as the closing stream event when streaming
+  const sendResponse = (statusCode: number, body: Record<string, any>) => {
+    if (streamWriter) {
+      return statusCode < 400 ? streamWriter.done(body) : streamWriter.error(statusCode, body);
+    }
+    return res.status(statusCode).json(body);
+  };
+  const aiRequestTimeout = streamWriter ? STREAMING_AI_REQUEST_TIMEOUT : AI_REQUEST_TIMEOUT;
+  const onDelta = streamWriter ? (delta: string) => streamWriter.delta(delta) : undefined;
+
   try {
-    // Authenticate user - get username from authenticated session
-    const authResult = await requireAuth(req, res);
+    // Authenticate user - get username from authenticated session (or the socket's handshake)
+    const authResult = caller
+      ? { authenticated: true, username: caller.username }
+      : await requireAuth(req, res);
 
     if (!authResult.authenticated || !authResult.username) {
-      return res.status(401).json({
+      return sendResponse(401, {
         error: 'Authentication required',
         message: 'Please sign in to use the assistant',
         metrics
@@ -1328,6 +1373,7 @@ const assistantHandler = async (req: AuthenticatedRequest, res: NextApiResponse)
 
     // Use authenticated username (security: prevent username spoofing)
     username = authResult.username;
+    setLLMUsageUsername(username);
 
     // Validate question
     if (!question || typeof question !== 'string') {
@@ -1337,19 +1383,27 @@ const assistantHandler = async (req: AuthenticatedRequest, res: NextApiResponse)
     // Check for offensive content first
     const contentCheck = await containsOffensiveContent(question, username);
     if (contentCheck.isOffensive) {
-      if (contentCheck.violationResult?.action === 'banned') {
-        logger.warn('User banned for offensive content', { username, question });
-        return res.status(403).json({
+      const violationAction = contentCheck.violationResult?.action;
+      if (violationAction === 'banned' || violationAction === 'permanent_ban') {
+        logger.warn('User banned for offensive content', { username, question, violationAction });
+        return sendResponse(403, {
           error: 'Account Suspended',
-          message: 'Your account is temporarily suspended',
-          banExpiresAt: contentCheck.violationResult.expiresAt,
+          message: violationAction === 'permanent_ban'
+            ? 'Your account is permanently suspended'
+            : 'Your account is temporarily suspended',
+          banExpiresAt: violationAction === 'banned' ? contentCheck.violationResult?.expiresAt : undefined,
+          // Suspended users can ask a moderator to review the ban
+          appeal: {
+            allowed: true,
+            url: '/api/appeals'
+          },
           metrics
         });
       }
 
       if (contentCheck.violationResult?.action === 'warning') {
         logger.warn('A warning has been issued for offensive content', { username, question, warningCount: contentCheck.violationResult.count });
-        return res.status(400).json({
+        return sendResponse(400, {
           error: 'Content Warning',
           message: `Warning ${contentCheck.violationResult.count}/3: Please avoid using inappropriate language`,
           offendingWords: contentCheck.offendingWords,
@@ -1368,6 +1422,20 @@ const assistantHandler = async (req: AuthenticatedRequest, res: NextApiResponse)
     // Load the user to update streak/usage data later
     const user = await User.findOne({ username });
 
+    // Load the recent turns of the requested conversation thread so follow-up questions have context
+    // Unknown or foreign thread IDs are ignored and the question starts a new thread when saved
+    const requestedThread = typeof threadId === 'string' && threadId
+      ? await findUserThread(username, threadId)
+      : null;
+    const threadHistory: ChatHistoryMessage[] = requestedThread
+      ? await buildThreadHistory(username, requestedThread.threadId)
+      : [];
+    // Follow-up answers depend on their thread, so they must not be shared through request deduplication
+    const threadCacheSuffix = threadHistory.length > 0 ? `:${requestedThread.threadId}` : '';
+
+    // Open the stream before the slow work starts so the client (and Heroku's router) sees the first byte early
+    streamWriter?.start();
+
     // Track request
     requestMonitor.incrementRequest();
 
@@ -1456,10 +1524,10 @@ const assistantHandler = async (req: AuthenticatedRequest, res: NextApiResponse)
     // Increased timeouts to 30 seconds to give more time for API responses
     // Note: Heroku has a 30-second H12 limit, so this is at the edge - requests may still timeout
     // if they exceed 30 seconds due to network latency or processing overhead
-    const timeoutWrapper = createTimeoutPromise(30000, 'Request timeout');
+    const timeoutWrapper = createTimeoutPromise(aiRequestTimeout, 'Request timeout');
     const timeoutPromise = timeoutWrapper.promise;
 
-    const visionTimeoutWrapper = createTimeoutPromise(30000, 'Vision API request timeout');
+    const visionTimeoutWrapper = createTimeoutPromise(aiRequestTimeout, 'Vision API request timeout');
     const visionTimeoutPromise = visionTimeoutWrapper.promise;
 
     // Helper function to clear timeouts
@@ -1739,6 +1807,7 @@ const assistantHandler = async (req: AuthenticatedRequest, res: NextApiResponse)
       } else if (lowerQuestion.includes("daily gaming tip") || lowerQuestion.includes("daily tip") || lowerQuestion.includes("give me a tip")) {
         // Handle personalized daily gaming tip based on user history
         const Forum = (await import('../../models/Forum')).default;
+        const ForumPost = (await import('../../models/ForumPost')).default;
 
         // Fetch user's question history
         const previousQuestionsRaw = await Question.find({ username })
@@ -1753,17 +1822,15 @@ const assistantHandler = async (req: AuthenticatedRequest, res: NextApiResponse)
           }>;
 
         // Fetch user's forum activity (forums they created or posted in)
+        const postedForumIds = await ForumPost.distinct('forumId', { username });
         const userForums = await Forum.find({
           $or: [
             { createdBy: username },
-            { 'posts.username': username }
+            { forumId: { $in: postedForumIds } }
           ]
         })
-          .select('gameTitle posts')
-          .lean() as unknown as Array<{
-            gameTitle: string;
-            posts: Array<{ username: string; message: string }>;
-          }>;
+          .select('gameTitle')
+          .lean() as unknown as Array<{ gameTitle: string }>;
 
         // Extract games from questions
         const gamesFromQuestions = previousQuestionsRaw
@@ -1825,10 +1892,10 @@ const assistantHandler = async (req: AuthenticatedRequest, res: NextApiResponse)
 
       } else if (questionToProcess.toLowerCase().includes("when was") || questionToProcess.toLowerCase().includes("when did")) {
         // Existing release date logic
-        const cacheKey = `chat:${questionToProcess.toLowerCase().trim()}`;
+        const cacheKey = `chat:${questionToProcess.toLowerCase().trim()}${threadCacheSuffix}`;
         try {
           const raceResult = await Promise.race([
-            deduplicateRequest(cacheKey, () => getChatCompletion(questionToProcess)),
+            deduplicateRequest(cacheKey, () => getChatCompletion(questionToProcess, undefined, threadHistory, onDelta)),
             timeoutPromise
           ]);
           // Cancel timeout IMMEDIATELY after race completes (synchronously)
@@ -1852,15 +1919,18 @@ const assistantHandler = async (req: AuthenticatedRequest, res: NextApiResponse)
       } else if (question.toLowerCase().includes("twitch user data")) {
         // Existing Twitch logic
         if (!code) {
+          if (streamWriter) {
+            throw new ValidationError('Twitch authorization requires a standard (non-streaming) request');
+          }
           redirectToTwitch(res);
           return null;
         }
         const codeValue = Array.isArray(code) ? code[0] : code;
         const accessTokenCacheKey = `twitch_token:${codeValue}`;
-        const accessToken = await deduplicateRequest(accessTokenCacheKey, () => getAccessToken(codeValue));
+        const accessToken = await deduplicateRequest(accessTokenCacheKey, () => getAccessToken(codeValue), { share: false });
 
         const userDataCacheKey = `twitch_user:${accessToken}`;
-        const userData = await deduplicateRequest(userDataCacheKey, () => getTwitchUserData(accessToken));
+        const userData = await deduplicateRequest(userDataCacheKey, () => getTwitchUserData(accessToken), { share: false });
         return `Twitch User Data: ${JSON.stringify(userData)}`;
       } else if (questionToProcess.toLowerCase().includes("genre") &&
         !questionToProcess.toLowerCase().includes("level") &&
@@ -1878,7 +1948,7 @@ const assistantHandler = async (req: AuthenticatedRequest, res: NextApiResponse)
         // If extractGameTitle failed, fall through to general question handling
       } else {
         // General questions - use OpenAI Vision API if image is provided (ChatGPT-style analysis)
-        const cacheKey = `chat:${questionToProcess.toLowerCase().trim()}:${imageUrl || imageFilePath || 'no-image'}`;
+        const cacheKey = `chat:${questionToProcess.toLowerCase().trim()}:${imageUrl || imageFilePath || 'no-image'}${threadCacheSuffix}`;
 
         // Create enhanced system message for image-based questions
         let systemMessage: string | undefined;
@@ -1935,7 +2005,9 @@ CRITICAL INSTRUCTIONS:
                     questionToProcess,
                     imageForVision?.startsWith('http') ? imageForVision : undefined,
                     imageForVision?.startsWith('data:') ? imageForVision : undefined,
-                    systemMessage
+                    systemMessage,
+                    threadHistory,
+                    onDelta
                   )),
                   visionTimeoutPromise // Use longer timeout for vision API calls
                 ]);
@@ -1958,7 +2030,7 @@ CRITICAL INSTRUCTIONS:
               // Fallback to text-only if image conversion fails
               try {
                 const raceResult = await Promise.race([
-                  deduplicateRequest(cacheKey, () => getChatCompletion(questionToProcess, systemMessage)),
+                  deduplicateRequest(cacheKey, () => getChatCompletion(questionToProcess, systemMessage, threadHistory, onDelta)),
                   timeoutPromise
                 ]);
                 // Cancel timeout IMMEDIATELY after race completes (synchronously)
@@ -1977,9 +2049,9 @@ CRITICAL INSTRUCTIONS:
             // Fallback to text-only API
             try {
               // Create a new timeout for the fallback (30s to match main timeout)
-              const fallbackTimeout = createTimeoutPromise(30000, 'Request timeout');
+              const fallbackTimeout = createTimeoutPromise(aiRequestTimeout, 'Request timeout');
               baseAnswer = await Promise.race([
-                deduplicateRequest(cacheKey, () => getChatCompletion(questionToProcess, systemMessage)),
+                deduplicateRequest(cacheKey, () => getChatCompletion(questionToProcess, systemMessage, threadHistory, onDelta)),
                 fallbackTimeout.promise
               ]) as string;
               // Cancel timeout since request completed successfully
@@ -1998,7 +2070,7 @@ CRITICAL INSTRUCTIONS:
           // No image, use text-only API
           try {
             const raceResult = await Promise.race([
-              deduplicateRequest(cacheKey, () => getChatCompletion(questionToProcess, systemMessage)),
+              deduplicateRequest(cacheKey, () => getChatCompletion(questionToProcess, systemMessage, threadHistory, onDelta)),
               timeoutPromise
             ]);
             // Cancel timeout IMMEDIATELY after race completes (synchronously)
@@ -2043,6 +2115,11 @@ CRITICAL INSTRUCTIONS:
     answer = processedAnswer;
     metrics.questionProcessing = processingLatency;
 
+    // Answers that never went through OpenAI (cache hits, recommendations, IGDB data) are streamed whole
+    if (streamWriter && !streamWriter.hasStreamedContent && answer) {
+      streamWriter.delta(answer);
+    }
+
     // Measure database operations with enhanced metrics
     const dbMetrics = await measureDBQuery('Create Question', async () => {
       try {
@@ -2052,6 +2129,10 @@ CRITICAL INSTRUCTIONS:
 
         try {
           await session.withTransaction(async () => {
+            // Attach the question to its thread, starting a new thread if none was requested
+            const thread = requestedThread || await createThreadForQuestion(username || 'anonymous', question, session);
+            await recordThreadActivity(thread.threadId, session);
+
             // Create question with proper username handling
             // Include imageUrl if provided (use imageUrl from cloud storage, fallback to imageFilePath)
             const questionImageUrl = imageUrl || (imageFilePath ? `/uploads/question-images/${path.basename(imageFilePath)}` : undefined);
@@ -2059,7 +2140,8 @@ CRITICAL INSTRUCTIONS:
               username: username || 'anonymous',
               question,
               response: answer,
-              imageUrl: questionImageUrl // Save image URL with the question
+              imageUrl: questionImageUrl, // Save image URL with the question
+              threadId: thread.threadId
             };
             const questionDoc = await Question.create([questionData], { session });
 
@@ -2098,7 +2180,7 @@ CRITICAL INSTRUCTIONS:
                 { new: true, session }
               );
 
-              result = { questionDoc, userDoc };
+              result = { questionDoc, userDoc, threadId: thread.threadId };
             } else {
               // User doesn't exist - create with initial structure
               const initialProgress = {
@@ -2163,7 +2245,7 @@ CRITICAL INSTRUCTIONS:
                 progress: initialProgress
               }], { session });
 
-              result = { questionDoc, userDoc: userDoc[0] };
+              result = { questionDoc, userDoc: userDoc[0], threadId: thread.threadId };
             }
 
             // Check achievements only once with the updated progress
@@ -2188,12 +2270,13 @@ CRITICAL INSTRUCTIONS:
 
     // Clear conversation cache for this user to ensure fresh data on next fetch
     if (username) {
-      clearUserCache(username);
+      await clearUserCache(username);
     }
 
     // Extract question ID for metadata analysis (runs asynchronously after response)
     // questionDoc is an array returned from Question.create
     const questionId = dbMetrics.result?.questionDoc?.[0]?._id?.toString();
+    const answeredThreadId: string | undefined = dbMetrics.result?.threadId;
 
     // Measure final memory usage
     metrics.finalMemory = measureMemoryUsage();
@@ -2301,8 +2384,9 @@ CRITICAL INSTRUCTIONS:
 
     // Return just the base answer
     // Recommendations are generated in background and can be fetched separately
-    return res.status(200).json({
+    return sendResponse(200, {
       answer: answer,
+      threadId: answeredThreadId,
       metrics,
       // Include a flag to indicate recommendations may be available
       recommendationsAvailable: !!username
@@ -2337,21 +2421,21 @@ CRITICAL INSTRUCTIONS:
     });
 
     if (error instanceof AssistantError) {
-      res.status(error.statusCode).json({
+      sendResponse(error.statusCode, {
         error: error.message,
         details: 'An error occurred while processing your request',
         metrics
       });
     } else if (isTimeoutError) {
       // Special handling for timeout errors
-      res.status(504).json({
+      sendResponse(504, {
         error: "Request Timeout",
         details: 'The request took too long to process. This may happen with complex questions or when the AI service is slow. Please try again with a simpler question or wait a moment.',
         metrics,
         timeout: true
       });
     } else {
-      res.status(500).json({
+      sendResponse(500, {
         error: "Internal Server Error",
         details: error instanceof Error ? error.message : 'An unexpected error occurred',
         metrics,
@@ -2365,5 +2449,36 @@ CRITICAL INSTRUCTIONS:
   }
 };
 
+/**
+ * Socket.IO variant of the streaming assistant (event `assistant:ask` in middleware/realtime.ts)
+ * Runs the same pipeline as POST /api/assistant as the user the socket authenticated as at its
+ * handshake (socket.data.user), and emits assistant:start/delta/done/error to the requesting socket.
+ * The handshake's cookie may have expired since, so it is not checked again.
+ */
+export const handleAssistantSocketRequest = async (
+  socket: Socket,
+  requestId: string,
+  payload: { question?: string; imageFilePath?: string; imageUrl?: string; threadId?: string }
+) => {
+  const req = {
+    method: 'POST',
+    query: {},
+    body: {
+      question: payload?.question,
+      imageFilePath: payload?.imageFilePath,
+      imageUrl: payload?.imageUrl,
+      threadId: payload?.threadId,
+      stream: true
+    },
+    headers: {}
+  } as unknown as AuthenticatedRequest;
+
+  // Without a handshake user the request has no credentials and is answered with a 401
+  const caller = (socket.data.user as SocketUserData | undefined) || null;
+
+  // All responses are routed through the socket stream writer, so no HTTP response object is needed
+  await assistantHandler(req, {} as NextApiResponse, createSocketStreamWriter(socket, requestId), caller);
+};
+
 // Apply request size limiting middleware to prevent DoS attacks
 export default withRequestSizeLimit(assistantHandler);
\ No newline at end of file
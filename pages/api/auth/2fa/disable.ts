@@ -0,0 +1,75 @@
+import type { NextApiResponse } from 'next';
+import mongoose from 'mongoose';
+import User from '../../../../models/User';
+import { connectToWingmanDB } from '../../../../utils/databaseConnections';
+import { requireAuth, AuthenticatedRequest } from '../../../../middleware/auth';
+import { comparePassword } from '../../../../utils/passwordUtils';
+import {
+  isTwoFactorEnabled,
+  requireTwoFactorReauth,
+  disableTwoFactor,
+  TWO_FACTOR_SECRET_FIELDS,
+} from '../../../../utils/twoFactor';
+import { recordSecurityEvent } from '../../../../utils/securityEvents';
+
+/**
+ * Two-Factor Disable Endpoint
+ *
+ * POST /api/auth/2fa/disable
+ * - Body: { password?: string, code: string }
+ *   (password for accounts that have one, plus an authenticator or recovery code)
+ */
+export default async function handler(req: AuthenticatedRequest, res: NextApiResponse) {
+  if (req.method !== 'POST') {
+    return res.status(405).json({ message: 'Method not allowed' });
+  }
+
+  try {
+    const authResult = await requireAuth(req, res);
+    if (!authResult.authenticated || !authResult.username) {
+      return res.status(401).json({ message: 'Authentication required' });
+    }
+
+    if (mongoose.connection.readyState !== 1) {
+      await connectToWingmanDB();
+    }
+
+    const user = await User.findOne({ username: authResult.username }).select(TWO_FACTOR_SECRET_FIELDS);
+    if (!user) {
+      return res.status(404).json({ message: 'User not found' });
+    }
+
+    if (!isTwoFactorEnabled(user)) {
+      return res.status(400).json({ message: 'Two-factor authentication is not enabled' });
+    }
+
+    const { password, code } = req.body || {};
+    if (user.password && (!password || !(await comparePassword(password, user.password)))) {
+      return res.status(403).json({ message: 'Incorrect password' });
+    }
+
+    await requireTwoFactorReauth(user, code);
+    disableTwoFactor(user);
+    await user.save();
+
+    console.log(`[SECURITY] Two-factor disabled: userId=${user.userId}, username=${user.username}`);
+    await recordSecurityEvent({
+      userId: user.userId,
+      username: user.username,
+      type: 'two_factor_disabled',
+      severity: 'warning',
+      req,
+    });
+
+    return res.status(200).json({ message: 'Two-factor authentication has been turned off' });
+  } catch (error: any) {
+    if (error?.statusCode) {
+      return res.status(error.statusCode).json({
+        message: error.message,
+        twoFactorRequired: error.twoFactorRequired,
+      });
+    }
+    console.error('Error in 2fa disable API:', error);
+    return res.status(500).json({ message: 'Error disabling two-factor authentication' });
+  }
+}
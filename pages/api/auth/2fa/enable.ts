@@ -0,0 +1,58 @@
+import type { NextApiResponse } from 'next';
+import mongoose from 'mongoose';
+import User from '../../../../models/User';
+import { connectToWingmanDB } from '../../../../utils/databaseConnections';
+import { requireAuth, AuthenticatedRequest } from '../../../../middleware/auth';
+import { enableTwoFactor, TWO_FACTOR_SECRET_FIELDS } from '../../../../utils/twoFactor';
+import { recordSecurityEvent } from '../../../../utils/securityEvents';
+
+/**
+ * Two-Factor Enable Endpoint
+ *
+ * POST /api/auth/2fa/enable
+ * - Body: { code: string } from the authenticator app set up via /api/auth/2fa/setup
+ * - Turns two-factor on and returns the recovery codes. They are only ever shown here.
+ */
+export default async function handler(req: AuthenticatedRequest, res: NextApiResponse) {
+  if (req.method !== 'POST') {
+    return res.status(405).json({ message: 'Method not allowed' });
+  }
+
+  try {
+    const authResult = await requireAuth(req, res);
+    if (!authResult.authenticated || !authResult.username) {
+      return res.status(401).json({ message: 'Authentication required' });
+    }
+
+    const { code } = req.body || {};
+    if (!code || typeof code !== 'string') {
+      return res.status(400).json({ message: 'Verification code is required' });
+    }
+
+    if (mongoose.connection.readyState !== 1) {
+      await connectToWingmanDB();
+    }
+
+    const user = await User.findOne({ username: authResult.username }).select(TWO_FACTOR_SECRET_FIELDS);
+    if (!user) {
+      return res.status(404).json({ message: 'User not found' });
+    }
+
+    const { recoveryCodes } = enableTwoFactor(user, code);
+    await user.save();
+
+    console.log(`[SECURITY] Two-factor enabled: userId=${user.userId}, username=${user.username}`);
+    await recordSecurityEvent({ userId: user.userId, username: user.username, type: 'two_factor_enabled', req });
+
+    return res.status(200).json({
+      message: 'Two-factor authentication is now enabled',
+      recoveryCodes,
+    });
+  } catch (error: any) {
+    if (error?.statusCode) {
+      return res.status(error.statusCode).json({ message: error.message });
+    }
+    console.error('Error in 2fa enable API:', error);
+    return res.status(500).json({ message: 'Error enabling two-factor authentication' });
+  }
+}
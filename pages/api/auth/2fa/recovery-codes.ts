@@ -0,0 +1,62 @@
+import type { NextApiResponse } from 'next';
+import mongoose from 'mongoose';
+import User from '../../../../models/User';
+import { connectToWingmanDB } from '../../../../utils/databaseConnections';
+import { requireAuth, AuthenticatedRequest } from '../../../../middleware/auth';
+import {
+  isTwoFactorEnabled,
+  requireTwoFactorReauth,
+  regenerateRecoveryCodes,
+  TWO_FACTOR_SECRET_FIELDS,
+} from '../../../../utils/twoFactor';
+
+/**
+ * Recovery Codes Endpoint
+ *
+ * POST /api/auth/2fa/recovery-codes
+ * - Body: { code: string } (authenticator or recovery code)
+ * - Replaces every recovery code with a new set and returns them once
+ */
+export default async function handler(req: AuthenticatedRequest, res: NextApiResponse) {
+  if (req.method !== 'POST') {
+    return res.status(405).json({ message: 'Method not allowed' });
+  }
+
+  try {
+    const authResult = await requireAuth(req, res);
+    if (!authResult.authenticated || !authResult.username) {
+      return res.status(401).json({ message: 'Authentication required' });
+    }
+
+    if (mongoose.connection.readyState !== 1) {
+      await connectToWingmanDB();
+    }
+
+    const user = await User.findOne({ username: authResult.username }).select(TWO_FACTOR_SECRET_FIELDS);
+    if (!user) {
+      return res.status(404).json({ message: 'User not found' });
+    }
+
+    if (!isTwoFactorEnabled(user)) {
+      return res.status(400).json({ message: 'Two-factor authentication is not enabled' });
+    }
+
+    const { code } = req.body || {};
+    await requireTwoFactorReauth(user, code);
+    const { recoveryCodes } = regenerateRecoveryCodes(user);
+    await user.save();
+
+    console.log(`[SECURITY] Recovery codes regenerated: userId=${user.userId}, username=${user.username}`);
+
+    return res.status(200).json({ recoveryCodes });
+  } catch (error: any) {
+    if (error?.statusCode) {
+      return res.status(error.statusCode).json({
+        message: error.message,
+        twoFactorRequired: error.twoFactorRequired,
+      });
+    }
+    console.error('Error in 2fa recovery-codes API:', error);
+    return res.status(500).json({ message: 'Error generating recovery codes' });
+  }
+}
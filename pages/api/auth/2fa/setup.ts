@@ -0,0 +1,55 @@
+import type { NextApiResponse } from 'next';
+import mongoose from 'mongoose';
+import User from '../../../../models/User';
+import { connectToWingmanDB } from '../../../../utils/databaseConnections';
+import { requireAuth, AuthenticatedRequest } from '../../../../middleware/auth';
+import { comparePassword } from '../../../../utils/passwordUtils';
+import { beginTwoFactorSetup, TWO_FACTOR_SECRET_FIELDS } from '../../../../utils/twoFactor';
+
+/**
+ * Two-Factor Setup Endpoint
+ *
+ * POST /api/auth/2fa/setup
+ * - Body: { password?: string } (required for accounts with a password)
+ * - Generates a new pending secret and returns the otpauth:// provisioning URI and the
+ *   secret for manual entry. Nothing changes for sign-in until /api/auth/2fa/enable succeeds.
+ */
+export default async function handler(req: AuthenticatedRequest, res: NextApiResponse) {
+  if (req.method !== 'POST') {
+    return res.status(405).json({ message: 'Method not allowed' });
+  }
+
+  try {
+    const authResult = await requireAuth(req, res);
+    if (!authResult.authenticated || !authResult.username) {
+      return res.status(401).json({ message: 'Authentication required' });
+    }
+
+    if (mongoose.connection.readyState !== 1) {
+      await connectToWingmanDB();
+    }
+
+    const user = await User.findOne({ username: authResult.username }).select(TWO_FACTOR_SECRET_FIELDS);
+    if (!user) {
+      return res.status(404).json({ message: 'User not found' });
+    }
+
+    if (user.password) {
+      const { password } = req.body || {};
+      if (!password || !(await comparePassword(password, user.password))) {
+        return res.status(403).json({ message: 'Incorrect password' });
+      }
+    }
+
+    const { secret, provisioningUri } = beginTwoFactorSetup(user);
+    await user.save();
+
+    return res.status(200).json({ secret, provisioningUri });
+  } catch (error: any) {
+    if (error?.statusCode) {
+      return res.status(error.statusCode).json({ message: error.message });
+    }
+    console.error('Error in 2fa setup API:', error);
+    return res.status(500).json({ message: 'Error starting two-factor setup' });
+  }
+}
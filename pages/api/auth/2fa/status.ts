@@ -0,0 +1,45 @@
+import type { NextApiResponse } from 'next';
+import mongoose from 'mongoose';
+import User from '../../../../models/User';
+import { connectToWingmanDB } from '../../../../utils/databaseConnections';
+import { requireAuth, AuthenticatedRequest } from '../../../../middleware/auth';
+import { isTwoFactorEnabled, getRemainingRecoveryCodes, TWO_FACTOR_SECRET_FIELDS } from '../../../../utils/twoFactor';
+
+/**
+ * Two-Factor Status Endpoint
+ *
+ * GET /api/auth/2fa/status
+ * - Requires authentication
+ * - Returns whether two-factor is enabled and how many recovery codes are left
+ */
+export default async function handler(req: AuthenticatedRequest, res: NextApiResponse) {
+  if (req.method !== 'GET') {
+    return res.status(405).json({ message: 'Method not allowed' });
+  }
+
+  try {
+    const authResult = await requireAuth(req, res);
+    if (!authResult.authenticated || !authResult.username) {
+      return res.status(401).json({ message: 'Authentication required' });
+    }
+
+    if (mongoose.connection.readyState !== 1) {
+      await connectToWingmanDB();
+    }
+
+    const user = await User.findOne({ username: authResult.username }).select(TWO_FACTOR_SECRET_FIELDS);
+    if (!user) {
+      return res.status(404).json({ message: 'User not found' });
+    }
+
+    return res.status(200).json({
+      enabled: isTwoFactorEnabled(user),
+      enabledAt: user.twoFactor?.enabledAt || null,
+      recoveryCodesRemaining: getRemainingRecoveryCodes(user),
+      hasPassword: Boolean(user.password),
+    });
+  } catch (error) {
+    console.error('Error in 2fa status API:', error);
+    return res.status(500).json({ message: 'Error loading two-factor status' });
+  }
+}
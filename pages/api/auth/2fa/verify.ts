@@ -0,0 +1,141 @@
+import type { NextApiRequest, NextApiResponse } from 'next';
+import mongoose from 'mongoose';
+import User from '../../../../models/User';
+import { connectToWingmanDB } from '../../../../utils/databaseConnections';
+import { setAuthCookiesWithSession } from '../../../../utils/session';
+import { verifyTwoFactorChallengeToken } from '../../../../utils/jwt';
+import {
+  checkAccountLocked,
+  trackFailedLoginAttempt,
+  resetFailedLoginAttempts,
+} from '../../../../utils/accountLockout';
+import { consumeTwoFactorCode, TWO_FACTOR_SECRET_FIELDS } from '../../../../utils/twoFactor';
+import { recordLoginEvent } from '../../../../utils/securityEvents';
+import { withRequestSizeLimit } from '../../../../middleware/requestSizeLimit';
+
+/**
+ * Two-Factor Sign-In Endpoint
+ *
+ * POST /api/auth/2fa/verify
+ * - Body: { challengeToken: string, code: string }
+ * - Second sign-in step for accounts with two-factor enabled. /api/auth/signin returns the
+ *   challenge token after the password check; a valid authenticator or recovery code exchanges
+ *   it for the session cookies. Wrong codes count towards the account lockout.
+ */
+async function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (req.method !== 'POST') {
+    return res.status(405).json({ message: 'Method not allowed' });
+  }
+
+  const { challengeToken, code } = req.body || {};
+  if (!challengeToken || !code) {
+    return res.status(400).json({ message: 'Challenge token and code are required' });
+  }
+
+  let challenge: { userId: string; username: string };
+  try {
+    challenge = verifyTwoFactorChallengeToken(challengeToken);
+  } catch (error) {
+    return res.status(401).json({
+      message: 'Your sign-in attempt has expired. Please sign in again.',
+      challengeExpired: true,
+    });
+  }
+
+  const ip = (req.headers['x-forwarded-for'] as string)?.split(',')[0] ||
+             (req.headers['x-real-ip'] as string) ||
+             req.socket.remoteAddress ||
+             'unknown';
+
+  try {
+    if (mongoose.connection.readyState !== 1) {
+      await connectToWingmanDB();
+    }
+
+    const user = await User.findOne({
+      userId: challenge.userId,
+      username: challenge.username,
+    }).select(TWO_FACTOR_SECRET_FIELDS);
+
+    if (!user) {
+      return res.status(401).json({ message: 'Your sign-in attempt has expired. Please sign in again.', challengeExpired: true });
+    }
+
+    const lockStatus = checkAccountLocked(user);
+    if (lockStatus.isLocked) {
+      return res.status(403).json({
+        message: lockStatus.message || 'Account is locked. Please check your email for unlock instructions.',
+        accountLocked: true,
+        lockedUntil: lockStatus.lockedUntil,
+        requiresUnlock: lockStatus.requiresUnlock,
+      });
+    }
+
+    if (user.passwordResetRequired) {
+      return res.status(403).json({
+        message: 'For your security, please reset your password using the link we emailed you, or request a new one with Forgot Password.',
+        passwordResetRequired: true,
+      });
+    }
+
+    if (user.deletionScheduledFor) {
+      return res.status(403).json({
+        message: 'This account is scheduled for deletion. Use the restore link we emailed you to keep it.',
+        pendingDeletion: true,
+        deletionScheduledFor: user.deletionScheduledFor,
+      });
+    }
+
+    const result = await consumeTwoFactorCode(user, String(code));
+    if (!result.valid) {
+      await trackFailedLoginAttempt(user, ip);
+      if (user.isLocked) {
+        const updatedLockStatus = checkAccountLocked(user);
+        return res.status(403).json({
+          message: updatedLockStatus.message || 'Account has been locked due to multiple failed login attempts. Please check your email for unlock instructions.',
+          accountLocked: true,
+          lockedUntil: updatedLockStatus.lockedUntil,
+          requiresUnlock: updatedLockStatus.requiresUnlock,
+        });
+      }
+      return res.status(401).json({ message: 'Invalid two-factor code' });
+    }
+
+    // Failed password/code attempts before this sign-in, for the login risk check
+    const priorFailedAttempts = user.failedLoginAttempts || 0;
+
+    await resetFailedLoginAttempts(user);
+
+    if (result.method === 'recovery_code') {
+      console.log(`[SECURITY] Signed in with a recovery code: userId=${user.userId}, username=${user.username}`);
+    }
+
+    const session = await setAuthCookiesWithSession(req, res, user.userId, user.username, user.email);
+    setImmediate(() => recordLoginEvent(req, user, session, priorFailedAttempts));
+
+    // Never send the secret or recovery code hashes to the client
+    const { password: _, twoFactor, ...userFields } = user.toObject();
+    const userResponse = {
+      ...userFields,
+      twoFactor: { enabled: true, enabledAt: twoFactor?.enabledAt },
+    };
+    const recoveryCodesRemaining = (twoFactor?.recoveryCodes || []).filter((entry: { usedAt?: Date }) => !entry.usedAt).length;
+
+    return res.status(200).json({
+      message: 'Signed in successfully',
+      user: userResponse,
+      requiresPasswordSetup: !user.password,
+      isLegacyUser: !user.password,
+      recoveryCodesRemaining,
+    });
+  } catch (error) {
+    console.error('Error in 2fa verify API:', error);
+    return res.status(500).json({
+      message: 'Error signing in. Please try again.',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+}
+
+// Apply request size limiting middleware to prevent DoS attacks
+export default withRequestSizeLimit(handler);
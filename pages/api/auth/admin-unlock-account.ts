@@ -3,14 +3,19 @@ import { connectToWingmanDB } from '../../../utils/databaseConnections';
 import User from '../../../models/User';
 import mongoose from 'mongoose';
 import { unlockAccount } from '../../../utils/accountLockout';
+import { disableTwoFactor, isTwoFactorEnabled } from '../../../utils/twoFactor';
+import { recordSecurityEvent } from '../../../utils/securityEvents';
 import { requireAuth } from '../../../middleware/auth';
+import { requirePermission, ADMIN_ACCESS_LEVELS } from '../../../utils/adminAccess';
 
 /**
  * API endpoint for admins to unlock user accounts
  * POST /api/auth/admin-unlock-account
  * Body: { userId: string } or { username: string } or { email: string }
- * 
- * Note: This endpoint requires authentication. You may want to add admin role checking.
+ *       plus optional resetTwoFactor: true to turn off two-factor for a user who lost their
+ *       authenticator and recovery codes (works on accounts that aren't locked)
+ *
+ * Requires the manage_users permission (admin and support roles)
  */
 export default async function handler(
   req: NextApiRequest,
@@ -28,8 +33,9 @@ export default async function handler(
         message: 'Authentication required',
       });
     }
+    await requirePermission(authResult.username, ADMIN_ACCESS_LEVELS.MANAGE_USERS);
 
-    const { userId, username, email } = req.body;
+    const { userId, username, email, resetTwoFactor } = req.body;
 
     // Validate input
     if (!userId && !username && !email) {
@@ -58,33 +64,72 @@ export default async function handler(
     }
 
     // Check if account is actually locked
-    if (!user.isLocked) {
+    if (!user.isLocked && !resetTwoFactor) {
       return res.status(400).json({
         message: 'Account is not locked',
       });
     }
 
-    // Unlock the account
-    await unlockAccount(user, 'admin_unlock');
+    let twoFactorReset = false;
+    if (resetTwoFactor) {
+      if (!isTwoFactorEnabled(user)) {
+        return res.status(400).json({
+          message: 'Two-factor authentication is not enabled for this account',
+        });
+      }
+      disableTwoFactor(user);
+      await user.save();
+      twoFactorReset = true;
 
-    // Log admin unlock
-    console.log(
-      `[SECURITY] Account unlocked by admin: userId=${user.userId}, ` +
-        `username=${user.username}, unlockedBy=${authResult.username}`
-    );
+      console.log(
+        `[SECURITY] Two-factor reset by admin: userId=${user.userId}, ` +
+          `username=${user.username}, resetBy=${authResult.username}`
+      );
+      await recordSecurityEvent({
+        userId: user.userId,
+        username: user.username,
+        type: 'two_factor_disabled',
+        severity: 'warning',
+        details: { resetByAdmin: true },
+      });
+    }
+
+    const wasLocked = user.isLocked;
+    if (wasLocked) {
+      // Unlock the account
+      await unlockAccount(user, 'admin_unlock');
+
+      // Log admin unlock
+      console.log(
+        `[SECURITY] Account unlocked by admin: userId=${user.userId}, ` +
+          `username=${user.username}, unlockedBy=${authResult.username}`
+      );
+    }
 
     return res.status(200).json({
-      message: 'Account unlocked successfully',
+      message: twoFactorReset
+        ? wasLocked
+          ? 'Account unlocked and two-factor authentication reset'
+          : 'Two-factor authentication reset successfully'
+        : 'Account unlocked successfully',
       success: true,
+      twoFactorReset,
       user: {
         userId: user.userId,
         username: user.username,
         email: user.email,
       },
     });
-  } catch (error) {
+  } catch (error: any) {
     console.error('Error in admin-unlock-account API:', error);
 
+    // Handle permission errors
+    if (error.statusCode === 403) {
+      return res.status(403).json({
+        message: error.message || 'Access denied',
+      });
+    }
+
     return res.status(500).json({
       message: 'Error unlocking account. Please try again.',
       details: error instanceof Error ? error.message : 'Unknown error',
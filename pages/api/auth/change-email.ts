@@ -0,0 +1,91 @@
+import type { NextApiResponse } from 'next';
+import mongoose from 'mongoose';
+import User from '../../../models/User';
+import { connectToWingmanDB } from '../../../utils/databaseConnections';
+import { requireAuth, AuthenticatedRequest } from '../../../middleware/auth';
+import { comparePassword } from '../../../utils/passwordUtils';
+import { requireTwoFactorReauth, TWO_FACTOR_SECRET_FIELDS } from '../../../utils/twoFactor';
+import { recordSecurityEvent } from '../../../utils/securityEvents';
+
+// Email validation regex
+const EMAIL_REGEX = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+/**
+ * Change Email Endpoint
+ *
+ * POST /api/auth/change-email
+ * - Body: { newEmail: string, password?: string, twoFactorCode?: string }
+ * - Requires authentication, the current password (for accounts that have one) and, when
+ *   two-factor is enabled, a code
+ */
+export default async function handler(req: AuthenticatedRequest, res: NextApiResponse) {
+  if (req.method !== 'POST') {
+    return res.status(405).json({ message: 'Method not allowed' });
+  }
+
+  const { password, twoFactorCode } = req.body || {};
+  const newEmail = typeof req.body?.newEmail === 'string' ? req.body.newEmail.trim() : '';
+
+  if (!newEmail || !EMAIL_REGEX.test(newEmail)) {
+    return res.status(400).json({ message: 'Please enter a valid email address' });
+  }
+
+  try {
+    const authResult = await requireAuth(req, res);
+    if (!authResult.authenticated || !authResult.username) {
+      return res.status(401).json({ message: 'Authentication required' });
+    }
+
+    if (mongoose.connection.readyState !== 1) {
+      await connectToWingmanDB();
+    }
+
+    const user = await User.findOne({ username: authResult.username }).select(TWO_FACTOR_SECRET_FIELDS);
+    if (!user) {
+      return res.status(404).json({ message: 'User not found' });
+    }
+
+    if (user.email === newEmail) {
+      return res.status(400).json({ message: 'That is already your email address' });
+    }
+
+    if (user.password && (!password || !(await comparePassword(password, user.password)))) {
+      return res.status(403).json({ message: 'Incorrect password' });
+    }
+
+    const existingUser = await User.findOne({ email: newEmail, _id: { $ne: user._id } });
+    if (existingUser) {
+      return res.status(409).json({ message: 'An account with this email address already exists' });
+    }
+
+    await requireTwoFactorReauth(user, twoFactorCode);
+
+    const previousEmail = user.email;
+    user.email = newEmail;
+    await user.save();
+
+    console.log(
+      `[SECURITY] Email changed: userId=${user.userId}, username=${user.username}, ` +
+        `from=${previousEmail}, to=${newEmail}`
+    );
+    await recordSecurityEvent({
+      userId: user.userId,
+      username: user.username,
+      type: 'email_changed',
+      severity: 'warning',
+      req,
+      details: { previousEmail, newEmail },
+    });
+
+    return res.status(200).json({ message: 'Email updated successfully', email: newEmail });
+  } catch (error: any) {
+    if (error?.statusCode) {
+      return res.status(error.statusCode).json({
+        message: error.message,
+        twoFactorRequired: error.twoFactorRequired,
+      });
+    }
+    console.error('Error in change-email API:', error);
+    return res.status(500).json({ message: 'Error changing email. Please try again.' });
+  }
+}
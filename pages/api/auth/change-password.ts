@@ -0,0 +1,75 @@
+import type { NextApiResponse } from 'next';
+import mongoose from 'mongoose';
+import User from '../../../models/User';
+import { connectToWingmanDB } from '../../../utils/databaseConnections';
+import { requireAuth, AuthenticatedRequest } from '../../../middleware/auth';
+import { comparePassword, hashPassword, validatePassword } from '../../../utils/passwordUtils';
+import { requireTwoFactorReauth, TWO_FACTOR_SECRET_FIELDS } from '../../../utils/twoFactor';
+import { recordSecurityEvent } from '../../../utils/securityEvents';
+
+/**
+ * Change Password Endpoint
+ *
+ * POST /api/auth/change-password
+ * - Body: { currentPassword: string, newPassword: string, twoFactorCode?: string }
+ * - Requires authentication, the current password and, when two-factor is enabled, a code.
+ *   Accounts without a password use /api/auth/setup-password instead.
+ */
+export default async function handler(req: AuthenticatedRequest, res: NextApiResponse) {
+  if (req.method !== 'POST') {
+    return res.status(405).json({ message: 'Method not allowed' });
+  }
+
+  const { currentPassword, newPassword, twoFactorCode } = req.body || {};
+  if (!currentPassword || !newPassword) {
+    return res.status(400).json({ message: 'Current password and new password are required' });
+  }
+
+  const passwordValidation = validatePassword(newPassword);
+  if (!passwordValidation.isValid) {
+    return res.status(400).json({ message: passwordValidation.message });
+  }
+
+  try {
+    const authResult = await requireAuth(req, res);
+    if (!authResult.authenticated || !authResult.username) {
+      return res.status(401).json({ message: 'Authentication required' });
+    }
+
+    if (mongoose.connection.readyState !== 1) {
+      await connectToWingmanDB();
+    }
+
+    const user = await User.findOne({ username: authResult.username }).select(TWO_FACTOR_SECRET_FIELDS);
+    if (!user) {
+      return res.status(404).json({ message: 'User not found' });
+    }
+
+    if (!user.password) {
+      return res.status(400).json({ message: 'Your account has no password yet. Set one up first.' });
+    }
+
+    if (!(await comparePassword(currentPassword, user.password))) {
+      return res.status(403).json({ message: 'Current password is incorrect' });
+    }
+
+    await requireTwoFactorReauth(user, twoFactorCode);
+
+    user.password = await hashPassword(newPassword);
+    await user.save();
+
+    console.log(`[SECURITY] Password changed: userId=${user.userId}, username=${user.username}`);
+    await recordSecurityEvent({ userId: user.userId, username: user.username, type: 'password_changed', req });
+
+    return res.status(200).json({ message: 'Password updated successfully' });
+  } catch (error: any) {
+    if (error?.statusCode) {
+      return res.status(error.statusCode).json({
+        message: error.message,
+        twoFactorRequired: error.twoFactorRequired,
+      });
+    }
+    console.error('Error in change-password API:', error);
+    return res.status(500).json({ message: 'Error changing password. Please try again.' });
+  }
+}
@@ -76,6 +76,10 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
       return res.status(500).json({ message: 'User data is incomplete' });
     }
 
+    if (user.deletionScheduledFor) {
+      return res.status(403).json({ message: 'This account is scheduled for deletion' });
+    }
+
     // Set HTTP-only cookie for main app domain
     // Use shared domain cookie for cross-domain authentication
     const domain = process.env.NODE_ENV === 'production' 
@@ -1,6 +1,6 @@
 import type { NextApiRequest, NextApiResponse } from 'next';
 import { verifyRefreshToken } from '../../../utils/jwt';
-import { getTokenFromCookies, REFRESH_TOKEN_COOKIE, setAuthCookiesWithSession } from '../../../utils/session';
+import { getTokenFromCookies, REFRESH_TOKEN_COOKIE, setAuthCookiesWithSession, clearAuthCookies } from '../../../utils/session';
 import { blacklistToken } from '../../../utils/tokenBlacklist';
 import { connectToWingmanDB } from '../../../utils/databaseConnections';
 import User from '../../../models/User';
@@ -83,6 +83,13 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
       });
     }
 
+    if (user.deletionScheduledFor) {
+      clearAuthCookies(res);
+      return res.status(401).json({
+        message: 'This account is scheduled for deletion',
+      });
+    }
+
     // Token rotation: Blacklist the old refresh token before issuing new ones
     // This prevents refresh token reuse (security best practice)
     await blacklistToken(
@@ -0,0 +1,55 @@
+import type { NextApiRequest, NextApiResponse } from 'next';
+import mongoose from 'mongoose';
+import { connectToWingmanDB } from '../../../utils/databaseConnections';
+import { reportSuspiciousLogin } from '../../../utils/securityEvents';
+
+/**
+ * "This wasn't me" link from a sign-in alert email
+ * POST /api/auth/report-login
+ * Body: { token: string }
+ *
+ * Signs out every session and requires a password reset before the next sign-in.
+ */
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (req.method !== 'POST') {
+    return res.status(405).json({ message: 'Method not allowed' });
+  }
+
+  const { token } = req.body || {};
+  if (!token || typeof token !== 'string') {
+    return res.status(400).json({ message: 'Report token is required' });
+  }
+
+  try {
+    if (mongoose.connection.readyState !== 1) {
+      await connectToWingmanDB();
+    }
+
+    const result = await reportSuspiciousLogin(token, req);
+
+    if (result.alreadyReported) {
+      return res.status(200).json({
+        success: true,
+        alreadyReported: true,
+        message: 'This sign-in was already reported. Use the reset link we emailed you to choose a new password.',
+      });
+    }
+
+    return res.status(200).json({
+      success: true,
+      alreadyReported: false,
+      resetEmailSent: result.resetEmailSent,
+      message: result.resetEmailSent
+        ? 'All sessions have been signed out. Check your email for a link to choose a new password.'
+        : 'All sessions have been signed out. Use "Forgot password" on the sign-in page to choose a new password.',
+    });
+  } catch (error: any) {
+    if (error?.statusCode) {
+      return res.status(error.statusCode).json({ message: error.message });
+    }
+    console.error('Error in report-login API:', error);
+    return res.status(500).json({
+      message: 'Error securing your account. Please try again or contact support.',
+    });
+  }
+}
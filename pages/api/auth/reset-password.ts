@@ -3,6 +3,7 @@ import { connectToWingmanDB } from '../../../utils/databaseConnections';
 import User from '../../../models/User';
 import { hashPassword, validatePassword } from '../../../utils/passwordUtils';
 import mongoose from 'mongoose';
+import { recordSecurityEvent } from '../../../utils/securityEvents';
 
 export default async function handler(req: NextApiRequest, res: NextApiResponse) {
   if (req.method !== 'POST') {
@@ -54,7 +55,8 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
         password: hashedPassword,
         passwordResetToken: undefined,
         passwordResetExpires: undefined,
-        requiresPasswordSetup: false // They've now set their password
+        requiresPasswordSetup: false, // They've now set their password
+        passwordResetRequired: false // Clears a forced reset after a reported sign-in
       },
       { new: true } // Return the updated document
     );
@@ -67,6 +69,7 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
     }
 
     console.log(`Password successfully updated for user: ${user.username} (${user.email})`);
+    await recordSecurityEvent({ userId: user.userId, username: user.username, type: 'password_reset', req });
 
     // Verify the password was actually updated in the database
     const verifyUser = await User.findById(user._id).select('password passwordResetToken passwordResetExpires requiresPasswordSetup');
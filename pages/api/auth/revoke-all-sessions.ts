@@ -4,6 +4,11 @@ import { getTokenFromCookies, ACCESS_TOKEN_COOKIE, REFRESH_TOKEN_COOKIE } from '
 import { blacklistToken, blacklistAllUserTokens } from '../../../utils/tokenBlacklist';
 import { verifyAccessToken, verifyRefreshToken } from '../../../utils/jwt';
 import { clearAuthCookies } from '../../../utils/session';
+import { connectToWingmanDB } from '../../../utils/databaseConnections';
+import User from '../../../models/User';
+import { requireTwoFactorReauth, TWO_FACTOR_SECRET_FIELDS } from '../../../utils/twoFactor';
+import { recordSecurityEvent } from '../../../utils/securityEvents';
+import mongoose from 'mongoose';
 
 /**
  * Revoke All Sessions Endpoint
@@ -12,6 +17,7 @@ import { clearAuthCookies } from '../../../utils/session';
  * This is useful for security incidents (stolen device, suspicious activity, etc.)
  * 
  * POST /api/auth/revoke-all-sessions
+ * - Body: { twoFactorCode?: string } (required when two-factor is enabled)
  * - Requires authentication
  * - Blacklists current session tokens
  * - Marks all user sessions as revoked
@@ -36,6 +42,23 @@ export default async function handler(req: AuthenticatedRequest, res: NextApiRes
     const userId = authResult.userId;
     const username = authResult.username;
 
+    // Re-authenticate with a two-factor code when the account has it enabled
+    if (mongoose.connection.readyState !== 1) {
+      await connectToWingmanDB();
+    }
+    const user = await User.findOne({ username }).select(TWO_FACTOR_SECRET_FIELDS);
+    if (user) {
+      try {
+        await requireTwoFactorReauth(user, req.body?.twoFactorCode);
+      } catch (error: any) {
+        return res.status(error.statusCode || 403).json({
+          error: 'Two-factor code required',
+          message: error.message,
+          twoFactorRequired: true,
+        });
+      }
+    }
+
     // Get current session tokens
     const accessToken = getTokenFromCookies(req.headers.cookie, ACCESS_TOKEN_COOKIE);
     const refreshToken = getTokenFromCookies(req.headers.cookie, REFRESH_TOKEN_COOKIE);
@@ -74,6 +97,7 @@ export default async function handler(req: AuthenticatedRequest, res: NextApiRes
     // But we can track that all sessions should be considered invalid
     // Future enhancement: Store "revokedAt" timestamp on User model
     await blacklistAllUserTokens(userId, username, 'revoke_all_sessions');
+    await recordSecurityEvent({ userId, username, type: 'sessions_revoked', req, details: { includingCurrent: true } });
 
     // Clear current session cookies
     clearAuthCookies(res);
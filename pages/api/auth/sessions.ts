@@ -4,6 +4,10 @@ import { getTokenFromCookies, REFRESH_TOKEN_COOKIE } from '../../../utils/sessio
 import { getUserSessions, createOrUpdateSession } from '../../../utils/sessionManagement';
 import { hashToken } from '../../../utils/tokenBlacklist';
 import User from '../../../models/User';
+import { connectToWingmanDB } from '../../../utils/databaseConnections';
+import { requireTwoFactorReauth, TWO_FACTOR_SECRET_FIELDS } from '../../../utils/twoFactor';
+import { recordSecurityEvent } from '../../../utils/securityEvents';
+import mongoose from 'mongoose';
 
 /**
  * Sessions Endpoint
@@ -14,6 +18,7 @@ import User from '../../../models/User';
  * 
  * DELETE /api/auth/sessions
  * - Revokes all sessions except the current one
+ * - Body: { twoFactorCode?: string } (required when two-factor is enabled)
  */
 export default async function handler(req: AuthenticatedRequest, res: NextApiResponse) {
   try {
@@ -99,6 +104,23 @@ export default async function handler(req: AuthenticatedRequest, res: NextApiRes
         count: formattedSessions.length,
       });
     } else if (req.method === 'DELETE') {
+      // Re-authenticate with a two-factor code when the account has it enabled
+      if (mongoose.connection.readyState !== 1) {
+        await connectToWingmanDB();
+      }
+      const user = await User.findOne({ userId }).select(TWO_FACTOR_SECRET_FIELDS);
+      if (user) {
+        try {
+          await requireTwoFactorReauth(user, req.body?.twoFactorCode);
+        } catch (error: any) {
+          return res.status(error.statusCode || 403).json({
+            error: 'Two-factor code required',
+            message: error.message,
+            twoFactorRequired: true,
+          });
+        }
+      }
+
       // Revoke all sessions except current one
       const currentRefreshToken = getTokenFromCookies(req.headers.cookie, REFRESH_TOKEN_COOKIE);
 
@@ -107,6 +129,15 @@ export default async function handler(req: AuthenticatedRequest, res: NextApiRes
         userId,
         currentRefreshToken || undefined
       );
+      if (authResult.username) {
+        await recordSecurityEvent({
+          userId,
+          username: authResult.username,
+          type: 'sessions_revoked',
+          req,
+          details: { revokedCount },
+        });
+      }
 
       return res.status(200).json({
         message: 'All other sessions have been revoked',
@@ -1,6 +1,6 @@
 import type { NextApiRequest, NextApiResponse } from 'next';
 import { connectToWingmanDB } from '../../../utils/databaseConnections';
-import User from '../../../models/User';
+import User, { IUser } from '../../../models/User';
 import { comparePassword } from '../../../utils/passwordUtils';
 import { setAuthCookies, setAuthCookiesWithSession } from '../../../utils/session';
 import mongoose from 'mongoose';
@@ -10,6 +10,50 @@ import {
   resetFailedLoginAttempts,
 } from '../../../utils/accountLockout';
 import { withRequestSizeLimit } from '../../../middleware/requestSizeLimit';
+import { generateTwoFactorChallengeToken } from '../../../utils/jwt';
+import { isTwoFactorEnabled } from '../../../utils/twoFactor';
+import { recordLoginEvent } from '../../../utils/securityEvents';
+
+/**
+ * Second step for accounts with two-factor enabled: no cookies yet, just a short-lived
+ * challenge token to exchange at /api/auth/2fa/verify along with a code
+ */
+function sendTwoFactorChallenge(res: NextApiResponse, userId: string, username: string) {
+  return res.status(200).json({
+    message: 'Two-factor authentication required',
+    requiresTwoFactor: true,
+    challengeToken: generateTwoFactorChallengeToken({ userId, username }),
+  });
+}
+
+/**
+ * Account states that block sign-in even with the right credentials. Only checked once the
+ * caller has proven they own the account, so these responses can't be used to learn about
+ * someone else's account.
+ * @returns true if a response was sent
+ */
+function sendPostAuthGate(res: NextApiResponse, user: IUser): boolean {
+  // Accounts scheduled for deletion can only be restored through the emailed link
+  if (user.deletionScheduledFor) {
+    res.status(403).json({
+      message: 'This account is scheduled for deletion. Use the restore link we emailed you to keep it.',
+      pendingDeletion: true,
+      deletionScheduledFor: user.deletionScheduledFor,
+    });
+    return true;
+  }
+
+  // A sign-in reported as "this wasn't me" locks the password until it's reset
+  if (user.passwordResetRequired) {
+    res.status(403).json({
+      message: 'For your security, please reset your password using the link we emailed you, or request a new one with Forgot Password.',
+      passwordResetRequired: true,
+    });
+    return true;
+  }
+
+  return false;
+}
 
 // Simple in-memory rate limiting for Next.js (no Express dependency)
 const loginAttempts = new Map<string, { count: number; resetTime: number }>();
@@ -106,15 +150,25 @@ async function handler(req: NextApiRequest, res: NextApiResponse) {
       });
     }
 
+    // Failed attempts before this sign-in, for the login risk check
+    const priorFailedAttempts = user.failedLoginAttempts || 0;
+
     // Check if user has a password (new user) or not (legacy user)
     if (!user.password) {
       // Legacy user - no password required for now
       // Return special flag to indicate password setup is needed
+      if (sendPostAuthGate(res, user)) return;
+
+      if (isTwoFactorEnabled(user) && user.userId && user.username) {
+        return sendTwoFactorChallenge(res, user.userId, user.username);
+      }
+
       const { password: _, ...userResponse } = user.toObject();
       
       // Set authentication cookies even for legacy users
       if (user.userId && user.username) {
-        await setAuthCookiesWithSession(req, res, user.userId, user.username, user.email);
+        const session = await setAuthCookiesWithSession(req, res, user.userId, user.username, user.email);
+        setImmediate(() => recordLoginEvent(req, user, session, priorFailedAttempts));
       }
       
       return res.status(200).json({
@@ -157,6 +211,14 @@ async function handler(req: NextApiRequest, res: NextApiResponse) {
       });
     }
 
+    if (sendPostAuthGate(res, user)) return;
+
+    // Password is right but a code is still needed. Failed attempts are only reset once the
+    // code checks out, so wrong codes can't be retried indefinitely by re-entering the password.
+    if (isTwoFactorEnabled(user) && user.userId && user.username) {
+      return sendTwoFactorChallenge(res, user.userId, user.username);
+    }
+
     // Successful login - reset failed attempts
     await resetFailedLoginAttempts(user);
 
@@ -168,7 +230,10 @@ async function handler(req: NextApiRequest, res: NextApiResponse) {
     }
 
     // Set authentication cookies (HTTP-only, secure) and create session record
-    await setAuthCookiesWithSession(req, res, user.userId, user.username, user.email);
+    const session = await setAuthCookiesWithSession(req, res, user.userId, user.username, user.email);
+
+    // Check the sign-in against the user's history and alert them if it looks unusual
+    setImmediate(() => recordLoginEvent(req, user, session, priorFailedAttempts));
 
     // Debug: Log cookie headers in development
     // Commented out for production
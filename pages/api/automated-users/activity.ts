@@ -1,6 +1,9 @@
 import type { NextApiRequest, NextApiResponse } from 'next';
 import { askQuestion, createForumPost, respondToForumPost, getUserPreferences } from '../../../utils/automatedUsersService';
+import { runWithLLMUsageContext } from '../../../utils/llmUsageLedger';
 import { getScheduler } from '../../../utils/automatedUsersScheduler';
+import { withPermission } from '../../../middleware/auth';
+import { ADMIN_ACCESS_LEVELS } from '../../../utils/adminAccess';
 
 /**
  * POST /api/automated-users/activity
@@ -21,7 +24,7 @@ import { getScheduler } from '../../../utils/automatedUsersScheduler';
  *   result: ActivityResult | { taskName: string, message: string }
  * }
  */
-export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+async function handler(req: NextApiRequest, res: NextApiResponse) {
   if (req.method !== 'POST') {
     return res.status(405).json({ error: 'Method not allowed' });
   }
@@ -59,7 +62,7 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
           });
         }
 
-        const result = await askQuestion(username, preferences);
+        const result = await runWithLLMUsageContext({ feature: 'automated_users', username }, () => askQuestion(username, preferences));
 
         return res.status(result.success ? 200 : 500).json({
           success: result.success,
@@ -84,7 +87,7 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
           });
         }
 
-        const result = await createForumPost(username, preferences);
+        const result = await runWithLLMUsageContext({ feature: 'automated_users', username }, () => createForumPost(username, preferences));
 
         return res.status(result.success ? 200 : 500).json({
           success: result.success,
@@ -109,7 +112,7 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
           });
         }
 
-        const result = await respondToForumPost(username, preferences);
+        const result = await runWithLLMUsageContext({ feature: 'automated_users', username }, () => respondToForumPost(username, preferences));
 
         return res.status(result.success ? 200 : 500).json({
           success: result.success,
@@ -171,3 +174,4 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
   }
 }
 
+export default withPermission(ADMIN_ACCESS_LEVELS.MANAGE_USERS, handler);
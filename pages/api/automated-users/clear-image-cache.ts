@@ -1,6 +1,8 @@
 import type { NextApiRequest, NextApiResponse } from 'next';
 import fs from 'fs';
 import path from 'path';
+import { withPermission } from '../../../middleware/auth';
+import { ADMIN_ACCESS_LEVELS } from '../../../utils/adminAccess';
 
 /**
  * POST /api/automated-users/clear-image-cache
@@ -12,7 +14,7 @@ import path from 'path';
  *   clearAll?: boolean   // If true, clear entire cache
  * }
  */
-export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+async function handler(req: NextApiRequest, res: NextApiResponse) {
   if (req.method !== 'POST') {
     return res.status(405).json({ error: 'Method not allowed' });
   }
@@ -139,3 +141,5 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
     });
   }
 }
+
+export default withPermission(ADMIN_ACCESS_LEVELS.MANAGE_USERS, handler);
@@ -5,6 +5,8 @@ import { hashPassword } from '../../../utils/passwordUtils';
 import crypto from 'crypto';
 import commonGamersData from '../../../data/gamers/common-gamers.json';
 import expertGamersData from '../../../data/gamers/expert-gamers.json';
+import { withPermission } from '../../../middleware/auth';
+import { ADMIN_ACCESS_LEVELS } from '../../../utils/adminAccess';
 
 /**
  * Generate a secure random password for automated users
@@ -135,7 +137,7 @@ const createGamerUser = async (
   return userResponse;
 };
 
-export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+async function handler(req: NextApiRequest, res: NextApiResponse) {
   if (req.method !== 'POST') {
     return res.status(405).json({ error: 'Method not allowed' });
   }
@@ -242,3 +244,4 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
   }
 }
 
+export default withPermission(ADMIN_ACCESS_LEVELS.MANAGE_USERS, handler);
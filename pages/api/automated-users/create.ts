@@ -3,6 +3,8 @@ import { connectToWingmanDB } from '../../../utils/databaseConnections';
 import User from '../../../models/User';
 import { hashPassword } from '../../../utils/passwordUtils';
 import crypto from 'crypto';
+import { withPermission } from '../../../middleware/auth';
+import { ADMIN_ACCESS_LEVELS } from '../../../utils/adminAccess';
 
 /**
  * Generate a secure random password for automated users
@@ -104,7 +106,7 @@ const createAutomatedUser = async (
   };
 };
 
-export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+async function handler(req: NextApiRequest, res: NextApiResponse) {
   if (req.method !== 'POST') {
     return res.status(405).json({ error: 'Method not allowed' });
   }
@@ -220,3 +222,4 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
   }
 }
 
+export default withPermission(ADMIN_ACCESS_LEVELS.MANAGE_USERS, handler);
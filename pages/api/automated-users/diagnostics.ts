@@ -1,5 +1,7 @@
 import type { NextApiRequest, NextApiResponse } from 'next';
 import { getScheduler } from '../../../utils/automatedUsersScheduler';
+import { withPermission } from '../../../middleware/auth';
+import { ADMIN_ACCESS_LEVELS } from '../../../utils/adminAccess';
 
 /**
  * GET /api/automated-users/diagnostics
@@ -12,7 +14,7 @@ import { getScheduler } from '../../../utils/automatedUsersScheduler';
  * - Task status
  * - Next scheduled runs
  */
-export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+async function handler(req: NextApiRequest, res: NextApiResponse) {
   if (req.method !== 'GET') {
     return res.status(405).json({ error: 'Method not allowed' });
   }
@@ -149,3 +151,4 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
   }
 }
 
+export default withPermission(ADMIN_ACCESS_LEVELS.MANAGE_USERS, handler);
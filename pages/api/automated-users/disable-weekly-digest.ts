@@ -1,6 +1,8 @@
 import type { NextApiRequest, NextApiResponse } from 'next';
 import { connectToWingmanDB } from '../../../utils/databaseConnections';
 import User from '../../../models/User';
+import { withPermission } from '../../../middleware/auth';
+import { ADMIN_ACCESS_LEVELS } from '../../../utils/adminAccess';
 
 /**
  * API endpoint to disable weekly digest emails for automated users
@@ -12,7 +14,7 @@ import User from '../../../models/User';
  * 3. Users with gamerProfile (common/expert gamers)
  * 4. Specific fake email domains: @ymail.com, @smail.com, @rmail.com, @dmail.com
  */
-export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+async function handler(req: NextApiRequest, res: NextApiResponse) {
   if (req.method !== 'POST') {
     return res.status(405).json({ error: 'Method not allowed' });
   }
@@ -309,3 +311,4 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
   }
 }
 
+export default withPermission(ADMIN_ACCESS_LEVELS.MANAGE_USERS, handler);
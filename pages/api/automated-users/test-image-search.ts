@@ -3,6 +3,8 @@ import { extractKeywordsFromPost, extractKeywordsSimple } from '../../../utils/i
 import { searchGameImage, getCachedImageSearch, cacheImageSearch } from '../../../utils/automatedImageSearch';
 import { verifyImageRelevance, buildSearchQuery } from '../../../utils/imageRelevanceVerifier';
 import { downloadAndStoreImage } from '../../../utils/automatedImageService';
+import { withPermission } from '../../../middleware/auth';
+import { ADMIN_ACCESS_LEVELS } from '../../../utils/adminAccess';
 
 /**
  * POST /api/automated-users/test-image-search
@@ -16,7 +18,7 @@ import { downloadAndStoreImage } from '../../../utils/automatedImageService';
  *   testPhase?: '1' | '2' | 'both'
  * }
  */
-export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+async function handler(req: NextApiRequest, res: NextApiResponse) {
   if (req.method !== 'POST') {
     return res.status(405).json({ error: 'Method not allowed' });
   }
@@ -215,3 +217,5 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
     });
   }
 }
+
+export default withPermission(ADMIN_ACCESS_LEVELS.MANAGE_USERS, handler);
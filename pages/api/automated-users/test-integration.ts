@@ -12,12 +12,14 @@ import {
   findMatchingExpert,
   getMatchingScore
 } from '../../../utils/gamerMatching';
+import { withPermission } from '../../../middleware/auth';
+import { ADMIN_ACCESS_LEVELS } from '../../../utils/adminAccess';
 
 /**
  * Integration Test Suite for Digital Gamers System
  * Tests the complete flow from COMMON gamer post to EXPERT gamer reply
  */
-export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+async function handler(req: NextApiRequest, res: NextApiResponse) {
   if (req.method !== 'POST') {
     return res.status(405).json({ error: 'Method not allowed' });
   }
@@ -350,3 +352,4 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
   }
 }
 
+export default withPermission(ADMIN_ACCESS_LEVELS.MANAGE_USERS, handler);
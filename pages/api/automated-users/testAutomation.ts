@@ -4,8 +4,10 @@ import { generateQuestion, generateForumPost, UserPreferences } from '../../../u
 import { findGameImage, getRandomGameImage, hasGameImage, getAllGamesWithImages } from '../../../utils/automatedImageService';
 import { askQuestion, createForumPost, respondToForumPost, getUserPreferences } from '../../../utils/automatedUsersService';
 import { getScheduler } from '../../../utils/automatedUsersScheduler';
+import { withPermission } from '../../../middleware/auth';
+import { ADMIN_ACCESS_LEVELS } from '../../../utils/adminAccess';
 
-export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+async function handler(req: NextApiRequest, res: NextApiResponse) {
   if (req.method !== 'POST') {
     return res.status(405).json({ error: 'Method not allowed' });
   }
@@ -304,3 +306,4 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
   }
 }
 
+export default withPermission(ADMIN_ACCESS_LEVELS.MANAGE_USERS, handler);
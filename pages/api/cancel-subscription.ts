@@ -1,14 +1,11 @@
-import { NextApiRequest, NextApiResponse } from 'next';
+import { NextApiResponse } from 'next';
 import { connectToWingmanDB } from '../../utils/databaseConnections';
 import User from '../../models/User';
-import Stripe from 'stripe';
-
-const stripe = new Stripe(process.env.STRIPE_SECRET_KEY!, {
-  apiVersion: '2025-05-28.basil',
-});
+import { cancelUserSubscription } from '../../utils/subscriptionCancellation';
+import { requireAuth, AuthenticatedRequest } from '../../middleware/auth';
 
 export default async function handler(
-  req: NextApiRequest,
+  req: AuthenticatedRequest,
   res: NextApiResponse
 ) {
   if (req.method !== 'POST') {
@@ -16,11 +13,11 @@ export default async function handler(
   }
 
   try {
-    const { username } = req.body;
-
-    if (!username) {
-      return res.status(400).json({ message: 'Username is required' });
+    const authResult = await requireAuth(req, res);
+    if (!authResult.authenticated || !authResult.username) {
+      return res.status(401).json({ message: 'Authentication required' });
     }
+    const username = authResult.username;
 
     await connectToWingmanDB();
 
@@ -35,94 +32,16 @@ export default async function handler(
       return res.status(400).json({ message: 'User does not have an active subscription' });
     }
 
-    // Check if user has a Stripe subscription
-    if (user.subscription?.stripeSubscriptionId) {
-      try {
-        // First, try to retrieve the subscription to verify it exists
-        let subscription: Stripe.Subscription;
-        try {
-          subscription = await stripe.subscriptions.retrieve(user.subscription.stripeSubscriptionId) as Stripe.Subscription;
-        } catch (retrieveError) {
-          console.log(`Stripe subscription ${user.subscription.stripeSubscriptionId} not found, treating as legacy subscription`);
-          await User.findOneAndUpdate(
-            { _id: user._id },
-            {
-              hasProAccess: false,
-              'subscription.status': 'expired_free',
-              'subscription.cancelAtPeriodEnd': false,
-              'subscription.canceledAt': new Date(),
-              'subscription.currentPeriodEnd': new Date(),
-              'subscription.earlyAccessGranted': false
-            }
-          );
-
-          return res.status(200).json({ 
-            message: 'Subscription canceled and Pro access removed immediately.',
-            subscriptionStatus: 'expired',
-            accessUntil: new Date()
-          });
-        }
-
-        // If subscription exists, cancel it at the end of the current period
-        subscription = await stripe.subscriptions.update(
-          user.subscription.stripeSubscriptionId,
-          {
-            cancel_at_period_end: true,
-          }
-        ) as Stripe.Subscription;
-
-        console.log(`Stripe subscription ${user.subscription.stripeSubscriptionId} set to cancel at period end`);
+    const result = await cancelUserSubscription(user);
+    return res.status(200).json(result);
 
-        // Update our database to reflect the cancellation
-        await User.findOneAndUpdate(
-          { _id: user._id },
-          {
-            'subscription.status': 'active', // Keep as active until period ends
-            'subscription.cancelAtPeriodEnd': true,
-            'subscription.canceledAt': new Date(),
-            'subscription.currentPeriodEnd': new Date((subscription as any).current_period_end * 1000),
-            // Keep hasProAccess true until the period ends
-            hasProAccess: true
-          }
-        );
-
-        return res.status(200).json({ 
-          message: 'Subscription canceled successfully. You will retain access until the end of your current billing period.',
-          subscriptionStatus: 'canceled_at_period_end',
-          accessUntil: new Date((subscription as any).current_period_end * 1000)
-        });
-
-      } catch (stripeError) {
-        console.error('Stripe cancellation error:', stripeError);
-        return res.status(500).json({ 
-          message: 'Failed to cancel subscription with Stripe. Please contact support.',
-          error: stripeError instanceof Error ? stripeError.message : 'Unknown Stripe error'
-        });
-      }
-    } else {
-      // For users without Stripe subscriptions (legacy Pro users), immediately revoke access
-      await User.findOneAndUpdate(
-        { _id: user._id },
-        {
-          hasProAccess: false,
-          'subscription.status': 'expired_free',
-          'subscription.cancelAtPeriodEnd': false,
-          'subscription.canceledAt': new Date(),
-          'subscription.currentPeriodEnd': new Date(),
-          'subscription.earlyAccessGranted': false
-        }
-      );
-
-      console.log(`Legacy subscription canceled and access revoked for user: ${username}`);
-
-      return res.status(200).json({ 
-        message: 'Subscription canceled and Pro access removed immediately.',
-        subscriptionStatus: 'expired',
-        accessUntil: new Date()
+  } catch (error: any) {
+    if (error?.statusCode === 502) {
+      return res.status(500).json({ 
+        message: error.message,
+        error: error.details
       });
     }
-
-  } catch (error) {
     console.error('Error canceling subscription:', error);
     return res.status(500).json({ 
       message: 'Failed to cancel subscription',
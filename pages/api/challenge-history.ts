@@ -1,15 +1,16 @@
-import type { NextApiRequest, NextApiResponse } from 'next';
+import type { NextApiResponse } from 'next';
 import connectToMongoDB from '../../utils/mongodb';
 import User from '../../models/User';
 import { ChallengeHistoryEntry } from '../../types';
 import { logger } from '../../utils/logger';
+import { requireAuth, AuthenticatedRequest } from '../../middleware/auth';
 
 /**
- * GET /api/challenge-history?username=xxx&limit=30&offset=0
+ * GET /api/challenge-history?limit=30&offset=0
  * Returns paginated challenge history for a user
  */
 export default async function handler(
-  req: NextApiRequest,
+  req: AuthenticatedRequest,
   res: NextApiResponse<{
     history: ChallengeHistoryEntry[];
     total: number;
@@ -22,11 +23,13 @@ export default async function handler(
   }
 
   try {
-    const { username, limit, offset } = req.query;
-
-    if (!username || typeof username !== 'string') {
-      return res.status(400).json({ error: 'Username is required' });
+    const authResult = await requireAuth(req, res);
+    if (!authResult.authenticated || !authResult.username) {
+      return res.status(401).json({ error: 'Authentication required' });
     }
+    const username = authResult.username;
+
+    const { limit, offset } = req.query;
 
     // Parse limit and offset with defaults
     const limitNum = limit ? parseInt(String(limit), 10) : 30;
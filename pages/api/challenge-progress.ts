@@ -1,4 +1,4 @@
-import type { NextApiRequest, NextApiResponse } from 'next';
+import type { NextApiResponse } from 'next';
 import connectToMongoDB from '../../utils/mongodb';
 import User from '../../models/User';
 import { ChallengeProgress, ChallengeProgresses, ChallengeStreak, ChallengeReward, ChallengeHistoryEntry } from '../../types';
@@ -7,14 +7,17 @@ import { updateChallengeStreak, getTodayDateString } from '../../utils/challenge
 import { checkAndAwardRewards } from '../../utils/checkChallengeRewards';
 import { DAILY_CHALLENGES } from '../../utils/dailyChallenges';
 import { getTodaysChallenges } from '../../utils/challengeSelector';
+import { notifyUser } from '../../middleware/realtime';
+import { createNotification } from '../../utils/notifications';
+import { requireAuth, AuthenticatedRequest } from '../../middleware/auth';
 
 /**
- * GET /api/challenge-progress?username=xxx
+ * GET /api/challenge-progress
  * Returns the challenge progress for today's challenges (Phase 2: Multiple Challenges)
  * Also supports legacy single challenge format for backward compatibility
  */
 export default async function handler(
-  req: NextApiRequest,
+  req: AuthenticatedRequest,
   res: NextApiResponse<{ 
     progress?: ChallengeProgress | null; // Legacy: single challenge (backward compatibility)
     progresses?: ChallengeProgress[]; // Phase 2: multiple challenges
@@ -25,11 +28,11 @@ export default async function handler(
 ) {
   if (req.method === 'GET') {
     try {
-      const { username } = req.query;
-
-      if (!username || typeof username !== 'string') {
-        return res.status(400).json({ error: 'Username is required' });
+      const authResult = await requireAuth(req, res);
+      if (!authResult.authenticated || !authResult.username) {
+        return res.status(401).json({ error: 'Authentication required' });
       }
+      const username = authResult.username;
 
       await connectToMongoDB();
 
@@ -107,7 +110,13 @@ export default async function handler(
 
   if (req.method === 'POST') {
     try {
-      const { username, progress, progresses } = req.body;
+      const authResult = await requireAuth(req, res);
+      if (!authResult.authenticated || !authResult.username) {
+        return res.status(401).json({ error: 'Authentication required' });
+      }
+      const username = authResult.username;
+
+      const { progress, progresses } = req.body;
 
       // Debug logging in development
       if (process.env.NODE_ENV === 'development') {
@@ -121,10 +130,6 @@ export default async function handler(
         });
       }
 
-      if (!username || typeof username !== 'string') {
-        return res.status(400).json({ error: 'Username is required' });
-      }
-
       // Phase 2: Support both single progress and array of progresses
       let progressEntries: ChallengeProgress[] = [];
       
@@ -419,6 +424,37 @@ export default async function handler(
         rewardsEarned: newRewards.length,
       });
 
+      // Push completions to the user's other open tabs/devices
+      if (completedEntries.length > 0) {
+        const currentStreak = user.challengeStreak?.currentStreak || 0;
+        notifyUser(username, 'challengeCompleted', {
+          username,
+          challenges: completedEntries.map(entry => ({
+            challengeId: entry.challengeId,
+            title: DAILY_CHALLENGES.find(c => c.id === entry.challengeId)?.title || entry.challengeId,
+          })),
+          allCompletedToday: allChallengesCompleted,
+          currentStreak,
+          newRewards,
+          message: allChallengesCompleted
+            ? `All of today's challenges complete! Your streak is now ${currentStreak} day${currentStreak === 1 ? '' : 's'}.`
+            : `Challenge complete! ${completedTodayChallengeIds.size} of 3 done today.`,
+        });
+      }
+
+      // Streak milestones are kept in the notification center
+      for (const reward of newRewards) {
+        await createNotification({
+          username,
+          type: 'challenge_milestone',
+          title: `${reward.milestone}-day challenge streak!`,
+          message: `${reward.icon ? `${reward.icon} ` : ''}You earned ${reward.name}: ${reward.description}`,
+          link: '/account',
+          data: { milestone: reward.milestone, reward: reward.name },
+          dedupeKey: `challenge_milestone:${reward.milestone}`,
+        });
+      }
+
       // Return array format (Phase 2) and legacy single format for backward compatibility
       return res.status(200).json({
         progresses: newProgressEntries.map(p => ({
@@ -1,18 +1,25 @@
-import type { NextApiRequest, NextApiResponse } from 'next';
+import type { NextApiResponse } from 'next';
 import { handleContentViolation } from '../../utils/violationHandler';
-import { containsOffensiveContent } from '../../utils/contentModeration';
+import { checkContentAgainstRules } from '../../utils/moderation/rulesEngine';
+import { requireAuth, AuthenticatedRequest } from '../../middleware/auth';
 
-export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+export default async function handler(req: AuthenticatedRequest, res: NextApiResponse) {
   if (req.method !== 'POST') {
     return res.status(405).json({ error: 'Method not allowed' });
   }
 
   try {
-    const { content, username } = req.body;
+    const authResult = await requireAuth(req, res);
+    if (!authResult.authenticated || !authResult.username) {
+      return res.status(401).json({ error: 'Authentication required' });
+    }
+    const username = authResult.username;
+
+    const { content } = req.body;
 
-    if (!content || !username) {
-      console.warn('checkContent missing parameters:', { hasContent: !!content, hasUsername: !!username });
-      return res.status(400).json({ error: 'Content and username are required' });
+    if (!content) {
+      console.warn('checkContent missing content:', { username });
+      return res.status(400).json({ error: 'Content is required' });
     }
     
     console.log('checkContent called:', { 
@@ -21,15 +28,17 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
       contentPreview: content.substring(0, 50) + '...' 
     });
 
-    // Check content for violations
-    const contentCheck = await containsOffensiveContent(content, username);
+    // Check content against the website's moderation rules (no side effects)
+    const evaluation = await checkContentAgainstRules(content, { platform: 'web' });
     
-    if (contentCheck.isOffensive) {
-      // Handle violation on server side
-      const violationResult = await handleContentViolation(username, contentCheck.offendingWords);
+    if (evaluation.isBlocked) {
+      // Handle violation on server side (once - the check above doesn't record anything)
+      const violationResult = evaluation.action === 'block'
+        ? undefined
+        : await handleContentViolation(username, evaluation.offendingWords, undefined, content);
       return res.status(403).json({
         error: 'Content violation detected',
-        offendingWords: contentCheck.offendingWords,
+        offendingWords: evaluation.offendingWords,
         violationResult
       });
     }
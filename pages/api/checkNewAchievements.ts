@@ -1,10 +1,11 @@
-import type { NextApiRequest, NextApiResponse } from 'next';
+import type { NextApiResponse } from 'next';
 import connectToMongoDB from '../../utils/mongodb';
 import User from '../../models/User';
 import { CheckNewAchievementsRequest, CheckNewAchievementsResponse } from '../../types';
+import { requireAuth, AuthenticatedRequest } from '../../middleware/auth';
 
 export default async function handler(
-  req: NextApiRequest,
+  req: AuthenticatedRequest,
   res: NextApiResponse<CheckNewAchievementsResponse>
 ) {
   if (req.method !== 'POST') {
@@ -15,14 +16,16 @@ export default async function handler(
   }
 
   try {
-    const { username, lastChecked }: CheckNewAchievementsRequest = req.body;
-
-    if (!username) {
-      return res.status(400).json({ 
+    const authResult = await requireAuth(req, res);
+    if (!authResult.authenticated || !authResult.username) {
+      return res.status(401).json({ 
         hasNewAchievements: false,
-        error: 'Username is required' 
+        error: 'Authentication required' 
       });
     }
+    const username = authResult.username;
+
+    const { lastChecked }: CheckNewAchievementsRequest = req.body;
 
     // Connect to database
     await connectToMongoDB();
@@ -1,10 +1,11 @@
-import type { NextApiRequest, NextApiResponse } from 'next';
+import type { NextApiResponse } from 'next';
 import { checkProAccess } from '../../utils/proAccessUtil';
 import { connectToWingmanDB } from '../../utils/databaseConnections';
 import User from '../../models/User';
+import { requireAuth, AuthenticatedRequest } from '../../middleware/auth';
 
 export default async function handler(
-  req: NextApiRequest,
+  req: AuthenticatedRequest,
   res: NextApiResponse
 ) {
   if (req.method !== 'POST') {
@@ -12,11 +13,12 @@ export default async function handler(
   }
 
   try {
-    const { username, userId } = req.body;
-
-    if (!username) {
-      return res.status(400).json({ message: 'Username is required' });
+    const authResult = await requireAuth(req, res);
+    if (!authResult.authenticated || !authResult.username) {
+      return res.status(401).json({ message: 'Authentication required' });
     }
+    const username = authResult.username;
+    const userId = authResult.userId;
 
     // Check basic Pro access with error handling
     let hasProAccess = false;
@@ -1,23 +1,25 @@
-import type { NextApiRequest, NextApiResponse } from 'next';
+import type { NextApiResponse } from 'next';
 import Stripe from 'stripe';
 import { connectToWingmanDB } from '../../utils/databaseConnections';
 import User from '../../models/User';
+import { requireAuth, AuthenticatedRequest } from '../../middleware/auth';
 
 const stripe = new Stripe(process.env.STRIPE_SECRET_KEY!, {
   apiVersion: '2025-05-28.basil',
 });
 
-export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+export default async function handler(req: AuthenticatedRequest, res: NextApiResponse) {
   if (req.method !== 'POST') {
     return res.status(405).json({ message: 'Method not allowed' });
   }
 
   try {
-    const { username, userId } = req.body;
-
-    if (!username) {
-      return res.status(400).json({ message: 'Username is required' });
+    const authResult = await requireAuth(req, res);
+    if (!authResult.authenticated || !authResult.username) {
+      return res.status(401).json({ message: 'Authentication required' });
     }
+    const username = authResult.username;
+    const userId = authResult.userId;
 
     if (!process.env.STRIPE_WINGMAN_PRO_PRICE_ID) {
       return res.status(500).json({ 
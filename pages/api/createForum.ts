@@ -1,25 +1,13 @@
-import type { NextApiRequest, NextApiResponse } from "next";
+import type { NextApiResponse } from "next";
 import connectToMongoDB from "../../utils/mongodb";
 import Forum from "../../models/Forum";
-import { validateUserAuthentication, validateForumData } from "@/utils/validation";
+import { validateForumData } from "@/utils/validation";
 import { containsOffensiveContent } from "@/utils/contentModeration";
 import { checkProAccess } from "../../utils/proAccessUtil";
 import { normalizeForumCategory } from "../../utils/forumCategory";
+import { requireAuth, AuthenticatedRequest } from "../../middleware/auth";
 
-// Middleware to validate authentication
-const validateAuth = (req: NextApiRequest) => {
-  const authHeader = req.headers.authorization;
-  if (!authHeader?.startsWith('Bearer ')) {
-    return 'Authentication required';
-  }
-  const token = authHeader.split(' ')[1];
-  if (!token) {
-    return 'Invalid authentication token';
-  }
-  return null;
-};
-
-export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+export default async function handler(req: AuthenticatedRequest, res: NextApiResponse) {
   // console.log("HEADERS:", req.headers); // Commented out for production
 
   if (req.method !== 'POST') {
@@ -27,23 +15,17 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
   }
 
   try {
-    await connectToMongoDB();
-
-    // Validate authentication header
-    const authError = validateAuth(req);
-    if (authError) {
-      return res.status(401).json({ error: authError });
+    const authResult = await requireAuth(req, res);
+    if (!authResult.authenticated || !authResult.username) {
+      return res.status(401).json({ error: 'Authentication required' });
     }
+    const username = authResult.username;
 
-    // Extract username and forum data from request body
-    const { title, gameTitle, category, isPrivate, username } = req.body;
-    const normalizedCategory = normalizeForumCategory(category);
+    await connectToMongoDB();
 
-    // Validate user authentication
-    const userAuthErrors = validateUserAuthentication(username);
-    if (userAuthErrors.length > 0) {
-      return res.status(400).json({ error: userAuthErrors[0] });
-    }
+    // Extract forum data from request body
+    const { title, gameTitle, category, isPrivate } = req.body;
+    const normalizedCategory = normalizeForumCategory(category);
 
     // Check Pro access for the user - ALL forum creation requires Pro access
     const hasProAccess = await checkProAccess(username);
@@ -110,7 +92,6 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
       isPrivate: !!isPrivate,
       allowedUsers: isPrivate ? [username] : [],
       createdBy: username,
-      posts: [],
       metadata: {
         totalPosts: 0,
         lastActivityAt: new Date(),
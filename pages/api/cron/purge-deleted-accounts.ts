@@ -0,0 +1,50 @@
+import type { NextApiRequest, NextApiResponse } from 'next';
+import mongoose from 'mongoose';
+import { connectToWingmanDB } from '../../../utils/databaseConnections';
+import { purgeDueAccounts } from '../../../utils/accountDeletion';
+
+/**
+ * Deleted Account Purge Cron Job
+ *
+ * Permanently removes accounts whose deletion grace period has ended, in batches.
+ * Each purge records an AccountDeletionReceipt and emails the receipt to the user.
+ *
+ * Schedule: Run hourly (recommended: "0 * * * *")
+ *
+ * Security: Requires CRON_SECRET when it is set (Authorization: Bearer <CRON_SECRET>)
+ */
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (process.env.CRON_SECRET && req.headers.authorization !== `Bearer ${process.env.CRON_SECRET}`) {
+    return res.status(401).json({ error: 'Unauthorized' });
+  }
+
+  // Allow both GET and POST for flexibility with different cron services
+  if (req.method !== 'GET' && req.method !== 'POST') {
+    res.setHeader('Allow', ['GET', 'POST']);
+    return res.status(405).json({ error: 'Method Not Allowed' });
+  }
+
+  try {
+    if (mongoose.connection.readyState !== 1) {
+      await connectToWingmanDB();
+    }
+
+    const result = await purgeDueAccounts();
+
+    console.log(`[Account Purge] Purged ${result.purged} account(s), ${result.failed} incomplete`);
+
+    return res.status(200).json({
+      success: true,
+      message: 'Account purge completed',
+      ...result,
+    });
+  } catch (error) {
+    console.error('Error in account purge:', error);
+
+    return res.status(500).json({
+      error: 'Purge failed',
+      message: 'An error occurred while purging deleted accounts',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+}
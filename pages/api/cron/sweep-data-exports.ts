@@ -0,0 +1,50 @@
+import type { NextApiRequest, NextApiResponse } from 'next';
+import mongoose from 'mongoose';
+import { connectToWingmanDB } from '../../../utils/databaseConnections';
+import { sweepDataExports } from '../../../utils/dataExport';
+
+/**
+ * Data Export Sweep Cron Job
+ *
+ * Deletes export archives whose download window has ended, so personal data does not stay in
+ * storage when the owner never returns to the export page, and fails interrupted export jobs.
+ *
+ * Schedule: Run hourly (recommended: "30 * * * *")
+ *
+ * Security: Requires CRON_SECRET when it is set (Authorization: Bearer <CRON_SECRET>)
+ */
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (process.env.CRON_SECRET && req.headers.authorization !== `Bearer ${process.env.CRON_SECRET}`) {
+    return res.status(401).json({ error: 'Unauthorized' });
+  }
+
+  // Allow both GET and POST for flexibility with different cron services
+  if (req.method !== 'GET' && req.method !== 'POST') {
+    res.setHeader('Allow', ['GET', 'POST']);
+    return res.status(405).json({ error: 'Method Not Allowed' });
+  }
+
+  try {
+    if (mongoose.connection.readyState !== 1) {
+      await connectToWingmanDB();
+    }
+
+    const result = await sweepDataExports();
+
+    console.log(`[Data Export Sweep] Expired ${result.expired} export(s), failed ${result.failed} interrupted job(s)`);
+
+    return res.status(200).json({
+      success: true,
+      message: 'Data export sweep completed',
+      ...result,
+    });
+  } catch (error) {
+    console.error('Error in data export sweep:', error);
+
+    return res.status(500).json({
+      error: 'Sweep failed',
+      message: 'An error occurred while sweeping data exports',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+}
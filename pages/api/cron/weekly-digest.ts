@@ -7,6 +7,7 @@ import {
   getWeeklyGameRecommendations
 } from '../../../utils/weeklyDigestHelpers';
 import { sendWeeklyDigestEmail, emailCircuitBreaker } from '../../../utils/emailService';
+import { runWithLLMUsageContext } from '../../../utils/llmUsageLedger';
 
 /**
  * Helper function to add timeout to promises
@@ -395,7 +396,7 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
                   console.error(`[Weekly Digest] ❌ Forum activity fetch failed for ${username}:`, err);
                   throw err;
                 }),
-                getWeeklyGameRecommendations(username).then(result => {
+                runWithLLMUsageContext({ feature: 'weekly_digest', username }, () => getWeeklyGameRecommendations(username)).then(result => {
                   console.log(`[Weekly Digest] ✅ Game recommendations fetched for ${username} in ${Date.now() - dataFetchStartTime}ms`);
                   return result;
                 }).catch(err => {
@@ -1,9 +1,11 @@
-import { NextApiRequest, NextApiResponse } from 'next';
+import { NextApiResponse } from 'next';
 import { connectToWingmanDB } from '../../utils/databaseConnections';
 import User from '../../models/User';
+import { requirePermission, ADMIN_ACCESS_LEVELS } from '../../utils/adminAccess';
+import { requireAuth, AuthenticatedRequest } from '../../middleware/auth';
 
 export default async function handler(
-  req: NextApiRequest,
+  req: AuthenticatedRequest,
   res: NextApiResponse
 ) {
   if (req.method !== 'GET') {
@@ -11,6 +13,13 @@ export default async function handler(
   }
 
   try {
+    const authResult = await requireAuth(req, res);
+    if (!authResult.authenticated || !authResult.username) {
+      return res.status(401).json({ message: 'Authentication required' });
+    }
+    await requirePermission(authResult.username, ADMIN_ACCESS_LEVELS.MANAGE_USERS);
+
+    // Target user to inspect (not the caller)
     const { username } = req.query;
 
     if (!username) {
@@ -33,7 +42,10 @@ export default async function handler(
       userId: user.userId
     });
 
-  } catch (error) {
+  } catch (error: any) {
+    if (error?.statusCode) {
+      return res.status(error.statusCode).json({ message: error.message });
+    }
     console.error('Error fetching user subscription:', error);
     return res.status(500).json({ 
       message: 'Failed to fetch user subscription',
@@ -1,27 +1,23 @@
-import type { NextApiRequest, NextApiResponse } from 'next';
+import type { NextApiResponse } from 'next';
 import connectToMongoDB from '../../utils/mongodb';
 import Forum from '../../models/Forum';
-import { validateUserAuthentication } from '../../utils/validation';
+import ForumPost from '../../models/ForumPost';
+import { requireAuth, AuthenticatedRequest } from '../../middleware/auth';
 
-export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+export default async function handler(req: AuthenticatedRequest, res: NextApiResponse) {
   if (req.method !== 'DELETE') {
     return res.status(405).json({ error: 'Method not allowed' });
   }
 
   try {
-    await connectToMongoDB();
-    let username = 'test-user';
-    const authHeader = req.headers.authorization;
-    if (authHeader && authHeader.startsWith('Bearer ')) {
-      username = authHeader.split(' ')[1] || 'test-user';
+    const authResult = await requireAuth(req, res);
+    if (!authResult.authenticated || !authResult.username) {
+      return res.status(401).json({ error: 'Authentication required' });
     }
-    const { forumId } = req.query;
+    const username = authResult.username;
 
-    // Validate user authentication
-    const userAuthErrors = validateUserAuthentication(username);
-    if (userAuthErrors.length > 0) {
-      return res.status(401).json({ error: userAuthErrors[0] });
-    }
+    await connectToMongoDB();
+    const { forumId } = req.query;
 
     if (!forumId) {
       return res.status(400).json({ error: 'Forum ID is required' });
@@ -50,6 +46,7 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
         { _id: forumId }
       ]
     });
+    await ForumPost.deleteMany({ forumId: forum.forumId });
 
     return res.status(200).json({ 
       message: 'Forum deleted successfully'
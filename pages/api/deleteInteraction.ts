@@ -1,29 +1,35 @@
-import type { NextApiRequest, NextApiResponse } from 'next';
+import type { NextApiResponse } from 'next';
 import { connectToWingmanDB } from '../../utils/databaseConnections';
 import Question from '../../models/Question';
 import { clearUserCache } from './getConversation';
+import { requireAuth, AuthenticatedRequest } from '../../middleware/auth';
 
-export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+export default async function handler(req: AuthenticatedRequest, res: NextApiResponse) {
   if (req.method !== 'POST') {
     return res.status(405).json({ error: 'Method not allowed' });
   }
 
-  const { id, username } = req.body;
+  const authResult = await requireAuth(req, res);
+  if (!authResult.authenticated || !authResult.username) {
+    return res.status(401).json({ error: 'Authentication required' });
+  }
+  const username = authResult.username;
+
+  const { id } = req.body;
   if (!id) {
     return res.status(400).json({ error: 'Missing id' });
   }
 
   try {
     await connectToWingmanDB();
-    const result = await Question.deleteOne({ _id: id });
+    // Scoped to the signed-in user so one user can't delete another's conversation
+    const result = await Question.deleteOne({ _id: id, username });
     if (result.deletedCount === 0) {
       return res.status(404).json({ error: 'Interaction not found' });
     }
     
     // Clear the cache for this user to ensure fresh data on next fetch
-    if (username) {
-      clearUserCache(username);
-    }
+    await clearUserCache(username);
     
     res.status(200).json({ message: 'Interaction deleted successfully' });
   } catch (error: any) {
@@ -1,32 +1,35 @@
-import type { NextApiRequest, NextApiResponse } from 'next';
+import type { NextApiResponse } from 'next';
 import connectToMongoDB from '../../utils/mongodb';
+import mongoose from 'mongoose';
 import Forum from '../../models/Forum';
+import ForumPost from '../../models/ForumPost';
+import { requireAuth, AuthenticatedRequest } from '../../middleware/auth';
 
-export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+export default async function handler(req: AuthenticatedRequest, res: NextApiResponse) {
   if (req.method !== 'DELETE') {
     return res.status(405).json({ error: 'Method not allowed' });
   }
 
+  const authResult = await requireAuth(req, res);
+  if (!authResult.authenticated || !authResult.username) {
+    return res.status(401).json({ error: 'Authentication required' });
+  }
+  const username = authResult.username;
+
   const { forumId, postId } = req.query;
-  const { username } = req.body;
 
   if (!forumId || !postId) {
     return res.status(400).json({ error: 'Missing forumId or postId' });
   }
 
-  if (!username || typeof username !== 'string') {
-    return res.status(400).json({ error: 'Username is required' });
-  }
-
   try {
     await connectToMongoDB();
-    const forum = await Forum.findOne({ forumId });
-    if (!forum) {
-      return res.status(404).json({ error: 'Forum not found' });
+    if (!mongoose.Types.ObjectId.isValid(postId as string)) {
+      return res.status(400).json({ error: 'Invalid post ID' });
     }
 
     // Find the post
-    const post = forum.posts.id(postId);
+    const post = await ForumPost.findOne({ _id: postId, forumId }).select('createdBy').lean() as { createdBy: string } | null;
     if (!post) {
       return res.status(404).json({ error: 'Post not found' });
     }
@@ -36,28 +39,23 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
       return res.status(403).json({ error: 'Only the post creator can delete this post' });
     }
 
-    // Use findOneAndUpdate with $pull to remove the post without validating entire array
-    // This avoids validation errors on existing posts that might be missing fields
+    const deleted = await ForumPost.deleteOne({ _id: postId, forumId });
+
+    // Only the request that actually removed the post updates the count
     const updatedForum = await Forum.findOneAndUpdate(
       { forumId },
       {
-        $pull: { posts: { _id: postId } },
-        $set: {
-          'metadata.totalPosts': forum.posts.length - 1,
-          'metadata.lastActivityAt': new Date()
-        }
+        ...(deleted.deletedCount > 0 && { $inc: { 'metadata.totalPosts': -1 } }),
+        $set: { 'metadata.lastActivityAt': new Date() }
       },
-      {
-        new: true,
-        runValidators: false // Skip validation to avoid issues with existing posts
-      }
+      { new: true }
     );
 
     if (!updatedForum) {
       return res.status(404).json({ error: 'Forum not found after update' });
     }
 
-    return res.status(200).json({ message: 'Post deleted', forum: updatedForum });
+    return res.status(200).json({ message: 'Post deleted', postId, forum: updatedForum });
   } catch (error) {
     console.error('Error deleting post:', error);
     return res.status(500).json({ error: 'Failed to delete post' });
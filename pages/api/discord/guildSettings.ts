@@ -0,0 +1,140 @@
+import { NextApiRequest, NextApiResponse } from 'next';
+import connectToMongoDB from '../../../utils/mongodb';
+import { getSession } from '../../../utils/session';
+import { logger } from '../../../utils/logger';
+import { getManagedGuild } from '../../../utils/discord/discordGuilds';
+import {
+  validateDiscordGuildSettings,
+  clearDiscordGuildSettingsCache,
+  DiscordGuildSettings
+} from '../../../config/discordGuildSettings';
+
+/**
+ * Server Settings API for Discord Bot
+ * Handles getting and updating server-specific bot settings
+ * All operations require authentication and the Manage Server permission in the server
+ */
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  // Check authentication
+  const session = await getSession(req);
+  if (!session || !session.username) {
+    return res.status(401).json({
+      error: 'Unauthorized',
+      message: 'You must be logged in to manage server settings'
+    });
+  }
+
+  const username = session.username;
+
+  try {
+    switch (req.method) {
+      case 'GET':
+        return await handleGetSettings(req, res, username);
+
+      case 'PUT':
+      case 'PATCH':
+        return await handleUpdateSettings(req, res, username);
+
+      default:
+        return res.status(405).json({ error: 'Method not allowed' });
+    }
+  } catch (error) {
+    // Permission/lookup errors from getManagedGuild carry their own status
+    const statusCode = (error as any)?.statusCode;
+    if (statusCode) {
+      return res.status(statusCode).json({
+        error: statusCode === 404 ? 'Server not found' : 'Forbidden',
+        message: (error as Error).message
+      });
+    }
+
+    logger.error('Error in Discord server settings API', {
+      error: error instanceof Error ? error.message : String(error),
+      method: req.method,
+      username
+    });
+    return res.status(500).json({
+      error: 'Internal server error',
+      message: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+}
+
+/**
+ * Get bot settings for a specific server
+ */
+async function handleGetSettings(
+  req: NextApiRequest,
+  res: NextApiResponse,
+  username: string
+) {
+  const { guildId } = req.query;
+
+  if (!guildId || typeof guildId !== 'string') {
+    return res.status(400).json({
+      error: 'Missing or invalid guildId',
+      message: 'guildId query parameter is required and must be a string'
+    });
+  }
+
+  await connectToMongoDB();
+
+  const guild = await getManagedGuild(username, guildId);
+
+  return res.status(200).json({
+    success: true,
+    guildId,
+    settings: guild.guildSettings || null
+  });
+}
+
+/**
+ * Update bot settings for a server
+ */
+async function handleUpdateSettings(
+  req: NextApiRequest,
+  res: NextApiResponse,
+  username: string
+) {
+  const { guildId, settings } = req.body;
+
+  if (!guildId || typeof guildId !== 'string') {
+    return res.status(400).json({
+      error: 'Missing or invalid guildId',
+      message: 'guildId is required and must be a string'
+    });
+  }
+
+  if (!settings || typeof settings !== 'object') {
+    return res.status(400).json({
+      error: 'Missing or invalid settings',
+      message: 'settings is required and must be an object'
+    });
+  }
+
+  await connectToMongoDB();
+
+  const guild = await getManagedGuild(username, guildId);
+
+  // Validate and merge settings
+  const validatedSettings = validateDiscordGuildSettings(settings as Partial<DiscordGuildSettings>);
+
+  guild.guildSettings = validatedSettings;
+  guild.updatedBy = username;
+  await guild.save();
+
+  clearDiscordGuildSettingsCache(guildId);
+
+  logger.info('Discord server settings updated', {
+    guildId,
+    username,
+    settings: Object.keys(validatedSettings)
+  });
+
+  return res.status(200).json({
+    success: true,
+    message: 'Server settings updated successfully',
+    guildId,
+    settings: validatedSettings
+  });
+}
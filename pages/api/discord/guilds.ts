@@ -0,0 +1,46 @@
+import { NextApiRequest, NextApiResponse } from 'next';
+import connectToMongoDB from '../../../utils/mongodb';
+import { getSession } from '../../../utils/session';
+import { logger } from '../../../utils/logger';
+import { getManageableGuilds } from '../../../utils/discord/discordGuilds';
+
+/**
+ * GET /api/discord/guilds
+ * Lists the Discord servers the bot is in that the signed-in user can manage
+ * (requires a linked Discord account with Manage Server in the server)
+ */
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (req.method !== 'GET') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  // Check authentication
+  const session = await getSession(req);
+  if (!session || !session.username) {
+    return res.status(401).json({
+      error: 'Unauthorized',
+      message: 'You must be logged in to manage Discord servers'
+    });
+  }
+
+  try {
+    await connectToMongoDB();
+
+    const { discordLinked, guilds } = await getManageableGuilds(session.username);
+
+    return res.status(200).json({
+      success: true,
+      discordLinked,
+      guilds
+    });
+  } catch (error) {
+    logger.error('Error listing Discord servers', {
+      error: error instanceof Error ? error.message : String(error),
+      username: session.username
+    });
+    return res.status(500).json({
+      error: 'Internal server error',
+      message: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+}
@@ -0,0 +1,74 @@
+import type { NextApiResponse } from 'next';
+import connectToMongoDB from '../../../utils/mongodb';
+import { requireAuth, AuthenticatedRequest } from '../../../middleware/auth';
+import { redeemDiscordLinkCode } from '../../../utils/discord/discordAccounts';
+import { logger } from '../../../utils/logger';
+
+/**
+ * POST /api/discord/link
+ * Body: { code } - the link code from the Discord bot's /link command
+ * Connects the Discord account that requested the code to the signed-in user.
+ */
+export default async function handler(req: AuthenticatedRequest, res: NextApiResponse) {
+  if (req.method !== 'POST') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  const authResult = await requireAuth(req, res);
+  if (!authResult.authenticated || !authResult.username) {
+    return res.status(401).json({
+      success: false,
+      message: 'You must be logged in to link your Discord account'
+    });
+  }
+
+  const { code } = req.body || {};
+  if (!code || typeof code !== 'string') {
+    return res.status(400).json({ success: false, message: 'Link code is required' });
+  }
+
+  try {
+    await connectToMongoDB();
+
+    const result = await redeemDiscordLinkCode(code, authResult.username);
+
+    if (result.status === 'invalid_code') {
+      return res.status(400).json({
+        success: false,
+        message: 'This link has expired or was already used. Run /link in Discord to get a new one.'
+      });
+    }
+
+    if (result.status === 'already_linked') {
+      logger.warn('Discord account already linked to another user', {
+        discordUsername: result.discordUsername,
+        attemptingToLink: authResult.username
+      });
+      return res.status(409).json({
+        success: false,
+        message: `The Discord account ${result.discordUsername} is already linked to another Wingman account`
+      });
+    }
+
+    logger.info('Discord account linked to user', {
+      username: authResult.username,
+      discordUsername: result.discordUsername
+    });
+
+    return res.status(200).json({
+      success: true,
+      discordUsername: result.discordUsername,
+      message: 'Discord account linked successfully'
+    });
+  } catch (error) {
+    logger.error('Error linking Discord account', {
+      error: error instanceof Error ? error.message : String(error),
+      stack: error instanceof Error ? error.stack : undefined
+    });
+
+    return res.status(500).json({
+      success: false,
+      message: 'An error occurred while linking your Discord account'
+    });
+  }
+}
@@ -0,0 +1,139 @@
+import { NextApiRequest, NextApiResponse } from 'next';
+import connectToMongoDB from '../../../utils/mongodb';
+import { getSession } from '../../../utils/session';
+import { logger } from '../../../utils/logger';
+import { getManagedGuild } from '../../../utils/discord/discordGuilds';
+import {
+  DiscordModerationConfig,
+  defaultDiscordModerationConfig,
+  validateDiscordModerationConfig
+} from '../../../config/discordModerationConfig';
+
+/**
+ * Moderation Settings API for Discord Bot
+ * Handles getting and saving per-server moderation configuration
+ */
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  // Check authentication
+  const session = await getSession(req);
+  if (!session || !session.username) {
+    return res.status(401).json({
+      error: 'Unauthorized',
+      message: 'You must be logged in to manage moderation settings'
+    });
+  }
+
+  const username = session.username;
+
+  try {
+    switch (req.method) {
+      case 'GET':
+        return await handleGetModerationConfig(req, res, username);
+
+      case 'POST':
+        return await handleSaveModerationConfig(req, res, username);
+
+      default:
+        return res.status(405).json({ error: 'Method not allowed' });
+    }
+  } catch (error) {
+    // Permission/lookup errors from getManagedGuild carry their own status
+    const statusCode = (error as any)?.statusCode;
+    if (statusCode) {
+      return res.status(statusCode).json({
+        error: statusCode === 404 ? 'Server not found' : 'Forbidden',
+        message: (error as Error).message
+      });
+    }
+
+    logger.error('Error in Discord moderation settings API', {
+      error: error instanceof Error ? error.message : String(error),
+      method: req.method,
+      username
+    });
+    return res.status(500).json({
+      error: 'Internal server error',
+      message: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+}
+
+/**
+ * Get moderation configuration for a server
+ */
+async function handleGetModerationConfig(
+  req: NextApiRequest,
+  res: NextApiResponse,
+  username: string
+) {
+  const { guildId } = req.query;
+
+  if (!guildId || typeof guildId !== 'string') {
+    return res.status(400).json({
+      error: 'Missing or invalid guildId',
+      message: 'guildId query parameter is required'
+    });
+  }
+
+  await connectToMongoDB();
+
+  const guild = await getManagedGuild(username, guildId);
+
+  // Return server's moderation config or default config
+  const config: DiscordModerationConfig = guild.moderationConfig || defaultDiscordModerationConfig;
+
+  return res.status(200).json({
+    success: true,
+    guildId,
+    config
+  });
+}
+
+/**
+ * Save moderation configuration for a server
+ */
+async function handleSaveModerationConfig(
+  req: NextApiRequest,
+  res: NextApiResponse,
+  username: string
+) {
+  const { guildId, config } = req.body;
+
+  if (!guildId || typeof guildId !== 'string') {
+    return res.status(400).json({
+      error: 'Missing or invalid guildId',
+      message: 'guildId is required and must be a string'
+    });
+  }
+
+  if (!config || typeof config !== 'object') {
+    return res.status(400).json({
+      error: 'Missing or invalid config',
+      message: 'config is required and must be an object'
+    });
+  }
+
+  const validatedConfig = validateDiscordModerationConfig(config);
+
+  await connectToMongoDB();
+
+  const guild = await getManagedGuild(username, guildId);
+
+  // Update moderation config
+  guild.moderationConfig = validatedConfig;
+  guild.updatedBy = username;
+  await guild.save();
+
+  logger.info('Discord moderation config updated', {
+    username,
+    guildId,
+    config: validatedConfig
+  });
+
+  return res.status(200).json({
+    success: true,
+    message: 'Moderation settings saved successfully',
+    guildId,
+    config: validatedConfig
+  });
+}
@@ -1,5 +1,6 @@
-import { NextApiRequest, NextApiResponse } from 'next';
+import { NextApiResponse } from 'next';
 import crypto from 'crypto';
+import { requireAuth, AuthenticatedRequest } from '../../middleware/auth';
 
 // In-memory store for OAuth state (in production, use Redis or similar)
 // Maps state token -> { username, expiresAt }
@@ -15,20 +16,19 @@ setInterval(() => {
   });
 }, 5 * 60 * 1000);
 
-export default function handler(req: NextApiRequest, res: NextApiResponse) {
+export default async function handler(req: AuthenticatedRequest, res: NextApiResponse) {
   // Get Discord OAuth configuration from environment variables
   const redirectUri = process.env.DISCORD_REDIRECT_URI || 'https://assistant.videogamewingman.com/api/discordCallback';
   const applicationId = process.env.DISCORD_APPLICATION_ID || '';
 
-  // Get username from query parameter (passed from frontend)
-  const username = req.query.username as string | undefined;
-
-  // Validate username is provided
-  if (!username) {
-    return res.status(400).json({ 
-      error: 'Username is required. Please ensure you are logged into Video Game Wingman.' 
+  // The Discord account is linked to the signed-in user
+  const authResult = await requireAuth(req, res);
+  if (!authResult.authenticated || !authResult.username) {
+    return res.status(401).json({ 
+      error: 'Authentication required. Please ensure you are logged into Video Game Wingman.' 
     });
   }
+  const username = authResult.username;
 
   // Check for missing configuration
   if (!applicationId) {
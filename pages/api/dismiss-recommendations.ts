@@ -3,30 +3,27 @@
  * Phase 3 Step 3: Mark recommendations as dismissed by user
  * 
  * Usage:
- *   POST /api/dismiss-recommendations
- *   Body: { username: "TestUser1" }
+ *   POST /api/dismiss-recommendations (signed-in user)
  */
 
-import type { NextApiRequest, NextApiResponse } from 'next';
+import type { NextApiResponse } from 'next';
 import connectToMongoDB from '../../utils/mongodb';
 import { dismissRecommendations } from '../../utils/generateRecommendations';
+import { requireAuth, AuthenticatedRequest } from '../../middleware/auth';
 
 export default async function handler(
-  req: NextApiRequest,
+  req: AuthenticatedRequest,
   res: NextApiResponse
 ) {
   if (req.method !== 'POST') {
     return res.status(405).json({ error: 'Method not allowed' });
   }
 
-  const { username } = req.body;
-
-  if (!username || typeof username !== 'string') {
-    return res.status(400).json({ 
-      error: 'Username is required',
-      usage: 'POST /api/dismiss-recommendations with body: { username: "TestUser1" }'
-    });
+  const authResult = await requireAuth(req, res);
+  if (!authResult.authenticated || !authResult.username) {
+    return res.status(401).json({ error: 'Authentication required' });
   }
+  const username = authResult.username;
 
   try {
     await connectToMongoDB();
@@ -1,14 +1,23 @@
-import type { NextApiRequest, NextApiResponse } from 'next';
+import type { NextApiResponse } from 'next';
 import connectToMongoDB from '../../utils/mongodb';
-import Forum from '../../models/Forum';
+import mongoose from 'mongoose';
+import ForumPost from '../../models/ForumPost';
+import { serializeForumPost } from '../../utils/forumPosts';
+import { requireAuth, AuthenticatedRequest } from '../../middleware/auth';
 
-export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+export default async function handler(req: AuthenticatedRequest, res: NextApiResponse) {
   if (req.method !== 'PUT' && req.method !== 'PATCH') {
     return res.status(405).json({ error: 'Method not allowed' });
   }
 
+  const authResult = await requireAuth(req, res);
+  if (!authResult.authenticated || !authResult.username) {
+    return res.status(401).json({ error: 'Authentication required' });
+  }
+  const username = authResult.username;
+
   const { forumId, postId } = req.query;
-  const { message, username, attachments } = req.body;
+  const { message, attachments } = req.body;
 
   if (!forumId || !postId) {
     return res.status(400).json({ error: 'Missing forumId or postId' });
@@ -27,10 +36,6 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
     return res.status(400).json({ error: 'Message too long (max 5000 characters)' });
   }
 
-  if (!username || typeof username !== 'string') {
-    return res.status(400).json({ error: 'Username is required' });
-  }
-
   // Validate attachments if provided
   const postAttachments = attachments || [];
   if (postAttachments.length > 5) {
@@ -62,14 +67,12 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
   try {
     await connectToMongoDB();
     
-    // First, find the forum and post to check authorization
-    const forum = await Forum.findOne({ forumId });
-    if (!forum) {
-      return res.status(404).json({ error: 'Forum not found' });
+    if (!mongoose.Types.ObjectId.isValid(postId as string)) {
+      return res.status(400).json({ error: 'Invalid post ID' });
     }
 
     // Find the post to verify ownership
-    const post = forum.posts.id(postId);
+    const post = await ForumPost.findOne({ _id: postId, forumId }).select('createdBy').lean() as { createdBy: string } | null;
     if (!post) {
       return res.status(404).json({ error: 'Post not found' });
     }
@@ -79,48 +82,38 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
       return res.status(403).json({ error: 'Only the post creator can edit this post' });
     }
 
-    // Use findOneAndUpdate with positional operator to update only the specific post
-    // This avoids validating all posts in the array
     const updateData: any = {
-      'posts.$.metadata.edited': true,
-      'posts.$.metadata.editedAt': new Date(),
-      'posts.$.metadata.editedBy': username
+      'metadata.edited': true,
+      'metadata.editedAt': new Date(),
+      'metadata.editedBy': username
     };
 
     // Always update message if provided (preserve existing message when adding images)
     // If message is provided (even if empty string), update it to preserve user's intent
     if (message !== undefined && typeof message === 'string') {
-      updateData['posts.$.message'] = message.trim();
+      updateData.message = message.trim();
     }
 
     // Update attachments if provided
     if (postAttachments.length > 0) {
-      updateData['posts.$.metadata.attachments'] = postAttachments.map((att: any) => ({
+      updateData['metadata.attachments'] = postAttachments.map((att: any) => ({
         type: 'image',
         url: att.url,
         name: att.name || 'image'
       }));
     }
 
-    const updatedForum = await Forum.findOneAndUpdate(
-      { 
-        forumId,
-        'posts._id': postId
-      },
-      {
-        $set: updateData
-      },
-      { 
-        new: true, // Return the updated document
-        runValidators: false // Skip validation to avoid issues with other posts
-      }
-    );
-
-    if (!updatedForum) {
-      return res.status(404).json({ error: 'Forum or post not found after update' });
+    const updatedPost = await ForumPost.findOneAndUpdate(
+      { _id: postId, forumId },
+      { $set: updateData },
+      { new: true }
+    ).lean();
+
+    if (!updatedPost) {
+      return res.status(404).json({ error: 'Post not found after update' });
     }
 
-    return res.status(200).json({ message: 'Post updated', forum: updatedForum });
+    return res.status(200).json({ message: 'Post updated', post: serializeForumPost(updatedPost) });
   } catch (error) {
     console.error('Error editing post:', error);
     return res.status(500).json({ error: 'Failed to edit post' });
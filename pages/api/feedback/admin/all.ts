@@ -1,9 +1,10 @@
-import type { NextApiRequest, NextApiResponse } from 'next';
+import type { NextApiResponse } from 'next';
 import connectToMongoDB from '../../../../utils/mongodb';
 import Feedback from '../../../../models/Feedback';
-import { requireAdminAccess, getAdminUsernameForLogging } from '../../../../utils/adminAccess';
+import { requirePermission, ADMIN_ACCESS_LEVELS } from '../../../../utils/adminAccess';
+import { requireAuth, AuthenticatedRequest } from '../../../../middleware/auth';
 
-export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+export default async function handler(req: AuthenticatedRequest, res: NextApiResponse) {
   if (req.method !== 'GET') {
     return res.status(405).json({ error: 'Method not allowed' });
   }
@@ -11,10 +12,10 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
   try {
     await connectToMongoDB();
     
-    const { username, page = 1, limit = 20, status, category, priority, userType, search } = req.query;
+    const { page = 1, limit = 20, status, category, priority, userType, search } = req.query;
     
     // Log only the meaningful parameters (not undefined ones)
-    const logParams: any = { username, page, limit };
+    const logParams: any = { page, limit };
     if (status && status !== 'undefined') logParams.status = status;
     if (category && category !== 'undefined') logParams.category = category;
     if (priority && priority !== 'undefined') logParams.priority = priority;
@@ -23,8 +24,12 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
     
     // console.log('Admin all feedback API called with:', logParams); // Commented out for production
 
-    // Validate admin access (checks against ADMIN_USERNAME environment variable)
-    requireAdminAccess(username as string);
+    // Permission is checked for the signed-in user, not the username parameter
+    const authResult = await requireAuth(req, res);
+    if (!authResult.authenticated) {
+      return res.status(401).json({ error: 'Authentication required' });
+    }
+    await requirePermission(authResult.username, ADMIN_ACCESS_LEVELS.VIEW_FEEDBACK);
     // console.log('Admin access validated for all feedback API'); // Commented out for production
 
     // Validate pagination parameters
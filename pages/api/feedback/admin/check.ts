@@ -1,36 +1,36 @@
-import type { NextApiRequest, NextApiResponse } from 'next';
-import { validateAdminAccess } from '../../../../utils/adminAccess';
+import type { NextApiResponse } from 'next';
+import { getUserRoles, getPermissionsForRoles } from '../../../../utils/adminAccess';
+import { requireAuth, AuthenticatedRequest } from '../../../../middleware/auth';
 
-export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+/**
+ * GET /api/feedback/admin/check
+ * Returns the signed-in user's staff roles and permissions so the UI can show admin tools.
+ * `isAdmin` is true for the admin role only; use `permissions` for everything else.
+ */
+export default async function handler(req: AuthenticatedRequest, res: NextApiResponse) {
   if (req.method !== 'GET') {
     return res.status(405).json({ error: 'Method not allowed' });
   }
 
   try {
-    const { username } = req.query;
-
-    // Validate admin access
-    const accessCheck = validateAdminAccess(username as string);
-    
-    if (accessCheck.hasAccess) {
-      return res.status(200).json({
-        success: true,
-        isAdmin: true,
-        message: 'Admin access confirmed'
-      });
-    } else {
-      return res.status(200).json({
-        success: true,
-        isAdmin: false,
-        message: 'Regular user access'
-      });
-    }
+    const authResult = await requireAuth(req, res);
+    const roles = authResult.authenticated ? await getUserRoles(authResult.username) : [];
+    const permissions = getPermissionsForRoles(roles);
 
+    return res.status(200).json({
+      success: true,
+      isAdmin: roles.includes('admin'),
+      roles,
+      permissions,
+      message: roles.length > 0 ? 'Staff access confirmed' : 'Regular user access'
+    });
   } catch (error: any) {
     console.error('Error checking admin access:', error);
     return res.status(200).json({
       success: true,
       isAdmin: false,
+      roles: [],
+      permissions: [],
       message: 'Regular user access'
     });
   }
@@ -1,17 +1,24 @@
-import type { NextApiRequest, NextApiResponse } from 'next';
+import type { NextApiResponse } from 'next';
 import Feedback from '../../../../models/Feedback';
-import { requireAdminAccess } from '../../../../utils/adminAccess';
+import { requirePermission, ADMIN_ACCESS_LEVELS } from '../../../../utils/adminAccess';
+import { requireAuth, AuthenticatedRequest } from '../../../../middleware/auth';
+import { createNotification, truncatePreview } from '../../../../utils/notifications';
 
-export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+export default async function handler(req: AuthenticatedRequest, res: NextApiResponse) {
   if (req.method !== 'POST') {
     return res.status(405).json({ error: 'Method not allowed' });
   }
 
   try {
-    const { username, feedbackId, adminResponse } = req.body;
+    const { feedbackId, adminResponse } = req.body;
 
-    // Validate admin access
-    requireAdminAccess(username);
+    // Permission is checked for the signed-in user, not a username in the body
+    const authResult = await requireAuth(req, res);
+    if (!authResult.authenticated) {
+      return res.status(401).json({ error: 'Authentication required' });
+    }
+    await requirePermission(authResult.username, ADMIN_ACCESS_LEVELS.RESPOND_FEEDBACK);
+    const username = authResult.username;
 
     // Validate required fields
     if (!feedbackId || !adminResponse) {
@@ -54,6 +61,16 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
       { new: true }
     );
 
+    // Let the user know without them having to open My Feedback
+    await createNotification({
+      username: feedback.username,
+      type: 'feedback_response',
+      title: 'We responded to your feedback',
+      message: `Re: ${feedback.title} - ${truncatePreview(adminResponse, 200)}`,
+      actor: username,
+      data: { feedbackId }
+    });
+
     return res.status(200).json({
       success: true,
       message: 'Response added successfully',
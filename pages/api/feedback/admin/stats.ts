@@ -1,9 +1,10 @@
-import type { NextApiRequest, NextApiResponse } from 'next';
+import type { NextApiResponse } from 'next';
 import connectToMongoDB from '../../../../utils/mongodb';
 import Feedback from '../../../../models/Feedback';
-import { requireAdminAccess } from '../../../../utils/adminAccess';
+import { requirePermission, ADMIN_ACCESS_LEVELS } from '../../../../utils/adminAccess';
+import { requireAuth, AuthenticatedRequest } from '../../../../middleware/auth';
 
-export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+export default async function handler(req: AuthenticatedRequest, res: NextApiResponse) {
   if (req.method !== 'GET') {
     return res.status(405).json({ error: 'Method not allowed' });
   }
@@ -11,11 +12,14 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
   try {
     await connectToMongoDB();
     
-    const { username, timeframe = '30' } = req.query;
-    // console.log('Admin stats API called with username:', username); // Commented out for production
+    const { timeframe = '30' } = req.query;
 
-    // Validate admin access
-    requireAdminAccess(username as string);
+    // Permission is checked for the signed-in user, not the username parameter
+    const authResult = await requireAuth(req, res);
+    if (!authResult.authenticated) {
+      return res.status(401).json({ error: 'Authentication required' });
+    }
+    await requirePermission(authResult.username, ADMIN_ACCESS_LEVELS.VIEW_STATS);
     // console.log('Admin access validated successfully'); // Commented out for production
 
     // Validate timeframe
@@ -1,17 +1,22 @@
-import type { NextApiRequest, NextApiResponse } from 'next';
+import type { NextApiResponse } from 'next';
 import Feedback from '../../../../models/Feedback';
-import { requireAdminAccess } from '../../../../utils/adminAccess';
+import { requirePermission, ADMIN_ACCESS_LEVELS } from '../../../../utils/adminAccess';
+import { requireAuth, AuthenticatedRequest } from '../../../../middleware/auth';
 
-export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+export default async function handler(req: AuthenticatedRequest, res: NextApiResponse) {
   if (req.method !== 'POST') {
     return res.status(405).json({ error: 'Method not allowed' });
   }
 
   try {
-    const { username, feedbackId, status, priority } = req.body;
+    const { feedbackId, status, priority } = req.body;
 
-    // Validate admin access
-    requireAdminAccess(username);
+    // Permission is checked for the signed-in user, not a username in the body
+    const authResult = await requireAuth(req, res);
+    if (!authResult.authenticated) {
+      return res.status(401).json({ error: 'Authentication required' });
+    }
+    await requirePermission(authResult.username, ADMIN_ACCESS_LEVELS.UPDATE_STATUS);
 
     // Validate required fields
     if (!feedbackId) {
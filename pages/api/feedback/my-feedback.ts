@@ -1,8 +1,9 @@
-import type { NextApiRequest, NextApiResponse } from 'next';
+import type { NextApiResponse } from 'next';
 import connectToMongoDB from '../../../utils/mongodb';
 import Feedback from '../../../models/Feedback';
+import { requireAuth, AuthenticatedRequest } from '../../../middleware/auth';
 
-export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+export default async function handler(req: AuthenticatedRequest, res: NextApiResponse) {
   if (req.method !== 'GET') {
     return res.status(405).json({ error: 'Method not allowed' });
   }
@@ -10,14 +11,13 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
   try {
     await connectToMongoDB();
     
-    const { username, page = 1, limit = 10, status, category } = req.query;
-
-    // Validate username
-    if (!username || typeof username !== 'string') {
-      return res.status(400).json({ 
-        error: 'Username is required' 
-      });
+    const authResult = await requireAuth(req, res);
+    if (!authResult.authenticated || !authResult.username) {
+      return res.status(401).json({ error: 'Authentication required' });
     }
+    const username = authResult.username;
+
+    const { page = 1, limit = 10, status, category } = req.query;
 
     // Validate pagination parameters
     const pageNum = parseInt(page as string);
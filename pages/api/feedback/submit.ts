@@ -1,21 +1,27 @@
-import type { NextApiRequest, NextApiResponse } from 'next';
+import type { NextApiResponse } from 'next';
 import connectToMongoDB from '../../../utils/mongodb';
 import Feedback from '../../../models/Feedback';
 import { containsOffensiveContent } from '../../../utils/contentModeration';
 import { handleContentViolation, checkUserBanStatus } from '../../../utils/violationHandler';
 import { checkProAccess } from '../../../utils/proAccessUtil';
 import { validateFeedbackData } from '../../../utils/validation';
+import { requireAuth, AuthenticatedRequest } from '../../../middleware/auth';
 
-export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+export default async function handler(req: AuthenticatedRequest, res: NextApiResponse) {
   if (req.method !== 'POST') {
     return res.status(405).json({ error: 'Method not allowed' });
   }
 
   try {
+    const authResult = await requireAuth(req, res);
+    if (!authResult.authenticated || !authResult.username) {
+      return res.status(401).json({ error: 'Authentication required' });
+    }
+    const username = authResult.username;
+
     await connectToMongoDB();
     
     const { 
-      username, 
       email, 
       category, 
       title, 
@@ -25,9 +31,9 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
     } = req.body;
 
     // Validate required fields
-    if (!username || !email || !category || !title || !message) {
+    if (!email || !category || !title || !message) {
       return res.status(400).json({ 
-        error: 'Missing required fields: username, email, category, title, and message are required' 
+        error: 'Missing required fields: email, category, title, and message are required' 
       });
     }
 
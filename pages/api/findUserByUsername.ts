@@ -1,16 +1,18 @@
-import type { NextApiRequest, NextApiResponse } from 'next';
+import type { NextApiResponse } from 'next';
 import { connectToWingmanDB } from '../../utils/databaseConnections';
 import User from '../../models/User';
 import mongoose from 'mongoose';
+import { requireAuth, AuthenticatedRequest } from '../../middleware/auth';
 
-export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+export default async function handler(req: AuthenticatedRequest, res: NextApiResponse) {
   if (req.method !== 'GET') {
     return res.status(405).json({ message: 'Method not allowed' });
   }
-  const { username } = req.query;
-  if (!username) {
-    return res.status(400).json({ message: 'Username is required' });
+  const authResult = await requireAuth(req, res);
+  if (!authResult.authenticated || !authResult.username) {
+    return res.status(401).json({ message: 'Authentication required' });
   }
+  const username = authResult.username;
   try {
     if (mongoose.connection.readyState !== 1) {
       await connectToWingmanDB();
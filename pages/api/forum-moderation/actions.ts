@@ -0,0 +1,66 @@
+import type { NextApiResponse } from 'next';
+import connectToMongoDB from '../../../utils/mongodb';
+import { FORUM_MODERATION_ACTIONS } from '../../../models/ForumModerationLog';
+import { requireAuth, AuthenticatedRequest } from '../../../middleware/auth';
+import { applyForumModerationAction } from '../../../utils/forumModeration';
+
+/**
+ * POST /api/forum-moderation/actions
+ * Takes a moderator action on a forum or post and records it in the audit log.
+ * Body: { action, forumId, postId?, reason?, category? }
+ * - Post actions (postId required): hide_post, restore_post, pin_post, unpin_post, warn_author
+ * - Forum actions: lock_forum, unlock_forum, move_forum (category required)
+ * - dismiss_reports closes a post's (with postId) or forum's open reports without other changes
+ * Staff with moderate_forums can moderate any forum; private forum creators can moderate
+ * their own forums, but only staff can warn authors (warnings count towards bans).
+ */
+export default async function handler(req: AuthenticatedRequest, res: NextApiResponse) {
+  if (req.method !== 'POST') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  try {
+    const authResult = await requireAuth(req, res);
+    if (!authResult.authenticated || !authResult.username) {
+      return res.status(401).json({ error: 'Authentication required' });
+    }
+
+    const { action, forumId, postId, reason, category } = req.body || {};
+
+    if (!FORUM_MODERATION_ACTIONS.includes(action)) {
+      return res.status(400).json({ error: `action must be one of: ${FORUM_MODERATION_ACTIONS.join(', ')}` });
+    }
+    if (!forumId || typeof forumId !== 'string') {
+      return res.status(400).json({ error: 'forumId is required' });
+    }
+    if (reason !== undefined && (typeof reason !== 'string' || reason.length > 500)) {
+      return res.status(400).json({ error: 'reason must be a string of at most 500 characters' });
+    }
+
+    await connectToMongoDB();
+
+    const result = await applyForumModerationAction(authResult.username, {
+      action,
+      forumId,
+      postId: typeof postId === 'string' ? postId : undefined,
+      reason: reason?.trim() || undefined,
+      category: typeof category === 'string' ? category : undefined
+    });
+
+    console.log(`[MODERATION] Forum action: action=${action}, forumId=${forumId}, postId=${postId || '-'}, performedBy=${authResult.username} (${result.role})`);
+
+    return res.status(200).json({
+      success: true,
+      action,
+      resolvedReports: result.log.resolvedReports,
+      details: result.details,
+      logEntry: result.log
+    });
+  } catch (error: any) {
+    if ([400, 403, 404].includes(error.statusCode)) {
+      return res.status(error.statusCode).json({ error: error.message });
+    }
+    console.error('Error applying forum moderation action:', error);
+    return res.status(500).json({ error: 'Failed to apply moderation action' });
+  }
+}
@@ -0,0 +1,77 @@
+import type { NextApiResponse } from 'next';
+import connectToMongoDB from '../../../utils/mongodb';
+import ForumModerationLog from '../../../models/ForumModerationLog';
+import { requireAuth, AuthenticatedRequest } from '../../../middleware/auth';
+import { getModeratedForumIds } from '../../../utils/forumModeration';
+
+const DEFAULT_PAGE_SIZE = 50;
+const MAX_PAGE_SIZE = 200;
+
+/**
+ * GET /api/forum-moderation/audit
+ * Forum moderation audit log, newest first.
+ * Staff with moderate_forums see every forum; private forum creators see their own forums.
+ * Query: forumId, performedBy, targetUsername, action, page, pageSize
+ */
+export default async function handler(req: AuthenticatedRequest, res: NextApiResponse) {
+  if (req.method !== 'GET') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  try {
+    const authResult = await requireAuth(req, res);
+    if (!authResult.authenticated || !authResult.username) {
+      return res.status(401).json({ error: 'Authentication required' });
+    }
+
+    await connectToMongoDB();
+
+    const moderatedForumIds = await getModeratedForumIds(authResult.username);
+    if (moderatedForumIds && moderatedForumIds.length === 0) {
+      return res.status(403).json({ error: 'Only moderators and the creators of private forums can view the audit log' });
+    }
+
+    const { forumId, performedBy, targetUsername, action } = req.query;
+    const page = Math.max(1, parseInt(req.query.page as string) || 1);
+    const pageSize = Math.min(
+      MAX_PAGE_SIZE,
+      Math.max(1, parseInt(req.query.pageSize as string) || DEFAULT_PAGE_SIZE)
+    );
+
+    const filter: Record<string, any> = {};
+    if (typeof forumId === 'string' && forumId) {
+      if (moderatedForumIds && !moderatedForumIds.includes(forumId)) {
+        return res.status(403).json({ error: 'You can only view the audit log for forums you moderate' });
+      }
+      filter.forumId = forumId;
+    } else if (moderatedForumIds) {
+      filter.forumId = { $in: moderatedForumIds };
+    }
+    if (typeof performedBy === 'string' && performedBy) filter.performedBy = performedBy;
+    if (typeof targetUsername === 'string' && targetUsername) filter.targetUsername = targetUsername;
+    if (typeof action === 'string' && action) filter.action = action;
+
+    const [entries, total] = await Promise.all([
+      ForumModerationLog.find(filter)
+        .sort({ createdAt: -1 })
+        .skip((page - 1) * pageSize)
+        .limit(pageSize)
+        .lean(),
+      ForumModerationLog.countDocuments(filter)
+    ]);
+
+    return res.status(200).json({
+      success: true,
+      entries,
+      pagination: {
+        total,
+        page,
+        pageSize,
+        totalPages: Math.ceil(total / pageSize)
+      }
+    });
+  } catch (error) {
+    console.error('Error fetching forum moderation audit log:', error);
+    return res.status(500).json({ error: 'Failed to fetch audit log' });
+  }
+}
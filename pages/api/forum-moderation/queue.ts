@@ -0,0 +1,146 @@
+import type { NextApiResponse } from 'next';
+import connectToMongoDB from '../../../utils/mongodb';
+import Forum from '../../../models/Forum';
+import ForumPost from '../../../models/ForumPost';
+import ContentReport from '../../../models/ContentReport';
+import { requireAuth, AuthenticatedRequest } from '../../../middleware/auth';
+import { getModeratedForumIds } from '../../../utils/forumModeration';
+
+const DEFAULT_PAGE_SIZE = 25;
+const MAX_PAGE_SIZE = 100;
+
+/**
+ * GET /api/forum-moderation/queue
+ * Open reports grouped by reported post or forum, most reported first.
+ * Staff with moderate_forums see every forum; private forum creators see their own forums.
+ * Query: forumId, page, pageSize
+ */
+export default async function handler(req: AuthenticatedRequest, res: NextApiResponse) {
+  if (req.method !== 'GET') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  try {
+    const authResult = await requireAuth(req, res);
+    if (!authResult.authenticated || !authResult.username) {
+      return res.status(401).json({ error: 'Authentication required' });
+    }
+
+    await connectToMongoDB();
+
+    const moderatedForumIds = await getModeratedForumIds(authResult.username);
+    if (moderatedForumIds && moderatedForumIds.length === 0) {
+      return res.status(403).json({ error: 'Only moderators and the creators of private forums can view reports' });
+    }
+
+    const { forumId } = req.query;
+    const page = Math.max(1, parseInt(req.query.page as string) || 1);
+    const pageSize = Math.min(
+      MAX_PAGE_SIZE,
+      Math.max(1, parseInt(req.query.pageSize as string) || DEFAULT_PAGE_SIZE)
+    );
+
+    const match: Record<string, any> = { status: 'open' };
+    if (typeof forumId === 'string' && forumId) {
+      if (moderatedForumIds && !moderatedForumIds.includes(forumId)) {
+        return res.status(403).json({ error: 'You can only view reports for forums you moderate' });
+      }
+      match.forumId = forumId;
+    } else if (moderatedForumIds) {
+      match.forumId = { $in: moderatedForumIds };
+    }
+
+    const [result] = await ContentReport.aggregate([
+      { $match: match },
+      {
+        $group: {
+          _id: { targetType: '$targetType', forumId: '$forumId', postId: '$postId' },
+          reportCount: { $sum: 1 },
+          reasons: { $push: '$reason' },
+          reports: {
+            $push: { reportedBy: '$reportedBy', reason: '$reason', details: '$details', createdAt: '$createdAt' }
+          },
+          reportedUser: { $first: '$reportedUser' },
+          firstReportedAt: { $min: '$createdAt' },
+          lastReportedAt: { $max: '$createdAt' }
+        }
+      },
+      { $sort: { reportCount: -1, lastReportedAt: -1 } },
+      {
+        $facet: {
+          items: [{ $skip: (page - 1) * pageSize }, { $limit: pageSize }],
+          total: [{ $count: 'count' }]
+        }
+      }
+    ]);
+
+    const groups: any[] = result?.items || [];
+    const total: number = result?.total?.[0]?.count || 0;
+
+    // Attach what was reported so moderators can judge it in place
+    const forumIds = Array.from(new Set(groups.map(group => group._id.forumId)));
+    const postIds = groups.filter(group => group._id.postId).map(group => group._id.postId);
+    const [forums, posts] = await Promise.all([
+      Forum.find({ forumId: { $in: forumIds } })
+        .select('forumId title gameTitle category isPrivate isLocked createdBy metadata.status')
+        .lean(),
+      ForumPost.find({ _id: { $in: postIds } })
+        .select('forumId username message timestamp metadata.status metadata.isPinned metadata.attachments')
+        .lean()
+    ]);
+    const forumsById = new Map((forums as any[]).map(forum => [forum.forumId, forum]));
+    const postsById = new Map((posts as any[]).map(post => [String(post._id), post]));
+
+    const items = groups.map(group => {
+      const forum: any = forumsById.get(group._id.forumId);
+      const post: any = group._id.postId ? postsById.get(group._id.postId) : null;
+      const reasonCounts: Record<string, number> = {};
+      for (const reason of group.reasons) {
+        reasonCounts[reason] = (reasonCounts[reason] || 0) + 1;
+      }
+
+      return {
+        targetType: group._id.targetType,
+        forumId: group._id.forumId,
+        postId: group._id.postId || null,
+        reportedUser: group.reportedUser,
+        reportCount: group.reportCount,
+        reasonCounts,
+        reports: group.reports,
+        firstReportedAt: group.firstReportedAt,
+        lastReportedAt: group.lastReportedAt,
+        forum: forum ? {
+          title: forum.title,
+          gameTitle: forum.gameTitle,
+          category: forum.category,
+          isPrivate: Boolean(forum.isPrivate),
+          isLocked: Boolean(forum.isLocked),
+          createdBy: forum.createdBy,
+          status: forum.metadata?.status || 'active'
+        } : null,
+        post: post ? {
+          username: post.username,
+          message: post.message,
+          timestamp: post.timestamp,
+          status: post.metadata?.status || 'active',
+          isPinned: Boolean(post.metadata?.isPinned),
+          attachments: post.metadata?.attachments || []
+        } : null
+      };
+    });
+
+    return res.status(200).json({
+      success: true,
+      items,
+      pagination: {
+        total,
+        page,
+        pageSize,
+        totalPages: Math.ceil(total / pageSize)
+      }
+    });
+  } catch (error) {
+    console.error('Error fetching moderation queue:', error);
+    return res.status(500).json({ error: 'Failed to fetch moderation queue' });
+  }
+}
@@ -0,0 +1,98 @@
+import type { NextApiResponse } from 'next';
+import mongoose from 'mongoose';
+import connectToMongoDB from '../../../utils/mongodb';
+import Forum from '../../../models/Forum';
+import ForumPost from '../../../models/ForumPost';
+import ContentReport, { REPORT_REASONS, REPORT_TARGET_TYPES } from '../../../models/ContentReport';
+import { requireAuth, AuthenticatedRequest } from '../../../middleware/auth';
+import { canViewForum } from '../../../utils/forumModeration';
+
+/**
+ * POST /api/forum-moderation/report
+ * Reports a forum post or a forum (topic) to its moderators.
+ * Body: { targetType: 'post' | 'forum', forumId, postId? (for posts), reason, details? }
+ * Reasons: spam, harassment, hate_speech, inappropriate, spoilers, off_topic, other
+ * A user can have one open report per target.
+ */
+export default async function handler(req: AuthenticatedRequest, res: NextApiResponse) {
+  if (req.method !== 'POST') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  try {
+    const authResult = await requireAuth(req, res);
+    if (!authResult.authenticated || !authResult.username) {
+      return res.status(401).json({ error: 'Authentication required' });
+    }
+    const username = authResult.username;
+
+    const { targetType, forumId, postId, reason, details } = req.body || {};
+
+    if (!REPORT_TARGET_TYPES.includes(targetType)) {
+      return res.status(400).json({ error: `targetType must be one of: ${REPORT_TARGET_TYPES.join(', ')}` });
+    }
+    if (!forumId || typeof forumId !== 'string') {
+      return res.status(400).json({ error: 'forumId is required' });
+    }
+    if (!REPORT_REASONS.includes(reason)) {
+      return res.status(400).json({ error: `reason must be one of: ${REPORT_REASONS.join(', ')}` });
+    }
+    if (details !== undefined && (typeof details !== 'string' || details.length > 1000)) {
+      return res.status(400).json({ error: 'details must be a string of at most 1000 characters' });
+    }
+    if (reason === 'other' && !details?.trim()) {
+      return res.status(400).json({ error: 'Please describe the problem' });
+    }
+
+    await connectToMongoDB();
+
+    const forum = await Forum.findOne({ forumId }).select('forumId isPrivate allowedUsers createdBy').lean() as any;
+    if (!forum || !canViewForum(username, forum)) {
+      return res.status(404).json({ error: 'Forum not found' });
+    }
+
+    let reportedUser = forum.createdBy;
+    if (targetType === 'post') {
+      if (typeof postId !== 'string' || !mongoose.Types.ObjectId.isValid(postId)) {
+        return res.status(400).json({ error: 'A valid postId is required' });
+      }
+      const post = await ForumPost.findOne({ _id: postId, forumId, 'metadata.status': 'active' })
+        .select('username')
+        .lean() as { username: string } | null;
+      if (!post) {
+        return res.status(404).json({ error: 'Post not found' });
+      }
+      reportedUser = post.username;
+    }
+
+    if (reportedUser === username) {
+      return res.status(400).json({ error: 'You cannot report your own content' });
+    }
+
+    try {
+      await ContentReport.create({
+        targetType,
+        forumId,
+        postId: targetType === 'post' ? postId : undefined,
+        reportedUser,
+        reportedBy: username,
+        reason,
+        details: details?.trim() || undefined
+      });
+    } catch (error: any) {
+      // Unique index: one open report per user per target
+      if (error?.code === 11000) {
+        return res.status(409).json({ error: 'You have already reported this. Moderators will review it soon.' });
+      }
+      throw error;
+    }
+
+    return res.status(201).json({
+      success: true,
+      message: 'Thanks for your report. Moderators will review it soon.'
+    });
+  } catch (error) {
+    console.error('Error reporting content:', error);
+    return res.status(500).json({ error: 'Failed to submit report' });
+  }
+}
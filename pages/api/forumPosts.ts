@@ -0,0 +1,60 @@
+import type { NextApiResponse } from 'next';
+import connectToMongoDB from '../../utils/mongodb';
+import Forum from '../../models/Forum';
+import { getForumPostsPage } from '../../utils/forumPosts';
+import { optionalAuth, AuthenticatedRequest } from '../../middleware/auth';
+
+/**
+ * GET /api/forumPosts?forumId=...&cursor=...&limit=...
+ * Returns the next page of a forum's posts (oldest first).
+ * Pass the nextCursor from getForumTopic (or the previous page) as cursor.
+ */
+export default async function handler(req: AuthenticatedRequest, res: NextApiResponse) {
+  if (req.method !== 'GET') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  const { forumId, cursor, limit } = req.query;
+
+  if (!forumId || typeof forumId !== 'string') {
+    return res.status(400).json({ error: 'Forum ID is required' });
+  }
+
+  try {
+    await connectToMongoDB();
+    const { username } = await optionalAuth(req, res);
+
+    const forum = await Forum.findOne({ forumId }).select('isPrivate allowedUsers').lean() as any;
+    if (!forum) {
+      return res.status(404).json({ error: 'Forum not found' });
+    }
+
+    // Same access rule as getForumTopic
+    if (forum.isPrivate && (!username || !(forum.allowedUsers || []).includes(username))) {
+      return res.status(403).json({ error: 'Access denied to private forum' });
+    }
+
+    const page = await getForumPostsPage(forumId, {
+      cursor: typeof cursor === 'string' ? cursor : null,
+      limit: limit ? parseInt(limit as string, 10) : undefined
+    });
+
+    return res.status(200).json({
+      success: true,
+      posts: page.posts,
+      pagination: {
+        nextCursor: page.nextCursor,
+        hasMore: page.hasMore
+      }
+    });
+  } catch (error: any) {
+    if (error.statusCode === 400) {
+      return res.status(400).json({ error: error.message });
+    }
+    console.error('Error fetching forum posts:', error);
+    return res.status(500).json({
+      error: 'Error fetching forum posts',
+      message: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+}
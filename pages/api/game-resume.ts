@@ -1,23 +1,25 @@
-import type { NextApiRequest, NextApiResponse } from 'next';
+import type { NextApiResponse } from 'next';
 import connectToMongoDB from '../../utils/mongodb';
 import Question from '../../models/Question';
-import { getChatCompletion } from '../../utils/aiHelper';
+import { selectModelForQuestion } from '../../utils/aiHelper';
+import { getLLMProvider } from '../../utils/llm/provider';
 import mongoose from 'mongoose';
 import { GameResumeResponse } from '../../types';
+import { requireAuth, AuthenticatedRequest } from '../../middleware/auth';
 
 export default async function handler(
-  req: NextApiRequest,
+  req: AuthenticatedRequest,
   res: NextApiResponse<GameResumeResponse>
 ) {
   if (req.method !== 'GET') {
     return res.status(405).json({ error: 'Method not allowed' });
   }
 
-  const { username } = req.query;
-
-  if (!username || typeof username !== 'string') {
-    return res.status(400).json({ error: 'Username is required' });
+  const authResult = await requireAuth(req, res);
+  if (!authResult.authenticated || !authResult.username) {
+    return res.status(401).json({ error: 'Authentication required' });
   }
+  const username = authResult.username;
 
   try {
     // Connect to database
@@ -101,23 +103,24 @@ Format your response as JSON with these exact fields:
 
 Only return valid JSON, nothing else.`;
 
-    const aiResponse = await getChatCompletion(userPrompt, systemPrompt);
+    // Newer games need the model with the more recent knowledge cutoff
+    const modelSelection = await selectModelForQuestion(gameTitle);
+    const aiResponse = await getLLMProvider().json({
+      model: modelSelection.model,
+      messages: [
+        { role: 'system', content: systemPrompt },
+        { role: 'user', content: userPrompt }
+      ],
+      maxTokens: 400
+    });
 
-    if (!aiResponse) {
+    if (!aiResponse.content) {
       return res.status(500).json({ error: 'Failed to generate suggestion' });
     }
 
-    // Parse AI response (it should be JSON)
-    let suggestion;
-    try {
-      // Try to extract JSON from response (in case AI adds extra text)
-      const jsonMatch = aiResponse.match(/\{[\s\S]*\}/);
-      if (jsonMatch) {
-        suggestion = JSON.parse(jsonMatch[0]);
-      } else {
-        throw new Error('No JSON found in response');
-      }
-    } catch (parseError) {
+    // The provider returns parsed JSON, or null if the response wasn't valid JSON
+    let suggestion = aiResponse.data;
+    if (!suggestion) {
       // Fallback: create a simple suggestion
       suggestion = {
         type: suggestionType,
@@ -1,18 +1,21 @@
-import type { NextApiRequest, NextApiResponse } from 'next';
+import type { NextApiResponse } from 'next';
 import { connectToWingmanDB } from '../../utils/databaseConnections';
 import User from '../../models/User';
+import { requireAuth, AuthenticatedRequest } from '../../middleware/auth';
 
-export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+export default async function handler(req: AuthenticatedRequest, res: NextApiResponse) {
   if (req.method !== 'POST') {
     return res.status(405).json({ message: 'Method not allowed' });
   }
 
   try {
-    const { username, action, gameName, listType, notes } = req.body;
-
-    if (!username) {
-      return res.status(400).json({ message: 'Username is required' });
+    const authResult = await requireAuth(req, res);
+    if (!authResult.authenticated || !authResult.username) {
+      return res.status(401).json({ message: 'Authentication required' });
     }
+    const username = authResult.username;
+
+    const { action, gameName, listType, notes } = req.body;
 
     if (!action || !['add', 'remove', 'move'].includes(action)) {
       return res.status(400).json({ message: 'Valid action is required (add, remove, move)' });
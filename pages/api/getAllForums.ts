@@ -1,35 +1,24 @@
-import type { NextApiRequest, NextApiResponse } from 'next';
+import type { NextApiResponse } from 'next';
 import connectToMongoDB from '../../utils/mongodb';
 import Forum from '../../models/Forum';
-import { validateUserAuthentication } from '../../utils/validation';
 import { normalizeForumCategory } from '../../utils/forumCategory';
 import { getEffectiveForumStatus } from '../../utils/forumStatus';
+import { optionalAuth, AuthenticatedRequest } from '../../middleware/auth';
 
 /** Escape special regex characters in user input to avoid ReDoS and injection */
 function escapeRegex(str: string): string {
   return str.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
 }
 
-export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+export default async function handler(req: AuthenticatedRequest, res: NextApiResponse) {
   if (req.method !== 'GET') {
     return res.status(405).json({ error: 'Method not allowed' });
   }
 
   try {
     await connectToMongoDB();
-    // Use test user for local development if user-id is not provided
-    let username = req.headers['username'] as string;
-    if (!username) {
-      username = 'test-user';
-    }
-
-    // Validate user authentication only if not test user
-    if (username !== 'test-user') {
-      const userAuthErrors = validateUserAuthentication(username);
-      if (userAuthErrors.length > 0) {
-        return res.status(401).json({ error: userAuthErrors[0] });
-      }
-    }
+    // Signed-out visitors only see public forums
+    const { username } = await optionalAuth(req, res);
 
     // Get pagination parameters
     const page = parseInt(req.query.page as string) || 1;
@@ -43,10 +32,9 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
 
     // Build query conditions: list forums that are active or inactive (exclude archived)
     const baseConditions: Record<string, any> = {
-      $or: [
-        { isPrivate: false },
-        { allowedUsers: username }
-      ],
+      $or: username
+        ? [{ isPrivate: false }, { allowedUsers: username }]
+        : [{ isPrivate: false }],
       'metadata.status': { $in: ['active', 'inactive'] }
     };
 
@@ -1,21 +1,17 @@
-import type { NextApiRequest, NextApiResponse } from 'next';
+import type { NextApiResponse } from 'next';
 import connectToMongoDB from '../../utils/mongodb';
 import Question from '../../models/Question';
 import { logger } from '../../utils/logger';
+import { requireAuth, AuthenticatedRequest } from '../../middleware/auth';
+import { SharedCache } from '../../utils/sharedStore';
 
 // Constants for pagination and caching
 const DEFAULT_PAGE_SIZE = 20;
 const MAX_PAGE_SIZE = 100;
 const CACHE_TTL = 60 * 1000; // 1 minute in milliseconds
 
-// Cache interface
-interface CacheEntry {
-  data: any[];
-  timestamp: number;
-}
-
-// In-memory cache (consider using Redis for production)
-export const conversationCache = new Map<string, CacheEntry>();
+// First page cache, shared between instances (Redis when configured) so clearing it applies everywhere
+export const conversationCache = new SharedCache<any[]>('conversations', CACHE_TTL);
 
 // Helper function to validate and parse query parameters
 function parseQueryParams(query: any) {
@@ -30,40 +26,32 @@ function parseQueryParams(query: any) {
 }
 
 // Helper function to check cache
-function getCachedData(username: string): any[] | null {
-  const cached = conversationCache.get(username);
-  if (cached && Date.now() - cached.timestamp < CACHE_TTL) {
-    return cached.data;
-  }
-  return null;
+function getCachedData(username: string): Promise<any[] | null> {
+  return conversationCache.get(username);
 }
 
 // Helper function to update cache
-function updateCache(username: string, data: any[]): void {
-  conversationCache.set(username, {
-    data,
-    timestamp: Date.now()
-  });
+function updateCache(username: string, data: any[]): Promise<void> {
+  return conversationCache.set(username, data);
 }
 
 // Helper function to clear cache for a user
-export function clearUserCache(username: string): void {
-  conversationCache.delete(username);
+export function clearUserCache(username: string): Promise<void> {
+  return conversationCache.delete(username);
 }
 
 // get conversation
-export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+export default async function handler(req: AuthenticatedRequest, res: NextApiResponse) {
   // Only allow GET requests
   if (req.method !== 'GET') {
     return res.status(405).json({ error: 'Method not allowed' });
   }
 
-  const { username } = req.query;
-
-  // Validate username
-  if (!username || typeof username !== 'string') {
-    return res.status(400).json({ error: 'Invalid username parameter' });
+  const authResult = await requireAuth(req, res);
+  if (!authResult.authenticated || !authResult.username) {
+    return res.status(401).json({ error: 'Authentication required' });
   }
+  const username = authResult.username;
 
   try {
     // Parse query parameters
@@ -77,7 +65,7 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
 
     // For page 1, check cache first
     if (page === 1) {
-      const cachedData = getCachedData(username);
+      const cachedData = await getCachedData(username);
       if (cachedData) {
         logger.info('Cache hit for conversations', { username });
         return res.status(200).json({
@@ -101,10 +89,10 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
       conversations = await Question.find({ username })
         .sort({ timestamp: -1 })
         .lean()
-        .select('question response timestamp detectedGame detectedGenre questionCategory difficultyHint interactionType imageUrl');
+        .select('question response timestamp detectedGame detectedGenre questionCategory difficultyHint interactionType imageUrl threadId');
       
       // Update cache with full dataset
-      updateCache(username, conversations);
+      await updateCache(username, conversations);
       
       // Return only the first page
       conversations = conversations.slice(0, pageSize);
@@ -116,7 +104,7 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
         .skip(skip)
         .limit(pageSize)
         .lean()
-        .select('question response timestamp detectedGame detectedGenre questionCategory difficultyHint interactionType imageUrl');
+        .select('question response timestamp detectedGame detectedGenre questionCategory difficultyHint interactionType imageUrl threadId');
     }
 
     // Log success
@@ -153,19 +141,19 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
 }
 
 // Optional: Add a POST endpoint to clear cache
-export async function clearCache(req: NextApiRequest, res: NextApiResponse) {
+export async function clearCache(req: AuthenticatedRequest, res: NextApiResponse) {
   if (req.method !== 'POST') {
     return res.status(405).json({ error: 'Method not allowed' });
   }
 
-  const { username } = req.query;
-
-  if (!username || typeof username !== 'string') {
-    return res.status(400).json({ error: 'Invalid username parameter' });
+  const authResult = await requireAuth(req, res);
+  if (!authResult.authenticated || !authResult.username) {
+    return res.status(401).json({ error: 'Authentication required' });
   }
+  const username = authResult.username;
 
   try {
-    clearUserCache(username);
+    await clearUserCache(username);
     logger.info('Cache cleared for user', { username });
     res.status(200).json({ message: 'Cache cleared successfully' });
   } catch (error: any) {
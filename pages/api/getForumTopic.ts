@@ -1,14 +1,22 @@
-import { NextApiRequest, NextApiResponse } from 'next';
+import { NextApiResponse } from 'next';
 import connectToMongoDB from '../../utils/mongodb';
 import Forum from '../../models/Forum';
 import { getEffectiveForumStatus } from '../../utils/forumStatus';
+import { getForumPostsPage, getPinnedPosts } from '../../utils/forumPosts';
+import { optionalAuth, AuthenticatedRequest } from '../../middleware/auth';
 
-export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+/**
+ * GET /api/getForumTopic?forumId=...
+ * Private forums are only returned to signed-in members.
+ * Returns the forum with the first page of its posts (oldest first).
+ * Later pages come from /api/forumPosts using postsPagination.nextCursor.
+ */
+export default async function handler(req: AuthenticatedRequest, res: NextApiResponse) {
   if (req.method !== 'GET') {
     return res.status(405).json({ error: 'Method not allowed' });
   }
 
-  const { forumId, username, incrementView } = req.query;
+  const { forumId, incrementView, limit } = req.query;
 
   if (!forumId) {
     return res.status(400).json({ error: 'Forum ID is required' });
@@ -16,11 +24,12 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
 
   try {
     await connectToMongoDB();
+    const { username } = await optionalAuth(req, res);
     
     // Log request for debugging in production
     console.log('getForumTopic request:', {
       forumId: req.query.forumId,
-      username: req.query.username,
+      username,
       timestamp: new Date().toISOString()
     });
     
@@ -36,7 +45,7 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
       title: forum.title,
       isPrivate: forum.isPrivate,
       hasMetadata: !!forum.metadata,
-      postsCount: Array.isArray(forum.posts) ? forum.posts.length : 'not array'
+      totalPosts: forum.metadata?.totalPosts
     });
 
     // Ensure metadata exists and has all required fields
@@ -69,7 +78,7 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
       if (!forum.allowedUsers || !Array.isArray(forum.allowedUsers)) {
         forum.allowedUsers = [];
       }
-      if (!forum.allowedUsers.includes(username as string)) {
+      if (!username || !forum.allowedUsers.includes(username)) {
         return res.status(403).json({ error: 'Access denied to private forum' });
       }
     }
@@ -87,29 +96,13 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
       }
 
       // Only increment if this is the user's first view
-      if (!forum.metadata.viewedBy.includes(username as string)) {
+      if (!forum.metadata.viewedBy.includes(username)) {
         forum.metadata.viewCount += 1;
-        forum.metadata.viewedBy.push(username as string);
+        forum.metadata.viewedBy.push(username);
         
         // Wrap save in try-catch - if it fails, continue anyway
         try {
-          // Before saving, ensure all posts have required fields
-          // Some old posts might have createdBy but not username
-          if (Array.isArray(forum.posts)) {
-            forum.posts.forEach((post: any, index: number) => {
-              // If post has createdBy but no username, use createdBy as username
-              if (!post.username && post.createdBy) {
-                post.username = post.createdBy;
-              }
-              // If post has neither, set a default (shouldn't happen, but be safe)
-              if (!post.username && !post.createdBy) {
-                post.username = 'Unknown';
-              }
-            });
-          }
-          
           // Use updateOne instead of save() to avoid full document validation
-          // This is safer when we're only updating metadata, not posts
           await Forum.updateOne(
             { _id: forum._id },
             { 
@@ -124,7 +117,7 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
             error: saveError instanceof Error ? saveError.message : String(saveError),
             stack: saveError instanceof Error ? saveError.stack : undefined,
             forumId: req.query.forumId,
-            username: req.query.username
+            username
           });
           // Continue execution even if save fails - the view count increment is not critical
         }
@@ -136,11 +129,12 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
       forum.isPrivate = false;
     }
     
-    // Ensure posts is an array
-    if (!Array.isArray(forum.posts)) {
-      forum.posts = [];
-    }
-    
+    const postsPage = await getForumPostsPage(forum.forumId, {
+      limit: limit ? parseInt(limit as string, 10) : undefined
+    });
+    const postsPagination = { nextCursor: postsPage.nextCursor, hasMore: postsPage.hasMore };
+    const pinnedPosts = await getPinnedPosts(forum.forumId);
+
     // Ensure required fields exist before serialization
     if (!forum.title) {
       forum.title = 'Untitled Forum';
@@ -175,23 +169,14 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
         gameTitle: String(forumObject.gameTitle || ''),
         category: String(forumObject.category || ''),
         isPrivate: Boolean(forumObject.isPrivate),
+        isLocked: Boolean(forumObject.isLocked),
         allowedUsers: Array.isArray(forumObject.allowedUsers) ? forumObject.allowedUsers : [],
         createdBy: String(forumObject.createdBy || ''),
         createdAt: forumObject.createdAt ? new Date(forumObject.createdAt).toISOString() : new Date().toISOString(),
         updatedAt: forumObject.updatedAt ? new Date(forumObject.updatedAt).toISOString() : new Date().toISOString(),
-        posts: Array.isArray(forumObject.posts) ? forumObject.posts.map((post: any) => ({
-          _id: post._id?.toString(),
-          username: String(post.username || ''),
-          message: String(post.message || ''),
-          timestamp: post.timestamp ? new Date(post.timestamp).toISOString() : new Date().toISOString(),
-          createdBy: String(post.createdBy || ''),
-          metadata: post.metadata || {
-            edited: false,
-            likes: 0,
-            likedBy: [],
-            status: 'active'
-          }
-        })) : [],
+        posts: postsPage.posts,
+        postsPagination,
+        pinnedPosts,
         metadata: {
           totalPosts: Number(forumObject.metadata?.totalPosts || 0),
           lastActivityAt: forumObject.metadata?.lastActivityAt ? new Date(forumObject.metadata.lastActivityAt).toISOString() : new Date().toISOString(),
@@ -217,7 +202,6 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
           hasTitle: !!forum.title,
           hasGameTitle: !!forum.gameTitle,
           hasMetadata: !!forum.metadata,
-          postsCount: Array.isArray(forum.posts) ? forum.posts.length : 'not array',
           isPrivate: forum.isPrivate
         }
       });
@@ -230,11 +214,14 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
         gameTitle: String(forum.gameTitle || 'Unknown Game'),
         category: String(forum.category || 'General'),
         isPrivate: Boolean(forum.isPrivate),
+        isLocked: Boolean(forum.isLocked),
         allowedUsers: Array.isArray(forum.allowedUsers) ? forum.allowedUsers : [],
         createdBy: String(forum.createdBy || 'Unknown'),
         createdAt: forum.createdAt ? new Date(forum.createdAt).toISOString() : new Date().toISOString(),
         updatedAt: forum.updatedAt ? new Date(forum.updatedAt).toISOString() : new Date().toISOString(),
-        posts: [],
+        posts: postsPage.posts,
+        postsPagination,
+        pinnedPosts,
         metadata: {
           totalPosts: 0,
           lastActivityAt: new Date().toISOString(),
@@ -251,7 +238,7 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
       error: error instanceof Error ? error.message : String(error),
       stack: error instanceof Error ? error.stack : undefined,
       forumId: req.query.forumId,
-      username: req.query.username,
+      username: req.username,
       timestamp: new Date().toISOString()
     });
     return res.status(500).json({ 
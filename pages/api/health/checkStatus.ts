@@ -1,10 +1,11 @@
-import type { NextApiRequest, NextApiResponse } from 'next';
+import type { NextApiResponse } from 'next';
 import connectToMongoDB from '../../../utils/mongodb';
 import User from '../../../models/User';
 import { HealthStatusResponse } from '../../../types';
+import { requireAuth, AuthenticatedRequest } from '../../../middleware/auth';
 
 export default async function handler(
-  req: NextApiRequest,
+  req: AuthenticatedRequest,
   res: NextApiResponse<HealthStatusResponse>
 ) {
   if (req.method !== 'POST') {
@@ -18,17 +19,17 @@ export default async function handler(
   }
 
   try {
-    const { username } = req.body;
-
-    if (!username) {
-      return res.status(400).json({
+    const authResult = await requireAuth(req, res);
+    if (!authResult.authenticated || !authResult.username) {
+      return res.status(401).json({
         shouldShowBreak: false,
         timeSinceLastBreak: 0,
         breakCount: 0,
         showReminder: false,
-        error: 'Username is required'
+        error: 'Authentication required'
       });
     }
+    const username = authResult.username;
 
     // Connect to database
     await connectToMongoDB();
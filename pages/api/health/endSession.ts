@@ -1,18 +1,25 @@
-import type { NextApiRequest, NextApiResponse } from 'next';
+import type { NextApiResponse } from 'next';
 import connectToMongoDB from '../../../utils/mongodb';
 import User from '../../../models/User';
+import { requireAuth, AuthenticatedRequest } from '../../../middleware/auth';
 
-export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+export default async function handler(req: AuthenticatedRequest, res: NextApiResponse) {
   if (req.method !== 'POST') {
     return res.status(405).json({ error: 'Method not allowed' });
   }
 
   try {
-    const { username, sessionEndTime, sessionDuration } = req.body;
+    const authResult = await requireAuth(req, res);
+    if (!authResult.authenticated || !authResult.username) {
+      return res.status(401).json({ error: 'Authentication required' });
+    }
+    const username = authResult.username;
+
+    const { sessionEndTime, sessionDuration } = req.body;
 
-    if (!username || !sessionEndTime) {
+    if (!sessionEndTime) {
       return res.status(400).json({ 
-        error: 'Username and sessionEndTime are required' 
+        error: 'sessionEndTime is required' 
       });
     }
 
@@ -1,6 +1,7 @@
-import type { NextApiRequest, NextApiResponse } from 'next';
+import type { NextApiResponse } from 'next';
 import connectToMongoDB from '../../../utils/mongodb';
 import User from '../../../models/User';
+import { requireAuth, AuthenticatedRequest } from '../../../middleware/auth';
 
 interface TimerState {
   remainingSeconds: number;
@@ -9,7 +10,7 @@ interface TimerState {
 }
 
 export default async function handler(
-  req: NextApiRequest,
+  req: AuthenticatedRequest,
   res: NextApiResponse<{ 
     timerState: TimerState | null; 
     error?: string 
@@ -23,14 +24,14 @@ export default async function handler(
   }
 
   try {
-    const { username } = req.body;
-
-    if (!username) {
-      return res.status(400).json({ 
+    const authResult = await requireAuth(req, res);
+    if (!authResult.authenticated || !authResult.username) {
+      return res.status(401).json({ 
         timerState: null,
-        error: 'Username is required' 
+        error: 'Authentication required' 
       });
     }
+    const username = authResult.username;
 
     // Connect to database
     await connectToMongoDB();
@@ -1,10 +1,11 @@
-import type { NextApiRequest, NextApiResponse } from 'next';
+import type { NextApiResponse } from 'next';
 import connectToMongoDB from '../../../utils/mongodb';
 import User from '../../../models/User';
 import { SaveTimerStateRequest } from '../../../types';
+import { requireAuth, AuthenticatedRequest } from '../../../middleware/auth';
 
 export default async function handler(
-  req: NextApiRequest,
+  req: AuthenticatedRequest,
   res: NextApiResponse<{ success: boolean; error?: string }>
 ) {
   if (req.method !== 'POST') {
@@ -15,12 +16,21 @@ export default async function handler(
   }
 
   try {
-    const { username, remainingSeconds, breakIntervalMinutes }: SaveTimerStateRequest = req.body;
+    const authResult = await requireAuth(req, res);
+    if (!authResult.authenticated || !authResult.username) {
+      return res.status(401).json({
+        success: false,
+        error: 'Authentication required'
+      });
+    }
+    const username = authResult.username;
+
+    const { remainingSeconds, breakIntervalMinutes }: SaveTimerStateRequest = req.body;
 
-    if (!username || remainingSeconds === undefined) {
+    if (remainingSeconds === undefined) {
       return res.status(400).json({ 
         success: false,
-        error: 'Username and remainingSeconds are required' 
+        error: 'remainingSeconds is required' 
       });
     }
 
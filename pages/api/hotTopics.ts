@@ -1,14 +1,16 @@
-import type { NextApiRequest, NextApiResponse } from "next";
+import type { NextApiResponse } from "next";
 import connectToMongoDB from "../../utils/mongodb";
 import Forum from "../../models/Forum";
+import ForumPost from "../../models/ForumPost";
 import { HotTopicSummary } from "../../types";
+import { optionalAuth, AuthenticatedRequest } from "../../middleware/auth";
 
 const TRENDING_LIMIT = 3;
 const NEW_THIS_WEEK_LIMIT = 5;
 const ONE_WEEK_MS = 7 * 24 * 60 * 60 * 1000;
 
 export default async function handler(
-  req: NextApiRequest,
+  req: AuthenticatedRequest,
   res: NextApiResponse
 ) {
   if (req.method !== "GET") {
@@ -18,13 +20,15 @@ export default async function handler(
   try {
     await connectToMongoDB();
 
-    const username =
-      (req.query.username as string) || (req.headers.username as string) || "test-user";
+    // Signed-out visitors only see public forums
+    const { username } = await optionalAuth(req, res);
 
     const accessConditions: Record<string, any> = {
       $and: [
         {
-          $or: [{ isPrivate: false }, { allowedUsers: username }],
+          $or: username
+            ? [{ isPrivate: false }, { allowedUsers: username }]
+            : [{ isPrivate: false }],
         },
         { "metadata.status": "active" },
       ],
@@ -41,12 +45,7 @@ export default async function handler(
           createdAt: 1,
           updatedAt: 1,
           viewCount: { $ifNull: ["$metadata.viewCount", 0] },
-          totalPosts: {
-            $ifNull: [
-              "$metadata.totalPosts",
-              { $size: { $ifNull: ["$posts", []] } },
-            ],
-          },
+          totalPosts: { $ifNull: ["$metadata.totalPosts", 0] },
           lastActivityAt: {
             $ifNull: ["$metadata.lastActivityAt", "$updatedAt"],
           },
@@ -54,11 +53,25 @@ export default async function handler(
       },
     ]);
 
+    // Count posts from the posts collection; metadata.totalPosts is only a fallback
+    const postCounts = await ForumPost.aggregate([
+      {
+        $match: {
+          forumId: { $in: forums.map((forum: any) => forum.forumId) },
+          "metadata.status": { $ne: "deleted" },
+        },
+      },
+      { $group: { _id: "$forumId", count: { $sum: 1 } } },
+    ]);
+    const postCountByForum = new Map<string, number>(
+      postCounts.map((entry: any) => [entry._id, entry.count])
+    );
+
     const now = Date.now();
 
     const withScores: HotTopicSummary[] = forums.map((forum: any) => {
       const viewCount = forum.viewCount || 0;
-      const totalPosts = forum.totalPosts || 0;
+      const totalPosts = postCountByForum.get(forum.forumId) ?? forum.totalPosts ?? 0;
       const lastActivityAt = forum.lastActivityAt
         ? new Date(forum.lastActivityAt)
         : forum.updatedAt
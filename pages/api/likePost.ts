@@ -1,47 +1,57 @@
-import type { NextApiRequest, NextApiResponse } from "next";
+import type { NextApiResponse } from "next";
+import mongoose from "mongoose";
 import connectToMongoDB from "../../utils/mongodb";
 import Forum from "../../models/Forum";
+import { notifyPostReaction } from "../../utils/notifications";
+import { togglePostLike, serializeForumPost } from "../../utils/forumPosts";
+import { requireAuth, AuthenticatedRequest } from "../../middleware/auth";
 
-export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+export default async function handler(req: AuthenticatedRequest, res: NextApiResponse) {
   if (req.method !== "POST") {
     return res.status(405).json({ error: "Method not allowed" });
   }
 
   try {
+    const authResult = await requireAuth(req, res);
+    if (!authResult.authenticated || !authResult.username) {
+      return res.status(401).json({ error: "Authentication required" });
+    }
+    const username = authResult.username;
+
     await connectToMongoDB();
-    const { forumId, postId, username } = req.body;
+    const { forumId, postId } = req.body;
 
-    if (!forumId || !postId || !username) {
+    if (!forumId || !postId) {
       return res.status(400).json({ error: "Missing required fields" });
     }
 
-    const forum = await Forum.findOne({ forumId });
+    if (!mongoose.Types.ObjectId.isValid(postId)) {
+      return res.status(400).json({ error: "Invalid post ID" });
+    }
+
+    const forum = await Forum.findOne({ forumId }).select("title").lean() as { title: string } | null;
     if (!forum) {
       return res.status(404).json({ error: "Forum not found" });
     }
 
-    const post = forum.posts.id(postId);
-    if (!post) {
+    // Atomic toggle: concurrent likes from different users can't overwrite each other
+    const result = await togglePostLike(forumId, postId, username);
+    if (!result) {
       return res.status(404).json({ error: "Post not found" });
     }
 
-    // Ensure likes is an array of usernames in post.metadata
-    if (!post.metadata.likes) post.metadata.likes = 0;
-    if (!post.metadata.likedBy) post.metadata.likedBy = [];
-
-    const userIndex = post.metadata.likedBy.indexOf(username);
-    if (userIndex === -1) {
-      // User has not liked yet, so like
-      post.metadata.likedBy.push(username);
-    } else {
-      // User has already liked, so unlike
-      post.metadata.likedBy.splice(userIndex, 1);
+    if (result.added) {
+      await notifyPostReaction({
+        recipient: result.post.username,
+        reactedBy: username,
+        forumId,
+        forumTitle: forum.title,
+        postId,
+        reaction: "like",
+      });
     }
-    post.metadata.likes = post.metadata.likedBy.length;
-
-    await forum.save();
 
-    return res.status(200).json({ post });
+    return res.status(200).json({ post: serializeForumPost(result.post), liked: result.added });
   } catch (error) {
     console.error("Error liking post:", error);
     return res.status(500).json({ error: "Failed to like post" });
@@ -0,0 +1,74 @@
+import type { NextApiResponse } from 'next';
+import connectToMongoDB from '../../../utils/mongodb';
+import Notification from '../../../models/Notification';
+import { requireAuth, AuthenticatedRequest } from '../../../middleware/auth';
+import { toNotificationData } from '../../../utils/notifications';
+
+const DEFAULT_PAGE_SIZE = 20;
+const MAX_PAGE_SIZE = 50;
+
+/**
+ * Notifications Endpoint
+ *
+ * GET /api/notifications
+ * - Lists the authenticated user's notifications, newest first
+ * - Query: page, pageSize, unreadOnly=true
+ * - Also returns the unread count so the bell badge stays in sync with the list
+ */
+export default async function handler(req: AuthenticatedRequest, res: NextApiResponse) {
+  if (req.method !== 'GET') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  try {
+    const authResult = await requireAuth(req, res);
+
+    if (!authResult.authenticated || !authResult.username) {
+      return res.status(401).json({
+        error: 'Authentication required',
+        message: 'Please sign in to view notifications',
+      });
+    }
+
+    const username = authResult.username;
+    await connectToMongoDB();
+
+    const page = Math.max(1, parseInt(req.query.page as string) || 1);
+    const pageSize = Math.min(
+      MAX_PAGE_SIZE,
+      Math.max(1, parseInt(req.query.pageSize as string) || DEFAULT_PAGE_SIZE)
+    );
+    const filter: Record<string, any> = { username };
+    if (req.query.unreadOnly === 'true') {
+      filter.isRead = false;
+    }
+
+    const [notifications, total, unreadCount] = await Promise.all([
+      Notification.find(filter)
+        .sort({ createdAt: -1 })
+        .skip((page - 1) * pageSize)
+        .limit(pageSize)
+        .lean(),
+      Notification.countDocuments(filter),
+      Notification.countDocuments({ username, isRead: false })
+    ]);
+
+    return res.status(200).json({
+      success: true,
+      notifications: notifications.map((notification: any) => toNotificationData(notification)),
+      unreadCount,
+      pagination: {
+        total,
+        page,
+        pageSize,
+        totalPages: Math.ceil(total / pageSize)
+      }
+    });
+  } catch (error) {
+    console.error('Error in notifications API:', error);
+    return res.status(500).json({
+      error: 'Failed to fetch notifications',
+      message: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+}
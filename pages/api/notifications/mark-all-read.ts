@@ -0,0 +1,43 @@
+import type { NextApiResponse } from 'next';
+import connectToMongoDB from '../../../utils/mongodb';
+import Notification from '../../../models/Notification';
+import { requireAuth, AuthenticatedRequest } from '../../../middleware/auth';
+
+/**
+ * Mark All Notifications Read Endpoint
+ *
+ * POST /api/notifications/mark-all-read
+ * - Marks every unread notification of the authenticated user as read
+ */
+export default async function handler(req: AuthenticatedRequest, res: NextApiResponse) {
+  if (req.method !== 'POST') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  try {
+    const authResult = await requireAuth(req, res);
+
+    if (!authResult.authenticated || !authResult.username) {
+      return res.status(401).json({ error: 'Authentication required' });
+    }
+
+    await connectToMongoDB();
+
+    const result = await Notification.updateMany(
+      { username: authResult.username, isRead: false },
+      { $set: { isRead: true, readAt: new Date() } }
+    );
+
+    return res.status(200).json({
+      success: true,
+      updated: result.modifiedCount,
+      unreadCount: 0
+    });
+  } catch (error) {
+    console.error('Error marking all notifications read:', error);
+    return res.status(500).json({
+      error: 'Failed to mark notifications as read',
+      message: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+}
@@ -0,0 +1,65 @@
+import type { NextApiResponse } from 'next';
+import mongoose from 'mongoose';
+import connectToMongoDB from '../../../utils/mongodb';
+import Notification from '../../../models/Notification';
+import { requireAuth, AuthenticatedRequest } from '../../../middleware/auth';
+
+const MAX_IDS_PER_REQUEST = 100;
+
+/**
+ * Mark Notifications Read Endpoint
+ *
+ * POST /api/notifications/mark-read
+ * - Marks the given notifications as read
+ * - Body: { notificationIds: string[] }
+ *
+ * Users can only mark their own notifications; other IDs are ignored
+ */
+export default async function handler(req: AuthenticatedRequest, res: NextApiResponse) {
+  if (req.method !== 'POST') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  try {
+    const authResult = await requireAuth(req, res);
+
+    if (!authResult.authenticated || !authResult.username) {
+      return res.status(401).json({ error: 'Authentication required' });
+    }
+
+    const { notificationIds } = req.body || {};
+
+    if (!Array.isArray(notificationIds) || notificationIds.length === 0) {
+      return res.status(400).json({ error: 'notificationIds must be a non-empty array' });
+    }
+
+    if (notificationIds.length > MAX_IDS_PER_REQUEST) {
+      return res.status(400).json({ error: `At most ${MAX_IDS_PER_REQUEST} notifications can be marked at once` });
+    }
+
+    if (!notificationIds.every((id: unknown) => typeof id === 'string' && mongoose.Types.ObjectId.isValid(id))) {
+      return res.status(400).json({ error: 'Invalid notification ID format' });
+    }
+
+    await connectToMongoDB();
+
+    const username = authResult.username;
+    const result = await Notification.updateMany(
+      { _id: { $in: notificationIds }, username, isRead: false },
+      { $set: { isRead: true, readAt: new Date() } }
+    );
+    const unreadCount = await Notification.countDocuments({ username, isRead: false });
+
+    return res.status(200).json({
+      success: true,
+      updated: result.modifiedCount,
+      unreadCount
+    });
+  } catch (error) {
+    console.error('Error marking notifications read:', error);
+    return res.status(500).json({
+      error: 'Failed to mark notifications as read',
+      message: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+}
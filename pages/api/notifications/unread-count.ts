@@ -0,0 +1,35 @@
+import type { NextApiResponse } from 'next';
+import connectToMongoDB from '../../../utils/mongodb';
+import Notification from '../../../models/Notification';
+import { requireAuth, AuthenticatedRequest } from '../../../middleware/auth';
+
+/**
+ * Unread Notification Count Endpoint
+ *
+ * GET /api/notifications/unread-count
+ * - Returns the number of unread notifications for the bell badge (polled by the sidebar)
+ */
+export default async function handler(req: AuthenticatedRequest, res: NextApiResponse) {
+  if (req.method !== 'GET') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  try {
+    const authResult = await requireAuth(req, res);
+
+    if (!authResult.authenticated || !authResult.username) {
+      return res.status(401).json({ error: 'Authentication required' });
+    }
+
+    await connectToMongoDB();
+    const unreadCount = await Notification.countDocuments({ username: authResult.username, isRead: false });
+
+    return res.status(200).json({ success: true, unreadCount });
+  } catch (error) {
+    console.error('Error fetching unread notification count:', error);
+    return res.status(500).json({
+      error: 'Failed to fetch unread notification count',
+      message: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+}
@@ -1,12 +1,16 @@
-import type { NextApiRequest, NextApiResponse } from "next";
+import type { NextApiResponse } from "next";
+import mongoose from "mongoose";
 import connectToMongoDB from "../../utils/mongodb";
 import Forum from "../../models/Forum";
+import { notifyPostReaction } from "../../utils/notifications";
+import { togglePostReaction, serializeForumPost } from "../../utils/forumPosts";
+import { requireAuth, AuthenticatedRequest } from "../../middleware/auth";
 
 // Valid reaction types
 const VALID_REACTIONS = ["🔥", "💡", "❓", "❤️"];
 
 export default async function handler(
-  req: NextApiRequest,
+  req: AuthenticatedRequest,
   res: NextApiResponse
 ) {
   if (req.method !== "POST") {
@@ -14,10 +18,16 @@ export default async function handler(
   }
 
   try {
+    const authResult = await requireAuth(req, res);
+    if (!authResult.authenticated || !authResult.username) {
+      return res.status(401).json({ error: "Authentication required" });
+    }
+    const username = authResult.username;
+
     await connectToMongoDB();
-    const { forumId, postId, username, reactionType } = req.body;
+    const { forumId, postId, reactionType } = req.body;
 
-    if (!forumId || !postId || !username || !reactionType) {
+    if (!forumId || !postId || !reactionType) {
       return res.status(400).json({ error: "Missing required fields" });
     }
 
@@ -28,77 +38,37 @@ export default async function handler(
       });
     }
 
-    const forum = await Forum.findOne({ forumId });
+    if (!mongoose.Types.ObjectId.isValid(postId)) {
+      return res.status(400).json({ error: "Invalid post ID" });
+    }
+
+    const forum = await Forum.findOne({ forumId }).select("title").lean() as { title: string } | null;
     if (!forum) {
       return res.status(404).json({ error: "Forum not found" });
     }
 
-    const post = forum.posts.id(postId);
-    if (!post) {
+    // Atomic toggle: add if not present, remove if present
+    const result = await togglePostReaction(forumId, postId, username, reactionType);
+    if (!result) {
       return res.status(404).json({ error: "Post not found" });
     }
 
-    // Initialize reactions if it doesn't exist
-    if (!post.metadata.reactions) {
-      post.metadata.reactions = {};
-    }
-
-    // Ensure the reaction type array exists
-    if (!post.metadata.reactions[reactionType]) {
-      post.metadata.reactions[reactionType] = [];
-    }
-
-    // Toggle reaction: add if not present, remove if present
-    const reactionArray = post.metadata.reactions[reactionType] as string[];
-    const userIndex = reactionArray.indexOf(username);
-
-    let updatedReactions: any;
-    if (userIndex === -1) {
-      // User has not reacted with this emoji yet, so add it
-      reactionArray.push(username);
-      updatedReactions = { ...post.metadata.reactions };
-      updatedReactions[reactionType] = [...reactionArray];
-    } else {
-      // User has already reacted, so remove it
-      reactionArray.splice(userIndex, 1);
-      updatedReactions = { ...post.metadata.reactions };
-      if (reactionArray.length === 0) {
-        // Remove the reaction type if array is empty
-        delete updatedReactions[reactionType];
-      } else {
-        updatedReactions[reactionType] = [...reactionArray];
-      }
-    }
-
-    // Use findOneAndUpdate with positional operator to update only the specific post
-    // This avoids validating all posts in the array
-    const updatedForum = await Forum.findOneAndUpdate(
-      {
+    // Only adding a reaction notifies the author; removing one doesn't
+    if (result.added) {
+      await notifyPostReaction({
+        recipient: result.post.username,
+        reactedBy: username,
         forumId,
-        "posts._id": postId,
-      },
-      {
-        $set: {
-          "posts.$.metadata.reactions": updatedReactions,
-        },
-      },
-      {
-        new: true, // Return the updated document
-        runValidators: false, // Skip validation to avoid issues with other posts
-      }
-    );
-
-    if (!updatedForum) {
-      return res.status(404).json({ error: "Forum or post not found after update" });
+        forumTitle: forum.title,
+        postId,
+        reaction: reactionType,
+      });
     }
 
-    // Get the updated post for the response
-    const updatedPost = updatedForum.posts.id(postId);
-
+    const post = serializeForumPost(result.post);
     return res.status(200).json({
-      forum: updatedForum,
-      post: updatedPost,
-      reactions: updatedPost?.metadata?.reactions || {},
+      post,
+      reactions: post.metadata.reactions,
     });
   } catch (error) {
     console.error("Error reacting to post:", error);
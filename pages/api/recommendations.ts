@@ -3,30 +3,30 @@
  * Phase 3 Step 3: Fetch recommendations for a user
  * 
  * Usage:
- *   GET /api/recommendations?username=
- *   GET /api/recommendations?username=username&question=How do I beat the final boss?
+ *   GET /api/recommendations (signed-in user)
+ *   GET /api/recommendations?question=How do I beat the final boss?
  */
 
-import type { NextApiRequest, NextApiResponse } from 'next';
+import type { NextApiResponse } from 'next';
 import connectToMongoDB from '../../utils/mongodb';
 import { generatePersonalizedRecommendations } from '../../utils/generateRecommendations';
+import { requireAuth, AuthenticatedRequest } from '../../middleware/auth';
 
 export default async function handler(
-  req: NextApiRequest,
+  req: AuthenticatedRequest,
   res: NextApiResponse
 ) {
   if (req.method !== 'GET') {
     return res.status(405).json({ error: 'Method not allowed' });
   }
 
-  const { username, question, forceShow } = req.query;
-
-  if (!username || typeof username !== 'string') {
-    return res.status(400).json({ 
-      error: 'Username parameter required',
-      usage: 'GET /api/recommendations?username=TestUser1&question=How do I beat the final boss?&forceShow=true'
-    });
+  const authResult = await requireAuth(req, res);
+  if (!authResult.authenticated || !authResult.username) {
+    return res.status(401).json({ error: 'Authentication required' });
   }
+  const username = authResult.username;
+
+  const { question, forceShow } = req.query;
 
   try {
     await connectToMongoDB();
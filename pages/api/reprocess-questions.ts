@@ -20,8 +20,10 @@
 
 import type { NextApiRequest, NextApiResponse } from 'next';
 import { reprocessQuestions } from '../../utils/reprocessQuestions';
+import { withPermission } from '../../middleware/auth';
+import { ADMIN_ACCESS_LEVELS } from '../../utils/adminAccess';
 
-export default async function handler(
+async function handler(
   req: NextApiRequest,
   res: NextApiResponse
 ) {
@@ -83,3 +85,4 @@ export default async function handler(
   }
 }
 
+export default withPermission(ADMIN_ACCESS_LEVELS.MANAGE_USERS, handler);
@@ -0,0 +1,91 @@
+import type { NextApiResponse } from 'next';
+import connectToMongoDB from '../../utils/mongodb';
+import { requireAuth, AuthenticatedRequest } from '../../middleware/auth';
+import {
+  search,
+  SEARCH_RESULT_TYPES,
+  MIN_QUERY_LENGTH,
+  MAX_QUERY_LENGTH,
+  MAX_SEARCH_LIMIT,
+  DEFAULT_SEARCH_LIMIT,
+} from '../../utils/search';
+import { SearchResultType } from '../../types';
+
+/**
+ * Search Endpoint
+ *
+ * GET /api/search?q=...
+ * - Searches forum titles, forum post messages, and (when signed in) the user's own
+ *   Q&A history and saved guides; results are merged by relevance
+ * - Query: type (comma-separated: forum,post,question,guide), game, category,
+ *   from / to (ISO dates), limit
+ * - Private forums and their posts only appear for users in the forum's allowedUsers
+ */
+export default async function handler(req: AuthenticatedRequest, res: NextApiResponse) {
+  if (req.method !== 'GET') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  const query = typeof req.query.q === 'string' ? req.query.q.trim() : '';
+  if (query.length < MIN_QUERY_LENGTH || query.length > MAX_QUERY_LENGTH) {
+    return res.status(400).json({
+      error: 'Invalid query',
+      message: `Search query must be between ${MIN_QUERY_LENGTH} and ${MAX_QUERY_LENGTH} characters`,
+    });
+  }
+
+  const typeParam = typeof req.query.type === 'string' ? req.query.type : '';
+  const types = typeParam
+    ? (typeParam.split(',').map(type => type.trim()).filter(Boolean) as SearchResultType[])
+    : undefined;
+  if (types && types.some(type => !SEARCH_RESULT_TYPES.includes(type))) {
+    return res.status(400).json({
+      error: 'Invalid type',
+      message: `type must be one or more of: ${SEARCH_RESULT_TYPES.join(', ')}`,
+    });
+  }
+
+  const from = req.query.from ? new Date(req.query.from as string) : undefined;
+  const to = req.query.to ? new Date(req.query.to as string) : undefined;
+  if ((from && isNaN(from.getTime())) || (to && isNaN(to.getTime()))) {
+    return res.status(400).json({ error: 'Invalid date', message: 'from and to must be valid dates' });
+  }
+
+  try {
+    // Signing in is optional: without it only public forums and posts are searched
+    const authResult = await requireAuth(req, res);
+    const username = authResult.authenticated && authResult.username ? authResult.username : null;
+
+    await connectToMongoDB();
+
+    const limit = Math.min(
+      MAX_SEARCH_LIMIT,
+      Math.max(1, parseInt(req.query.limit as string) || DEFAULT_SEARCH_LIMIT)
+    );
+
+    const { results, counts } = await search({
+      query,
+      username,
+      types,
+      gameTitle: typeof req.query.game === 'string' && req.query.game.trim() ? req.query.game.trim() : undefined,
+      category: typeof req.query.category === 'string' && req.query.category.trim() ? req.query.category.trim() : undefined,
+      from,
+      to,
+      limit,
+    });
+
+    return res.status(200).json({
+      success: true,
+      query,
+      results,
+      counts,
+      signedIn: Boolean(username),
+    });
+  } catch (error) {
+    console.error('Error in search API:', error);
+    return res.status(500).json({
+      error: 'Search failed',
+      message: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+}
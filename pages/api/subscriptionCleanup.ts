@@ -1,12 +1,21 @@
-import type { NextApiRequest, NextApiResponse } from 'next';
+import type { NextApiResponse } from 'next';
 import SubscriptionCleanupService from '../../utils/subscriptionCleanupService';
+import { requireAdminAccess } from '../../utils/adminAccess';
+import { requireAuth, AuthenticatedRequest } from '../../middleware/auth';
 
-export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+export default async function handler(req: AuthenticatedRequest, res: NextApiResponse) {
   try {
+    const authResult = await requireAuth(req, res);
+    if (!authResult.authenticated || !authResult.username) {
+      return res.status(401).json({ success: false, message: 'Authentication required' });
+    }
+    await requireAdminAccess(authResult.username);
+
     const service = SubscriptionCleanupService.getInstance();
 
     switch (req.method) {
       case 'POST':
+        // username is the account to clean up, not the caller
         const { action, username } = req.body;
 
         if (action === 'forceCleanup' && username) {
@@ -47,7 +56,10 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
         });
     }
 
-  } catch (error) {
+  } catch (error: any) {
+    if (error?.statusCode) {
+      return res.status(error.statusCode).json({ success: false, message: error.message });
+    }
     console.error('Error in subscription cleanup API:', error);
     return res.status(500).json({
       success: false,
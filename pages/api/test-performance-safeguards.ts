@@ -1,6 +1,8 @@
 import type { NextApiRequest, NextApiResponse } from 'next';
 import connectToMongoDB from '../../utils/mongodb';
 import { analyzeGameplayPatterns, shouldRunAnalysis } from '../../utils/aiHelper';
+import { withPermission } from '../../middleware/auth';
+import { ADMIN_ACCESS_LEVELS } from '../../utils/adminAccess';
 
 /**
  * Test endpoint for Performance Safeguards (Phase 4)
@@ -15,7 +17,7 @@ import { analyzeGameplayPatterns, shouldRunAnalysis } from '../../utils/aiHelper
  * GET /api/test-performance-safeguards?username=testuser&testType=rate-limit
  * GET /api/test-performance-safeguards?username=testuser&testType=all
  */
-export default async function handler(
+async function handler(
   req: NextApiRequest,
   res: NextApiResponse
 ) {
@@ -183,3 +185,5 @@ export default async function handler(
     });
   }
 }
+
+export default withPermission(ADMIN_ACCESS_LEVELS.MANAGE_USERS, handler);
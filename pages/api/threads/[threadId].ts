@@ -0,0 +1,92 @@
+import type { NextApiResponse } from 'next';
+import connectToMongoDB from '../../../utils/mongodb';
+import ConversationThread from '../../../models/ConversationThread';
+import Question from '../../../models/Question';
+import { requireAuth, AuthenticatedRequest } from '../../../middleware/auth';
+import { findUserThread, generateThreadTitle } from '../../../utils/conversationThreads';
+import { clearUserCache } from '../getConversation';
+
+/**
+ * Individual Conversation Thread Endpoint
+ *
+ * GET /api/threads/[threadId]
+ * - Returns the thread with its questions in chronological order
+ *
+ * PATCH /api/threads/[threadId]
+ * - Renames the thread
+ * - Body: { title: string }
+ *
+ * DELETE /api/threads/[threadId]
+ * - Deletes the thread and every question in it
+ *
+ * Users can only access their own threads
+ */
+export default async function handler(req: AuthenticatedRequest, res: NextApiResponse) {
+  if (!['GET', 'PATCH', 'DELETE'].includes(req.method || '')) {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  try {
+    const authResult = await requireAuth(req, res);
+
+    if (!authResult.authenticated || !authResult.username) {
+      return res.status(401).json({
+        error: 'Authentication required',
+        message: 'Please sign in to manage conversations',
+      });
+    }
+
+    const username = authResult.username;
+    const threadId = req.query.threadId as string;
+
+    if (!threadId) {
+      return res.status(400).json({ error: 'Thread ID required' });
+    }
+
+    await connectToMongoDB();
+
+    const thread = await findUserThread(username, threadId);
+    if (!thread) {
+      return res.status(404).json({ error: 'Thread not found' });
+    }
+
+    if (req.method === 'GET') {
+      const questions = await Question.find({ username, threadId })
+        .sort({ timestamp: 1 })
+        .select('question response timestamp detectedGame imageUrl threadId')
+        .lean();
+
+      return res.status(200).json({ success: true, thread, questions });
+    }
+
+    if (req.method === 'PATCH') {
+      const { title } = req.body || {};
+
+      if (!title || typeof title !== 'string' || !title.trim()) {
+        return res.status(400).json({ error: 'Title must be a non-empty string' });
+      }
+
+      thread.title = generateThreadTitle(title);
+      await thread.save();
+
+      return res.status(200).json({ success: true, thread });
+    }
+
+    // DELETE: remove the thread's questions first so no orphans are left if the thread delete fails
+    const { deletedCount } = await Question.deleteMany({ username, threadId });
+    await ConversationThread.deleteOne({ threadId, username });
+    await clearUserCache(username);
+
+    return res.status(200).json({
+      success: true,
+      message: 'Thread deleted successfully',
+      deletedQuestions: deletedCount
+    });
+  } catch (error) {
+    console.error('Error in thread API:', error);
+    return res.status(500).json({
+      error: 'Failed to process conversation thread',
+      message: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+}
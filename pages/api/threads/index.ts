@@ -0,0 +1,87 @@
+import type { NextApiResponse } from 'next';
+import connectToMongoDB from '../../../utils/mongodb';
+import ConversationThread from '../../../models/ConversationThread';
+import { requireAuth, AuthenticatedRequest } from '../../../middleware/auth';
+import { generateThreadTitle } from '../../../utils/conversationThreads';
+
+const DEFAULT_PAGE_SIZE = 20;
+const MAX_PAGE_SIZE = 50;
+
+/**
+ * Conversation Threads Endpoint
+ *
+ * GET /api/threads
+ * - Lists the authenticated user's threads, most recently active first
+ * - Query: page, pageSize
+ *
+ * POST /api/threads
+ * - Creates an empty thread
+ * - Body: { title?: string }
+ */
+export default async function handler(req: AuthenticatedRequest, res: NextApiResponse) {
+  if (req.method !== 'GET' && req.method !== 'POST') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  try {
+    const authResult = await requireAuth(req, res);
+
+    if (!authResult.authenticated || !authResult.username) {
+      return res.status(401).json({
+        error: 'Authentication required',
+        message: 'Please sign in to manage conversations',
+      });
+    }
+
+    const username = authResult.username;
+    await connectToMongoDB();
+
+    if (req.method === 'POST') {
+      const { title } = req.body || {};
+
+      if (title !== undefined && typeof title !== 'string') {
+        return res.status(400).json({ error: 'Title must be a string' });
+      }
+
+      const thread = await ConversationThread.create({
+        username,
+        title: generateThreadTitle(title || '')
+      });
+
+      return res.status(201).json({ success: true, thread });
+    }
+
+    const page = Math.max(1, parseInt(req.query.page as string) || 1);
+    const pageSize = Math.min(
+      MAX_PAGE_SIZE,
+      Math.max(1, parseInt(req.query.pageSize as string) || DEFAULT_PAGE_SIZE)
+    );
+
+    const [threads, total] = await Promise.all([
+      ConversationThread.find({ username })
+        .sort({ lastMessageAt: -1 })
+        .skip((page - 1) * pageSize)
+        .limit(pageSize)
+        .select('threadId title questionCount lastMessageAt createdAt')
+        .lean(),
+      ConversationThread.countDocuments({ username })
+    ]);
+
+    return res.status(200).json({
+      success: true,
+      threads,
+      pagination: {
+        total,
+        page,
+        pageSize,
+        totalPages: Math.ceil(total / pageSize)
+      }
+    });
+  } catch (error) {
+    console.error('Error in threads API:', error);
+    return res.status(500).json({
+      error: 'Failed to process conversation threads',
+      message: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+}
@@ -4,10 +4,13 @@ import connectToMongoDB from '../../../utils/mongodb';
 import TwitchBotChannel from '../../../models/TwitchBotChannel';
 import { getEngagementTracker } from '../../../utils/twitchBot';
 import { logger } from '../../../utils/logger';
+import { updateStreamCategory, updateStreamStatus } from '../../../utils/twitch/nowPlaying';
+import { getChannelGame } from '../../../utils/twitch/customCommands';
 
 /**
  * Twitch EventSub Webhook Handler
  * Handles subscription, follow, raid, and other engagement events from Twitch
+ * Also keeps each channel's "now playing" context (category, title, live status) up to date
  * 
  * EventSub Documentation: https://dev.twitch.tv/docs/eventsub
  */
@@ -19,6 +22,9 @@ const TWITCH_MESSAGE_SIGNATURE_HEADER = 'twitch-eventsub-message-signature';
 // Get webhook secret from environment
 const WEBHOOK_SECRET = process.env.TWITCH_EVENTSUB_SECRET;
 
+// Events that update the channel's "now playing" context rather than engagement analytics
+const STREAM_CONTEXT_EVENTS = ['channel.update', 'stream.online', 'stream.offline'];
+
 /**
  * Verify webhook signature
  */
@@ -52,6 +58,11 @@ async function handleEventSubNotification(
   event: any,
   channelName: string
 ): Promise<void> {
+  if (STREAM_CONTEXT_EVENTS.indexOf(subscriptionType) !== -1) {
+    await handleStreamContextEvent(subscriptionType, event, channelName);
+    return;
+  }
+
   const engagementTracker = getEngagementTracker();
   
   if (!engagementTracker) {
@@ -93,6 +104,55 @@ async function handleEventSubNotification(
   }
 }
 
+/**
+ * Handle channel.update, stream.online and stream.offline events
+ */
+async function handleStreamContextEvent(
+  subscriptionType: string,
+  event: any,
+  channelName: string
+): Promise<void> {
+  try {
+    switch (subscriptionType) {
+      case 'channel.update':
+        if (event.category_name) {
+          await updateStreamCategory(channelName, event.category_name, event.title);
+        }
+        break;
+
+      case 'stream.online': {
+        await updateStreamStatus(
+          channelName,
+          true,
+          event.started_at ? new Date(event.started_at) : undefined
+        );
+        // stream.online does not include the category, and channel.update only fires on changes
+        const category = await getChannelGame(channelName);
+        if (category) {
+          await updateStreamCategory(channelName, category);
+        }
+        break;
+      }
+
+      case 'stream.offline':
+        await updateStreamStatus(channelName, false);
+        break;
+    }
+
+    logger.info('Stream context event processed', {
+      subscriptionType,
+      channel: channelName,
+      category: event.category_name
+    });
+  } catch (error) {
+    logger.error('Error handling stream context event', {
+      subscriptionType,
+      channelName,
+      error: error instanceof Error ? error.message : String(error)
+    });
+  }
+}
+
 /**
  * Handle subscription event
  */
@@ -64,7 +64,10 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
         'channel.subscribe',
         'channel.subscription.gift',
         'channel.raid',
-        'channel.cheer'
+        'channel.cheer',
+        'channel.update',
+        'stream.online',
+        'stream.offline'
       ];
 
       logger.info('Setting up EventSub subscriptions', {
@@ -0,0 +1,226 @@
+import crypto from 'crypto';
+import { NextApiRequest, NextApiResponse } from 'next';
+import connectToMongoDB from '../../../utils/mongodb';
+import TwitchBotChannel from '../../../models/TwitchBotChannel';
+import { getSession } from '../../../utils/session';
+import { logger } from '../../../utils/logger';
+import {
+  validateAnnouncement,
+  MAX_PENDING_ANNOUNCEMENTS,
+  TwitchScheduledAnnouncement
+} from '../../../config/twitchTimers';
+
+// Sent, missed and cancelled announcements kept for the dashboard's history
+const ANNOUNCEMENT_HISTORY_LIMIT = 20;
+
+/**
+ * Scheduled Announcements API for Twitch Bot
+ * Lists, schedules and cancels one-off chat announcements
+ * All operations require authentication and verify streamer ownership
+ */
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  // Check authentication
+  const session = await getSession(req);
+  if (!session || !session.username) {
+    return res.status(401).json({
+      error: 'Unauthorized',
+      message: 'You must be logged in to manage announcements'
+    });
+  }
+
+  const username = session.username;
+
+  try {
+    switch (req.method) {
+      case 'GET':
+        return await handleListAnnouncements(req, res, username);
+
+      case 'POST':
+        return await handleScheduleAnnouncement(req, res, username);
+
+      case 'DELETE':
+        return await handleCancelAnnouncement(req, res, username);
+
+      default:
+        return res.status(405).json({ error: 'Method not allowed' });
+    }
+  } catch (error) {
+    logger.error('Error in announcements API', {
+      error: error instanceof Error ? error.message : String(error),
+      method: req.method,
+      username
+    });
+    return res.status(500).json({
+      error: 'Internal server error',
+      message: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+}
+
+/**
+ * Find a channel owned by the user
+ * Sends a 400/404 and returns null if the channel name is missing or the user does not own it
+ */
+async function findOwnedChannel(res: NextApiResponse, channelName: unknown, username: string) {
+  if (!channelName || typeof channelName !== 'string') {
+    res.status(400).json({
+      error: 'Missing or invalid channelName',
+      message: 'channelName is required and must be a string'
+    });
+    return null;
+  }
+
+  await connectToMongoDB();
+
+  const channel = await TwitchBotChannel.findOne({
+    channelName: channelName.toLowerCase().trim(),
+    streamerUsername: username
+  });
+
+  if (!channel) {
+    res.status(404).json({
+      error: 'Channel not found',
+      message: 'Channel not found or you do not have permission to manage it'
+    });
+    return null;
+  }
+
+  return channel;
+}
+
+/**
+ * List a channel's announcements, soonest first
+ */
+async function handleListAnnouncements(
+  req: NextApiRequest,
+  res: NextApiResponse,
+  username: string
+) {
+  const channel = await findOwnedChannel(res, req.query.channelName, username);
+  if (!channel) return;
+
+  const announcements: TwitchScheduledAnnouncement[] = channel.toObject().scheduledAnnouncements || [];
+  announcements.sort((a, b) => new Date(a.sendAt).getTime() - new Date(b.sendAt).getTime());
+
+  return res.status(200).json({
+    success: true,
+    channelName: channel.channelName,
+    announcements
+  });
+}
+
+/**
+ * Schedule an announcement
+ * Old sent/missed/cancelled announcements beyond the history limit are dropped. Both are atomic
+ * updates rather than a save() of the whole list, which could undo a status the bot just set.
+ */
+async function handleScheduleAnnouncement(
+  req: NextApiRequest,
+  res: NextApiResponse,
+  username: string
+) {
+  const { channelName, announcement } = req.body;
+
+  const channel = await findOwnedChannel(res, channelName, username);
+  if (!channel) return;
+
+  const validation = validateAnnouncement(announcement || {});
+  if (!validation.valid || !validation.announcement) {
+    return res.status(400).json({
+      error: 'Invalid announcement',
+      message: validation.error
+    });
+  }
+
+  const announcements: TwitchScheduledAnnouncement[] = channel.toObject().scheduledAnnouncements || [];
+  const pending = announcements.filter(existing => existing.status === 'pending');
+  if (pending.length >= MAX_PENDING_ANNOUNCEMENTS) {
+    return res.status(400).json({
+      error: 'Too many announcements',
+      message: `Channels can have at most ${MAX_PENDING_ANNOUNCEMENTS} scheduled announcements`
+    });
+  }
+
+  const expiredIds = announcements
+    .filter(existing => existing.status !== 'pending')
+    .sort((a, b) => new Date(b.sendAt).getTime() - new Date(a.sendAt).getTime())
+    .slice(ANNOUNCEMENT_HISTORY_LIMIT)
+    .map(existing => existing.id);
+  if (expiredIds.length > 0) {
+    await TwitchBotChannel.updateOne(
+      { _id: channel._id },
+      { $pull: { scheduledAnnouncements: { id: { $in: expiredIds }, status: { $ne: 'pending' } } } }
+    );
+  }
+
+  const created: TwitchScheduledAnnouncement = {
+    ...validation.announcement,
+    id: crypto.randomBytes(6).toString('hex'),
+    status: 'pending'
+  };
+  await TwitchBotChannel.updateOne(
+    { _id: channel._id },
+    { $push: { scheduledAnnouncements: created } }
+  );
+
+  logger.info('Twitch announcement scheduled', {
+    channelName: channel.channelName,
+    username,
+    announcementId: created.id,
+    sendAt: created.sendAt
+  });
+
+  return res.status(201).json({
+    success: true,
+    message: 'Announcement scheduled successfully',
+    announcement: created
+  });
+}
+
+/**
+ * Cancel a pending announcement
+ */
+async function handleCancelAnnouncement(
+  req: NextApiRequest,
+  res: NextApiResponse,
+  username: string
+) {
+  const { channelName, id } = req.query;
+
+  if (!id || typeof id !== 'string') {
+    return res.status(400).json({
+      error: 'Missing or invalid id',
+      message: 'id query parameter is required and must be a string'
+    });
+  }
+
+  const channel = await findOwnedChannel(res, channelName, username);
+  if (!channel) return;
+
+  // Conditional update so a cancel cannot race the bot posting it
+  const result = await TwitchBotChannel.updateOne(
+    {
+      _id: channel._id,
+      scheduledAnnouncements: { $elemMatch: { id, status: 'pending' } }
+    },
+    { $set: { 'scheduledAnnouncements.$.status': 'cancelled' } }
+  );
+
+  if (result.modifiedCount === 0) {
+    return res.status(404).json({
+      error: 'Announcement not found',
+      message: 'No pending announcement with this id (it may already have been sent)'
+    });
+  }
+
+  logger.info('Twitch announcement cancelled', {
+    channelName: channel.channelName,
+    username,
+    announcementId: id
+  });
+
+  return res.status(200).json({
+    success: true,
+    message: 'Announcement cancelled'
+  });
+}
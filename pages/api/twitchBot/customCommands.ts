@@ -0,0 +1,295 @@
+import { NextApiRequest, NextApiResponse } from 'next';
+import connectToMongoDB from '../../../utils/mongodb';
+import TwitchBotChannel from '../../../models/TwitchBotChannel';
+import { getSession } from '../../../utils/session';
+import { logger } from '../../../utils/logger';
+import { defaultChannelSettings } from '../../../config/twitchChannelSettings';
+import {
+  validateCustomCommand,
+  normalizeCommandName,
+  defaultCustomCommand,
+  MAX_CUSTOM_COMMANDS_PER_CHANNEL,
+  TwitchCustomCommand
+} from '../../../config/twitchCustomCommands';
+import { invalidateCustomCommands } from '../../../utils/twitch/customCommands';
+
+/**
+ * Custom Commands API for Twitch Bot
+ * Lists, creates, updates and deletes a channel's streamer-defined chat commands
+ * All operations require authentication and verify streamer ownership
+ */
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  // Check authentication
+  const session = await getSession(req);
+  if (!session || !session.username) {
+    return res.status(401).json({
+      error: 'Unauthorized',
+      message: 'You must be logged in to manage custom commands'
+    });
+  }
+
+  const username = session.username;
+
+  try {
+    switch (req.method) {
+      case 'GET':
+        return await handleListCommands(req, res, username);
+
+      case 'POST':
+        return await handleCreateCommand(req, res, username);
+
+      case 'PUT':
+      case 'PATCH':
+        return await handleUpdateCommand(req, res, username);
+
+      case 'DELETE':
+        return await handleDeleteCommand(req, res, username);
+
+      default:
+        return res.status(405).json({ error: 'Method not allowed' });
+    }
+  } catch (error) {
+    logger.error('Error in custom commands API', {
+      error: error instanceof Error ? error.message : String(error),
+      method: req.method,
+      username
+    });
+    return res.status(500).json({
+      error: 'Internal server error',
+      message: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+}
+
+/**
+ * Find a channel owned by the user
+ * Sends a 400/404 and returns null if the channel name is missing or the user does not own it
+ */
+async function findOwnedChannel(res: NextApiResponse, channelName: unknown, username: string) {
+  if (!channelName || typeof channelName !== 'string') {
+    res.status(400).json({
+      error: 'Missing or invalid channelName',
+      message: 'channelName is required and must be a string'
+    });
+    return null;
+  }
+
+  await connectToMongoDB();
+
+  const channel = await TwitchBotChannel.findOne({
+    channelName: channelName.toLowerCase().trim(),
+    streamerUsername: username
+  });
+
+  if (!channel) {
+    res.status(404).json({
+      error: 'Channel not found',
+      message: 'Channel not found or you do not have permission to manage it'
+    });
+    return null;
+  }
+
+  return channel;
+}
+
+/**
+ * List a channel's custom commands
+ */
+async function handleListCommands(
+  req: NextApiRequest,
+  res: NextApiResponse,
+  username: string
+) {
+  const channel = await findOwnedChannel(res, req.query.channelName, username);
+  if (!channel) return;
+
+  return res.status(200).json({
+    success: true,
+    channelName: channel.channelName,
+    commands: channel.customCommands || []
+  });
+}
+
+/**
+ * Create a custom command
+ */
+async function handleCreateCommand(
+  req: NextApiRequest,
+  res: NextApiResponse,
+  username: string
+) {
+  const { channelName, command } = req.body;
+
+  const channel = await findOwnedChannel(res, channelName, username);
+  if (!channel) return;
+
+  const commandPrefixes = channel.channelSettings?.commandPrefixes || defaultChannelSettings.commandPrefixes;
+  const validation = validateCustomCommand(command || {}, commandPrefixes);
+  if (!validation.valid || !validation.command) {
+    return res.status(400).json({
+      error: 'Invalid command',
+      message: validation.error
+    });
+  }
+
+  const commands: TwitchCustomCommand[] = channel.customCommands || [];
+  if (commands.some(existing => existing.name === validation.command!.name)) {
+    return res.status(409).json({
+      error: 'Command already exists',
+      message: `!${validation.command.name} already exists in this channel`
+    });
+  }
+  if (commands.length >= MAX_CUSTOM_COMMANDS_PER_CHANNEL) {
+    return res.status(400).json({
+      error: 'Too many commands',
+      message: `Channels can have at most ${MAX_CUSTOM_COMMANDS_PER_CHANNEL} custom commands`
+    });
+  }
+
+  const created: TwitchCustomCommand = {
+    ...defaultCustomCommand,
+    ...validation.command
+  };
+  channel.customCommands = [...commands, created];
+  await channel.save();
+  invalidateCustomCommands(channel.channelName);
+
+  logger.info('Custom command created', {
+    channelName: channel.channelName,
+    username,
+    command: created.name
+  });
+
+  return res.status(201).json({
+    success: true,
+    message: 'Command created successfully',
+    command: created
+  });
+}
+
+/**
+ * Update a custom command (including renaming it)
+ * The usage counter is kept; it can only be reset by setting resetCount
+ */
+async function handleUpdateCommand(
+  req: NextApiRequest,
+  res: NextApiResponse,
+  username: string
+) {
+  const { channelName, name, command, resetCount } = req.body;
+
+  if (!name || typeof name !== 'string') {
+    return res.status(400).json({
+      error: 'Missing or invalid name',
+      message: 'name is required and must be a string'
+    });
+  }
+
+  const channel = await findOwnedChannel(res, channelName, username);
+  if (!channel) return;
+
+  const commands: TwitchCustomCommand[] = channel.customCommands || [];
+  const currentName = normalizeCommandName(name);
+  const index = commands.findIndex(existing => existing.name === currentName);
+  if (index === -1) {
+    return res.status(404).json({
+      error: 'Command not found',
+      message: `!${currentName} does not exist in this channel`
+    });
+  }
+
+  const commandPrefixes = channel.channelSettings?.commandPrefixes || defaultChannelSettings.commandPrefixes;
+  const existing = commands[index];
+  const validation = validateCustomCommand(
+    {
+      name: existing.name,
+      response: existing.response,
+      cooldownSeconds: existing.cooldownSeconds,
+      permission: existing.permission,
+      enabled: existing.enabled,
+      ...(command || {})
+    },
+    commandPrefixes,
+    currentName
+  );
+  if (!validation.valid || !validation.command) {
+    return res.status(400).json({
+      error: 'Invalid command',
+      message: validation.error
+    });
+  }
+
+  if (validation.command.name !== currentName && commands.some(other => other.name === validation.command!.name)) {
+    return res.status(409).json({
+      error: 'Command already exists',
+      message: `!${validation.command.name} already exists in this channel`
+    });
+  }
+
+  const updated: TwitchCustomCommand = {
+    ...validation.command,
+    useCount: resetCount ? 0 : existing.useCount || 0,
+    lastUsedAt: existing.lastUsedAt
+  };
+  channel.customCommands = commands.map((other, i) => (i === index ? updated : other));
+  await channel.save();
+  invalidateCustomCommands(channel.channelName);
+
+  logger.info('Custom command updated', {
+    channelName: channel.channelName,
+    username,
+    command: updated.name,
+    renamedFrom: updated.name !== currentName ? currentName : undefined
+  });
+
+  return res.status(200).json({
+    success: true,
+    message: 'Command updated successfully',
+    command: updated
+  });
+}
+
+/**
+ * Delete a custom command
+ */
+async function handleDeleteCommand(
+  req: NextApiRequest,
+  res: NextApiResponse,
+  username: string
+) {
+  const { channelName, name } = req.query;
+
+  if (!name || typeof name !== 'string') {
+    return res.status(400).json({
+      error: 'Missing or invalid name',
+      message: 'name query parameter is required and must be a string'
+    });
+  }
+
+  const channel = await findOwnedChannel(res, channelName, username);
+  if (!channel) return;
+
+  const commandName = normalizeCommandName(name);
+  const commands: TwitchCustomCommand[] = channel.customCommands || [];
+  if (!commands.some(existing => existing.name === commandName)) {
+    return res.status(404).json({
+      error: 'Command not found',
+      message: `!${commandName} does not exist in this channel`
+    });
+  }
+
+  channel.customCommands = commands.filter(existing => existing.name !== commandName);
+  await channel.save();
+  invalidateCustomCommands(channel.channelName);
+
+  logger.info('Custom command deleted', {
+    channelName: channel.channelName,
+    username,
+    command: commandName
+  });
+
+  return res.status(200).json({
+    success: true,
+    message: 'Command deleted successfully'
+  });
+}
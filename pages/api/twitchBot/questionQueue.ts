@@ -0,0 +1,329 @@
+import { NextApiRequest, NextApiResponse } from 'next';
+import crypto from 'crypto';
+import connectToMongoDB from '../../../utils/mongodb';
+import TwitchBotChannel from '../../../models/TwitchBotChannel';
+import TwitchQueuedQuestion from '../../../models/TwitchQueuedQuestion';
+import User from '../../../models/User';
+import { getSession } from '../../../utils/session';
+import { logger } from '../../../utils/logger';
+import {
+  QueuedQuestionStatus,
+  QUEUED_QUESTION_STATUSES,
+  MAX_PENDING_QUESTIONS,
+  defaultQuestionQueueSettings,
+  validateQuestionQueueSettings,
+  validateQueueAnswer
+} from '../../../config/twitchQuestionQueue';
+import {
+  invalidateQuestionQueueSettings,
+  notifyQuestionApproved,
+  toQueuedQuestionView,
+  QueuedQuestionFields
+} from '../../../utils/twitch/questionQueue';
+
+/**
+ * Question Queue API for Twitch Bot
+ * Lists and reviews a channel's queued chat questions, and manages the queue settings
+ * The streamer and the Twitch moderators they list can review questions; only the streamer can
+ * change the settings
+ */
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  // Check authentication
+  const session = await getSession(req);
+  if (!session || !session.username) {
+    return res.status(401).json({
+      error: 'Unauthorized',
+      message: 'You must be logged in to manage the question queue'
+    });
+  }
+
+  const username = session.username;
+
+  try {
+    switch (req.method) {
+      case 'GET':
+        return await handleListQuestions(req, res, username);
+
+      case 'PATCH':
+        return await handleReviewQuestion(req, res, username);
+
+      case 'DELETE':
+        return await handleClearQueue(req, res, username);
+
+      case 'PUT':
+        return await handleUpdateSettings(req, res, username);
+
+      default:
+        return res.status(405).json({ error: 'Method not allowed' });
+    }
+  } catch (error) {
+    logger.error('Error in question queue API', {
+      error: error instanceof Error ? error.message : String(error),
+      method: req.method,
+      username
+    });
+    return res.status(500).json({
+      error: 'Internal server error',
+      message: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+}
+
+/**
+ * Find a channel whose queue the user may manage: their own, or one listing their linked Twitch
+ * account as a queue moderator
+ * Sends a 400/404 and returns null if the channel name is missing or the user may not manage it
+ */
+async function findManagedChannel(res: NextApiResponse, channelName: unknown, username: string) {
+  if (!channelName || typeof channelName !== 'string') {
+    res.status(400).json({
+      error: 'Missing or invalid channelName',
+      message: 'channelName is required and must be a string'
+    });
+    return null;
+  }
+
+  await connectToMongoDB();
+
+  const channel = await TwitchBotChannel.findOne({
+    channelName: channelName.toLowerCase().trim()
+  });
+
+  let isOwner = false;
+  let canManage = false;
+  if (channel) {
+    isOwner = channel.streamerUsername === username;
+    canManage = isOwner;
+
+    const moderators: string[] = channel.questionQueue?.moderators || [];
+    if (!canManage && moderators.length > 0) {
+      const user = await User.findOne({ username }).select('twitchUsername').lean() as { twitchUsername?: string } | null;
+      canManage = !!user?.twitchUsername && moderators.indexOf(user.twitchUsername.toLowerCase()) !== -1;
+    }
+  }
+
+  if (!channel || !canManage) {
+    res.status(404).json({
+      error: 'Channel not found',
+      message: 'Channel not found or you do not have permission to manage its question queue'
+    });
+    return null;
+  }
+
+  return { channel, isOwner };
+}
+
+/**
+ * List a channel's questions with a given status (pending by default)
+ * Pending questions are sorted by votes, reviewed ones by most recently reviewed
+ */
+async function handleListQuestions(
+  req: NextApiRequest,
+  res: NextApiResponse,
+  username: string
+) {
+  const managed = await findManagedChannel(res, req.query.channelName, username);
+  if (!managed) return;
+  const { channel, isOwner } = managed;
+
+  const status = (req.query.status || 'pending') as QueuedQuestionStatus;
+  if (QUEUED_QUESTION_STATUSES.indexOf(status) === -1) {
+    return res.status(400).json({
+      error: 'Invalid status',
+      message: `status must be one of: ${QUEUED_QUESTION_STATUSES.join(', ')}`
+    });
+  }
+
+  const questions = await TwitchQueuedQuestion.find({ channelName: channel.channelName, status })
+    .sort(status === 'pending' ? { votes: -1, createdAt: 1 } : { reviewedAt: -1 })
+    .limit(status === 'pending' ? MAX_PENDING_QUESTIONS : 50)
+    .lean<QueuedQuestionFields[]>();
+
+  const settings = { ...defaultQuestionQueueSettings, ...channel.toObject().questionQueue };
+
+  return res.status(200).json({
+    success: true,
+    channelName: channel.channelName,
+    isOwner,
+    settings: {
+      enabled: settings.enabled,
+      moderators: settings.moderators,
+      // The overlay token is a secret the streamer puts in their streaming software
+      overlayToken: isOwner ? settings.overlayToken : undefined
+    },
+    questions: questions.map(toQueuedQuestionView)
+  });
+}
+
+/**
+ * Approve, reject or answer a pending question
+ * approve: the bot answers it in chat
+ * answer: with an answer, the bot posts that answer; without one, it is marked answered on stream
+ */
+async function handleReviewQuestion(
+  req: NextApiRequest,
+  res: NextApiResponse,
+  username: string
+) {
+  const { channelName, id, action, answer } = req.body;
+
+  if (!Number.isInteger(id)) {
+    return res.status(400).json({
+      error: 'Missing or invalid id',
+      message: 'id is required and must be a question number'
+    });
+  }
+  if (action !== 'approve' && action !== 'reject' && action !== 'answer') {
+    return res.status(400).json({
+      error: 'Invalid action',
+      message: 'action must be approve, reject or answer'
+    });
+  }
+
+  let update: Record<string, unknown>;
+  if (action === 'approve') {
+    update = { status: 'approved' };
+  } else if (action === 'reject') {
+    update = { status: 'rejected' };
+  } else if (answer) {
+    const validation = validateQueueAnswer(answer);
+    if (!validation.valid) {
+      return res.status(400).json({
+        error: 'Invalid answer',
+        message: validation.error
+      });
+    }
+    update = { status: 'approved', answer: validation.answer };
+  } else {
+    update = { status: 'answered', answeredBy: 'streamer', answeredAt: new Date() };
+  }
+
+  const managed = await findManagedChannel(res, channelName, username);
+  if (!managed) return;
+  const { channel } = managed;
+
+  // Only pending questions can be reviewed, so two mods cannot review the same one differently
+  const question = await TwitchQueuedQuestion.findOneAndUpdate(
+    { channelName: channel.channelName, number: id, status: 'pending' },
+    { $set: { ...update, reviewedBy: username, reviewedAt: new Date() } },
+    { new: true }
+  ).lean<QueuedQuestionFields>();
+
+  if (!question) {
+    return res.status(409).json({
+      error: 'Question not pending',
+      message: `Question #${id} does not exist or was already reviewed`
+    });
+  }
+
+  if (update.status === 'approved') {
+    await notifyQuestionApproved(channel.channelName);
+  }
+
+  logger.info('Queued question reviewed', {
+    channelName: channel.channelName,
+    username,
+    number: id,
+    action
+  });
+
+  return res.status(200).json({
+    success: true,
+    question: toQueuedQuestionView(question)
+  });
+}
+
+/**
+ * Reject every pending question (e.g. at the end of a stream)
+ */
+async function handleClearQueue(
+  req: NextApiRequest,
+  res: NextApiResponse,
+  username: string
+) {
+  const managed = await findManagedChannel(res, req.query.channelName, username);
+  if (!managed) return;
+  const { channel } = managed;
+
+  const result = await TwitchQueuedQuestion.updateMany(
+    { channelName: channel.channelName, status: 'pending' },
+    { $set: { status: 'rejected', reviewedBy: username, reviewedAt: new Date() } }
+  );
+
+  logger.info('Question queue cleared', {
+    channelName: channel.channelName,
+    username,
+    rejected: result.modifiedCount
+  });
+
+  return res.status(200).json({
+    success: true,
+    message: 'Question queue cleared',
+    rejected: result.modifiedCount
+  });
+}
+
+/**
+ * Update the queue settings (streamer only)
+ * An overlay token is created the first time, and replaced when regenerateOverlayToken is set
+ */
+async function handleUpdateSettings(
+  req: NextApiRequest,
+  res: NextApiResponse,
+  username: string
+) {
+  const { channelName, settings, regenerateOverlayToken } = req.body;
+
+  const managed = await findManagedChannel(res, channelName, username);
+  if (!managed) return;
+  const { channel, isOwner } = managed;
+
+  if (!isOwner) {
+    return res.status(403).json({
+      error: 'Forbidden',
+      message: 'Only the streamer can change the question queue settings'
+    });
+  }
+
+  const current = { ...defaultQuestionQueueSettings, ...channel.toObject().questionQueue };
+  const validation = validateQuestionQueueSettings(settings || {}, current);
+  if (!validation.valid || !validation.settings) {
+    return res.status(400).json({
+      error: 'Invalid settings',
+      message: validation.error
+    });
+  }
+
+  const overlayToken = !current.overlayToken || regenerateOverlayToken
+    ? crypto.randomBytes(24).toString('hex')
+    : current.overlayToken;
+
+  await TwitchBotChannel.updateOne(
+    { _id: channel._id },
+    {
+      $set: {
+        'questionQueue.enabled': validation.settings.enabled,
+        'questionQueue.moderators': validation.settings.moderators,
+        'questionQueue.overlayToken': overlayToken
+      }
+    }
+  );
+  invalidateQuestionQueueSettings(channel.channelName);
+
+  logger.info('Question queue settings updated', {
+    channelName: channel.channelName,
+    username,
+    enabled: validation.settings.enabled,
+    moderators: validation.settings.moderators.length,
+    overlayTokenRegenerated: overlayToken !== current.overlayToken
+  });
+
+  return res.status(200).json({
+    success: true,
+    message: 'Question queue settings updated',
+    settings: {
+      ...validation.settings,
+      overlayToken
+    }
+  });
+}
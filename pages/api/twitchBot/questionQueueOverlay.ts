@@ -0,0 +1,83 @@
+import { NextApiRequest, NextApiResponse } from 'next';
+import crypto from 'crypto';
+import connectToMongoDB from '../../../utils/mongodb';
+import TwitchBotChannel from '../../../models/TwitchBotChannel';
+import TwitchQueuedQuestion from '../../../models/TwitchQueuedQuestion';
+import { logger } from '../../../utils/logger';
+import { toQueuedQuestionView, QueuedQuestionFields } from '../../../utils/twitch/questionQueue';
+
+/**
+ * Question Queue Overlay API for Twitch Bot
+ * Read-only view of a channel's queue for the browser-source overlay, which runs inside streaming
+ * software without a login. Access is granted by the channel's overlay token instead of a session.
+ */
+
+const OVERLAY_PENDING_LIMIT = 5;
+const OVERLAY_RECENT_WINDOW_MS = 10 * 60 * 1000; // Show the latest answer for 10 minutes
+
+function tokensMatch(expected: string, provided: string): boolean {
+  const expectedBuffer = Buffer.from(expected);
+  const providedBuffer = Buffer.from(provided);
+  return expectedBuffer.length === providedBuffer.length && crypto.timingSafeEqual(expectedBuffer, providedBuffer);
+}
+
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (req.method !== 'GET') {
+    res.setHeader('Allow', ['GET']);
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  const { channelName, token } = req.query;
+  if (!channelName || typeof channelName !== 'string' || !token || typeof token !== 'string') {
+    return res.status(400).json({
+      error: 'Missing parameters',
+      message: 'channelName and token are required'
+    });
+  }
+
+  try {
+    await connectToMongoDB();
+
+    const channel = await TwitchBotChannel.findOne({ channelName: channelName.toLowerCase().trim() })
+      .select('channelName questionQueue')
+      .lean() as { channelName: string; questionQueue?: { enabled?: boolean; overlayToken?: string } } | null;
+
+    // Same response for unknown channels and wrong tokens
+    if (!channel?.questionQueue?.overlayToken || !tokensMatch(channel.questionQueue.overlayToken, token)) {
+      return res.status(404).json({
+        error: 'Overlay not found',
+        message: 'Check the overlay URL in your question queue settings'
+      });
+    }
+
+    const [pending, latest] = await Promise.all([
+      TwitchQueuedQuestion.find({ channelName: channel.channelName, status: 'pending' })
+        .sort({ votes: -1, createdAt: 1 })
+        .limit(OVERLAY_PENDING_LIMIT)
+        .lean<QueuedQuestionFields[]>(),
+      TwitchQueuedQuestion.findOne({
+        channelName: channel.channelName,
+        status: { $in: ['approved', 'answered'] },
+        reviewedAt: { $gte: new Date(Date.now() - OVERLAY_RECENT_WINDOW_MS) }
+      })
+        .sort({ reviewedAt: -1 })
+        .lean<QueuedQuestionFields>()
+    ]);
+
+    // Polled every few seconds by the overlay
+    res.setHeader('Cache-Control', 'no-store');
+    return res.status(200).json({
+      success: true,
+      enabled: !!channel.questionQueue.enabled,
+      pendingCount: await TwitchQueuedQuestion.countDocuments({ channelName: channel.channelName, status: 'pending' }),
+      pending: pending.map(toQueuedQuestionView),
+      current: latest ? toQueuedQuestionView(latest) : null
+    });
+  } catch (error) {
+    logger.error('Error in question queue overlay API', {
+      error: error instanceof Error ? error.message : String(error),
+      channelName
+    });
+    return res.status(500).json({ error: 'Internal server error' });
+  }
+}
@@ -0,0 +1,339 @@
+import crypto from 'crypto';
+import { NextApiRequest, NextApiResponse } from 'next';
+import connectToMongoDB from '../../../utils/mongodb';
+import TwitchBotChannel from '../../../models/TwitchBotChannel';
+import { getSession } from '../../../utils/session';
+import { logger } from '../../../utils/logger';
+import {
+  validateTimer,
+  defaultTimer,
+  MAX_TIMERS_PER_CHANNEL,
+  TwitchTimer
+} from '../../../config/twitchTimers';
+
+/**
+ * Timers API for Twitch Bot
+ * Manages a channel's recurring chat messages:
+ * - GET: list timers
+ * - POST: create a timer
+ * - PUT: update a timer (including pausing/resuming it)
+ * - PATCH: pause or resume every timer in the channel
+ * - DELETE: delete a timer
+ * All operations require authentication and verify streamer ownership
+ */
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  // Check authentication
+  const session = await getSession(req);
+  if (!session || !session.username) {
+    return res.status(401).json({
+      error: 'Unauthorized',
+      message: 'You must be logged in to manage timers'
+    });
+  }
+
+  const username = session.username;
+
+  try {
+    switch (req.method) {
+      case 'GET':
+        return await handleListTimers(req, res, username);
+
+      case 'POST':
+        return await handleCreateTimer(req, res, username);
+
+      case 'PUT':
+        return await handleUpdateTimer(req, res, username);
+
+      case 'PATCH':
+        return await handlePauseAll(req, res, username);
+
+      case 'DELETE':
+        return await handleDeleteTimer(req, res, username);
+
+      default:
+        return res.status(405).json({ error: 'Method not allowed' });
+    }
+  } catch (error) {
+    logger.error('Error in timers API', {
+      error: error instanceof Error ? error.message : String(error),
+      method: req.method,
+      username
+    });
+    return res.status(500).json({
+      error: 'Internal server error',
+      message: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+}
+
+/**
+ * Find a channel owned by the user
+ * Sends a 400/404 and returns null if the channel name is missing or the user does not own it
+ */
+async function findOwnedChannel(res: NextApiResponse, channelName: unknown, username: string) {
+  if (!channelName || typeof channelName !== 'string') {
+    res.status(400).json({
+      error: 'Missing or invalid channelName',
+      message: 'channelName is required and must be a string'
+    });
+    return null;
+  }
+
+  await connectToMongoDB();
+
+  const channel = await TwitchBotChannel.findOne({
+    channelName: channelName.toLowerCase().trim(),
+    streamerUsername: username
+  });
+
+  if (!channel) {
+    res.status(404).json({
+      error: 'Channel not found',
+      message: 'Channel not found or you do not have permission to manage it'
+    });
+    return null;
+  }
+
+  return channel;
+}
+
+/**
+ * List a channel's timers
+ */
+async function handleListTimers(
+  req: NextApiRequest,
+  res: NextApiResponse,
+  username: string
+) {
+  const channel = await findOwnedChannel(res, req.query.channelName, username);
+  if (!channel) return;
+
+  return res.status(200).json({
+    success: true,
+    channelName: channel.channelName,
+    timersPaused: channel.timersPaused || false,
+    timers: channel.toObject().timers || []
+  });
+}
+
+/**
+ * Create a timer
+ * Its first post waits one interval from now
+ */
+async function handleCreateTimer(
+  req: NextApiRequest,
+  res: NextApiResponse,
+  username: string
+) {
+  const { channelName, timer } = req.body;
+
+  const channel = await findOwnedChannel(res, channelName, username);
+  if (!channel) return;
+
+  const validation = validateTimer(timer || {});
+  if (!validation.valid || !validation.timer) {
+    return res.status(400).json({
+      error: 'Invalid timer',
+      message: validation.error
+    });
+  }
+
+  const created: TwitchTimer = {
+    ...defaultTimer,
+    ...validation.timer,
+    id: crypto.randomBytes(6).toString('hex'),
+    lastPostedAt: new Date()
+  };
+  // Timers are only ever updated in place: saving the whole array would overwrite the
+  // lastPostedAt/nextMessageIndex the timer runner claims. The size check is part of the update.
+  const result = await TwitchBotChannel.updateOne(
+    { _id: channel._id, [`timers.${MAX_TIMERS_PER_CHANNEL - 1}`]: { $exists: false } },
+    { $push: { timers: created } }
+  );
+  if (result.modifiedCount === 0) {
+    return res.status(400).json({
+      error: 'Too many timers',
+      message: `Channels can have at most ${MAX_TIMERS_PER_CHANNEL} timers`
+    });
+  }
+
+  logger.info('Twitch timer created', {
+    channelName: channel.channelName,
+    username,
+    timerId: created.id
+  });
+
+  return res.status(201).json({
+    success: true,
+    message: 'Timer created successfully',
+    timer: created
+  });
+}
+
+/**
+ * Update a timer
+ * Resuming a paused timer restarts its interval so it does not post immediately
+ */
+async function handleUpdateTimer(
+  req: NextApiRequest,
+  res: NextApiResponse,
+  username: string
+) {
+  const { channelName, id, timer } = req.body;
+
+  if (!id || typeof id !== 'string') {
+    return res.status(400).json({
+      error: 'Missing or invalid id',
+      message: 'id is required and must be a string'
+    });
+  }
+
+  const channel = await findOwnedChannel(res, channelName, username);
+  if (!channel) return;
+
+  const timers: TwitchTimer[] = channel.toObject().timers || [];
+  const existing = timers.find(candidate => candidate.id === id);
+  if (!existing) {
+    return res.status(404).json({
+      error: 'Timer not found',
+      message: 'Timer not found in this channel'
+    });
+  }
+
+  const validation = validateTimer({ ...existing, ...(timer || {}) });
+  if (!validation.valid || !validation.timer) {
+    return res.status(400).json({
+      error: 'Invalid timer',
+      message: validation.error
+    });
+  }
+
+  const resumed = existing.paused && !validation.timer.paused;
+  const messagesChanged = JSON.stringify(existing.messages) !== JSON.stringify(validation.timer.messages);
+  const updated: TwitchTimer = {
+    ...existing,
+    ...validation.timer,
+    nextMessageIndex: (existing.nextMessageIndex || 0) % validation.timer.messages.length,
+    lastPostedAt: resumed ? new Date() : existing.lastPostedAt
+  };
+
+  // Only the edited fields are set, so a post the timer runner claims meanwhile keeps its
+  // lastPostedAt and nextMessageIndex
+  const result = await TwitchBotChannel.updateOne(
+    { _id: channel._id, 'timers.id': id },
+    {
+      $set: {
+        'timers.$.name': updated.name,
+        'timers.$.messages': updated.messages,
+        'timers.$.intervalMinutes': updated.intervalMinutes,
+        'timers.$.minChatLines': updated.minChatLines,
+        'timers.$.paused': updated.paused,
+        ...(messagesChanged ? { 'timers.$.nextMessageIndex': updated.nextMessageIndex } : {}),
+        ...(resumed ? { 'timers.$.lastPostedAt': updated.lastPostedAt } : {})
+      }
+    }
+  );
+  if (result.matchedCount === 0) {
+    return res.status(404).json({
+      error: 'Timer not found',
+      message: 'Timer not found in this channel'
+    });
+  }
+
+  logger.info('Twitch timer updated', {
+    channelName: channel.channelName,
+    username,
+    timerId: id
+  });
+
+  return res.status(200).json({
+    success: true,
+    message: 'Timer updated successfully',
+    timer: updated
+  });
+}
+
+/**
+ * Pause or resume every timer in the channel
+ * Resuming restarts every timer's interval so they do not all post at once
+ */
+async function handlePauseAll(
+  req: NextApiRequest,
+  res: NextApiResponse,
+  username: string
+) {
+  const { channelName, paused } = req.body;
+
+  if (typeof paused !== 'boolean') {
+    return res.status(400).json({
+      error: 'Missing or invalid paused',
+      message: 'paused is required and must be a boolean'
+    });
+  }
+
+  const channel = await findOwnedChannel(res, channelName, username);
+  if (!channel) return;
+
+  if (!paused) {
+    // Restart every interval while still paused, so the runner cannot post in between
+    await TwitchBotChannel.updateOne(
+      { _id: channel._id, timersPaused: true, timers: { $type: 'array' } },
+      { $set: { 'timers.$[].lastPostedAt': new Date() } }
+    );
+  }
+  await TwitchBotChannel.updateOne({ _id: channel._id }, { $set: { timersPaused: paused } });
+
+  logger.info(paused ? 'Twitch timers paused' : 'Twitch timers resumed', {
+    channelName: channel.channelName,
+    username
+  });
+
+  return res.status(200).json({
+    success: true,
+    message: paused ? 'Timers paused' : 'Timers resumed',
+    timersPaused: paused
+  });
+}
+
+/**
+ * Delete a timer
+ */
+async function handleDeleteTimer(
+  req: NextApiRequest,
+  res: NextApiResponse,
+  username: string
+) {
+  const { channelName, id } = req.query;
+
+  if (!id || typeof id !== 'string') {
+    return res.status(400).json({
+      error: 'Missing or invalid id',
+      message: 'id query parameter is required and must be a string'
+    });
+  }
+
+  const channel = await findOwnedChannel(res, channelName, username);
+  if (!channel) return;
+
+  const result = await TwitchBotChannel.updateOne(
+    { _id: channel._id },
+    { $pull: { timers: { id } } }
+  );
+  if (result.modifiedCount === 0) {
+    return res.status(404).json({
+      error: 'Timer not found',
+      message: 'Timer not found in this channel'
+    });
+  }
+
+  logger.info('Twitch timer deleted', {
+    channelName: channel.channelName,
+    username,
+    timerId: id
+  });
+
+  return res.status(200).json({
+    success: true,
+    message: 'Timer deleted successfully'
+  });
+}
@@ -0,0 +1,302 @@
+import crypto from 'crypto';
+import { NextApiRequest, NextApiResponse } from 'next';
+import connectToMongoDB from '../../../utils/mongodb';
+import TwitchBotChannel from '../../../models/TwitchBotChannel';
+import TwitchTriviaRound from '../../../models/TwitchTriviaRound';
+import { getSession } from '../../../utils/session';
+import { logger } from '../../../utils/logger';
+import { invalidateTriviaSettings, getTriviaLeaderboard } from '../../../utils/twitch/trivia';
+import {
+  TriviaBankQuestion,
+  defaultTriviaSettings,
+  validateTriviaSettings,
+  validateTriviaQuestion,
+  MAX_BANK_QUESTIONS
+} from '../../../config/twitchTrivia';
+
+/**
+ * Trivia API for Twitch Bot
+ * Manages a channel's !trivia rounds and !predict predictions:
+ * - GET: settings, question bank, leaderboard and recent rounds
+ * - PUT: update settings
+ * - POST: add a question to the bank
+ * - DELETE: remove a question from the bank
+ * All operations require authentication and verify streamer ownership
+ */
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  // Check authentication
+  const session = await getSession(req);
+  if (!session || !session.username) {
+    return res.status(401).json({
+      error: 'Unauthorized',
+      message: 'You must be logged in to manage trivia'
+    });
+  }
+
+  const username = session.username;
+
+  try {
+    switch (req.method) {
+      case 'GET':
+        return await handleGetTrivia(req, res, username);
+
+      case 'PUT':
+        return await handleUpdateSettings(req, res, username);
+
+      case 'POST':
+        return await handleAddQuestion(req, res, username);
+
+      case 'DELETE':
+        return await handleDeleteQuestion(req, res, username);
+
+      default:
+        return res.status(405).json({ error: 'Method not allowed' });
+    }
+  } catch (error) {
+    logger.error('Error in trivia API', {
+      error: error instanceof Error ? error.message : String(error),
+      method: req.method,
+      username
+    });
+    return res.status(500).json({
+      error: 'Internal server error',
+      message: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+}
+
+/**
+ * Find a channel owned by the user
+ * Sends a 400/404 and returns null if the channel name is missing or the user does not own it
+ */
+async function findOwnedChannel(res: NextApiResponse, channelName: unknown, username: string) {
+  if (!channelName || typeof channelName !== 'string') {
+    res.status(400).json({
+      error: 'Missing or invalid channelName',
+      message: 'channelName is required and must be a string'
+    });
+    return null;
+  }
+
+  await connectToMongoDB();
+
+  const channel = await TwitchBotChannel.findOne({
+    channelName: channelName.toLowerCase().trim(),
+    streamerUsername: username
+  });
+
+  if (!channel) {
+    res.status(404).json({
+      error: 'Channel not found',
+      message: 'Channel not found or you do not have permission to manage it'
+    });
+    return null;
+  }
+
+  return channel;
+}
+
+/**
+ * Get a channel's trivia settings, question bank, leaderboard and recent rounds
+ */
+async function handleGetTrivia(
+  req: NextApiRequest,
+  res: NextApiResponse,
+  username: string
+) {
+  const channel = await findOwnedChannel(res, req.query.channelName, username);
+  if (!channel) return;
+
+  const { questions, ...settings } = { ...defaultTriviaSettings, ...channel.toObject().trivia };
+
+  const [leaderboard, rounds] = await Promise.all([
+    getTriviaLeaderboard(channel.channelName, 20),
+    TwitchTriviaRound.find({ channelName: channel.channelName })
+      .sort({ startedAt: -1 })
+      .limit(10)
+      .select('question answers source gameTitle status startedAt correct participants pointsAwarded')
+      .lean<Array<{
+        _id: unknown;
+        question: string;
+        answers: string[];
+        source: 'bank' | 'ai';
+        gameTitle?: string;
+        status: 'open' | 'closed';
+        startedAt: Date;
+        correct: Array<{ displayName: string }>;
+        participants: string[];
+        pointsAwarded?: number;
+      }>>()
+  ]);
+
+  return res.status(200).json({
+    success: true,
+    channelName: channel.channelName,
+    settings,
+    questions,
+    leaderboard,
+    recentRounds: rounds.map(round => ({
+      id: String(round._id),
+      question: round.question,
+      answer: round.answers[0],
+      source: round.source,
+      gameTitle: round.gameTitle,
+      status: round.status,
+      startedAt: round.startedAt,
+      winner: round.correct[0]?.displayName,
+      correctAnswers: round.correct.length,
+      participants: round.participants.length,
+      pointsAwarded: round.pointsAwarded || 0
+    }))
+  });
+}
+
+/**
+ * Update a channel's trivia settings
+ */
+async function handleUpdateSettings(
+  req: NextApiRequest,
+  res: NextApiResponse,
+  username: string
+) {
+  const { channelName, settings } = req.body;
+
+  const channel = await findOwnedChannel(res, channelName, username);
+  if (!channel) return;
+
+  const current = { ...defaultTriviaSettings, ...channel.toObject().trivia };
+  const validation = validateTriviaSettings(settings || {}, current);
+  if (!validation.valid || !validation.settings) {
+    return res.status(400).json({
+      error: 'Invalid settings',
+      message: validation.error
+    });
+  }
+
+  await TwitchBotChannel.updateOne(
+    { _id: channel._id },
+    {
+      $set: {
+        'trivia.enabled': validation.settings.enabled,
+        'trivia.source': validation.settings.source,
+        'trivia.answerWindowSeconds': validation.settings.answerWindowSeconds,
+        'trivia.points': validation.settings.points,
+        'trivia.firstAnswerBonus': validation.settings.firstAnswerBonus,
+        'trivia.predictionsEnabled': validation.settings.predictionsEnabled,
+        'trivia.predictionWindowSeconds': validation.settings.predictionWindowSeconds,
+        'trivia.predictionPoints': validation.settings.predictionPoints
+      }
+    }
+  );
+  invalidateTriviaSettings(channel.channelName);
+
+  logger.info('Trivia settings updated', {
+    channelName: channel.channelName,
+    username,
+    enabled: validation.settings.enabled,
+    source: validation.settings.source,
+    predictionsEnabled: validation.settings.predictionsEnabled
+  });
+
+  return res.status(200).json({
+    success: true,
+    message: 'Trivia settings updated',
+    settings: validation.settings
+  });
+}
+
+/**
+ * Add a question to a channel's trivia bank
+ */
+async function handleAddQuestion(
+  req: NextApiRequest,
+  res: NextApiResponse,
+  username: string
+) {
+  const { channelName, question } = req.body;
+
+  const channel = await findOwnedChannel(res, channelName, username);
+  if (!channel) return;
+
+  const validation = validateTriviaQuestion(question || {});
+  if (!validation.valid || !validation.question) {
+    return res.status(400).json({
+      error: 'Invalid question',
+      message: validation.error
+    });
+  }
+
+  const created: TriviaBankQuestion = {
+    ...validation.question,
+    id: crypto.randomBytes(6).toString('hex')
+  };
+
+  // The size check is part of the update, so concurrent additions cannot exceed the limit
+  const result = await TwitchBotChannel.updateOne(
+    { _id: channel._id, [`trivia.questions.${MAX_BANK_QUESTIONS - 1}`]: { $exists: false } },
+    { $push: { 'trivia.questions': created } }
+  );
+  if (result.modifiedCount === 0) {
+    return res.status(400).json({
+      error: 'Too many questions',
+      message: `The trivia bank can hold at most ${MAX_BANK_QUESTIONS} questions`
+    });
+  }
+  invalidateTriviaSettings(channel.channelName);
+
+  logger.info('Trivia question added', {
+    channelName: channel.channelName,
+    username,
+    questionId: created.id
+  });
+
+  return res.status(201).json({
+    success: true,
+    message: 'Question added',
+    question: created
+  });
+}
+
+/**
+ * Remove a question from a channel's trivia bank
+ */
+async function handleDeleteQuestion(
+  req: NextApiRequest,
+  res: NextApiResponse,
+  username: string
+) {
+  const { channelName, id } = req.query;
+
+  if (!id || typeof id !== 'string') {
+    return res.status(400).json({
+      error: 'Missing or invalid id',
+      message: 'id is required and must be a string'
+    });
+  }
+
+  const channel = await findOwnedChannel(res, channelName, username);
+  if (!channel) return;
+
+  const result = await TwitchBotChannel.updateOne(
+    { _id: channel._id },
+    { $pull: { 'trivia.questions': { id } } }
+  );
+  if (result.modifiedCount === 0) {
+    return res.status(404).json({
+      error: 'Question not found',
+      message: 'Question not found in this channel\'s trivia bank'
+    });
+  }
+  invalidateTriviaSettings(channel.channelName);
+
+  logger.info('Trivia question deleted', {
+    channelName: channel.channelName,
+    username,
+    questionId: id
+  });
+
+  return res.status(200).json({
+    success: true,
+    message: 'Question deleted'
+  });
+}
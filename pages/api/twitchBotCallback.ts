@@ -297,7 +297,10 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
           'channel.subscribe',
           'channel.subscription.gift',
           'channel.raid',
-          'channel.cheer'
+          'channel.cheer',
+          'channel.update',
+          'stream.online',
+          'stream.offline'
         ]
         // Note: All EventSub subscriptions use app access token (not user token)
       );
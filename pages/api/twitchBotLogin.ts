@@ -1,57 +1,17 @@
-import { NextApiRequest, NextApiResponse } from 'next';
-import { getSession } from '../../utils/session';
-import connectToMongoDB from '../../utils/mongodb';
-import User from '../../models/User';
-import { logger } from '../../utils/logger';
+import { NextApiResponse } from 'next';
+import { requireAuth, AuthenticatedRequest } from '../../middleware/auth';
 
 /**
  * Streamer OAuth login endpoint
  * This initiates OAuth flow for streamers who want to add the bot to their Twitch channel
  * Requires the streamer to be logged into Video Game Wingman
- * 
- * Accepts username as query parameter as fallback if session is expired
  */
-export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+export default async function handler(req: AuthenticatedRequest, res: NextApiResponse) {
   if (req.method !== 'GET') {
     return res.status(405).json({ error: 'Method not allowed' });
   }
 
-  let username: string | null = null;
-
-  // Try to get username from session first
-  try {
-    const session = await getSession(req);
-    if (session && session.username) {
-      username = session.username;
-      logger.info('Username obtained from session', { username });
-    }
-  } catch (error) {
-    logger.warn('Session check failed, will try username parameter', {
-      error: error instanceof Error ? error.message : String(error)
-    });
-  }
-
-  // Fallback: Get username from query parameter (for cases where session expired but user is logged in on frontend)
-  if (!username) {
-    const usernameParam = req.query.username as string | undefined;
-    if (usernameParam) {
-      // Verify username exists in database
-      try {
-        await connectToMongoDB();
-        const user = await User.findOne({ username: usernameParam }).select('username').lean();
-        if (user) {
-          username = usernameParam;
-          logger.info('Username obtained from query parameter', { username });
-        } else {
-          logger.warn('Username from query parameter not found in database', { usernameParam });
-        }
-      } catch (error) {
-        logger.error('Error verifying username from query parameter', {
-          error: error instanceof Error ? error.message : String(error)
-        });
-      }
-    }
-  }
+  const { username } = await requireAuth(req, res);
 
   if (!username) {
     // Redirect to landing page with error message
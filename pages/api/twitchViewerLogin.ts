@@ -1,7 +1,7 @@
-import { NextApiRequest, NextApiResponse } from 'next';
+import { NextApiResponse } from 'next';
 import crypto from 'crypto';
-import { getSession } from '../../utils/session';
 import { logger } from '../../utils/logger';
+import { requireAuth, AuthenticatedRequest } from '../../middleware/auth';
 
 // In-memory store for OAuth state (in production, use Redis or similar)
 // Maps state token -> { username, expiresAt }
@@ -22,34 +22,12 @@ setInterval(() => {
  * This is specifically for viewers who want to link their Twitch account
  * to their Video Game Wingman account for bot usage
  */
-export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+export default async function handler(req: AuthenticatedRequest, res: NextApiResponse) {
   if (req.method !== 'GET') {
     return res.status(405).json({ error: 'Method not allowed' });
   }
 
-  let username: string | null = null;
-
-  // Try to get username from session first
-  try {
-    const session = await getSession(req);
-    if (session && session.username) {
-      username = session.username;
-      logger.info('Username obtained from session for viewer OAuth', { username });
-    }
-  } catch (error) {
-    logger.warn('Session check failed, will try username parameter', {
-      error: error instanceof Error ? error.message : String(error)
-    });
-  }
-
-  // Fallback: Get username from query parameter (for cases where session expired but user is logged in on frontend)
-  if (!username) {
-    const usernameParam = req.query.username as string | undefined;
-    if (usernameParam) {
-      username = usernameParam;
-      logger.info('Username obtained from query parameter for viewer OAuth', { username });
-    }
-  }
+  const { username } = await requireAuth(req, res);
 
   if (!username) {
     const domain = process.env.NODE_ENV === 'production'
@@ -1,45 +1,31 @@
-import type { NextApiRequest, NextApiResponse } from 'next';
+import type { NextApiResponse } from 'next';
 import mongoose from 'mongoose';
 import connectToMongoDB from '../../utils/mongodb';
 import Forum from '../../models/Forum';
-import { validateUserAuthentication } from '../../utils/validation';
-import { validateAdminAccess } from '../../utils/adminAccess';
+import { validateAdminAccess, ADMIN_ACCESS_LEVELS } from '../../utils/adminAccess';
+import { requireAuth, AuthenticatedRequest } from '../../middleware/auth';
 
 const ALLOWED_STATUSES = ['active', 'archived'] as const;
 
 /**
  * Update forum status (active / archived).
- * Only the forum creator or the admin (ADMIN_USERNAME, e.g. Legendary Renegade) can change status.
+ * Only the forum creator or staff with the moderate_forums permission can change status.
  * - active: forum can be posted to.
- * - archived: read-only; everyone can view, no one can post. Creator or admin can restore to active.
+ * - archived: read-only; everyone can view, no one can post. Creator or a moderator can restore to active.
  */
-export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+export default async function handler(req: AuthenticatedRequest, res: NextApiResponse) {
   if (req.method !== 'POST') {
     return res.status(405).json({ error: 'Method not allowed' });
   }
 
   try {
-    await connectToMongoDB();
-
-    // Use body.username for creator/admin check (client sends username; Bearer may be userId)
-    let username: string | null = null;
-    if (typeof req.body?.username === 'string' && req.body.username.trim()) {
-      username = req.body.username.trim();
-    }
-    if (!username) {
-      const authHeader = req.headers.authorization;
-      if (authHeader && authHeader.startsWith('Bearer ')) {
-        username = authHeader.split(' ')[1]?.trim() || null;
-      }
-    }
-    if (!username) {
+    const authResult = await requireAuth(req, res);
+    if (!authResult.authenticated || !authResult.username) {
       return res.status(401).json({ error: 'Authentication required' });
     }
+    const username = authResult.username;
 
-    const userAuthErrors = validateUserAuthentication(username);
-    if (userAuthErrors.length > 0) {
-      return res.status(401).json({ error: userAuthErrors[0] });
-    }
+    await connectToMongoDB();
 
     const { forumId, status } = req.body || {};
     if (!forumId || typeof forumId !== 'string') {
@@ -61,12 +47,12 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
     }
 
     const isCreator = forum.createdBy === username;
-    const adminCheck = validateAdminAccess(username);
+    const adminCheck = await validateAdminAccess(username, ADMIN_ACCESS_LEVELS.MODERATE_FORUMS);
     const isAdmin = adminCheck.hasAccess;
 
     if (!isCreator && !isAdmin) {
       return res.status(403).json({
-        error: 'Only the forum creator or an admin can change this forum’s status.',
+        error: 'Only the forum creator or a moderator can change this forum’s status.',
       });
     }
 
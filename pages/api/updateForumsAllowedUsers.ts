@@ -1,18 +1,25 @@
-import type { NextApiRequest, NextApiResponse } from "next";
+import type { NextApiResponse } from "next";
 import connectToMongoDB from "../../utils/mongodb";
 import Forum from "../../models/Forum";
+import { requireAuth, AuthenticatedRequest } from "../../middleware/auth";
 
-export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+export default async function handler(req: AuthenticatedRequest, res: NextApiResponse) {
   if (req.method !== "POST") {
     return res.status(405).json({ error: "Method not allowed" });
   }
 
   try {
+    const authResult = await requireAuth(req, res);
+    if (!authResult.authenticated || !authResult.username) {
+      return res.status(401).json({ error: "Authentication required" });
+    }
+    const username = authResult.username;
+
     await connectToMongoDB();
-    const { forumId, allowedUsers, username } = req.body;
+    const { forumId, allowedUsers } = req.body;
 
-    if (!forumId || !Array.isArray(allowedUsers) || !username) {
-      return res.status(400).json({ error: "forumId, allowedUsers, and username are required" });
+    if (!forumId || !Array.isArray(allowedUsers)) {
+      return res.status(400).json({ error: "forumId and allowedUsers are required" });
     }
 
     // Validate allowedUsers: must be array of non-empty strings
@@ -1,23 +1,21 @@
-import type { NextApiRequest, NextApiResponse } from 'next';
+import type { NextApiResponse } from 'next';
 import connectToMongoDB from '../../utils/mongodb';
 import Question from '../../models/Question';
 import User from '../../models/User';
 import mongoose from 'mongoose';
 import { UserContextResponse } from '../../types';
+import { requireAuth, AuthenticatedRequest } from '../../middleware/auth';
 import axios from 'axios';
 import { LRUCache } from '../../utils/cacheManager';
 import { cacheManager } from '../../utils/cacheManager';
+import { SharedCache } from '../../utils/sharedStore';
 
 // Cache for user context responses (10 minute TTL - balances freshness with cache efficiency)
 // User context is aggregated from last 50 questions, so it's relatively stable
 // 10 minutes provides good cache hit rate while maintaining acceptable data freshness
+// Shared between instances so a user doesn't miss on every instance in turn
 const USER_CONTEXT_CACHE_TTL = 10 * 60 * 1000; // 10 minutes (increased from 5 minutes)
-const USER_CONTEXT_CACHE_MAX_SIZE = 500; // Max 500 users
-const userContextCache = new LRUCache<UserContextResponse>(
-  USER_CONTEXT_CACHE_MAX_SIZE,
-  USER_CONTEXT_CACHE_TTL,
-  10 * 60 * 1000 // Cleanup every 10 minutes (matches TTL)
-);
+const userContextCache = new SharedCache<UserContextResponse>('user-context', USER_CONTEXT_CACHE_TTL);
 
 // Cache for game verification results (24 hour TTL - games don't change)
 const GAME_VERIFICATION_CACHE_TTL = 24 * 60 * 60 * 1000; // 24 hours
@@ -28,28 +26,27 @@ const gameVerificationCache = new LRUCache<boolean>(
   10 * 60 * 1000 // Cleanup every 10 minutes
 );
 
-// Register caches with cache manager for monitoring
-cacheManager.registerCache('UserContextCache', userContextCache);
+// Register cache with cache manager for monitoring
 cacheManager.registerCache('GameVerificationCache', gameVerificationCache);
 
 export default async function handler(
-  req: NextApiRequest,
+  req: AuthenticatedRequest,
   res: NextApiResponse<UserContextResponse>
 ) {
   if (req.method !== 'GET') {
     return res.status(405).json({ error: 'Method not allowed' });
   }
 
-  const { username } = req.query;
-
-  if (!username || typeof username !== 'string') {
-    return res.status(400).json({ error: 'Username is required' });
+  const authResult = await requireAuth(req, res);
+  if (!authResult.authenticated || !authResult.username) {
+    return res.status(401).json({ error: 'Authentication required' });
   }
+  const username = authResult.username;
 
   // Check cache first (bypass cache if ?refresh=true is provided)
   const shouldRefresh = req.query.refresh === 'true';
   if (!shouldRefresh) {
-    const cachedResponse = userContextCache.get(username);
+    const cachedResponse = await userContextCache.get(username);
     if (cachedResponse) {
       return res.status(200).json(cachedResponse);
     }
@@ -421,7 +418,7 @@ export default async function handler(
     };
 
     // Cache the response
-    userContextCache.set(username, response, USER_CONTEXT_CACHE_TTL);
+    await userContextCache.set(username, response, USER_CONTEXT_CACHE_TTL);
 
     return res.status(200).json(response);
 
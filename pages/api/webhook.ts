@@ -1,6 +1,7 @@
 import type { NextApiRequest, NextApiResponse } from 'next';
 import { connectToWingmanDB } from '../../utils/databaseConnections';
 import User from '../../models/User';
+import { createNotification } from '../../utils/notifications';
 import Stripe from 'stripe';
 
 const stripe = new Stripe(process.env.STRIPE_SECRET_KEY!, {
@@ -210,6 +211,16 @@ async function handleSubscriptionCreated(subscription: Stripe.Subscription) {
      }
    );
 
+  await createNotification({
+    username: user.username,
+    type: 'subscription',
+    title: 'Welcome to Wingman Pro!',
+    message: 'Your Pro subscription is active. Enjoy unlimited questions and Pro features.',
+    link: '/manage-subscription',
+    data: { event: 'created', subscriptionId: subscription.id },
+    dedupeKey: `subscription:created:${subscription.id}`
+  });
+
   // console.log(`Subscription ${subscription.id} processed for user ${username}`); // Commented out for production
 }
 
@@ -264,6 +275,20 @@ async function handleSubscriptionUpdated(subscription: Stripe.Subscription) {
      }
    );
 
+  // Cancellation scheduled for the end of the billing period
+  if (subscription.cancel_at_period_end && !user.subscription?.cancelAtPeriodEnd) {
+    const periodEnd = new Date((subscription as any).current_period_end * 1000);
+    await createNotification({
+      username: user.username,
+      type: 'subscription',
+      title: 'Subscription canceled',
+      message: `Your Pro access continues until ${periodEnd.toLocaleDateString('en-US', { month: 'long', day: 'numeric', year: 'numeric' })}.`,
+      link: '/manage-subscription',
+      data: { event: 'cancel_scheduled', subscriptionId: subscription.id },
+      dedupeKey: `subscription:cancel_scheduled:${subscription.id}:${(subscription as any).current_period_end}`
+    });
+  }
+
   // console.log(`Subscription ${subscription.id} updated for user ${username}`); // Commented out for production
 }
 
@@ -315,6 +340,16 @@ async function handleSubscriptionDeleted(subscription: Stripe.Subscription) {
     }
   );
 
+  await createNotification({
+    username: user.username,
+    type: 'subscription',
+    title: 'Pro subscription ended',
+    message: 'Your Pro subscription has ended. You can resubscribe any time.',
+    link: '/upgrade',
+    data: { event: 'deleted', subscriptionId: subscription.id },
+    dedupeKey: `subscription:deleted:${subscription.id}`
+  });
+
   // console.log(`Subscription ${subscription.id} deleted for user ${username}`); // Commented out for production
 }
 
@@ -426,5 +461,15 @@ async function handlePaymentFailed(invoice: Stripe.Invoice) {
     }
   );
 
+  await createNotification({
+    username: user.username,
+    type: 'subscription',
+    title: 'Payment failed',
+    message: 'We couldn\'t process your subscription payment. Update your payment method to keep Pro access.',
+    link: '/manage-subscription',
+    data: { event: 'payment_failed', subscriptionId, invoiceId: invoice.id },
+    dedupeKey: invoice.id ? `subscription:payment_failed:${invoice.id}` : undefined
+  });
+
   // console.log(`Payment failed for subscription ${subscriptionId}`); // Commented out for production
 } 
\ No newline at end of file
@@ -0,0 +1,132 @@
+#!/usr/bin/env node
+
+/**
+ * Audit API routes for client-supplied identity
+ *
+ * User-scoped routes must take the username from the session (requireAuth/optionalAuth in
+ * middleware/auth.ts), never from the query string, body or headers. This script fails when a
+ * handler reads a username from client input or falls back to a hard-coded 'test-user'.
+ *
+ * Routes where the username is legitimately client input are listed with the reason: pre-auth
+ * routes in ALLOWED, and admin routes (where it names the account acted on) in ADMIN_ALLOWED.
+ * Admin routes must check the caller's permission, or the audit fails for them too.
+ *
+ * Usage: node scripts/audit-api-auth.js
+ */
+
+import fs from 'fs';
+import path from 'path';
+
+const ROOT = process.cwd();
+const API_DIRS = ['pages/api', 'app/api'];
+
+const ALLOWED = {
+  'pages/api/auth/signup.ts': 'Registration: the username is being chosen',
+  'pages/api/auth/setup-password.ts': 'Pre-auth legacy account setup',
+  'pages/api/auth/setup-early-access.ts': 'Pre-auth early access setup',
+  'pages/api/validateUsername.ts': 'Availability check for a new username',
+  'pages/api/syncUser.ts': 'Legacy registration keyed on userId; username is the one being registered',
+};
+
+const ADMIN_ALLOWED = {
+  'pages/api/auth/admin-unlock-account.ts': 'Admin: username is the account to unlock',
+  'pages/api/admin/roles/index.ts': 'Admin: username is the account whose roles change',
+  'pages/api/admin/roles/audit.ts': 'Admin: username filters the audit log',
+  'pages/api/admin/moderation/decisions.ts': 'Admin: username filters moderation decisions',
+  'pages/api/admin/llm-usage.ts': 'Admin: username filters usage records',
+  'pages/api/debug-user-subscription.ts': 'Admin: username is the account to inspect',
+  'pages/api/subscriptionCleanup.ts': 'Admin: username is the account to clean up',
+  'pages/api/reprocess-questions.ts': 'Admin maintenance tool: username selects whose questions to reprocess',
+  'pages/api/test-performance-safeguards.ts': 'Admin test endpoint: username is the account under test',
+  'pages/api/automated-users/': 'Admin operator tools: username names the automated bot account',
+};
+
+// How an admin route checks the caller (utils/adminAccess.ts, middleware/auth.ts)
+const ADMIN_CHECK = /\b(requirePermission|requireAdminAccess|withPermission)\s*\(/;
+
+const CHECKS = [
+  {
+    pattern: /req\.(body|query|headers)\??\.username\b/,
+    message: 'reads username from the request',
+  },
+  {
+    pattern: /req\.(body|query|headers)\??\.\[\s*['"](x-)?username['"]\s*\]|req\.headers\[\s*['"](x-)?username['"]\s*\]/,
+    message: 'reads username from the request',
+  },
+  {
+    pattern: /\{[^}]*\busername\b[^}]*\}(\s*:\s*[^=;]+)?\s*=\s*req\.(body|query|headers)\b/,
+    message: 'destructures username from the request',
+  },
+  {
+    pattern: /['"]test-user['"]/,
+    message: "falls back to 'test-user' (use the dev impersonation header instead)",
+  },
+];
+
+function listFiles(dir) {
+  if (!fs.existsSync(dir)) return [];
+  return fs.readdirSync(dir, { withFileTypes: true }).flatMap((entry) => {
+    const fullPath = path.join(dir, entry.name);
+    if (entry.isDirectory()) return listFiles(fullPath);
+    return /\.(ts|tsx|js)$/.test(entry.name) ? [fullPath] : [];
+  });
+}
+
+// Blank out comments but keep line breaks so reported line numbers stay right
+function stripComments(source) {
+  return source
+    .replace(/\/\*[\s\S]*?\*\//g, (comment) => comment.replace(/[^\n]/g, ' '))
+    .replace(/(^|[^:'"`])\/\/.*$/gm, '$1');
+}
+
+function isListed(list, relativePath) {
+  return Object.keys(list).some((allowed) =>
+    allowed.endsWith('/') ? relativePath.startsWith(allowed) : relativePath === allowed
+  );
+}
+
+const findings = [];
+
+for (const apiDir of API_DIRS) {
+  for (const file of listFiles(path.join(ROOT, apiDir))) {
+    const relativePath = path.relative(ROOT, file).split(path.sep).join('/');
+    if (isListed(ALLOWED, relativePath)) continue;
+
+    const source = stripComments(fs.readFileSync(file, 'utf8'));
+    if (isListed(ADMIN_ALLOWED, relativePath)) {
+      // An allow-listed admin route without a permission check lets anyone act on any username
+      if (!ADMIN_CHECK.test(source)) {
+        findings.push(`${relativePath} is allowed as an admin route but never checks admin permission`);
+      }
+      continue;
+    }
+
+    // Multi-line destructuring is joined onto one line before matching
+    const lines = source.split('\n');
+    lines.forEach((line, index) => {
+      let statement = line;
+      if (/\{[^}]*$/.test(line) && !/(=>|\)|\btry|\belse)\s*\{\s*$/.test(line)) {
+        statement = lines.slice(index, index + 15).join(' ');
+        const end = statement.indexOf(';');
+        if (end !== -1) statement = statement.slice(0, end);
+      }
+      for (const check of CHECKS) {
+        if (check.pattern.test(statement)) {
+          findings.push(`${relativePath}:${index + 1} ${check.message}`);
+          break;
+        }
+      }
+    });
+  }
+}
+
+if (findings.length > 0) {
+  console.error('❌ API routes taking identity from client input:\n');
+  findings.forEach((finding) => console.error(`  ${finding}`));
+  console.error('\nUse requireAuth/optionalAuth from middleware/auth.ts, or add the route to ALLOWED or');
+  console.error('ADMIN_ALLOWED in scripts/audit-api-auth.js with the reason the username is client input.');
+  console.error('Admin routes must call requirePermission, requireAdminAccess or withPermission.');
+  process.exit(1);
+}
+
+console.log('✅ No API route takes identity from client input');
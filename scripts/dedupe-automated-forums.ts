@@ -22,6 +22,8 @@
 import mongoose from 'mongoose';
 import { connectToWingmanDB } from '../utils/databaseConnections';
 import Forum from '../models/Forum';
+import ForumPost from '../models/ForumPost';
+import { getPostsByForum } from '../utils/forumPosts';
 import User from '../models/User';
 import { normalizeForumCategory } from '../utils/forumCategory';
 
@@ -112,7 +114,7 @@ async function main() {
   if (!options.includeArchived) query['metadata.status'] = 'active';
 
   const forums = await Forum.find(query)
-    .select('forumId _id title gameTitle category createdBy createdAt posts metadata')
+    .select('forumId _id title gameTitle category createdBy createdAt metadata')
     .sort({ createdAt: 1 })
     .limit(options.maxForums)
     .lean();
@@ -130,6 +132,10 @@ async function main() {
   const duplicateGroups = Array.from(groups.entries()).filter(([, arr]) => arr.length > 1);
   console.log(`[dedupe-automated-forums] Duplicate groups found: ${duplicateGroups.length}`);
 
+  const postsByForum = await getPostsByForum(
+    duplicateGroups.slice(0, options.maxGroups).flatMap(([, group]) => group.slice(1).map((f: any) => f.forumId))
+  );
+
   let processedGroups = 0;
   let movedPosts = 0;
   let archivedForums = 0;
@@ -153,7 +159,7 @@ async function main() {
       const dupeId = dupe.forumId;
 
       // Split dupe posts into automated vs non-automated
-      const posts = Array.isArray(dupe.posts) ? dupe.posts : [];
+      const posts = postsByForum.get(dupeId) || [];
       const automatedPosts = posts.filter((p: any) => {
         const u = p?.username || p?.createdBy;
         return u && automatedUsernames.has(u) && (p.metadata?.status ?? 'active') === 'active';
@@ -170,10 +176,13 @@ async function main() {
       } else {
         if (automatedPosts.length > 0) {
           const ids = automatedPosts.map((p: any) => p._id);
+          await ForumPost.updateMany(
+            { _id: { $in: ids }, forumId: dupeId },
+            { $set: { forumId: canonicalId } }
+          );
           await Forum.updateOne(
             { forumId: dupeId },
             {
-              $pull: { posts: { _id: { $in: ids } } },
               $inc: { 'metadata.totalPosts': -automatedPosts.length },
               $set: { 'metadata.lastActivityAt': new Date(), updatedAt: new Date() },
             }
@@ -181,7 +190,6 @@ async function main() {
           await Forum.updateOne(
             { forumId: canonicalId },
             {
-              $push: { posts: { $each: automatedPosts } },
               $inc: { 'metadata.totalPosts': automatedPosts.length },
               $set: { 'metadata.lastActivityAt': new Date(), updatedAt: new Date() },
             }
@@ -190,8 +198,7 @@ async function main() {
         }
 
         // Refresh dupe forum to see what's left
-        const refreshed = await Forum.findOne({ forumId: dupeId }).select('posts title metadata').lean() as any;
-        const remainingPosts = Array.isArray(refreshed?.posts) ? refreshed.posts : [];
+        const remainingPosts = await ForumPost.find({ forumId: dupeId }).select('username createdBy').lean() as any[];
         const remainingNonAutomated = remainingPosts.filter((p: any) => {
           const u = p?.username || p?.createdBy;
           return !u || !automatedUsernames.has(u);
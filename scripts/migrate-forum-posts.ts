@@ -0,0 +1,202 @@
+/**
+ * Migration: move embedded Forum.posts into the standalone forumposts collection.
+ *
+ * Strategy:
+ * - Read forums that still have a `posts` array straight from the collection (the Forum
+ *   schema no longer declares it)
+ * - Upsert each post into ForumPost by its existing _id, so replyTo links and post IDs
+ *   held by clients keep working, and re-running the script never duplicates posts
+ * - Recount metadata.totalPosts from the posts collection
+ * - With --remove-embedded, $unset the old array once the forum's posts are copied
+ *
+ * Usage:
+ *   npx tsx scripts/migrate-forum-posts.ts --dry-run
+ *   npx tsx scripts/migrate-forum-posts.ts --apply
+ *   npx tsx scripts/migrate-forum-posts.ts --apply --remove-embedded
+ *
+ * Options:
+ *   --batch-size=50
+ */
+import mongoose from 'mongoose';
+import { connectToWingmanDB } from '../utils/databaseConnections';
+import Forum from '../models/Forum';
+import ForumPost from '../models/ForumPost';
+
+type ScriptOptions = {
+  dryRun: boolean;
+  removeEmbedded: boolean;
+  batchSize: number;
+};
+
+function parseArguments(): ScriptOptions {
+  const args = process.argv.slice(2);
+  const options: ScriptOptions = {
+    dryRun: true,
+    removeEmbedded: false,
+    batchSize: 50,
+  };
+
+  for (const arg of args) {
+    if (arg === '--apply') options.dryRun = false;
+    else if (arg === '--dry-run') options.dryRun = true;
+    else if (arg === '--remove-embedded') options.removeEmbedded = true;
+    else if (arg.startsWith('--batch-size=')) {
+      const n = parseInt(arg.split('=')[1] || '', 10);
+      if (!Number.isNaN(n) && n > 0) options.batchSize = n;
+    } else if (arg === '--help' || arg === '-h') {
+      console.log(`
+Migrate embedded forum posts into the forumposts collection
+
+Usage:
+  npx tsx scripts/migrate-forum-posts.ts --dry-run
+  npx tsx scripts/migrate-forum-posts.ts --apply
+  npx tsx scripts/migrate-forum-posts.ts --apply --remove-embedded
+
+Options:
+  --dry-run            Report only (default)
+  --apply              Copy posts into forumposts
+  --remove-embedded    After copying, remove the old Forum.posts arrays
+  --batch-size=50      Forums loaded per batch (default: 50)
+      `.trim());
+      process.exit(0);
+    }
+  }
+
+  return options;
+}
+
+function toForumPostDocument(forumId: string, post: any) {
+  const metadata = post.metadata || {};
+  const username = post.username || post.createdBy || 'Unknown';
+  return {
+    _id: post._id,
+    forumId,
+    username,
+    message: post.message || '',
+    timestamp: post.timestamp ? new Date(post.timestamp) : new Date(),
+    createdBy: post.createdBy || username,
+    replyTo: post.replyTo || null,
+    metadata: {
+      edited: Boolean(metadata.edited),
+      ...(metadata.editedAt && { editedAt: metadata.editedAt }),
+      ...(metadata.editedBy && { editedBy: metadata.editedBy }),
+      likes: Array.isArray(metadata.likedBy) ? metadata.likedBy.length : (metadata.likes || 0),
+      likedBy: Array.isArray(metadata.likedBy) ? metadata.likedBy : [],
+      reactions: metadata.reactions || {},
+      attachments: Array.isArray(metadata.attachments) ? metadata.attachments : [],
+      status: metadata.status || 'active',
+    },
+  };
+}
+
+async function main() {
+  const options = parseArguments();
+  console.log('[migrate-forum-posts] Starting...', options);
+
+  await connectToWingmanDB();
+
+  // Raw collection access: `posts` is no longer part of the Forum schema
+  const forumsCollection = Forum.collection;
+  const embeddedQuery = { 'posts.0': { $exists: true } };
+  const totalForums = await forumsCollection.countDocuments(embeddedQuery);
+  console.log(`[migrate-forum-posts] Forums with embedded posts: ${totalForums}`);
+
+  let forumsProcessed = 0;
+  let postsFound = 0;
+  let postsInserted = 0;
+  let postsSkipped = 0;
+  let forumsCleared = 0;
+  let lastId: mongoose.Types.ObjectId | null = null;
+
+  while (true) {
+    const batch: any[] = await forumsCollection
+      .find(lastId ? { ...embeddedQuery, _id: { $gt: lastId } } : embeddedQuery)
+      .project({ forumId: 1, posts: 1 })
+      .sort({ _id: 1 })
+      .limit(options.batchSize)
+      .toArray();
+
+    if (batch.length === 0) break;
+    lastId = batch[batch.length - 1]._id;
+
+    for (const forum of batch) {
+      forumsProcessed++;
+      const posts = (Array.isArray(forum.posts) ? forum.posts : []).filter((p: any) => p?._id);
+      postsFound += posts.length;
+
+      if (options.dryRun) {
+        const alreadyMigrated = await ForumPost.countDocuments({ _id: { $in: posts.map((p: any) => p._id) } });
+        console.log(
+          `[DRY RUN] forumId=${forum.forumId}: ${posts.length} embedded post(s), ${alreadyMigrated} already migrated`
+        );
+        continue;
+      }
+
+      if (posts.length > 0) {
+        // $setOnInsert keeps posts edited in the new collection since an earlier run
+        const result = await ForumPost.bulkWrite(
+          posts.map((post: any) => ({
+            updateOne: {
+              filter: { _id: post._id },
+              update: { $setOnInsert: toForumPostDocument(forum.forumId, post) },
+              upsert: true,
+            },
+          })),
+          { ordered: false }
+        );
+        postsInserted += result.upsertedCount;
+        postsSkipped += posts.length - result.upsertedCount;
+      }
+
+      const totalPosts = await ForumPost.countDocuments({ forumId: forum.forumId });
+      await forumsCollection.updateOne(
+        { _id: forum._id },
+        {
+          $set: { 'metadata.totalPosts': totalPosts },
+          ...(options.removeEmbedded && { $unset: { posts: '' } }),
+        }
+      );
+      if (options.removeEmbedded) forumsCleared++;
+    }
+
+    console.log(`[migrate-forum-posts] Progress: ${forumsProcessed}/${totalForums} forums`);
+  }
+
+  // Forums created empty under the old schema still carry `posts: []`
+  if (!options.dryRun && options.removeEmbedded) {
+    const emptyArrays = await forumsCollection.updateMany(
+      { posts: { $exists: true, $size: 0 } },
+      { $unset: { posts: '' } }
+    );
+    forumsCleared += emptyArrays.modifiedCount;
+  }
+
+  console.log('='.repeat(72));
+  console.log('[migrate-forum-posts] Done');
+  console.log(
+    JSON.stringify(
+      {
+        dryRun: options.dryRun,
+        forumsProcessed,
+        postsFound,
+        postsInserted,
+        postsSkipped,
+        forumsCleared,
+      },
+      null,
+      2
+    )
+  );
+
+  await mongoose.disconnect();
+}
+
+main().catch(async err => {
+  console.error('[migrate-forum-posts] Fatal error:', err);
+  try {
+    await mongoose.disconnect();
+  } catch {
+    // ignore
+  }
+  process.exit(1);
+});
@@ -21,6 +21,8 @@
 import mongoose from 'mongoose';
 import { connectToWingmanDB } from '../utils/databaseConnections';
 import Forum from '../models/Forum';
+import ForumPost from '../models/ForumPost';
+import { getPostsByForum } from '../utils/forumPosts';
 import User from '../models/User';
 
 type NormalizedCategory = 'general' | 'gameplay' | 'mods' | 'speedruns' | 'help';
@@ -200,7 +202,6 @@ async function findOrCreateForumForGameAndCategory(params: {
     isPrivate: false,
     allowedUsers: [],
     createdBy: 'system_repair',
-    posts: [],
     metadata: {
       totalPosts: 0,
       lastActivityAt: new Date(),
@@ -229,7 +230,7 @@ async function main() {
   }
 
   const forums = await Forum.find(forumQuery)
-    .select('forumId _id title gameTitle category posts metadata')
+    .select('forumId _id title gameTitle category metadata')
     .lean();
 
   console.log(`[repair-automated-forum-posts] Forums fetched: ${forums.length}`);
@@ -248,6 +249,7 @@ async function main() {
   }
 
   const limitedForums = forums.slice(0, options.maxForums);
+  const postsByForum = await getPostsByForum(limitedForums.map(f => f.forumId));
 
   let scannedPosts = 0;
   let mismatchedRoots = 0;
@@ -259,7 +261,7 @@ async function main() {
   for (const forum of limitedForums) {
     const forumCategory = normalizeCategory(forum.category);
     const gameTitle = forum.gameTitle || forum.title || '';
-    const posts: any[] = Array.isArray((forum as any).posts) ? (forum as any).posts : [];
+    const posts: any[] = postsByForum.get(forum.forumId) || [];
     if (!gameTitle || posts.length === 0) continue;
 
     // Build reply graph within this forum
@@ -349,13 +351,17 @@ async function main() {
       });
       if (destination.created) createdForums++;
 
-      // Move posts: pull from source, push into destination
+      // Move posts: re-point them at the destination forum and fix both counters
       const objectIds = toMovePosts.map(pst => pst._id);
 
+      await ForumPost.updateMany(
+        { _id: { $in: objectIds }, forumId: forum.forumId },
+        { $set: { forumId: destination.forumId } }
+      );
+
       await Forum.updateOne(
         { forumId: forum.forumId },
         {
-          $pull: { posts: { _id: { $in: objectIds } } },
           $inc: { 'metadata.totalPosts': -toMovePosts.length },
           $set: { 'metadata.lastActivityAt': new Date(), updatedAt: new Date() },
         }
@@ -364,7 +370,6 @@ async function main() {
       await Forum.updateOne(
         { forumId: destination.forumId },
         {
-          $push: { posts: { $each: toMovePosts } },
           $inc: { 'metadata.totalPosts': toMovePosts.length },
           $set: { 'metadata.lastActivityAt': new Date(), updatedAt: new Date() },
         }
@@ -240,7 +240,7 @@ async function sendBotInfoToChannel(channelName: string, options: ScriptOptions)
         },
         {
           name: '⚡ Slash Commands',
-          value: 'You can also use slash commands! Try typing `/` in any channel where the bot is present to see available commands like `/ping` and `/help`.',
+          value: 'You can also use slash commands! Try `/ask` (attach a screenshot to ask about it), `/challenge`, `/streak`, `/achievements`, `/leaderboard` and `/recommend`. Use `/link` to connect your Discord account to Video Game Wingman, and `/help` to see everything.',
           inline: false
         }
       )
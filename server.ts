@@ -6,6 +6,7 @@ import { initializeScheduler } from "./utils/automatedUsersScheduler";
 import { initializeDiscordBot, shutdownDiscordBot } from "./utils/discordBot";
 import { initializeTwitchBot, shutdownTwitchBot } from "./utils/twitchBot";
 import { startTokenRefreshScheduler } from "./utils/twitchBotTokenRefresh";
+import { getSharedStore, closeSharedStore } from "./utils/sharedStore";
 import fs from "fs";
 import path from "path";
 
@@ -96,6 +97,10 @@ app.prepare().then(async () => {
   //   console.log(`[SERVER KEEPALIVE] Server is alive at ${new Date().toISOString()}`);
   // }, 60000); // Every minute
   
+  // Create the shared cache/rate-limit store up front so this process receives cache
+  // invalidations from other instances (Redis when REDIS_URL is set)
+  getSharedStore();
+
   initializeScheduler();
   setupGoogleCredentials();
 
@@ -184,6 +189,11 @@ app.prepare().then(async () => {
     // Shutdown Twitch bot
     await shutdownTwitchBot();
 
+    // Close shared store connections
+    await closeSharedStore().catch((error) => {
+      console.warn('Error closing shared store:', error instanceof Error ? error.message : error);
+    });
+
     // Give processes time to finish
     setTimeout(() => {
       console.log('Graceful shutdown complete');
@@ -0,0 +1,311 @@
+/**
+ * Test script for the shared cache/rate-limit store
+ *
+ * Runs the same checks against MemoryStore and RedisStore. RedisStore is tested against a small
+ * in-process stand-in server that speaks the Redis protocol for the commands the store uses, and
+ * also against a real server when REDIS_URL is set:
+ *
+ *   npm run test:store
+ *   REDIS_URL=redis://localhost:6379/15 npm run test:store
+ */
+
+import net from 'net';
+import { MemoryStore } from '../utils/cacheManager';
+import { RedisStore } from '../utils/redisStore';
+import type { SharedStore } from '../utils/sharedStore';
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+// --- Redis stand-in ---------------------------------------------------------------------------
+
+type Reply = string | number | null | Error | Reply[];
+
+function encode(reply: Reply): string {
+  if (reply === null) return '$-1\r\n';
+  if (reply instanceof Error) return `-${reply.message}\r\n`;
+  if (typeof reply === 'number') return `:${reply}\r\n`;
+  if (Array.isArray(reply)) return `*${reply.length}\r\n${reply.map(encode).join('')}`;
+  if (reply === 'OK' || reply === 'PONG') return `+${reply}\r\n`;
+  return `$${Buffer.byteLength(reply)}\r\n${reply}\r\n`;
+}
+
+// Parse complete `*<n>\r\n$<len>\r\n<arg>\r\n...` commands; returns them and the bytes consumed
+function parseCommands(buffer: Buffer): { commands: string[][]; consumed: number } {
+  const commands: string[][] = [];
+  let offset = 0;
+  outer: while (offset < buffer.length) {
+    let position = offset;
+    const headerEnd = buffer.indexOf('\r\n', position);
+    if (headerEnd === -1) break;
+    const count = parseInt(buffer.toString('utf8', position + 1, headerEnd), 10);
+    position = headerEnd + 2;
+    const args: string[] = [];
+    for (let i = 0; i < count; i++) {
+      const lengthEnd = buffer.indexOf('\r\n', position);
+      if (lengthEnd === -1) break outer;
+      const length = parseInt(buffer.toString('utf8', position + 1, lengthEnd), 10);
+      if (buffer.length < lengthEnd + 2 + length + 2) break outer;
+      args.push(buffer.toString('utf8', lengthEnd + 2, lengthEnd + 2 + length));
+      position = lengthEnd + 2 + length + 2;
+    }
+    commands.push(args);
+    offset = position;
+  }
+  return { commands, consumed: offset };
+}
+
+function startRedisStandIn(): Promise<{ url: string; close: () => Promise<void> }> {
+  const data = new Map<string, { value: string; expiresAt?: number }>();
+  const subscribers = new Map<string, Set<net.Socket>>();
+
+  const lookup = (key: string) => {
+    const entry = data.get(key);
+    if (entry && entry.expiresAt !== undefined && entry.expiresAt <= Date.now()) {
+      data.delete(key);
+      return undefined;
+    }
+    return entry;
+  };
+
+  const execute = (socket: net.Socket, args: string[]): Reply => {
+    const [name, ...rest] = args;
+    switch (name.toUpperCase()) {
+      case 'PING':
+      case 'AUTH':
+      case 'SELECT':
+        return name.toUpperCase() === 'PING' ? 'PONG' : 'OK';
+      case 'QUIT':
+        setImmediate(() => socket.end());
+        return 'OK';
+      case 'GET':
+        return lookup(rest[0])?.value ?? null;
+      case 'SET': {
+        const [key, value, ...options] = rest;
+        const upper = options.map((option) => option.toUpperCase());
+        if (upper.indexOf('NX') !== -1 && lookup(key)) return null;
+        const pxIndex = upper.indexOf('PX');
+        const expiresAt = pxIndex !== -1 ? Date.now() + parseInt(options[pxIndex + 1], 10) : undefined;
+        data.set(key, { value, expiresAt });
+        return 'OK';
+      }
+      case 'DEL':
+        return rest.filter((key) => lookup(key) && data.delete(key)).length;
+      case 'EXISTS':
+        return rest.filter((key) => lookup(key)).length;
+      case 'INCRBY': {
+        const entry = lookup(rest[0]);
+        const next = (entry ? parseInt(entry.value, 10) : 0) + parseInt(rest[1], 10);
+        data.set(rest[0], { value: String(next), expiresAt: entry?.expiresAt });
+        return next;
+      }
+      case 'PTTL': {
+        const entry = lookup(rest[0]);
+        if (!entry) return -2;
+        return entry.expiresAt === undefined ? -1 : entry.expiresAt - Date.now();
+      }
+      case 'PEXPIRE': {
+        const entry = lookup(rest[0]);
+        if (!entry) return 0;
+        entry.expiresAt = Date.now() + parseInt(rest[1], 10);
+        return 1;
+      }
+      case 'PUBLISH': {
+        const listeners = Array.from(subscribers.get(rest[0]) || []);
+        listeners.forEach((listener) => listener.write(encode(['message', rest[0], rest[1]])));
+        return listeners.length;
+      }
+      case 'SUBSCRIBE': {
+        if (!subscribers.has(rest[0])) subscribers.set(rest[0], new Set());
+        subscribers.get(rest[0])!.add(socket);
+        return ['subscribe', rest[0], 1];
+      }
+      default:
+        return new Error(`ERR unknown command '${name}'`);
+    }
+  };
+
+  const sockets = new Set<net.Socket>();
+  const server = net.createServer((socket) => {
+    sockets.add(socket);
+    let buffer = Buffer.alloc(0);
+    socket.on('data', (chunk: Buffer) => {
+      buffer = Buffer.concat([buffer, chunk]);
+      const { commands, consumed } = parseCommands(buffer);
+      buffer = buffer.subarray(consumed);
+      commands.forEach((args) => socket.write(encode(execute(socket, args))));
+    });
+    socket.on('close', () => {
+      sockets.delete(socket);
+      subscribers.forEach((listeners) => listeners.delete(socket));
+    });
+    socket.on('error', () => undefined);
+  });
+
+  return new Promise((resolve) => {
+    server.listen(0, '127.0.0.1', () => {
+      const { port } = server.address() as net.AddressInfo;
+      resolve({
+        url: `redis://:secret@127.0.0.1:${port}/3`,
+        close: () =>
+          new Promise<void>((done) => {
+            sockets.forEach((socket) => socket.destroy());
+            server.close(() => done());
+          }),
+      });
+    });
+  });
+}
+
+// --- Store contract ---------------------------------------------------------------------------
+
+interface TestCase {
+  name: string;
+  run: (store: SharedStore, peer: SharedStore) => Promise<void>;
+}
+
+const assertEqual = (actual: unknown, expected: unknown, label: string) => {
+  if (JSON.stringify(actual) !== JSON.stringify(expected)) {
+    throw new Error(`${label}: expected ${JSON.stringify(expected)}, got ${JSON.stringify(actual)}`);
+  }
+};
+
+const testCases: TestCase[] = [
+  {
+    name: 'Stores and reads values',
+    run: async (store) => {
+      await store.set('test:value', { games: ['Hades', 'Celeste'], count: 2 }, 10000);
+      assertEqual(await store.get('test:value'), { games: ['Hades', 'Celeste'], count: 2 }, 'value');
+      assertEqual(await store.get('test:missing'), null, 'missing value');
+    },
+  },
+  {
+    name: 'Expires values after their TTL',
+    run: async (store) => {
+      await store.set('test:short', 'soon gone', 50);
+      await sleep(100);
+      assertEqual(await store.get('test:short'), null, 'expired value');
+    },
+  },
+  {
+    name: 'Deletes values and counters',
+    run: async (store) => {
+      await store.set('test:deleted', 'x', 10000);
+      await store.delete('test:deleted');
+      assertEqual(await store.get('test:deleted'), null, 'deleted value');
+      await store.increment('test:deleted-counter', 10000);
+      await store.delete('test:deleted-counter');
+      assertEqual((await store.increment('test:deleted-counter', 10000)).count, 1, 'counter after delete');
+    },
+  },
+  {
+    name: 'Counts hits in a fixed window',
+    run: async (store) => {
+      const start = Date.now();
+      const first = await store.increment('test:window', 200);
+      const second = await store.increment('test:window', 200);
+      const third = await store.increment('test:window', 200);
+      assertEqual([first.count, second.count, third.count], [1, 2, 3], 'counts');
+      if (third.resetAt < start || third.resetAt > start + 250) {
+        throw new Error(`resetAt ${third.resetAt - start}ms after start, expected about 200ms`);
+      }
+      await sleep(250);
+      assertEqual((await store.increment('test:window', 200)).count, 1, 'count in the next window');
+    },
+  },
+  {
+    name: 'Decrements without starting a window',
+    run: async (store) => {
+      assertEqual((await store.increment('test:decrement', 10000, -1)).count, 0, 'decrement of a missing counter');
+      await store.increment('test:decrement', 10000);
+      await store.increment('test:decrement', 10000);
+      assertEqual((await store.increment('test:decrement', 10000, -1)).count, 1, 'count after decrement');
+    },
+  },
+  {
+    name: 'Shares values and counters between instances',
+    run: async (store, peer) => {
+      await store.set('test:shared', 'from store', 10000);
+      assertEqual(await peer.get('test:shared'), 'from store', 'value seen by peer');
+      await store.increment('test:shared-counter', 10000);
+      assertEqual((await peer.increment('test:shared-counter', 10000)).count, 2, 'count seen by peer');
+    },
+  },
+  {
+    name: 'Delivers published messages to subscribers',
+    run: async (store, peer) => {
+      const received: string[] = [];
+      await peer.subscribe('test-channel', (message) => received.push(message));
+      await store.publish('test-channel', JSON.stringify({ cache: 'ForumListCache' }));
+      await sleep(100);
+      assertEqual(received, ['{"cache":"ForumListCache"}'], 'messages');
+    },
+  },
+];
+
+async function runContract(label: string, store: SharedStore, peer: SharedStore): Promise<{ passed: number; failed: number }> {
+  console.log(`🧪 ${label}\n`);
+  let passed = 0;
+  let failed = 0;
+
+  for (const testCase of testCases) {
+    try {
+      await testCase.run(store, peer);
+      console.log(`✅ ${testCase.name}: PASSED`);
+      passed++;
+    } catch (error) {
+      console.log(`❌ ${testCase.name}: FAILED`);
+      console.log(`   ${error instanceof Error ? error.message : String(error)}`);
+      failed++;
+    }
+  }
+  console.log('');
+  return { passed, failed };
+}
+
+async function testSharedStore() {
+  const results: Array<{ passed: number; failed: number }> = [];
+
+  // One MemoryStore is both "instances": it only ever covers a single process
+  const memoryStore = new MemoryStore(100);
+  results.push(await runContract('MemoryStore', memoryStore, memoryStore));
+  await memoryStore.close();
+
+  const standIn = await startRedisStandIn();
+  const prefix = `wingman-test-${Date.now()}:`;
+  const redisStore = new RedisStore(standIn.url, prefix);
+  const redisPeer = new RedisStore(standIn.url, prefix);
+  results.push(await runContract('RedisStore (local stand-in)', redisStore, redisPeer));
+  await Promise.all([redisStore.close(), redisPeer.close()]);
+  await standIn.close();
+
+  if (process.env.REDIS_URL) {
+    const realStore = new RedisStore(process.env.REDIS_URL, prefix);
+    const realPeer = new RedisStore(process.env.REDIS_URL, prefix);
+    results.push(await runContract(`RedisStore (${new URL(process.env.REDIS_URL).host})`, realStore, realPeer));
+    await Promise.all([realStore.close(), realPeer.close()]);
+  } else {
+    console.log('ℹ️  REDIS_URL not set, skipping the real Redis run\n');
+  }
+
+  const passed = results.reduce((total, result) => total + result.passed, 0);
+  const failed = results.reduce((total, result) => total + result.failed, 0);
+
+  console.log('📊 Test Results:');
+  console.log(`   ✅ Passed: ${passed}`);
+  console.log(`   ❌ Failed: ${failed}`);
+  console.log(`   📈 Total: ${passed + failed}\n`);
+
+  return failed === 0;
+}
+
+// Run the test
+testSharedStore()
+  .then((success) => {
+    process.exit(success ? 0 : 1);
+  })
+  .catch((error) => {
+    console.error('Test execution failed:', error);
+    process.exit(1);
+  });
+
+export { testSharedStore, startRedisStandIn };
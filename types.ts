@@ -23,6 +23,7 @@ export interface Conversation {
   response: string;
   timestamp: Date;
   imageUrl?: string; // Optional image URL for questions with screenshots
+  threadId?: string; // Conversation thread this question belongs to
   // Metadata fields for challenge detection
   detectedGenre?: string[];
   questionCategory?: string;
@@ -150,13 +151,21 @@ export interface Forum {
   category: string;
   isPrivate: boolean;
   allowedUsers: string[];
-  posts: ForumPost[];
+  isLocked?: boolean; // Locked by a moderator: readable, no new posts
+  posts: ForumPost[]; // Loaded pages of posts, oldest first
+  postsPagination?: ForumPostsPagination;
+  pinnedPosts?: ForumPost[]; // Shown above the thread
   createdAt: Date;
   updatedAt: Date;
   createdBy: string;
   metadata: ForumMetadata;
 }
 
+export interface ForumPostsPagination {
+  nextCursor: string | null; // Pass to /api/forumPosts for the next page
+  hasMore: boolean;
+}
+
 export interface ForumMetadata {
   totalPosts: number;
   lastActivityAt: Date;
@@ -187,6 +196,8 @@ export interface ForumPost {
       url: string;
       name: string;
     }>;
+    status?: 'active' | 'hidden' | 'deleted';
+    isPinned?: boolean;
   };
 }
 
@@ -239,6 +250,7 @@ export interface ForumContextType {
   deletePost: (forumId: string, postId: string) => Promise<void>;
   likePost: (forumId: string, postId: string) => Promise<void>;
   reactToPost: (forumId: string, postId: string, reactionType: string) => Promise<void>;
+  loadMorePosts: (forumId: string) => Promise<void>;
   updateForumUsers: (forumId: string, allowedUsers: string[]) => Promise<boolean>;
   updateForumStatus: (forumId: string, status: 'active' | 'archived') => Promise<Forum | null>;
   setCurrentForum: (forum: Forum | null) => void;
@@ -327,6 +339,61 @@ export interface AchievementData {
   totalAchievements: number;
 }
 
+// Sent to a user's socket room when they complete one of today's challenges
+export interface ChallengeCompletedData {
+  username: string;
+  challenges: Array<{
+    challengeId: string;
+    title: string;
+  }>;
+  allCompletedToday: boolean;
+  currentStreak: number;
+  newRewards: ChallengeReward[];
+  message: string;
+}
+
+// Sent to a post author's socket room when someone replies to their forum post
+export interface ForumReplyNotificationData {
+  forumId: string;
+  forumTitle: string;
+  postId: string; // The reply
+  replyToPostId: string; // The author's post that was replied to
+  repliedBy: string;
+  preview: string;
+  message: string;
+}
+
+export type SearchResultType = 'forum' | 'post' | 'question' | 'guide';
+
+// One hit from /api/search; highlights are [start, end) ranges into snippet
+export interface SearchResult {
+  type: SearchResultType;
+  id: string; // forumId for forums, _id otherwise (guides: the guide's _id in user.guides)
+  title: string;
+  snippet: string;
+  highlights: Array<{ start: number; end: number }>;
+  score: number;
+  timestamp: string;
+  link?: string; // Forums and posts only
+  gameTitle?: string;
+  category?: string;
+  forumId?: string; // Posts only
+}
+
+// In-app notification as returned by /api/notifications and pushed on the `notification` socket event
+export interface NotificationData {
+  id: string;
+  type: 'forum_reply' | 'forum_mention' | 'post_reaction' | 'achievement' | 'challenge_milestone' | 'feedback_response' | 'subscription';
+  title: string;
+  message: string;
+  link?: string;
+  actor?: string;
+  data?: Record<string, any>;
+  isRead: boolean;
+  readAt?: string;
+  createdAt: string;
+}
+
 export interface PrivateForumUserManagementProps {
   forumId: string;
   allowedUsers: string[];
@@ -336,7 +403,6 @@ export interface PrivateForumUserManagementProps {
 }
 
 export interface CheckNewAchievementsRequest {
-  username: string;
   lastChecked: string | null; // ISO string or null
 }
 
@@ -586,6 +652,7 @@ export interface AccountData {
   healthMonitoring?: HealthMonitoring;
   twitchUsername?: string | null;
   twitchId?: string | null;
+  twoFactorEnabled?: boolean;
 }
 
 
@@ -683,6 +750,158 @@ export interface AdminFeedbackDashboardProps {
   username: string | null;
 }
 
+// ModerationAppealForm.tsx and ModerationReviewQueue.tsx:
+export type ModerationReviewPlatform = "web" | "twitch" | "discord";
+
+export interface ModerationViolationRecord {
+  id: string;
+  platform: ModerationReviewPlatform;
+  subject: string;
+  channelName?: string;
+  guildId?: string;
+  warningCount: number;
+  banCount?: number;
+  timeoutCount?: number;
+  isBanned: boolean;
+  isPermanent: boolean;
+  banExpiresAt?: string | null;
+  violations: {
+    offendingWords: string[];
+    content?: string;
+    timestamp: string;
+    actionTaken?: string;
+    reason?: string;
+  }[];
+  pendingAppeals?: ModerationAppealEntry[];
+}
+
+export interface ModerationAppealEntry {
+  _id: string;
+  username: string;
+  platform: ModerationReviewPlatform;
+  violationRecordId: string;
+  message: string;
+  status: "pending" | "upheld" | "overturned" | "reduced";
+  reviewedBy?: string;
+  reviewedAt?: string;
+  reviewNote?: string;
+  createdAt: string;
+}
+
+export interface ModerationAppealFormProps {
+  onClose?: () => void;
+}
+
+export interface DataExportJob {
+  id: string;
+  status: "queued" | "processing" | "ready" | "failed" | "expired";
+  createdAt: string;
+  completedAt: string | null;
+  expiresAt: string | null;
+  fileName: string | null;
+  fileSize: number | null;
+  sections: Record<string, number> | null;
+  error: string | null;
+  downloadUrl: string | null;
+}
+
+export interface AccountDataExportProps {
+  className?: string;
+}
+
+// Entry from /api/account/security-events
+export interface SecurityEventItem {
+  id: string;
+  type:
+    | "login"
+    | "login_reported"
+    | "account_locked"
+    | "password_changed"
+    | "password_reset"
+    | "email_changed"
+    | "two_factor_enabled"
+    | "two_factor_disabled"
+    | "sessions_revoked";
+  severity: "info" | "warning" | "critical";
+  createdAt?: string;
+  device?: string;
+  ipAddress?: string;
+  location?: string;
+  riskReasons: string[];
+  reportedAt?: string;
+  details?: Record<string, any>;
+}
+
+export interface SecurityEventsTimelineProps {
+  className?: string;
+}
+
+export interface AccountDeletionProps {
+  username: string;
+  hasPassword: boolean;
+  hasProAccess: boolean;
+  twoFactorEnabled?: boolean;
+  className?: string;
+}
+
+export interface TwoFactorSettingsProps {
+  hasPassword: boolean;
+  onStatusChange?: (enabled: boolean) => void;
+  className?: string;
+}
+
+// Response from /api/auth/signin or /api/auth/2fa/verify once the user is signed in
+export interface SignInSuccessResponse {
+  message: string;
+  user: any;
+  requiresPasswordSetup?: boolean;
+  isLegacyUser?: boolean;
+  recoveryCodesRemaining?: number;
+}
+
+export interface TwoFactorChallengeProps {
+  challengeToken: string;
+  onSuccess: (data: SignInSuccessResponse) => void;
+  onCancel: () => void;
+}
+
+export interface ModerationReviewQueueProps {
+  platforms: ModerationReviewPlatform[];
+}
+
+export interface ForumReportQueueItem {
+  targetType: "post" | "forum";
+  forumId: string;
+  postId: string | null;
+  reportedUser?: string;
+  reportCount: number;
+  reasonCounts: Record<string, number>;
+  reports: {
+    reportedBy: string;
+    reason: string;
+    details?: string;
+    createdAt: string;
+  }[];
+  firstReportedAt: string;
+  lastReportedAt: string;
+  forum: {
+    title: string;
+    gameTitle: string;
+    category: string;
+    isPrivate: boolean;
+    isLocked: boolean;
+    createdBy: string;
+    status: string;
+  } | null;
+  post: {
+    username: string;
+    message: string;
+    timestamp: string;
+    status: string;
+    isPinned: boolean;
+  } | null;
+}
+
 
 // FeedbackList.tsx:
 export interface Feedback {
@@ -909,7 +1128,6 @@ export interface StoredTimerData {
 }
 
 export interface SaveTimerStateRequest {
-  username: string;
   remainingSeconds: number;
   breakIntervalMinutes: number;
 }
@@ -1227,12 +1445,6 @@ export interface TokenRefreshResult {
   scope?: string;
 }
 
-// Twitch Bot Handler Rate limiting configuration
-export interface RateLimit {
-  timestamp: number;
-  count: number;
-}
-
 // Twitch Bot Channel Manager Types
 export interface TwitchChannel {
   channelName: string;
@@ -1296,6 +1508,12 @@ export interface ChannelStatistics {
   moderationActions: number;
   newUsers: number;
   returningUsers: number;
+  trivia: {
+    rounds: number;
+    predictions: number;
+    participants: number;
+    correctAnswers: number;
+  };
   days?: number;
   startDate: Date;
   endDate: Date;
@@ -1320,6 +1538,136 @@ export interface TwitchChannelSettingsProps {
   onClose?: () => void;
 }
 
+export type TwitchCommandPermission =
+  | "everyone"
+  | "subscriber"
+  | "vip"
+  | "moderator"
+  | "broadcaster";
+
+export interface TwitchCustomCommand {
+  name: string;
+  response: string;
+  cooldownSeconds: number;
+  permission: TwitchCommandPermission;
+  enabled: boolean;
+  useCount: number;
+  lastUsedAt?: string;
+}
+
+export interface TwitchTimer {
+  id: string;
+  name: string;
+  messages: string[];
+  intervalMinutes: number;
+  minChatLines: number;
+  paused: boolean;
+  nextMessageIndex: number;
+  lastPostedAt?: string;
+}
+
+export interface TwitchScheduledAnnouncement {
+  id: string;
+  message: string;
+  sendAt: string;
+  status: "pending" | "sent" | "cancelled" | "missed";
+  sentAt?: string;
+}
+
+export interface TwitchChannelTimersProps {
+  channelName: string;
+}
+
+export type TwitchQueuedQuestionStatus =
+  | "pending"
+  | "approved"
+  | "answered"
+  | "rejected";
+
+export interface TwitchQueuedQuestion {
+  id: number;
+  question: string;
+  askedBy: string;
+  askerCount: number;
+  votes: number;
+  status: TwitchQueuedQuestionStatus;
+  answer?: string;
+  answeredBy?: "bot" | "streamer";
+  reviewedBy?: string;
+  createdAt?: string;
+  reviewedAt?: string;
+  answeredAt?: string;
+}
+
+export interface TwitchQuestionQueueSettings {
+  enabled: boolean;
+  moderators: string[];
+  overlayToken?: string; // Only returned to the streamer
+}
+
+export interface TwitchQuestionQueueProps {
+  channelName: string;
+}
+
+export type TwitchTriviaQuestionSource = "bank" | "ai" | "mixed";
+
+export interface TwitchTriviaSettings {
+  enabled: boolean;
+  source: TwitchTriviaQuestionSource;
+  answerWindowSeconds: number;
+  points: number;
+  firstAnswerBonus: number;
+  predictionsEnabled: boolean;
+  predictionWindowSeconds: number;
+  predictionPoints: number;
+}
+
+export interface TwitchTriviaBankQuestion {
+  id: string;
+  question: string;
+  answers: string[];
+  gameTitle?: string;
+}
+
+export interface TwitchTriviaLeaderboardEntry {
+  username: string;
+  displayName: string;
+  points: number;
+  correctAnswers: number;
+  firstAnswers: number;
+  correctPredictions?: number;
+}
+
+export interface TwitchTriviaRecentRound {
+  id: string;
+  question: string;
+  answer: string;
+  source: "bank" | "ai";
+  gameTitle?: string;
+  status: "open" | "closed";
+  startedAt: string;
+  winner?: string;
+  correctAnswers: number;
+  participants: number;
+  pointsAwarded: number;
+}
+
+export interface TwitchChannelTriviaProps {
+  channelName: string;
+}
+
+// Discord Bot Server Settings Types
+export interface DiscordGuildSummary {
+  guildId: string;
+  guildName: string;
+  iconUrl: string | null;
+  isActive: boolean;
+}
+
+export interface DiscordGuildSettingsProps {
+  className?: string;
+}
+
 // Twitch Bot Stats
 export interface BotStats {
   totalChannels: number;
@@ -0,0 +1,354 @@
+/**
+ * Self-service account deletion
+ *
+ * Deletion happens in two steps:
+ * 1. requestAccountDeletion() re-checks the password, cancels the subscription, signs the user out
+ *    everywhere and schedules the purge DELETION_GRACE_PERIOD_DAYS out. An emailed restore link
+ *    (restoreAccount()) cancels the deletion during the grace period; sign-in is refused meanwhile.
+ * 2. purgeDueAccounts() (run by /api/cron/purge-deleted-accounts) removes or anonymizes the user's
+ *    data and records an AccountDeletionReceipt, which is emailed to the user.
+ *
+ * Callers are responsible for connecting to the database.
+ */
+import crypto from 'crypto';
+import { v4 as uuidv4 } from 'uuid';
+import User, { IUser } from '../models/User';
+import Question from '../models/Question';
+import ConversationThread from '../models/ConversationThread';
+import Forum from '../models/Forum';
+import ForumPost from '../models/ForumPost';
+import Feedback from '../models/Feedback';
+import Session from '../models/Session';
+import Notification from '../models/Notification';
+import UserViolation from '../models/UserViolation';
+import ModerationAppeal from '../models/ModerationAppeal';
+import ContentReport from '../models/ContentReport';
+import TwitchBotChannel from '../models/TwitchBotChannel';
+import DiscordLinkCode from '../models/DiscordLinkCode';
+import AccountDeletionReceipt, { IAccountDeletionReceipt } from '../models/AccountDeletionReceipt';
+import { comparePassword } from './passwordUtils';
+import { cancelUserSubscription, SubscriptionCancellationResult } from './subscriptionCancellation';
+import { revokeAllUserSessions } from './sessionManagement';
+import { requireTwoFactorReauth } from './twoFactor';
+import { deleteUserDataExports } from './dataExport';
+import { deleteUserSecurityEvents } from './securityEvents';
+import { getDiscordIdForUser } from './discord/discordGuilds';
+import { leaveChannel, isBotInitialized } from './twitchBot';
+import { sendAccountDeletionScheduledEmail, sendAccountDeletionReceiptEmail } from './emailService';
+import { logger } from './logger';
+import { HttpError } from './httpError';
+
+export const DELETION_GRACE_PERIOD_DAYS = 14;
+export const DELETED_USER_NAME = 'deleted user';
+const PURGE_BATCH_SIZE = 25;
+// Incomplete purges are retried after 1h, 2h, 4h, ... up to once a day
+const PURGE_RETRY_BASE_MS = 60 * 60 * 1000;
+const PURGE_RETRY_MAX_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Whether a user has asked for their account to be deleted and hasn't restored it
+ */
+export function isPendingDeletion(user: Pick<IUser, 'deletionScheduledFor'>): boolean {
+  return Boolean(user.deletionScheduledFor);
+}
+
+export interface AccountDeletionRequest {
+  password?: string;
+  confirmUsername?: string; // Required instead of a password for accounts without one
+  twoFactorCode?: string; // Required when two-factor is enabled; the user must be loaded with TWO_FACTOR_SECRET_FIELDS
+}
+
+/**
+ * Schedule a user's account for deletion
+ * @throws HttpError with statusCode 400 for missing confirmation, 403 for a wrong password or two-factor code,
+ *         409 if deletion is already scheduled, 502 if the subscription can't be canceled
+ */
+export async function requestAccountDeletion(
+  user: IUser,
+  request: AccountDeletionRequest
+): Promise<{ scheduledFor: Date; subscription: SubscriptionCancellationResult | null; emailSent: boolean }> {
+  if (isPendingDeletion(user)) {
+    throw new HttpError('Your account is already scheduled for deletion', 409);
+  }
+
+  if (user.password) {
+    if (!request.password) {
+      throw new HttpError('Please enter your password to confirm', 400);
+    }
+    if (!(await comparePassword(request.password, user.password))) {
+      throw new HttpError('Incorrect password', 403);
+    }
+  } else if (request.confirmUsername !== user.username) {
+    throw new HttpError('Please type your username to confirm', 400);
+  }
+
+  await requireTwoFactorReauth(user, request.twoFactorCode);
+
+  // Cancel before anything else so a Stripe failure leaves the account untouched
+  const subscription = user.hasProAccess && !user.subscription?.cancelAtPeriodEnd
+    ? await cancelUserSubscription(user)
+    : null;
+
+  const now = new Date();
+  const scheduledFor = new Date(now.getTime() + DELETION_GRACE_PERIOD_DAYS * 24 * 60 * 60 * 1000);
+  const restoreToken = crypto.randomBytes(32).toString('hex');
+
+  await User.updateOne(
+    { _id: user._id },
+    {
+      $set: {
+        deletionRequestedAt: now,
+        deletionScheduledFor: scheduledFor,
+        deletionRestoreToken: restoreToken,
+      },
+    }
+  );
+
+  await revokeAllUserSessions(user.userId);
+
+  const emailSent = await sendAccountDeletionScheduledEmail(user.email, user.username, restoreToken, scheduledFor);
+
+  console.log(`[SECURITY] Account deletion requested: userId=${user.userId}, username=${user.username}, scheduledFor=${scheduledFor.toISOString()}`);
+
+  return { scheduledFor, subscription, emailSent };
+}
+
+/**
+ * Cancel a scheduled deletion using the emailed restore token
+ * @throws HttpError with statusCode 400 if the token is invalid or the grace period has ended
+ */
+export async function restoreAccount(token: string): Promise<IUser> {
+  const user = await User.findOne({
+    deletionRestoreToken: token,
+    deletionScheduledFor: { $gt: new Date() },
+  }) as IUser | null;
+
+  if (!user) {
+    throw new HttpError('Invalid or expired restore link', 400);
+  }
+
+  await User.updateOne(
+    { _id: user._id },
+    { $unset: { deletionRequestedAt: '', deletionScheduledFor: '', deletionRestoreToken: '' } }
+  );
+
+  console.log(`[SECURITY] Account deletion canceled via restore link: userId=${user.userId}, username=${user.username}`);
+
+  return user;
+}
+
+/**
+ * Run one purge step, recording its count in the summary or its failure in failedSteps.
+ * Later steps still run when one fails so a single outage doesn't leave most data behind.
+ */
+async function runStep(
+  name: string,
+  step: () => Promise<number>,
+  summary: Record<string, number>,
+  failedSteps: string[]
+) {
+  try {
+    summary[name] = await step();
+  } catch (error) {
+    failedSteps.push(name);
+    logger.error('Account purge step failed', {
+      step: name,
+      error: error instanceof Error ? error.message : String(error),
+    });
+  }
+}
+
+/**
+ * Permanently remove or anonymize everything stored about a user
+ */
+export async function purgeAccount(user: IUser): Promise<IAccountDeletionReceipt> {
+  const { username, userId, email } = user;
+  const summary: Record<string, number> = {};
+  const failedSteps: string[] = [];
+  const discordId = await getDiscordIdForUser(username);
+
+  await runStep('questions', async () => (await Question.deleteMany({ username })).deletedCount || 0, summary, failedSteps);
+  await runStep('conversationThreads', async () => (await ConversationThread.deleteMany({ username })).deletedCount || 0, summary, failedSteps);
+  await runStep('guides', async () => user.guides?.length || 0, summary, failedSteps);
+
+  // Forum posts stay in their threads so replies still make sense, but lose their author
+  await runStep('forumPostsAnonymized', async () => {
+    const result = await ForumPost.updateMany(
+      { $or: [{ username }, { createdBy: username }] },
+      { $set: { username: DELETED_USER_NAME, createdBy: DELETED_USER_NAME } }
+    );
+    return result.modifiedCount;
+  }, summary, failedSteps);
+  await runStep('forumLikesRemoved', async () => {
+    const result = await ForumPost.updateMany(
+      { 'metadata.likedBy': username },
+      { $pull: { 'metadata.likedBy': username }, $inc: { 'metadata.likes': -1 } }
+    );
+    return result.modifiedCount;
+  }, summary, failedSteps);
+  await runStep('forumReactionsRemoved', async () => {
+    // Reactions are keyed by emoji, so strip the username from every key
+    const reactionsWithoutUser = {
+      $arrayToObject: {
+        $map: {
+          input: { $objectToArray: { $ifNull: ['$metadata.reactions', {}] } },
+          as: 'reaction',
+          in: { k: '$$reaction.k', v: { $setDifference: ['$$reaction.v', [username]] } },
+        },
+      },
+    };
+    const result = await ForumPost.updateMany(
+      {
+        $expr: {
+          $anyElementTrue: {
+            $map: {
+              input: { $objectToArray: { $ifNull: ['$metadata.reactions', {}] } },
+              as: 'reaction',
+              in: { $in: [username, '$$reaction.v'] },
+            },
+          },
+        },
+      },
+      [{ $set: { 'metadata.reactions': reactionsWithoutUser } }]
+    );
+    return result.modifiedCount;
+  }, summary, failedSteps);
+  await runStep('forumsAnonymized', async () => {
+    const result = await Forum.updateMany({ createdBy: username }, { $set: { createdBy: DELETED_USER_NAME } });
+    return result.modifiedCount;
+  }, summary, failedSteps);
+  await runStep('privateForumAccessRemoved', async () => {
+    const result = await Forum.updateMany({ allowedUsers: username }, { $pull: { allowedUsers: username } });
+    return result.modifiedCount;
+  }, summary, failedSteps);
+
+  await runStep('feedbackAnonymized', async () => {
+    const result = await Feedback.updateMany({ username }, { $set: { username: DELETED_USER_NAME, email: 'deleted' } });
+    return result.modifiedCount;
+  }, summary, failedSteps);
+  await runStep('reportsAnonymized', async () => {
+    const result = await ContentReport.updateMany({ reportedBy: username }, { $set: { reportedBy: DELETED_USER_NAME } });
+    return result.modifiedCount;
+  }, summary, failedSteps);
+  await runStep('sessions', async () => (await Session.deleteMany({ userId })).deletedCount || 0, summary, failedSteps);
+  await runStep('notifications', async () => (await Notification.deleteMany({ username })).deletedCount || 0, summary, failedSteps);
+  await runStep('moderationAppeals', async () => (await ModerationAppeal.deleteMany({ username })).deletedCount || 0, summary, failedSteps);
+  // Banned emails are kept on purpose so a ban can't be evaded by deleting the account
+  await runStep('violationRecords', async () => (await UserViolation.deleteMany({ username })).deletedCount || 0, summary, failedSteps);
+  await runStep('dataExports', () => deleteUserDataExports(username), summary, failedSteps);
+  await runStep('securityEvents', () => deleteUserSecurityEvents(userId), summary, failedSteps);
+
+  await runStep('twitchChannelsRemoved', async () => {
+    const channels = await TwitchBotChannel.find({ streamerUsername: username }).select('channelName').lean() as any[];
+    if (isBotInitialized()) {
+      for (const channel of channels) {
+        try {
+          await leaveChannel(channel.channelName);
+        } catch (leaveError) {
+          logger.warn('Failed to leave channel during account purge', { channelName: channel.channelName });
+        }
+      }
+    }
+    const result = await TwitchBotChannel.deleteMany({ streamerUsername: username });
+    return result.deletedCount || 0;
+  }, summary, failedSteps);
+  summary.twitchUnlinked = user.twitchId ? 1 : 0;
+  await runStep('discordLinkCodes', async () => (
+    discordId ? (await DiscordLinkCode.deleteMany({ discordId })).deletedCount || 0 : 0
+  ), summary, failedSteps);
+  summary.discordUnlinked = discordId ? 1 : 0;
+
+  // The user document goes last: it's how a failed purge gets retried
+  if (failedSteps.length === 0) {
+    await User.deleteOne({ _id: user._id });
+    summary.account = 1;
+  }
+
+  // A retry completes the receipt of the first attempt. Steps that succeeded then keep their
+  // counts (their data is already gone, so a rerun counts nothing).
+  const previous = user.deletionReceiptId
+    ? await AccountDeletionReceipt.findOne({ receiptId: user.deletionReceiptId }) as IAccountDeletionReceipt | null
+    : null;
+  let receipt: IAccountDeletionReceipt;
+  if (previous) {
+    previous.summary = { ...summary, ...previous.summary };
+    previous.failedSteps = failedSteps.length > 0 ? failedSteps : undefined;
+    previous.purgedAt = new Date();
+    previous.markModified('summary');
+    receipt = await previous.save();
+  } else {
+    receipt = await AccountDeletionReceipt.create({
+      receiptId: uuidv4(),
+      userIdHash: crypto.createHash('sha256').update(userId).digest('hex'),
+      requestedAt: user.deletionRequestedAt,
+      purgedAt: new Date(),
+      summary,
+      failedSteps: failedSteps.length > 0 ? failedSteps : undefined,
+    }) as IAccountDeletionReceipt;
+  }
+
+  if (failedSteps.length > 0) {
+    const attempts = (user.deletionPurgeAttempts || 0) + 1;
+    const backoffMs = Math.min(PURGE_RETRY_BASE_MS * Math.pow(2, attempts - 1), PURGE_RETRY_MAX_MS);
+    await User.updateOne(
+      { _id: user._id },
+      {
+        $set: {
+          deletionPurgeAttempts: attempts,
+          deletionPurgeRetryAt: new Date(Date.now() + backoffMs),
+          deletionReceiptId: receipt.receiptId,
+        },
+      }
+    );
+  }
+
+  if (failedSteps.length === 0) {
+    const emailSent = await sendAccountDeletionReceiptEmail(email, username, receipt.receiptId, summary);
+    if (emailSent) {
+      await AccountDeletionReceipt.updateOne({ _id: receipt._id }, { $set: { receiptEmailSent: true } });
+      receipt.receiptEmailSent = true;
+    }
+  }
+
+  console.log(`[SECURITY] Account purge ${failedSteps.length === 0 ? 'completed' : 'incomplete'}: receiptId=${receipt.receiptId}${failedSteps.length ? `, failed=${failedSteps.join(',')}` : ''}`);
+
+  return receipt;
+}
+
+/**
+ * Purge every account whose grace period has ended
+ * Accounts whose last purge was incomplete wait out their backoff and go after first attempts,
+ * so a few persistently failing accounts can't hold up the rest of the queue.
+ */
+export async function purgeDueAccounts(): Promise<{ purged: number; failed: number; receipts: string[] }> {
+  const now = new Date();
+  const due = await User.find({
+    deletionScheduledFor: { $lte: now },
+    $or: [{ deletionPurgeRetryAt: { $exists: false } }, { deletionPurgeRetryAt: { $lte: now } }],
+  })
+    .sort({ deletionPurgeAttempts: 1, deletionScheduledFor: 1 })
+    .limit(PURGE_BATCH_SIZE) as IUser[];
+
+  let purged = 0;
+  let failed = 0;
+  const receipts: string[] = [];
+  for (const user of due) {
+    try {
+      const receipt = await purgeAccount(user);
+      receipts.push(receipt.receiptId);
+      if (receipt.failedSteps && receipt.failedSteps.length > 0) {
+        failed++;
+      } else {
+        purged++;
+      }
+    } catch (error) {
+      failed++;
+      logger.error('Account purge failed', {
+        userId: user.userId,
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+
+  return { purged, failed, receipts };
+}
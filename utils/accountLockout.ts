@@ -2,6 +2,7 @@ import crypto from 'crypto';
 import User from '../models/User';
 import type { IUser } from '../models/User';
 import { sendAccountUnlockEmail } from './emailService';
+import { recordSecurityEvent } from './securityEvents';
 
 /**
  * Account Lockout Configuration
@@ -144,6 +145,13 @@ export async function lockAccount(
     `[SECURITY] Account locked: userId=${user.userId}, username=${user.username}, ` +
       `ip=${ip || 'unknown'}, permanent=${isPermanent}, lockedUntil=${user.lockedUntil || 'requires unlock'}`
   );
+  await recordSecurityEvent({
+    userId: user.userId,
+    username: user.username,
+    type: 'account_locked',
+    severity: 'critical',
+    details: { ipAddress: ip || 'unknown', permanent: isPermanent },
+  });
 }
 
 /**
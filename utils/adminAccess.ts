@@ -1,7 +1,16 @@
 /**
  * Admin access control utilities for Video Game Wingman
- * Admin username is configured via environment variable ADMIN_USERNAME
+ *
+ * Access is role-based: staff roles are stored on the user (IUser.roles) and each role
+ * grants a set of permissions (ROLE_PERMISSIONS below). Roles are assigned through
+ * /api/admin/roles, which keeps an audit trail in models/RoleAuditLog.ts.
+ *
+ * The ADMIN_USERNAME environment variable names a bootstrap admin who always has
+ * the admin role, so there is someone to assign the first roles.
  */
+import mongoose from 'mongoose';
+import User, { UserRole } from '../models/User';
+import { connectToWingmanDB } from './databaseConnections';
 
 /**
  * Get the admin username from environment variables
@@ -19,12 +28,128 @@ export const getAdminUsernameForLogging = (): string => {
   return getAdminUsername();
 };
 
+// Normalize: trim and collapse spaces
+const normalizeUsername = (s: string) => s.trim().replace(/\s+/g, '').toLowerCase();
+
+/**
+ * Whether the user is the bootstrap admin named by ADMIN_USERNAME
+ */
+const isBootstrapAdmin = (username: string): boolean => {
+  return normalizeUsername(username) === normalizeUsername(getAdminUsername());
+};
+
+/**
+ * Admin access levels for different operations
+ */
+export const ADMIN_ACCESS_LEVELS = {
+  VIEW_FEEDBACK: 'view_feedback',
+  RESPOND_FEEDBACK: 'respond_feedback',
+  UPDATE_STATUS: 'update_status',
+  VIEW_STATS: 'view_stats',
+  MANAGE_USERS: 'manage_users',
+  MANAGE_ROLES: 'manage_roles',
+  MODERATE_FORUMS: 'moderate_forums',
+  MODERATE_TWITCH: 'moderate_twitch',
+  MODERATE_DISCORD: 'moderate_discord',
+  MANAGE_MODERATION_RULES: 'manage_moderation_rules'
+} as const;
+
+export type AdminPermission = typeof ADMIN_ACCESS_LEVELS[keyof typeof ADMIN_ACCESS_LEVELS];
+
+const ALL_PERMISSIONS = Object.values(ADMIN_ACCESS_LEVELS) as AdminPermission[];
+
+/**
+ * Permission matrix: what each role can do
+ * A user with several roles gets the union of their permissions.
+ */
+export const ROLE_PERMISSIONS: Record<UserRole, AdminPermission[]> = {
+  admin: ALL_PERMISSIONS,
+  moderator: [
+    ADMIN_ACCESS_LEVELS.VIEW_FEEDBACK,
+    ADMIN_ACCESS_LEVELS.MODERATE_FORUMS,
+    ADMIN_ACCESS_LEVELS.MODERATE_TWITCH,
+    ADMIN_ACCESS_LEVELS.MODERATE_DISCORD
+  ],
+  support: [
+    ADMIN_ACCESS_LEVELS.VIEW_FEEDBACK,
+    ADMIN_ACCESS_LEVELS.RESPOND_FEEDBACK,
+    ADMIN_ACCESS_LEVELS.UPDATE_STATUS,
+    ADMIN_ACCESS_LEVELS.VIEW_STATS,
+    ADMIN_ACCESS_LEVELS.MANAGE_USERS
+  ],
+  'streamer-manager': [
+    ADMIN_ACCESS_LEVELS.MODERATE_TWITCH,
+    ADMIN_ACCESS_LEVELS.MODERATE_DISCORD
+  ]
+};
+
+/**
+ * Get the staff roles of a user (empty for regular users)
+ * @param username - The username to look up
+ * @returns The user's roles, including 'admin' for the bootstrap admin
+ */
+export const getUserRoles = async (username: string | null | undefined): Promise<UserRole[]> => {
+  if (!username) {
+    return [];
+  }
+
+  if (mongoose.connection.readyState !== 1) {
+    await connectToWingmanDB();
+  }
+
+  const user = await User.findOne({ username }).select('roles').lean() as { roles?: UserRole[] } | null;
+  const roles = new Set<UserRole>(user?.roles || []);
+
+  if (isBootstrapAdmin(username)) {
+    roles.add('admin');
+  }
+
+  return Array.from(roles);
+};
+
+/**
+ * Get every permission granted by a set of roles
+ */
+export const getPermissionsForRoles = (roles: UserRole[]): AdminPermission[] => {
+  const permissions = new Set<AdminPermission>();
+  for (const role of roles) {
+    for (const permission of ROLE_PERMISSIONS[role] || []) {
+      permissions.add(permission);
+    }
+  }
+  return Array.from(permissions);
+};
+
+/**
+ * Check if a user has access to a specific operation
+ * @param username - The username to check
+ * @param operation - The operation to check access for (one of ADMIN_ACCESS_LEVELS);
+ *                    without it, checks for the admin role
+ * @returns Boolean indicating if user has access
+ */
+export const hasAdminAccess = async (
+  username: string | null | undefined,
+  operation?: AdminPermission
+): Promise<boolean> => {
+  const roles = await getUserRoles(username);
+
+  if (!operation) {
+    return roles.includes('admin');
+  }
+
+  return getPermissionsForRoles(roles).includes(operation);
+};
+
 /**
- * Validates if a user has admin access
- * @param username - The username to check for admin access
+ * Validates if a user has access to an operation
+ * @param username - The username to check
+ * @param operation - The operation to check; without it, checks for the admin role
  * @returns Object with access status and error message if denied
  */
-export const validateAdminAccess = (username: string | null | undefined) => {
+export const validateAdminAccess = async (
+  username: string | null | undefined,
+  operation?: AdminPermission
+) => {
   if (!username) {
     return {
       hasAccess: false,
@@ -32,14 +157,12 @@ export const validateAdminAccess = (username: string | null | undefined) => {
     };
   }
 
-  const adminUsername = getAdminUsername();
-  
-  // Normalize: trim and collapse spaces
-  const normalized = (s: string) => s.trim().replace(/\s+/g, '').toLowerCase();
-  if (normalized(username) !== normalized(adminUsername)) {
+  if (!(await hasAdminAccess(username, operation))) {
     return {
       hasAccess: false,
-      error: 'Access denied. Admin privileges required.'
+      error: operation
+        ? `Access denied. The ${operation} permission is required.`
+        : 'Access denied. Admin privileges required.'
     };
   }
 
@@ -50,51 +173,39 @@ export const validateAdminAccess = (username: string | null | undefined) => {
 };
 
 /**
- * Middleware function to check admin access in API routes
- * @param username - The username to check
- * @returns Throws error if access denied, returns true if access granted
+ * Check a permission in API routes
+ * @param username - The username to check (use the authenticated username, never one from the request body)
+ * @param operation - The operation the route performs
+ * @returns Throws error with statusCode 403 if access denied, returns true if access granted
  */
-export const requireAdminAccess = (username: string | null | undefined) => {
-  const accessCheck = validateAdminAccess(username);
-  
+export const requirePermission = async (
+  username: string | null | undefined,
+  operation: AdminPermission
+) => {
+  const accessCheck = await validateAdminAccess(username, operation);
+
   if (!accessCheck.hasAccess) {
     const error = new Error(accessCheck.error || 'Access denied');
     (error as any).statusCode = 403;
     throw error;
   }
-  
+
   return true;
 };
 
 /**
- * Admin access levels for different operations
- */
-export const ADMIN_ACCESS_LEVELS = {
-  VIEW_FEEDBACK: 'view_feedback',
-  RESPOND_FEEDBACK: 'respond_feedback',
-  UPDATE_STATUS: 'update_status',
-  VIEW_STATS: 'view_stats',
-  MANAGE_USERS: 'manage_users'
-} as const;
-
-/**
- * Check if admin has access to specific operation
+ * Middleware function to check admin access in API routes
  * @param username - The username to check
- * @param operation - The operation to check access for
- * @returns Boolean indicating if user has access
+ * @returns Throws error if the user doesn't have the admin role, returns true if access granted
  */
-export const hasAdminAccess = (username: string | null | undefined, operation?: string) => {
-  const baseAccess = validateAdminAccess(username);
-  
-  if (!baseAccess.hasAccess) {
-    return false;
-  }
+export const requireAdminAccess = async (username: string | null | undefined) => {
+  const accessCheck = await validateAdminAccess(username);
 
-  // Admin user has access to all operations
-  const adminUsername = getAdminUsername();
-  if (username === adminUsername) {
-    return true;
+  if (!accessCheck.hasAccess) {
+    const error = new Error(accessCheck.error || 'Access denied');
+    (error as any).statusCode = 403;
+    throw error;
   }
 
-  return false;
+  return true;
 };
@@ -1,34 +1,18 @@
 import axios from 'axios';
 import { externalApiClient } from './axiosConfig';
-import OpenAI from 'openai';
 import dotenv from 'dotenv';
 import path from 'path';
 import { getClientCredentialsAccessToken } from './twitchAuth';
 import { LRUCache, cacheManager } from './cacheManager';
+import type { ChatHistoryMessage } from './conversationThreads';
+import { getLLMProvider } from './llm/provider';
+import type { LLMMessage } from './llm/provider';
+import { recordLLMCacheHit } from './llmUsageLedger';
 
 // Load environment variables from both .env and .env.local
 dotenv.config(); // Loads .env by default
 dotenv.config({ path: path.resolve(process.cwd(), '.env.local') }); // Also load .env.local if it exists
 
-// Lazy initialization of OpenAI client to avoid errors on server startup
-// Only initializes when actually needed
-let openaiInstance: OpenAI | null = null;
-
-export function getOpenAIClient(): OpenAI {
-  if (!openaiInstance) {
-    const apiKey = process.env.OPENAI_API_KEY;
-    if (!apiKey) {
-      throw new Error('OPENAI_API_KEY environment variable is missing or empty. Please set it in your .env or .env.local file.');
-    }
-    openaiInstance = new OpenAI({
-      apiKey: apiKey,
-      timeout: 28000, // 28 seconds - slightly under application timeout of 30s to allow for processing overhead
-      maxRetries: 1, // Reduce retries to avoid compounding delays
-    });
-  }
-  return openaiInstance;
-}
-
 // Cache implementation for API responses with LRU eviction
 
 export class AICacheMetrics {
@@ -404,7 +388,8 @@ export async function selectModelForQuestion(
   question?: string
 ): Promise<ModelSelectionResult> {
   const CUTOFF_YEAR = 2024; // Games released 2024+ use GPT-5.2 (better knowledge cutoff)
-  const DEFAULT_MODEL = 'gpt-4o-search-preview'; // Safe default
+  const models = getLLMProvider().models;
+  const DEFAULT_MODEL = models.default; // Safe default (gpt-4o-search-preview on OpenAI)
   
   // If no game title, try to extract from question
   let detectedGame = gameTitle;
@@ -432,7 +417,7 @@ export async function selectModelForQuestion(
       
       if (releaseYear >= CUTOFF_YEAR) {
         return {
-          model: 'gpt-5.2',
+          model: models.recent,
           reason: `game_released_${releaseYear}`,
           releaseDate: releaseDate,
           releaseYear: releaseYear
@@ -457,7 +442,8 @@ export async function selectModelForQuestion(
   };
 }
 
-// Track model usage for cost monitoring
+// Track model usage for cost monitoring (in-memory since startup;
+// persisted per-request tokens and cost are in the usage ledger, utils/llmUsageLedger.ts)
 const modelUsageStats: { [key: string]: number } = {
   'gpt-4o-search-preview': 0,
   'gpt-4o': 0,
@@ -870,9 +856,9 @@ Provide only the game title. If you cannot identify it with confidence, respond
       // Track model usage
       modelUsageStats[modelSelection.model] = (modelUsageStats[modelSelection.model] || 0) + 1;
       
-      // Use OpenAI to identify the game from the image description
-      // Note: gpt-4o-search-preview doesn't support temperature parameter
-      const completionParams: any = {
+      // Use the LLM provider to identify the game from the image description
+      // (providers drop temperature for models that don't support it)
+      const completion = await getLLMProvider().chat({
         model: modelSelection.model,
         messages: [
           {
@@ -884,17 +870,11 @@ Provide only the game title. If you cannot identify it with confidence, respond
             content: identificationPrompt
           }
         ],
-        max_completion_tokens: 100,
-      };
-      
-      // Only include temperature for models that support it
-      if (modelSelection.model !== 'gpt-4o-search-preview') {
-        completionParams.temperature = 0.3; // Lower temperature for more consistent identification
-      }
-      
-      const completion = await getOpenAIClient().chat.completions.create(completionParams);
+        maxTokens: 100,
+        temperature: 0.3, // Lower temperature for more consistent identification
+      });
 
-      const identifiedGame = completion.choices[0].message.content?.trim();
+      const identifiedGame = completion.content?.trim();
       
       if (identifiedGame && 
           identifiedGame !== 'UNKNOWN' && 
@@ -966,6 +946,45 @@ Provide only the game title. If you cannot identify it with confidence, respond
   return undefined;
 }
 
+// Lookups that only add context to a prompt give up quickly rather than hold up the answer
+const GAME_REFERENCE_TIMEOUT_MS = 5000;
+
+// IGDB/RAWG game summaries used by enhanceQuestionWithGameContext. Twitch chat asks many questions
+// about the same streamed game, so each game is looked up once per hour rather than per question.
+const GAME_REFERENCE_CACHE_TTL = 60 * 60 * 1000; // 1 hour
+const gameReferenceCache = new LRUCache<{ igdbInfo: string | null; rawgInfo: string | null }>(
+  500,
+  GAME_REFERENCE_CACHE_TTL,
+  10 * 60 * 1000 // Cleanup every 10 minutes
+);
+cacheManager.registerCache('GameReferenceCache', gameReferenceCache);
+const pendingGameReferences = new Map<string, Promise<{ igdbInfo: string | null; rawgInfo: string | null }>>();
+
+/**
+ * Get a game's IGDB and RAWG summaries (cached; concurrent callers share one lookup)
+ */
+async function getGameReferenceInfo(gameTitle: string): Promise<{ igdbInfo: string | null; rawgInfo: string | null }> {
+  const key = gameTitle.toLowerCase().trim();
+  const cached = gameReferenceCache.get(key);
+  if (cached) {
+    return cached;
+  }
+
+  let pending = pendingGameReferences.get(key);
+  if (!pending) {
+    // Both fetches return null instead of throwing
+    pending = Promise.all([fetchGameLevelsFromIGDB(gameTitle), fetchGameDetailsFromRAWG(gameTitle)])
+      .then(([igdbInfo, rawgInfo]) => {
+        const info = { igdbInfo, rawgInfo };
+        gameReferenceCache.set(key, info);
+        return info;
+      })
+      .finally(() => pendingGameReferences.delete(key));
+    pendingGameReferences.set(key, pending);
+  }
+  return pending;
+}
+
 /**
  * Fetch game levels/items from IGDB using game ID
  * Note: IGDB doesn't have a direct "levels" endpoint, but we can search for game guides/walkthroughs
@@ -992,7 +1011,8 @@ export async function fetchGameLevelsFromIGDB(gameTitle: string): Promise<string
           'Client-ID': process.env.NEXT_PUBLIC_TWITCH_CLIENT_ID!,
           'Authorization': `Bearer ${accessToken}`,
           'Accept': 'application/json'
-        }
+        },
+        timeout: GAME_REFERENCE_TIMEOUT_MS
       }
     );
 
@@ -1016,14 +1036,14 @@ export async function fetchGameLevelsFromIGDB(gameTitle: string): Promise<string
 export async function fetchGameDetailsFromRAWG(gameTitle: string): Promise<string | null> {
   try {
     const url = `https://api.rawg.io/api/games?key=${process.env.RAWG_API_KEY}&search=${encodeURIComponent(gameTitle)}&search_precise=true`;
-    const response = await axios.get(url);
+    const response = await axios.get(url, { timeout: GAME_REFERENCE_TIMEOUT_MS });
 
     if (response.data && response.data.results.length > 0) {
       const game = response.data.results[0];
       
       // Get detailed game info
       const detailUrl = `https://api.rawg.io/api/games/${game.id}?key=${process.env.RAWG_API_KEY}`;
-      const detailResponse = await axios.get(detailUrl);
+      const detailResponse = await axios.get(detailUrl, { timeout: GAME_REFERENCE_TIMEOUT_MS });
       const gameDetails = detailResponse.data;
 
       let info = `Game: ${gameDetails.name}`;
@@ -1064,12 +1084,15 @@ export async function fetchGameDetailsFromRAWG(gameTitle: string): Promise<strin
 /**
  * Match image context to specific levels/items using game data and AI
  * This function enhances the question with game-specific context
+ * Without image context (e.g. Twitch chat questions about the game being streamed), the question
+ * is taken to be about gameTitle, and sessionNotes (current chapter, build, ...) are included
  */
 export async function enhanceQuestionWithGameContext(
   question: string,
   gameTitle: string | undefined,
   imageLabels?: string[],
-  imageText?: string
+  imageText?: string,
+  sessionNotes?: string
 ): Promise<string> {
   if (!gameTitle) {
     // No game title, return original question with image context
@@ -1086,13 +1109,7 @@ export async function enhanceQuestionWithGameContext(
   }
 
   // Fetch game data from IGDB and RAWG
-  const [igdbData, rawgData] = await Promise.allSettled([
-    fetchGameLevelsFromIGDB(gameTitle),
-    fetchGameDetailsFromRAWG(gameTitle)
-  ]);
-
-  const igdbInfo = igdbData.status === 'fulfilled' ? igdbData.value : null;
-  const rawgInfo = rawgData.status === 'fulfilled' ? rawgData.value : null;
+  const { igdbInfo, rawgInfo } = await getGameReferenceInfo(gameTitle);
 
   // Build enhanced context with specific instructions for level/item identification
   const contextParts: string[] = [];
@@ -1108,8 +1125,11 @@ export async function enhanceQuestionWithGameContext(
   const isGameQuestion = question.toLowerCase().includes('what game') ||
                         question.toLowerCase().includes('which game') ||
                         question.toLowerCase().includes('what is this from');
+  const hasImageContext = (imageLabels && imageLabels.length > 0) || !!imageText;
   
-  if (isLevelQuestion) {
+  if (!hasImageContext) {
+    contextParts.push(`IMPORTANT: The user is playing or watching ${gameTitle}. Unless the question names a different game, answer it about ${gameTitle}`);
+  } else if (isLevelQuestion) {
     contextParts.push(`IMPORTANT: The user is asking about a specific level/stage. Use the image analysis and game information below to identify the exact level name shown in the image.`);
   } else if (isItemQuestion) {
     contextParts.push(`IMPORTANT: The user is asking about a specific item. Use the image analysis and game information below to identify the exact item shown in the image.`);
@@ -1118,6 +1138,10 @@ export async function enhanceQuestionWithGameContext(
   }
   
   contextParts.push(`Game: ${gameTitle}`);
+
+  if (sessionNotes) {
+    contextParts.push(`Current session: ${sessionNotes}`);
+  }
   
   if (imageLabels && imageLabels.length > 0) {
     // Include more labels for better visual context (up to 15 for detailed analysis)
@@ -1161,6 +1185,10 @@ export async function enhanceQuestionWithGameContext(
     contextParts.push(`Game details (RAWG): ${rawgInfo}`);
   }
 
+  if (!hasImageContext) {
+    return `${question}\n\n[Game context: ${contextParts.join('. ')}]`;
+  }
+
   // Add specific instruction for level identification
   if (isLevelQuestion) {
     contextParts.push(`CRITICAL: Identify the exact level name by analyzing the specific visual features shown in the image. Do not make generic guesses based on UI elements alone. Focus on:
@@ -1191,12 +1219,16 @@ function filterGameSeries(games: any[], seriesPrefix: string): any[] {
 /**
  * Get chat completion with vision support (like ChatGPT)
  * Can accept images directly for multimodal analysis
+ * Optional history contains earlier turns of the same conversation thread
+ * When onDelta is provided the answer is streamed and each chunk is forwarded as it arrives
  */
 export const getChatCompletionWithVision = async (
   question: string,
   imageUrl?: string,
   imageBase64?: string,
-  systemMessage?: string
+  systemMessage?: string,
+  history: ChatHistoryMessage[] = [],
+  onDelta?: (delta: string) => void
 ): Promise<string | null> => {
   try {
     const messages: any[] = [
@@ -1204,11 +1236,13 @@ export const getChatCompletionWithVision = async (
         role: 'system',
         content: systemMessage || 'You are an expert video game assistant specializing in identifying games, levels, stages, items, and locations from screenshots. Analyze images carefully and provide detailed, accurate information.'
       },
+      ...history,
       {
         role: 'user',
         content: []
       }
     ];
+    const userMessage = messages[messages.length - 1];
 
     // Add image if provided
     if (imageUrl || imageBase64) {
@@ -1226,83 +1260,34 @@ export const getChatCompletionWithVision = async (
           : `data:image/jpeg;base64,${imageBase64}`;
       }
 
-      messages[1].content.push(imageContent);
+      userMessage.content.push(imageContent);
     }
 
     // Add text question
-    messages[1].content.push({
+    userMessage.content.push({
       type: 'text',
       text: question
     });
 
-    // For vision requests, we MUST use a model that supports images
-    // gpt-4o-search-preview does NOT support image inputs
-    // Use gpt-4o or gpt-4o-mini for vision requests instead
-    const VISION_MODELS = {
-      'gpt-4o': 'gpt-4o',           // Full vision support
-      'gpt-4o-mini': 'gpt-4o-mini', // Full vision support, cheaper
-      'gpt-5.2': 'gpt-5.2'          // If available, supports vision
-    };
-    
     // Select model based on game release date (extract from question if possible)
+    // The provider overrides it with a vision-capable model when it doesn't accept images
     const modelSelection = await selectModelForQuestion(undefined, question);
-    
-    // Override to vision-capable model if the selected model doesn't support images
-    let visionModel = modelSelection.model;
-    if (visionModel === 'gpt-4o-search-preview') {
-      // Fallback to gpt-4o for vision (it supports images and has good knowledge)
-      visionModel = 'gpt-4o';
-      console.log(`[Model Selection] Overriding to gpt-4o for vision request (gpt-4o-search-preview doesn't support images)`);
-    } else if (!Object.values(VISION_MODELS).includes(visionModel as any)) {
-      // If selected model isn't in our vision-capable list, use gpt-4o as safe default
-      visionModel = 'gpt-4o';
-      console.log(`[Model Selection] Overriding to gpt-4o for vision request (${modelSelection.model} may not support images)`);
-    }
-    
-    // Log model selection for monitoring
-    console.log(`[Model Selection] Using ${visionModel} for vision request (reason: ${modelSelection.reason}, original: ${modelSelection.model})`);
-    
-    // Track model usage
-    modelUsageStats[visionModel] = (modelUsageStats[visionModel] || 0) + 1;
 
-    // Note: gpt-4o-search-preview doesn't support temperature parameter, but we're not using it for vision
-    const completionParams: any = {
-      model: visionModel,
-      messages: messages as any,
-      max_completion_tokens: 1000,
+    const completion = await getLLMProvider().vision({
+      model: modelSelection.model,
+      messages: messages as LLMMessage[],
+      maxTokens: 1000,
       temperature: 0.7, // Vision models support temperature
-    };
+      onDelta,
+    });
 
-    try {
-      const completion = await getOpenAIClient().chat.completions.create(completionParams);
-      return completion.choices[0].message.content;
-    } catch (apiError: any) {
-      // Handle rate limit errors specifically
-      if (apiError?.status === 429 && apiError?.error?.type === 'input-images') {
-        console.error('[Vision API] Rate limit error for image inputs. Model may not support images:', visionModel);
-        
-        // Try fallback to gpt-4o if we're not already using it
-        if (visionModel !== 'gpt-4o') {
-          console.log('[Vision API] Retrying with gpt-4o fallback...');
-          try {
-            const fallbackParams = {
-              ...completionParams,
-              model: 'gpt-4o',
-            };
-            const fallbackCompletion = await getOpenAIClient().chat.completions.create(fallbackParams);
-            modelUsageStats['gpt-4o'] = (modelUsageStats['gpt-4o'] || 0) + 1;
-            return fallbackCompletion.choices[0].message.content;
-          } catch (fallbackError) {
-            console.error('[Vision API] Fallback also failed:', fallbackError);
-            throw new Error('Unable to process image. The selected AI model does not support image inputs. Please try again or contact support if this persists.');
-          }
-        } else {
-          throw new Error('Rate limit exceeded for image processing. Please try again in a moment.');
-        }
-      }
-      // Re-throw other errors
-      throw apiError;
-    }
+    // Log model selection for monitoring
+    console.log(`[Model Selection] Used ${completion.model} for vision request (reason: ${modelSelection.reason}, original: ${modelSelection.model})`);
+
+    // Track model usage
+    modelUsageStats[completion.model] = (modelUsageStats[completion.model] || 0) + 1;
+
+    return completion.content;
   } catch (error: any) {
     console.error('Error in getChatCompletionWithVision:', error);
     
@@ -1318,8 +1303,19 @@ export const getChatCompletionWithVision = async (
 };
 
 // Get chat completion for user questions
-export const getChatCompletion = async (question: string, systemMessage?: string): Promise<string | null> => {
+// Optional history contains earlier turns of the same conversation thread
+// When onDelta is provided, answers generated by the LLM provider are streamed chunk by chunk
+// (cached and IGDB/RAWG answers are returned whole without calling onDelta)
+export const getChatCompletion = async (
+  question: string,
+  systemMessage?: string,
+  history: ChatHistoryMessage[] = [],
+  onDelta?: (delta: string) => void
+): Promise<string | null> => {
   try {
+    // Follow-up questions depend on their thread, so their answers are never shared via the cache
+    const hasHistory = history.length > 0;
+
     // Normalize question for cache key (lowercase, trim) to match usage in assistant.ts
     // This ensures consistent cache keys across the codebase
     const normalizedQuestion = question.toLowerCase().trim();
@@ -1329,8 +1325,9 @@ export const getChatCompletion = async (question: string, systemMessage?: string
     const cacheKey = `chat:${normalizedQuestion}:${normalizedSystemMessage}`;
     
     // Check if we have a cached response
-    const cachedResponse = aiCache.get(cacheKey);
+    const cachedResponse = hasHistory ? null : aiCache.get(cacheKey);
     if (cachedResponse) {
+      recordLLMCacheHit();
       // console.log('Cache hit for chat completion:', question.substring(0, 30) + '...'); // Commented out for production
       return cachedResponse;
     }
@@ -1686,23 +1683,24 @@ ${gameTitleForContext ? `\n⚠️ IMPORTANT: The user is asking about "${gameTit
       // Track model usage
       modelUsageStats[modelSelection.model] = (modelUsageStats[modelSelection.model] || 0) + 1;
       
-      const completion = await getOpenAIClient().chat.completions.create({
+      const completion = await getLLMProvider().chat({
         model: modelSelection.model,
         messages: [
           { 
             role: 'system', 
             content: enhancedSystemMessage
           },
+          ...history,
           { role: 'user', content: enhancedQuestion }
         ],
-        max_completion_tokens: 800,
+        maxTokens: 800,
+        onDelta,
       });
-
-      response = completion.choices[0].message.content;
+      response = completion.content;
     }
 
     // Cache the response if we got one
-    if (response) {
+    if (response && !hasHistory) {
       aiCache.set(cacheKey, response);
     }
 
@@ -2015,7 +2013,7 @@ ONLY include games where ${genre} is clearly the primary genre. If unsure, EXCLU
           // Track model usage
           modelUsageStats[modelSelection.model] = (modelUsageStats[modelSelection.model] || 0) + 1;
           
-          const aiResponse = await getOpenAIClient().chat.completions.create({
+          const aiResponse = await getLLMProvider().chat({
             model: modelSelection.model,
             messages: [
               {
@@ -2027,10 +2025,10 @@ ONLY include games where ${genre} is clearly the primary genre. If unsure, EXCLU
                 content: aiPrompt
               }
             ],
-            max_tokens: 500
+            maxTokens: 500
           });
 
-          const aiText = aiResponse.choices[0]?.message?.content?.trim() || '';
+          const aiText = aiResponse.content?.trim() || '';
           // Extract JSON array from response
           const jsonMatch = aiText.match(/\[[\s\S]*\]/);
           if (jsonMatch) {
@@ -2141,7 +2139,7 @@ ONLY include games where ${genre} is clearly the primary genre. If unsure, EXCLU
           if (currentPopular) {
             // Use GPT-5.2 for current/popular games to leverage better knowledge cutoff (Aug 2025 vs Apr 2024)
             modelSelection = {
-              model: 'gpt-5.2',
+              model: getLLMProvider().models.recent,
               reason: 'current_popular_games_need_recent_knowledge'
             };
           } else {
@@ -2155,7 +2153,7 @@ ONLY include games where ${genre} is clearly the primary genre. If unsure, EXCLU
           // Track model usage
           modelUsageStats[modelSelection.model] = (modelUsageStats[modelSelection.model] || 0) + 1;
           
-          const aiResponse = await getOpenAIClient().chat.completions.create({
+          const aiResponse = await getLLMProvider().chat({
             model: modelSelection.model,
             messages: [
               {
@@ -2167,10 +2165,10 @@ ONLY include games where ${genre} is clearly the primary genre. If unsure, EXCLU
                 content: aiPrompt
               }
             ],
-            max_tokens: 600
+            maxTokens: 600
           });
 
-          const aiText = aiResponse.choices[0]?.message?.content?.trim() || '';
+          const aiText = aiResponse.content?.trim() || '';
           // Extract JSON array from response
           const jsonMatch = aiText.match(/\[[\s\S]*\]/);
           if (jsonMatch) {
@@ -3633,7 +3631,7 @@ function extractConsoleFromQuestion(question: string): string | undefined {
  */
 async function extractGameTitleWithOpenAI(question: string, candidates: string[]): Promise<string | undefined> {
   try {
-    const openai = getOpenAIClient();
+    const provider = getLLMProvider();
     
     // Build context about candidates we've already tried
     const candidatesContext = candidates.length > 0 
@@ -3652,8 +3650,8 @@ Examples:
 
 Game title:`;
 
-    const completion = await openai.chat.completions.create({
-      model: 'gpt-4o',
+    const completion = await provider.chat({
+      model: provider.models.utility,
       messages: [
         {
           role: 'system',
@@ -3665,10 +3663,10 @@ Game title:`;
         }
       ],
       temperature: 0.2, // Low temperature for consistent extraction
-      max_tokens: 200,
+      maxTokens: 200,
     });
 
-    const extractedTitle = completion.choices[0]?.message?.content?.trim();
+    const extractedTitle = completion.content?.trim();
     
     if (!extractedTitle || extractedTitle === 'NONE' || extractedTitle.toLowerCase().includes('none')) {
       return undefined;
@@ -3717,8 +3715,10 @@ Game title:`;
  * This eliminates the need for hardcoded game title lists
  * Also detects consoles if the question is about a console, not a game
  * Falls back to OpenAI extraction if IGDB/RAWG fail or return incorrect results
+ * When contextGameTitle is given (e.g. the game a Twitch channel is streaming), it is returned
+ * instead of guessing for questions that do not explicitly name a different game
  */
-export async function extractGameTitleFromQuestion(question: string): Promise<string | undefined> {
+export async function extractGameTitleFromQuestion(question: string, contextGameTitle?: string): Promise<string | undefined> {
   if (!question || question.length < 3) {
     // console.log('[Game Title] Question too short');
     return undefined;
@@ -3746,13 +3746,17 @@ export async function extractGameTitleFromQuestion(question: string): Promise<st
     return detectedConsole;
   }
 
+  if (contextGameTitle && lowerQuestion.includes(contextGameTitle.toLowerCase())) {
+    return contextGameTitle;
+  }
+
   try {
     // Extract potential game title candidates
     let candidates = extractGameTitleCandidates(question);
     
     if (candidates.length === 0) {
       console.log('[Game Title] No candidates extracted from question');
-      return undefined;
+      return contextGameTitle;
     }
 
     // Candidates are already prioritized by extractGameTitleCandidates
@@ -3795,6 +3799,12 @@ export async function extractGameTitleFromQuestion(question: string): Promise<st
       const otherCandidates = validCandidates.filter(c => !inGamePatternCandidates.has(c));
       validCandidates = [...inGameCandidates, ...otherCandidates];
     }
+
+    // With a known context game, only an explicit "in [Game Title]" mention points elsewhere;
+    // other capitalized names are usually bosses, characters or places in that game
+    if (contextGameTitle && inGamePatternCandidates.size === 0) {
+      return contextGameTitle;
+    }
     
     // CRITICAL: Prioritize longer, more specific candidates
     // If one candidate contains another (e.g., "Super Mario Bros. Wonder" contains "Super Mario Bros."),
@@ -4107,6 +4117,11 @@ export async function extractGameTitleFromQuestion(question: string): Promise<st
       }
     }
 
+    // The "in [...]" mention was not a known game (e.g. a level name), so keep the context game
+    if (contextGameTitle) {
+      return contextGameTitle;
+    }
+
     // If no API matches, try OpenAI as a fallback before using regex candidates
     // This helps when IGDB/RAWG data is out of date or incorrect
     if (candidates.length > 0) {
@@ -4163,7 +4178,7 @@ export async function extractGameTitleFromQuestion(question: string): Promise<st
     return undefined;
   } catch (error) {
     console.error('[Game Title] Error in extractGameTitleFromQuestion:', error);
-    return undefined;
+    return contextGameTitle;
   }
 }
 
@@ -4358,6 +4373,56 @@ function detectInteractionType(question: string): string | undefined {
   return 'fast_tip';
 }
 
+/**
+ * Generate trivia questions about a game, for Twitch chat trivia rounds
+ * Questions have short, unambiguous answers so chat can type them. Returns an empty list if the
+ * model fails or returns nothing usable; callers cache the results per game.
+ */
+export async function generateTriviaQuestions(
+  gameTitle: string,
+  count: number,
+  avoidQuestions: string[] = []
+): Promise<Array<{ question: string; answers: string[] }>> {
+  try {
+    const provider = getLLMProvider();
+    const avoidContext = avoidQuestions.length > 0
+      ? `\n\nDo not repeat these questions:\n${avoidQuestions.slice(0, 30).map(q => `- ${q}`).join('\n')}`
+      : '';
+
+    const completion = await provider.json<{ questions?: Array<{ question?: unknown; answers?: unknown }> }>({
+      model: provider.models.utility,
+      messages: [
+        {
+          role: 'system',
+          content: 'You write trivia questions for a Twitch chat game. Only use facts you are confident are correct. Respond with JSON only.'
+        },
+        {
+          role: 'user',
+          content: `Write ${count} trivia questions about the video game "${gameTitle}" (characters, locations, bosses, items, lore, mechanics, development).
+Each answer must be 1-4 words that viewers can type in chat, with no ambiguity. List common alternative spellings or short forms as extra answers.
+Avoid yes/no questions, questions whose answer is a number above 100, and spoilers for the ending.${avoidContext}
+
+Respond as: {"questions": [{"question": "...", "answers": ["main answer", "alternative"]}]}`
+        }
+      ],
+      temperature: 0.8, // Variety across batches for the same game
+      maxTokens: 1500,
+    });
+
+    return (completion.data?.questions || [])
+      .map(item => ({
+        question: typeof item.question === 'string' ? item.question.trim() : '',
+        answers: Array.isArray(item.answers)
+          ? item.answers.filter((answer): answer is string => typeof answer === 'string' && !!answer.trim()).map(answer => answer.trim())
+          : []
+      }))
+      .filter(item => item.question && item.answers.length > 0 && item.question.length <= 300);
+  } catch (error) {
+    console.error('Error generating trivia questions:', error);
+    return [];
+  }
+}
+
 /**
  * Extract comprehensive metadata from a question
  * Phase 2 Step 1: Question Metadata Analysis
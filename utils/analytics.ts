@@ -71,6 +71,8 @@ function getPageTitle(pathname: string): string {
     '/forgot-password': 'Forgot Password - Video Game Wingman',
     '/reset-password': 'Reset Password - Video Game Wingman',
     '/unlock-account': 'Unlock Account - Video Game Wingman',
+    '/restore-account': 'Restore Account - Video Game Wingman',
+    '/secure-account': 'Secure Account - Video Game Wingman',
     '/terms-of-service': 'Terms of Service - Video Game Wingman',
     '/privacy-policy': 'Privacy Policy - Video Game Wingman',
     '/twitch-bot': 'Twitch Bot - Video Game Wingman',
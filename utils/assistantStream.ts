@@ -0,0 +1,155 @@
+import type { NextApiRequest, NextApiResponse } from 'next';
+import type { Socket } from 'socket.io';
+
+/**
+ * Assistant Streaming Utilities
+ *
+ * Lets /api/assistant forward answer deltas as they arrive instead of waiting
+ * for the full completion. Two transports share the same writer interface:
+ * - Server-Sent Events on the HTTP response (POST /api/assistant with { stream: true })
+ * - Socket.IO events (`assistant:ask` handled in middleware/realtime.ts)
+ *
+ * Event sequence: start → delta* → done | error
+ */
+
+export interface AssistantStreamWriter {
+  /** Open the stream (sends headers for SSE). Safe to call more than once. */
+  start(): void;
+  /** Forward a partial answer chunk */
+  delta(text: string): void;
+  /** Close the stream with the final payload (full answer, threadId, metrics) */
+  done(payload: Record<string, any>): void;
+  /** Close the stream with an error payload and the HTTP status it maps to */
+  error(statusCode: number, payload: Record<string, any>): void;
+  /** Whether any delta has been forwarded yet */
+  readonly hasStreamedContent: boolean;
+}
+
+// Comment lines keep proxies (and Heroku's 55s rolling window) from closing idle streams
+const SSE_HEARTBEAT_INTERVAL = 15 * 1000; // 15 seconds
+
+/**
+ * Whether the client asked for a streamed answer
+ */
+export function wantsStreamingResponse(req: NextApiRequest): boolean {
+  if (req.body?.stream === true) {
+    return true;
+  }
+  const accept = req.headers.accept || '';
+  return accept.includes('text/event-stream');
+}
+
+/**
+ * Stream writer that emits Server-Sent Events on an API response
+ *
+ * Headers are only sent on start(), so validation and auth errors raised before
+ * streaming begins are still returned as regular JSON responses.
+ */
+export function createSSEStreamWriter(res: NextApiResponse): AssistantStreamWriter {
+  let started = false;
+  let closed = false;
+  let streamedContent = false;
+  let heartbeat: NodeJS.Timeout | null = null;
+
+  const writeEvent = (event: string, data: Record<string, any>) => {
+    if (closed) return;
+    res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+    // Flush through compression middleware if present
+    (res as any).flush?.();
+  };
+
+  const close = () => {
+    if (heartbeat) {
+      clearInterval(heartbeat);
+      heartbeat = null;
+    }
+    closed = true;
+    res.end();
+  };
+
+  // Stop writing if the client goes away mid-stream
+  res.on('close', () => {
+    if (heartbeat) {
+      clearInterval(heartbeat);
+      heartbeat = null;
+    }
+    closed = true;
+  });
+
+  return {
+    start() {
+      if (started) return;
+      started = true;
+      res.writeHead(200, {
+        'Content-Type': 'text/event-stream; charset=utf-8',
+        'Cache-Control': 'no-cache, no-transform',
+        'Connection': 'keep-alive',
+        'Content-Encoding': 'none', // Prevent Next.js compression from buffering the stream
+        'X-Accel-Buffering': 'no'
+      });
+      writeEvent('start', {});
+      heartbeat = setInterval(() => {
+        if (!closed) res.write(': ping\n\n');
+      }, SSE_HEARTBEAT_INTERVAL);
+    },
+    delta(text: string) {
+      if (!text) return;
+      if (!started) this.start();
+      streamedContent = true;
+      writeEvent('delta', { text });
+    },
+    done(payload: Record<string, any>) {
+      if (!started) {
+        res.status(200).json(payload);
+        closed = true;
+        return;
+      }
+      writeEvent('done', payload);
+      close();
+    },
+    error(statusCode: number, payload: Record<string, any>) {
+      if (!started) {
+        res.status(statusCode).json(payload);
+        closed = true;
+        return;
+      }
+      writeEvent('error', { status: statusCode, ...payload });
+      close();
+    },
+    get hasStreamedContent() {
+      return streamedContent;
+    }
+  };
+}
+
+/**
+ * Stream writer that emits Socket.IO events to the requesting socket
+ * Every event carries the client-supplied requestId so concurrent questions can be told apart
+ */
+export function createSocketStreamWriter(socket: Socket, requestId: string): AssistantStreamWriter {
+  let started = false;
+  let streamedContent = false;
+
+  return {
+    start() {
+      if (started) return;
+      started = true;
+      socket.emit('assistant:start', { requestId });
+    },
+    delta(text: string) {
+      if (!text) return;
+      if (!started) this.start();
+      streamedContent = true;
+      socket.emit('assistant:delta', { requestId, text });
+    },
+    done(payload: Record<string, any>) {
+      socket.emit('assistant:done', { requestId, ...payload });
+    },
+    error(statusCode: number, payload: Record<string, any>) {
+      socket.emit('assistant:error', { requestId, status: statusCode, ...payload });
+    },
+    get hasStreamedContent() {
+      return streamedContent;
+    }
+  };
+}
@@ -0,0 +1,92 @@
+/**
+ * Client helper for streamed /api/assistant answers (Server-Sent Events over fetch)
+ *
+ * Resolves with the final `done` payload ({ answer, threadId, metrics, ... }).
+ * Failures are thrown in the same shape as axios errors ({ response: { status, data } })
+ * so callers can keep their existing error handling.
+ */
+
+import { refreshAccessToken } from './tokenRefresh';
+
+export interface AssistantStreamError extends Error {
+  response?: { status: number; data: any };
+}
+
+const createStreamError = (status: number, data: any): AssistantStreamError => {
+  const error: AssistantStreamError = new Error(data?.error || data?.message || `Request failed with status ${status}`);
+  error.response = { status, data };
+  return error;
+};
+
+export async function streamAssistantAnswer(
+  body: Record<string, any>,
+  onDelta: (text: string) => void
+): Promise<any> {
+  const sendRequest = () => fetch('/api/assistant', {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      Accept: 'text/event-stream',
+    },
+    credentials: 'include', // Ensure cookies are sent
+    body: JSON.stringify({ ...body, stream: true }),
+  });
+
+  let res = await sendRequest();
+
+  // fetch bypasses the axios refresh interceptor, so refresh an expired access token here and retry once
+  if (res.status === 401 && await refreshAccessToken()) {
+    res = await sendRequest();
+  }
+
+  // Errors raised before streaming starts (auth, validation, moderation) come back as plain JSON
+  const contentType = res.headers.get('content-type') || '';
+  if (!contentType.includes('text/event-stream')) {
+    const data = await res.json().catch(() => ({}));
+    if (!res.ok) {
+      throw createStreamError(res.status, data);
+    }
+    return data;
+  }
+
+  if (!res.body) {
+    throw createStreamError(500, { error: 'Streaming is not supported by this browser' });
+  }
+
+  const reader = res.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  while (true) {
+    const { value, done } = await reader.read();
+    if (done) break;
+    buffer += decoder.decode(value, { stream: true });
+
+    // Events are separated by a blank line
+    let boundary = buffer.indexOf('\n\n');
+    while (boundary !== -1) {
+      const rawEvent = buffer.slice(0, boundary);
+      buffer = buffer.slice(boundary + 2);
+      boundary = buffer.indexOf('\n\n');
+
+      let eventName = 'message';
+      let dataLine = '';
+      for (const line of rawEvent.split('\n')) {
+        if (line.startsWith('event: ')) eventName = line.slice(7);
+        else if (line.startsWith('data: ')) dataLine += line.slice(6);
+      }
+      if (!dataLine) continue; // Heartbeat comment
+
+      const data = JSON.parse(dataLine);
+      if (eventName === 'delta') {
+        onDelta(data.text);
+      } else if (eventName === 'done') {
+        return data;
+      } else if (eventName === 'error') {
+        throw createStreamError(data.status || 500, data);
+      }
+    }
+  }
+
+  throw createStreamError(502, { error: 'The answer stream ended unexpectedly. Please try again.' });
+}
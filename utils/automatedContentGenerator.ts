@@ -1,32 +1,15 @@
-import OpenAI from 'openai';
 import dotenv from 'dotenv';
 import path from 'path';
 import { getGameReleaseDate } from './aiHelper';
 import { LRUCache } from './cacheManager';
+import { getLLMProvider } from './llm/provider';
 
 // Load environment variables from both .env and .env.local
 dotenv.config(); // Loads .env by default
 dotenv.config({ path: path.resolve(process.cwd(), '.env.local') }); // Also load .env.local if it exists
 
-// Lazy initialization of OpenAI client to avoid errors on server startup
-// Only initializes when actually needed
-let openaiInstance: OpenAI | null = null;
-
-function getOpenAIClient(): OpenAI {
-  if (!openaiInstance) {
-    const apiKey = process.env.OPENAI_API_KEY;
-    if (!apiKey) {
-      throw new Error('OPENAI_API_KEY environment variable is missing or empty. Please set it in your .env or .env.local file.');
-    }
-    openaiInstance = new OpenAI({
-      apiKey: apiKey,
-    });
-  }
-  return openaiInstance;
-}
-
 /**
- * Select the appropriate OpenAI model for automated users based on game release date
+ * Select the appropriate model for automated users based on game release date
  * - GPT-5.2 for games released 2024+ (better knowledge cutoff - Aug 2025 vs Oct 2023)
  * - GPT-4o for games released before 2024 (proven quality, cost-effective)
  * 
@@ -36,12 +19,13 @@ function getOpenAIClient(): OpenAI {
  * This matches the logic used by the main Video Game Wingman assistant
  * 
  * @param gameTitle - Game title to check release date for
- * @returns Model name to use ('gpt-5.2' or 'gpt-4o')
+ * @returns Model name to use (the provider's recent or utility model - 'gpt-5.2' or 'gpt-4o' on OpenAI)
  */
 async function selectModelForAutomatedUser(gameTitle: string): Promise<string> {
   const CUTOFF_YEAR = 2024; // Games released 2024+ use GPT-5.2
-  const DEFAULT_MODEL = 'gpt-4o'; // Default for older games
-  const SAFE_DEFAULT_MODEL = 'gpt-5.2'; // Safe default when release date unavailable (for newer games)
+  const models = getLLMProvider().models;
+  const DEFAULT_MODEL = models.utility; // Default for older games (gpt-4o on OpenAI)
+  const SAFE_DEFAULT_MODEL = models.recent; // Safe default when release date unavailable (for newer games)
 
   try {
     const releaseDate = await getGameReleaseDate(gameTitle);
@@ -51,7 +35,7 @@ async function selectModelForAutomatedUser(gameTitle: string): Promise<string> {
 
       if (releaseYear >= CUTOFF_YEAR) {
         console.log(`[Automated User] ✅ Using GPT-5.2 for ${gameTitle} (released ${releaseYear}, after cutoff)`);
-        return 'gpt-5.2';
+        return models.recent;
       } else {
         console.log(`[Automated User] ✅ Using GPT-4o for ${gameTitle} (released ${releaseYear}, before cutoff)`);
         return DEFAULT_MODEL;
@@ -119,7 +103,7 @@ export async function validateGameFeature(
 
     const question = featureQuestions[featureType] || featureQuestions['story content'];
 
-    const completion = await getOpenAIClient().chat.completions.create({
+    const completion = await getLLMProvider().chat({
       model: selectedModel,
       messages: [
         {
@@ -132,10 +116,10 @@ export async function validateGameFeature(
         }
       ],
       temperature: 0.1, // Low temperature for factual accuracy
-      max_tokens: 10
+      maxTokens: 10
     });
 
-    const response = completion.choices[0]?.message?.content?.trim().toUpperCase();
+    const response = completion.content?.trim().toUpperCase();
 
     let result: boolean | null;
     if (response === 'YES') {
@@ -430,7 +414,7 @@ Generate ONLY the direct question, nothing else:`;
       try {
         console.log(`[Question Generation] Attempt ${attempt}/${maxAttempts} using ${selectedModel} for ${gameTitle}`);
 
-        const completion = await getOpenAIClient().chat.completions.create({
+        const completion = await getLLMProvider().chat({
           model: selectedModel,
           messages: [
             {
@@ -443,10 +427,10 @@ Generate ONLY the direct question, nothing else:`;
             }
           ],
           temperature: 0.8, // Slightly higher temperature for more variation in questions
-          max_tokens: 150
+          maxTokens: 150
         });
 
-        const generatedQuestion = completion.choices[0]?.message?.content?.trim();
+        const generatedQuestion = completion.content?.trim();
 
         if (!generatedQuestion) {
           throw new Error('Empty response from model');
@@ -469,9 +453,9 @@ Generate ONLY the direct question, nothing else:`;
         console.error(`[Question Generation] ❌ Attempt ${attempt} failed with ${selectedModel}:`, lastError.message);
 
         // If we're using GPT-4o and it fails, retry with GPT-5.2 (might be a newer game)
-        if (attempt < maxAttempts && selectedModel === 'gpt-4o') {
+        if (attempt < maxAttempts && selectedModel === getLLMProvider().models.utility) {
           console.log(`[Question Generation] ⚠️ GPT-4o failed, retrying with GPT-5.2 (game might be too new)`);
-          selectedModel = 'gpt-5.2';
+          selectedModel = getLLMProvider().models.recent;
         } else {
           // If GPT-5.2 also fails or we've exhausted retries, throw
           break;
@@ -877,7 +861,7 @@ Generate ONLY the post content, nothing else:`;
       try {
         console.log(`[Forum Post Generation] Attempt ${attempt}/${maxAttempts} using ${selectedModel} for ${gameTitle}`);
 
-        const completion = await getOpenAIClient().chat.completions.create({
+        const completion = await getLLMProvider().chat({
           model: selectedModel,
           messages: [
             {
@@ -890,10 +874,10 @@ Generate ONLY the post content, nothing else:`;
             }
           ],
           temperature: 1.0, // Maximum temperature for maximum variation and uniqueness
-          max_tokens: 250
+          maxTokens: 250
         });
 
-        const generatedPost = completion.choices[0]?.message?.content?.trim();
+        const generatedPost = completion.content?.trim();
 
         if (!generatedPost) {
           throw new Error('Empty response from model');
@@ -916,9 +900,9 @@ Generate ONLY the post content, nothing else:`;
         console.error(`[Forum Post Generation] ❌ Attempt ${attempt} failed with ${selectedModel}:`, lastError.message);
 
         // If we're using GPT-4o and it fails, retry with GPT-5.2 (might be a newer game)
-        if (attempt < maxAttempts && selectedModel === 'gpt-4o') {
+        if (attempt < maxAttempts && selectedModel === getLLMProvider().models.utility) {
           console.log(`[Forum Post Generation] ⚠️ GPT-4o failed, retrying with GPT-5.2 (game might be too new)`);
-          selectedModel = 'gpt-5.2';
+          selectedModel = getLLMProvider().models.recent;
         } else {
           // If GPT-5.2 also fails or we've exhausted retries, throw
           break;
@@ -1015,7 +999,7 @@ Generate ONLY the reply content, nothing else:`;
       try {
         console.log(`[Post Reply Generation] Attempt ${attempt}/${maxAttempts} using ${selectedModel} for ${gameTitle}`);
 
-        const completion = await getOpenAIClient().chat.completions.create({
+        const completion = await getLLMProvider().chat({
           model: selectedModel,
           messages: [
             {
@@ -1028,10 +1012,10 @@ Generate ONLY the reply content, nothing else:`;
             }
           ],
           temperature: 0.8, // Higher temperature for more natural variation
-          max_tokens: 300
+          maxTokens: 300
         });
 
-        const generatedReply = completion.choices[0]?.message?.content?.trim();
+        const generatedReply = completion.content?.trim();
 
         if (!generatedReply) {
           throw new Error('Empty response from model');
@@ -1054,9 +1038,9 @@ Generate ONLY the reply content, nothing else:`;
         console.error(`[Post Reply Generation] ❌ Attempt ${attempt} failed with ${selectedModel}:`, lastError.message);
 
         // If we're using GPT-4o and it fails, retry with GPT-5.2 (might be a newer game)
-        if (attempt < maxAttempts && selectedModel === 'gpt-4o') {
+        if (attempt < maxAttempts && selectedModel === getLLMProvider().models.utility) {
           console.log(`[Post Reply Generation] ⚠️ GPT-4o failed, retrying with GPT-5.2 (game might be too new)`);
-          selectedModel = 'gpt-5.2';
+          selectedModel = getLLMProvider().models.recent;
         } else {
           // If GPT-5.2 also fails or we've exhausted retries, throw
           break;
@@ -1232,7 +1216,7 @@ Generate ONLY the post content, nothing else:`;
       try {
         console.log(`[Common Gamer Post] Attempt ${attempt}/${maxAttempts} using ${selectedModel} for ${gameTitle}`);
 
-        const completion = await getOpenAIClient().chat.completions.create({
+        const completion = await getLLMProvider().chat({
           model: selectedModel,
           messages: [
             {
@@ -1245,10 +1229,10 @@ Generate ONLY the post content, nothing else:`;
             }
           ],
           temperature: 0.9,
-          max_tokens: 250
+          maxTokens: 250
         });
 
-        const generatedPost = completion.choices[0]?.message?.content?.trim();
+        const generatedPost = completion.content?.trim();
 
         if (!generatedPost) {
           throw new Error('Empty response from model');
@@ -1270,9 +1254,9 @@ Generate ONLY the post content, nothing else:`;
         console.error(`[Common Gamer Post] ❌ Attempt ${attempt} failed with ${selectedModel}:`, lastError.message);
 
         // If we're using GPT-4o and it fails, retry with GPT-5.2 (might be a newer game)
-        if (attempt < maxAttempts && selectedModel === 'gpt-4o') {
+        if (attempt < maxAttempts && selectedModel === getLLMProvider().models.utility) {
           console.log(`[Common Gamer Post] ⚠️ GPT-4o failed, retrying with GPT-5.2 (game might be too new)`);
-          selectedModel = 'gpt-5.2';
+          selectedModel = getLLMProvider().models.recent;
         } else {
           // If GPT-5.2 also fails or we've exhausted retries, throw
           break;
@@ -1387,7 +1371,7 @@ Generate ONLY the reply content, nothing else:`;
       try {
         console.log(`[Expert Gamer Reply] Attempt ${attempt}/${maxAttempts} using ${selectedModel} for ${gameTitle}`);
 
-        const completion = await getOpenAIClient().chat.completions.create({
+        const completion = await getLLMProvider().chat({
           model: selectedModel,
           messages: [
             {
@@ -1400,10 +1384,10 @@ Generate ONLY the reply content, nothing else:`;
             }
           ],
           temperature: 0.8,
-          max_tokens: 350
+          maxTokens: 350
         });
 
-        const generatedReply = completion.choices[0]?.message?.content?.trim();
+        const generatedReply = completion.content?.trim();
 
         if (!generatedReply) {
           throw new Error('Empty response from model');
@@ -1425,9 +1409,9 @@ Generate ONLY the reply content, nothing else:`;
         console.error(`[Expert Gamer Reply] ❌ Attempt ${attempt} failed with ${selectedModel}:`, lastError.message);
 
         // If we're using GPT-4o and it fails, retry with GPT-5.2 (might be a newer game)
-        if (attempt < maxAttempts && selectedModel === 'gpt-4o') {
+        if (attempt < maxAttempts && selectedModel === getLLMProvider().models.utility) {
           console.log(`[Expert Gamer Reply] ⚠️ GPT-4o failed, retrying with GPT-5.2 (game might be too new)`);
-          selectedModel = 'gpt-5.2';
+          selectedModel = getLLMProvider().models.recent;
         } else {
           // If GPT-5.2 also fails or we've exhausted retries, throw
           break;
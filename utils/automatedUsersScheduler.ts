@@ -1,4 +1,5 @@
 import { askQuestion, createForumPost, respondToForumPost, getUserPreferences } from './automatedUsersService';
+import { runWithLLMUsageContext } from './llmUsageLedger';
 import { CronTask } from '../types';
 // @ts-ignore - node-schedule types may not be perfect with ES modules
 import { scheduleJob } from 'node-schedule';
@@ -640,7 +641,7 @@ class AutomatedUsersScheduler {
           }
 
           console.log(`[COMMON GAMER POST] Creating post for ${username}...`);
-          const result = await createForumPost(username, preferences);
+          const result = await runWithLLMUsageContext({ feature: 'automated_users', username }, () => createForumPost(username, preferences));
 
           if (result.success) {
             console.log(`✅ ${username} created COMMON gamer post successfully`);
@@ -683,7 +684,7 @@ class AutomatedUsersScheduler {
           }
 
           console.log(`[EXPERT GAMER REPLY] Creating reply for ${username}...`);
-          const result = await respondToForumPost(username, preferences);
+          const result = await runWithLLMUsageContext({ feature: 'automated_users', username }, () => respondToForumPost(username, preferences));
 
           if (result.success) {
             console.log(`✅ ${username} created EXPERT gamer reply successfully`);
@@ -712,7 +713,7 @@ class AutomatedUsersScheduler {
       }
 
       console.log(`Executing question activity for ${username}...`);
-      const result = await askQuestion(username, preferences);
+      const result = await runWithLLMUsageContext({ feature: 'automated_users', username }, () => askQuestion(username, preferences));
 
       if (result.success) {
         console.log(`✅ ${username} asked question successfully:`, result.details?.question);
@@ -737,7 +738,7 @@ class AutomatedUsersScheduler {
 
       console.log(`[FORUM POST] Executing forum post activity for ${username}...`);
       console.log(`[FORUM POST] This will trigger image search if enabled`);
-      const result = await createForumPost(username, preferences);
+      const result = await runWithLLMUsageContext({ feature: 'automated_users', username }, () => createForumPost(username, preferences));
 
       if (result.success) {
         console.log(`✅ ${username} created forum post successfully:`, result.details?.postContent?.substring(0, 50) + '...');
@@ -763,7 +764,7 @@ class AutomatedUsersScheduler {
       }
 
       console.log(`Executing post reply activity for ${username}...`);
-      const result = await respondToForumPost(username, preferences);
+      const result = await runWithLLMUsageContext({ feature: 'automated_users', username }, () => respondToForumPost(username, preferences));
 
       if (result.success) {
         console.log(`✅ ${username} replied to forum post successfully:`, result.details?.replyContent?.substring(0, 50) + '...');
@@ -11,11 +11,15 @@ import { GameList, ActivityResult } from '../types';
 import connectToMongoDB from './mongodb';
 import { connectToWingmanDB } from './databaseConnections';
 import Forum from '../models/Forum';
+import ForumPost from '../models/ForumPost';
+import { getPostsByForum } from './forumPosts';
 import User from '../models/User';
 import mongoose from 'mongoose';
 import { normalizeForumCategory, forumCategoryDisplayName } from './forumCategory';
 import { getGameModeProfile, getPrimaryGenreForGame, getAllGenresForGame } from './gameCatalog';
-import { LRUCache } from './cacheManager';
+import { LRUCache, cacheManager } from './cacheManager';
+import { notifyUser } from '../middleware/realtime';
+import { notifyForumReply, truncatePreview } from './notifications';
 
 /**
  * Cache for user preferences to avoid repeated database queries
@@ -56,6 +60,14 @@ const forumListCache = new LRUCache<any[]>(
   30 * 1000 // Cleanup every 30 seconds
 );
 
+// Registered so forum changes can invalidate it on every instance
+cacheManager.registerCache('ForumListCache', forumListCache);
+
+// Posts loaded per forum when picking a forum or a post to reply to (replies only go to posts
+// from the last 7 days, and the uniqueness check looks back 30)
+const RECENT_POST_DAYS = 30;
+const RECENT_POSTS_PER_FORUM = 100;
+
 /**
  * Helper function to determine if an error is retryable
  * Retries on timeouts, network errors, and 5xx server errors (transient failures)
@@ -927,7 +939,6 @@ async function createForumForGame(
       isPrivate: false,
       allowedUsers: [],
       createdBy: username,
-      posts: [],
       metadata: {
         totalPosts: 0,
         lastActivityAt: new Date(),
@@ -940,8 +951,8 @@ async function createForumForGame(
     await newForum.save();
 
     // Invalidate forum list cache since we created a new forum
-    // Clear all forum list cache entries to ensure fresh data
-    forumListCache.clear();
+    // Clear all forum list cache entries on every instance to ensure fresh data
+    cacheManager.invalidate('ForumListCache');
 
     console.log(`[FORUM CREATION] Successfully created forum ${forumId} in database`);
 
@@ -962,8 +973,7 @@ async function createForumForGame(
       const canonical = dupes[0];
       if (canonical.forumId !== forumId) {
         // Only delete if our newly created forum is empty (it should be)
-        const createdDoc = await Forum.findOne({ forumId }).select('posts').lean() as any;
-        const hasPosts = createdDoc?.posts && Array.isArray(createdDoc.posts) && createdDoc.posts.length > 0;
+        const hasPosts = await ForumPost.exists({ forumId });
         if (!hasPosts) {
           await Forum.deleteOne({ forumId });
           console.warn(
@@ -1144,13 +1154,23 @@ export async function createForumPost(
           ],
           'metadata.status': 'active'
         })
-          .select('forumId gameTitle title category isPrivate allowedUsers createdBy posts metadata.totalPosts metadata.lastActivityAt metadata.viewCount metadata.status _id')
+          .select('forumId gameTitle title category isPrivate allowedUsers createdBy metadata.totalPosts metadata.lastActivityAt metadata.viewCount metadata.status _id')
           .sort({ 'metadata.lastActivityAt': -1 })
           .limit(100)
           .lean(); // Use lean() for better performance
 
-        forums = forumDocs.map(forum => ({
+        // Attach the last 30 days of posts (enough for forum selection and the uniqueness check below)
+        const recentPostsByForum = await getPostsByForum(
+          forumDocs.map((forum: any) => forum.forumId),
+          {
+            since: new Date(Date.now() - RECENT_POST_DAYS * 24 * 60 * 60 * 1000),
+            limitPerForum: RECENT_POSTS_PER_FORUM
+          }
+        );
+
+        forums = forumDocs.map((forum: any) => ({
           ...forum,
+          posts: recentPostsByForum.get(forum.forumId) || [],
           metadata: {
             totalPosts: forum.metadata?.totalPosts || 0,
             lastActivityAt: forum.metadata?.lastActivityAt || new Date(),
@@ -1800,8 +1820,8 @@ export async function createForumPost(
       }
 
       // Create new post
-      const newPost = {
-        _id: new mongoose.Types.ObjectId(),
+      const newPost = await ForumPost.create({
+        forumId,
         username,
         message: postContent,
         timestamp: new Date(),
@@ -1815,16 +1835,18 @@ export async function createForumPost(
           attachments: attachments,
           status: 'active'
         }
-      };
+      });
 
-      // Add post to forum
-      forum.posts.push(newPost);
-      forum.metadata.totalPosts = (forum.metadata.totalPosts || 0) + 1;
-      forum.metadata.lastActivityAt = new Date();
-      await forum.save();
+      await Forum.updateOne(
+        { forumId },
+        {
+          $inc: { 'metadata.totalPosts': 1 },
+          $set: { 'metadata.lastActivityAt': new Date() }
+        }
+      );
       
       // Invalidate forum list cache since we updated a forum (added a post)
-      forumListCache.clear();
+      cacheManager.invalidate('ForumListCache');
 
       console.log(`[FORUM POST] Successfully added post to forum ${forumId}`);
 
@@ -2400,7 +2422,7 @@ export async function respondToForumPost(
           ],
           'metadata.status': 'active'
         })
-          .select('forumId gameTitle title category isPrivate allowedUsers createdBy posts metadata.totalPosts metadata.lastActivityAt metadata.viewCount metadata.status _id')
+          .select('forumId gameTitle title category isPrivate allowedUsers createdBy metadata.totalPosts metadata.lastActivityAt metadata.viewCount metadata.status _id')
           .sort({ 'metadata.lastActivityAt': -1 })
           .limit(100)
           .lean();
@@ -2429,9 +2451,7 @@ export async function respondToForumPost(
     }
 
     // Filter to only forums with posts
-    const forumsWithPosts = forums.filter((f: any) =>
-      f.metadata?.totalPosts > 0 || (f.posts && Array.isArray(f.posts) && f.posts.length > 0)
-    );
+    const forumsWithPosts = forums.filter((f: any) => f.metadata?.totalPosts > 0);
 
     if (forumsWithPosts.length === 0) {
       return {
@@ -2441,46 +2461,25 @@ export async function respondToForumPost(
       };
     }
 
-    // Fetch full forum details with posts directly from database
-    // Limit to first 10 forums to avoid too many database queries
-    // OPTIMIZED: Fetch all forums in parallel instead of sequentially
+    // Load the recent posts of the 10 most recently active forums
     const forumsToCheck = forumsWithPosts.slice(0, 10);
-    
-    const forumFetchPromises = forumsToCheck.map(async (forum) => {
-      try {
-        const forumId = forum.forumId || forum._id;
-        const forumDoc = await Forum.findOne({ forumId }).lean() as any;
-
-        if (forumDoc && forumDoc.posts && Array.isArray(forumDoc.posts) && forumDoc.posts.length > 0) {
-          return {
-            ...forumDoc,
-            metadata: {
-              totalPosts: forumDoc.metadata?.totalPosts || forumDoc.posts.length,
-              lastActivityAt: forumDoc.metadata?.lastActivityAt || new Date(),
-              viewCount: forumDoc.metadata?.viewCount || 0,
-              status: forumDoc.metadata?.status || 'active'
-            }
-          };
-        }
-        return null;
-      } catch (error) {
-        console.error(`[POST REPLY] Error fetching forum details for ${forum.forumId}:`, error);
-        return null; // Return null on error, will be filtered out
-      }
-    });
-
-    // Execute all forum fetches in parallel
-    const forumResults = await Promise.all(forumFetchPromises);
-    const forumsWithFullPosts = forumResults.filter((forum): forum is any => forum !== null);
-
-    // If we don't have posts from database queries, try using posts from initial forums response
-    if (forumsWithFullPosts.length === 0) {
-      // Use forums that might have posts in the response
-      for (const forum of forumsWithPosts) {
-        if (forum.posts && Array.isArray(forum.posts) && forum.posts.length > 0) {
-          forumsWithFullPosts.push(forum);
+    let forumsWithFullPosts: any[] = [];
+    try {
+      const postsByForum = await getPostsByForum(
+        forumsToCheck.map((forum: any) => forum.forumId),
+        {
+          since: new Date(Date.now() - RECENT_POST_DAYS * 24 * 60 * 60 * 1000),
+          limitPerForum: RECENT_POSTS_PER_FORUM
         }
-      }
+      );
+      forumsWithFullPosts = forumsToCheck
+        .filter((forum: any) => (postsByForum.get(forum.forumId) || []).length > 0)
+        .map((forum: any) => ({
+          ...forum,
+          posts: postsByForum.get(forum.forumId)
+        }));
+    } catch (error) {
+      console.error('[POST REPLY] Error fetching forum posts:', error);
     }
 
     if (forumsWithFullPosts.length === 0) {
@@ -2623,53 +2622,21 @@ export async function respondToForumPost(
       }
 
       // Create reply post
-      // Find the original post in the forum document to get the proper ObjectId
-      // This ensures we have the correct _id even if the post came from a lean() query
-      let replyToId = null;
-      if (post._id) {
-        try {
-          // First, try to find the post in the forum document by matching _id
-          const originalPost = forumDoc.posts.find((p: any) => {
-            if (!p._id) return false;
-            // Compare as strings to handle both ObjectId and string formats
-            const postIdStr = post._id.toString();
-            const pIdStr = p._id.toString();
-            return pIdStr === postIdStr;
-          });
-
-          if (originalPost && originalPost._id) {
-            // Use the ObjectId from the forum document (guaranteed to be correct)
-            replyToId = originalPost._id;
-            console.log(`[POST REPLY] Found original post in forum, using _id: ${replyToId.toString()}`);
-          } else {
-            // Fallback: try to convert the post._id we have
-            // If it's already an ObjectId, use it; if it's a string, convert it
-            replyToId = typeof post._id === 'string'
-              ? new mongoose.Types.ObjectId(post._id)
-              : post._id instanceof mongoose.Types.ObjectId
-                ? post._id
-                : new mongoose.Types.ObjectId(post._id.toString());
-            console.log(`[POST REPLY] Original post not found in forum, converted _id: ${replyToId.toString()}`);
-          }
-        } catch (error) {
-          console.error(`[POST REPLY] Error finding/converting post._id: ${post._id}`, error);
-          // Last resort: try to find by username, message, and timestamp
-          const originalPost = forumDoc.posts.find((p: any) =>
-            p.username === post.username &&
-            p.message === post.message &&
-            Math.abs(new Date(p.timestamp).getTime() - new Date(post.timestamp).getTime()) < 5000
-          );
-          if (originalPost && originalPost._id) {
-            replyToId = originalPost._id;
-            console.log(`[POST REPLY] Found post by content matching, using _id: ${replyToId.toString()}`);
-          } else {
-            console.warn(`[POST REPLY] Could not find original post _id, reply will not be linked`);
-          }
+      // Look the original post up again so the reply links to an _id that really exists in this forum
+      let replyToId: mongoose.Types.ObjectId | null = null;
+      if (post._id && mongoose.Types.ObjectId.isValid(post._id.toString())) {
+        const originalPost = await ForumPost.findOne({ _id: post._id, forumId }).select('_id').lean() as { _id: mongoose.Types.ObjectId } | null;
+        if (originalPost) {
+          replyToId = originalPost._id;
+          console.log(`[POST REPLY] Found original post in forum, using _id: ${replyToId.toString()}`);
         }
       }
+      if (!replyToId) {
+        console.warn(`[POST REPLY] Could not find original post _id, reply will not be linked`);
+      }
 
-      const replyPost = {
-        _id: new mongoose.Types.ObjectId(),
+      const replyPost = await ForumPost.create({
+        forumId,
         username,
         message: replyContent,
         timestamp: new Date(),
@@ -2683,18 +2650,42 @@ export async function respondToForumPost(
           attachments: [],
           status: 'active'
         }
-      };
+      });
 
       console.log(`[POST REPLY] Creating reply to post by ${originalPostAuthor}, replyTo ID: ${replyToId ? replyToId.toString() : 'null'}`);
 
-      // Add reply to forum
-      forumDoc.posts.push(replyPost);
-      forumDoc.metadata.totalPosts = (forumDoc.metadata.totalPosts || 0) + 1;
-      forumDoc.metadata.lastActivityAt = new Date();
-      await forumDoc.save();
+      await Forum.updateOne(
+        { forumId },
+        {
+          $inc: { 'metadata.totalPosts': 1 },
+          $set: { 'metadata.lastActivityAt': new Date() }
+        }
+      );
 
       console.log(`[POST REPLY] Successfully added reply to forum ${forumId}`);
 
+      // Let the original author know someone replied to their post
+      if (replyToId && originalPostAuthor && originalPostAuthor !== username) {
+        notifyUser(originalPostAuthor, 'forumReply', {
+          forumId,
+          forumTitle,
+          postId: replyPost._id.toString(),
+          replyToPostId: replyToId.toString(),
+          repliedBy: username,
+          preview: truncatePreview(replyContent),
+          message: `${username} replied to your post in ${forumTitle}`
+        });
+        await notifyForumReply({
+          recipient: originalPostAuthor,
+          repliedBy: username,
+          forumId,
+          forumTitle,
+          postId: replyPost._id.toString(),
+          replyToPostId: replyToId.toString(),
+          message: replyContent
+        });
+      }
+
       return {
         success: true,
         message: 'Forum post reply created successfully',
@@ -8,7 +8,12 @@
  * - Periodic cleanup of expired entries
  * - Cache hit/miss metrics
  * - Memory-efficient implementation
+ *
+ * Also home of MemoryStore, the in-process SharedStore used when no Redis is configured
+ * (see utils/sharedStore.ts)
  */
+import { EventEmitter } from 'events';
+import type { CounterState, SharedStore } from './sharedStore';
 
 interface CacheEntry<T> {
   value: T;
@@ -297,6 +302,84 @@ export class LRUCache<T> {
   }
 }
 
+/**
+ * In-memory SharedStore
+ *
+ * The default when REDIS_URL is not set. Everything lives in this process, so limits and cached
+ * values are not shared between instances. Values are kept by reference (the Redis store keeps
+ * JSON copies), so callers must not mutate what they get back.
+ */
+export class MemoryStore implements SharedStore {
+  readonly backend = 'memory' as const;
+  private values: LRUCache<any>;
+  private counters: LRUCache<CounterState>;
+  private events = new EventEmitter();
+
+  /**
+   * @param maxSize - Maximum number of values, and separately of counters (default: 10000)
+   */
+  constructor(maxSize: number = 10000) {
+    this.values = new LRUCache<any>(maxSize, 60 * 60 * 1000, 5 * 60 * 1000);
+    this.counters = new LRUCache<CounterState>(maxSize, 60 * 1000, 60 * 1000);
+    this.events.setMaxListeners(0);
+    CacheManager.getInstance().registerCache('SharedStore', this.values);
+    CacheManager.getInstance().registerCache('SharedStoreCounters', this.counters);
+  }
+
+  async get<T>(key: string): Promise<T | null> {
+    return this.values.get(key) as T | null;
+  }
+
+  async set<T>(key: string, value: T, ttlMs: number): Promise<void> {
+    this.values.set(key, value, ttlMs);
+  }
+
+  async delete(key: string): Promise<void> {
+    this.values.delete(key);
+    this.counters.delete(key);
+  }
+
+  async increment(key: string, windowMs: number, by: number = 1): Promise<CounterState> {
+    const now = Date.now();
+    const counter = this.counters.get(key);
+
+    if (!counter) {
+      // Never start a window with a decrement
+      if (by < 0) return { count: 0, resetAt: now };
+      const started = { count: by, resetAt: now + windowMs };
+      this.counters.set(key, started, windowMs);
+      return { ...started };
+    }
+
+    // Updated in place so the window keeps its original expiry
+    counter.count += by;
+    return { ...counter };
+  }
+
+  async publish(channel: string, message: string): Promise<void> {
+    this.events.emit(channel, message);
+  }
+
+  async subscribe(channel: string, handler: (message: string) => void): Promise<void> {
+    this.events.on(channel, handler);
+  }
+
+  async close(): Promise<void> {
+    this.values.stopCleanup();
+    this.counters.stopCleanup();
+    this.events.removeAllListeners();
+  }
+}
+
+// Channel for CacheManager.invalidate() messages
+const CACHE_INVALIDATION_CHANNEL = 'cache-invalidation';
+
+interface CacheInvalidationMessage {
+  origin: string; // CacheManager that published it, which has already applied it
+  cache: string;
+  key?: string; // Whole cache when omitted
+}
+
 /**
  * Cache Manager - Centralized cache management and monitoring
  */
@@ -304,6 +387,8 @@ export class CacheManager {
   private static instance: CacheManager;
   private caches: Map<string, LRUCache<any>> = new Map();
   private metricsInterval: NodeJS.Timeout | null = null;
+  private readonly instanceId = `${process.pid}-${Math.random().toString(36).slice(2, 10)}`;
+  private invalidationStore: SharedStore | null = null;
 
   private constructor() {
     // Start metrics collection
@@ -324,6 +409,55 @@ export class CacheManager {
     this.caches.set(name, cache);
   }
 
+  /**
+   * Remove a key, or every key, from a registered cache in this process and on every other
+   * instance listening on the shared store
+   */
+  invalidate(name: string, key?: string): void {
+    this.applyInvalidation(name, key);
+
+    if (this.invalidationStore) {
+      const message: CacheInvalidationMessage = { origin: this.instanceId, cache: name, key };
+      this.invalidationStore.publish(CACHE_INVALIDATION_CHANNEL, JSON.stringify(message)).catch((error) => {
+        console.warn(`[CacheManager] Failed to publish invalidation for ${name}:`, error.message);
+      });
+    }
+  }
+
+  /**
+   * Start applying invalidations published by other instances
+   * Called by getSharedStore(); repeat calls with the same store do nothing
+   */
+  listenForInvalidations(store: SharedStore): void {
+    if (this.invalidationStore === store) return;
+    this.invalidationStore = store;
+
+    store
+      .subscribe(CACHE_INVALIDATION_CHANNEL, (raw) => {
+        try {
+          const message = JSON.parse(raw) as CacheInvalidationMessage;
+          if (message.origin !== this.instanceId) {
+            this.applyInvalidation(message.cache, message.key);
+          }
+        } catch (error) {
+          console.warn('[CacheManager] Ignoring malformed invalidation message:', raw);
+        }
+      })
+      .catch((error) => {
+        console.warn('[CacheManager] Failed to subscribe to cache invalidations:', error.message);
+      });
+  }
+
+  private applyInvalidation(name: string, key?: string): void {
+    const cache = this.caches.get(name);
+    if (!cache) return;
+    if (key === undefined) {
+      cache.clear();
+    } else {
+      cache.delete(key);
+    }
+  }
+
   /**
    * Get all cache metrics
    */
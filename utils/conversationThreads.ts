@@ -0,0 +1,146 @@
+import type { ClientSession } from 'mongoose';
+import ConversationThread from '../models/ConversationThread';
+import Question from '../models/Question';
+
+/**
+ * Conversation Thread Utilities
+ *
+ * Resolves the thread a question belongs to and assembles the recent turns
+ * of that thread into a token-budgeted history window for the AI helpers.
+ */
+
+/**
+ * A single prior turn passed to getChatCompletion/getChatCompletionWithVision
+ */
+export interface ChatHistoryMessage {
+  role: 'user' | 'assistant';
+  content: string;
+}
+
+export interface ThreadHistoryOptions {
+  maxTurns?: number; // Max question/answer pairs to consider
+  maxTokens?: number; // Total token budget for the history window
+  maxTokensPerMessage?: number; // Long answers (walkthroughs) are truncated to this
+}
+
+const DEFAULT_HISTORY_OPTIONS: Required<ThreadHistoryOptions> = {
+  maxTurns: 6,
+  maxTokens: 1500,
+  maxTokensPerMessage: 400
+};
+
+const MAX_THREAD_TITLE_LENGTH = 80;
+
+/**
+ * Rough token estimate (~4 characters per token for English text)
+ * Good enough for budgeting without pulling in a tokenizer
+ */
+export function estimateTokens(text: string): number {
+  return Math.ceil((text || '').length / 4);
+}
+
+/**
+ * Truncate text so it fits within a token budget
+ */
+function truncateToTokens(text: string, maxTokens: number): string {
+  const maxChars = maxTokens * 4;
+  if (text.length <= maxChars) {
+    return text;
+  }
+  return text.substring(0, maxChars - 3) + '...';
+}
+
+/**
+ * Build a thread title from the first question asked in it
+ */
+export function generateThreadTitle(question: string): string {
+  const singleLine = question.replace(/\s+/g, ' ').trim();
+  if (!singleLine) {
+    return 'New conversation';
+  }
+  return singleLine.length > MAX_THREAD_TITLE_LENGTH
+    ? singleLine.substring(0, MAX_THREAD_TITLE_LENGTH - 3) + '...'
+    : singleLine;
+}
+
+/**
+ * Find a thread owned by the user
+ * Returns null if the thread doesn't exist or belongs to someone else
+ */
+export async function findUserThread(username: string, threadId: string) {
+  return ConversationThread.findOne({ threadId, username });
+}
+
+/**
+ * Start a new thread titled after the question that opened it
+ * Accepts a session so the thread is created in the same transaction as the question
+ */
+export async function createThreadForQuestion(
+  username: string,
+  question: string,
+  session: ClientSession | null = null
+) {
+  const [thread] = await ConversationThread.create([{
+    username,
+    title: generateThreadTitle(question),
+    questionCount: 0,
+    lastMessageAt: new Date()
+  }], { session });
+  return thread;
+}
+
+/**
+ * Assemble the recent turns of a thread as chat history
+ *
+ * Turns are walked newest-first and added until the token budget is spent,
+ * then returned in chronological order so the model reads them naturally.
+ */
+export async function buildThreadHistory(
+  username: string,
+  threadId: string,
+  options: ThreadHistoryOptions = {}
+): Promise<ChatHistoryMessage[]> {
+  const { maxTurns, maxTokens, maxTokensPerMessage } = { ...DEFAULT_HISTORY_OPTIONS, ...options };
+
+  const recentQuestions = await Question.find({ username, threadId })
+    .sort({ timestamp: -1 })
+    .limit(maxTurns)
+    .select('question response')
+    .lean() as unknown as Array<{ question: string; response: string }>;
+
+  const turns: ChatHistoryMessage[][] = [];
+  let usedTokens = 0;
+
+  for (const entry of recentQuestions) {
+    const userContent = truncateToTokens(entry.question, maxTokensPerMessage);
+    const assistantContent = truncateToTokens(entry.response, maxTokensPerMessage);
+    const turnTokens = estimateTokens(userContent) + estimateTokens(assistantContent);
+
+    // Stop once the next (older) turn would exceed the budget
+    if (usedTokens + turnTokens > maxTokens) {
+      break;
+    }
+
+    usedTokens += turnTokens;
+    turns.push([
+      { role: 'user', content: userContent },
+      { role: 'assistant', content: assistantContent }
+    ]);
+  }
+
+  return turns.reverse().flat();
+}
+
+/**
+ * Record that a new question was added to a thread
+ */
+export async function recordThreadActivity(
+  threadId: string,
+  session: ClientSession | null = null
+): Promise<void> {
+  await ConversationThread.updateOne(
+    { threadId },
+    { $inc: { questionCount: 1 }, $set: { lastMessageAt: new Date() } },
+    { session: session || undefined }
+  );
+}
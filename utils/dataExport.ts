@@ -0,0 +1,519 @@
+/**
+ * Account data export (GDPR-style takeout)
+ *
+ * Collects everything stored about a user - profile, progress, achievements, challenge history,
+ * health settings, game tracking, saved guides, questions, forum activity, feedback, sessions,
+ * security events, violations and linked Twitch/Discord data - into a ZIP of JSON files plus CSV/Markdown copies
+ * that are readable without tools.
+ *
+ * Exports run in the background after POST /api/account/export. The ZIP is kept in the
+ * 'dataexports' GridFS bucket and the download link expires after EXPORT_TTL_MS.
+ * Callers are responsible for connecting to the database.
+ */
+import crypto from 'crypto';
+import mongoose from 'mongoose';
+import DataExport, { IDataExport } from '../models/DataExport';
+import User from '../models/User';
+import Question from '../models/Question';
+import ConversationThread from '../models/ConversationThread';
+import Forum from '../models/Forum';
+import ForumPost from '../models/ForumPost';
+import Feedback from '../models/Feedback';
+import Session from '../models/Session';
+import SecurityEvent from '../models/SecurityEvent';
+import Notification from '../models/Notification';
+import UserViolation from '../models/UserViolation';
+import TwitchUserViolation from '../models/TwitchUserViolation';
+import DiscordUserViolation from '../models/DiscordUserViolation';
+import TwitchBotChannel from '../models/TwitchBotChannel';
+import ModerationAppeal from '../models/ModerationAppeal';
+import ContentReport from '../models/ContentReport';
+import { getDiscordIdForUser } from './discord/discordGuilds';
+import { createZipArchive, ZipEntry } from './zipArchive';
+import { logger } from './logger';
+import { HttpError } from './httpError';
+
+export const EXPORT_TTL_MS = 48 * 60 * 60 * 1000; // Download link lifetime
+export const EXPORT_COOLDOWN_MS = 60 * 60 * 1000; // Minimum time between exports
+const STALE_JOB_MS = 30 * 60 * 1000; // Jobs still running after this were interrupted
+const BUCKET_NAME = 'dataexports';
+
+// Credentials and one-time codes are never exported
+const EXCLUDED_USER_FIELDS = [
+  'password',
+  'passwordResetToken',
+  'passwordResetExpires',
+  'passwordResetCode',
+  'passwordResetCodeExpires',
+  'unlockToken',
+  'unlockTokenExpires',
+  'deletionRestoreToken',
+  'twoFactor.secret',
+  'twoFactor.pendingSecret',
+  'twoFactor.recoveryCodes',
+  '__v',
+];
+
+function getBucket() {
+  const db = mongoose.connection.db;
+  if (!db) {
+    throw new Error('Database is not connected');
+  }
+  return new mongoose.mongo.GridFSBucket(db, { bucketName: BUCKET_NAME });
+}
+
+/**
+ * Format rows as CSV, quoting every value that needs it
+ */
+function toCsv(rows: Record<string, any>[], columns: string[]): string {
+  const escape = (value: any): string => {
+    if (value === null || value === undefined) return '';
+    const text = value instanceof Date
+      ? value.toISOString()
+      : Array.isArray(value)
+        ? value.join('; ')
+        : typeof value === 'object'
+          ? JSON.stringify(value)
+          : String(value);
+    return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+  };
+  const lines = [columns.join(',')];
+  for (const row of rows) {
+    lines.push(columns.map(column => escape(row[column])).join(','));
+  }
+  return lines.join('\r\n') + '\r\n';
+}
+
+const toJson = (value: any) => JSON.stringify(value, null, 2);
+
+const formatDate = (value: any) => (value ? new Date(value).toISOString() : '');
+
+/**
+ * Gather every record held about a user, grouped into export sections
+ */
+export async function collectUserData(username: string): Promise<Record<string, any>> {
+  const user = await User.findOne({ username })
+    .select(EXCLUDED_USER_FIELDS.map(field => `-${field}`).join(' '))
+    .lean() as any;
+  if (!user) {
+    throw new HttpError('User not found', 404);
+  }
+
+  const twitchUsername: string | undefined = user.twitchUsername?.toLowerCase();
+  const discordId = await getDiscordIdForUser(username);
+
+  const [
+    questions,
+    threads,
+    forumPosts,
+    forumsCreated,
+    feedback,
+    sessions,
+    securityEvents,
+    notifications,
+    webViolations,
+    appeals,
+    reportsFiled,
+    twitchViolations,
+    twitchChannels,
+    discordViolations,
+  ] = await Promise.all([
+    Question.find({ username }).sort({ timestamp: 1 }).lean(),
+    ConversationThread.find({ username }).sort({ createdAt: 1 }).lean(),
+    ForumPost.find({ $or: [{ username }, { createdBy: username }] }).sort({ timestamp: 1 }).lean(),
+    Forum.find({ createdBy: username })
+      .select('forumId title gameTitle category isPrivate allowedUsers createdAt updatedAt metadata.status metadata.totalPosts metadata.viewCount')
+      .lean(),
+    Feedback.find({ username }).sort({ createdAt: 1 }).lean(),
+    Session.find({ username }).select('-sessionId -refreshTokenHash').sort({ createdAt: 1 }).lean(),
+    SecurityEvent.find({ userId: user.userId }).select('-sessionId').sort({ createdAt: 1 }).lean(),
+    Notification.find({ username }).sort({ createdAt: 1 }).lean(),
+    UserViolation.findOne({ username }).lean(),
+    ModerationAppeal.find({ username }).sort({ createdAt: 1 }).lean(),
+    ContentReport.find({ reportedBy: username }).sort({ createdAt: 1 }).lean(),
+    twitchUsername ? TwitchUserViolation.find({ twitchUsername }).lean() : Promise.resolve([]),
+    TwitchBotChannel.find({ streamerUsername: username }).select('-accessToken -refreshToken').lean(),
+    discordId ? DiscordUserViolation.find({ discordUserId: discordId }).lean() : Promise.resolve([]),
+  ]);
+
+  const {
+    achievements,
+    progress,
+    challengeHistory,
+    challengeRewards,
+    challengeProgress,
+    challengeProgresses,
+    challengeStreak,
+    healthMonitoring,
+    gameTracking,
+    guides,
+    ...profile
+  } = user;
+
+  return {
+    profile,
+    progress: {
+      progress: progress || {},
+      achievements: achievements || [],
+      challengeRewards: challengeRewards || [],
+      challengeProgress: challengeProgresses || (challengeProgress ? [challengeProgress] : []),
+      challengeStreak: challengeStreak || null,
+      challengeHistory: challengeHistory || [],
+    },
+    healthMonitoring: healthMonitoring || null,
+    gameTracking: gameTracking || { wishlist: [], currentlyPlaying: [] },
+    guides: guides || [],
+    questions,
+    conversationThreads: threads,
+    forumPosts,
+    forumsCreated,
+    feedback,
+    sessions,
+    securityEvents,
+    notifications,
+    moderation: {
+      violations: webViolations,
+      appeals,
+      reportsFiled,
+    },
+    twitch: {
+      twitchUsername: user.twitchUsername || null,
+      twitchId: user.twitchId || null,
+      botChannels: twitchChannels,
+      violations: twitchViolations,
+    },
+    discord: {
+      discordId,
+      discordUsername: user.discordUsername || null,
+      violations: discordViolations,
+    },
+  };
+}
+
+/**
+ * Turn collected data into ZIP entries: JSON for every section, plus CSV/Markdown copies
+ */
+export function buildExportEntries(username: string, data: Record<string, any>, generatedAt: Date): {
+  entries: ZipEntry[];
+  sections: Record<string, number>;
+} {
+  const sections: Record<string, number> = {
+    questions: data.questions.length,
+    conversationThreads: data.conversationThreads.length,
+    forumPosts: data.forumPosts.length,
+    forumsCreated: data.forumsCreated.length,
+    feedback: data.feedback.length,
+    sessions: data.sessions.length,
+    securityEvents: data.securityEvents.length,
+    notifications: data.notifications.length,
+    achievements: data.progress.achievements.length,
+    challengeHistory: data.progress.challengeHistory.length,
+    guides: data.guides.length,
+    violations: (data.moderation.violations?.violations?.length || 0)
+      + data.twitch.violations.reduce((sum: number, record: any) => sum + (record.violations?.length || 0), 0)
+      + data.discord.violations.reduce((sum: number, record: any) => sum + (record.violations?.length || 0), 0),
+  };
+
+  const entries: ZipEntry[] = [
+    { name: 'json/profile.json', content: toJson(data.profile) },
+    { name: 'json/progress.json', content: toJson(data.progress) },
+    { name: 'json/health-monitoring.json', content: toJson(data.healthMonitoring) },
+    { name: 'json/game-tracking.json', content: toJson(data.gameTracking) },
+    { name: 'json/guides.json', content: toJson(data.guides) },
+    { name: 'json/questions.json', content: toJson(data.questions) },
+    { name: 'json/conversation-threads.json', content: toJson(data.conversationThreads) },
+    { name: 'json/forum-posts.json', content: toJson(data.forumPosts) },
+    { name: 'json/forums-created.json', content: toJson(data.forumsCreated) },
+    { name: 'json/feedback.json', content: toJson(data.feedback) },
+    { name: 'json/sessions.json', content: toJson(data.sessions) },
+    { name: 'json/security-events.json', content: toJson(data.securityEvents) },
+    { name: 'json/notifications.json', content: toJson(data.notifications) },
+    { name: 'json/moderation.json', content: toJson(data.moderation) },
+    { name: 'json/twitch.json', content: toJson(data.twitch) },
+    { name: 'json/discord.json', content: toJson(data.discord) },
+
+    {
+      name: 'csv/questions.csv',
+      content: toCsv(data.questions, ['timestamp', 'question', 'response', 'detectedGame', 'questionCategory', 'threadId', 'imageUrl']),
+    },
+    {
+      name: 'csv/forum-posts.csv',
+      content: toCsv(
+        data.forumPosts.map((post: any) => ({ ...post, status: post.metadata?.status || 'active' })),
+        ['timestamp', 'forumId', 'message', 'replyTo', 'status']
+      ),
+    },
+    {
+      name: 'csv/feedback.csv',
+      content: toCsv(data.feedback, ['createdAt', 'category', 'title', 'message', 'status', 'adminResponse']),
+    },
+    {
+      name: 'csv/sessions.csv',
+      content: toCsv(
+        data.sessions.map((session: any) => ({
+          ...session,
+          browser: session.deviceInfo?.browser,
+          os: session.deviceInfo?.os,
+          device: session.deviceInfo?.device,
+        })),
+        ['createdAt', 'lastActivity', 'isActive', 'ipAddress', 'browser', 'os', 'device']
+      ),
+    },
+    {
+      name: 'csv/achievements.csv',
+      content: toCsv(data.progress.achievements, ['name', 'dateEarned']),
+    },
+    {
+      name: 'csv/challenge-history.csv',
+      content: toCsv(data.progress.challengeHistory, ['date', 'challengeTitle', 'difficulty', 'completedAt', 'streakAtCompletion']),
+    },
+    {
+      name: 'csv/game-tracking.csv',
+      content: toCsv(
+        [
+          ...(data.gameTracking.wishlist || []).map((game: any) => ({ list: 'wishlist', date: game.addedAt, ...game })),
+          ...(data.gameTracking.currentlyPlaying || []).map((game: any) => ({ list: 'currentlyPlaying', date: game.startedAt, ...game })),
+        ],
+        ['list', 'gameName', 'date', 'notes']
+      ),
+    },
+    {
+      name: 'csv/violations.csv',
+      content: toCsv(
+        [
+          ...(data.moderation.violations?.violations || []).map((v: any) => ({ platform: 'web', where: '', ...v })),
+          ...data.twitch.violations.flatMap((record: any) =>
+            (record.violations || []).map((v: any) => ({ platform: 'twitch', where: record.channelName, ...v }))
+          ),
+          ...data.discord.violations.flatMap((record: any) =>
+            (record.violations || []).map((v: any) => ({ platform: 'discord', where: record.guildId, ...v }))
+          ),
+        ],
+        ['platform', 'where', 'timestamp', 'offendingWords', 'content', 'message', 'actionTaken']
+      ),
+    },
+  ];
+
+  const guideMarkdown = data.guides.length === 0
+    ? '# Saved Guides\n\nNo saved guides.\n'
+    : '# Saved Guides\n\n' + data.guides.map((guide: any) =>
+      `## ${guide.title}\n\n_Saved ${formatDate(guide.savedAt)}_\n\n**Question:** ${guide.question}\n\n${guide.response}\n`
+    ).join('\n---\n\n');
+  entries.push({ name: 'guides.md', content: guideMarkdown });
+
+  const readme = [
+    '# Video Game Wingman Data Export',
+    '',
+    `Account: ${username}`,
+    `Generated: ${generatedAt.toISOString()}`,
+    '',
+    'This archive contains the data we hold about your account.',
+    '',
+    '- `json/` has complete copies of every record, in JSON.',
+    '- `csv/` has spreadsheet-friendly copies of the main lists.',
+    '- `guides.md` has your saved guides.',
+    '',
+    'Passwords, reset codes and session tokens are not included.',
+    '',
+    '## Contents',
+    '',
+    '| Section | Records |',
+    '| --- | --- |',
+    ...Object.keys(sections).map(section => `| ${section} | ${sections[section]} |`),
+    '',
+  ].join('\n');
+  entries.unshift({ name: 'README.md', content: readme });
+
+  return { entries: entries.map(entry => ({ ...entry, modifiedAt: generatedAt })), sections };
+}
+
+/**
+ * Store a finished archive in GridFS
+ */
+function uploadArchive(fileName: string, archive: Buffer, metadata: Record<string, any>): Promise<mongoose.Types.ObjectId> {
+  return new Promise((resolve, reject) => {
+    const uploadStream = getBucket().openUploadStream(fileName, { metadata });
+    uploadStream.on('error', reject);
+    uploadStream.on('finish', () => resolve(uploadStream.id as mongoose.Types.ObjectId));
+    uploadStream.end(archive);
+  });
+}
+
+async function deleteArchive(fileId?: mongoose.Types.ObjectId) {
+  if (!fileId) return;
+  try {
+    await getBucket().delete(fileId);
+  } catch (error) {
+    logger.warn('Failed to delete data export archive', {
+      fileId: String(fileId),
+      error: error instanceof Error ? error.message : String(error),
+    });
+  }
+}
+
+/**
+ * Build an export. Runs in the background; failures are recorded on the job.
+ */
+export async function processDataExport(exportId: string): Promise<void> {
+  const job = await DataExport.findOneAndUpdate(
+    { _id: exportId, status: 'queued' },
+    { $set: { status: 'processing', startedAt: new Date() } },
+    { new: true }
+  ) as IDataExport | null;
+  if (!job) return;
+
+  try {
+    const generatedAt = new Date();
+    const data = await collectUserData(job.username);
+    const { entries, sections } = buildExportEntries(job.username, data, generatedAt);
+    const archive = createZipArchive(entries);
+    const fileName = `wingman-data-${job.username}-${generatedAt.toISOString().slice(0, 10)}.zip`;
+    const fileId = await uploadArchive(fileName, archive, { exportId: String(job._id), username: job.username });
+
+    await DataExport.updateOne(
+      { _id: job._id },
+      {
+        $set: {
+          status: 'ready',
+          fileId,
+          fileName,
+          fileSize: archive.length,
+          sections,
+          downloadToken: crypto.randomBytes(32).toString('hex'),
+          completedAt: new Date(),
+          expiresAt: new Date(Date.now() + EXPORT_TTL_MS),
+        },
+      }
+    );
+    logger.info('Data export ready', { username: job.username, exportId: String(job._id), bytes: archive.length });
+  } catch (error) {
+    logger.error('Data export failed', {
+      username: job.username,
+      exportId: String(job._id),
+      error: error instanceof Error ? error.message : String(error),
+    });
+    await DataExport.updateOne(
+      { _id: job._id },
+      { $set: { status: 'failed', error: 'The export could not be generated. Please try again.', completedAt: new Date() } }
+    );
+  }
+}
+
+/**
+ * Expire finished exports past their download window, and fail jobs that were interrupted
+ * Sweeps every user's exports when no username is given (run by /api/cron/sweep-data-exports)
+ */
+export async function sweepDataExports(username?: string): Promise<{ expired: number; failed: number }> {
+  const scope = username ? { username } : {};
+  const now = new Date();
+
+  const expired = await DataExport.find({ ...scope, status: 'ready', expiresAt: { $lte: now } })
+    .select('_id fileId')
+    .lean() as any[];
+  for (const job of expired) {
+    await deleteArchive(job.fileId);
+    await DataExport.updateOne(
+      { _id: job._id },
+      { $set: { status: 'expired' }, $unset: { fileId: '', downloadToken: '' } }
+    );
+  }
+
+  const interrupted = await DataExport.updateMany(
+    {
+      ...scope,
+      status: { $in: ['queued', 'processing'] },
+      createdAt: { $lte: new Date(now.getTime() - STALE_JOB_MS) },
+    },
+    { $set: { status: 'failed', error: 'The export was interrupted. Please try again.', completedAt: now } }
+  );
+
+  return { expired: expired.length, failed: interrupted.modifiedCount };
+}
+
+/**
+ * Queue a new export for a user and start building it in the background
+ * @throws HttpError with statusCode 409 if an export is already running, 429 during the cooldown
+ */
+export async function requestDataExport(username: string, userId?: string): Promise<IDataExport> {
+  await sweepDataExports(username);
+
+  const running = await DataExport.findOne({ username, status: { $in: ['queued', 'processing'] } }).lean();
+  if (running) {
+    throw new HttpError('An export is already being prepared', 409);
+  }
+
+  const recent = await DataExport.findOne({
+    username,
+    status: 'ready',
+    createdAt: { $gt: new Date(Date.now() - EXPORT_COOLDOWN_MS) },
+  }).lean();
+  if (recent) {
+    throw new HttpError('You can request a new export once an hour. Your latest export is still available to download.', 429);
+  }
+
+  const job = await DataExport.create({ username, userId, status: 'queued' }) as IDataExport;
+  const exportId = String(job._id);
+
+  setImmediate(() => {
+    processDataExport(exportId).catch(error => {
+      console.error('[Data Export] Unhandled error while building export:', error);
+    });
+  });
+
+  return job;
+}
+
+/**
+ * Client-facing view of an export job, with a download link while it's available
+ */
+export function serializeDataExport(job: any) {
+  const downloadable = job.status === 'ready' && job.downloadToken && job.expiresAt && new Date(job.expiresAt) > new Date();
+  return {
+    id: String(job._id),
+    status: job.status,
+    createdAt: job.createdAt,
+    completedAt: job.completedAt || null,
+    expiresAt: job.expiresAt || null,
+    fileName: job.fileName || null,
+    fileSize: job.fileSize || null,
+    sections: job.sections || null,
+    error: job.error || null,
+    downloadUrl: downloadable
+      ? `/api/account/export/download?token=${encodeURIComponent(job.downloadToken)}`
+      : null,
+  };
+}
+
+/**
+ * Find a downloadable export by token, for its owner only
+ * @throws HttpError with statusCode 404 if the link is wrong or belongs to someone else, 410 once expired
+ */
+export async function getDownloadableExport(username: string, token: string) {
+  const job = await DataExport.findOne({ downloadToken: token }).select('+downloadToken').lean() as any;
+  if (!job || job.username !== username) {
+    throw new HttpError('Export not found', 404);
+  }
+  if (job.status !== 'ready' || !job.fileId || !job.expiresAt || new Date(job.expiresAt) <= new Date()) {
+    throw new HttpError('This download link has expired. Please request a new export.', 410);
+  }
+
+  await DataExport.updateOne({ _id: job._id }, { $set: { downloadedAt: new Date() } });
+  return {
+    fileName: job.fileName as string,
+    fileSize: job.fileSize as number,
+    stream: getBucket().openDownloadStream(job.fileId),
+  };
+}
+
+/**
+ * Remove all of a user's exports and their archives (used when the account is purged)
+ * @returns Number of exports removed
+ */
+export async function deleteUserDataExports(username: string): Promise<number> {
+  const jobs = await DataExport.find({ username }).select('_id fileId').lean() as any[];
+  for (const job of jobs) {
+    await deleteArchive(job.fileId);
+  }
+  const result = await DataExport.deleteMany({ username });
+  return result.deletedCount || 0;
+}
@@ -122,6 +122,51 @@ export function getDeviceInfo(req: { headers: { [key: string]: string | string[]
   };
 }
 
+export interface LocationInfo {
+  country?: string;
+  city?: string;
+  region?: string;
+  latitude?: number;
+  longitude?: number;
+}
+
+function getHeader(
+  req: { headers: { [key: string]: string | string[] | undefined } },
+  name: string
+): string | undefined {
+  const value = req.headers[name];
+  const first = Array.isArray(value) ? value[0] : value;
+  return first && first.trim() ? first.trim() : undefined;
+}
+
+/**
+ * Get approximate location from the geolocation headers set by the CDN in front of the app
+ * (Cloudflare with the visitor location headers transform, or Vercel). There's no IP lookup
+ * of our own, so this returns undefined when no such headers are present (e.g. local dev).
+ *
+ * @param req - Next.js API request object
+ * @returns LocationInfo, or undefined if the country is unknown
+ */
+export function getLocationInfo(req: { headers: { [key: string]: string | string[] | undefined } }): LocationInfo | undefined {
+  const country = getHeader(req, 'cf-ipcountry') || getHeader(req, 'x-vercel-ip-country');
+  // Cloudflare uses XX for unknown and T1 for Tor exit nodes
+  if (!country || country === 'XX' || country === 'T1') {
+    return undefined;
+  }
+
+  const city = getHeader(req, 'cf-ipcity') || getHeader(req, 'x-vercel-ip-city');
+  const latitude = parseFloat(getHeader(req, 'cf-iplatitude') || getHeader(req, 'x-vercel-ip-latitude') || '');
+  const longitude = parseFloat(getHeader(req, 'cf-iplongitude') || getHeader(req, 'x-vercel-ip-longitude') || '');
+
+  return {
+    country: country.toUpperCase(),
+    city: city ? decodeURIComponent(city) : undefined,
+    region: getHeader(req, 'cf-region') || getHeader(req, 'x-vercel-ip-country-region'),
+    latitude: isNaN(latitude) ? undefined : latitude,
+    longitude: isNaN(longitude) ? undefined : longitude,
+  };
+}
+
 /**
  * Check if an IP address is localhost or private
  */
@@ -1,10 +1,17 @@
-import { Client, Message, EmbedBuilder, ChannelType } from 'discord.js';
-import { botConfig } from '../../config/botConfig';
+import { Client, Message, EmbedBuilder, ChannelType, MessageReplyOptions } from 'discord.js';
+import { botConfig, createBotSystemMessage } from '../../config/botConfig';
 import { getChatCompletion } from '../aiHelper';
+import { runWithLLMUsageContext, recordLLMCacheHit, LLMUsageContext } from '../llmUsageLedger';
 import { checkProAccess } from '../proAccessUtil';
 import { logger } from '../logger';
 import { connectToWingmanDB } from '../databaseConnections';
-import User from '../../models/User';
+import { getLinkedWingmanUser } from './discordAccounts';
+import { consumeRateLimit } from '../sharedStore';
+import {
+  getDiscordGuildSettings,
+  DiscordGuildSettings,
+  DiscordResponseStyle
+} from '../../config/discordGuildSettings';
 import {
   checkMessageContent,
   checkAIResponse,
@@ -13,15 +20,8 @@ import {
   getSafeFallbackResponse
 } from './discordModeration';
 
-// Rate limiting configuration
-interface RateLimit {
-  timestamp: number;
-  count: number;
-}
-
 export class DiscordBotHandler {
   private client: Client;
-  private rateLimits: Map<string, RateLimit>;
   private responseCache: Map<string, { response: string; timestamp: number }>;
   private messageQueue: Map<string, Promise<void>>;
   private processedMessages: Map<string, number>; // Track processed messages to prevent duplicates
@@ -37,7 +37,6 @@ export class DiscordBotHandler {
 
   constructor(client: Client) {
     this.client = client;
-    this.rateLimits = new Map();
     this.responseCache = new Map();
     this.messageQueue = new Map();
     this.processedMessages = new Map();
@@ -70,13 +69,22 @@ export class DiscordBotHandler {
       // Check both channel type and guild presence (guild is null for DMs)
       const isDM = message.channel.type === ChannelType.DM || message.guild === null;
       
-      // For server channels, only respond if bot is mentioned
+      // For server channels, only respond if bot is mentioned (or the server's prefix is used)
       // This is better for security and prevents processing every message
       if (!isDM) {
         if (!this.client.user) {
           // Bot user not available yet, skip
           return;
         }
+
+        // Per-server settings: slash-only servers and channel restrictions
+        const guildSettings = await getDiscordGuildSettings(message.guild?.id);
+        if (guildSettings.triggerMode === 'slash') {
+          return;
+        }
+        if (!this.isChannelAllowed(message, guildSettings)) {
+          return;
+        }
         
         // Check for bot mention in multiple ways
         const directMention = message.mentions.has(this.client.user.id);
@@ -99,8 +107,10 @@ export class DiscordBotHandler {
         }
         
         const botMentioned = directMention || userIdMention || nicknameMention || botInMentionedRole;
+        const prefixUsed = guildSettings.triggerMode === 'prefix' &&
+          message.content.toLowerCase().startsWith(guildSettings.commandPrefix.toLowerCase());
         
-        if (!botMentioned) {
+        if (!botMentioned && !prefixUsed) {
           // Bot not mentioned in server channel - ignore for security/privacy
           return;
         }
@@ -112,6 +122,7 @@ export class DiscordBotHandler {
           userIdMention,
           nicknameMention,
           botInMentionedRole,
+          prefixUsed,
           mentionedRoles: Array.from(message.mentions.roles.keys()),
           botUserId: this.client.user.id
         });
@@ -198,7 +209,7 @@ export class DiscordBotHandler {
       
       try {
         // Check rate limits
-        if (!this.checkRateLimit(message.author.id)) {
+        if (!(await this.checkRateLimit(message.author.id))) {
           logger.warn('Rate limit exceeded', { userId: message.author.id });
           await message.reply("You're sending messages too quickly. Please wait a moment.");
           return;
@@ -271,11 +282,11 @@ export class DiscordBotHandler {
       });
       
       // Map Discord user ID to Video Game Wingman username
-      // First, try to find user by Discord user ID (userId field)
+      // (signed up with Discord, or linked with /link)
       let wingmanUsername: string | null = null;
       try {
         await connectToWingmanDB();
-        const user = await User.findOne({ userId: message.author.id });
+        const user = await getLinkedWingmanUser(message.author.id, 'username');
         if (user) {
           wingmanUsername = user.username;
           logger.info('Found Video Game Wingman user by Discord ID', {
@@ -297,30 +308,36 @@ export class DiscordBotHandler {
         });
       }
       
-      // Check Pro access using username if found, otherwise fall back to Discord ID
-      // For local testing: if Discord username is "thelegendaryrenegade", grant access
-      const identifier = wingmanUsername || 
-                         (message.author.username.toLowerCase() === 'thelegendaryrenegade' ? 'TestUser1' : message.author.id);
-      
-      logger.info('Checking Pro access', { 
-        discordId: message.author.id,
-        identifier,
-        usingUsername: !!wingmanUsername
-      });
-      const hasAccess = await this.retryOperation(() => checkProAccess(identifier));
-      
-      logger.info('Pro access check result', {
-        userId: message.author.id,
-        identifier,
-        hasAccess
-      });
-      
-      if (!hasAccess) {
-        logger.warn('Pro access denied', { userId: message.author.id });
-        await message.reply({
-          embeds: [this.createProAccessEmbed()]
+      // Per-server settings (defaults for DMs)
+      const guildSettings = await getDiscordGuildSettings(message.guild?.id);
+
+      // Servers can open the bot to everyone, or to members with specific roles
+      if (guildSettings.requirePro && !this.hasProExemptRole(message, guildSettings)) {
+        // Check Pro access using username if found, otherwise fall back to Discord ID
+        // For local testing: if Discord username is "thelegendaryrenegade", grant access
+        const identifier = wingmanUsername || 
+                           (message.author.username.toLowerCase() === 'thelegendaryrenegade' ? 'TestUser1' : message.author.id);
+        
+        logger.info('Checking Pro access', { 
+          discordId: message.author.id,
+          identifier,
+          usingUsername: !!wingmanUsername
         });
-        return;
+        const hasAccess = await this.retryOperation(() => checkProAccess(identifier));
+        
+        logger.info('Pro access check result', {
+          userId: message.author.id,
+          identifier,
+          hasAccess
+        });
+        
+        if (!hasAccess) {
+          logger.warn('Pro access denied', { userId: message.author.id });
+          await message.reply({
+            embeds: [this.createProAccessEmbed()]
+          });
+          return;
+        }
       }
 
       // MODERATION: Check if user is banned (only for server messages, not DMs)
@@ -361,9 +378,23 @@ export class DiscordBotHandler {
         return;
       }
 
+      // Attribute AI usage to the linked Wingman account in the usage ledger
+      const usageContext: LLMUsageContext = {
+        feature: 'discord_bot',
+        username: wingmanUsername || undefined,
+        externalUserId: message.author.id,
+        channel: guildId
+      };
+
+      // Responses depend on the server's system message, so cache per server
+      const question = this.getQuestionText(message, guildSettings);
+      const cacheKey = `${guildId || 'DM'}:${question}`;
+      const responseStyle = guildSettings.responseStyle;
+
       // Check cache first
-      const cachedResponse = this.getCachedResponse(message.content);
+      const cachedResponse = this.getCachedResponse(cacheKey);
       if (cachedResponse) {
+        runWithLLMUsageContext(usageContext, recordLLMCacheHit);
         // MODERATION: Check cached response for inappropriate content
         const cachedResponseCheck = await checkAIResponse(
           cachedResponse,
@@ -383,7 +414,7 @@ export class DiscordBotHandler {
           }
           
           // sendLongMessage will handle the sentResponses check and marking atomically
-          await this.sendLongMessage(message, getSafeFallbackResponse());
+          await this.sendLongMessage(message, getSafeFallbackResponse(), responseStyle);
           return;
         }
         
@@ -394,13 +425,13 @@ export class DiscordBotHandler {
         }
         
         // sendLongMessage will handle the sentResponses check and marking atomically
-        await this.sendLongMessage(message, cachedResponse);
+        await this.sendLongMessage(message, cachedResponse, responseStyle);
         return;
       }
 
       // Process the message
       logger.info('Generating AI response', { userId: message.author.id });
-      const response = await this.processMessage(message);
+      const response = await runWithLLMUsageContext(usageContext, () => this.processMessage(question, guildSettings));
       if (response) {
         // MODERATION: Check AI response for inappropriate content BEFORE sending
         const responseCheck = await checkAIResponse(
@@ -423,9 +454,9 @@ export class DiscordBotHandler {
           
           // Replace with safe fallback instead of inappropriate content
           const safeResponse = getSafeFallbackResponse();
-          this.cacheResponse(message.content, safeResponse);
+          this.cacheResponse(cacheKey, safeResponse);
           // sendLongMessage will handle the sentResponses check and marking atomically
-          await this.sendLongMessage(message, safeResponse);
+          await this.sendLongMessage(message, safeResponse, responseStyle);
           return;
         }
 
@@ -440,7 +471,7 @@ export class DiscordBotHandler {
         }
 
         // Cache the response
-        this.cacheResponse(message.content, response);
+        this.cacheResponse(cacheKey, response);
         logger.info('Sending response to user', {
           userId: message.author.id,
           messageId: messageId,
@@ -449,7 +480,7 @@ export class DiscordBotHandler {
         
         // Split long messages into chunks (Discord has 2000 character limit)
         // Note: sendLongMessage will handle the sentResponses check and marking atomically
-        await this.sendLongMessage(message, response);
+        await this.sendLongMessage(message, response, responseStyle);
         logger.info('Response sent successfully', { 
           userId: message.author.id,
           messageId: messageId
@@ -473,12 +504,10 @@ export class DiscordBotHandler {
     }
   }
 
-  private async processMessage(message: Message): Promise<string> {
-    const question = message.content;
-    
+  private async processMessage(question: string, settings: DiscordGuildSettings): Promise<string> {
     try {
-      // Create a system message using botConfig
-      const systemMessage = this.createSystemMessage();
+      // Create a system message using botConfig (or the server's custom message)
+      const systemMessage = this.createSystemMessage(settings);
 
       // Get AI response with retry mechanism
       const response = await this.retryOperation(() => 
@@ -492,10 +521,60 @@ export class DiscordBotHandler {
     }
   }
 
-  private createSystemMessage(): string {
-    return `You are ${botConfig.name}, ${botConfig.description}. 
-Your expertise includes: ${botConfig.knowledge.join(', ')}. 
-Character: ${botConfig.bio[0]}`;
+  private createSystemMessage(settings: DiscordGuildSettings): string {
+    return settings.customSystemMessage || createBotSystemMessage();
+  }
+
+  /**
+   * Whether the server allows the bot in this channel (threads follow their parent channel)
+   */
+  private isChannelAllowed(message: Message, settings: DiscordGuildSettings): boolean {
+    if (settings.allowedChannelIds.length === 0) {
+      return true;
+    }
+    const parentId = message.channel.isThread() ? message.channel.parentId : null;
+    return settings.allowedChannelIds.includes(message.channelId) ||
+      (!!parentId && settings.allowedChannelIds.includes(parentId));
+  }
+
+  /**
+   * Whether the author has one of the server's Pro-exempt roles
+   */
+  private hasProExemptRole(message: Message, settings: DiscordGuildSettings): boolean {
+    if (!message.member || settings.proExemptRoleIds.length === 0) {
+      return false;
+    }
+    return message.member.roles.cache.some(role => settings.proExemptRoleIds.includes(role.id));
+  }
+
+  /**
+   * The question without the bot mention or the server's command prefix
+   */
+  private getQuestionText(message: Message, settings: DiscordGuildSettings): string {
+    let question = message.content;
+    if (this.client.user) {
+      question = question.replace(new RegExp(`<@!?${this.client.user.id}>`, 'g'), '');
+    }
+    question = question.trim();
+    if (settings.triggerMode === 'prefix' &&
+        question.toLowerCase().startsWith(settings.commandPrefix.toLowerCase())) {
+      question = question.substring(settings.commandPrefix.length).trim();
+    }
+    return question || message.content;
+  }
+
+  /**
+   * Build a reply in the server's response style
+   */
+  private formatReply(text: string, style: DiscordResponseStyle): string | MessageReplyOptions {
+    switch (style) {
+      case 'no-mention':
+        return { content: text, allowedMentions: { repliedUser: false } };
+      case 'embed':
+        return { embeds: [new EmbedBuilder().setDescription(text).setColor('#00FFFF')] };
+      default:
+        return text;
+    }
   }
 
   private createFallbackResponse(): string {
@@ -506,7 +585,11 @@ Character: ${botConfig.bio[0]}`;
    * Split and send long messages that exceed Discord's 2000 character limit
    * Attempts to split at sentence boundaries when possible
    */
-  private async sendLongMessage(message: Message, text: string): Promise<void> {
+  private async sendLongMessage(
+    message: Message,
+    text: string,
+    responseStyle: DiscordResponseStyle = 'reply'
+  ): Promise<void> {
     const MAX_LENGTH = 2000; // Discord's message limit
     const messageId = message.id;
     
@@ -564,7 +647,7 @@ Character: ${botConfig.bio[0]}`;
           textPreview: text.substring(0, 50)
         });
         
-        const replyResult = await message.reply(text);
+        const replyResult = await message.reply(this.formatReply(text, responseStyle));
         
         // Mark as sent AFTER successful reply
         this.sentResponses.add(messageId);
@@ -654,7 +737,7 @@ Character: ${botConfig.bio[0]}`;
             chunkIndex: i, 
             chunkLength: finalChunks[i].length 
           });
-          await message.reply(finalChunks[i]);
+          await message.reply(this.formatReply(finalChunks[i], responseStyle));
           logger.debug('First chunk sent', { messageId: message.id, chunkIndex: i });
       } else {
         // Subsequent chunks as follow-up messages
@@ -670,10 +753,10 @@ Character: ${botConfig.bio[0]}`;
             channel.type === ChannelType.GuildAnnouncement ||
             channel.type === ChannelType.PublicThread ||
             channel.type === ChannelType.PrivateThread) {
-          await (channel as any).send(finalChunks[i]);
+          await (channel as any).send(this.formatReply(finalChunks[i], responseStyle));
         } else {
           // Fallback: send as reply if channel type doesn't support direct send
-          await message.reply(finalChunks[i]);
+          await message.reply(this.formatReply(finalChunks[i], responseStyle));
         }
         logger.debug('Subsequent chunk sent', { messageId: message.id, chunkIndex: i });
       }
@@ -716,21 +799,14 @@ Character: ${botConfig.bio[0]}`;
       .setTimestamp();
   }
 
-  private checkRateLimit(userId: string): boolean {
-    const now = Date.now();
-    const userLimit = this.rateLimits.get(userId);
-
-    if (!userLimit || (now - userLimit.timestamp) > this.RATE_LIMIT_WINDOW) {
-      this.rateLimits.set(userId, { timestamp: now, count: 1 });
-      return true;
-    }
-
-    if (userLimit.count >= this.MAX_MESSAGES_PER_WINDOW) {
-      return false;
-    }
-
-    userLimit.count++;
-    return true;
+  // Counted in the shared store so the limit holds across instances
+  private async checkRateLimit(userId: string): Promise<boolean> {
+    const { allowed } = await consumeRateLimit(
+      `discord:${userId}`,
+      this.MAX_MESSAGES_PER_WINDOW,
+      this.RATE_LIMIT_WINDOW
+    );
+    return allowed;
   }
 
   private getCachedResponse(question: string): string | null {
@@ -776,16 +852,6 @@ Character: ${botConfig.bio[0]}`;
   }
 
   private startMaintenanceTasks(): void {
-    // Clean up rate limits periodically
-    setInterval(() => {
-      const now = Date.now();
-      Array.from(this.rateLimits.entries()).forEach(([userId, limit]) => {
-        if (now - limit.timestamp > this.RATE_LIMIT_WINDOW) {
-          this.rateLimits.delete(userId);
-        }
-      });
-    }, this.RATE_LIMIT_WINDOW);
-
     // Clean up response cache periodically
     setInterval(() => {
       const now = Date.now();
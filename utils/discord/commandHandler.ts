@@ -1,18 +1,93 @@
-import { Client, CommandInteraction, Interaction, PermissionResolvable } from 'discord.js';
+import {
+  ApplicationCommandOptionData,
+  ApplicationCommandOptionType,
+  AutocompleteInteraction,
+  ChatInputCommandInteraction,
+  Client,
+  CommandInteraction,
+  EmbedBuilder,
+  Interaction,
+  PermissionResolvable
+} from 'discord.js';
 import { logger } from '../logger';
+import { connectToWingmanDB } from '../databaseConnections';
+import { createBotSystemMessage } from '../../config/botConfig';
+import { getChatCompletion, getChatCompletionWithVision, fetchRecommendations } from '../aiHelper';
+import { runWithLLMUsageContext } from '../llmUsageLedger';
+import { checkProAccess } from '../proAccessUtil';
+import { getTodaysChallenges } from '../challengeSelector';
+import { getTodayDateString, getChallengeStreakInfo } from '../challengeStreak';
+import { getLeaderboard, LEADERBOARD_GENRES } from '../leaderboard';
+import { searchGameTitles, getSimilarGames, getAllGenresForGame } from '../gameCatalog';
+import { getLinkedWingmanUser, createDiscordLinkCode } from './discordAccounts';
+import { consumeRateLimit } from '../sharedStore';
+import { getDiscordGuildSettings, DiscordGuildSettings } from '../../config/discordGuildSettings';
+import {
+  checkMessageContent,
+  checkAIResponse,
+  checkDiscordUserBanStatus,
+  getSafeFallbackResponse
+} from './discordModeration';
+import { LeaderboardType, Timeframe } from '../../types';
 
 // Enhanced command structure
 interface Command {
   name: string;
   description: string;
-  category: 'General' | 'Moderation' | 'Fun' | 'Utility' | 'Admin';
+  category: 'General' | 'Moderation' | 'Fun' | 'Utility' | 'Admin' | 'Wingman';
   cooldown?: number; // Cooldown in seconds
   permissions?: PermissionResolvable[];
-  execute: (interaction: CommandInteraction) => Promise<void>;
+  options?: ApplicationCommandOptionData[]; // Slash command options, registered with the command
+  execute: (interaction: ChatInputCommandInteraction) => Promise<void>;
+  autocomplete?: (interaction: AutocompleteInteraction) => Promise<void>; // Suggestions for autocomplete options
 }
 
-// Cooldown management
-const cooldowns = new Map<string, Map<string, number>>();
+const EMBED_COLOR = '#5865F2';
+const MAX_EMBED_DESCRIPTION = 4096; // Discord's embed description limit
+const MAX_IMAGE_SIZE = 10 * 1024 * 1024; // 10MB, same as image uploads on the site
+const MAX_AUTOCOMPLETE_CHOICES = 25; // Discord's limit
+
+// Genres that fetchRecommendations maps to RAWG genres
+const RECOMMENDATION_GENRES = [
+  'Action', 'Adventure', 'RPG', 'Strategy', 'Shooter', 'Platformer', 'Puzzle',
+  'Racing', 'Fighting', 'Horror', 'Simulation', 'Sports', 'Indie', 'Casual'
+];
+
+const LINK_HINT = 'Use `/link` to connect your Discord account to Video Game Wingman.';
+
+/**
+ * Optional game title option with catalog autocomplete
+ */
+const gameOption = (description: string): ApplicationCommandOptionData => ({
+  type: ApplicationCommandOptionType.String,
+  name: 'game',
+  description,
+  required: false,
+  autocomplete: true,
+  maxLength: 100
+});
+
+/**
+ * Suggest game titles from the catalog for the focused option
+ */
+const autocompleteGameTitle = async (interaction: AutocompleteInteraction) => {
+  const focused = interaction.options.getFocused();
+  const titles = searchGameTitles(String(focused), MAX_AUTOCOMPLETE_CHOICES);
+  await interaction.respond(titles.map(title => ({ name: title, value: title })));
+};
+
+const truncate = (text: string, maxLength: number) =>
+  text.length > maxLength ? `${text.substring(0, maxLength - 3)}...` : text;
+
+// Achievement names are stored in camelCase (e.g. rpgEnthusiast -> Rpg Enthusiast)
+const formatAchievementName = (name: string) =>
+  name.replace(/([a-z])([A-Z])/g, '$1 $2').replace(/^./, char => char.toUpperCase());
+
+const createLinkRequiredEmbed = () =>
+  new EmbedBuilder()
+    .setTitle('Link Your Account')
+    .setDescription(`This command needs your Video Game Wingman account. ${LINK_HINT}`)
+    .setColor(EMBED_COLOR);
 
 // Store commands in a Map for easy access
 const commands = new Map<string, Command>();
@@ -66,6 +141,466 @@ commands.set('help', {
   },
 });
 
+// Ask the assistant a question, optionally about a screenshot
+commands.set('ask', {
+  name: 'ask',
+  description: 'Ask Video Game Wingman a gaming question',
+  category: 'Wingman',
+  cooldown: 10,
+  options: [
+    {
+      type: ApplicationCommandOptionType.String,
+      name: 'question',
+      description: 'What do you want to know?',
+      required: true,
+      maxLength: 1000
+    },
+    {
+      type: ApplicationCommandOptionType.Attachment,
+      name: 'image',
+      description: 'Optional screenshot to ask about',
+      required: false
+    },
+    gameOption('The game your question is about')
+  ],
+  autocomplete: autocompleteGameTitle,
+  execute: async (interaction: ChatInputCommandInteraction) => {
+    const question = interaction.options.getString('question', true);
+    const image = interaction.options.getAttachment('image');
+    const game = interaction.options.getString('game');
+    const guildId = interaction.guildId || undefined;
+
+    if (image && (!image.contentType?.startsWith('image/') || image.size > MAX_IMAGE_SIZE)) {
+      await interaction.reply({
+        content: 'Please attach an image (PNG, JPG, GIF or WebP) under 10MB.',
+        ephemeral: true
+      });
+      return;
+    }
+
+    // MODERATION: Banned users are silently ignored in servers, as with mentions
+    if (guildId) {
+      const banStatus = await checkDiscordUserBanStatus(interaction.user.id, guildId);
+      if (banStatus.isBanned) {
+        await interaction.reply({ content: 'You are not able to use this bot in this server.', ephemeral: true });
+        return;
+      }
+    }
+
+    const moderationCheck = await checkMessageContent(question, interaction.user.id, guildId);
+    if (moderationCheck.isOffensive) {
+      logger.warn('Offensive content in /ask', {
+        userId: interaction.user.id,
+        guildId: guildId || 'DM',
+        offendingWords: moderationCheck.offendingWords
+      });
+      await interaction.reply({
+        content: '⚠️ Your question contains inappropriate content. Please keep interactions respectful.',
+        ephemeral: true
+      });
+      return;
+    }
+
+    await interaction.deferReply();
+
+    await connectToWingmanDB();
+    const user = await getLinkedWingmanUser(interaction.user.id, 'username');
+    const guildSettings = await getDiscordGuildSettings(guildId);
+
+    // Servers can open the bot to everyone, or to members with specific roles
+    const proRequired = guildSettings.requirePro && !hasProExemptRole(interaction, guildSettings);
+    const hasAccess = !proRequired || await checkProAccess(user?.username || interaction.user.id);
+    if (!hasAccess) {
+      await interaction.editReply({
+        embeds: [
+          new EmbedBuilder()
+            .setTitle('Pro Access Required')
+            .setDescription('This feature is only available to Video Game Wingman Pro users.')
+            .setColor('#FF0000')
+            .addFields({ name: 'How to Get Pro', value: `Visit our website to learn more about Pro benefits. ${LINK_HINT}` })
+            .setTimestamp()
+        ]
+      });
+      return;
+    }
+
+    const prompt = game ? `[Game: ${game}] ${question}` : question;
+    const systemMessage = guildSettings.customSystemMessage || createBotSystemMessage();
+
+    // Attribute AI usage to the linked Wingman account in the usage ledger
+    const answer = await runWithLLMUsageContext(
+      {
+        feature: 'discord_bot',
+        username: user?.username,
+        externalUserId: interaction.user.id,
+        channel: guildId
+      },
+      () => image
+        ? getChatCompletionWithVision(prompt, image.url, undefined, systemMessage)
+        : getChatCompletion(prompt, systemMessage)
+    );
+
+    let response = answer || getSafeFallbackResponse();
+    const responseCheck = await checkAIResponse(response, interaction.user.id, guildId);
+    if (responseCheck.isOffensive) {
+      logger.warn('AI response to /ask flagged, using safe fallback', { userId: interaction.user.id });
+      response = getSafeFallbackResponse();
+    }
+
+    const embed = new EmbedBuilder()
+      .setTitle(truncate(question, 256))
+      .setDescription(truncate(response, MAX_EMBED_DESCRIPTION))
+      .setColor(EMBED_COLOR)
+      .setFooter({ text: game ? `Video Game Wingman • ${game}` : 'Video Game Wingman' })
+      .setTimestamp();
+    if (image) {
+      embed.setThumbnail(image.url);
+    }
+
+    await interaction.editReply({ embeds: [embed] });
+  },
+});
+
+// Today's daily challenges and the linked user's progress
+commands.set('challenge', {
+  name: 'challenge',
+  description: "Show today's daily challenges and your progress",
+  category: 'Wingman',
+  cooldown: 10,
+  execute: async (interaction: ChatInputCommandInteraction) => {
+    await interaction.deferReply({ ephemeral: true });
+
+    await connectToWingmanDB();
+    const user = await getLinkedWingmanUser(
+      interaction.user.id,
+      'username challengeProgresses challengeProgress challengeStreak'
+    ) as any;
+
+    // Challenges are user-specific once we know who's asking
+    const challenges = getTodaysChallenges(user?.username);
+    const today = getTodayDateString();
+
+    const progresses: any[] = user
+      ? (Array.isArray(user.challengeProgresses) && user.challengeProgresses.length > 0
+          ? user.challengeProgresses
+          : user.challengeProgress ? [user.challengeProgress] : []
+        ).filter((progress: any) => progress?.date === today)
+      : [];
+
+    const embed = new EmbedBuilder()
+      .setTitle(`🎯 Daily Challenges — ${today}`)
+      .setColor(EMBED_COLOR)
+      .setTimestamp();
+
+    challenges.forEach(challenge => {
+      const progress = progresses.find(entry => entry.challengeId === challenge.id);
+      let status = '';
+      if (user) {
+        if (progress?.completed) {
+          status = '\n✅ Completed';
+        } else if (progress?.target) {
+          status = `\n⏳ ${progress.progress || 0}/${progress.target}`;
+        } else {
+          status = '\n⬜ Not started';
+        }
+      }
+      embed.addFields({
+        name: `${challenge.icon || '🎮'} ${challenge.title}`,
+        value: `${challenge.description}${challenge.reward ? `\n🏆 ${challenge.reward}` : ''}${status}`
+      });
+    });
+
+    if (user) {
+      const streakInfo = getChallengeStreakInfo(user.challengeStreak);
+      const completed = challenges.filter(challenge =>
+        progresses.some(entry => entry.challengeId === challenge.id && entry.completed)
+      ).length;
+      embed.setDescription(`${completed}/${challenges.length} completed today • ${streakInfo.message}`);
+    } else {
+      embed.setDescription(`Complete challenges by asking Wingman questions. ${LINK_HINT}`);
+    }
+
+    await interaction.editReply({ embeds: [embed] });
+  },
+});
+
+// Daily activity and challenge streaks
+commands.set('streak', {
+  name: 'streak',
+  description: 'Show your daily and challenge streaks',
+  category: 'Wingman',
+  cooldown: 10,
+  execute: async (interaction: ChatInputCommandInteraction) => {
+    await interaction.deferReply({ ephemeral: true });
+
+    await connectToWingmanDB();
+    const user = await getLinkedWingmanUser(interaction.user.id, 'username streak challengeStreak');
+    if (!user) {
+      await interaction.editReply({ embeds: [createLinkRequiredEmbed()] });
+      return;
+    }
+
+    const streakStatus = await user.syncStreakStatus();
+    const challengeStreak = getChallengeStreakInfo(user.challengeStreak);
+
+    const embed = new EmbedBuilder()
+      .setTitle(`🔥 ${user.username}'s Streaks`)
+      .setColor(EMBED_COLOR)
+      .addFields(
+        {
+          name: 'Daily Activity',
+          value: `Current: **${streakStatus.currentStreak}** days\nLongest: **${streakStatus.longestStreak}** days`,
+          inline: true
+        },
+        {
+          name: 'Daily Challenges',
+          value: `Current: **${challengeStreak.currentStreak}** days\nLongest: **${challengeStreak.longestStreak}** days`,
+          inline: true
+        }
+      )
+      .setFooter({ text: challengeStreak.message })
+      .setTimestamp();
+
+    await interaction.editReply({ embeds: [embed] });
+  },
+});
+
+// Earned achievements, most recent first
+commands.set('achievements', {
+  name: 'achievements',
+  description: "Show the achievements you've earned",
+  category: 'Wingman',
+  cooldown: 10,
+  execute: async (interaction: ChatInputCommandInteraction) => {
+    await interaction.deferReply({ ephemeral: true });
+
+    await connectToWingmanDB();
+    const user = await getLinkedWingmanUser(interaction.user.id, 'username achievements');
+    if (!user) {
+      await interaction.editReply({ embeds: [createLinkRequiredEmbed()] });
+      return;
+    }
+
+    const achievements = [...(user.achievements || [])].sort(
+      (a, b) => new Date(b.dateEarned).getTime() - new Date(a.dateEarned).getTime()
+    );
+
+    const embed = new EmbedBuilder()
+      .setTitle(`🏆 ${user.username}'s Achievements`)
+      .setColor('#FFD700')
+      .setTimestamp();
+
+    if (achievements.length === 0) {
+      embed.setDescription('No achievements yet. Keep asking Wingman about your games to earn them!');
+    } else {
+      const lines = achievements
+        .slice(0, 20)
+        .map(achievement =>
+          `**${formatAchievementName(achievement.name)}** — <t:${Math.floor(new Date(achievement.dateEarned).getTime() / 1000)}:d>`
+        );
+      embed.setDescription(lines.join('\n'));
+      embed.setFooter({
+        text: achievements.length > 20
+          ? `Showing 20 most recent of ${achievements.length} achievements`
+          : `${achievements.length} achievement${achievements.length === 1 ? '' : 's'}`
+      });
+    }
+
+    await interaction.editReply({ embeds: [embed] });
+  },
+});
+
+// Community leaderboards
+commands.set('leaderboard', {
+  name: 'leaderboard',
+  description: 'Show the community leaderboard',
+  category: 'Wingman',
+  cooldown: 15,
+  options: [
+    {
+      type: ApplicationCommandOptionType.String,
+      name: 'type',
+      description: 'What to rank by (default: questions)',
+      required: false,
+      choices: [
+        { name: 'Questions asked', value: 'questions' },
+        { name: 'Achievements', value: 'achievements' },
+        { name: 'Forum posts', value: 'forumPosts' },
+        { name: 'Top contributors', value: 'contributors' },
+        { name: 'Genre specialists', value: 'genreSpecialists' }
+      ]
+    },
+    {
+      type: ApplicationCommandOptionType.String,
+      name: 'timeframe',
+      description: 'Time period (default: weekly)',
+      required: false,
+      choices: [
+        { name: 'This week', value: 'weekly' },
+        { name: 'This month', value: 'monthly' },
+        { name: 'All time', value: 'allTime' }
+      ]
+    },
+    {
+      type: ApplicationCommandOptionType.String,
+      name: 'genre',
+      description: 'Genre for the genre specialists leaderboard',
+      required: false,
+      choices: LEADERBOARD_GENRES.map(genre => ({ name: genre, value: genre }))
+    }
+  ],
+  execute: async (interaction: ChatInputCommandInteraction) => {
+    const type = (interaction.options.getString('type') || 'questions') as LeaderboardType;
+    const timeframe = (interaction.options.getString('timeframe') || 'weekly') as Timeframe;
+    const genre = interaction.options.getString('genre') || undefined;
+
+    if (type === 'genreSpecialists' && !genre) {
+      await interaction.reply({ content: 'Pick a `genre` for the genre specialists leaderboard.', ephemeral: true });
+      return;
+    }
+
+    await interaction.deferReply();
+
+    await connectToWingmanDB();
+    const { entries } = await getLeaderboard(type, timeframe, 10, genre);
+
+    const titles: Record<LeaderboardType, string> = {
+      questions: 'Questions Asked',
+      achievements: 'Achievements',
+      forumPosts: 'Forum Posts',
+      contributors: 'Top Contributors',
+      genreSpecialists: `${genre} Specialists`
+    };
+    const timeframes: Record<Timeframe, string> = {
+      weekly: 'This Week',
+      monthly: 'This Month',
+      allTime: 'All Time'
+    };
+    const medals = ['🥇', '🥈', '🥉'];
+
+    const embed = new EmbedBuilder()
+      .setTitle(`🏅 ${titles[type]} — ${timeframes[timeframe]}`)
+      .setColor('#FFD700')
+      .setDescription(
+        entries.length > 0
+          ? entries.map(entry => `${medals[entry.rank - 1] || `**${entry.rank}.**`} ${entry.username} — ${entry.count}`).join('\n')
+          : 'No activity yet for this period.'
+      )
+      .setTimestamp();
+
+    await interaction.editReply({ embeds: [embed] });
+  },
+});
+
+// Game recommendations by genre or similar to a game
+commands.set('recommend', {
+  name: 'recommend',
+  description: 'Get game recommendations by genre or similar to a game you like',
+  category: 'Wingman',
+  cooldown: 15,
+  options: [
+    {
+      type: ApplicationCommandOptionType.String,
+      name: 'genre',
+      description: 'Genre to get recommendations for',
+      required: false,
+      choices: RECOMMENDATION_GENRES.map(genre => ({ name: genre, value: genre }))
+    },
+    gameOption('Find games similar to this one'),
+    {
+      type: ApplicationCommandOptionType.Boolean,
+      name: 'popular',
+      description: 'Prefer recent popular releases (genre recommendations only)',
+      required: false
+    }
+  ],
+  autocomplete: autocompleteGameTitle,
+  execute: async (interaction: ChatInputCommandInteraction) => {
+    const genre = interaction.options.getString('genre');
+    const game = interaction.options.getString('game');
+    const popular = interaction.options.getBoolean('popular') || false;
+
+    if (!genre && !game) {
+      await interaction.reply({ content: 'Pick a `genre` or a `game` to get recommendations.', ephemeral: true });
+      return;
+    }
+
+    await interaction.deferReply();
+
+    const embed = new EmbedBuilder().setColor(EMBED_COLOR).setTimestamp();
+
+    if (game) {
+      const similar = getSimilarGames(game, 8);
+      const genres = getAllGenresForGame(game);
+      embed
+        .setTitle(`🎮 Games like ${truncate(game, 200)}`)
+        .setDescription(
+          similar.length > 0
+            ? similar.map(title => `• ${title}`).join('\n')
+            : "I don't know that game well enough yet. Try picking a genre instead!"
+        );
+      if (genres.length > 0) {
+        embed.setFooter({ text: `Based on: ${genres.join(', ')}` });
+      }
+    }
+
+    if (genre) {
+      const games = (await fetchRecommendations(genre, { currentPopular: popular })).slice(0, 10);
+      const list = games.length > 0
+        ? games.map(title => `• ${title}`).join('\n')
+        : 'No recommendations found right now. Please try again later.';
+      if (game) {
+        embed.addFields({ name: `Top ${genre} games`, value: truncate(list, 1024) });
+      } else {
+        embed.setTitle(`🎮 ${popular ? 'Popular' : 'Top'} ${genre} Games`).setDescription(list);
+      }
+    }
+
+    await interaction.editReply({ embeds: [embed] });
+  },
+});
+
+// Connect a Discord account to a Wingman account
+commands.set('link', {
+  name: 'link',
+  description: 'Link your Discord account to your Video Game Wingman account',
+  category: 'Wingman',
+  cooldown: 30,
+  execute: async (interaction: ChatInputCommandInteraction) => {
+    await interaction.deferReply({ ephemeral: true });
+
+    await connectToWingmanDB();
+    const existing = await getLinkedWingmanUser(interaction.user.id, 'username');
+    if (existing) {
+      await interaction.editReply({
+        embeds: [
+          new EmbedBuilder()
+            .setTitle('Already Linked')
+            .setDescription(`Your Discord account is linked to **${existing.username}**.`)
+            .setColor(EMBED_COLOR)
+        ]
+      });
+      return;
+    }
+
+    const { url, expiresAt } = await createDiscordLinkCode(interaction.user.id, interaction.user.username);
+
+    logger.info('Discord link code issued', { userId: interaction.user.id });
+
+    await interaction.editReply({
+      embeds: [
+        new EmbedBuilder()
+          .setTitle('Link Your Account')
+          .setDescription(
+            `[Open this link](${url}) while signed in to Video Game Wingman to connect your Discord account.\n\n` +
+            `The link expires <t:${Math.floor(expiresAt.getTime() / 1000)}:R> and can only be used once. Don't share it.`
+          )
+          .setColor(EMBED_COLOR)
+      ]
+    });
+  },
+});
+
 // Check command permissions
 const checkPermissions = (interaction: CommandInteraction, command: Command): boolean => {
   if (!command.permissions) return true;
@@ -76,38 +611,81 @@ const checkPermissions = (interaction: CommandInteraction, command: Command): bo
 };
 
 // Check and handle cooldowns
-const handleCooldown = (interaction: CommandInteraction, command: Command): boolean => {
+// A cooldown is a limit of one use per window, kept in the shared store so it holds across instances
+const handleCooldown = async (interaction: CommandInteraction, command: Command): Promise<boolean> => {
   if (!command.cooldown) return true;
 
-  if (!cooldowns.has(command.name)) {
-    cooldowns.set(command.name, new Map());
+  const { allowed, resetAt } = await consumeRateLimit(
+    `discord-cooldown:${command.name}:${interaction.user.id}`,
+    1,
+    command.cooldown * 1000
+  );
+
+  if (!allowed) {
+    const timeLeft = Math.max(0, resetAt - Date.now()) / 1000;
+    interaction.reply({
+      content: `Please wait ${timeLeft.toFixed(1)} more seconds before using \`/${command.name}\` again.`,
+      ephemeral: true
+    });
+    return false;
   }
 
-  const timestamps = cooldowns.get(command.name)!;
-  const now = Date.now();
-  const cooldownAmount = command.cooldown * 1000;
+  return true;
+};
 
-  if (timestamps.has(interaction.user.id)) {
-    const expirationTime = timestamps.get(interaction.user.id)! + cooldownAmount;
+// Autocomplete suggestions for command options
+const handleAutocomplete = async (interaction: AutocompleteInteraction) => {
+  const command = commands.get(interaction.commandName);
+  if (!command?.autocomplete) return;
 
-    if (now < expirationTime) {
-      const timeLeft = (expirationTime - now) / 1000;
-      interaction.reply({
-        content: `Please wait ${timeLeft.toFixed(1)} more seconds before using \`/${command.name}\` again.`,
-        ephemeral: true
-      });
-      return false;
-    }
+  try {
+    await command.autocomplete(interaction);
+  } catch (error) {
+    // Autocomplete responses expire after 3 seconds; a failure just shows no suggestions
+    logger.warn('Error handling autocomplete', {
+      error: error instanceof Error ? error.message : String(error),
+      command: interaction.commandName
+    });
   }
-
-  timestamps.set(interaction.user.id, now);
-  setTimeout(() => timestamps.delete(interaction.user.id), cooldownAmount);
-  return true;
 };
 
+/**
+ * Whether the member running a command has one of the server's Pro-exempt roles
+ */
+function hasProExemptRole(interaction: ChatInputCommandInteraction, settings: DiscordGuildSettings): boolean {
+  const memberRoles = interaction.member?.roles;
+  if (!memberRoles || settings.proExemptRoleIds.length === 0) {
+    return false;
+  }
+  // Uncached members come through as raw API data with a list of role IDs
+  const roleIds = Array.isArray(memberRoles) ? memberRoles : Array.from(memberRoles.cache.keys());
+  return roleIds.some(roleId => settings.proExemptRoleIds.includes(roleId));
+}
+
+/**
+ * Whether the server allows the bot in the channel a command was used in (threads follow their parent)
+ */
+async function isCommandChannelAllowed(interaction: ChatInputCommandInteraction): Promise<boolean> {
+  if (!interaction.guildId) {
+    return true;
+  }
+  const settings = await getDiscordGuildSettings(interaction.guildId);
+  if (settings.allowedChannelIds.length === 0) {
+    return true;
+  }
+  const parentId = interaction.channel?.isThread() ? interaction.channel.parentId : null;
+  return settings.allowedChannelIds.includes(interaction.channelId) ||
+    (!!parentId && settings.allowedChannelIds.includes(parentId));
+}
+
 // Enhanced command handler
 export const handleCommand = async (interaction: Interaction) => {
-  if (!interaction.isCommand()) return;
+  if (interaction.isAutocomplete()) {
+    await handleAutocomplete(interaction);
+    return;
+  }
+
+  if (!interaction.isChatInputCommand()) return;
 
   const command = commands.get(interaction.commandName);
   
@@ -136,8 +714,17 @@ export const handleCommand = async (interaction: Interaction) => {
     return;
   }
 
+  // Check the server's channel restrictions
+  if (!(await isCommandChannelAllowed(interaction))) {
+    await interaction.reply({
+      content: "I'm not enabled in this channel. Try one of the channels the server admins have set up for me.",
+      ephemeral: true
+    });
+    return;
+  }
+
   // Check cooldown
-  if (!handleCooldown(interaction, command)) return;
+  if (!(await handleCooldown(interaction, command))) return;
 
   // Execute the command with enhanced error handling
   try {
@@ -188,9 +775,10 @@ export const registerCommands = async (client: Client) => {
       throw new Error('DISCORD_APPLICATION_ID is not defined');
     }
 
-    const commandData = Array.from(commands.values()).map(({ name, description }) => ({
+    const commandData = Array.from(commands.values()).map(({ name, description, options }) => ({
       name,
       description,
+      options,
     }));
 
     await client.application?.commands.set(commandData);
@@ -0,0 +1,84 @@
+/**
+ * Discord ↔ Wingman account linking
+ *
+ * A Discord user is linked to a Wingman account either because they signed up with
+ * Discord (User.userId is their Discord ID) or because they ran /link and opened the
+ * link on the website while signed in (User.discordId).
+ *
+ * Callers are responsible for connecting to the database.
+ */
+import crypto from 'crypto';
+import User from '../../models/User';
+import DiscordLinkCode from '../../models/DiscordLinkCode';
+
+export const DISCORD_LINK_CODE_TTL_MS = 10 * 60 * 1000; // 10 minutes
+
+export type DiscordLinkResult =
+  | { status: 'linked'; discordUsername: string }
+  | { status: 'invalid_code' }
+  | { status: 'already_linked'; discordUsername: string };
+
+function getAppUrl(): string {
+  return (process.env.NEXT_PUBLIC_APP_URL || process.env.APP_URL || 'https://assistant.videogamewingman.com/').replace(/\/$/, '');
+}
+
+/**
+ * Find the Wingman user linked to a Discord account
+ * @param select - Optional projection, as for Model.select()
+ */
+export async function getLinkedWingmanUser(discordId: string, select?: string) {
+  const query = User.findOne({ $or: [{ discordId }, { userId: discordId }] });
+  if (select) {
+    query.select(select);
+  }
+  return query;
+}
+
+/**
+ * Issue a one-time link code for a Discord user, replacing any earlier unused code
+ * @returns The URL to open on the website and when it stops working
+ */
+export async function createDiscordLinkCode(
+  discordId: string,
+  discordUsername: string
+): Promise<{ url: string; expiresAt: Date }> {
+  const code = crypto.randomBytes(24).toString('base64url');
+  const expiresAt = new Date(Date.now() + DISCORD_LINK_CODE_TTL_MS);
+
+  await DiscordLinkCode.deleteMany({ discordId });
+  await DiscordLinkCode.create({ code, discordId, discordUsername, expiresAt });
+
+  return { url: `${getAppUrl()}/discord-landing?linkCode=${encodeURIComponent(code)}`, expiresAt };
+}
+
+/**
+ * Redeem a link code for a signed-in Wingman user
+ * The code is consumed even if linking fails, so a leaked link can't be retried.
+ */
+export async function redeemDiscordLinkCode(code: string, username: string): Promise<DiscordLinkResult> {
+  const linkCode = await DiscordLinkCode.findOneAndDelete({ code, expiresAt: { $gt: new Date() } }).lean() as {
+    discordId: string;
+    discordUsername: string;
+  } | null;
+
+  if (!linkCode) {
+    return { status: 'invalid_code' };
+  }
+
+  // A Discord account can only belong to one Wingman user
+  const existingLink = await User.findOne({
+    $or: [{ discordId: linkCode.discordId }, { userId: linkCode.discordId }],
+    username: { $ne: username }
+  }).select('username').lean();
+
+  if (existingLink) {
+    return { status: 'already_linked', discordUsername: linkCode.discordUsername };
+  }
+
+  await User.updateOne(
+    { username },
+    { $set: { discordId: linkCode.discordId, discordUsername: linkCode.discordUsername } }
+  );
+
+  return { status: 'linked', discordUsername: linkCode.discordUsername };
+}
@@ -0,0 +1,186 @@
+/**
+ * Discord server (guild) records and management permissions
+ *
+ * The bot keeps a DiscordGuild record for every server it joins. Server settings can be
+ * managed on the website by linked users who have Manage Server (or Administrator) in that
+ * server. Permissions are checked against Discord's REST API with the bot token, so the
+ * website doesn't depend on the bot's gateway connection being in the same process.
+ *
+ * Callers are responsible for connecting to the database.
+ */
+import { Guild, REST, Routes, PermissionFlagsBits, APIGuild, APIGuildMember } from 'discord.js';
+import DiscordGuild from '../../models/DiscordGuild';
+import User from '../../models/User';
+import { logger } from '../logger';
+
+// Permission checks are cached briefly to stay well clear of Discord's rate limits
+const PERMISSION_CACHE_TTL_MS = 60 * 1000;
+const permissionCache = new Map<string, { canManage: boolean; expiresAt: number }>();
+
+let rest: REST | null = null;
+
+function getRest(): REST {
+  if (!process.env.DISCORD_API_TOKEN) {
+    throw new Error('DISCORD_API_TOKEN is not defined');
+  }
+  if (!rest) {
+    rest = new REST({ version: '10' }).setToken(process.env.DISCORD_API_TOKEN);
+  }
+  return rest;
+}
+
+/**
+ * Create or refresh the record for a server the bot is in
+ */
+export async function recordGuildJoined(guild: Guild): Promise<void> {
+  await DiscordGuild.updateOne(
+    { guildId: guild.id },
+    {
+      $set: { guildName: guild.name, iconUrl: guild.iconURL() || undefined, isActive: true },
+      $unset: { removedAt: '' },
+      $setOnInsert: { addedAt: new Date() }
+    },
+    { upsert: true }
+  );
+}
+
+/**
+ * Mark a server as inactive after the bot is removed (settings are kept in case it's re-added)
+ */
+export async function recordGuildLeft(guildId: string): Promise<void> {
+  await DiscordGuild.updateOne({ guildId }, { $set: { isActive: false, removedAt: new Date() } });
+}
+
+/**
+ * Get the Discord user ID linked to a Wingman account
+ * Users who signed up with Discord have their Discord ID as userId.
+ */
+export async function getDiscordIdForUser(username: string): Promise<string | null> {
+  const user = await User.findOne({ username }).select('userId discordId').lean() as {
+    userId?: string;
+    discordId?: string;
+  } | null;
+  if (!user) return null;
+  if (user.discordId) return user.discordId;
+  return user.userId && /^\d{17,20}$/.test(user.userId) ? user.userId : null;
+}
+
+/**
+ * Whether a Discord user can manage the bot in a server (owner, Administrator or Manage Server)
+ */
+export async function canManageGuild(guildId: string, discordUserId: string): Promise<boolean> {
+  const cacheKey = `${guildId}:${discordUserId}`;
+  const cached = permissionCache.get(cacheKey);
+  if (cached && cached.expiresAt > Date.now()) {
+    return cached.canManage;
+  }
+
+  let canManage = false;
+  try {
+    const guild = await getRest().get(Routes.guild(guildId)) as APIGuild;
+    if (guild.owner_id === discordUserId) {
+      canManage = true;
+    } else {
+      const member = await getRest().get(Routes.guildMember(guildId, discordUserId)) as APIGuildMember;
+      // @everyone's role ID is the guild ID
+      const roleIds = new Set([guildId, ...member.roles]);
+      const permissions = guild.roles
+        .filter(role => roleIds.has(role.id))
+        .reduce((bits, role) => bits | BigInt(role.permissions), BigInt(0));
+      canManage = (permissions & PermissionFlagsBits.Administrator) !== BigInt(0)
+        || (permissions & PermissionFlagsBits.ManageGuild) !== BigInt(0);
+    }
+  } catch (error: any) {
+    // 404 = not a member (or the bot isn't in the server)
+    if (error?.status !== 404) {
+      logger.warn('Failed to check Discord server permissions', {
+        guildId,
+        error: error instanceof Error ? error.message : String(error)
+      });
+      return false; // Don't cache transient failures
+    }
+  }
+
+  permissionCache.set(cacheKey, { canManage, expiresAt: Date.now() + PERMISSION_CACHE_TTL_MS });
+  return canManage;
+}
+
+/**
+ * List the servers a Wingman user can manage (bot present, user has Manage Server)
+ */
+export async function getManageableGuilds(username: string) {
+  const discordId = await getDiscordIdForUser(username);
+  if (!discordId) {
+    return { discordLinked: false, guilds: [] };
+  }
+
+  const guilds = await DiscordGuild.find({ isActive: true })
+    .select('guildId guildName iconUrl isActive')
+    .sort({ guildName: 1 })
+    .lean() as any[];
+
+  const manageable: any[] = [];
+  for (const guild of guilds) {
+    // Sequential on purpose: each check is up to two REST calls
+    if (await canManageGuild(guild.guildId, discordId)) {
+      manageable.push({
+        guildId: guild.guildId,
+        guildName: guild.guildName,
+        iconUrl: guild.iconUrl || null,
+        isActive: guild.isActive
+      });
+    }
+  }
+
+  return { discordLinked: true, guilds: manageable };
+}
+
+/**
+ * Load a server for a user who wants to change its settings
+ * @throws Error with statusCode 403 if the user's Discord account isn't linked or can't manage the server,
+ *         404 if the bot has never been in the server
+ */
+export async function getManagedGuild(username: string, guildId: string) {
+  const discordId = await getDiscordIdForUser(username);
+  if (!discordId) {
+    const error = new Error('Link your Discord account (use /link in Discord) to manage server settings');
+    (error as any).statusCode = 403;
+    throw error;
+  }
+
+  const guild = await DiscordGuild.findOne({ guildId });
+  if (!guild) {
+    const error = new Error('Server not found. Add the bot to the server first.');
+    (error as any).statusCode = 404;
+    throw error;
+  }
+
+  if (!(await canManageGuild(guildId, discordId))) {
+    const error = new Error('You need the Manage Server permission in this server to change its settings');
+    (error as any).statusCode = 403;
+    throw error;
+  }
+
+  return guild;
+}
+
+/**
+ * Lift a user's ban in a server (used when a moderation appeal is granted)
+ * @returns false if the ban couldn't be lifted (e.g. the bot lacks Ban Members); a missing ban counts as lifted
+ */
+export async function unbanGuildMember(guildId: string, discordUserId: string, reason: string): Promise<boolean> {
+  try {
+    await getRest().delete(Routes.guildBan(guildId, discordUserId), { reason });
+    return true;
+  } catch (error: any) {
+    if (error?.status === 404) {
+      return true; // Not banned
+    }
+    logger.warn('Failed to lift Discord ban', {
+      guildId,
+      discordUserId,
+      error: error instanceof Error ? error.message : String(error)
+    });
+    return false;
+  }
+}
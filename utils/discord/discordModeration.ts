@@ -1,29 +1,15 @@
-import { containsOffensiveContent } from '../contentModeration';
 import { logger } from '../logger';
 import { getClient } from '../discordBot';
 import connectToMongoDB from '../mongodb';
 import DiscordUserViolation from '../../models/DiscordUserViolation';
 import DiscordModerationLog from '../../models/DiscordModerationLog';
 import { getDiscordModerationConfig } from '../../config/discordModerationConfig';
+import { ModerationAction } from '../../config/moderationRules';
+import { checkContentAgainstRules, RecentMessageTracker } from '../moderation/rulesEngine';
 import { GuildMember, Message, TextChannel, DMChannel } from 'discord.js';
 
-/**
- * Helper function to check for offensive words without violation tracking
- */
-async function checkWordsDirectly(message: string): Promise<string[]> {
-  // Dynamically import the word list
-  const contentModeration = await import('../contentModeration');
-  // Access the word list - we need to read the file or use a different approach
-  // For now, use containsOffensiveContent with a unique ID to avoid duplicate key errors
-  const uniqueId = `discord_check_${Date.now()}_${Math.random()}`;
-  try {
-    const result = await containsOffensiveContent(message, uniqueId);
-    return result.offendingWords || [];
-  } catch {
-    // If it fails, return empty array (fail open)
-    return [];
-  }
-}
+// Recent messages per server (or DM) and user, for the repeated-message rule
+const recentMessages = new RecentMessageTracker();
 
 /**
  * Result of a moderation check
@@ -37,6 +23,8 @@ export interface ModerationResult {
   shouldProcess: boolean;
   /** Reason for rejection (if shouldProcess is false) */
   reason?: string;
+  /** Most severe action from the moderation rules (see config/moderationRules.ts) */
+  action?: ModerationAction;
 }
 
 /**
@@ -66,27 +54,25 @@ export async function checkMessageContent(
       };
     }
     
-    // Check for offensive words directly (without violation tracking)
+    // Evaluate the shared moderation rules (no side effects)
     // We handle violations separately using DiscordUserViolation model
-    let moderationCheck;
-    try {
-      moderationCheck = await containsOffensiveContent(message, `discord_${discordUserId}_${Date.now()}`);
-    } catch (violationError: any) {
-      // If violation tracking fails (e.g., duplicate key), just check words manually
-      // This is expected for Discord since we use separate violation tracking
-      if (violationError?.message?.includes('duplicate key') || violationError?.code === 11000) {
-        // Duplicate key error - violation was already tracked, just check words
-        const foundWords = await checkWordsDirectly(message);
-        moderationCheck = {
-          isOffensive: foundWords.length > 0,
-          offendingWords: foundWords
-        };
-      } else {
-        throw violationError; // Re-throw if it's a different error
-      }
+    const historyKey = `${guildId || 'DM'}:${discordUserId}`;
+    const evaluation = await checkContentAgainstRules(message, {
+      platform: 'discord',
+      strict: config.strictMode,
+      recentMessages: recentMessages.get(historyKey)
+    });
+    recentMessages.record(historyKey, message);
+
+    if (evaluation.action === 'log') {
+      logger.info('Discord message flagged by moderation rules', {
+        discordUserId,
+        guildId: guildId || 'DM',
+        matches: evaluation.matches.map(match => ({ rule: match.rule, matched: match.matched }))
+      });
     }
 
-    if (!moderationCheck.isOffensive) {
+    if (!evaluation.isBlocked) {
       // Content is clean - allow processing
       return {
         isOffensive: false,
@@ -99,15 +85,17 @@ export async function checkMessageContent(
     logger.warn('Offensive content detected in Discord message', {
       discordUserId,
       guildId: guildId || 'DM',
-      offendingWords: moderationCheck.offendingWords,
+      offendingWords: evaluation.offendingWords,
+      action: evaluation.action,
       messagePreview: message.substring(0, 100), // Log first 100 chars for context
     });
 
     return {
       isOffensive: true,
-      offendingWords: moderationCheck.offendingWords,
+      offendingWords: evaluation.offendingWords,
       shouldProcess: false, // Don't process offensive messages
       reason: 'Message contains offensive content',
+      action: evaluation.action as ModerationAction,
     };
   } catch (error) {
     // If moderation check fails, log error but allow processing (fail open)
@@ -155,14 +143,14 @@ export async function checkAIResponse(
       };
     }
     
-    // Use existing content moderation utility
-    // Note: We use a special identifier for AI responses to avoid penalizing users
-    const moderationCheck = await containsOffensiveContent(
-      response,
-      `ai_response_${discordUserId}_${Date.now()}` // Unique identifier to avoid user penalties
-    );
+    // Evaluate the shared moderation rules (no side effects, so the user is never penalized)
+    const moderationCheck = await checkContentAgainstRules(response, {
+      platform: 'discord',
+      source: 'ai',
+      strict: config.strictMode
+    });
 
-    if (!moderationCheck.isOffensive) {
+    if (!moderationCheck.isBlocked) {
       // Response is clean - allow sending
       return {
         isOffensive: false,
@@ -526,6 +514,16 @@ export async function handleModerationViolation(
       });
       return false;
     }
+
+    // Rules whose action is 'block' reject the message without counting a violation
+    if (moderationResult.action === 'block') {
+      logger.info('Message blocked by moderation rules, no violation recorded', {
+        discordUserId: message.author.id,
+        guildId,
+        offendingWords: moderationResult.offendingWords
+      });
+      return false;
+    }
     
     // For DMs, only warn - can't timeout/ban/kick in DMs
     if (isDM) {
@@ -615,7 +613,28 @@ export async function handleModerationViolation(
       reason: string;
     };
     
-    if (totalViolations === 1) {
+    if (moderationResult.action === 'ban' || totalViolations >= config.maxViolationsBeforeBan) {
+      // Max violations reached (or a rule calls for an immediate ban): Permanent ban
+      actionTaken = 'ban';
+      violationRecord = {
+        offendingWords: moderationResult.offendingWords,
+        message: message.content.substring(0, 500),
+        timestamp: new Date(),
+        actionTaken: 'ban',
+        reason: moderationResult.reason || 'Offensive content detected'
+      };
+      
+      actionSuccess = await banUser(
+        member,
+        `${moderationResult.action === 'ban' ? 'Banned content' : `Repeated violations (${totalViolations})`}: ${moderationResult.offendingWords.join(', ')}`
+      );
+      
+      violation.warningCount = totalViolations;
+      violation.isBanned = true;
+      violation.bannedAt = new Date();
+      violation.violations.push(violationRecord);
+      
+    } else if (totalViolations === 1) {
       // First violation: Warning only (or timeout if configured)
       actionTaken = config.timeoutDurations.first > 0 ? 'timeout' : 'warning';
       timeoutDuration = config.timeoutDurations.first;
@@ -723,27 +742,6 @@ export async function handleModerationViolation(
       violation.lastTimeoutDuration = timeoutDuration;
       violation.violations.push(violationRecord);
       
-    } else if (totalViolations >= config.maxViolationsBeforeBan) {
-      // Max violations reached: Permanent ban
-      actionTaken = 'ban';
-      violationRecord = {
-        offendingWords: moderationResult.offendingWords,
-        message: message.content.substring(0, 500),
-        timestamp: new Date(),
-        actionTaken: 'ban',
-        reason: moderationResult.reason || 'Offensive content detected'
-      };
-      
-      actionSuccess = await banUser(
-        member,
-        `Repeated violations (${totalViolations}): ${moderationResult.offendingWords.join(', ')}`
-      );
-      
-      violation.warningCount = totalViolations;
-      violation.isBanned = true;
-      violation.bannedAt = new Date();
-      violation.violations.push(violationRecord);
-      
     } else {
       // Between 4th and max violations: Continue with longest timeout
       actionTaken = 'timeout';
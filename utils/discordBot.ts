@@ -1,6 +1,8 @@
 import { Client, GatewayIntentBits, Partials } from 'discord.js';
 import { DiscordBotHandler } from './discord/botHandler';
 import { handleCommand, registerCommands } from './discord/commandHandler';
+import { recordGuildJoined, recordGuildLeft } from './discord/discordGuilds';
+import { connectToWingmanDB } from './databaseConnections';
 import dotenv from 'dotenv';
 
 dotenv.config();
@@ -106,6 +108,16 @@ export async function initializeDiscordBot(): Promise<boolean> {
         guilds.forEach((guild) => {
           console.log(`   - ${guild.name} (${guild.id})`);
         });
+
+        // Keep server records in sync so servers can be managed from the website
+        try {
+          await connectToWingmanDB();
+          for (const guild of Array.from(guilds.values())) {
+            await recordGuildJoined(guild);
+          }
+        } catch (error) {
+          console.error('❌ Error syncing Discord server records:', error);
+        }
       }
       
       // Register slash commands
@@ -130,6 +142,27 @@ export async function initializeDiscordBot(): Promise<boolean> {
       console.log('🔄 Discord bot reconnecting...');
     });
 
+    // Track servers the bot is added to / removed from
+    client.on('guildCreate', async (guild) => {
+      console.log(`➕ Bot added to server: ${guild.name} (${guild.id})`);
+      try {
+        await connectToWingmanDB();
+        await recordGuildJoined(guild);
+      } catch (error) {
+        console.error('❌ Error recording Discord server:', error);
+      }
+    });
+
+    client.on('guildDelete', async (guild) => {
+      console.log(`➖ Bot removed from server: ${guild.id}`);
+      try {
+        await connectToWingmanDB();
+        await recordGuildLeft(guild.id);
+      } catch (error) {
+        console.error('❌ Error recording Discord server removal:', error);
+      }
+    });
+
     // Handle slash command interactions
     client.on('interactionCreate', async (interaction) => {
       await handleCommand(interaction);
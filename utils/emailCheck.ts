@@ -10,4 +10,11 @@ export const banEmail = async (email: string, userId: string): Promise<void> =>
     email: email.toLowerCase(),
     originalUserId: userId
   });
-}; 
\ No newline at end of file
+}; 
+export const unbanEmail = async (email: string | null | undefined, userId: string): Promise<void> => {
+  const filters: Record<string, string>[] = [{ originalUserId: userId }];
+  if (email) {
+    filters.push({ email: email.toLowerCase() });
+  }
+  await BannedEmail.deleteMany({ $or: filters });
+};
@@ -1060,4 +1060,285 @@ export const sendAccountUnlockEmail = async (
     console.error('Error sending account unlock email:', error);
     return false;
   }
-};
\ No newline at end of file
+};
+/**
+ * Send account deletion confirmation with a restore link
+ * @param email - User's email address
+ * @param username - User's username
+ * @param restoreToken - Token for the restore link
+ * @param scheduledFor - When the account will be permanently deleted
+ */
+export const sendAccountDeletionScheduledEmail = async (
+  email: string,
+  username: string,
+  restoreToken: string,
+  scheduledFor: Date
+): Promise<boolean> => {
+  const resend = getResendClient();
+  if (!resend) {
+    console.error('Email service not configured');
+    return false;
+  }
+
+  const restoreUrl = `${APP_URL}/restore-account?token=${restoreToken}`;
+  const deletionDate = scheduledFor.toUTCString();
+
+  try {
+    const { data, error } = await resend.emails.send({
+      from: RESEND_FROM_EMAIL!,
+      to: email,
+      subject: 'Your Account Is Scheduled for Deletion - Video Game Wingman',
+      html: `
+        <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto;">
+          <div style="text-align: center; margin-bottom: 30px;">
+            <h1 style="color: #4F46E5;">Video Game Wingman</h1>
+          </div>
+          
+          <div style="background-color: #f8f9fa; padding: 20px; border-radius: 8px; margin-bottom: 20px;">
+            <h2 style="color: #333; margin-top: 0;">Account Deletion Requested</h2>
+            <p>Hello ${username},</p>
+            <p>We received a request to delete your Video Game Wingman account. Your account has been deactivated and will be permanently deleted on <strong>${deletionDate}</strong>.</p>
+            <p>Changed your mind? You can restore your account any time before then:</p>
+            
+            <div style="text-align: center; margin: 30px 0;">
+              <a href="${restoreUrl}" 
+                 style="background-color: #4F46E5; color: white; padding: 12px 24px; text-decoration: none; border-radius: 6px; display: inline-block;">
+                Restore My Account
+              </a>
+            </div>
+            
+            <p style="font-size: 14px; color: #666;">
+              If the button doesn't work, copy and paste this link into your browser:<br>
+              <a href="${restoreUrl}" style="color: #4F46E5;">${restoreUrl}</a>
+            </p>
+          </div>
+          
+          <div style="background-color: #fff3cd; border: 1px solid #ffc107; padding: 15px; border-radius: 6px; margin-bottom: 20px;">
+            <p style="margin: 0; color: #856404;"><strong>After deletion:</strong> your questions, saved guides, sessions and linked Twitch/Discord accounts are removed, and your forum posts are shown as written by "deleted user". This can't be undone.</p>
+          </div>
+          
+          <div style="font-size: 12px; color: #666; text-align: center;">
+            <p>If you didn't request this, restore your account and change your password immediately.</p>
+            <p>© 2024 Video Game Wingman. All rights reserved.</p>
+          </div>
+        </div>
+      `,
+      text: `
+        Account Deletion Requested - Video Game Wingman
+        
+        Hello ${username},
+        
+        We received a request to delete your Video Game Wingman account. Your account has been deactivated and will be permanently deleted on ${deletionDate}.
+        
+        Changed your mind? Restore your account before then: ${restoreUrl}
+        
+        After deletion, your questions, saved guides, sessions and linked Twitch/Discord accounts are removed, and your forum posts are shown as written by "deleted user". This can't be undone.
+        
+        If you didn't request this, restore your account and change your password immediately.
+        
+        © 2024 Video Game Wingman. All rights reserved.
+      `
+    });
+
+    if (error) {
+      console.error('Error sending account deletion email:', error);
+      return false;
+    }
+
+    console.log(`Account deletion email sent to ${email}`);
+    return true;
+  } catch (error) {
+    console.error('Error sending account deletion email:', error);
+    return false;
+  }
+};
+
+/**
+ * Send the receipt for a completed account deletion
+ * @param email - Former user's email address
+ * @param username - Former user's username
+ * @param receiptId - Deletion receipt ID (for support requests)
+ * @param summary - Records removed or anonymized, by type
+ */
+export const sendAccountDeletionReceiptEmail = async (
+  email: string,
+  username: string,
+  receiptId: string,
+  summary: Record<string, number>
+): Promise<boolean> => {
+  const resend = getResendClient();
+  if (!resend) {
+    console.error('Email service not configured');
+    return false;
+  }
+
+  const summaryRows = Object.keys(summary)
+    .map(key => `<tr><td style="padding: 4px 8px;">${key}</td><td style="padding: 4px 8px; text-align: right;">${summary[key]}</td></tr>`)
+    .join('');
+  const summaryText = Object.keys(summary).map(key => `- ${key}: ${summary[key]}`).join('\n        ');
+
+  try {
+    const { data, error } = await resend.emails.send({
+      from: RESEND_FROM_EMAIL!,
+      to: email,
+      subject: 'Your Account Has Been Deleted - Video Game Wingman',
+      html: `
+        <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto;">
+          <div style="text-align: center; margin-bottom: 30px;">
+            <h1 style="color: #4F46E5;">Video Game Wingman</h1>
+          </div>
+          
+          <div style="background-color: #f8f9fa; padding: 20px; border-radius: 8px; margin-bottom: 20px;">
+            <h2 style="color: #333; margin-top: 0;">Deletion Receipt</h2>
+            <p>Hello ${username},</p>
+            <p>Your Video Game Wingman account and its data have been permanently deleted. Forum posts you wrote remain in their threads, shown as written by "deleted user".</p>
+            <p><strong>Receipt ID:</strong> ${receiptId}</p>
+            <table style="width: 100%; border-collapse: collapse; font-size: 14px;">
+              ${summaryRows}
+            </table>
+          </div>
+          
+          <div style="font-size: 12px; color: #666; text-align: center;">
+            <p>Keep this receipt ID if you need to contact support about your deletion.</p>
+            <p>© 2024 Video Game Wingman. All rights reserved.</p>
+          </div>
+        </div>
+      `,
+      text: `
+        Deletion Receipt - Video Game Wingman
+        
+        Hello ${username},
+        
+        Your Video Game Wingman account and its data have been permanently deleted. Forum posts you wrote remain in their threads, shown as written by "deleted user".
+        
+        Receipt ID: ${receiptId}
+        
+        ${summaryText}
+        
+        Keep this receipt ID if you need to contact support about your deletion.
+        
+        © 2024 Video Game Wingman. All rights reserved.
+      `
+    });
+
+    if (error) {
+      console.error('Error sending account deletion receipt:', error);
+      return false;
+    }
+
+    console.log(`Account deletion receipt sent to ${email}`);
+    return true;
+  } catch (error) {
+    console.error('Error sending account deletion receipt:', error);
+    return false;
+  }
+};
+
+/**
+ * Send a login alert with a one-click "this wasn't me" link
+ * @param email - User's email address
+ * @param username - User's username
+ * @param login - When and where the sign-in happened
+ * @param reasons - Why the sign-in looked unusual (human-readable)
+ * @param reportToken - Token for the secure-account link
+ * @returns Promise<boolean> - Success status
+ */
+export const sendSuspiciousLoginEmail = async (
+  email: string,
+  username: string,
+  login: { at: Date; device: string; ipAddress: string; location?: string },
+  reasons: string[],
+  reportToken: string
+): Promise<boolean> => {
+  const resend = getResendClient();
+  if (!resend) {
+    console.error('Email service not configured');
+    return false;
+  }
+
+  const reportUrl = `${APP_URL}/secure-account?token=${reportToken}`;
+  const when = login.at.toUTCString();
+  const where = login.location || 'Unknown location';
+  const reasonItems = reasons.map(reason => `<li>${reason}</li>`).join('');
+  const reasonText = reasons.map(reason => `- ${reason}`).join('\n        ');
+
+  try {
+    const { data, error } = await resend.emails.send({
+      from: RESEND_FROM_EMAIL!,
+      to: email,
+      subject: 'New Sign-In to Your Account - Video Game Wingman',
+      html: `
+        <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto;">
+          <div style="text-align: center; margin-bottom: 30px;">
+            <h1 style="color: #4F46E5;">Video Game Wingman</h1>
+          </div>
+          
+          <div style="background-color: #fff3cd; border: 1px solid #ffc107; padding: 20px; border-radius: 8px; margin-bottom: 20px;">
+            <h2 style="color: #856404; margin-top: 0;">⚠️ Account Security Alert</h2>
+            <p style="color: #856404; margin-bottom: 0;"><strong>We noticed a sign-in to your account that looks different from usual.</strong></p>
+          </div>
+          
+          <div style="background-color: #f8f9fa; padding: 20px; border-radius: 8px; margin-bottom: 20px;">
+            <p>Hello ${username},</p>
+            <p><strong>When:</strong> ${when}<br>
+               <strong>Device:</strong> ${login.device}<br>
+               <strong>Location:</strong> ${where}<br>
+               <strong>IP address:</strong> ${login.ipAddress}</p>
+            <p>Why we're letting you know:</p>
+            <ul>${reasonItems}</ul>
+            <p>If this was you, you can ignore this email. If it wasn't, click below to sign that device out and reset your password:</p>
+            
+            <div style="text-align: center; margin: 30px 0;">
+              <a href="${reportUrl}" 
+                 style="background-color: #dc2626; color: white; padding: 12px 24px; text-decoration: none; border-radius: 6px; display: inline-block;">
+                This Wasn't Me
+              </a>
+            </div>
+            
+            <p style="font-size: 14px; color: #666;">
+              If the button doesn't work, copy and paste this link into your browser:<br>
+              <a href="${reportUrl}" style="color: #4F46E5;">${reportUrl}</a>
+            </p>
+          </div>
+          
+          <div style="font-size: 12px; color: #666; text-align: center;">
+            <p>This link expires in 7 days.</p>
+            <p>© 2024 Video Game Wingman. All rights reserved.</p>
+          </div>
+        </div>
+      `,
+      text: `
+        New Sign-In to Your Account - Video Game Wingman
+        
+        Hello ${username},
+        
+        We noticed a sign-in to your account that looks different from usual.
+        
+        When: ${when}
+        Device: ${login.device}
+        Location: ${where}
+        IP address: ${login.ipAddress}
+        
+        Why we're letting you know:
+        ${reasonText}
+        
+        If this was you, you can ignore this email. If it wasn't, open this link to sign that device out and reset your password: ${reportUrl}
+        
+        This link expires in 7 days.
+        
+        © 2024 Video Game Wingman. All rights reserved.
+      `
+    });
+
+    if (error) {
+      console.error('Error sending suspicious login email:', error);
+      return false;
+    }
+
+    console.log(`Suspicious login email sent to ${email}`);
+    return true;
+  } catch (error) {
+    console.error('Error sending suspicious login email:', error);
+    return false;
+  }
+};
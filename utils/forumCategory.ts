@@ -1,6 +1,6 @@
 export type ForumCategory = 'speedruns' | 'gameplay' | 'mods' | 'general' | 'help';
 
-const CANONICAL: ForumCategory[] = ['speedruns', 'gameplay', 'mods', 'general', 'help'];
+export const FORUM_CATEGORIES: ForumCategory[] = ['speedruns', 'gameplay', 'mods', 'general', 'help'];
 
 /**
  * Normalize forum category into one of the canonical values used in DB.
@@ -17,7 +17,7 @@ export function normalizeForumCategory(input: string | undefined | null): ForumC
   if (raw === 'gameplay' || raw.includes('gameplay')) return 'gameplay';
 
   // If it already matches a canonical value, use it.
-  if (CANONICAL.includes(raw as ForumCategory)) return raw as ForumCategory;
+  if (FORUM_CATEGORIES.includes(raw as ForumCategory)) return raw as ForumCategory;
   return 'general';
 }
 
@@ -0,0 +1,202 @@
+/**
+ * Forum moderation: reports, moderator permissions and moderator actions
+ *
+ * Staff with the moderate_forums permission moderate every forum. Creators of private forums
+ * moderate their own forums, except for warnings - those go through the site-wide violation
+ * system (utils/violationHandler.ts) and can lead to bans, so only staff can issue them.
+ *
+ * Every action is written to ForumModerationLog and closes the open reports it answers.
+ * Callers are responsible for connecting to the database.
+ */
+import mongoose from 'mongoose';
+import Forum from '../models/Forum';
+import ForumPost from '../models/ForumPost';
+import ContentReport from '../models/ContentReport';
+import ForumModerationLog, { ForumModerationAction } from '../models/ForumModerationLog';
+import User from '../models/User';
+import { hasAdminAccess, ADMIN_ACCESS_LEVELS } from './adminAccess';
+import { handleContentViolation } from './violationHandler';
+import { FORUM_CATEGORIES, ForumCategory } from './forumCategory';
+import { HttpError } from './httpError';
+
+export type ForumModeratorRole = 'staff' | 'forum_owner';
+
+// Actions that take a post (the rest act on the forum itself)
+export const POST_ACTIONS: ForumModerationAction[] = ['hide_post', 'restore_post', 'pin_post', 'unpin_post', 'warn_author'];
+
+// Actions only staff can take
+const STAFF_ONLY_ACTIONS: ForumModerationAction[] = ['warn_author'];
+
+// Actions that deal with reported content; the rest leave reports open
+const RESOLVING_ACTIONS: ForumModerationAction[] = ['hide_post', 'lock_forum', 'move_forum', 'warn_author'];
+
+export interface ForumModerationInput {
+  action: ForumModerationAction;
+  forumId: string;
+  postId?: string;
+  reason?: string;
+  category?: string; // move_forum
+}
+
+/**
+ * How a user may moderate a forum: as staff, as the private forum's creator, or not at all
+ */
+export async function getForumModeratorRole(
+  username: string,
+  forum: { isPrivate?: boolean; createdBy?: string }
+): Promise<ForumModeratorRole | null> {
+  if (await hasAdminAccess(username, ADMIN_ACCESS_LEVELS.MODERATE_FORUMS)) {
+    return 'staff';
+  }
+  if (forum.isPrivate && forum.createdBy === username) {
+    return 'forum_owner';
+  }
+  return null;
+}
+
+/**
+ * Forums a user moderates: null for staff (all forums), otherwise the private forums they created
+ */
+export async function getModeratedForumIds(username: string): Promise<string[] | null> {
+  if (await hasAdminAccess(username, ADMIN_ACCESS_LEVELS.MODERATE_FORUMS)) {
+    return null;
+  }
+  const forums = await Forum.find({ isPrivate: true, createdBy: username }).select('forumId').lean() as any[];
+  return forums.map(forum => forum.forumId);
+}
+
+/**
+ * Whether a user can see a forum (public, or on a private forum's allowed list)
+ */
+export function canViewForum(username: string, forum: { isPrivate?: boolean; allowedUsers?: string[]; createdBy?: string }): boolean {
+  return !forum.isPrivate || forum.createdBy === username || (forum.allowedUsers || []).includes(username);
+}
+
+/**
+ * Close the open reports for a forum or one of its posts
+ * @returns Number of reports closed
+ */
+async function closeReports(
+  target: { forumId: string; postId?: string },
+  status: 'resolved' | 'dismissed',
+  resolvedBy: string,
+  resolution: string
+): Promise<number> {
+  const filter = target.postId
+    ? { forumId: target.forumId, postId: target.postId, status: 'open' }
+    : { forumId: target.forumId, targetType: 'forum', status: 'open' };
+  const result = await ContentReport.updateMany(filter, {
+    $set: { status, resolvedBy, resolvedAt: new Date(), resolution }
+  });
+  return result.modifiedCount;
+}
+
+/**
+ * Carry out a moderator action and record it in the audit log
+ * @throws HttpError with statusCode 400 for invalid input, 403 if the user can't take the action,
+ *         404 if the forum or post doesn't exist
+ */
+export async function applyForumModerationAction(username: string, input: ForumModerationInput) {
+  const { action, forumId, postId, reason } = input;
+
+  const forum = await Forum.findOne({ forumId });
+  if (!forum) {
+    throw new HttpError('Forum not found', 404);
+  }
+
+  const role = await getForumModeratorRole(username, forum);
+  if (!role) {
+    throw new HttpError('Only moderators and the creators of private forums can moderate this forum', 403);
+  }
+  if (role !== 'staff' && STAFF_ONLY_ACTIONS.includes(action)) {
+    throw new HttpError('Only staff moderators can take this action', 403);
+  }
+
+  let post: any = null;
+  if (POST_ACTIONS.includes(action) || (action === 'dismiss_reports' && postId)) {
+    if (!postId || !mongoose.Types.ObjectId.isValid(postId)) {
+      throw new HttpError('A valid postId is required for this action', 400);
+    }
+    post = await ForumPost.findOne({ _id: postId, forumId });
+    if (!post || post.metadata?.status === 'deleted') {
+      throw new HttpError('Post not found', 404);
+    }
+  }
+
+  const now = new Date();
+  const details: Record<string, any> = {};
+  const targetUsername: string | undefined = post ? post.username : forum.createdBy;
+
+  switch (action) {
+    case 'hide_post':
+    case 'restore_post':
+      post.metadata.status = action === 'hide_post' ? 'hidden' : 'active';
+      post.metadata.moderatedAt = now;
+      post.metadata.moderatedBy = username;
+      await post.save();
+      break;
+
+    case 'pin_post':
+    case 'unpin_post':
+      post.metadata.isPinned = action === 'pin_post';
+      post.metadata.pinnedAt = action === 'pin_post' ? now : undefined;
+      post.metadata.pinnedBy = action === 'pin_post' ? username : undefined;
+      await post.save();
+      break;
+
+    case 'lock_forum':
+    case 'unlock_forum':
+      await Forum.updateOne(
+        { forumId },
+        action === 'lock_forum'
+          ? { $set: { isLocked: true, lockedAt: now, lockedBy: username } }
+          : { $set: { isLocked: false }, $unset: { lockedAt: '', lockedBy: '' } }
+      );
+      break;
+
+    case 'move_forum': {
+      const category = input.category as ForumCategory;
+      if (!FORUM_CATEGORIES.includes(category)) {
+        throw new HttpError(`category must be one of: ${FORUM_CATEGORIES.join(', ')}`, 400);
+      }
+      details.fromCategory = forum.category;
+      details.toCategory = category;
+      await Forum.updateOne({ forumId }, { $set: { category, updatedAt: now } });
+      break;
+    }
+
+    case 'warn_author': {
+      if (!reason) {
+        throw new HttpError('A reason is required when warning an author', 400);
+      }
+      const author = await User.findOne({ username: post.username }).select('email').lean() as { email?: string } | null;
+      details.violationResult = await handleContentViolation(
+        post.username,
+        [`[Moderator warning: ${reason}]`],
+        author?.email,
+        post.message
+      );
+      break;
+    }
+  }
+
+  const resolvedReports = action === 'dismiss_reports'
+    ? await closeReports({ forumId, postId: post ? postId : undefined }, 'dismissed', username, action)
+    : RESOLVING_ACTIONS.includes(action)
+      ? await closeReports({ forumId, postId: post ? postId : undefined }, 'resolved', username, action)
+      : 0;
+
+  const log = await ForumModerationLog.create({
+    action,
+    forumId,
+    postId: post ? postId : undefined,
+    targetUsername,
+    performedBy: username,
+    performedAs: role,
+    reason,
+    details: Object.keys(details).length > 0 ? details : undefined,
+    resolvedReports
+  });
+
+  return { log, role, details };
+}
@@ -0,0 +1,261 @@
+/**
+ * Forum post helpers
+ *
+ * Posts live in their own collection (models/ForumPost.ts) and are read a page at a time.
+ * Pages are ordered oldest-first by (timestamp, _id) so replies always come after the post
+ * they answer; the cursor is an opaque token for the last post of the previous page.
+ *
+ * Likes and reactions are toggled with single conditional updates, so concurrent clicks
+ * can't lose each other's changes the way read-modify-write on the forum document could.
+ */
+import mongoose from 'mongoose';
+import ForumPost from '../models/ForumPost';
+
+export const DEFAULT_POSTS_PAGE_SIZE = 50;
+// Posts with these statuses aren't shown in threads (hidden = removed by a moderator)
+const HIDDEN_POST_STATUSES = ['deleted', 'hidden'];
+export const MAX_POSTS_PAGE_SIZE = 200;
+
+export interface ForumPostsPage {
+  posts: SerializedForumPost[];
+  nextCursor: string | null;
+  hasMore: boolean;
+}
+
+export interface SerializedForumPost {
+  _id: string;
+  forumId: string;
+  username: string;
+  message: string;
+  timestamp: string;
+  createdBy: string;
+  replyTo: string | null;
+  metadata: {
+    edited: boolean;
+    editedAt?: string;
+    editedBy?: string;
+    likes: number;
+    likedBy: string[];
+    reactions: Record<string, string[]>;
+    attachments: Array<{ type: 'image' | 'link' | 'file'; url: string; name?: string }>;
+    status: 'active' | 'hidden' | 'deleted';
+    isPinned: boolean;
+  };
+}
+
+/**
+ * Encode the position of a post as a page cursor
+ */
+export function encodePostCursor(post: { timestamp: Date | string; _id: any }): string {
+  return Buffer.from(`${new Date(post.timestamp).getTime()}_${String(post._id)}`).toString('base64url');
+}
+
+/**
+ * Decode a page cursor; returns null for malformed cursors
+ */
+export function decodePostCursor(cursor: string): { timestamp: Date; id: mongoose.Types.ObjectId } | null {
+  try {
+    const [time, id] = Buffer.from(cursor, 'base64url').toString('utf8').split('_');
+    const timestamp = new Date(Number(time));
+    if (!id || isNaN(timestamp.getTime()) || !mongoose.Types.ObjectId.isValid(id)) {
+      return null;
+    }
+    return { timestamp, id: new mongoose.Types.ObjectId(id) };
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Convert a post document (or lean object) into the JSON shape the client expects
+ */
+export function serializeForumPost(post: any): SerializedForumPost {
+  const metadata = post.metadata || {};
+  return {
+    _id: String(post._id),
+    forumId: String(post.forumId || ''),
+    // Some old posts only have createdBy
+    username: String(post.username || post.createdBy || 'Unknown'),
+    message: String(post.message || ''),
+    timestamp: post.timestamp ? new Date(post.timestamp).toISOString() : new Date().toISOString(),
+    createdBy: String(post.createdBy || post.username || ''),
+    replyTo: post.replyTo ? String(post.replyTo) : null,
+    metadata: {
+      edited: Boolean(metadata.edited),
+      ...(metadata.editedAt && { editedAt: new Date(metadata.editedAt).toISOString() }),
+      ...(metadata.editedBy && { editedBy: metadata.editedBy }),
+      likes: Number(metadata.likes || 0),
+      likedBy: Array.isArray(metadata.likedBy) ? metadata.likedBy : [],
+      reactions: metadata.reactions || {},
+      attachments: Array.isArray(metadata.attachments) ? metadata.attachments : [],
+      status: metadata.status || 'active',
+      isPinned: Boolean(metadata.isPinned)
+    }
+  };
+}
+
+/**
+ * Read one page of a forum's posts, oldest first
+ * @param forumId - Forum.forumId
+ * @param options.cursor - Cursor from the previous page's nextCursor
+ * @param options.limit - Page size (capped at MAX_POSTS_PAGE_SIZE)
+ * @throws Error with statusCode 400 for an invalid cursor
+ */
+export async function getForumPostsPage(
+  forumId: string,
+  options: { cursor?: string | null; limit?: number } = {}
+): Promise<ForumPostsPage> {
+  const limit = Math.min(MAX_POSTS_PAGE_SIZE, Math.max(1, options.limit || DEFAULT_POSTS_PAGE_SIZE));
+  const query: any = { forumId, 'metadata.status': { $nin: HIDDEN_POST_STATUSES } };
+
+  if (options.cursor) {
+    const position = decodePostCursor(options.cursor);
+    if (!position) {
+      const error = new Error('Invalid cursor');
+      (error as any).statusCode = 400;
+      throw error;
+    }
+    query.$or = [
+      { timestamp: { $gt: position.timestamp } },
+      { timestamp: position.timestamp, _id: { $gt: position.id } }
+    ];
+  }
+
+  // Fetch one extra post to know whether another page exists
+  const posts = await ForumPost.find(query)
+    .sort({ timestamp: 1, _id: 1 })
+    .limit(limit + 1)
+    .lean();
+
+  const hasMore = posts.length > limit;
+  const page = hasMore ? posts.slice(0, limit) : posts;
+
+  return {
+    posts: page.map(serializeForumPost),
+    nextCursor: hasMore ? encodePostCursor(page[page.length - 1] as any) : null,
+    hasMore
+  };
+}
+
+/**
+ * Toggle a user's like on a post
+ * @returns The updated post and whether the like was added (false = removed), or null if the post doesn't exist
+ */
+export async function togglePostLike(
+  forumId: string,
+  postId: string,
+  username: string
+): Promise<{ post: any; added: boolean } | null> {
+  // Like only if not already liked; the filter makes the check and the write one operation
+  const liked = await ForumPost.findOneAndUpdate(
+    { _id: postId, forumId, 'metadata.likedBy': { $ne: username } },
+    { $push: { 'metadata.likedBy': username }, $inc: { 'metadata.likes': 1 } },
+    { new: true }
+  ).lean();
+  if (liked) {
+    return { post: liked, added: true };
+  }
+
+  const unliked = await ForumPost.findOneAndUpdate(
+    { _id: postId, forumId, 'metadata.likedBy': username },
+    { $pull: { 'metadata.likedBy': username }, $inc: { 'metadata.likes': -1 } },
+    { new: true }
+  ).lean();
+  return unliked ? { post: unliked, added: false } : null;
+}
+
+/**
+ * Toggle a user's reaction on a post
+ * @param reaction - Emoji; callers must validate it against their allowed list
+ * @returns The updated post and whether the reaction was added (false = removed), or null if the post doesn't exist
+ */
+export async function togglePostReaction(
+  forumId: string,
+  postId: string,
+  username: string,
+  reaction: string
+): Promise<{ post: any; added: boolean } | null> {
+  const path = `metadata.reactions.${reaction}`;
+
+  const reacted = await ForumPost.findOneAndUpdate(
+    { _id: postId, forumId, [path]: { $ne: username } },
+    { $addToSet: { [path]: username } },
+    { new: true }
+  ).lean();
+  if (reacted) {
+    return { post: reacted, added: true };
+  }
+
+  const unreacted = await ForumPost.findOneAndUpdate(
+    { _id: postId, forumId, [path]: username },
+    { $pull: { [path]: username } },
+    { new: true }
+  ).lean() as any;
+  if (!unreacted) {
+    return null;
+  }
+
+  // Drop the emoji once nobody is left on it (only if still empty - someone may have just reacted)
+  if (Array.isArray(unreacted.metadata?.reactions?.[reaction]) && unreacted.metadata.reactions[reaction].length === 0) {
+    await ForumPost.updateOne({ _id: postId, [path]: { $size: 0 } }, { $unset: { [path]: '' } });
+    delete unreacted.metadata.reactions[reaction];
+  }
+
+  return { post: unreacted, added: false };
+}
+
+/**
+ * Load posts for a set of forums, grouped by forumId
+ * For server-side jobs (automated users) that still think in terms of a forum and its posts.
+ * @param options.since - Only posts at or after this time
+ * @param options.limitPerForum - Keep only the most recent N posts of each forum (without it every
+ *   matching post is loaded, which only maintenance scripts should need)
+ */
+export async function getPostsByForum(
+  forumIds: string[],
+  options: { since?: Date; limitPerForum?: number } = {}
+): Promise<Map<string, any[]>> {
+  const grouped = new Map<string, any[]>();
+  if (forumIds.length === 0) {
+    return grouped;
+  }
+
+  const query: any = { forumId: { $in: forumIds }, 'metadata.status': { $nin: HIDDEN_POST_STATUSES } };
+  if (options.since) {
+    query.timestamp = { $gte: options.since };
+  }
+
+  if (options.limitPerForum) {
+    // One bounded query per forum (newest first, on the forumId/timestamp index), so a busy forum
+    // is never loaded whole
+    const limit = options.limitPerForum;
+    const perForum = await Promise.all(forumIds.map(forumId =>
+      ForumPost.find({ ...query, forumId }).sort({ timestamp: -1, _id: -1 }).limit(limit).lean()
+    ));
+    forumIds.forEach((forumId, index) => {
+      if (perForum[index].length > 0) {
+        grouped.set(forumId, (perForum[index] as any[]).reverse());
+      }
+    });
+    return grouped;
+  }
+
+  const posts = await ForumPost.find(query).sort({ timestamp: 1, _id: 1 }).lean();
+  for (const post of posts as any[]) {
+    const list = grouped.get(post.forumId) || [];
+    list.push(post);
+    grouped.set(post.forumId, list);
+  }
+
+  return grouped;
+}
+
+/**
+ * Pinned posts of a forum, most recently pinned first
+ */
+export async function getPinnedPosts(forumId: string): Promise<SerializedForumPost[]> {
+  const posts = await ForumPost.find({ forumId, 'metadata.isPinned': true, 'metadata.status': 'active' })
+    .sort({ 'metadata.pinnedAt': -1 })
+    .lean();
+  return posts.map(serializeForumPost);
+}
@@ -21,6 +21,7 @@ let cachedCatalog: Map<string, GameCatalogEntry> | null = null;
 let cachedLegacyTitleToGenres: Map<string, Set<string>> | null = null;
 let cachedLegacySingle: Set<string> | null = null;
 let cachedLegacyMulti: Set<string> | null = null;
+let cachedLegacyDisplayTitles: Map<string, string> | null = null;
 
 /**
  * Normalize game title for consistent comparison
@@ -70,7 +71,7 @@ function loadCatalogIfPresent(): Map<string, GameCatalogEntry> | null {
 }
 
 function loadLegacyIndexes(): void {
-  if (cachedLegacyTitleToGenres && cachedLegacySingle && cachedLegacyMulti) return;
+  if (cachedLegacyTitleToGenres && cachedLegacySingle && cachedLegacyMulti && cachedLegacyDisplayTitles) return;
 
   const singlePath = path.join(process.cwd(), 'data', 'automated-users', 'single-player.json');
   const multiPath = path.join(process.cwd(), 'data', 'automated-users', 'multiplayer.json');
@@ -81,12 +82,14 @@ function loadLegacyIndexes(): void {
   const titleToGenres = new Map<string, Set<string>>();
   const singleSet = new Set<string>();
   const multiSet = new Set<string>();
+  const displayTitles = new Map<string, string>();
 
   for (const [genre, games] of Object.entries(single)) {
     for (const title of games || []) {
       const key = normalizeTitle(title);
       if (!key) continue;
       singleSet.add(key);
+      if (!displayTitles.has(key)) displayTitles.set(key, title);
       const set = titleToGenres.get(key) || new Set<string>();
       set.add(genre);
       titleToGenres.set(key, set);
@@ -98,6 +101,7 @@ function loadLegacyIndexes(): void {
       const key = normalizeTitle(title);
       if (!key) continue;
       multiSet.add(key);
+      if (!displayTitles.has(key)) displayTitles.set(key, title);
       const set = titleToGenres.get(key) || new Set<string>();
       set.add(genre);
       titleToGenres.set(key, set);
@@ -107,6 +111,7 @@ function loadLegacyIndexes(): void {
   cachedLegacyTitleToGenres = titleToGenres;
   cachedLegacySingle = singleSet;
   cachedLegacyMulti = multiSet;
+  cachedLegacyDisplayTitles = displayTitles;
 }
 
 function ensureLoaded(): void {
@@ -170,3 +175,56 @@ export function getGameModeProfile(gameTitle: string): GameModeProfile {
   return 'unknown';
 }
 
+/**
+ * All known game titles (display casing), for pickers and autocomplete
+ */
+function getAllGameTitles(): string[] {
+  ensureLoaded();
+  if (cachedCatalog) {
+    return Array.from(cachedCatalog.values()).map(entry => entry.title);
+  }
+  return Array.from(cachedLegacyDisplayTitles?.values() || []);
+}
+
+/**
+ * Find game titles matching a partial query (for autocomplete)
+ * Titles starting with the query come first, then titles containing it.
+ */
+export function searchGameTitles(query: string, limit: number = 25): string[] {
+  const titles = getAllGameTitles();
+  const needle = normalizeTitle(query);
+  if (!needle) {
+    return titles.slice().sort((a, b) => a.localeCompare(b)).slice(0, limit);
+  }
+
+  const prefixMatches: string[] = [];
+  const otherMatches: string[] = [];
+  for (const title of titles) {
+    const key = normalizeTitle(title);
+    if (key.startsWith(needle)) prefixMatches.push(title);
+    else if (key.includes(needle)) otherMatches.push(title);
+  }
+
+  const byTitle = (a: string, b: string) => a.localeCompare(b);
+  return prefixMatches.sort(byTitle).concat(otherMatches.sort(byTitle)).slice(0, limit);
+}
+
+/**
+ * Games sharing the most genres with the given game, best match first
+ */
+export function getSimilarGames(gameTitle: string, limit: number = 5): string[] {
+  const key = normalizeTitle(gameTitle);
+  const genres = new Set(getAllGenresForGame(gameTitle));
+  if (!key || genres.size === 0) return [];
+
+  return getAllGameTitles()
+    .filter(title => normalizeTitle(title) !== key)
+    .map(title => ({
+      title,
+      shared: getAllGenresForGame(title).filter(genre => genres.has(genre)).length,
+    }))
+    .filter(({ shared }) => shared > 0)
+    .sort((a, b) => b.shared - a.shared || a.title.localeCompare(b.title))
+    .slice(0, limit)
+    .map(({ title }) => title);
+}
@@ -11,6 +11,7 @@ import {
   getPersonalizedStrategyTip,
   TemplateContext
 } from './aiHelper';
+import { getLLMProvider } from './llm/provider';
 
 
 /**
@@ -1719,10 +1720,7 @@ async function determineAchievementsWithAI(
   specificPlatform?: string
 ): Promise<boolean> {
   try {
-    const OpenAI = (await import('openai')).default;
-    const openai = new OpenAI({
-      apiKey: process.env.OPENAI_API_KEY,
-    });
+    const provider = getLLMProvider();
 
     const platformInfo = platforms && platforms.length > 0
       ? `Available platforms: ${platforms.join(', ')}. `
@@ -1752,8 +1750,8 @@ ${specificPlatform ? `Focus on whether this game has achievements SPECIFICALLY o
 
 Respond with ONLY "YES" or "NO" - nothing else.`;
 
-    const completion = await openai.chat.completions.create({
-      model: 'gpt-4o-search-preview',
+    const completion = await provider.chat({
+      model: provider.models.default,
       messages: [
         {
           role: 'system',
@@ -1764,11 +1762,10 @@ Respond with ONLY "YES" or "NO" - nothing else.`;
           content: prompt
         }
       ],
-      max_tokens: 10,
-      // Note: gpt-4o-search-preview doesn't support temperature parameter
+      maxTokens: 10,
     });
 
-    const response = completion.choices[0].message.content?.trim().toUpperCase();
+    const response = completion.content?.trim().toUpperCase();
     return response === 'YES';
   } catch (error) {
     console.error(`[hasAchievements] Error using OpenAI for "${gameTitle}":`, error);
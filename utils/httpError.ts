@@ -0,0 +1,13 @@
+/**
+ * An error API routes can pass on to the client: their catch blocks respond with
+ * error.statusCode and error.message, and treat anything without a statusCode as a 500
+ */
+export class HttpError extends Error {
+  readonly statusCode: number;
+
+  constructor(message: string, statusCode: number) {
+    super(message);
+    this.name = 'HttpError';
+    this.statusCode = statusCode;
+  }
+}
@@ -4,7 +4,7 @@
  * Phase 2: AI-powered extraction with GPT
  */
 
-import { getOpenAIClient } from './aiHelper';
+import { getLLMProvider } from './llm/provider';
 
 /**
  * Extracted keywords structure
@@ -31,8 +31,8 @@ export async function extractKeywordsFromPost(
   forumCategory?: string
 ): Promise<ExtractedKeywords> {
   try {
-    // Get OpenAI client
-    const openai = getOpenAIClient();
+    // Get the configured LLM provider
+    const provider = getLLMProvider();
     
     const prompt = `Extract the following from this forum post about "${gameTitle}":
 1. Character names mentioned (proper nouns, capitalized names)
@@ -54,8 +54,8 @@ Return ONLY a valid JSON object with this exact structure:
 
 Do not include the game title in any arrays. Only extract specific names, places, items, and topics mentioned in the post. If a category has no matches, return an empty array.`;
 
-    const completion = await openai.chat.completions.create({
-      model: 'gpt-4o',
+    const completion = await provider.chat({
+      model: provider.models.utility,
       messages: [
         {
           role: 'system',
@@ -66,11 +66,11 @@ Do not include the game title in any arrays. Only extract specific names, places
           content: prompt
         }
       ],
-      max_tokens: 300,
+      maxTokens: 300,
       temperature: 0.3, // Lower temperature for more consistent extraction
     });
 
-    const responseText = completion.choices[0].message.content?.trim() || '{}';
+    const responseText = completion.content?.trim() || '{}';
     
     // Try to parse JSON (handle cases where AI adds markdown code blocks)
     let parsed: any;
@@ -5,9 +5,16 @@ import crypto from 'crypto';
 const JWT_SECRET = process.env.JWT_SECRET || crypto.randomBytes(64).toString('hex');
 const JWT_REFRESH_SECRET = process.env.JWT_REFRESH_SECRET || crypto.randomBytes(64).toString('hex');
 
+// Two-factor challenge tokens get their own key so they can never pass as access tokens
+const TWO_FACTOR_CHALLENGE_SECRET = crypto
+  .createHash('sha256')
+  .update(`${JWT_SECRET}:two-factor-challenge`)
+  .digest('hex');
+
 // Token expiration times
 export const ACCESS_TOKEN_EXPIRY = '15m'; // 15 minutes
 export const REFRESH_TOKEN_EXPIRY = '7d'; // 7 days
+export const TWO_FACTOR_CHALLENGE_EXPIRY = '5m'; // 5 minutes to enter the code
 
 // Token payload interface
 export interface TokenPayload {
@@ -144,6 +151,49 @@ export const verifyRefreshToken = async (token: string): Promise<TokenPayload> =
   }
 };
 
+/**
+ * Generate a two-factor challenge token
+ * Issued by signin after the password check; exchanged for a session at /api/auth/2fa/verify
+ */
+export const generateTwoFactorChallengeToken = (payload: { userId: string; username: string }): string => {
+  return jwt.sign(
+    {
+      userId: payload.userId,
+      username: payload.username,
+      type: 'two_factor_challenge',
+    },
+    TWO_FACTOR_CHALLENGE_SECRET,
+    {
+      expiresIn: TWO_FACTOR_CHALLENGE_EXPIRY,
+      issuer: 'videogamewingman',
+      audience: 'videogamewingman-2fa',
+    }
+  );
+};
+
+/**
+ * Verify a two-factor challenge token
+ */
+export const verifyTwoFactorChallengeToken = (token: string): { userId: string; username: string } => {
+  try {
+    const decoded = jwt.verify(token, TWO_FACTOR_CHALLENGE_SECRET, {
+      issuer: 'videogamewingman',
+      audience: 'videogamewingman-2fa',
+    }) as { userId: string; username: string; type?: string };
+
+    if (decoded.type !== 'two_factor_challenge') {
+      throw new Error('Invalid token type');
+    }
+
+    return { userId: decoded.userId, username: decoded.username };
+  } catch (error) {
+    if (error instanceof jwt.TokenExpiredError) {
+      throw new Error('Two-factor challenge expired');
+    }
+    throw new Error('Invalid two-factor challenge');
+  }
+};
+
 /**
  * Extract token from Authorization header
  */
@@ -0,0 +1,585 @@
+/**
+ * Leaderboard queries
+ *
+ * Shared by the leaderboard API and the Discord /leaderboard command.
+ * Results are cached per (type, timeframe, genre, limit) in leaderboardCache.
+ */
+import Question from '../models/Question';
+import ForumPost from '../models/ForumPost';
+import User from '../models/User';
+import { leaderboardCache } from './leaderboardCache';
+import { LeaderboardType, Timeframe, LeaderboardEntry } from '../types';
+
+export const DEFAULT_LEADERBOARD_LIMIT = 10;
+export const MAX_LEADERBOARD_LIMIT = 100;
+const CACHE_TTL_SECONDS = 300; // 5 minutes
+
+export const LEADERBOARD_TYPES: LeaderboardType[] = [
+  'questions',
+  'achievements',
+  'forumPosts',
+  'contributors',
+  'genreSpecialists',
+];
+
+export const LEADERBOARD_TIMEFRAMES: Timeframe[] = ['weekly', 'monthly', 'allTime'];
+
+/**
+ * Map genre names to achievement names as stored in the database
+ * The detectedGenre field stores achievement names, not plain genre names
+ */
+const GENRE_TO_ACHIEVEMENT_MAP: Record<string, string> = {
+  'RPG': 'rpgEnthusiast',
+  'Action': 'actionAficionado',
+  'Adventure': 'adventureAddict',
+  'Strategy': 'strategySpecialist',
+  'Shooter': 'shooterSpecialist',
+  'Platformer': 'platformerPro',
+  'Puzzle': 'puzzlePro',
+  'Racing': 'racingRenegade',
+  'Sports': 'sportsChampion',
+  'Simulation': 'simulationSpecialist',
+  'Survival': 'survivalSpecialist',
+  'Battle Royale': 'battleRoyaleMaster',
+  'Stealth': 'stealthExpert',
+  'Horror': 'horrorHero',
+  'Fighting': 'fightingFanatic',
+  'Story': 'storySeeker',
+  'Beat Em Up': 'beatEmUpBrawler',
+  'Rhythm': 'rhythmMaster',
+  'Sandbox': 'sandboxBuilder',
+  'Shootem Up': 'shootemUpSniper',
+  'Roguelike': 'rogueRenegade',
+};
+
+/** Genres with a genre specialists leaderboard */
+export const LEADERBOARD_GENRES = Object.keys(GENRE_TO_ACHIEVEMENT_MAP);
+
+/**
+ * Get achievement name from genre name
+ */
+function getAchievementNameFromGenre(genre: string): string {
+  return GENRE_TO_ACHIEVEMENT_MAP[genre] || genre.toLowerCase().replace(/\s+/g, '');
+}
+
+/**
+ * Calculate date range based on timeframe
+ */
+function getDateRange(timeframe: Timeframe): { start: Date | null; end: Date | null } {
+  const now = new Date();
+  const end = new Date(now);
+  end.setHours(23, 59, 59, 999);
+
+  let start: Date | null = null;
+
+  switch (timeframe) {
+    case 'weekly':
+      start = new Date(now);
+      start.setDate(start.getDate() - 7);
+      start.setHours(0, 0, 0, 0);
+      break;
+    case 'monthly':
+      start = new Date(now);
+      start.setMonth(start.getMonth() - 1);
+      start.setHours(0, 0, 0, 0);
+      break;
+    case 'allTime':
+      start = null; // No start date means all time
+      break;
+  }
+
+  return { start, end };
+}
+
+/**
+ * Get questions leaderboard
+ */
+async function getQuestionsLeaderboard(
+  timeframe: Timeframe,
+  limit: number
+): Promise<LeaderboardEntry[]> {
+  const { start, end } = getDateRange(timeframe);
+
+  const matchStage: any = {};
+  if (start) {
+    matchStage.timestamp = { $gte: start };
+    if (end) {
+      matchStage.timestamp.$lte = end;
+    }
+  }
+
+  const pipeline: any[] = [{ $match: matchStage }];
+
+  pipeline.push({
+    $group: {
+      _id: '$username',
+      count: { $sum: 1 },
+    },
+  });
+
+  pipeline.push({
+    $sort: { count: -1 },
+  });
+
+  pipeline.push({
+    $limit: limit,
+  });
+
+  pipeline.push({
+    $project: {
+      _id: 0,
+      username: '$_id',
+      count: 1,
+    },
+  });
+
+  const results = await Question.aggregate(pipeline);
+
+  return results.map((entry, index) => ({
+    username: entry.username,
+    count: entry.count,
+    rank: index + 1,
+    metadata: {
+      questionCount: entry.count,
+    },
+  }));
+}
+
+/**
+ * Get achievements leaderboard
+ */
+async function getAchievementsLeaderboard(
+  timeframe: Timeframe,
+  limit: number
+): Promise<LeaderboardEntry[]> {
+  const { start, end } = getDateRange(timeframe);
+
+  const matchStage: any = {};
+  if (start) {
+    matchStage['achievements.dateEarned'] = { $gte: start };
+    if (end) {
+      matchStage['achievements.dateEarned'].$lte = end;
+    }
+  }
+
+  // Unwind achievements array and filter by date if needed
+  const pipeline: any[] = [
+    {
+      $unwind: '$achievements',
+    },
+  ];
+
+  if (start) {
+    pipeline.push({
+      $match: {
+        'achievements.dateEarned': {
+          $gte: start,
+          ...(end ? { $lte: end } : {}),
+        },
+      },
+    });
+  }
+
+  pipeline.push({
+    $group: {
+      _id: '$username',
+      count: { $sum: 1 },
+    },
+  });
+
+  pipeline.push({
+    $sort: { count: -1 },
+  });
+
+  pipeline.push({
+    $limit: limit,
+  });
+
+  pipeline.push({
+    $project: {
+      _id: 0,
+      username: '$_id',
+      count: 1,
+    },
+  });
+
+  const results = await User.aggregate(pipeline);
+
+  return results.map((entry, index) => ({
+    username: entry.username,
+    count: entry.count,
+    rank: index + 1,
+    metadata: {
+      achievementCount: entry.count,
+    },
+  }));
+}
+
+/**
+ * Get forum posts leaderboard
+ */
+async function getForumPostsLeaderboard(
+  timeframe: Timeframe,
+  limit: number
+): Promise<LeaderboardEntry[]> {
+  const { start, end } = getDateRange(timeframe);
+
+  const pipeline: any[] = [];
+
+  // Filter by timeframe and active status
+  const matchConditions: any = {
+    'metadata.status': { $ne: 'deleted' }, // Exclude deleted posts
+  };
+
+  if (start) {
+    matchConditions.timestamp = { $gte: start };
+    if (end) {
+      matchConditions.timestamp.$lte = end;
+    }
+  }
+
+  pipeline.push({
+    $match: matchConditions,
+  });
+
+  pipeline.push({
+    $group: {
+      _id: '$username',
+      count: { $sum: 1 },
+    },
+  });
+
+  pipeline.push({
+    $sort: { count: -1 },
+  });
+
+  pipeline.push({
+    $limit: limit,
+  });
+
+  pipeline.push({
+    $project: {
+      _id: 0,
+      username: '$_id',
+      count: 1,
+    },
+  });
+
+  const results = await ForumPost.aggregate(pipeline);
+
+  return results.map((entry, index) => ({
+    username: entry.username,
+    count: entry.count,
+    rank: index + 1,
+    metadata: {
+      forumPostCount: entry.count,
+    },
+  }));
+}
+
+/**
+ * Get top contributors (combines questions, achievements, and forum posts)
+ */
+async function getTopContributors(
+  timeframe: Timeframe,
+  limit: number
+): Promise<LeaderboardEntry[]> {
+  const { start, end } = getDateRange(timeframe);
+
+  // Get questions count
+  const questionsMatch: any = {};
+  if (start) {
+    questionsMatch.timestamp = { $gte: start };
+    if (end) {
+      questionsMatch.timestamp.$lte = end;
+    }
+  }
+
+  const questionsPipeline: any[] = [
+    { $match: questionsMatch },
+    {
+      $group: {
+        _id: '$username',
+        questionCount: { $sum: 1 },
+      },
+    },
+  ];
+
+  const questionsData = await Question.aggregate(questionsPipeline);
+  const questionsMap = new Map(
+    questionsData.map((item) => [item._id, item.questionCount])
+  );
+
+  // Get achievements count
+  const achievementsPipeline: any[] = [
+    { $unwind: '$achievements' },
+  ];
+
+  if (start) {
+    achievementsPipeline.push({
+      $match: {
+        'achievements.dateEarned': {
+          $gte: start,
+          ...(end ? { $lte: end } : {}),
+        },
+      },
+    });
+  }
+
+  achievementsPipeline.push({
+    $group: {
+      _id: '$username',
+      achievementCount: { $sum: 1 },
+    },
+  });
+
+  const achievementsData = await User.aggregate(achievementsPipeline);
+  const achievementsMap = new Map(
+    achievementsData.map((item) => [item._id, item.achievementCount])
+  );
+
+  // Get forum posts count
+  const forumPostsPipeline: any[] = [
+    {
+      $match: {
+        'metadata.status': { $ne: 'deleted' },
+        ...(start
+          ? {
+              timestamp: {
+                $gte: start,
+                ...(end ? { $lte: end } : {}),
+              },
+            }
+          : {}),
+      },
+    },
+    {
+      $group: {
+        _id: '$username',
+        forumPostCount: { $sum: 1 },
+      },
+    },
+  ];
+
+  const forumPostsData = await ForumPost.aggregate(forumPostsPipeline);
+  const forumPostsMap = new Map(
+    forumPostsData.map((item) => [item._id, item.forumPostCount])
+  );
+
+  // Combine all scores
+  const combinedScores = new Map<string, LeaderboardEntry>();
+
+  // Helper function to get or create entry with properly typed metadata
+  const getOrCreateEntry = (username: string): LeaderboardEntry => {
+    const existing = combinedScores.get(username);
+    if (existing) {
+      // Ensure metadata exists for existing entries
+      if (!existing.metadata) {
+        existing.metadata = {
+          questionCount: 0,
+          achievementCount: 0,
+          forumPostCount: 0,
+        };
+      }
+      return existing;
+    }
+    return {
+      username,
+      count: 0,
+      rank: 0,
+      metadata: {
+        questionCount: 0,
+        achievementCount: 0,
+        forumPostCount: 0,
+      },
+    };
+  };
+
+  // Add questions
+  questionsMap.forEach((count, username) => {
+    const entry = getOrCreateEntry(username);
+    entry.count += count;
+    // getOrCreateEntry ensures metadata exists, but TypeScript needs explicit check
+    if (entry.metadata) {
+      entry.metadata.questionCount = count;
+    }
+    combinedScores.set(username, entry);
+  });
+
+  // Add achievements
+  achievementsMap.forEach((count, username) => {
+    const entry = getOrCreateEntry(username);
+    entry.count += count;
+    // getOrCreateEntry ensures metadata exists, but TypeScript needs explicit check
+    if (entry.metadata) {
+      entry.metadata.achievementCount = count;
+    }
+    combinedScores.set(username, entry);
+  });
+
+  // Add forum posts
+  forumPostsMap.forEach((count, username) => {
+    const entry = getOrCreateEntry(username);
+    entry.count += count;
+    // getOrCreateEntry ensures metadata exists, but TypeScript needs explicit check
+    if (entry.metadata) {
+      entry.metadata.forumPostCount = count;
+    }
+    combinedScores.set(username, entry);
+  });
+
+  // Sort by total count and limit
+  const sortedEntries = Array.from(combinedScores.values())
+    .sort((a, b) => b.count - a.count)
+    .slice(0, limit)
+    .map((entry, index) => ({
+      ...entry,
+      rank: index + 1,
+    }));
+
+  return sortedEntries;
+}
+
+/**
+ * Get genre specialists leaderboard
+ */
+async function getGenreSpecialistsLeaderboard(
+  genre: string,
+  timeframe: Timeframe,
+  limit: number
+): Promise<LeaderboardEntry[]> {
+  const { start, end } = getDateRange(timeframe);
+
+  // Convert genre name to achievement name (as stored in database)
+  // The database stores achievement names like "adventureAddict", not "Adventure"
+  const achievementName = getAchievementNameFromGenre(genre);
+  
+  // detectedGenre is an array, so we need to check if the achievement name is in the array
+  // Try both the mapped achievement name and the original genre (for backwards compatibility)
+  const matchConditions: any[] = [
+    // Exact match with achievement name (most common case)
+    { detectedGenre: achievementName },
+    // Also try the original genre name (for backwards compatibility)
+    { detectedGenre: genre },
+    // Case-insensitive match for achievement name
+    {
+      detectedGenre: {
+        $elemMatch: {
+          $regex: new RegExp(`^${achievementName.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')}$`, 'i')
+        }
+      }
+    },
+    // Case-insensitive match for original genre name
+    {
+      detectedGenre: {
+        $elemMatch: {
+          $regex: new RegExp(`^${genre.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')}$`, 'i')
+        }
+      }
+    }
+  ];
+
+  const matchStage: any = {
+    $and: [
+      {
+        $or: matchConditions
+      }
+    ]
+  };
+
+  // Add timestamp filter if needed
+  if (start) {
+    matchStage.$and.push({
+      timestamp: { $gte: start, ...(end ? { $lte: end } : {}) }
+    });
+  }
+
+  // Also ensure detectedGenre exists and is not empty
+  matchStage.$and.push({
+    detectedGenre: { $exists: true, $ne: [], $not: { $size: 0 } }
+  });
+
+  const pipeline: any[] = [
+    { $match: matchStage },
+    // Debug: Uncomment to see what genres are being matched
+    // { $project: { username: 1, detectedGenre: 1, timestamp: 1 } },
+    {
+      $group: {
+        _id: '$username',
+        count: { $sum: 1 },
+      },
+    },
+    {
+      $sort: { count: -1 },
+    },
+    {
+      $limit: limit,
+    },
+    {
+      $project: {
+        _id: 0,
+        username: '$_id',
+        count: 1,
+      },
+    },
+  ];
+
+  const results = await Question.aggregate(pipeline);
+
+  return results.map((entry, index) => ({
+    username: entry.username,
+    count: entry.count,
+    rank: index + 1,
+    metadata: {
+      genre,
+      questionCount: entry.count,
+    },
+  }));
+}
+
+/**
+ * Get a leaderboard, from cache when possible
+ * @param genre - Required for genreSpecialists
+ * @throws Error with statusCode 400 when genreSpecialists is requested without a genre
+ */
+export async function getLeaderboard(
+  type: LeaderboardType,
+  timeframe: Timeframe,
+  limit: number = DEFAULT_LEADERBOARD_LIMIT,
+  genre?: string
+): Promise<{ entries: LeaderboardEntry[]; cached: boolean }> {
+  if (type === 'genreSpecialists' && !genre) {
+    const error = new Error('Genre parameter is required for genreSpecialists leaderboard');
+    (error as any).statusCode = 400;
+    throw error;
+  }
+
+  const cached = leaderboardCache.get<LeaderboardEntry[]>(type, timeframe, genre, limit);
+  if (cached) {
+    return { entries: cached, cached: true };
+  }
+
+  let entries: LeaderboardEntry[];
+  switch (type) {
+    case 'questions':
+      entries = await getQuestionsLeaderboard(timeframe, limit);
+      break;
+    case 'achievements':
+      entries = await getAchievementsLeaderboard(timeframe, limit);
+      break;
+    case 'forumPosts':
+      entries = await getForumPostsLeaderboard(timeframe, limit);
+      break;
+    case 'contributors':
+      entries = await getTopContributors(timeframe, limit);
+      break;
+    case 'genreSpecialists':
+      entries = await getGenreSpecialistsLeaderboard(genre!, timeframe, limit);
+      break;
+    default:
+      throw new Error('Invalid leaderboard type');
+  }
+
+  leaderboardCache.set(type, timeframe, entries, CACHE_TTL_SECONDS, genre, limit);
+  return { entries, cached: false };
+}
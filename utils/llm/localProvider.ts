@@ -0,0 +1,117 @@
+import type {
+  LLMProvider,
+  LLMModelTiers,
+  LLMMessage,
+  LLMCompletionRequest,
+  LLMCompletionResult,
+  LLMJSONResult
+} from './types';
+import { parseJSONContent } from './types';
+
+/**
+ * Local LLM Provider
+ *
+ * Deterministic, offline stand-in used with LLM_PROVIDER=local. The same messages always
+ * produce the same answer, so flows that call the AI (assistant, game title extraction,
+ * automated content) can be exercised without network access or API cost.
+ *
+ * Responses come from the first matching responder; anything unmatched gets a generic
+ * answer that echoes the question so it's obvious in the UI that no real model ran.
+ */
+
+export interface LocalResponder {
+  /** Tested against the system message and the last user message */
+  match: RegExp;
+  respond: (prompt: string) => string;
+}
+
+// Canned answers for prompts whose callers parse a specific format
+const DEFAULT_RESPONDERS: LocalResponder[] = [
+  // Game title extraction/identification expects a title or NONE/UNKNOWN
+  { match: /extract (only )?the (exact|specific) game title/i, respond: () => 'NONE' },
+  { match: /identify which video game this screenshot is from/i, respond: () => 'UNKNOWN' },
+  // Feature validation expects YES/NO/UNCERTAIN
+  { match: /only respond with "YES", "NO", or "UNCERTAIN"/i, respond: () => 'UNCERTAIN' },
+  // Recommendation filtering expects a JSON array of game names
+  { match: /return only valid json arrays/i, respond: () => '[]' }
+];
+
+const LOCAL_MODEL = process.env.LLM_LOCAL_MODEL || 'local-mock';
+
+const estimateTokens = (text: string) => Math.ceil(text.length / 4);
+
+const messageText = (message?: LLMMessage): string => {
+  if (!message) return '';
+  if (typeof message.content === 'string') return message.content;
+  return message.content
+    .map(part => (part.type === 'text' ? part.text : '[image]'))
+    .join(' ');
+};
+
+export class LocalLLMProvider implements LLMProvider {
+  readonly name = 'local';
+  readonly models: LLMModelTiers = {
+    default: LOCAL_MODEL,
+    recent: LOCAL_MODEL,
+    vision: LOCAL_MODEL,
+    utility: LOCAL_MODEL
+  };
+
+  private responders: LocalResponder[];
+
+  constructor(responders: LocalResponder[] = []) {
+    // Custom responders take precedence over the defaults
+    this.responders = [...responders, ...DEFAULT_RESPONDERS];
+  }
+
+  private generate(messages: LLMMessage[], fallback: (question: string) => string): string {
+    const systemText = messageText(messages.find(m => m.role === 'system'));
+    const userText = messageText([...messages].reverse().find(m => m.role === 'user'));
+
+    for (const responder of this.responders) {
+      if (responder.match.test(userText) || responder.match.test(systemText)) {
+        return responder.respond(userText);
+      }
+    }
+    return fallback(userText);
+  }
+
+  private async complete(request: LLMCompletionRequest, content: string): Promise<LLMCompletionResult> {
+    if (request.onDelta) {
+      // Stream word by word so streaming consumers behave as they would against a real model
+      for (const word of content.split(/(?<=\s)/)) {
+        request.onDelta(word);
+      }
+    }
+
+    const promptTokens = request.messages.reduce((sum, m) => sum + estimateTokens(messageText(m)), 0);
+    const completionTokens = estimateTokens(content);
+    return {
+      content,
+      model: this.models.default,
+      usage: { promptTokens, completionTokens, totalTokens: promptTokens + completionTokens }
+    };
+  }
+
+  async chat(request: LLMCompletionRequest): Promise<LLMCompletionResult> {
+    const content = this.generate(request.messages, question => {
+      const summary = question.replace(/\s+/g, ' ').trim().substring(0, 200);
+      return `[Local model] This is a placeholder answer generated without an AI service. You asked: "${summary}"`;
+    });
+    return this.complete(request, content);
+  }
+
+  async vision(request: LLMCompletionRequest): Promise<LLMCompletionResult> {
+    const content = this.generate(request.messages, question => {
+      const summary = question.replace(/\s+/g, ' ').trim().substring(0, 200);
+      return `[Local model] Screenshot received. This is a placeholder answer generated without an AI service. You asked: "${summary}"`;
+    });
+    return this.complete(request, content);
+  }
+
+  async json<T = any>(request: Omit<LLMCompletionRequest, 'onDelta'>): Promise<LLMJSONResult<T>> {
+    const content = this.generate(request.messages, () => '{}');
+    const result = await this.complete(request, content);
+    return { ...result, data: parseJSONContent<T>(content) };
+  }
+}
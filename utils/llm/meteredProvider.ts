@@ -0,0 +1,75 @@
+import type {
+  LLMProvider,
+  LLMModelTiers,
+  LLMMessage,
+  LLMCompletionRequest,
+  LLMCompletionResult,
+  LLMJSONResult
+} from './types';
+import { recordLLMUsage } from '../llmUsageLedger';
+
+/**
+ * Metered LLM Provider
+ *
+ * Wraps another provider and records every completed request in the usage ledger
+ * (utils/llmUsageLedger.ts). Failed requests aren't recorded since they aren't billed.
+ */
+
+// Rough token estimate for providers that don't report usage (~4 characters per token)
+const estimateTokens = (text: string) => Math.ceil(text.length / 4);
+
+const messagesText = (messages: LLMMessage[]) =>
+  messages
+    .map(message => (typeof message.content === 'string'
+      ? message.content
+      : message.content.map(part => (part.type === 'text' ? part.text : '')).join(' ')))
+    .join('\n');
+
+export class MeteredLLMProvider implements LLMProvider {
+  constructor(private readonly inner: LLMProvider) {}
+
+  get name(): string {
+    return this.inner.name;
+  }
+
+  get models(): LLMModelTiers {
+    return this.inner.models;
+  }
+
+  private async track<T extends LLMCompletionResult>(
+    requestType: 'chat' | 'vision' | 'json',
+    messages: LLMMessage[],
+    run: () => Promise<T>
+  ): Promise<T> {
+    const startTime = Date.now();
+    const result = await run();
+
+    let usage = result.usage;
+    if (!usage) {
+      const promptTokens = estimateTokens(messagesText(messages));
+      const completionTokens = estimateTokens(result.content || '');
+      usage = { promptTokens, completionTokens, totalTokens: promptTokens + completionTokens };
+    }
+
+    recordLLMUsage({
+      provider: this.inner.name,
+      model: result.model,
+      requestType,
+      usage,
+      durationMs: Date.now() - startTime
+    });
+    return result;
+  }
+
+  chat(request: LLMCompletionRequest): Promise<LLMCompletionResult> {
+    return this.track('chat', request.messages, () => this.inner.chat(request));
+  }
+
+  vision(request: LLMCompletionRequest): Promise<LLMCompletionResult> {
+    return this.track('vision', request.messages, () => this.inner.vision(request));
+  }
+
+  json<T = any>(request: Omit<LLMCompletionRequest, 'onDelta'>): Promise<LLMJSONResult<T>> {
+    return this.track('json', request.messages, () => this.inner.json<T>(request));
+  }
+}
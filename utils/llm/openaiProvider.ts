@@ -0,0 +1,167 @@
+import OpenAI from 'openai';
+import type {
+  LLMProvider,
+  LLMModelTiers,
+  LLMCompletionRequest,
+  LLMCompletionResult,
+  LLMJSONResult,
+  LLMUsage
+} from './types';
+import { parseJSONContent } from './types';
+
+/**
+ * OpenAI Provider
+ *
+ * Talks to the OpenAI API, or to any OpenAI-compatible server when OPENAI_BASE_URL is set
+ * (in which case OPENAI_API_KEY may be omitted). Model names can be overridden per tier
+ * with LLM_MODEL_DEFAULT, LLM_MODEL_RECENT, LLM_MODEL_VISION and LLM_MODEL_UTILITY.
+ */
+
+// Lazy initialization of OpenAI client to avoid errors on server startup
+// Only initializes when actually needed
+let openaiInstance: OpenAI | null = null;
+
+export function getOpenAIClient(): OpenAI {
+  if (!openaiInstance) {
+    const baseURL = process.env.OPENAI_BASE_URL || undefined;
+    const apiKey = process.env.OPENAI_API_KEY || (baseURL ? 'local' : undefined);
+    if (!apiKey) {
+      throw new Error('OPENAI_API_KEY environment variable is missing or empty. Please set it in your .env or .env.local file.');
+    }
+    openaiInstance = new OpenAI({
+      apiKey: apiKey,
+      baseURL,
+      timeout: 28000, // 28 seconds - slightly under application timeout of 30s to allow for processing overhead
+      maxRetries: 1, // Reduce retries to avoid compounding delays
+    });
+  }
+  return openaiInstance;
+}
+
+// Streamed completions keep the connection alive with deltas, so they can run past the 28s request timeout
+const STREAMING_REQUEST_TIMEOUT = 120000; // 2 minutes
+
+// Search-preview models reject sampling parameters, image inputs and response_format
+const isSearchModel = (model: string) => model.includes('search-preview');
+
+// Models known to accept image inputs
+const VISION_CAPABLE_MODELS = ['gpt-4o', 'gpt-4o-mini', 'gpt-5.2'];
+
+const toUsage = (usage?: OpenAI.CompletionUsage | null): LLMUsage | undefined =>
+  usage
+    ? {
+        promptTokens: usage.prompt_tokens,
+        completionTokens: usage.completion_tokens,
+        totalTokens: usage.total_tokens
+      }
+    : undefined;
+
+export class OpenAIProvider implements LLMProvider {
+  readonly name = 'openai';
+  readonly models: LLMModelTiers = {
+    default: process.env.LLM_MODEL_DEFAULT || 'gpt-4o-search-preview',
+    recent: process.env.LLM_MODEL_RECENT || 'gpt-5.2',
+    vision: process.env.LLM_MODEL_VISION || 'gpt-4o',
+    utility: process.env.LLM_MODEL_UTILITY || 'gpt-4o'
+  };
+
+  private buildParams(request: LLMCompletionRequest): OpenAI.Chat.ChatCompletionCreateParamsNonStreaming {
+    const params: OpenAI.Chat.ChatCompletionCreateParamsNonStreaming = {
+      model: request.model,
+      messages: request.messages as OpenAI.Chat.ChatCompletionMessageParam[],
+    };
+    if (request.maxTokens !== undefined) {
+      params.max_completion_tokens = request.maxTokens;
+    }
+    // Only include temperature for models that support it
+    if (request.temperature !== undefined && !isSearchModel(request.model)) {
+      params.temperature = request.temperature;
+    }
+    return params;
+  }
+
+  private async complete(request: LLMCompletionRequest): Promise<LLMCompletionResult> {
+    const params = this.buildParams(request);
+
+    if (!request.onDelta) {
+      const completion = await getOpenAIClient().chat.completions.create(params);
+      return {
+        content: completion.choices[0]?.message?.content ?? null,
+        model: request.model,
+        usage: toUsage(completion.usage)
+      };
+    }
+
+    const stream = await getOpenAIClient().chat.completions.create(
+      { ...params, stream: true, stream_options: { include_usage: true } },
+      { timeout: STREAMING_REQUEST_TIMEOUT }
+    );
+
+    let content = '';
+    let usage: LLMUsage | undefined;
+    for await (const chunk of stream) {
+      const delta = chunk.choices[0]?.delta?.content;
+      if (delta) {
+        content += delta;
+        request.onDelta(delta);
+      }
+      if (chunk.usage) {
+        usage = toUsage(chunk.usage);
+      }
+    }
+    return { content: content || null, model: request.model, usage };
+  }
+
+  async chat(request: LLMCompletionRequest): Promise<LLMCompletionResult> {
+    return this.complete(request);
+  }
+
+  async vision(request: LLMCompletionRequest): Promise<LLMCompletionResult> {
+    // For vision requests, we MUST use a model that supports images
+    let visionModel = request.model;
+    if (isSearchModel(visionModel) || !VISION_CAPABLE_MODELS.includes(visionModel)) {
+      visionModel = this.models.vision;
+      console.log(`[Model Selection] Overriding to ${visionModel} for vision request (${request.model} may not support images)`);
+    }
+
+    try {
+      return await this.complete({ ...request, model: visionModel });
+    } catch (apiError: any) {
+      // Rate limit errors on image inputs usually mean the model doesn't accept images
+      if (apiError?.status === 429 && apiError?.error?.type === 'input-images') {
+        console.error('[Vision API] Rate limit error for image inputs. Model may not support images:', visionModel);
+
+        if (visionModel !== this.models.vision) {
+          console.log(`[Vision API] Retrying with ${this.models.vision} fallback...`);
+          try {
+            return await this.complete({ ...request, model: this.models.vision, onDelta: undefined });
+          } catch (fallbackError) {
+            console.error('[Vision API] Fallback also failed:', fallbackError);
+            throw new Error('Unable to process image. The selected AI model does not support image inputs. Please try again or contact support if this persists.');
+          }
+        }
+        throw new Error('Rate limit exceeded for image processing. Please try again in a moment.');
+      }
+      throw apiError;
+    }
+  }
+
+  async json<T = any>(request: Omit<LLMCompletionRequest, 'onDelta'>): Promise<LLMJSONResult<T>> {
+    // Search-preview models don't support response_format, so JSON tasks run on the utility model
+    const model = isSearchModel(request.model) ? this.models.utility : request.model;
+    const params = this.buildParams({ ...request, model });
+
+    const completion = await getOpenAIClient().chat.completions.create({
+      ...params,
+      response_format: { type: 'json_object' }
+    });
+
+    const content = completion.choices[0]?.message?.content ?? null;
+    return {
+      content,
+      model,
+      usage: toUsage(completion.usage),
+      data: parseJSONContent<T>(content)
+    };
+  }
+}
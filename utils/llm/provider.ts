@@ -0,0 +1,54 @@
+/**
+ * LLM Provider Abstraction
+ *
+ * Every AI call in the app goes through an LLMProvider so the backing vendor can be
+ * swapped without touching the callers. Selection is controlled by LLM_PROVIDER:
+ * - "openai" (default): OpenAI API, or any OpenAI-compatible server via OPENAI_BASE_URL
+ * - "local": deterministic offline provider for local development and tests
+ *
+ * The active provider is wrapped in MeteredLLMProvider so every request lands in the usage ledger.
+ */
+import type { LLMProvider } from './types';
+import { OpenAIProvider } from './openaiProvider';
+import { LocalLLMProvider } from './localProvider';
+import { MeteredLLMProvider } from './meteredProvider';
+
+export type {
+  LLMProvider,
+  LLMMessage,
+  LLMContentPart,
+  LLMModelTiers,
+  LLMCompletionRequest,
+  LLMCompletionResult,
+  LLMJSONResult,
+  LLMUsage
+} from './types';
+export { parseJSONContent } from './types';
+
+let providerInstance: LLMProvider | null = null;
+
+/**
+ * Get the configured LLM provider (lazily created on first use)
+ */
+export function getLLMProvider(): LLMProvider {
+  if (!providerInstance) {
+    const providerName = (process.env.LLM_PROVIDER || 'openai').toLowerCase();
+
+    if (providerName === 'local' || providerName === 'mock') {
+      providerInstance = new MeteredLLMProvider(new LocalLLMProvider());
+    } else {
+      if (providerName !== 'openai') {
+        console.warn(`[LLM] Unknown LLM_PROVIDER "${providerName}", falling back to openai`);
+      }
+      providerInstance = new MeteredLLMProvider(new OpenAIProvider());
+    }
+  }
+  return providerInstance;
+}
+
+/**
+ * Override the active provider (e.g. to inject the local provider in scripts and tests)
+ */
+export function setLLMProvider(provider: LLMProvider | null): void {
+  providerInstance = provider ? new MeteredLLMProvider(provider) : null;
+}
@@ -0,0 +1,84 @@
+/**
+ * LLM Provider Types
+ *
+ * Shared interfaces implemented by the providers in this directory.
+ * See provider.ts for how the active provider is selected.
+ */
+
+/**
+ * Content part for multimodal (vision) messages
+ */
+export type LLMContentPart =
+  | { type: 'text'; text: string }
+  | { type: 'image_url'; image_url: { url: string } };
+
+export interface LLMMessage {
+  role: 'system' | 'user' | 'assistant';
+  content: string | LLMContentPart[];
+}
+
+/**
+ * Logical model tiers used by model selection
+ * Providers map each tier to one of their concrete model names
+ */
+export interface LLMModelTiers {
+  default: string; // General questions (web-search capable when the provider supports it)
+  recent: string; // Newer knowledge cutoff, used for games released after the default model's cutoff
+  vision: string; // Image-capable model
+  utility: string; // Cheap, reliable model for extraction and JSON tasks
+}
+
+export interface LLMCompletionRequest {
+  model: string;
+  messages: LLMMessage[];
+  maxTokens?: number;
+  temperature?: number;
+  /** When provided the completion is streamed and each content delta is forwarded */
+  onDelta?: (delta: string) => void;
+}
+
+export interface LLMUsage {
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+}
+
+export interface LLMCompletionResult {
+  content: string | null;
+  model: string; // Model that actually served the request (may differ after fallbacks)
+  usage?: LLMUsage;
+}
+
+export interface LLMJSONResult<T> extends LLMCompletionResult {
+  data: T | null; // Parsed JSON, or null if the response wasn't valid JSON
+}
+
+export interface LLMProvider {
+  readonly name: string;
+  readonly models: LLMModelTiers;
+  /** Text chat completion */
+  chat(request: LLMCompletionRequest): Promise<LLMCompletionResult>;
+  /** Chat completion whose messages may include image parts */
+  vision(request: LLMCompletionRequest): Promise<LLMCompletionResult>;
+  /** Completion constrained to a JSON object response */
+  json<T = any>(request: Omit<LLMCompletionRequest, 'onDelta'>): Promise<LLMJSONResult<T>>;
+}
+
+/**
+ * Parse a JSON object out of model output
+ * Tolerates surrounding text or code fences that some models add despite instructions
+ */
+export function parseJSONContent<T = any>(content: string | null): T | null {
+  if (!content) return null;
+  try {
+    return JSON.parse(content) as T;
+  } catch {
+    const jsonMatch = content.match(/\{[\s\S]*\}/);
+    if (!jsonMatch) return null;
+    try {
+      return JSON.parse(jsonMatch[0]) as T;
+    } catch {
+      return null;
+    }
+  }
+}
@@ -0,0 +1,140 @@
+import { AsyncLocalStorage } from 'async_hooks';
+import mongoose from 'mongoose';
+import LLMUsageRecord, { LLMUsageFeature } from '../models/LLMUsageRecord';
+import type { LLMUsage } from './llm/types';
+import { logger } from './logger';
+
+/**
+ * LLM Usage Ledger
+ *
+ * Persists prompt/completion tokens, model, estimated cost and cache hits for every LLM request
+ * (see models/LLMUsageRecord.ts). Requests are attributed to a user and feature through an
+ * async context, so callers deep inside aiHelper don't need extra parameters:
+ *
+ *   await runWithLLMUsageContext({ feature: 'twitch_bot', channel }, () => getChatCompletion(...));
+ *
+ * Provider calls are recorded by MeteredLLMProvider (utils/llm/meteredProvider.ts).
+ * Requests made outside any context are recorded with feature 'other'.
+ */
+
+export interface LLMUsageContext {
+  feature: LLMUsageFeature;
+  username?: string; // Video Game Wingman username
+  externalUserId?: string; // Twitch username or Discord user ID
+  channel?: string; // Twitch channel or Discord guild ID
+}
+
+export interface LLMUsageEntry {
+  provider: string;
+  model: string;
+  requestType: 'chat' | 'vision' | 'json';
+  usage?: LLMUsage;
+  cacheHit?: boolean;
+  durationMs?: number;
+}
+
+const usageContextStorage = new AsyncLocalStorage<LLMUsageContext>();
+
+/**
+ * Run a function with every LLM request inside it attributed to the given context
+ */
+export function runWithLLMUsageContext<T>(context: LLMUsageContext, fn: () => T): T {
+  // Copy so setLLMUsageUsername can't leak into the caller's object
+  return usageContextStorage.run({ ...context }, fn);
+}
+
+/**
+ * Get the usage context of the current request, if any
+ */
+export function getLLMUsageContext(): LLMUsageContext | undefined {
+  return usageContextStorage.getStore();
+}
+
+/**
+ * Attach a username to the current context once it is known (e.g. after authentication)
+ */
+export function setLLMUsageUsername(username: string): void {
+  const context = usageContextStorage.getStore();
+  if (context) {
+    context.username = username;
+  }
+}
+
+/**
+ * Model pricing in USD per 1M tokens
+ * Keep in sync with the provider's price list; unknown models are priced like gpt-4o
+ * so new models are never counted as free. Search surcharges are not included.
+ */
+const MODEL_PRICING: { [model: string]: { input: number; output: number } } = {
+  'gpt-4o': { input: 2.5, output: 10 },
+  'gpt-4o-mini': { input: 0.15, output: 0.6 },
+  'gpt-4o-search-preview': { input: 2.5, output: 10 },
+  'gpt-4o-mini-search-preview': { input: 0.15, output: 0.6 },
+  'gpt-5.2': { input: 1.75, output: 14 }
+};
+const DEFAULT_PRICING = MODEL_PRICING['gpt-4o'];
+
+// Providers that don't bill per token
+const FREE_PROVIDERS = ['local', 'cache'];
+
+/**
+ * Estimate the cost of a request in USD
+ */
+export function estimateLLMCost(
+  model: string,
+  promptTokens: number,
+  completionTokens: number,
+  provider: string = 'openai'
+): number {
+  if (FREE_PROVIDERS.includes(provider)) {
+    return 0;
+  }
+  const pricing = MODEL_PRICING[model] || DEFAULT_PRICING;
+  const cost = (promptTokens * pricing.input + completionTokens * pricing.output) / 1_000_000;
+  // Round to 1/1000th of a cent to keep sums readable
+  return Math.round(cost * 100000) / 100000;
+}
+
+/**
+ * Record one LLM request in the ledger
+ * Fire-and-forget: never throws and never delays the caller. Only written while a
+ * database connection is open, so scripts without a database don't open one just for this.
+ */
+export function recordLLMUsage(entry: LLMUsageEntry): void {
+  if (mongoose.connection.readyState !== 1) {
+    return;
+  }
+
+  const context = getLLMUsageContext();
+  const promptTokens = entry.usage?.promptTokens || 0;
+  const completionTokens = entry.usage?.completionTokens || 0;
+
+  LLMUsageRecord.create({
+    username: context?.username,
+    externalUserId: context?.externalUserId,
+    channel: context?.channel,
+    feature: context?.feature || 'other',
+    provider: entry.provider,
+    modelName: entry.model,
+    requestType: entry.requestType,
+    promptTokens,
+    completionTokens,
+    totalTokens: entry.usage?.totalTokens || promptTokens + completionTokens,
+    estimatedCost: estimateLLMCost(entry.model, promptTokens, completionTokens, entry.provider),
+    cacheHit: entry.cacheHit || false,
+    durationMs: entry.durationMs
+  }).catch((error: unknown) => {
+    logger.error('Failed to record LLM usage', {
+      error: error instanceof Error ? error.message : String(error),
+      model: entry.model,
+      feature: context?.feature
+    });
+  });
+}
+
+/**
+ * Record an answer served from an AI response cache instead of the model
+ */
+export function recordLLMCacheHit(): void {
+  recordLLMUsage({ provider: 'cache', model: 'cache', requestType: 'chat', cacheHit: true });
+}
@@ -0,0 +1,128 @@
+/**
+ * Login risk evaluation
+ *
+ * Compares a successful login against the user's earlier logins and sessions. Pure functions;
+ * utils/securityEvents.ts loads the history, records the result and sends the alert.
+ */
+import type { LoginRiskReason } from '../models/SecurityEvent';
+
+export const FAILED_LOGIN_BURST_THRESHOLD = 3; // Failed attempts right before a successful login
+export const IMPOSSIBLE_TRAVEL_SPEED_KMH = 900; // Faster than a commercial flight
+export const IMPOSSIBLE_TRAVEL_MIN_DISTANCE_KM = 500; // Ignore geolocation noise between nearby cities
+
+export interface LoginFingerprintSource {
+  deviceInfo?: {
+    browser?: string;
+    os?: string;
+    device?: string;
+  };
+  location?: {
+    country?: string;
+    latitude?: number;
+    longitude?: number;
+  };
+  at: Date;
+}
+
+export interface LoginAttemptContext extends LoginFingerprintSource {
+  priorFailedAttempts: number;
+}
+
+/**
+ * Browser + OS + device type; versions are left out so browser updates don't look like new devices
+ */
+export function getDeviceFingerprint(deviceInfo?: LoginFingerprintSource['deviceInfo']): string {
+  return [
+    deviceInfo?.browser || 'Unknown',
+    deviceInfo?.os || 'Unknown',
+    deviceInfo?.device || 'Unknown',
+  ].join('|');
+}
+
+/**
+ * Great-circle distance in kilometres
+ */
+export function distanceKm(
+  from: { latitude: number; longitude: number },
+  to: { latitude: number; longitude: number }
+): number {
+  const toRadians = (degrees: number) => (degrees * Math.PI) / 180;
+  const dLat = toRadians(to.latitude - from.latitude);
+  const dLon = toRadians(to.longitude - from.longitude);
+  const a =
+    Math.sin(dLat / 2) * Math.sin(dLat / 2) +
+    Math.cos(toRadians(from.latitude)) * Math.cos(toRadians(to.latitude)) * Math.sin(dLon / 2) * Math.sin(dLon / 2);
+  return 6371 * 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
+}
+
+function hasCoordinates(
+  location?: LoginFingerprintSource['location']
+): location is { country?: string; latitude: number; longitude: number } {
+  return typeof location?.latitude === 'number' && typeof location?.longitude === 'number';
+}
+
+/**
+ * Find what makes a login unusual compared to the user's history
+ *
+ * With no history at all, only a failed-login burst is reported: the first login on record sets
+ * the baseline rather than alerting.
+ *
+ * @param login - The login being evaluated
+ * @param history - Earlier logins/sessions, any order
+ */
+export function evaluateLoginRisk(
+  login: LoginAttemptContext,
+  history: LoginFingerprintSource[]
+): LoginRiskReason[] {
+  const reasons: LoginRiskReason[] = [];
+
+  if (history.length > 0) {
+    const knownDevices = history.map(entry => getDeviceFingerprint(entry.deviceInfo));
+    if (knownDevices.indexOf(getDeviceFingerprint(login.deviceInfo)) === -1) {
+      reasons.push('new_device');
+    }
+
+    const knownCountries = history
+      .map(entry => entry.location?.country)
+      .filter((country): country is string => Boolean(country));
+    if (login.location?.country && knownCountries.length > 0 && knownCountries.indexOf(login.location.country) === -1) {
+      reasons.push('new_country');
+    }
+
+    // Impossible travel is measured against the most recent earlier login with coordinates
+    const previous = history
+      .filter(entry => hasCoordinates(entry.location) && entry.at.getTime() <= login.at.getTime())
+      .sort((a, b) => b.at.getTime() - a.at.getTime())[0];
+    if (previous && hasCoordinates(previous.location) && hasCoordinates(login.location)) {
+      const km = distanceKm(previous.location, login.location);
+      const hours = Math.max((login.at.getTime() - previous.at.getTime()) / (60 * 60 * 1000), 1 / 60);
+      if (km >= IMPOSSIBLE_TRAVEL_MIN_DISTANCE_KM && km / hours > IMPOSSIBLE_TRAVEL_SPEED_KMH) {
+        reasons.push('impossible_travel');
+      }
+    }
+  }
+
+  if (login.priorFailedAttempts >= FAILED_LOGIN_BURST_THRESHOLD) {
+    reasons.push('failed_login_burst');
+  }
+
+  return reasons;
+}
+
+/**
+ * Human-readable explanation for alert emails and the security timeline
+ */
+export function describeRiskReason(reason: LoginRiskReason): string {
+  switch (reason) {
+    case 'new_device':
+      return 'Sign-in from a browser or device you haven\'t used before';
+    case 'new_country':
+      return 'Sign-in from a country you haven\'t signed in from before';
+    case 'impossible_travel':
+      return 'Sign-in from a location too far from your last sign-in to travel in the time between them';
+    case 'failed_login_burst':
+      return 'Several failed sign-in attempts right before this sign-in';
+    default:
+      return reason;
+  }
+}
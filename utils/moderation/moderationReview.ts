@@ -0,0 +1,337 @@
+/**
+ * Moderation appeals and review decisions
+ *
+ * Violations are recorded per platform: UserViolation (website), TwitchUserViolation (per
+ * channel) and DiscordUserViolation (per server). This module gives the appeal and review
+ * APIs one view of those records and applies moderator decisions to them:
+ *
+ * - uphold: the penalty stands
+ * - overturn: warnings are cleared and any ban is lifted (the ban no longer counts towards escalation)
+ * - reduce: an active ban is shortened or lifted, otherwise one warning is removed
+ *
+ * Every decision is recorded in ModerationDecision and resolves the record's pending appeals.
+ * Callers are responsible for connecting to the database.
+ */
+import UserViolation from '../../models/UserViolation';
+import TwitchUserViolation from '../../models/TwitchUserViolation';
+import DiscordUserViolation from '../../models/DiscordUserViolation';
+import ModerationAppeal, { AppealStatus } from '../../models/ModerationAppeal';
+import ModerationDecision, { IPenaltyState, ModerationDecisionOutcome } from '../../models/ModerationDecision';
+import User from '../../models/User';
+import { ModerationPlatform } from '../../config/moderationRules';
+import { ADMIN_ACCESS_LEVELS, AdminPermission } from '../adminAccess';
+import { unbanEmail } from '../emailCheck';
+import { getDiscordIdForUser, unbanGuildMember } from '../discord/discordGuilds';
+import { logger } from '../logger';
+import { HttpError } from '../httpError';
+
+// Permission needed to review each platform's violations
+export const REVIEW_PERMISSIONS: Record<ModerationPlatform, AdminPermission> = {
+  web: ADMIN_ACCESS_LEVELS.MODERATE_FORUMS,
+  twitch: ADMIN_ACCESS_LEVELS.MODERATE_TWITCH,
+  discord: ADMIN_ACCESS_LEVELS.MODERATE_DISCORD
+};
+
+// Longest reduced website ban a moderator can set
+export const MAX_REDUCED_BAN_DAYS = 365;
+
+// Violations included in each record summary (newest first)
+const MAX_SUMMARY_VIOLATIONS = 20;
+
+const OUTCOME_STATUSES: Record<ModerationDecisionOutcome, AppealStatus> = {
+  uphold: 'upheld',
+  overturn: 'overturned',
+  reduce: 'reduced'
+};
+
+export interface ViolationRecordSummary {
+  id: string;
+  platform: ModerationPlatform;
+  subject: string; // Website username, Twitch username or Discord user ID
+  channelName?: string;
+  guildId?: string;
+  warningCount: number;
+  banCount?: number;
+  timeoutCount?: number;
+  isBanned: boolean;
+  isPermanent: boolean;
+  banExpiresAt?: Date | null;
+  violations: Array<{
+    offendingWords: string[];
+    content?: string;
+    timestamp: Date;
+    actionTaken?: string;
+    reason?: string;
+  }>;
+  updatedAt?: Date;
+}
+
+export interface ModerationDecisionInput {
+  platform: ModerationPlatform;
+  violationRecordId: string;
+  outcome: ModerationDecisionOutcome;
+  performedBy: string;
+  note?: string;
+  appealId?: string;
+  banDays?: number; // reduce on a banned website record: new ban length from now (0 lifts the ban)
+}
+
+export function getViolationModel(platform: ModerationPlatform) {
+  switch (platform) {
+    case 'twitch':
+      return TwitchUserViolation;
+    case 'discord':
+      return DiscordUserViolation;
+    default:
+      return UserViolation;
+  }
+}
+
+/**
+ * Whether a record currently carries a ban
+ */
+export function isRecordBanned(platform: ModerationPlatform, record: any): boolean {
+  if (platform !== 'web') {
+    return !!record.isBanned;
+  }
+  return !!record.isPermanentlyBanned || (!!record.banExpiresAt && new Date(record.banExpiresAt) > new Date());
+}
+
+/**
+ * Whether a record has anything left to appeal (a ban or outstanding warnings)
+ */
+export function isRecordPenalized(platform: ModerationPlatform, record: any): boolean {
+  return isRecordBanned(platform, record) || (record.warningCount || 0) > 0;
+}
+
+/**
+ * Common shape for website, Twitch and Discord violation records
+ */
+export function summarizeViolationRecord(platform: ModerationPlatform, record: any): ViolationRecordSummary {
+  const violations = (record.violations || [])
+    .slice(-MAX_SUMMARY_VIOLATIONS)
+    .reverse()
+    .map((violation: any) => ({
+      offendingWords: violation.offendingWords || [],
+      content: platform === 'web' ? violation.content : violation.message,
+      timestamp: violation.timestamp,
+      actionTaken: violation.actionTaken,
+      reason: violation.reason
+    }));
+
+  const summary: ViolationRecordSummary = {
+    id: String(record._id),
+    platform,
+    subject: platform === 'web'
+      ? record.username
+      : platform === 'twitch' ? record.twitchUsername : record.discordUserId,
+    warningCount: record.warningCount || 0,
+    isBanned: isRecordBanned(platform, record),
+    isPermanent: platform === 'web' ? !!record.isPermanentlyBanned : !!record.isBanned,
+    violations,
+    updatedAt: record.updatedAt
+  };
+
+  if (platform === 'web') {
+    summary.banCount = record.banCount || 0;
+    summary.banExpiresAt = record.banExpiresAt || null;
+  } else {
+    summary.timeoutCount = record.timeoutCount || 0;
+    if (platform === 'twitch') summary.channelName = record.channelName;
+    if (platform === 'discord') summary.guildId = record.guildId;
+  }
+
+  return summary;
+}
+
+/**
+ * Violation records that belong to a user, across the website and their linked Twitch/Discord accounts
+ * Only records with a ban or outstanding warnings are returned.
+ */
+export async function getAppealableRecords(username: string): Promise<ViolationRecordSummary[]> {
+  const user = await User.findOne({ username }).select('twitchUsername').lean() as { twitchUsername?: string } | null;
+  const discordId = await getDiscordIdForUser(username);
+
+  const [webRecords, twitchRecords, discordRecords] = await Promise.all([
+    UserViolation.find({ username }).lean(),
+    user?.twitchUsername
+      ? TwitchUserViolation.find({ twitchUsername: user.twitchUsername.toLowerCase() }).lean()
+      : Promise.resolve([]),
+    discordId ? DiscordUserViolation.find({ discordUserId: discordId }).lean() : Promise.resolve([])
+  ]);
+
+  const records: ViolationRecordSummary[] = [];
+  for (const [platform, list] of [
+    ['web', webRecords],
+    ['twitch', twitchRecords],
+    ['discord', discordRecords]
+  ] as [ModerationPlatform, any[]][]) {
+    for (const record of list) {
+      if (isRecordPenalized(platform, record)) {
+        records.push(summarizeViolationRecord(platform, record));
+      }
+    }
+  }
+  return records;
+}
+
+/**
+ * Find the Video Game Wingman user behind a violation record, if any
+ */
+async function resolveUsername(platform: ModerationPlatform, record: any): Promise<string | undefined> {
+  if (platform === 'web') {
+    return record.username;
+  }
+  const filter = platform === 'twitch'
+    ? { twitchUsername: record.twitchUsername }
+    : { $or: [{ discordId: record.discordUserId }, { userId: record.discordUserId }] };
+  const user = await User.findOne(filter).select('username').lean() as { username?: string } | null;
+  return user?.username;
+}
+
+function getPenaltyState(platform: ModerationPlatform, record: any): IPenaltyState {
+  if (platform === 'web') {
+    return {
+      warningCount: record.warningCount || 0,
+      banCount: record.banCount || 0,
+      banExpiresAt: record.banExpiresAt || null,
+      isPermanentlyBanned: !!record.isPermanentlyBanned
+    };
+  }
+  return {
+    warningCount: record.warningCount || 0,
+    isBanned: !!record.isBanned
+  };
+}
+
+/**
+ * Lift a Twitch or Discord ban on the platform itself
+ * Twitch unbans go through the bot's chat connection, so they only work in the process running the bot.
+ */
+async function liftPlatformBan(platform: ModerationPlatform, record: any, performedBy: string): Promise<boolean> {
+  if (platform === 'twitch') {
+    const { unbanUser } = await import('../twitch/twitchModeration');
+    return unbanUser(record.channelName, record.twitchUsername);
+  }
+  if (platform === 'discord') {
+    return unbanGuildMember(record.guildId, record.discordUserId, `Ban lifted on review by ${performedBy}`);
+  }
+  return false;
+}
+
+/**
+ * Apply a moderator's decision to a violation record
+ * @throws HttpError with statusCode 404 if the record or appeal doesn't exist, 400 for an invalid
+ *         reduction, 409 if the appeal was already decided
+ */
+export async function applyModerationDecision(input: ModerationDecisionInput) {
+  const { platform, violationRecordId, outcome, performedBy, note, appealId } = input;
+
+  const record = await (getViolationModel(platform) as any).findById(violationRecordId);
+  if (!record) {
+    throw new HttpError('Violation record not found', 404);
+  }
+
+  if (appealId) {
+    const appeal = await ModerationAppeal.findById(appealId).lean() as any;
+    if (!appeal || appeal.platform !== platform || appeal.violationRecordId !== violationRecordId) {
+      throw new HttpError('Appeal not found for this violation record', 404);
+    }
+    if (appeal.status !== 'pending') {
+      throw new HttpError(`This appeal was already ${appeal.status}`, 409);
+    }
+  }
+
+  const previousState = getPenaltyState(platform, record);
+  const wasBanned = isRecordBanned(platform, record);
+  const username = await resolveUsername(platform, record);
+  let platformBanLifted: boolean | undefined;
+
+  if (outcome !== 'uphold') {
+    if (platform === 'web') {
+      if (outcome === 'overturn') {
+        record.warningCount = 0;
+        if (wasBanned) {
+          record.banCount = Math.max(0, (record.banCount || 0) - 1); // The overturned ban no longer escalates
+        }
+        record.banExpiresAt = null;
+        record.isPermanentlyBanned = false;
+      } else if (wasBanned) {
+        const banDays = Math.floor(Number(input.banDays) || 0);
+        if (banDays < 0 || banDays > MAX_REDUCED_BAN_DAYS) {
+          throw new HttpError(`banDays must be between 0 and ${MAX_REDUCED_BAN_DAYS}`, 400);
+        }
+        const banExpiresAt = new Date(Date.now() + banDays * 24 * 60 * 60 * 1000);
+        if (!record.isPermanentlyBanned && banExpiresAt >= record.banExpiresAt) {
+          throw new HttpError('A reduced ban must end before the current ban', 400);
+        }
+        // An ended ban (0 days) makes the next violation a post-ban warning, as when a ban expires
+        record.banExpiresAt = banExpiresAt;
+        record.isPermanentlyBanned = false;
+      } else {
+        record.warningCount = Math.max(0, (record.warningCount || 0) - 1);
+      }
+
+      if (wasBanned && username) {
+        const user = await User.findOne({ username }).select('email').lean() as { email?: string } | null;
+        await unbanEmail(user?.email, username);
+      }
+    } else {
+      if (outcome === 'overturn') {
+        record.warningCount = 0;
+      } else if (!wasBanned) {
+        record.warningCount = Math.max(0, (record.warningCount || 0) - 1);
+      }
+
+      if (wasBanned) {
+        record.isBanned = false;
+        record.bannedAt = undefined;
+        platformBanLifted = await liftPlatformBan(platform, record, performedBy);
+      }
+    }
+
+    await record.save();
+  }
+
+  const decision = await ModerationDecision.create({
+    platform,
+    violationRecordId,
+    subject: summarizeViolationRecord(platform, record).subject,
+    username,
+    channelName: platform === 'twitch' ? record.channelName : undefined,
+    guildId: platform === 'discord' ? record.guildId : undefined,
+    appealId,
+    outcome,
+    note,
+    performedBy,
+    previousState,
+    newState: getPenaltyState(platform, record),
+    platformBanLifted
+  });
+
+  // The decision answers every pending appeal for this record
+  await ModerationAppeal.updateMany(
+    { platform, violationRecordId, status: 'pending' },
+    {
+      $set: {
+        status: OUTCOME_STATUSES[outcome],
+        reviewedBy: performedBy,
+        reviewedAt: new Date(),
+        reviewNote: note
+      }
+    }
+  );
+
+  if (platformBanLifted === false) {
+    logger.warn('Ban lifted on review but the platform ban could not be removed', {
+      platform,
+      violationRecordId,
+      performedBy
+    });
+  }
+
+  return {
+    decision,
+    record: summarizeViolationRecord(platform, record)
+  };
+}
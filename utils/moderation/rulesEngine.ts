@@ -0,0 +1,345 @@
+/**
+ * Moderation rules engine
+ *
+ * Evaluates the moderation rules from config/moderationRules.ts against a piece of content.
+ * Evaluation is side-effect free: it never records violations, sends warnings or writes logs.
+ * Each surface (website, Twitch bot, Discord bot) decides what to do with the result.
+ *
+ * Repeated-message detection needs the user's recent messages; chat surfaces keep them
+ * in a RecentMessageTracker and pass them in through the context.
+ */
+import {
+  ModerationAction,
+  ModerationPlatform,
+  ModerationRule,
+  ModerationRuleSetConfig,
+  ModerationRuleType,
+  ModerationSeverity,
+  getModerationRuleSets
+} from '../../config/moderationRules';
+
+export interface RecentMessage {
+  content: string;
+  timestamp: number;
+}
+
+export interface ModerationContext {
+  platform: ModerationPlatform;
+  /** Who wrote the content: heuristic rules (links, caps, spam, repeats) only apply to users */
+  source?: 'user' | 'ai';
+  /** Match disguised spellings with every word list (Twitch/Discord strict mode) */
+  strict?: boolean;
+  /** The author's earlier messages in the same place, for repeated-message detection */
+  recentMessages?: RecentMessage[];
+  /** Evaluation time (defaults to now) */
+  now?: number;
+}
+
+export interface ModerationMatch {
+  ruleSet: string;
+  rule: string;
+  type: ModerationRuleType;
+  severity: ModerationSeverity;
+  action: ModerationAction;
+  /** The matched text, or the rule name in brackets for heuristic rules */
+  matched: string;
+}
+
+export interface ModerationEvaluation {
+  matches: ModerationMatch[];
+  /** Highest severity among the matches (null if nothing matched) */
+  severity: ModerationSeverity | null;
+  /** Most severe action among the matches */
+  action: ModerationAction | 'allow';
+  /** Whether the content should be rejected (block, violation or ban) */
+  isBlocked: boolean;
+  /** Matched words/phrases and triggered heuristic rules, for messages and logs */
+  offendingWords: string[];
+}
+
+const SEVERITY_ORDER: ModerationSeverity[] = ['low', 'medium', 'high', 'critical'];
+const ACTION_ORDER: (ModerationAction | 'allow')[] = ['allow', 'log', 'block', 'violation', 'ban'];
+const HEURISTIC_RULE_TYPES: ModerationRuleType[] = ['links', 'caps', 'spam', 'repeated_message'];
+
+// Look-alike characters from other alphabets and common leetspeak substitutions
+const CHARACTER_SUBSTITUTIONS: Record<string, string> = {
+  // Cyrillic
+  'а': 'a', 'в': 'b', 'е': 'e', 'ё': 'e', 'к': 'k', 'м': 'm', 'н': 'h', 'о': 'o', 'р': 'p',
+  'с': 'c', 'т': 't', 'у': 'y', 'х': 'x', 'і': 'i', 'ї': 'i', 'ј': 'j', 'ѕ': 's', 'ԁ': 'd',
+  // Greek
+  'α': 'a', 'β': 'b', 'ε': 'e', 'η': 'n', 'ι': 'i', 'κ': 'k', 'ν': 'v', 'ο': 'o', 'ρ': 'p',
+  'τ': 't', 'υ': 'u', 'χ': 'x',
+  // Leetspeak
+  '0': 'o', '1': 'i', '3': 'e', '4': 'a', '5': 's', '7': 't', '8': 'b', '9': 'g',
+  '@': 'a', '$': 's', '!': 'i', '|': 'i', '+': 't', '€': 'e', '£': 'l',
+};
+
+const ZERO_WIDTH_CHARACTERS = /[\u200B-\u200D\u2060\uFEFF\u00AD]/g;
+const COMBINING_MARKS = /[\u0300-\u036F]/g;
+
+/**
+ * Reduce disguised spellings to plain lowercase letters:
+ * "Ѕ H 1 T" → "shit", "fuuuuck" → "fuck", "ƒück" → "fuck"
+ */
+export function normalizeForMatching(text: string): string {
+  let normalized = text
+    .normalize('NFKD')
+    .replace(COMBINING_MARKS, '')
+    .replace(ZERO_WIDTH_CHARACTERS, '')
+    .toLowerCase();
+
+  let substituted = '';
+  for (let i = 0; i < normalized.length; i++) {
+    const char = normalized.charAt(i);
+    substituted += CHARACTER_SUBSTITUTIONS[char] || char;
+  }
+  normalized = substituted;
+
+  // Join letters spelled out with separators ("s h i t", "s.h.i.t", "s-h-i-t")
+  normalized = normalized.replace(/\b(?:[a-z][\s._*\-]+){2,}[a-z]\b/g, match => match.replace(/[^a-z]/g, ''));
+
+  // Collapse stretched letters ("shiiiit")
+  return normalized.replace(/([a-z])\1{2,}/g, '$1');
+}
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+interface CompiledWord {
+  word: string;
+  exact: RegExp;
+  normalized: RegExp | null;
+}
+
+// Compiled word lists, keyed by rule object (rule sets are cached, so this is reused between checks)
+const compiledWordLists = new WeakMap<ModerationRule, CompiledWord[]>();
+
+function compileWordList(rule: ModerationRule): CompiledWord[] {
+  let compiled = compiledWordLists.get(rule);
+  if (!compiled) {
+    compiled = (rule.words || []).map(word => {
+      const normalizedWord = normalizeForMatching(word);
+      return {
+        word,
+        // Use word boundary regex to match whole words only, not substrings
+        // This prevents "class" from matching "ass" or "grass" from matching "ass"
+        exact: new RegExp(`\\b${escapeRegExp(word)}\\b`, 'i'),
+        normalized: normalizedWord ? new RegExp(`\\b${escapeRegExp(normalizedWord)}\\b`) : null,
+      };
+    });
+    compiledWordLists.set(rule, compiled);
+  }
+  return compiled;
+}
+
+function matchWordList(rule: ModerationRule, content: string, context: ModerationContext): string[] {
+  const useNormalized = rule.normalize || context.strict;
+  const normalizedContent = useNormalized ? normalizeForMatching(content) : '';
+
+  return compileWordList(rule)
+    .filter(entry =>
+      entry.exact.test(content) || (useNormalized && !!entry.normalized && entry.normalized.test(normalizedContent))
+    )
+    .map(entry => entry.word);
+}
+
+function matchRegex(rule: ModerationRule, content: string): string[] {
+  try {
+    const match = new RegExp(rule.pattern || '', rule.flags ?? 'i').exec(content);
+    return match && match[0] ? [match[0]] : [];
+  } catch {
+    // Invalid patterns are rejected when saved; ignore any that slip through
+    return [];
+  }
+}
+
+const URL_PATTERN = /\b(?:https?:\/\/|www\.)[^\s<>"']+/gi;
+const BARE_DOMAIN_PATTERN = /\b(?:[a-z0-9-]+\.)+(?:com|net|org|gg|io|tv|ly|co|xyz|ru|me|link|app|dev|info|biz|live|shop|click)\b(?:\/[^\s<>"']*)?/gi;
+
+function getHost(link: string): string {
+  return link
+    .replace(/^https?:\/\//i, '')
+    .replace(/^www\./i, '')
+    .split(/[/?#:]/)[0]
+    .toLowerCase();
+}
+
+function matchLinks(rule: ModerationRule, content: string): string[] {
+  const allowedDomains = rule.allowedDomains || [];
+  const isAllowed = (host: string) =>
+    allowedDomains.some(domain => host === domain || host.endsWith(`.${domain}`));
+
+  const found: string[] = [];
+  const patterns = [new RegExp(URL_PATTERN.source, 'gi'), new RegExp(BARE_DOMAIN_PATTERN.source, 'gi')];
+  for (const pattern of patterns) {
+    let match: RegExpExecArray | null;
+    while ((match = pattern.exec(content)) !== null) {
+      const host = getHost(match[0]);
+      if (host && !isAllowed(host) && !found.some(link => getHost(link) === host)) {
+        found.push(match[0]);
+      }
+    }
+  }
+  return found;
+}
+
+function matchCaps(rule: ModerationRule, content: string): boolean {
+  const letters = content.replace(/[^A-Za-z]/g, '');
+  if (letters.length < (rule.minLength ?? 15)) {
+    return false;
+  }
+  const uppercase = letters.replace(/[^A-Z]/g, '').length;
+  return uppercase / letters.length >= (rule.maxCapsRatio ?? 0.8);
+}
+
+function matchSpam(rule: ModerationRule, content: string): boolean {
+  const maxRepeatedChars = rule.maxRepeatedChars ?? 15;
+  const maxRepeatedWords = rule.maxRepeatedWords ?? 6;
+
+  const repeatedChar = new RegExp(`(\\S)\\1{${maxRepeatedChars},}`);
+  const repeatedWord = new RegExp(`\\b(\\w+)(?:\\s+\\1\\b){${maxRepeatedWords},}`, 'i');
+
+  return repeatedChar.test(content) || repeatedWord.test(content);
+}
+
+const normalizeForComparison = (text: string) => text.trim().toLowerCase().replace(/\s+/g, ' ');
+
+function matchRepeatedMessage(rule: ModerationRule, content: string, context: ModerationContext): boolean {
+  const maxRepeats = rule.maxRepeats ?? 3;
+  const windowStart = (context.now ?? Date.now()) - (rule.repeatWindowSeconds ?? 60) * 1000;
+  const current = normalizeForComparison(content);
+  if (!current) {
+    return false;
+  }
+
+  const earlier = (context.recentMessages || []).filter(message =>
+    message.timestamp >= windowStart && normalizeForComparison(message.content) === current
+  ).length;
+
+  // +1 for this message
+  return earlier + 1 >= maxRepeats;
+}
+
+/**
+ * Find the text a rule matches in the content (empty if the rule doesn't match)
+ */
+function evaluateRule(rule: ModerationRule, content: string, context: ModerationContext): string[] {
+  switch (rule.type) {
+    case 'word_list':
+      return matchWordList(rule, content, context);
+    case 'regex':
+      return matchRegex(rule, content);
+    case 'links':
+      return matchLinks(rule, content);
+    case 'caps':
+      return matchCaps(rule, content) ? [`[${rule.name}]`] : [];
+    case 'spam':
+      return matchSpam(rule, content) ? [`[${rule.name}]`] : [];
+    case 'repeated_message':
+      return matchRepeatedMessage(rule, content, context) ? [`[${rule.name}]`] : [];
+    default:
+      return [];
+  }
+}
+
+/**
+ * Evaluate rule sets against content
+ *
+ * @param content - The text to check
+ * @param ruleSets - Rule sets to evaluate (see getModerationRuleSets)
+ * @param context - Where the content comes from
+ * @returns Every match, plus the most severe action
+ */
+export function evaluateModerationRules(
+  content: string,
+  ruleSets: ModerationRuleSetConfig[],
+  context: ModerationContext
+): ModerationEvaluation {
+  const matches: ModerationMatch[] = [];
+  const isUserContent = (context.source || 'user') === 'user';
+
+  for (const ruleSet of ruleSets) {
+    for (const rule of ruleSet.rules) {
+      if (!rule.enabled) continue;
+      if (!isUserContent && HEURISTIC_RULE_TYPES.includes(rule.type)) continue;
+
+      for (const matched of evaluateRule(rule, content, context)) {
+        matches.push({
+          ruleSet: ruleSet.name,
+          rule: rule.name,
+          type: rule.type,
+          severity: rule.severity,
+          action: ruleSet.severityActions[rule.severity] || 'block',
+          matched,
+        });
+      }
+    }
+  }
+
+  let severity: ModerationSeverity | null = null;
+  let action: ModerationAction | 'allow' = 'allow';
+  for (const match of matches) {
+    if (!severity || SEVERITY_ORDER.indexOf(match.severity) > SEVERITY_ORDER.indexOf(severity)) {
+      severity = match.severity;
+    }
+    if (ACTION_ORDER.indexOf(match.action) > ACTION_ORDER.indexOf(action)) {
+      action = match.action;
+    }
+  }
+
+  const isBlocked = action === 'block' || action === 'violation' || action === 'ban';
+
+  return {
+    matches,
+    severity,
+    action,
+    isBlocked,
+    offendingWords: Array.from(new Set(
+      matches.filter(match => match.action !== 'log').map(match => match.matched)
+    )),
+  };
+}
+
+/**
+ * Check content against the rule sets stored for a platform
+ * Side-effect free: callers decide how to act on the result.
+ */
+export async function checkContentAgainstRules(
+  content: string,
+  context: ModerationContext
+): Promise<ModerationEvaluation> {
+  const ruleSets = await getModerationRuleSets(context.platform);
+  return evaluateModerationRules(content, ruleSets, context);
+}
+
+/**
+ * Keeps each chat user's recent messages in memory for repeated-message detection
+ */
+export class RecentMessageTracker {
+  private messages = new Map<string, RecentMessage[]>();
+
+  constructor(
+    private readonly maxAgeMs = 10 * 60 * 1000,
+    private readonly maxMessagesPerKey = 20
+  ) {}
+
+  /** Recent messages for a key (e.g. channel + user), oldest first */
+  get(key: string): RecentMessage[] {
+    const cutoff = Date.now() - this.maxAgeMs;
+    const recent = (this.messages.get(key) || []).filter(message => message.timestamp >= cutoff);
+    if (recent.length === 0) {
+      this.messages.delete(key);
+    }
+    return recent;
+  }
+
+  record(key: string, content: string): void {
+    const recent = this.get(key);
+    recent.push({ content, timestamp: Date.now() });
+    this.messages.set(key, recent.slice(-this.maxMessagesPerKey));
+
+    // Drop users who have gone quiet so busy chats don't grow the map forever
+    if (this.messages.size > 5000) {
+      Array.from(this.messages.keys()).forEach(existingKey => this.get(existingKey));
+    }
+  }
+}
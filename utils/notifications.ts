@@ -0,0 +1,193 @@
+import Notification, { INotification, NotificationType } from '../models/Notification';
+import User from '../models/User';
+import { notifyUser } from '../middleware/realtime';
+import { NotificationData } from '../types';
+import { logger } from './logger';
+
+/**
+ * In-app notifications
+ *
+ * Producers call these helpers after their own work has succeeded. Notifications are
+ * best-effort: helpers never throw, so a failed insert can't fail the request that caused it.
+ * Every stored notification is also pushed to the recipient's sockets as a `notification` event.
+ */
+
+export interface NotificationInput {
+  username: string;
+  type: NotificationType;
+  title: string;
+  message: string;
+  link?: string;
+  actor?: string;
+  data?: Record<string, any>;
+  dedupeKey?: string;
+}
+
+// Mentions beyond this are ignored, so one post can't notify half the community
+const MAX_MENTIONS_PER_POST = 10;
+
+// Same characters allowed by signup
+const MENTION_PATTERN = /(^|[^a-zA-Z0-9_-])@([a-zA-Z0-9_-]+)/g;
+
+/**
+ * Shape a notification document for API responses and socket events
+ */
+export function toNotificationData(notification: INotification): NotificationData {
+  return {
+    id: String(notification._id),
+    type: notification.type,
+    title: notification.title,
+    message: notification.message,
+    link: notification.link,
+    actor: notification.actor,
+    data: notification.data,
+    isRead: notification.isRead,
+    readAt: notification.readAt ? new Date(notification.readAt).toISOString() : undefined,
+    createdAt: new Date(notification.createdAt).toISOString()
+  };
+}
+
+/**
+ * Shorten user content for notification text
+ */
+export function truncatePreview(text: string, maxLength: number = 140): string {
+  const trimmed = (text || '').trim();
+  return trimmed.length > maxLength ? `${trimmed.substring(0, maxLength - 3)}...` : trimmed;
+}
+
+/**
+ * Store a notification and push it to the recipient's open sockets
+ * Returns null when nothing was stored (duplicate dedupeKey or database error)
+ */
+export async function createNotification(input: NotificationInput): Promise<NotificationData | null> {
+  try {
+    const notification = await Notification.create({
+      ...input,
+      title: truncatePreview(input.title, 120),
+      message: truncatePreview(input.message, 500)
+    });
+    const data = toNotificationData(notification);
+    notifyUser(input.username, 'notification', data);
+    return data;
+  } catch (error: any) {
+    // Duplicate key: this repeatable event was already notified
+    if (error?.code === 11000) {
+      return null;
+    }
+    logger.error('Failed to create notification', {
+      error: error instanceof Error ? error.message : String(error),
+      username: input.username,
+      type: input.type
+    });
+    return null;
+  }
+}
+
+/**
+ * Get the @usernames mentioned in a message (unique, in order of appearance)
+ */
+export function extractMentions(message: string): string[] {
+  const mentions = new Set<string>();
+  const pattern = new RegExp(MENTION_PATTERN.source, 'g');
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(message || '')) && mentions.size < MAX_MENTIONS_PER_POST) {
+    mentions.add(match[2]);
+  }
+  return Array.from(mentions);
+}
+
+/**
+ * Notify the author of a forum post that someone replied to it
+ */
+export async function notifyForumReply(params: {
+  recipient: string;
+  repliedBy: string;
+  forumId: string;
+  forumTitle: string;
+  postId: string;
+  replyToPostId: string;
+  message: string;
+}): Promise<void> {
+  if (params.recipient === params.repliedBy) return;
+
+  await createNotification({
+    username: params.recipient,
+    type: 'forum_reply',
+    title: 'New reply to your post',
+    message: `${params.repliedBy} replied in ${params.forumTitle}: "${truncatePreview(params.message || 'Shared an image', 100)}"`,
+    link: `/forum/${params.forumId}`,
+    actor: params.repliedBy,
+    data: { forumId: params.forumId, postId: params.postId, replyToPostId: params.replyToPostId }
+  });
+}
+
+/**
+ * Notify users @mentioned in a forum post
+ * Only existing users are notified; for private forums, only users who can read the forum.
+ * `skip` lists users already notified about this post another way (e.g. the replied-to author).
+ */
+export async function notifyForumMentions(params: {
+  author: string;
+  forumId: string;
+  forumTitle: string;
+  postId: string;
+  message: string;
+  allowedUsers?: string[];
+  skip?: string[];
+}): Promise<void> {
+  const candidates = extractMentions(params.message).filter(username =>
+    username !== params.author &&
+    !(params.skip || []).includes(username) &&
+    (!params.allowedUsers || params.allowedUsers.includes(username))
+  );
+  if (candidates.length === 0) return;
+
+  try {
+    const users = await User.find({ username: { $in: candidates } }).select('username').lean();
+    await Promise.all(users.map((user: any) => createNotification({
+      username: user.username,
+      type: 'forum_mention',
+      title: 'You were mentioned',
+      message: `${params.author} mentioned you in ${params.forumTitle}: "${truncatePreview(params.message, 100)}"`,
+      link: `/forum/${params.forumId}`,
+      actor: params.author,
+      data: { forumId: params.forumId, postId: params.postId },
+      dedupeKey: `mention:${params.postId}`
+    })));
+  } catch (error) {
+    logger.error('Failed to notify forum mentions', {
+      error: error instanceof Error ? error.message : String(error),
+      forumId: params.forumId,
+      postId: params.postId
+    });
+  }
+}
+
+/**
+ * Notify a post author about a new reaction or like
+ * Stored once per post, user and reaction, so toggling a reaction doesn't spam the author
+ */
+export async function notifyPostReaction(params: {
+  recipient: string;
+  reactedBy: string;
+  forumId: string;
+  forumTitle: string;
+  postId: string;
+  reaction: string; // Emoji, or 'like'
+}): Promise<void> {
+  if (params.recipient === params.reactedBy) return;
+
+  const isLike = params.reaction === 'like';
+  await createNotification({
+    username: params.recipient,
+    type: 'post_reaction',
+    title: isLike ? 'Someone liked your post' : 'New reaction to your post',
+    message: isLike
+      ? `${params.reactedBy} liked your post in ${params.forumTitle}`
+      : `${params.reactedBy} reacted ${params.reaction} to your post in ${params.forumTitle}`,
+    link: `/forum/${params.forumId}`,
+    actor: params.reactedBy,
+    data: { forumId: params.forumId, postId: params.postId, reaction: params.reaction },
+    dedupeKey: `reaction:${params.postId}:${params.reactedBy}:${params.reaction}`
+  });
+}
@@ -18,8 +18,8 @@ const splashUserSchema = new Schema<ISplashUser>({
 
 // Check pro access for a user
 export const checkProAccess = async (identifier: string, userId?: string): Promise<boolean> => {
-  // Always grant Pro access for test/dev user (with username)
-  if (identifier === "test-user" || identifier === "TestUser1") return true;
+  // Always grant Pro access for the test account
+  if (identifier === "TestUser1") return true;
   
   // Always grant Pro access for LegendaryRenegade (Master account)
   if (identifier === "LegendaryRenegade") return true;
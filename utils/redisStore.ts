@@ -0,0 +1,147 @@
+/**
+ * Redis-backed SharedStore
+ *
+ * Built on ioredis, so it works with Redis and compatible servers (Valkey, KeyDB, Dragonfly).
+ * Only a handful of commands are used: GET, SET, DEL, EXISTS, INCRBY, PTTL, PEXPIRE, PUBLISH and
+ * SUBSCRIBE (plus AUTH/SELECT from the URL).
+ *
+ * One connection carries commands; pub/sub uses a second one, because a subscribed connection
+ * can't run anything else. ioredis connects lazily, reconnects in the background and resubscribes
+ * after a reconnect.
+ */
+import Redis from 'ioredis';
+import type { CounterState, SharedStore } from './sharedStore';
+
+const CONNECT_TIMEOUT_MS = 5000;
+// Callers treat a failed command as a cache miss or an allowed request, so fail fast while Redis is down
+const COMMAND_TIMEOUT_MS = 2000;
+
+function createConnection(url: string, role: string): Redis {
+  const connection = new Redis(url, {
+    lazyConnect: true,
+    connectTimeout: CONNECT_TIMEOUT_MS,
+    commandTimeout: COMMAND_TIMEOUT_MS,
+    maxRetriesPerRequest: 1,
+    enableReadyCheck: false,
+  });
+  // Without a listener ioredis reports every failed reconnect as unhandled
+  connection.on('error', (error) => console.warn(`[RedisStore] ${role} connection error:`, error.message));
+  return connection;
+}
+
+async function closeConnection(connection: Redis): Promise<void> {
+  if (connection.status === 'wait' || connection.status === 'end') {
+    connection.disconnect();
+    return;
+  }
+  try {
+    await connection.quit();
+  } catch {
+    // Closing anyway
+    connection.disconnect();
+  }
+}
+
+/**
+ * SharedStore on Redis
+ *
+ * Values are stored as JSON under `keyPrefix`. Counters use one key per window: SET NX PX starts
+ * the window with its expiry, so INCRBY never leaves a counter without a TTL.
+ */
+export class RedisStore implements SharedStore {
+  readonly backend = 'redis' as const;
+  private client: Redis;
+  private subscriber: Redis;
+  private handlers = new Map<string, Array<(message: string) => void>>();
+
+  constructor(url: string, private keyPrefix: string = 'wingman:') {
+    this.client = createConnection(url, 'Command');
+    this.subscriber = createConnection(url, 'Subscriber');
+    this.subscriber.on('message', (channel: string, message: string) => this.onMessage(channel, message));
+  }
+
+  async get<T>(key: string): Promise<T | null> {
+    const value = await this.client.get(this.keyPrefix + key);
+    return typeof value === 'string' ? (JSON.parse(value) as T) : null;
+  }
+
+  async set<T>(key: string, value: T, ttlMs: number): Promise<void> {
+    const serialized = JSON.stringify(value);
+    if (serialized === undefined) return;
+    await this.client.set(this.keyPrefix + key, serialized, 'PX', Math.max(1, Math.round(ttlMs)));
+  }
+
+  async delete(key: string): Promise<void> {
+    await this.client.del(this.keyPrefix + key);
+  }
+
+  async increment(key: string, windowMs: number, by: number = 1): Promise<CounterState> {
+    const fullKey = this.keyPrefix + key;
+    const now = Date.now();
+    const windowPx = Math.max(1, Math.round(windowMs));
+
+    // Never start a window with a decrement
+    if (by < 0 && (await this.client.exists(fullKey)) === 0) {
+      return { count: 0, resetAt: now };
+    }
+
+    const results = await this.client
+      .pipeline()
+      .set(fullKey, 0, 'PX', windowPx, 'NX')
+      .incrby(fullKey, by)
+      .pttl(fullKey)
+      .exec();
+    if (!results) {
+      throw new Error('Redis pipeline was aborted');
+    }
+    const failed = results.find(([error]) => error);
+    if (failed) {
+      throw failed[0];
+    }
+    const count = results[1][1];
+    const ttl = results[2][1];
+
+    let remaining = typeof ttl === 'number' ? ttl : -1;
+    if (remaining < 0) {
+      // Recreated by a decrement racing the window's expiry
+      await this.client.pexpire(fullKey, windowPx);
+      remaining = windowPx;
+    }
+    return { count: Number(count), resetAt: now + remaining };
+  }
+
+  async publish(channel: string, message: string): Promise<void> {
+    await this.client.publish(this.keyPrefix + channel, message);
+  }
+
+  async subscribe(channel: string, handler: (message: string) => void): Promise<void> {
+    const existing = this.handlers.get(channel);
+    if (existing) {
+      existing.push(handler);
+      return;
+    }
+    this.handlers.set(channel, [handler]);
+    try {
+      await this.subscriber.subscribe(this.keyPrefix + channel);
+    } catch (error) {
+      // Let a later call retry the subscription
+      this.handlers.delete(channel);
+      throw error;
+    }
+  }
+
+  async close(): Promise<void> {
+    await Promise.all([closeConnection(this.client), closeConnection(this.subscriber)]);
+  }
+
+  private onMessage(prefixedChannel: string, message: string): void {
+    const channel = prefixedChannel.slice(this.keyPrefix.length);
+    (this.handlers.get(channel) || []).forEach((handler) => {
+      try {
+        handler(message);
+      } catch (error) {
+        console.error(`[RedisStore] Handler for ${channel} failed:`, error);
+      }
+    });
+  }
+}
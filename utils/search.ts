@@ -0,0 +1,299 @@
+/**
+ * Unified search across forums, forum posts, the user's Q&A history and saved guides
+ *
+ * Forums, posts and questions use MongoDB text indexes (see the *_text_search indexes on
+ * models/Forum.ts, models/ForumPost.ts and models/Question.ts). Saved guides are embedded in
+ * the user document and only ever searched for their owner, so they are scored in-process
+ * on a comparable scale.
+ *
+ * Each source returns its own best matches; the results are then merged by score.
+ * Private forums (and their posts) are only searched for users in allowedUsers.
+ */
+import Forum from '../models/Forum';
+import ForumPost from '../models/ForumPost';
+import Question from '../models/Question';
+import User from '../models/User';
+import { extractHighlightedSnippet } from './snippetExtractor';
+import { normalizeForumCategory } from './forumCategory';
+import { SearchResult, SearchResultType } from '../types';
+
+export const SEARCH_RESULT_TYPES: SearchResultType[] = ['forum', 'post', 'question', 'guide'];
+
+export const DEFAULT_SEARCH_LIMIT = 20;
+export const MAX_SEARCH_LIMIT = 50;
+export const MIN_QUERY_LENGTH = 2;
+export const MAX_QUERY_LENGTH = 200;
+
+export interface SearchOptions {
+  query: string;
+  username: string | null; // null for signed-out searches (forums and posts only)
+  types?: SearchResultType[];
+  gameTitle?: string;
+  category?: string;
+  from?: Date;
+  to?: Date;
+  limit?: number;
+}
+
+export interface SearchResponse {
+  results: SearchResult[];
+  counts: Record<SearchResultType, number>;
+}
+
+/** Escape special regex characters in user input to avoid ReDoS and injection */
+function escapeRegex(str: string): string {
+  return str.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * Split a query into lowercase terms for highlighting and guide scoring
+ * (quotes are dropped; negated terms like -spoilers are excluded, as in $text search)
+ */
+export function getSearchTerms(query: string): string[] {
+  const terms = query
+    .toLowerCase()
+    .split(/[\s.,;:!?"'()[\]{}<>/\\|@#$%^&*+=~`]+/)
+    .filter(term => !term.startsWith('-') && term.length >= MIN_QUERY_LENGTH);
+  return Array.from(new Set(terms));
+}
+
+function dateRange(field: string, from?: Date, to?: Date): Record<string, any> {
+  if (!from && !to) return {};
+  return {
+    [field]: {
+      ...(from && { $gte: from }),
+      ...(to && { $lte: to })
+    }
+  };
+}
+
+/**
+ * Forum conditions shared by forum and post search: visibility plus game/category filters
+ */
+function forumConditions(username: string | null, options: SearchOptions): Record<string, any> {
+  return {
+    $or: username ? [{ isPrivate: false }, { allowedUsers: username }] : [{ isPrivate: false }],
+    ...(options.gameTitle && { gameTitle: new RegExp(escapeRegex(options.gameTitle), 'i') }),
+    ...(options.category && { category: normalizeForumCategory(options.category) })
+  };
+}
+
+async function searchForums(options: SearchOptions, terms: string[], limit: number): Promise<SearchResult[]> {
+  const forums = await Forum.find(
+    {
+      $text: { $search: options.query },
+      ...forumConditions(options.username, options),
+      ...dateRange('createdAt', options.from, options.to)
+    },
+    { score: { $meta: 'textScore' } }
+  )
+    .select('forumId title gameTitle category createdAt metadata.lastActivityAt')
+    .sort({ score: { $meta: 'textScore' } })
+    .limit(limit)
+    .lean() as any[];
+
+  return forums.map(forum => {
+    const { snippet, highlights } = extractHighlightedSnippet(`${forum.title} · ${forum.gameTitle}`, terms);
+    return {
+      type: 'forum' as const,
+      id: forum.forumId,
+      title: forum.title,
+      snippet,
+      highlights,
+      score: forum.score || 0,
+      timestamp: new Date(forum.metadata?.lastActivityAt || forum.createdAt).toISOString(),
+      link: `/forum/${forum.forumId}`,
+      gameTitle: forum.gameTitle,
+      category: forum.category
+    };
+  });
+}
+
+async function searchPosts(options: SearchOptions, terms: string[], limit: number): Promise<SearchResult[]> {
+  // Restrict posts to forums the user can see. Without game/category filters it's cheaper
+  // to exclude the (few) private forums the user isn't in than to list every visible forum.
+  const postConditions: Record<string, any> = {};
+  if (options.gameTitle || options.category) {
+    postConditions.forumId = {
+      $in: await Forum.distinct('forumId', forumConditions(options.username, options))
+    };
+  } else {
+    const hiddenForumIds = await Forum.distinct('forumId', {
+      isPrivate: true,
+      ...(options.username && { allowedUsers: { $ne: options.username } })
+    });
+    if (hiddenForumIds.length > 0) {
+      postConditions.forumId = { $nin: hiddenForumIds };
+    }
+  }
+
+  const posts = await ForumPost.find(
+    {
+      $text: { $search: options.query },
+      ...postConditions,
+      'metadata.status': 'active',
+      ...dateRange('timestamp', options.from, options.to)
+    },
+    { score: { $meta: 'textScore' } }
+  )
+    .select('forumId username message timestamp')
+    .sort({ score: { $meta: 'textScore' } })
+    .limit(limit)
+    .lean() as any[];
+
+  if (posts.length === 0) {
+    return [];
+  }
+
+  const forums = await Forum.find({ forumId: { $in: Array.from(new Set(posts.map(post => post.forumId))) } })
+    .select('forumId title gameTitle category')
+    .lean() as any[];
+  const forumsById = new Map(forums.map(forum => [forum.forumId, forum]));
+
+  return posts.map(post => {
+    const forum = forumsById.get(post.forumId);
+    const { snippet, highlights } = extractHighlightedSnippet(post.message, terms);
+    return {
+      type: 'post' as const,
+      id: String(post._id),
+      title: forum ? `${post.username} in ${forum.title}` : post.username,
+      snippet,
+      highlights,
+      score: post.score || 0,
+      timestamp: new Date(post.timestamp).toISOString(),
+      link: `/forum/${post.forumId}#post-${post._id}`,
+      gameTitle: forum?.gameTitle,
+      category: forum?.category,
+      forumId: post.forumId
+    };
+  });
+}
+
+async function searchQuestions(options: SearchOptions, terms: string[], limit: number): Promise<SearchResult[]> {
+  const questions = await Question.find(
+    {
+      $text: { $search: options.query },
+      username: options.username,
+      ...(options.gameTitle && { detectedGame: new RegExp(escapeRegex(options.gameTitle), 'i') }),
+      ...(options.category && { questionCategory: options.category }),
+      ...dateRange('timestamp', options.from, options.to)
+    },
+    { score: { $meta: 'textScore' } }
+  )
+    .select('question response timestamp detectedGame questionCategory')
+    .sort({ score: { $meta: 'textScore' } })
+    .limit(limit)
+    .lean() as any[];
+
+  return questions.map(question => {
+    // Show the part of the answer that matched; fall back to the question itself
+    const responseLower = (question.response || '').toLowerCase();
+    const source = terms.some(term => responseLower.includes(term)) ? question.response : question.question;
+    const { snippet, highlights } = extractHighlightedSnippet(source, terms);
+    return {
+      type: 'question' as const,
+      id: String(question._id),
+      title: question.question.length > 120 ? `${question.question.substring(0, 117)}...` : question.question,
+      snippet,
+      highlights,
+      score: question.score || 0,
+      timestamp: new Date(question.timestamp).toISOString(),
+      gameTitle: question.detectedGame,
+      category: question.questionCategory
+    };
+  });
+}
+
+/**
+ * Score a saved guide roughly like a MongoDB text score: weighted term hits,
+ * damped by field length so long responses don't dominate
+ */
+function scoreGuide(guide: { title: string; question: string; response: string }, terms: string[]): number {
+  const fields: Array<[string, number]> = [
+    [guide.title || '', 3],
+    [guide.question || '', 2],
+    [guide.response || '', 1]
+  ];
+  let score = 0;
+  for (const [text, weight] of fields) {
+    const lower = text.toLowerCase();
+    const words = Math.max(1, lower.split(/\s+/).length);
+    for (const term of terms) {
+      const hits = lower.split(term).length - 1;
+      if (hits > 0) {
+        score += weight * (0.5 + 0.5 * Math.min(1, (hits * 10) / words));
+      }
+    }
+  }
+  return score;
+}
+
+async function searchGuides(options: SearchOptions, terms: string[], limit: number): Promise<SearchResult[]> {
+  const user = await User.findOne({ username: options.username }).select('guides').lean() as any;
+  const guides: any[] = Array.isArray(user?.guides) ? user.guides : [];
+  const gamePattern = options.gameTitle ? new RegExp(escapeRegex(options.gameTitle), 'i') : null;
+
+  return guides
+    .filter(guide => {
+      const savedAt = guide.savedAt ? new Date(guide.savedAt) : null;
+      if (options.from && (!savedAt || savedAt < options.from)) return false;
+      if (options.to && (!savedAt || savedAt > options.to)) return false;
+      // Guides have no game field; match the filter against the title and question
+      if (gamePattern && !gamePattern.test(`${guide.title} ${guide.question}`)) return false;
+      return true;
+    })
+    .map(guide => ({ guide, score: scoreGuide(guide, terms) }))
+    .filter(({ score }) => score > 0)
+    .sort((a, b) => b.score - a.score)
+    .slice(0, limit)
+    .map(({ guide, score }) => {
+      const { snippet, highlights } = extractHighlightedSnippet(guide.response || guide.question, terms);
+      return {
+        type: 'guide' as const,
+        id: String(guide._id),
+        title: guide.title,
+        snippet,
+        highlights,
+        score,
+        timestamp: new Date(guide.savedAt || Date.now()).toISOString()
+      };
+    });
+}
+
+/**
+ * Run a search across the requested sources
+ * Signed-out searches only cover public forums and posts.
+ * Category filters apply to forums/posts (forum category) and questions (questionCategory);
+ * guides have no category, so they are skipped when one is set.
+ */
+export async function search(options: SearchOptions): Promise<SearchResponse> {
+  const limit = Math.min(MAX_SEARCH_LIMIT, Math.max(1, options.limit || DEFAULT_SEARCH_LIMIT));
+  const terms = getSearchTerms(options.query);
+  const requested = options.types && options.types.length > 0 ? options.types : SEARCH_RESULT_TYPES;
+  const types = requested.filter(type => {
+    if ((type === 'question' || type === 'guide') && !options.username) return false;
+    if (type === 'guide' && options.category) return false;
+    return true;
+  });
+
+  const searches: Record<SearchResultType, () => Promise<SearchResult[]>> = {
+    forum: () => searchForums(options, terms, limit),
+    post: () => searchPosts(options, terms, limit),
+    question: () => searchQuestions(options, terms, limit),
+    guide: () => searchGuides(options, terms, limit)
+  };
+
+  const resultsByType = await Promise.all(types.map(type => searches[type]()));
+
+  const counts: Record<SearchResultType, number> = { forum: 0, post: 0, question: 0, guide: 0 };
+  types.forEach((type, index) => {
+    counts[type] = resultsByType[index].length;
+  });
+
+  const results = resultsByType
+    .flat()
+    .sort((a, b) => b.score - a.score || new Date(b.timestamp).getTime() - new Date(a.timestamp).getTime())
+    .slice(0, limit);
+
+  return { results, counts };
+}
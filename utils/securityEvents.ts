@@ -0,0 +1,310 @@
+/**
+ * Security events and login alerts
+ *
+ * Every sign-in is recorded as a 'login' SecurityEvent and checked against the user's earlier
+ * logins and sessions (utils/loginRisk.ts). Unusual sign-ins are emailed to the user with a
+ * one-time "this wasn't me" link; following it (reportSuspiciousLogin()) signs every session out
+ * and forces a password reset. Other account changes (password, email, two-factor, lockouts) are
+ * recorded through recordSecurityEvent() so the account page can show a single timeline.
+ *
+ * Recording never throws: a failure here must not break sign-in or the action being logged.
+ */
+import crypto from 'crypto';
+import mongoose from 'mongoose';
+import { connectToWingmanDB } from './databaseConnections';
+import SecurityEvent, {
+  ISecurityEvent,
+  SecurityEventType,
+  SecurityEventSeverity,
+  LoginRiskReason,
+} from '../models/SecurityEvent';
+import Session from '../models/Session';
+import User, { IUser } from '../models/User';
+import { getDeviceInfo, getIpAddress, getLocationInfo, LocationInfo } from './deviceInfo';
+import { evaluateLoginRisk, describeRiskReason, LoginFingerprintSource } from './loginRisk';
+import { revokeAllUserSessions } from './sessionManagement';
+import { generateResetToken } from './passwordUtils';
+import { sendSuspiciousLoginEmail, sendPasswordResetEmail } from './emailService';
+import { HttpError } from './httpError';
+
+const REPORT_LINK_TTL_MS = 7 * 24 * 60 * 60 * 1000; // 7 days
+const PASSWORD_RESET_TTL_MS = 60 * 60 * 1000; // 1 hour, same as the forgot-password flow
+const LOGIN_HISTORY_LIMIT = 50;
+
+type RequestLike = {
+  headers: { [key: string]: string | string[] | undefined };
+  socket?: { remoteAddress?: string };
+};
+
+const hashReportToken = (token: string) => crypto.createHash('sha256').update(token).digest('hex');
+
+function describeLocation(location?: LocationInfo): string | undefined {
+  if (!location) return undefined;
+  const parts = [location.city, location.region, location.country].filter(Boolean);
+  return parts.length > 0 ? parts.join(', ') : undefined;
+}
+
+function describeDevice(deviceInfo?: { browser?: string; os?: string; device?: string }): string {
+  const browser = deviceInfo?.browser || 'Unknown browser';
+  const os = deviceInfo?.os || 'unknown OS';
+  return deviceInfo?.device ? `${browser} on ${os} (${deviceInfo.device})` : `${browser} on ${os}`;
+}
+
+export interface RecordSecurityEventInput {
+  userId: string;
+  username: string;
+  type: SecurityEventType;
+  severity?: SecurityEventSeverity;
+  req?: RequestLike; // Device, IP and location are taken from the request when given
+  sessionId?: string;
+  riskReasons?: LoginRiskReason[];
+  details?: Record<string, any>;
+}
+
+/**
+ * Add an entry to a user's security timeline
+ * @returns The event, or null if it couldn't be saved
+ */
+export async function recordSecurityEvent(input: RecordSecurityEventInput): Promise<ISecurityEvent | null> {
+  try {
+    if (mongoose.connection.readyState !== 1) {
+      await connectToWingmanDB();
+    }
+
+    const deviceInfo = input.req ? getDeviceInfo(input.req) : undefined;
+    return await SecurityEvent.create({
+      userId: input.userId,
+      username: input.username,
+      type: input.type,
+      severity: input.severity || 'info',
+      riskReasons: input.riskReasons && input.riskReasons.length > 0 ? input.riskReasons : undefined,
+      sessionId: input.sessionId,
+      ipAddress: input.req ? getIpAddress(input.req) : undefined,
+      deviceInfo: deviceInfo
+        ? {
+            userAgent: deviceInfo.userAgent,
+            browser: deviceInfo.browser,
+            os: deviceInfo.os,
+            device: deviceInfo.device,
+          }
+        : undefined,
+      location: input.req ? getLocationInfo(input.req) : undefined,
+      details: input.details,
+    });
+  } catch (error) {
+    console.error(`[SECURITY] Failed to record ${input.type} event for ${input.username}:`, error);
+    return null;
+  }
+}
+
+/**
+ * Record a successful sign-in, evaluate its risk and email the user if it looks unusual
+ *
+ * @param req - Sign-in request
+ * @param user - The signed-in user
+ * @param session - Session record returned by setAuthCookiesWithSession (may be null)
+ * @param priorFailedAttempts - user.failedLoginAttempts before it was reset by this sign-in
+ */
+export async function recordLoginEvent(
+  req: RequestLike,
+  user: IUser,
+  session: { sessionId?: string } | null,
+  priorFailedAttempts: number
+): Promise<void> {
+  try {
+    if (mongoose.connection.readyState !== 1) {
+      await connectToWingmanDB();
+    }
+
+    const [previousLogins, sessions] = await Promise.all([
+      SecurityEvent.find({ userId: user.userId, type: 'login' })
+        .sort({ createdAt: -1 })
+        .limit(LOGIN_HISTORY_LIMIT)
+        .select('deviceInfo location createdAt')
+        .lean(),
+      // Sessions predate login events, so they give existing users a baseline
+      Session.find({
+        userId: user.userId,
+        ...(session?.sessionId ? { sessionId: { $ne: session.sessionId } } : {}),
+      })
+        .sort({ createdAt: -1 })
+        .limit(LOGIN_HISTORY_LIMIT)
+        .select('deviceInfo location createdAt')
+        .lean(),
+    ]);
+
+    const history: LoginFingerprintSource[] = [...previousLogins, ...sessions].map((entry: any) => ({
+      deviceInfo: entry.deviceInfo,
+      location: entry.location,
+      at: new Date(entry.createdAt),
+    }));
+
+    const deviceInfo = getDeviceInfo(req);
+    const location = getLocationInfo(req);
+    const now = new Date();
+    const riskReasons = evaluateLoginRisk(
+      { deviceInfo, location, at: now, priorFailedAttempts },
+      history
+    );
+
+    const event = await recordSecurityEvent({
+      userId: user.userId,
+      username: user.username,
+      type: 'login',
+      severity: riskReasons.length === 0 ? 'info' : riskReasons.indexOf('impossible_travel') !== -1 ? 'critical' : 'warning',
+      req,
+      sessionId: session?.sessionId,
+      riskReasons,
+      details: priorFailedAttempts > 0 ? { priorFailedAttempts } : undefined,
+    });
+
+    if (!event || riskReasons.length === 0 || !user.email) {
+      return;
+    }
+
+    const reportToken = crypto.randomBytes(32).toString('hex');
+    event.reportTokenHash = hashReportToken(reportToken);
+    event.reportTokenExpires = new Date(now.getTime() + REPORT_LINK_TTL_MS);
+    await event.save();
+
+    const emailSent = await sendSuspiciousLoginEmail(
+      user.email,
+      user.username,
+      {
+        at: now,
+        device: describeDevice(deviceInfo),
+        ipAddress: getIpAddress(req),
+        location: describeLocation(location),
+      },
+      riskReasons.map(describeRiskReason),
+      reportToken
+    );
+    if (emailSent) {
+      event.alertSentAt = new Date();
+      await event.save();
+    }
+
+    console.log(
+      `[SECURITY] Unusual sign-in: userId=${user.userId}, username=${user.username}, ` +
+        `reasons=${riskReasons.join(',')}, alertSent=${emailSent}`
+    );
+  } catch (error) {
+    console.error(`[SECURITY] Failed to evaluate sign-in for ${user.username}:`, error);
+  }
+}
+
+/**
+ * Handle the "this wasn't me" link from a login alert: sign out every session, require a
+ * password reset before the next sign-in and email a reset link.
+ * Following the link again after it has been used is harmless.
+ *
+ * @throws HttpError with statusCode 400 for an invalid or expired link, 404 if the user is gone
+ */
+export async function reportSuspiciousLogin(
+  token: string,
+  req?: RequestLike
+): Promise<{ alreadyReported: boolean; resetEmailSent: boolean }> {
+  const event = await SecurityEvent.findOne({
+    reportTokenHash: hashReportToken(token),
+    reportTokenExpires: { $gt: new Date() },
+  });
+  if (!event) {
+    throw new HttpError('This link is invalid or has expired', 400);
+  }
+  if (event.reportedAt) {
+    return { alreadyReported: true, resetEmailSent: false };
+  }
+
+  const user = await User.findOne({ userId: event.userId });
+  if (!user) {
+    throw new HttpError('Account not found', 404);
+  }
+
+  event.reportedAt = new Date();
+  await event.save();
+
+  if (event.sessionId) {
+    await Session.updateOne({ sessionId: event.sessionId }, { $set: { isActive: false } });
+  }
+  const revokedCount = await revokeAllUserSessions(user.userId);
+
+  const resetToken = generateResetToken();
+  user.passwordResetToken = resetToken;
+  user.passwordResetExpires = new Date(Date.now() + PASSWORD_RESET_TTL_MS);
+  user.passwordResetRequired = true;
+  await user.save();
+
+  const resetEmailSent = await sendPasswordResetEmail(user.email, resetToken, user.username);
+
+  await recordSecurityEvent({
+    userId: user.userId,
+    username: user.username,
+    type: 'login_reported',
+    severity: 'critical',
+    req,
+    details: { reportedEventId: String(event._id), revokedSessions: revokedCount },
+  });
+
+  console.log(
+    `[SECURITY] Sign-in reported by user: userId=${user.userId}, username=${user.username}, ` +
+      `eventId=${event._id}, revokedSessions=${revokedCount}`
+  );
+
+  return { alreadyReported: false, resetEmailSent };
+}
+
+export interface SecurityEventSummary {
+  id: string;
+  type: SecurityEventType;
+  severity: SecurityEventSeverity;
+  createdAt?: Date;
+  device?: string;
+  ipAddress?: string;
+  location?: string;
+  riskReasons: string[];
+  reportedAt?: Date;
+  details?: Record<string, any>;
+}
+
+export function serializeSecurityEvent(event: any): SecurityEventSummary {
+  return {
+    id: String(event._id),
+    type: event.type,
+    severity: event.severity,
+    createdAt: event.createdAt,
+    device: event.deviceInfo ? describeDevice(event.deviceInfo) : undefined,
+    ipAddress: event.ipAddress,
+    location: describeLocation(event.location),
+    riskReasons: (event.riskReasons || []).map(describeRiskReason),
+    reportedAt: event.reportedAt,
+    details: event.details,
+  };
+}
+
+/**
+ * Newest-first security timeline for the account page
+ */
+export async function getSecurityTimeline(
+  userId: string,
+  options: { limit?: number; before?: Date } = {}
+): Promise<SecurityEventSummary[]> {
+  const query: Record<string, any> = { userId };
+  if (options.before) {
+    query.createdAt = { $lt: options.before };
+  }
+
+  const events = await SecurityEvent.find(query)
+    .sort({ createdAt: -1 })
+    .limit(Math.min(options.limit || 25, 100))
+    .lean();
+
+  return events.map(serializeSecurityEvent);
+}
+
+/**
+ * Remove a user's security events (account deletion)
+ */
+export async function deleteUserSecurityEvents(userId: string): Promise<number> {
+  const result = await SecurityEvent.deleteMany({ userId });
+  return result.deletedCount || 0;
+}
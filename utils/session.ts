@@ -2,6 +2,7 @@ import type { NextApiRequest, NextApiResponse } from 'next';
 import { serialize } from 'cookie';
 import { generateAccessToken, generateRefreshToken, verifyAccessToken, extractTokenFromHeader } from './jwt';
 import { createOrUpdateSession } from './sessionManagement';
+import type { ISession } from '../models/Session';
 
 // Cookie configuration
 const COOKIE_OPTIONS = {
@@ -169,6 +170,7 @@ export const setAuthCookiesWithDomain = (
 /**
  * Set authentication cookies and create/update session record
  * This is the preferred method for new logins and token refreshes
+ * @returns The session record, or null if it couldn't be created
  */
 export const setAuthCookiesWithSession = async (
   req: NextApiRequest,
@@ -176,14 +178,15 @@ export const setAuthCookiesWithSession = async (
   userId: string,
   username: string,
   email?: string
-): Promise<void> => {
+): Promise<ISession | null> => {
   // Generate tokens
   const accessToken = generateAccessToken({ userId, username, email });
   const refreshToken = generateRefreshToken({ userId, username, email });
 
   // Create or update session record (non-blocking - don't fail if this errors)
+  let session: ISession | null = null;
   try {
-    await createOrUpdateSession(req, userId, username, refreshToken);
+    session = await createOrUpdateSession(req, userId, username, refreshToken);
   } catch (error) {
     // Log error but don't fail authentication
     console.error('Error creating session record:', error);
@@ -218,6 +221,8 @@ export const setAuthCookiesWithSession = async (
     // Standard approach: set both as array
     res.setHeader('Set-Cookie', [accessTokenCookie, refreshTokenCookie]);
   }
+
+  return session;
 };
 
 /**
@@ -1,7 +1,7 @@
 import { connectToWingmanDB } from './databaseConnections';
 import Session from '../models/Session';
 import { hashToken } from './tokenBlacklist';
-import { getDeviceInfo, getIpAddress } from './deviceInfo';
+import { getDeviceInfo, getIpAddress, getLocationInfo } from './deviceInfo';
 import { NextApiRequest } from 'next';
 import mongoose from 'mongoose';
 import crypto from 'crypto';
@@ -46,6 +46,7 @@ export async function createOrUpdateSession(
     // Extract device information
     const deviceInfo = getDeviceInfo(req);
     const ipAddress = getIpAddress(req);
+    const location = getLocationInfo(req);
 
     // Check if session already exists by refreshTokenHash (primary lookup)
     let existingSession = await Session.findOne({ refreshTokenHash });
@@ -60,6 +61,7 @@ export async function createOrUpdateSession(
         existingSession.lastActivity = new Date();
         existingSession.deviceInfo = deviceInfo;
         existingSession.ipAddress = ipAddress;
+        if (location) existingSession.location = location;
         await existingSession.save();
         return existingSession;
       }
@@ -69,6 +71,7 @@ export async function createOrUpdateSession(
       existingSession.isActive = true;
       existingSession.deviceInfo = deviceInfo;
       existingSession.ipAddress = ipAddress;
+      if (location) existingSession.location = location;
       await existingSession.save();
       return existingSession;
     }
@@ -87,6 +90,7 @@ export async function createOrUpdateSession(
         existingSession.lastActivity = new Date();
         existingSession.deviceInfo = deviceInfo;
         existingSession.ipAddress = ipAddress;
+        if (location) existingSession.location = location;
         await existingSession.save();
         return existingSession;
       }
@@ -97,6 +101,7 @@ export async function createOrUpdateSession(
       existingSession.isActive = true;
       existingSession.deviceInfo = deviceInfo;
       existingSession.ipAddress = ipAddress;
+      if (location) existingSession.location = location;
       await existingSession.save();
       return existingSession;
     }
@@ -150,6 +155,7 @@ export async function createOrUpdateSession(
           refreshTokenHash,
           deviceInfo,
           ipAddress,
+          ...(location ? { location } : {}),
           lastActivity: new Date(),
           isActive: true, // New sessions are always active
         },
@@ -174,6 +180,7 @@ export async function createOrUpdateSession(
             existing.lastActivity = new Date();
             existing.deviceInfo = deviceInfo;
             existing.ipAddress = ipAddress;
+            if (location) existing.location = location;
             await existing.save();
             return existing;
           }
@@ -184,6 +191,7 @@ export async function createOrUpdateSession(
           existing.isActive = true;
           existing.deviceInfo = deviceInfo;
           existing.ipAddress = ipAddress;
+          if (location) existing.location = location;
           await existing.save();
           return existing;
         }
@@ -0,0 +1,153 @@
+/**
+ * Shared cache and rate-limit store
+ *
+ * Caches and rate limits that must agree across instances (dynos) go through one SharedStore:
+ * - RedisStore (utils/redisStore.ts) when REDIS_URL is set
+ * - MemoryStore (utils/cacheManager.ts) otherwise, which only covers this process
+ *
+ * Most code should use the helpers below rather than the store itself: SharedCache for cached
+ * values, consumeRateLimit() for limits. Both keep working when the store is unreachable, treating
+ * it as a cache miss and allowing the request respectively. Local LRU caches that need to be
+ * dropped everywhere at once use cacheManager.invalidate(), which publishes through the store.
+ */
+import crypto from 'crypto';
+import { MemoryStore, cacheManager } from './cacheManager';
+import { RedisStore } from './redisStore';
+
+export interface CounterState {
+  count: number;
+  resetAt: number; // Epoch ms when the window ends
+}
+
+export interface SharedStore {
+  readonly backend: 'memory' | 'redis';
+  /** Values must be JSON-serializable */
+  get<T>(key: string): Promise<T | null>;
+  set<T>(key: string, value: T, ttlMs: number): Promise<void>;
+  /** Removes a value or a counter */
+  delete(key: string): Promise<void>;
+  /**
+   * Fixed-window counter: the first increment starts a window of `windowMs`, later ones add to it
+   * until it expires. A negative `by` never starts a window.
+   */
+  increment(key: string, windowMs: number, by?: number): Promise<CounterState>;
+  publish(channel: string, message: string): Promise<void>;
+  subscribe(channel: string, handler: (message: string) => void): Promise<void>;
+  close(): Promise<void>;
+}
+
+// server.ts and the Next.js API bundles load separate copies of this module,
+// so the store is shared through globalThis to keep one connection and one set of counters
+const storeGlobal = globalThis as typeof globalThis & { wingmanSharedStore?: SharedStore };
+
+const ERROR_LOG_INTERVAL_MS = 30 * 1000;
+let lastErrorLogAt = 0;
+
+// An unreachable store fails every call; one warning per interval is enough
+const logStoreError = (operation: string, error: unknown) => {
+  const now = Date.now();
+  if (now - lastErrorLogAt < ERROR_LOG_INTERVAL_MS) return;
+  lastErrorLogAt = now;
+  console.warn(
+    `[SharedStore] ${operation} failed, continuing without the shared store:`,
+    error instanceof Error ? error.message : error
+  );
+};
+
+/**
+ * Get the process-wide store, creating it on first use
+ */
+export function getSharedStore(): SharedStore {
+  if (!storeGlobal.wingmanSharedStore) {
+    const redisUrl = process.env.REDIS_URL;
+    storeGlobal.wingmanSharedStore = redisUrl
+      ? new RedisStore(redisUrl, process.env.REDIS_KEY_PREFIX || 'wingman:')
+      : new MemoryStore();
+    console.log(`[SharedStore] Using ${storeGlobal.wingmanSharedStore.backend} store`);
+  }
+
+  // Each copy of cacheManager listens for itself
+  cacheManager.listenForInvalidations(storeGlobal.wingmanSharedStore);
+  return storeGlobal.wingmanSharedStore;
+}
+
+/**
+ * Close the store's connections (graceful shutdown)
+ */
+export async function closeSharedStore(): Promise<void> {
+  const store = storeGlobal.wingmanSharedStore;
+  if (!store) return;
+  storeGlobal.wingmanSharedStore = undefined;
+  await store.close();
+}
+
+/**
+ * A namespaced cache on the shared store
+ * Store failures are logged and treated as misses, so an outage only costs cache hits.
+ */
+export class SharedCache<T> {
+  /**
+   * @param namespace - Key prefix, unique per cache
+   * @param defaultTTL - Default TTL in milliseconds
+   */
+  constructor(private namespace: string, private defaultTTL: number) {}
+
+  private key(key: string): string {
+    return `cache:${this.namespace}:${key}`;
+  }
+
+  async get(key: string): Promise<T | null> {
+    try {
+      return await getSharedStore().get<T>(this.key(key));
+    } catch (error) {
+      logStoreError(`get ${this.namespace}`, error);
+      return null;
+    }
+  }
+
+  async set(key: string, value: T, ttl?: number): Promise<void> {
+    try {
+      await getSharedStore().set(this.key(key), value, ttl || this.defaultTTL);
+    } catch (error) {
+      logStoreError(`set ${this.namespace}`, error);
+    }
+  }
+
+  async delete(key: string): Promise<void> {
+    try {
+      await getSharedStore().delete(this.key(key));
+    } catch (error) {
+      logStoreError(`delete ${this.namespace}`, error);
+    }
+  }
+}
+
+/**
+ * Hash a long or free-text cache key (questions, URLs) into a short, safe one
+ */
+export const hashCacheKey = (key: string): string =>
+  crypto.createHash('sha256').update(key).digest('hex').slice(0, 32);
+
+export interface RateLimitResult {
+  allowed: boolean;
+  count: number; // Hits in the current window, including this one
+  resetAt: number; // Epoch ms when the window ends
+}
+
+/**
+ * Count a hit against a fixed-window limit shared by every instance
+ * Fails open: if the store is unreachable the hit is allowed.
+ *
+ * @param key - Identifies the limited client, e.g. `twitch:<channel>:<user>`
+ * @param max - Hits allowed per window
+ * @param windowMs - Window length in milliseconds
+ */
+export async function consumeRateLimit(key: string, max: number, windowMs: number): Promise<RateLimitResult> {
+  try {
+    const state = await getSharedStore().increment(`ratelimit:${key}`, windowMs);
+    return { allowed: state.count <= max, count: state.count, resetAt: state.resetAt };
+  } catch (error) {
+    logStoreError('rate limit', error);
+    return { allowed: true, count: 0, resetAt: Date.now() + windowMs };
+  }
+}
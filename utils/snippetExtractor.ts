@@ -1,5 +1,5 @@
 /**
- * Utility to extract key snippets from AI responses for shareable cards
+ * Utility to extract key snippets from AI responses for shareable cards and search results
  */
 
 /**
@@ -125,3 +125,73 @@ export function extractGameTitle(detectedGame?: string, question?: string): stri
   return 'Video Game Question';
 }
 
+
+/**
+ * Extracts a search result snippet centred on the first matching term
+ * Matches are returned as character ranges into the snippet so the client can highlight them
+ * without rendering HTML from the server.
+ * @param text - Full text (markdown is stripped the same way as extractSnippet)
+ * @param terms - Lowercase search terms
+ * @param maxLength - Maximum snippet length before ellipses (default: 200)
+ * @returns Snippet and highlight ranges (end is exclusive)
+ */
+export function extractHighlightedSnippet(
+  text: string,
+  terms: string[],
+  maxLength: number = 200
+): { snippet: string; highlights: Array<{ start: number; end: number }> } {
+  if (!text) {
+    return { snippet: '', highlights: [] };
+  }
+
+  const cleaned = extractSnippet(text, Number.MAX_SAFE_INTEGER).replace(/\s+/g, ' ');
+  const lower = cleaned.toLowerCase();
+
+  // Start the window a little before the first match so it has some context
+  const firstMatch = terms
+    .map(term => lower.indexOf(term))
+    .filter(index => index >= 0)
+    .sort((a, b) => a - b)[0];
+
+  let start = 0;
+  if (firstMatch !== undefined && cleaned.length > maxLength) {
+    start = Math.max(0, firstMatch - Math.floor(maxLength / 4));
+    const wordStart = cleaned.lastIndexOf(' ', start);
+    start = wordStart > 0 && start - wordStart < 20 ? wordStart + 1 : start;
+  }
+  let end = Math.min(cleaned.length, start + maxLength);
+  if (end < cleaned.length) {
+    const wordEnd = cleaned.lastIndexOf(' ', end);
+    end = wordEnd > start + maxLength * 0.7 ? wordEnd : end;
+  }
+
+  const prefix = start > 0 ? '...' : '';
+  const suffix = end < cleaned.length ? '...' : '';
+  const body = cleaned.substring(start, end);
+  const snippet = prefix + body + suffix;
+
+  const highlights: Array<{ start: number; end: number }> = [];
+  const bodyLower = body.toLowerCase();
+  for (const term of terms) {
+    if (!term) continue;
+    let index = bodyLower.indexOf(term);
+    while (index >= 0) {
+      highlights.push({ start: prefix.length + index, end: prefix.length + index + term.length });
+      index = bodyLower.indexOf(term, index + term.length);
+    }
+  }
+
+  // Sort and merge overlapping ranges (e.g. "boss" inside "bosses")
+  highlights.sort((a, b) => a.start - b.start);
+  const merged: Array<{ start: number; end: number }> = [];
+  for (const range of highlights) {
+    const last = merged[merged.length - 1];
+    if (last && range.start <= last.end) {
+      last.end = Math.max(last.end, range.end);
+    } else {
+      merged.push({ ...range });
+    }
+  }
+
+  return { snippet, highlights: merged };
+}
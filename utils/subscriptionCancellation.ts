@@ -0,0 +1,97 @@
+import Stripe from 'stripe';
+import User, { IUser } from '../models/User';
+
+const stripe = new Stripe(process.env.STRIPE_SECRET_KEY!, {
+  apiVersion: '2025-05-28.basil',
+});
+
+export interface SubscriptionCancellationResult {
+  message: string;
+  subscriptionStatus: 'canceled_at_period_end' | 'expired';
+  accessUntil: Date;
+}
+
+/**
+ * Revoke Pro access immediately (legacy subscriptions, or Stripe subscriptions that no longer exist)
+ */
+async function expireProAccess(user: IUser): Promise<SubscriptionCancellationResult> {
+  await User.findOneAndUpdate(
+    { _id: user._id },
+    {
+      hasProAccess: false,
+      'subscription.status': 'expired_free',
+      'subscription.cancelAtPeriodEnd': false,
+      'subscription.canceledAt': new Date(),
+      'subscription.currentPeriodEnd': new Date(),
+      'subscription.earlyAccessGranted': false
+    }
+  );
+
+  return {
+    message: 'Subscription canceled and Pro access removed immediately.',
+    subscriptionStatus: 'expired',
+    accessUntil: new Date()
+  };
+}
+
+/**
+ * Cancel a user's Pro subscription.
+ * Stripe subscriptions are canceled at the end of the current billing period; legacy Pro access
+ * (no Stripe subscription) is removed immediately.
+ * @throws Error with statusCode 502 if Stripe rejects the cancellation
+ */
+export async function cancelUserSubscription(user: IUser): Promise<SubscriptionCancellationResult> {
+  if (!user.subscription?.stripeSubscriptionId) {
+    const result = await expireProAccess(user);
+    console.log(`Legacy subscription canceled and access revoked for user: ${user.username}`);
+    return result;
+  }
+
+  const stripeSubscriptionId = user.subscription.stripeSubscriptionId;
+  try {
+    // First, try to retrieve the subscription to verify it exists
+    try {
+      await stripe.subscriptions.retrieve(stripeSubscriptionId);
+    } catch (retrieveError) {
+      console.log(`Stripe subscription ${stripeSubscriptionId} not found, treating as legacy subscription`);
+      return expireProAccess(user);
+    }
+
+    // If subscription exists, cancel it at the end of the current period
+    const subscription = await stripe.subscriptions.update(
+      stripeSubscriptionId,
+      {
+        cancel_at_period_end: true,
+      }
+    ) as Stripe.Subscription;
+
+    console.log(`Stripe subscription ${stripeSubscriptionId} set to cancel at period end`);
+
+    const accessUntil = new Date((subscription as any).current_period_end * 1000);
+
+    // Update our database to reflect the cancellation
+    await User.findOneAndUpdate(
+      { _id: user._id },
+      {
+        'subscription.status': 'active', // Keep as active until period ends
+        'subscription.cancelAtPeriodEnd': true,
+        'subscription.canceledAt': new Date(),
+        'subscription.currentPeriodEnd': accessUntil,
+        // Keep hasProAccess true until the period ends
+        hasProAccess: true
+      }
+    );
+
+    return {
+      message: 'Subscription canceled successfully. You will retain access until the end of your current billing period.',
+      subscriptionStatus: 'canceled_at_period_end',
+      accessUntil
+    };
+  } catch (stripeError) {
+    console.error('Stripe cancellation error:', stripeError);
+    const error = new Error('Failed to cancel subscription with Stripe. Please contact support.');
+    (error as any).statusCode = 502;
+    (error as any).details = stripeError instanceof Error ? stripeError.message : 'Unknown Stripe error';
+    throw error;
+  }
+}
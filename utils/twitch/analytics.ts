@@ -1,6 +1,7 @@
 import { connectToWingmanDB } from '../databaseConnections';
 import { logger } from '../logger';
 import TwitchBotAnalytics from '../../models/TwitchBotAnalytics';
+import TwitchEngagementEvent from '../../models/TwitchEngagementEvent';
 
 /**
  * Interface for message event data to be logged
@@ -106,11 +107,53 @@ export interface ChannelStatistics {
   moderationActions: number;
   newUsers: number;
   returningUsers: number;
+  trivia: TriviaStatistics;
   days?: number; // Time period analyzed
   startDate: Date;
   endDate: Date;
 }
 
+/**
+ * Interface for trivia round and prediction statistics, from the channel's engagement events
+ */
+export interface TriviaStatistics {
+  rounds: number;
+  predictions: number;
+  participants: number; // Summed over rounds and predictions, so regulars count once per round
+  correctAnswers: number; // Correct answers and called predictions
+}
+
+/**
+ * Sum the trivia rounds and predictions a channel played in a time range
+ */
+async function getTriviaStatistics(
+  channelName: string,
+  startDate: Date,
+  endDate: Date
+): Promise<TriviaStatistics> {
+  const [totals] = await TwitchEngagementEvent.aggregate<TriviaStatistics>([
+    {
+      $match: {
+        channelName,
+        eventType: { $in: ['trivia_round', 'prediction_round'] },
+        eventTimestamp: { $gte: startDate, $lte: endDate }
+      }
+    },
+    {
+      $group: {
+        _id: null,
+        rounds: { $sum: { $cond: [{ $eq: ['$eventType', 'trivia_round'] }, 1, 0] } },
+        predictions: { $sum: { $cond: [{ $eq: ['$eventType', 'prediction_round'] }, 1, 0] } },
+        participants: { $sum: { $ifNull: ['$participants', 0] } },
+        correctAnswers: { $sum: { $ifNull: ['$correctAnswers', 0] } }
+      }
+    },
+    { $project: { _id: 0, rounds: 1, predictions: 1, participants: 1, correctAnswers: 1 } }
+  ]);
+
+  return totals || { rounds: 0, predictions: 0, participants: 0, correctAnswers: 0 };
+}
+
 /**
  * Generate a unique message ID for analytics
  */
@@ -471,10 +514,13 @@ export async function getChannelStatistics(
     startDate.setDate(startDate.getDate() - days);
 
     // Query channel analytics
-    const channelAnalytics = await TwitchBotAnalytics.find({
-      channelName: normalizedChannel,
-      receivedAt: { $gte: startDate, $lte: endDate }
-    });
+    const [channelAnalytics, trivia] = await Promise.all([
+      TwitchBotAnalytics.find({
+        channelName: normalizedChannel,
+        receivedAt: { $gte: startDate, $lte: endDate }
+      }),
+      getTriviaStatistics(normalizedChannel, startDate, endDate)
+    ]);
 
     if (channelAnalytics.length === 0) {
       return {
@@ -500,6 +546,7 @@ export async function getChannelStatistics(
         moderationActions: 0,
         newUsers: 0,
         returningUsers: 0,
+        trivia,
         days,
         startDate,
         endDate
@@ -601,6 +648,7 @@ export async function getChannelStatistics(
       moderationActions,
       newUsers,
       returningUsers,
+      trivia,
       days,
       startDate,
       endDate
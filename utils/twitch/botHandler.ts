@@ -1,17 +1,41 @@
 import tmi from 'tmi.js';
 import { botConfig } from '../../config/botConfig';
-import { getChatCompletion } from '../aiHelper';
+import { getChatCompletion, extractGameTitleFromQuestion, enhanceQuestionWithGameContext } from '../aiHelper';
+import { runWithLLMUsageContext, recordLLMCacheHit, LLMUsageContext } from '../llmUsageLedger';
 import { checkProAccess } from '../proAccessUtil';
 import { logger } from '../logger';
 import { connectToWingmanDB } from '../databaseConnections';
 import User from '../../models/User';
 import TwitchBotChannel from '../../models/TwitchBotChannel';
-import { RateLimit } from '../../types';
+import { consumeRateLimit } from '../sharedStore';
 import { checkMessageContent, checkAIResponse, getSafeFallbackResponse, handleModerationViolation, checkTwitchUserBanStatus } from './twitchModeration';
 import { logMessageEvent } from './analytics';
 import { getPerformanceMonitor, measureOperation, measureDBQuery, measureAPICall } from './performanceMonitor';
 import { shortenMarkdownLinks } from '../linkShortener';
 import { getChannelSettings, TwitchChannelSettings, defaultChannelSettings } from '../../config/twitchChannelSettings';
+import { normalizeCommandName, TwitchCommandPermission } from '../../config/twitchCustomCommands';
+import {
+  getCustomCommands,
+  hasCommandPermission,
+  recordCommandUse,
+  getChannelGame,
+  renderCommandResponse,
+  templateUses
+} from './customCommands';
+import { TwitchTimerRunner } from './timers';
+import { getNowPlaying, setNowPlayingOverride } from './nowPlaying';
+import {
+  TwitchQuestionQueueRunner,
+  QueuedQuestionRecord,
+  getQuestionQueueSettings,
+  enqueueQuestion,
+  upvoteQuestion
+} from './questionQueue';
+import { TwitchTriviaRunner, getTriviaSettings, getActiveTriviaRound, getTriviaLeaderboard } from './trivia';
+import { TwitchPredictionRunner, getActivePrediction, formatPredictionOutcomes } from './predictions';
+import { parsePrediction, matchPredictionOutcome } from '../../config/twitchPredictions';
+import type { EngagementTracker } from './engagementTracker';
+import { TwitchNowPlaying, getCurrentGame, validateGameTitle, validateSessionNotes } from '../../config/twitchNowPlaying';
 
 // Twitch message types from tmi.js
 type ChatUserstate = tmi.ChatUserstate;
@@ -24,23 +48,30 @@ export type ChatMessage = {
 
 export class TwitchBotHandler {
   private client: tmi.Client;
-  private rateLimits: Map<string, RateLimit>;
   private responseCache: Map<string, { response: string; timestamp: number }>;
   private messageQueue: Map<string, Promise<void>>;
   private processedMessages: Map<string, number>; // Track processed messages to prevent duplicates
   private channelSettingsCache: Map<string, { settings: TwitchChannelSettings; timestamp: number }>; // Cache channel settings
+  private timerRunner: TwitchTimerRunner; // Posts channel timers and scheduled announcements
+  private questionQueueRunner: TwitchQuestionQueueRunner; // Answers questions approved from the queue
+  private triviaRunner: TwitchTriviaRunner; // Runs !trivia rounds
+  private predictionRunner: TwitchPredictionRunner; // Runs !predict predictions
   private readonly MAX_RETRIES = 3;
   private readonly MESSAGE_DEDUP_WINDOW = 10000; // 10 seconds - prevent processing same message twice
   private readonly CHANNEL_SETTINGS_CACHE_TTL = 300000; // 5 minutes - cache channel settings
+  private readonly TIMER_CHECK_INTERVAL = 30000; // 30 seconds - check for due timers, announcements and trivia rounds and predictions
   private readonly BOT_USERNAME: string; // Default bot username (can be overridden per channel)
 
-  constructor(client: tmi.Client) {
+  constructor(client: tmi.Client, engagementTracker: EngagementTracker) {
     this.client = client;
-    this.rateLimits = new Map();
     this.responseCache = new Map();
     this.messageQueue = new Map();
     this.processedMessages = new Map();
     this.channelSettingsCache = new Map();
+    this.timerRunner = new TwitchTimerRunner(client);
+    this.questionQueueRunner = new TwitchQuestionQueueRunner(client, item => this.answerQueuedQuestion(item));
+    this.triviaRunner = new TwitchTriviaRunner(client, event => engagementTracker.recordEngagementEvent(event));
+    this.predictionRunner = new TwitchPredictionRunner(client, event => engagementTracker.recordEngagementEvent(event));
     this.BOT_USERNAME = process.env.TWITCH_BOT_USERNAME?.toLowerCase() || 'herogamewingman';
     this.setupEventHandlers();
     this.startMaintenanceTasks();
@@ -58,6 +89,9 @@ export class TwitchBotHandler {
       const displayName = userstate['display-name'] || username;
       const normalizedChannel = channel.replace('#', '').toLowerCase();
 
+      // Timers only post once chat has been active since their last post
+      this.timerRunner.recordChatLine(normalizedChannel);
+
       // Load channel settings (cached)
       const channelSettings = await this.getChannelSettings(normalizedChannel);
 
@@ -74,6 +108,46 @@ export class TwitchBotHandler {
         return;
       }
 
+      if (messageLower === '!game' || messageLower.startsWith('!game ')) {
+        // A custom !game saved before the built-in one existed keeps answering while it is enabled
+        if (!(await this.handleCustomCommand(channel, displayName, userstate, message, channelSettings))) {
+          await this.handleGameCommand(channel, displayName, userstate, message);
+        }
+        return;
+      }
+
+      // Without the question queue, trivia (or predictions), !upvote, !trivia, !predict and !top are
+      // left to custom commands created before they existed
+      if ((messageLower === '!upvote' || messageLower.startsWith('!upvote ')) &&
+          await this.handleUpvoteCommand(channel, displayName, userstate, message)) {
+        return;
+      }
+
+      if ((messageLower === '!trivia' || messageLower.startsWith('!trivia ')) &&
+          await this.handleTriviaCommand(channel, displayName, userstate, message)) {
+        return;
+      }
+
+      if ((messageLower === '!predict' || messageLower.startsWith('!predict ')) &&
+          await this.handlePredictCommand(channel, displayName, userstate, message)) {
+        return;
+      }
+
+      if ((messageLower === '!top' || messageLower.startsWith('!top ')) &&
+          await this.handleTopCommand(channel, displayName, userstate)) {
+        return;
+      }
+
+      // Streamer-defined custom commands (!specs, !schedule, ...)
+      if (messageLower.startsWith('!') && await this.handleCustomCommand(channel, displayName, userstate, message, channelSettings)) {
+        return;
+      }
+
+      // Any other chat line can be an answer to a running trivia round
+      if (!messageLower.startsWith('!')) {
+        await this.triviaRunner.checkAnswer(normalizedChannel, username, displayName, message);
+      }
+
       // Check if message is directed at the bot using channel-specific settings
       const botMentioned = this.isBotMentioned(message, channelSettings);
 
@@ -123,7 +197,7 @@ export class TwitchBotHandler {
 
       try {
         // Check rate limits using channel-specific settings
-        if (!this.checkRateLimit(username, normalizedChannel, channelSettings)) {
+        if (!(await this.checkRateLimit(username, normalizedChannel, channelSettings))) {
           logger.warn('Rate limit exceeded', { username, channel: normalizedChannel });
           await this.sendMessage(channel, `@${displayName} You're sending messages too quickly. Please wait a moment.`);
           return;
@@ -310,12 +384,48 @@ export class TwitchBotHandler {
         ? [`• @${settings.botMentionName} <question> — Mention me with a question`]
         : [];
       
+      // Streamer-defined commands, noting the ones not everyone can use
+      const permissionLabels: Record<TwitchCommandPermission, string> = {
+        everyone: '',
+        subscriber: ' (subs)',
+        vip: ' (VIPs)',
+        moderator: ' (mods)',
+        broadcaster: ' (streamer)'
+      };
+      const customCommands = (await getCustomCommands(normalizedChannel)).filter(command => command.enabled);
+      const customEntries = customCommands.length > 0
+        ? [
+            `Channel commands:`,
+            ...customCommands.map(command => `• !${command.name}${permissionLabels[command.permission] || ''}`)
+          ]
+        : [];
+
+      const queueEntry = (await getQuestionQueueSettings(normalizedChannel)).enabled
+        ? [`• !upvote <number> — Vote for a question in the queue`]
+        : [];
+      const triviaSettings = await getTriviaSettings(normalizedChannel);
+      const triviaEntries = [
+        ...(triviaSettings.enabled
+          ? [`• !trivia — Show the trivia question (mods: start a round, !trivia end)`]
+          : []),
+        ...(triviaSettings.predictionsEnabled
+          ? [`• !predict <number> — Vote in the open prediction (mods: !predict <question> | <outcome> | <outcome>, !predict result <number>, !predict cancel)`]
+          : []),
+        ...(triviaSettings.enabled || triviaSettings.predictionsEnabled
+          ? [`• !top — Trivia leaderboard`]
+          : [])
+      ];
+
       const commandsList = [
         `@${displayName} 📋 Available Commands:`,
         `• !help — Show this help message`,
         `• !commands — List all commands`,
+        `• !game — Show the game being played (mods: !game <title>, !game notes <text>, !game clear)`,
+        ...queueEntry,
+        ...triviaEntries,
         ...commandEntries,
         ...mentionEntry,
+        ...customEntries,
         ``,
         `💡 Tip: Link your Twitch account on our website for Pro access!`
       ];
@@ -400,6 +510,579 @@ export class TwitchBotHandler {
     }
   }
 
+  /**
+   * Handle a streamer-defined custom command
+   * @returns true if the message named one of the channel's commands (even if it was not answered
+   * because of permissions or cooldown), false to let it fall through to the AI handling
+   */
+  private async handleCustomCommand(
+    channel: string,
+    displayName: string,
+    userstate: ChatUserstate,
+    message: string,
+    settings: TwitchChannelSettings
+  ): Promise<boolean> {
+    const normalizedChannel = channel.replace('#', '').toLowerCase();
+    const [commandWord, ...argWords] = message.trim().split(/\s+/);
+    const commandName = normalizeCommandName(commandWord);
+
+    const command = (await getCustomCommands(normalizedChannel)).find(
+      candidate => candidate.enabled && candidate.name === commandName
+    );
+    if (!command) {
+      return false;
+    }
+
+    const receivedAt = new Date();
+    const username = userstate.username || 'unknown';
+
+    // Restricted commands are silently ignored, like most chat bots do
+    if (!hasCommandPermission(userstate, normalizedChannel, command.permission)) {
+      logger.debug('Custom command ignored, insufficient permission', {
+        channel: normalizedChannel,
+        username,
+        command: command.name,
+        required: command.permission
+      });
+      return true;
+    }
+
+    // Cooldowns are per command and channel, shared across instances
+    if (command.cooldownSeconds > 0) {
+      const { allowed } = await consumeRateLimit(
+        `twitch-command:${normalizedChannel}:${command.name}`,
+        1,
+        command.cooldownSeconds * 1000
+      );
+      if (!allowed) {
+        return true;
+      }
+    }
+
+    // {args} echoes chat input, so it gets the same moderation as questions
+    const args = argWords.join(' ');
+    if (args && templateUses(command.response, 'args')) {
+      const moderationCheck = await checkMessageContent(args, username, normalizedChannel);
+      if (!moderationCheck.shouldProcess) {
+        logger.info('Custom command arguments blocked by moderation', {
+          channel: normalizedChannel,
+          username,
+          command: command.name,
+          reason: moderationCheck.reason
+        });
+        return true;
+      }
+    }
+
+    const processedAt = new Date();
+    try {
+      const [count, game] = await Promise.all([
+        recordCommandUse(normalizedChannel, command.name),
+        templateUses(command.response, 'game') ? this.getGameForCommand(normalizedChannel) : Promise.resolve('')
+      ]);
+
+      const response = renderCommandResponse(
+        command.response,
+        {
+          user: displayName,
+          channel: normalizedChannel,
+          game: game || 'an unknown game',
+          count: count ?? command.useCount + 1,
+          args
+        },
+        settings.maxMessageLength
+      );
+      if (response) {
+        await this.sendMessage(channel, response);
+      }
+
+      const respondedAt = new Date();
+      await logMessageEvent({
+        channelName: normalizedChannel,
+        twitchUsername: username,
+        displayName: displayName,
+        messageType: 'command',
+        command: `!${command.name}`,
+        questionLength: args.length,
+        responseLength: response.length,
+        processingTimeMs: processedAt.getTime() - receivedAt.getTime(),
+        aiResponseTimeMs: 0, // Commands don't use AI
+        totalTimeMs: respondedAt.getTime() - receivedAt.getTime(),
+        cacheHit: false,
+        success: true,
+        receivedAt,
+        processedAt,
+        respondedAt
+      });
+
+      logger.info('Custom command executed', { channel, displayName, command: command.name });
+    } catch (error) {
+      const respondedAt = new Date();
+      logger.error('Error executing custom command:', { error, channel, command: command.name });
+
+      await logMessageEvent({
+        channelName: normalizedChannel,
+        twitchUsername: username,
+        displayName: displayName,
+        messageType: 'command',
+        command: `!${command.name}`,
+        questionLength: args.length,
+        responseLength: 0,
+        processingTimeMs: processedAt.getTime() - receivedAt.getTime(),
+        aiResponseTimeMs: 0,
+        totalTimeMs: respondedAt.getTime() - receivedAt.getTime(),
+        cacheHit: false,
+        success: false,
+        errorType: 'api_error',
+        errorMessage: error instanceof Error ? error.message : 'Unknown error',
+        receivedAt,
+        processedAt,
+        respondedAt
+      });
+    }
+
+    return true;
+  }
+
+  /**
+   * Handle !game - show or set the game and session notes chat questions are answered against
+   * Anyone can view it; mods and the streamer can set it:
+   *   !game <title>, !game notes <text>, !game notes clear, !game clear (back to the Twitch category)
+   */
+  private async handleGameCommand(
+    channel: string,
+    displayName: string,
+    userstate: ChatUserstate,
+    message: string
+  ): Promise<void> {
+    const receivedAt = new Date();
+    const username = userstate.username || 'unknown';
+    const normalizedChannel = channel.replace('#', '').toLowerCase();
+    const args = message.trim().split(/\s+/).slice(1).join(' ');
+    const isModerator = hasCommandPermission(userstate, normalizedChannel, 'moderator');
+
+    let response: string;
+    try {
+      if (!args) {
+        // Viewers share a cooldown so the command cannot be used to flood chat
+        if (!isModerator) {
+          const { allowed } = await consumeRateLimit(`twitch-command:${normalizedChannel}:game`, 1, 5000);
+          if (!allowed) return;
+        }
+
+        const nowPlaying = await this.getStreamContext(normalizedChannel);
+        const game = getCurrentGame(nowPlaying);
+        response = game
+          ? `@${displayName} 🎮 Now playing: ${game}${nowPlaying?.sessionNotes ? ` (${nowPlaying.sessionNotes})` : ''}`
+          : `@${displayName} I don't know what game is being played. Mods can set it with !game <title>`;
+      } else {
+        // Setting the context is silently ignored for viewers, like restricted custom commands
+        if (!isModerator) return;
+
+        // The title and notes end up in AI prompts, so they get the same moderation as questions
+        const moderationCheck = await checkMessageContent(args, username, normalizedChannel);
+        if (!moderationCheck.shouldProcess) {
+          logger.info('!game arguments blocked by moderation', {
+            channel: normalizedChannel,
+            username,
+            reason: moderationCheck.reason
+          });
+          return;
+        }
+
+        const [subcommand, ...rest] = args.split(' ');
+        const value = rest.join(' ');
+        if (subcommand.toLowerCase() === 'clear' && !value) {
+          await setNowPlayingOverride(normalizedChannel, { gameTitle: null }, username);
+          const game = getCurrentGame(await this.getStreamContext(normalizedChannel));
+          response = `@${displayName} Cleared the game and notes${game ? `, using the Twitch category: ${game}` : ''}`;
+        } else if (subcommand.toLowerCase() === 'notes' && value.toLowerCase() === 'clear') {
+          await setNowPlayingOverride(normalizedChannel, { sessionNotes: null }, username);
+          response = `@${displayName} Cleared the session notes`;
+        } else if (subcommand.toLowerCase() === 'notes') {
+          const validation = validateSessionNotes(value);
+          if (validation.valid && validation.value) {
+            await setNowPlayingOverride(normalizedChannel, { sessionNotes: validation.value }, username);
+            response = `@${displayName} Session notes set: ${validation.value}`;
+          } else {
+            response = `@${displayName} ${validation.error}`;
+          }
+        } else {
+          const validation = validateGameTitle(args);
+          if (validation.valid && validation.value) {
+            await setNowPlayingOverride(normalizedChannel, { gameTitle: validation.value }, username);
+            response = `@${displayName} Now playing set to ${validation.value}`;
+          } else {
+            response = `@${displayName} ${validation.error}`;
+          }
+        }
+      }
+
+      const processedAt = new Date();
+      await this.sendMessage(channel, response);
+      const respondedAt = new Date();
+
+      await logMessageEvent({
+        channelName: normalizedChannel,
+        twitchUsername: username,
+        displayName: displayName,
+        messageType: 'command',
+        command: '!game',
+        questionLength: args.length,
+        responseLength: response.length,
+        processingTimeMs: processedAt.getTime() - receivedAt.getTime(),
+        aiResponseTimeMs: 0, // Commands don't use AI
+        totalTimeMs: respondedAt.getTime() - receivedAt.getTime(),
+        cacheHit: false,
+        success: true,
+        receivedAt,
+        processedAt,
+        respondedAt
+      });
+
+      logger.info('Game command executed', { channel, displayName, updated: !!args });
+    } catch (error) {
+      const respondedAt = new Date();
+      logger.error('Error executing !game command:', { error, channel });
+
+      await logMessageEvent({
+        channelName: normalizedChannel,
+        twitchUsername: username,
+        displayName: displayName,
+        messageType: 'command',
+        command: '!game',
+        questionLength: args.length,
+        responseLength: 0,
+        processingTimeMs: 0,
+        aiResponseTimeMs: 0,
+        totalTimeMs: respondedAt.getTime() - receivedAt.getTime(),
+        cacheHit: false,
+        success: false,
+        errorType: 'api_error',
+        errorMessage: error instanceof Error ? error.message : 'Unknown error',
+        receivedAt,
+        processedAt: respondedAt,
+        respondedAt
+      });
+    }
+  }
+
+  /**
+   * Post the answer to an approved queued question
+   * Uses the streamer's answer if they gave one, otherwise asks the AI like a direct question.
+   * @returns The answer posted, or null if there was nothing to post
+   */
+  private async answerQueuedQuestion(item: QueuedQuestionRecord): Promise<string | null> {
+    const receivedAt = new Date();
+    const channel = `#${item.channelName}`;
+    const asker = item.askers[0];
+    const settings = await this.getChannelSettings(item.channelName);
+
+    let answer = item.answer || null;
+    if (!answer) {
+      // Attribute AI usage to whoever asked it, as for a direct question
+      const usageContext: LLMUsageContext = {
+        feature: 'twitch_bot',
+        username: asker?.wingmanUsername || undefined,
+        externalUserId: asker?.username,
+        channel: item.channelName
+      };
+      const nowPlaying = await this.getStreamContext(item.channelName);
+      answer = await runWithLLMUsageContext(usageContext, () =>
+        this.processMessage(item.question, asker?.username || 'unknown', item.channelName, settings, nowPlaying)
+      );
+    }
+    if (!answer) {
+      return null;
+    }
+
+    const processedAt = new Date();
+    await this.sendLongMessage(channel, asker?.displayName || '', shortenMarkdownLinks(`(#${item.number}) ${answer}`), settings);
+    const respondedAt = new Date();
+
+    await logMessageEvent({
+      channelName: item.channelName,
+      twitchUsername: asker?.username || 'unknown',
+      displayName: asker?.displayName || 'unknown',
+      messageType: 'question',
+      questionLength: item.question.length,
+      responseLength: answer.length,
+      processingTimeMs: 0,
+      aiResponseTimeMs: item.answer ? 0 : processedAt.getTime() - receivedAt.getTime(),
+      totalTimeMs: respondedAt.getTime() - receivedAt.getTime(),
+      cacheHit: false,
+      success: true,
+      receivedAt,
+      processedAt,
+      respondedAt
+    });
+
+    return answer;
+  }
+
+  /**
+   * Handle !upvote <id> - vote for a question in the channel's queue
+   * Successful votes are not acknowledged in chat, to keep busy chats readable.
+   * @returns false if the question queue is off in the channel
+   */
+  private async handleUpvoteCommand(
+    channel: string,
+    displayName: string,
+    userstate: ChatUserstate,
+    message: string
+  ): Promise<boolean> {
+    const normalizedChannel = channel.replace('#', '').toLowerCase();
+    const queueSettings = await getQuestionQueueSettings(normalizedChannel);
+    if (!queueSettings.enabled) return false;
+
+    const number = parseInt(message.trim().split(/\s+/)[1]?.replace(/^#/, '') || '', 10);
+    if (!Number.isInteger(number) || number <= 0) {
+      await this.sendMessage(channel, `@${displayName} Usage: !upvote <question number>`);
+      return true;
+    }
+
+    try {
+      const result = await upvoteQuestion(normalizedChannel, number, userstate.username || displayName);
+      if (result === 'not_found') {
+        await this.sendMessage(channel, `@${displayName} Question #${number} isn't waiting in the queue.`);
+      }
+      logger.info('Upvote command executed', { channel, displayName, number, result });
+    } catch (error) {
+      logger.error('Error executing !upvote command:', { error, channel, number });
+    }
+    return true;
+  }
+
+  /**
+   * Handle !trivia - start a trivia round about the channel's game (mods and the streamer)
+   *   !trivia starts a round, !trivia end closes it early
+   * For viewers, repeats the running round's question.
+   * @returns false if trivia is off in the channel
+   */
+  private async handleTriviaCommand(
+    channel: string,
+    displayName: string,
+    userstate: ChatUserstate,
+    message: string
+  ): Promise<boolean> {
+    const receivedAt = new Date();
+    const username = userstate.username || 'unknown';
+    const normalizedChannel = channel.replace('#', '').toLowerCase();
+    const args = message.trim().split(/\s+/).slice(1).join(' ').toLowerCase();
+    const isModerator = hasCommandPermission(userstate, normalizedChannel, 'moderator');
+
+    const triviaSettings = await getTriviaSettings(normalizedChannel);
+    if (!triviaSettings.enabled) return false;
+
+    let response: string | null = null;
+    try {
+      if (!isModerator) {
+        // Viewers share a cooldown so the command cannot be used to flood chat
+        const { allowed } = await consumeRateLimit(`twitch-command:${normalizedChannel}:trivia`, 1, 5000);
+        if (!allowed) return true;
+
+        const round = await getActiveTriviaRound(normalizedChannel);
+        if (!round) return true;
+        const secondsLeft = Math.max(0, Math.round((round.endsAt - Date.now()) / 1000));
+        response = `@${displayName} 🧠 ${round.question} (${secondsLeft}s left, type your answer in chat)`;
+      } else if (args === 'end' || args === 'stop') {
+        // The results are posted when the round closes
+        if (!await this.triviaRunner.endRound(normalizedChannel)) {
+          response = `@${displayName} There is no trivia round running.`;
+        }
+      } else {
+        const game = getCurrentGame(await this.getStreamContext(normalizedChannel));
+        if (!game && triviaSettings.source === 'ai') {
+          response = `@${displayName} Set the game with !game <title> first, so I know what to ask about.`;
+        } else {
+          // Attribute AI question generation to whoever started the round
+          const usageContext: LLMUsageContext = {
+            feature: 'twitch_bot',
+            externalUserId: username,
+            channel: normalizedChannel
+          };
+          const result = await runWithLLMUsageContext(usageContext, () =>
+            this.triviaRunner.startRound(normalizedChannel, username, triviaSettings, game)
+          );
+
+          if (result.status === 'started') {
+            response = `🧠 TRIVIA${game ? ` (${game})` : ''}: ${result.round.question} Type your answer in chat, you have ${triviaSettings.answerWindowSeconds} seconds!`;
+          } else if (result.status === 'active') {
+            response = `@${displayName} A trivia round is already running${result.round ? `: ${result.round.question}` : '.'}`;
+          } else {
+            response = game
+              ? `@${displayName} I couldn't find a trivia question about ${game}. Try again, or add questions to the trivia bank in the dashboard.`
+              : `@${displayName} There are no trivia questions for this game. Set the game with !game <title>, or add questions to the trivia bank in the dashboard.`;
+          }
+        }
+      }
+
+      const processedAt = new Date();
+      if (response) {
+        await this.sendMessage(channel, response);
+      }
+      const respondedAt = new Date();
+
+      await logMessageEvent({
+        channelName: normalizedChannel,
+        twitchUsername: username,
+        displayName: displayName,
+        messageType: 'command',
+        command: '!trivia',
+        questionLength: args.length,
+        responseLength: response?.length || 0,
+        processingTimeMs: processedAt.getTime() - receivedAt.getTime(),
+        aiResponseTimeMs: 0, // Question generation is cached per game and not timed here
+        totalTimeMs: respondedAt.getTime() - receivedAt.getTime(),
+        cacheHit: false,
+        success: true,
+        receivedAt,
+        processedAt,
+        respondedAt
+      });
+
+      logger.info('Trivia command executed', { channel, displayName, args });
+    } catch (error) {
+      logger.error('Error executing !trivia command:', { error, channel });
+      if (isModerator) {
+        await this.sendMessage(channel, `@${displayName} Sorry, I couldn't start a trivia round. Please try again later.`);
+      }
+    }
+    return true;
+  }
+
+  /**
+   * Handle !predict - predictions on what happens next in the stream
+   *   Mods: !predict <question> | <outcome> | <outcome> opens one, !predict result <number> settles
+   *   it, !predict cancel ends it without points
+   *   Everyone: !predict <number or outcome> votes; anything else repeats the open prediction
+   * Votes are not acknowledged in chat, like !upvote, to keep busy chats readable.
+   * @returns false if predictions are off in the channel
+   */
+  private async handlePredictCommand(
+    channel: string,
+    displayName: string,
+    userstate: ChatUserstate,
+    message: string
+  ): Promise<boolean> {
+    const username = userstate.username || 'unknown';
+    const normalizedChannel = channel.replace('#', '').toLowerCase();
+    const args = message.trim().split(/\s+/).slice(1).join(' ');
+    const [subcommand, ...rest] = args.toLowerCase().split(' ');
+    const isModerator = hasCommandPermission(userstate, normalizedChannel, 'moderator');
+
+    const triviaSettings = await getTriviaSettings(normalizedChannel);
+    if (!triviaSettings.predictionsEnabled) return false;
+
+    try {
+      if (isModerator && args.indexOf('|') !== -1) {
+        const parsed = parsePrediction(args);
+        if (!parsed.valid || !parsed.prediction) {
+          await this.sendMessage(channel, `@${displayName} ${parsed.error}. Usage: !predict <question> | <outcome> | <outcome>`);
+          return true;
+        }
+
+        const game = getCurrentGame(await this.getStreamContext(normalizedChannel));
+        const result = await this.predictionRunner.startPrediction(
+          normalizedChannel,
+          username,
+          triviaSettings,
+          parsed.prediction,
+          game
+        );
+        await this.sendMessage(channel, result.status === 'started'
+          ? `🔮 PREDICTION: ${result.prediction.question} ${formatPredictionOutcomes(result.prediction.outcomes)}. Vote with !predict <number>, you have ${triviaSettings.predictionWindowSeconds} seconds!`
+          : `@${displayName} A prediction is already open${result.prediction ? `: ${result.prediction.question}` : '.'} Settle it with !predict result <number> or !predict cancel`
+        );
+        logger.info('Predict command executed', { channel, displayName, status: result.status });
+        return true;
+      }
+
+      if (isModerator && subcommand === 'cancel') {
+        // The cancellation is announced by the runner
+        if (!await this.predictionRunner.cancelPrediction(normalizedChannel, username)) {
+          await this.sendMessage(channel, `@${displayName} There is no open prediction.`);
+        }
+        return true;
+      }
+
+      const prediction = await getActivePrediction(normalizedChannel);
+
+      if (isModerator && subcommand === 'result') {
+        const outcome = prediction ? matchPredictionOutcome(rest.join(' '), prediction.outcomes) : null;
+        if (!prediction) {
+          await this.sendMessage(channel, `@${displayName} There is no open prediction.`);
+        } else if (outcome === null) {
+          await this.sendMessage(channel, `@${displayName} Usage: !predict result <number> (${formatPredictionOutcomes(prediction.outcomes)})`);
+        } else if (!await this.predictionRunner.resolvePrediction(prediction.id, outcome, username)) {
+          await this.sendMessage(channel, `@${displayName} That prediction has already been settled.`);
+        }
+        return true;
+      }
+
+      const outcome = prediction && args ? matchPredictionOutcome(args, prediction.outcomes) : null;
+      if (prediction && outcome !== null && await this.predictionRunner.vote(prediction, username, displayName, outcome)) {
+        return true;
+      }
+
+      // Anything else repeats the open prediction; viewers share a cooldown so it cannot flood chat
+      if (!isModerator) {
+        const { allowed } = await consumeRateLimit(`twitch-command:${normalizedChannel}:predict`, 1, 5000);
+        if (!allowed) return true;
+      }
+      if (!prediction) {
+        if (isModerator) {
+          await this.sendMessage(channel, `@${displayName} Open a prediction with !predict <question> | <outcome> | <outcome>`);
+        }
+        return true;
+      }
+
+      const secondsLeft = Math.round((prediction.locksAt - Date.now()) / 1000);
+      await this.sendMessage(channel, secondsLeft > 0
+        ? `@${displayName} 🔮 ${prediction.question} ${formatPredictionOutcomes(prediction.outcomes)}. Vote with !predict <number> (${secondsLeft}s left)`
+        : `@${displayName} 🔮 ${prediction.question} Voting is closed, waiting for the result.`
+      );
+    } catch (error) {
+      logger.error('Error executing !predict command:', { error, channel });
+      if (isModerator) {
+        await this.sendMessage(channel, `@${displayName} Sorry, something went wrong with the prediction. Please try again later.`);
+      }
+    }
+    return true;
+  }
+
+  /**
+   * Handle !top - show the channel's trivia leaderboard (trivia and prediction points)
+   * @returns false if trivia and predictions are off in the channel
+   */
+  private async handleTopCommand(
+    channel: string,
+    displayName: string,
+    userstate: ChatUserstate
+  ): Promise<boolean> {
+    const normalizedChannel = channel.replace('#', '').toLowerCase();
+    const triviaSettings = await getTriviaSettings(normalizedChannel);
+    if (!triviaSettings.enabled && !triviaSettings.predictionsEnabled) return false;
+
+    // Shared cooldown, like !game, so the leaderboard is not posted over and over
+    if (!hasCommandPermission(userstate, normalizedChannel, 'moderator')) {
+      const { allowed } = await consumeRateLimit(`twitch-command:${normalizedChannel}:top`, 1, 10000);
+      if (!allowed) return true;
+    }
+
+    try {
+      const leaderboard = await getTriviaLeaderboard(normalizedChannel, 5);
+      const response = leaderboard.length > 0
+        ? `🏆 Trivia leaderboard: ${leaderboard.map((entry, index) => `${index + 1}. ${entry.displayName} (${entry.points})`).join(' · ')}`
+        : `@${displayName} Nobody has trivia points yet. Mods can ${triviaSettings.enabled ? 'start a round with !trivia' : 'open a prediction with !predict'}`;
+      await this.sendMessage(channel, response);
+      logger.info('Top command executed', { channel, displayName });
+    } catch (error) {
+      logger.error('Error executing !top command:', { error, channel });
+    }
+    return true;
+  }
+
   private async handleMessage(
     channel: string,
     userstate: ChatUserstate,
@@ -669,11 +1352,71 @@ export class TwitchBotHandler {
         return;
       }
 
+      // Attribute AI usage to the linked Wingman account (or the channel owner) in the usage ledger
+      const usageContext: LLMUsageContext = {
+        feature: 'twitch_bot',
+        username: wingmanUsername || undefined,
+        externalUserId: username,
+        channel: normalizedChannel
+      };
+
+      // In queue mode, viewers' questions wait for the streamer or a mod to approve them
+      // (the streamer and chat moderators are still answered directly)
+      const queueSettings = await getQuestionQueueSettings(normalizedChannel);
+      if (queueSettings.enabled && !hasCommandPermission(userstate, normalizedChannel, 'moderator')) {
+        const result = await enqueueQuestion(normalizedChannel, question, {
+          username,
+          displayName,
+          wingmanUsername: wingmanUsername || undefined
+        });
+
+        let message: string;
+        if (result.status === 'queued') {
+          message = `@${displayName} Your question is #${result.number} in the queue. Others can vote for it with !upvote ${result.number}`;
+        } else if (result.status === 'duplicate') {
+          message = `@${displayName} A similar question is already queued as #${result.number}${result.voted ? ', so I added your vote to it' : ''}.`;
+        } else {
+          message = `@${displayName} The question queue is full right now. Please try again later.`;
+        }
+
+        respondedAt = new Date();
+        totalTimeMs = respondedAt.getTime() - receivedAt.getTime();
+        responseLength = message.length;
+        success = result.status !== 'full';
+        await this.sendMessage(channel, message);
+
+        await logMessageEvent({
+          channelName: normalizedChannel,
+          twitchUsername: username,
+          displayName: displayName,
+          messageType,
+          questionLength: question.length,
+          responseLength,
+          processingTimeMs,
+          aiResponseTimeMs: 0, // Answered later, once approved
+          totalTimeMs,
+          cacheHit,
+          success,
+          receivedAt,
+          processedAt: processedAt || receivedAt,
+          respondedAt
+        });
+        return;
+      }
+
+      // Answers depend on what the channel is playing, so the game and notes are part of the cache key
+      const nowPlaying = await this.getStreamContext(normalizedChannel);
+      const currentGame = getCurrentGame(nowPlaying);
+      const responseCacheKey = currentGame
+        ? `${currentGame.toLowerCase()}|${(nowPlaying?.sessionNotes || '').toLowerCase()}|${question}`
+        : question;
+
         // Check cache first (if enabled)
-      const cachedResponse = settings.cacheEnabled ? this.getCachedResponse(question, settings) : null;
+      const cachedResponse = settings.cacheEnabled ? this.getCachedResponse(responseCacheKey, settings) : null;
       if (cachedResponse) {
         cacheHit = true;
         responseLength = cachedResponse.length;
+        runWithLLMUsageContext(usageContext, recordLLMCacheHit);
         respondedAt = new Date();
         totalTimeMs = respondedAt.getTime() - receivedAt.getTime();
         
@@ -725,7 +1468,7 @@ export class TwitchBotHandler {
       const aiStartTime = Date.now();
       const response = await measureOperation(
         'process_message_ai',
-        () => this.processMessage(question, username, normalizedChannel, settings),
+        () => runWithLLMUsageContext(usageContext, () => this.processMessage(question, username, normalizedChannel, settings, nowPlaying)),
         normalizedChannel,
         { username, questionLength: question.length }
       );
@@ -745,7 +1488,7 @@ export class TwitchBotHandler {
         
         // Cache the response (cache original, not shortened) if caching is enabled
         if (settings.cacheEnabled) {
-          this.cacheResponse(question, response, settings);
+          this.cacheResponse(responseCacheKey, response, settings);
         }
         logger.info('Sending response to user', {
           username,
@@ -894,7 +1637,13 @@ export class TwitchBotHandler {
     }
   }
 
-  private async processMessage(question: string, twitchUsername: string, channelName?: string, settings?: TwitchChannelSettings): Promise<string> {
+  private async processMessage(
+    question: string,
+    twitchUsername: string,
+    channelName?: string,
+    settings?: TwitchChannelSettings,
+    nowPlaying?: TwitchNowPlaying | null
+  ): Promise<string> {
     try {
       // Load settings if not provided
       if (!settings && channelName) {
@@ -904,11 +1653,14 @@ export class TwitchBotHandler {
       // Create a system message using botConfig and channel settings
       const systemMessage = this.createSystemMessage(settings);
 
+      // Resolve ambiguous questions ("how do I beat this boss?") against the game being streamed
+      const contextualQuestion = await this.addStreamContext(question, nowPlaying);
+
       // Get AI response with retry mechanism
       const response = await measureAPICall(
         'get_chat_completion',
         () => this.retryOperation(() =>
-          getChatCompletion(question, systemMessage)
+          getChatCompletion(contextualQuestion, systemMessage)
         ),
         channelName,
         { twitchUsername, questionLength: question.length }
@@ -947,6 +1699,60 @@ export class TwitchBotHandler {
     }
   }
 
+  /**
+   * Add the channel's current game and session notes to a chat question
+   * Questions that explicitly name another game are answered about that game instead, without the
+   * session notes. Questions are returned unchanged if the channel's game is unknown.
+   */
+  private async addStreamContext(question: string, nowPlaying?: TwitchNowPlaying | null): Promise<string> {
+    const currentGame = getCurrentGame(nowPlaying);
+    if (!currentGame) {
+      return question;
+    }
+
+    try {
+      const gameTitle = await extractGameTitleFromQuestion(question, currentGame);
+      if (!gameTitle) {
+        return question;
+      }
+      return await enhanceQuestionWithGameContext(
+        question,
+        gameTitle,
+        undefined,
+        undefined,
+        gameTitle === currentGame ? nowPlaying?.sessionNotes : undefined
+      );
+    } catch (error) {
+      logger.warn('Failed to add stream context to question', {
+        currentGame,
+        error: error instanceof Error ? error.message : String(error)
+      });
+      return question;
+    }
+  }
+
+  /**
+   * The channel's now playing context, with the category from the Twitch API when EventSub has
+   * not recorded one (channels connected before the channel.update subscription was added)
+   */
+  private async getStreamContext(channelName: string): Promise<TwitchNowPlaying | null> {
+    const nowPlaying = await getNowPlaying(channelName);
+    if (nowPlaying?.gameTitle || nowPlaying?.category) {
+      return nowPlaying;
+    }
+
+    const category = await getChannelGame(channelName);
+    return category ? { ...nowPlaying, isLive: !!nowPlaying?.isLive, category } : nowPlaying;
+  }
+
+  /**
+   * The game for a custom command's {game}: the now playing context, else the Twitch API
+   */
+  private async getGameForCommand(channelName: string): Promise<string> {
+    const nowPlaying = await this.getStreamContext(channelName);
+    return nowPlaying?.gameTitle || nowPlaying?.category || '';
+  }
+
   private createSystemMessage(settings?: TwitchChannelSettings): string {
     // Use custom system message if provided, otherwise use default
     if (settings?.customSystemMessage) {
@@ -1085,26 +1891,15 @@ Keep responses concise for Twitch chat (under ${maxLength} characters when possi
     }
   }
 
-  private checkRateLimit(username: string, channelName: string, settings: TwitchChannelSettings): boolean {
-    const now = Date.now();
+  // Counted in the shared store so the limit holds across instances
+  private async checkRateLimit(username: string, channelName: string, settings: TwitchChannelSettings): Promise<boolean> {
     // Use channel-specific key to allow different rate limits per channel
-    const rateLimitKey = `${channelName}:${username}`;
-    const userLimit = this.rateLimits.get(rateLimitKey);
-
-    const windowMs = settings.rateLimitWindowMs;
-    const maxMessages = settings.maxMessagesPerWindow;
-
-    if (!userLimit || (now - userLimit.timestamp) > windowMs) {
-      this.rateLimits.set(rateLimitKey, { timestamp: now, count: 1 });
-      return true;
-    }
-
-    if (userLimit.count >= maxMessages) {
-      return false;
-    }
-
-    userLimit.count++;
-    return true;
+    const { allowed } = await consumeRateLimit(
+      `twitch:${channelName}:${username}`,
+      settings.maxMessagesPerWindow,
+      settings.rateLimitWindowMs
+    );
+    return allowed;
   }
 
   private getCachedResponse(question: string, settings: TwitchChannelSettings): string | null {
@@ -1187,18 +1982,6 @@ Keep responses concise for Twitch chat (under ${maxLength} characters when possi
   }
 
   private startMaintenanceTasks(): void {
-    // Clean up rate limits periodically (use default window for cleanup)
-    const defaultWindow = 60000; // 1 minute default
-    setInterval(() => {
-      const now = Date.now();
-      Array.from(this.rateLimits.entries()).forEach(([key, limit]) => {
-        // Use a reasonable default window for cleanup (rate limits are per-channel anyway)
-        if (now - limit.timestamp > defaultWindow * 2) {
-          this.rateLimits.delete(key);
-        }
-      });
-    }, defaultWindow);
-
     // Clean up response cache periodically (use default TTL for cleanup)
     const defaultCacheTTL = 300000; // 5 minutes default
     setInterval(() => {
@@ -1229,6 +2012,16 @@ Keep responses concise for Twitch chat (under ${maxLength} characters when possi
       });
     }, 60000);
 
+    // Post due timers and scheduled announcements, answer approved questions whose notification
+    // was missed, and close trivia rounds and prediction voting whose timer was lost
+    this.questionQueueRunner.start();
+    setInterval(() => {
+      this.timerRunner.tick();
+      this.questionQueueRunner.tick();
+      this.triviaRunner.tick();
+      this.predictionRunner.tick();
+    }, this.TIMER_CHECK_INTERVAL);
+
     // Clean up processed messages map periodically (remove entries older than dedup window)
     setInterval(() => {
       const now = Date.now();
@@ -0,0 +1,203 @@
+/**
+ * Runtime support for streamer-defined custom commands
+ *
+ * Commands are stored on TwitchBotChannel.customCommands (see config/twitchCustomCommands.ts)
+ * and cached per channel. The customCommands API invalidates the cache on every instance when
+ * a streamer edits their commands.
+ */
+import tmi from 'tmi.js';
+import axios from 'axios';
+import { logger } from '../logger';
+import { connectToWingmanDB } from '../databaseConnections';
+import { LRUCache, cacheManager } from '../cacheManager';
+import { getClientCredentialsAccessToken } from '../twitchAuth';
+import TwitchBotChannel from '../../models/TwitchBotChannel';
+import {
+  TwitchCustomCommand,
+  TwitchCommandPermission,
+  COMMAND_PERMISSION_LEVELS,
+} from '../../config/twitchCustomCommands';
+
+const CUSTOM_COMMANDS_CACHE = 'TwitchCustomCommands';
+const customCommandsCache = new LRUCache<TwitchCustomCommand[]>(
+  500,
+  5 * 60 * 1000, // 5 minutes
+  60 * 1000
+);
+cacheManager.registerCache(CUSTOM_COMMANDS_CACHE, customCommandsCache);
+
+// The current game changes rarely during a stream; one Helix call per channel per minute is plenty
+const channelGameCache = new LRUCache<string>(500, 60 * 1000, 60 * 1000);
+cacheManager.registerCache('TwitchChannelGame', channelGameCache);
+
+export interface CommandTemplateVariables {
+  user: string;
+  channel: string;
+  game: string;
+  count: number;
+  args: string;
+}
+
+/**
+ * Get a channel's custom commands (cached)
+ * Returns an empty list if the channel is unknown or the database is unavailable.
+ */
+export async function getCustomCommands(channelName: string): Promise<TwitchCustomCommand[]> {
+  const normalizedChannelName = channelName.replace('#', '').toLowerCase().trim();
+  const cached = customCommandsCache.get(normalizedChannelName);
+  if (cached) {
+    return cached;
+  }
+
+  try {
+    await connectToWingmanDB();
+    const channel = await TwitchBotChannel.findOne({ channelName: normalizedChannelName })
+      .select('customCommands')
+      .lean() as { customCommands?: TwitchCustomCommand[] } | null;
+
+    const commands = channel?.customCommands || [];
+    customCommandsCache.set(normalizedChannelName, commands);
+    return commands;
+  } catch (error) {
+    logger.warn('Failed to load custom commands', {
+      channelName: normalizedChannelName,
+      error: error instanceof Error ? error.message : String(error)
+    });
+    return [];
+  }
+}
+
+/**
+ * Drop a channel's cached commands on every instance (call after editing them)
+ */
+export function invalidateCustomCommands(channelName: string): void {
+  cacheManager.invalidate(CUSTOM_COMMANDS_CACHE, channelName.replace('#', '').toLowerCase().trim());
+}
+
+/**
+ * Work out a chatter's permission level from their badges
+ */
+export function getUserPermissionLevel(userstate: tmi.ChatUserstate, channelName: string): TwitchCommandPermission {
+  const badges = userstate.badges || {};
+  const username = (userstate.username || '').toLowerCase();
+
+  if (badges.broadcaster || username === channelName.replace('#', '').toLowerCase()) {
+    return 'broadcaster';
+  }
+  if (userstate.mod || badges.moderator) {
+    return 'moderator';
+  }
+  if (badges.vip) {
+    return 'vip';
+  }
+  if (userstate.subscriber || badges.subscriber || badges.founder) {
+    return 'subscriber';
+  }
+  return 'everyone';
+}
+
+/**
+ * Check whether a chatter meets a command's required permission level
+ */
+export function hasCommandPermission(
+  userstate: tmi.ChatUserstate,
+  channelName: string,
+  required: TwitchCommandPermission
+): boolean {
+  const userLevel = COMMAND_PERMISSION_LEVELS.indexOf(getUserPermissionLevel(userstate, channelName));
+  return userLevel >= COMMAND_PERMISSION_LEVELS.indexOf(required);
+}
+
+/**
+ * Count a use of a command
+ * @returns The new use count, or null if it could not be recorded
+ */
+export async function recordCommandUse(channelName: string, commandName: string): Promise<number | null> {
+  try {
+    await connectToWingmanDB();
+    const channel = await TwitchBotChannel.findOneAndUpdate(
+      { channelName: channelName.replace('#', '').toLowerCase(), 'customCommands.name': commandName },
+      {
+        $inc: { 'customCommands.$.useCount': 1 },
+        $set: { 'customCommands.$.lastUsedAt': new Date() }
+      },
+      { new: true, projection: { customCommands: { $elemMatch: { name: commandName } } } }
+    ).lean() as { customCommands?: TwitchCustomCommand[] } | null;
+
+    return channel?.customCommands?.[0]?.useCount ?? null;
+  } catch (error) {
+    logger.error('Error recording custom command use:', error);
+    return null;
+  }
+}
+
+/**
+ * Get the game a channel is currently playing, from the Twitch API
+ * Returns an empty string if it cannot be determined.
+ */
+export async function getChannelGame(channelName: string): Promise<string> {
+  const normalizedChannelName = channelName.replace('#', '').toLowerCase().trim();
+  const cached = channelGameCache.get(normalizedChannelName);
+  if (cached !== null) {
+    return cached;
+  }
+
+  try {
+    await connectToWingmanDB();
+    const channel = await TwitchBotChannel.findOne({ channelName: normalizedChannelName })
+      .select('streamerTwitchId')
+      .lean() as { streamerTwitchId?: string } | null;
+    if (!channel?.streamerTwitchId) {
+      return '';
+    }
+
+    const accessToken = await getClientCredentialsAccessToken();
+    const response = await axios.get('https://api.twitch.tv/helix/channels', {
+      params: { broadcaster_id: channel.streamerTwitchId },
+      headers: {
+        'Client-ID': process.env.NEXT_PUBLIC_TWITCH_CLIENT_ID,
+        'Authorization': `Bearer ${accessToken}`
+      },
+      timeout: 5000
+    });
+
+    const game: string = response.data?.data?.[0]?.game_name || '';
+    channelGameCache.set(normalizedChannelName, game);
+    return game;
+  } catch (error) {
+    logger.warn('Failed to fetch current game for channel', {
+      channelName: normalizedChannelName,
+      error: error instanceof Error ? error.message : String(error)
+    });
+    // Chat questions fall back to this, so don't retry a failing API on every message
+    channelGameCache.set(normalizedChannelName, '');
+    return '';
+  }
+}
+
+/**
+ * Fill in a response template's variables
+ * Unknown {placeholders} are left as written. The result never starts with / or . so that
+ * {args} cannot be used to run Twitch chat commands as the bot.
+ */
+export function renderCommandResponse(
+  template: string,
+  variables: CommandTemplateVariables,
+  maxLength: number
+): string {
+  const rendered = template
+    .replace(/\{(user|channel|game|count|args)\}/gi, (_match, name: string) =>
+      String(variables[name.toLowerCase() as keyof CommandTemplateVariables])
+    )
+    .replace(/^[\s/.]+/, '')
+    .trim();
+
+  return rendered.length > maxLength ? rendered.substring(0, maxLength) : rendered;
+}
+
+/**
+ * Whether a template uses a variable, so callers can skip work (e.g. the Twitch API call for {game})
+ */
+export function templateUses(template: string, variable: keyof CommandTemplateVariables): boolean {
+  return template.toLowerCase().indexOf(`{${variable}}`) !== -1;
+}
@@ -218,6 +218,9 @@ export class EngagementTracker {
     raidViewers?: number;
     messageVelocity?: number;
     bits?: number;
+    participants?: number;
+    correctAnswers?: number;
+    gameTitle?: string;
     activeViewers?: number;
     chatActivity: number;
     engagementScore: number;
@@ -371,6 +374,10 @@ export class EngagementTracker {
           return `💎 ${name} just cheered ${eventData.bits} bits! 🎮✨`;
         }
         
+      case 'trivia_round':
+      case 'prediction_round':
+        return null; // The round announces its own results
+
       default:
         return null;
     }
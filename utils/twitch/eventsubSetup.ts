@@ -22,6 +22,11 @@ const WEBHOOK_CALLBACK_URL = process.env.TWITCH_EVENTSUB_CALLBACK_URL ||
     ? 'https://assistant.videogamewingman.com/api/twitch/eventsub'
     : 'http://localhost:3000/api/twitch/eventsub');
 
+// Subscription types whose current version is not '1'
+const SUBSCRIPTION_VERSIONS: Record<string, string> = {
+  'channel.update': '2'
+};
+
 /**
  * Get app access token (client credentials flow)
  */
@@ -83,7 +88,7 @@ async function createEventSubSubscription(
     `${TWITCH_API_BASE}/eventsub/subscriptions`,
     {
       type: subscriptionType,
-      version: '1',
+      version: SUBSCRIPTION_VERSIONS[subscriptionType] || '1',
       condition: subscriptionCondition,
       transport: {
         method: 'webhook',
@@ -165,7 +170,7 @@ async function deleteEventSubSubscription(
  * Set up EventSub subscriptions for a broadcaster
  * 
  * @param broadcasterUserId - Twitch user ID of the broadcaster
- * @param subscriptionTypes - Types of events to subscribe to (default: all engagement events)
+ * @param subscriptionTypes - Types of events to subscribe to (default: all engagement and stream events)
  * @param userAccessToken - Optional (deprecated - not used, all subscriptions use app token)
  */
 export async function setupEventSubSubscriptions(
@@ -174,7 +179,10 @@ export async function setupEventSubSubscriptions(
     'channel.subscribe',
     'channel.subscription.gift',
     'channel.raid',
-    'channel.cheer'
+    'channel.cheer',
+    'channel.update',
+    'stream.online',
+    'stream.offline'
   ],
   userAccessToken?: string // Deprecated - kept for backward compatibility but not used
 ): Promise<{ created: number; existing: number; errors: number }> {
@@ -0,0 +1,136 @@
+/**
+ * Runtime support for the per-channel "now playing" context (see config/twitchNowPlaying.ts)
+ *
+ * The EventSub webhook records category, title and live status; !game in chat overrides the game
+ * and sets session notes. Both write TwitchBotChannel.nowPlaying and invalidate the cache on every
+ * instance, since the webhook and the bot may not run in the same process.
+ */
+import { logger } from '../logger';
+import { connectToWingmanDB } from '../databaseConnections';
+import { LRUCache, cacheManager } from '../cacheManager';
+import TwitchBotChannel from '../../models/TwitchBotChannel';
+import { TwitchNowPlaying } from '../../config/twitchNowPlaying';
+
+const NOW_PLAYING_CACHE = 'TwitchNowPlaying';
+const nowPlayingCache = new LRUCache<TwitchNowPlaying>(
+  500,
+  5 * 60 * 1000, // 5 minutes
+  60 * 1000
+);
+cacheManager.registerCache(NOW_PLAYING_CACHE, nowPlayingCache);
+
+function normalizeChannelName(channelName: string): string {
+  return channelName.replace('#', '').toLowerCase().trim();
+}
+
+/**
+ * Get what a channel is currently streaming (cached)
+ * Returns null if nothing is known or the database is unavailable.
+ */
+export async function getNowPlaying(channelName: string): Promise<TwitchNowPlaying | null> {
+  const normalizedChannelName = normalizeChannelName(channelName);
+  const cached = nowPlayingCache.get(normalizedChannelName);
+  if (cached) {
+    return cached.updatedAt ? cached : null;
+  }
+
+  try {
+    await connectToWingmanDB();
+    const channel = await TwitchBotChannel.findOne({ channelName: normalizedChannelName })
+      .select('nowPlaying')
+      .lean() as { nowPlaying?: TwitchNowPlaying } | null;
+
+    // Unknown channels are cached as an empty entry so chat questions do not query the database
+    const nowPlaying: TwitchNowPlaying = { ...channel?.nowPlaying, isLive: !!channel?.nowPlaying?.isLive };
+    nowPlayingCache.set(normalizedChannelName, nowPlaying);
+    return nowPlaying.updatedAt ? nowPlaying : null;
+  } catch (error) {
+    logger.warn('Failed to load now playing context', {
+      channelName: normalizedChannelName,
+      error: error instanceof Error ? error.message : String(error)
+    });
+    return null;
+  }
+}
+
+/**
+ * Drop a channel's cached context on every instance (call after changing it)
+ */
+function invalidateNowPlaying(channelName: string): void {
+  cacheManager.invalidate(NOW_PLAYING_CACHE, normalizeChannelName(channelName));
+}
+
+/**
+ * Record the channel's Twitch category and title (channel.update, stream.online)
+ * A new category means a new game, so any !game override and session notes are cleared.
+ */
+export async function updateStreamCategory(channelName: string, category: string, streamTitle?: string): Promise<void> {
+  const normalizedChannelName = normalizeChannelName(channelName);
+  await connectToWingmanDB();
+
+  await TwitchBotChannel.updateOne(
+    { channelName: normalizedChannelName, 'nowPlaying.category': { $ne: category } },
+    { $unset: { 'nowPlaying.gameTitle': '', 'nowPlaying.sessionNotes': '', 'nowPlaying.updatedBy': '' } }
+  );
+
+  const update: Record<string, unknown> = {
+    'nowPlaying.category': category,
+    'nowPlaying.updatedAt': new Date()
+  };
+  if (streamTitle !== undefined) {
+    update['nowPlaying.streamTitle'] = streamTitle;
+  }
+  await TwitchBotChannel.updateOne({ channelName: normalizedChannelName }, { $set: update });
+  invalidateNowPlaying(normalizedChannelName);
+}
+
+/**
+ * Record the channel going live or offline (stream.online, stream.offline)
+ */
+export async function updateStreamStatus(channelName: string, isLive: boolean, startedAt?: Date): Promise<void> {
+  const normalizedChannelName = normalizeChannelName(channelName);
+  await connectToWingmanDB();
+
+  await TwitchBotChannel.updateOne(
+    { channelName: normalizedChannelName },
+    isLive
+      ? { $set: { 'nowPlaying.isLive': true, 'nowPlaying.startedAt': startedAt || new Date(), 'nowPlaying.updatedAt': new Date() } }
+      : { $set: { 'nowPlaying.isLive': false, 'nowPlaying.updatedAt': new Date() }, $unset: { 'nowPlaying.startedAt': '' } }
+  );
+  invalidateNowPlaying(normalizedChannelName);
+}
+
+/**
+ * Set or clear the game override and session notes (!game)
+ * Fields left undefined are kept; null clears them. Changing the game clears the notes.
+ */
+export async function setNowPlayingOverride(
+  channelName: string,
+  changes: { gameTitle?: string | null; sessionNotes?: string | null },
+  updatedBy: string
+): Promise<void> {
+  const normalizedChannelName = normalizeChannelName(channelName);
+  const $set: Record<string, unknown> = {
+    'nowPlaying.updatedAt': new Date(),
+    'nowPlaying.updatedBy': updatedBy
+  };
+  const $unset: Record<string, ''> = {};
+
+  if (changes.gameTitle) {
+    $set['nowPlaying.gameTitle'] = changes.gameTitle;
+  } else if (changes.gameTitle === null) {
+    $unset['nowPlaying.gameTitle'] = '';
+  }
+  if (changes.sessionNotes) {
+    $set['nowPlaying.sessionNotes'] = changes.sessionNotes;
+  } else if (changes.sessionNotes === null || changes.gameTitle !== undefined) {
+    $unset['nowPlaying.sessionNotes'] = '';
+  }
+
+  await connectToWingmanDB();
+  await TwitchBotChannel.updateOne(
+    { channelName: normalizedChannelName },
+    Object.keys($unset).length > 0 ? { $set, $unset } : { $set }
+  );
+  invalidateNowPlaying(normalizedChannelName);
+}
@@ -0,0 +1,379 @@
+/**
+ * Runs !predict predictions (see config/twitchPredictions.ts)
+ *
+ * TwitchBotHandler opens predictions with startPrediction(), records votes with vote(), settles
+ * them with resolvePrediction() or cancelPrediction() and calls tick() from its maintenance tasks.
+ * The process that opens a prediction closes its voting when the window ends; tick() closes voting
+ * whose timer was lost and cancels predictions nobody settled. Winners' points go to the channel's
+ * trivia leaderboard, and settled predictions are recorded as engagement events.
+ */
+import tmi from 'tmi.js';
+import { logger } from '../logger';
+import { connectToWingmanDB } from '../databaseConnections';
+import { LRUCache, cacheManager } from '../cacheManager';
+import TwitchPredictionRound, { IPredictionVote } from '../../models/TwitchPredictionRound';
+import TwitchTriviaScore from '../../models/TwitchTriviaScore';
+import type { EngagementTracker } from './engagementTracker';
+import { TwitchTriviaSettings } from '../../config/twitchTrivia';
+import { PREDICTION_RESULT_TIMEOUT_MS } from '../../config/twitchPredictions';
+import { getTriviaSettings } from './trivia';
+
+// Every vote is checked against the open prediction, so it is cached (including "no prediction")
+const ACTIVE_PREDICTION_CACHE = 'TwitchActivePrediction';
+const activePredictionCache = new LRUCache<{ prediction: ActivePrediction | null }>(
+  500,
+  30 * 1000, // 30 seconds
+  60 * 1000
+);
+cacheManager.registerCache(ACTIVE_PREDICTION_CACHE, activePredictionCache);
+
+/**
+ * The open prediction in a channel, as checked against votes
+ */
+export interface ActivePrediction {
+  id: string;
+  channelName: string;
+  question: string;
+  outcomes: string[];
+  locksAt: number;
+}
+
+/**
+ * A prediction as stored, as read when closing voting or settling it
+ */
+interface PredictionRecord {
+  _id: unknown;
+  channelName: string;
+  question: string;
+  outcomes: string[];
+  gameTitle?: string;
+  startedAt: Date;
+  votes: IPredictionVote[];
+}
+
+export type StartPredictionResult =
+  | { status: 'started'; prediction: ActivePrediction }
+  | { status: 'active'; prediction: ActivePrediction | null };
+
+type EngagementEventData = Parameters<EngagementTracker['recordEngagementEvent']>[0];
+
+function normalizeChannelName(channelName: string): string {
+  return channelName.replace('#', '').toLowerCase().trim();
+}
+
+/**
+ * List a prediction's outcomes for chat ("1. yes · 2. no"), with vote counts if given
+ */
+export function formatPredictionOutcomes(outcomes: string[], votes?: number[]): string {
+  return outcomes
+    .map((outcome, index) => `${index + 1}. ${outcome}${votes ? ` (${votes[index]})` : ''}`)
+    .join(' · ');
+}
+
+/**
+ * Get a channel's open prediction, if any (cached)
+ */
+export async function getActivePrediction(channelName: string): Promise<ActivePrediction | null> {
+  const normalizedChannelName = normalizeChannelName(channelName);
+  const cached = activePredictionCache.get(normalizedChannelName);
+  if (cached) {
+    return cached.prediction;
+  }
+
+  await connectToWingmanDB();
+  const prediction = await TwitchPredictionRound.findOne({ channelName: normalizedChannelName, status: 'open' })
+    .select('channelName question outcomes locksAt')
+    .lean<{ _id: unknown; channelName: string; question: string; outcomes: string[]; locksAt: Date } | null>();
+
+  const active: ActivePrediction | null = prediction
+    ? {
+        id: String(prediction._id),
+        channelName: prediction.channelName,
+        question: prediction.question,
+        outcomes: prediction.outcomes,
+        locksAt: new Date(prediction.locksAt).getTime()
+      }
+    : null;
+  activePredictionCache.set(normalizedChannelName, { prediction: active });
+  return active;
+}
+
+export class TwitchPredictionRunner {
+  private client: tmi.Client;
+  private recordEngagementEvent: (event: EngagementEventData) => Promise<void>;
+  private lockTimers: Map<string, NodeJS.Timeout> = new Map(); // Prediction id -> timer closing its voting
+  private running = false;
+
+  /**
+   * @param recordEngagementEvent - Records a settled prediction for analytics (the engagement tracker's)
+   */
+  constructor(client: tmi.Client, recordEngagementEvent: (event: EngagementEventData) => Promise<void>) {
+    this.client = client;
+    this.recordEngagementEvent = recordEngagementEvent;
+  }
+
+  /**
+   * Open a prediction in a channel, unless one is already open
+   * @param gameTitle - The channel's current game, recorded for analytics
+   */
+  async startPrediction(
+    channelName: string,
+    startedBy: string,
+    settings: TwitchTriviaSettings,
+    prediction: { question: string; outcomes: string[] },
+    gameTitle?: string
+  ): Promise<StartPredictionResult> {
+    const normalizedChannelName = normalizeChannelName(channelName);
+
+    const existing = await getActivePrediction(normalizedChannelName);
+    if (existing) {
+      return { status: 'active', prediction: existing };
+    }
+
+    const startedAt = new Date();
+    const locksAt = new Date(startedAt.getTime() + settings.predictionWindowSeconds * 1000);
+    let created: { _id: unknown };
+    try {
+      created = await TwitchPredictionRound.create({
+        channelName: normalizedChannelName,
+        question: prediction.question,
+        outcomes: prediction.outcomes,
+        gameTitle,
+        status: 'open',
+        startedBy,
+        startedAt,
+        locksAt
+      });
+    } catch (error: any) {
+      // Another moderator (or bot process) opened one at the same time
+      if (error?.code === 11000) {
+        cacheManager.invalidate(ACTIVE_PREDICTION_CACHE, normalizedChannelName);
+        return { status: 'active', prediction: await getActivePrediction(normalizedChannelName) };
+      }
+      throw error;
+    }
+
+    const active: ActivePrediction = {
+      id: String(created._id),
+      channelName: normalizedChannelName,
+      question: prediction.question,
+      outcomes: prediction.outcomes,
+      locksAt: locksAt.getTime()
+    };
+    cacheManager.invalidate(ACTIVE_PREDICTION_CACHE, normalizedChannelName);
+    activePredictionCache.set(normalizedChannelName, { prediction: active });
+    this.scheduleLock(active);
+
+    logger.info('Prediction started', {
+      channel: normalizedChannelName,
+      startedBy,
+      outcomes: prediction.outcomes.length,
+      gameTitle
+    });
+    return { status: 'started', prediction: active };
+  }
+
+  /**
+   * Record a viewer's vote; only their first vote counts
+   * @returns false if voting has closed
+   */
+  async vote(prediction: ActivePrediction, username: string, displayName: string, outcome: number): Promise<boolean> {
+    if (prediction.locksAt <= Date.now()) return false;
+
+    const user = username.toLowerCase();
+    await TwitchPredictionRound.updateOne(
+      { _id: prediction.id, status: 'open', locksAt: { $gt: new Date() }, 'votes.username': { $ne: user } },
+      { $push: { votes: { username: user, displayName, outcome, votedAt: new Date() } } }
+    );
+    return true;
+  }
+
+  /**
+   * Settle a prediction: award points to everyone who voted for the outcome and post the results
+   * @returns false if it was already settled or cancelled
+   */
+  async resolvePrediction(predictionId: string, outcome: number, resolvedBy: string): Promise<boolean> {
+    this.clearLockTimer(predictionId);
+
+    await connectToWingmanDB();
+    const prediction = await TwitchPredictionRound.findOneAndUpdate(
+      { _id: predictionId, status: 'open' },
+      {
+        $set: {
+          status: 'resolved',
+          winningOutcome: outcome,
+          resolvedBy,
+          votingClosed: true,
+          closedAt: new Date()
+        }
+      },
+      { new: true }
+    ).lean<PredictionRecord>();
+    if (!prediction) return false;
+
+    cacheManager.invalidate(ACTIVE_PREDICTION_CACHE, prediction.channelName);
+    const settings = await getTriviaSettings(prediction.channelName);
+
+    const winners = prediction.votes.filter(vote => vote.outcome === outcome);
+    for (const winner of winners) {
+      await TwitchTriviaScore.updateOne(
+        { channelName: prediction.channelName, username: winner.username },
+        {
+          $inc: { points: settings.predictionPoints, correctPredictions: 1 },
+          $set: { displayName: winner.displayName, lastCorrectAt: new Date() }
+        },
+        { upsert: true }
+      );
+    }
+    const pointsAwarded = winners.length * settings.predictionPoints;
+    await TwitchPredictionRound.updateOne({ _id: prediction._id }, { $set: { pointsAwarded } });
+
+    const result = `🔮 ${prediction.question} It's "${prediction.outcomes[outcome]}"!`;
+    await this.say(
+      prediction.channelName,
+      winners.length > 0
+        ? `${result} ${winners.length} of ${prediction.votes.length} called it (+${settings.predictionPoints}). Type !top for the leaderboard`
+        : `${result} Nobody called it.`,
+      { predictionId }
+    );
+
+    await this.recordEngagementEvent({
+      channelName: prediction.channelName,
+      eventType: 'prediction_round',
+      eventSource: 'chat_game',
+      participants: prediction.votes.length,
+      correctAnswers: winners.length,
+      gameTitle: prediction.gameTitle,
+      chatActivity: prediction.votes.length,
+      engagementScore: Math.min(100, 20 + prediction.votes.length * 5),
+      eventTimestamp: new Date(prediction.startedAt)
+    });
+
+    logger.info('Prediction resolved', {
+      channel: prediction.channelName,
+      resolvedBy,
+      votes: prediction.votes.length,
+      winners: winners.length,
+      pointsAwarded
+    });
+    return true;
+  }
+
+  /**
+   * Cancel a channel's open prediction without awarding points
+   * @returns false if there was no open prediction
+   */
+  async cancelPrediction(channelName: string, cancelledBy: string): Promise<boolean> {
+    const normalizedChannelName = normalizeChannelName(channelName);
+    await connectToWingmanDB();
+    const prediction = await TwitchPredictionRound.findOneAndUpdate(
+      { channelName: normalizedChannelName, status: 'open' },
+      { $set: { status: 'cancelled', resolvedBy: cancelledBy, votingClosed: true, closedAt: new Date() } },
+      { new: true }
+    ).lean<PredictionRecord>();
+    cacheManager.invalidate(ACTIVE_PREDICTION_CACHE, normalizedChannelName);
+    if (!prediction) return false;
+
+    this.clearLockTimer(String(prediction._id));
+    await this.say(
+      normalizedChannelName,
+      `🔮 The prediction "${prediction.question}" was cancelled. No points this time.`,
+      { predictionId: String(prediction._id) }
+    );
+    logger.info('Prediction cancelled', { channel: normalizedChannelName, cancelledBy });
+    return true;
+  }
+
+  /**
+   * Close voting on overdue predictions, and cancel ones left unsettled, in the channels the bot
+   * has joined
+   * Overlapping calls are skipped rather than queued.
+   */
+  async tick(now: Date = new Date()): Promise<void> {
+    if (this.running) return;
+    this.running = true;
+
+    try {
+      const joinedChannels = this.client.getChannels().map(channel => channel.replace('#', '').toLowerCase());
+      if (joinedChannels.length === 0) return;
+
+      await connectToWingmanDB();
+      const [toLock, abandoned] = await Promise.all([
+        TwitchPredictionRound.find({
+          channelName: { $in: joinedChannels },
+          status: 'open',
+          votingClosed: false,
+          locksAt: { $lte: now }
+        }).select('_id').lean<{ _id: unknown }[]>(),
+        TwitchPredictionRound.find({
+          channelName: { $in: joinedChannels },
+          status: 'open',
+          locksAt: { $lte: new Date(now.getTime() - PREDICTION_RESULT_TIMEOUT_MS) }
+        }).select('channelName').lean<{ channelName: string }[]>()
+      ]);
+
+      for (const prediction of toLock) {
+        await this.closeVoting(String(prediction._id));
+      }
+      for (const prediction of abandoned) {
+        await this.cancelPrediction(prediction.channelName, 'timeout');
+      }
+    } catch (error) {
+      logger.error('Error closing predictions:', error);
+    } finally {
+      this.running = false;
+    }
+  }
+
+  private scheduleLock(prediction: ActivePrediction): void {
+    const timer = setTimeout(() => {
+      void this.closeVoting(prediction.id);
+    }, Math.max(0, prediction.locksAt - Date.now()));
+    this.lockTimers.set(prediction.id, timer);
+  }
+
+  private clearLockTimer(predictionId: string): void {
+    const timer = this.lockTimers.get(predictionId);
+    if (timer) {
+      clearTimeout(timer);
+      this.lockTimers.delete(predictionId);
+    }
+  }
+
+  /**
+   * Announce that voting has closed, with the vote counts
+   */
+  private async closeVoting(predictionId: string): Promise<void> {
+    this.clearLockTimer(predictionId);
+
+    try {
+      await connectToWingmanDB();
+      const prediction = await TwitchPredictionRound.findOneAndUpdate(
+        { _id: predictionId, status: 'open', votingClosed: false },
+        { $set: { votingClosed: true } },
+        { new: true }
+      ).lean<PredictionRecord>();
+      // Already announced by another process, or settled before voting ended
+      if (!prediction) return;
+
+      const counts = prediction.outcomes.map((_, index) =>
+        prediction.votes.filter(vote => vote.outcome === index).length
+      );
+      await this.say(
+        prediction.channelName,
+        `🔒 Voting is closed! ${prediction.question} ${formatPredictionOutcomes(prediction.outcomes, counts)}. Waiting for the result...`,
+        { predictionId }
+      );
+    } catch (error) {
+      logger.error('Error closing prediction voting', { error, predictionId });
+    }
+  }
+
+  private async say(channelName: string, message: string, context: Record<string, string>): Promise<void> {
+    try {
+      await this.client.say(`#${channelName}`, message);
+    } catch (error) {
+      logger.error('Error posting prediction message', { error, channel: channelName, ...context });
+    }
+  }
+}
@@ -0,0 +1,374 @@
+/**
+ * Runtime support for the streamer-moderated question queue (see config/twitchQuestionQueue.ts)
+ *
+ * Chat adds questions and votes through enqueueQuestion() and upvoteQuestion(). The queue API
+ * approves questions and calls notifyQuestionApproved(); TwitchQuestionQueueRunner, owned by
+ * TwitchBotHandler, answers approved questions when notified and on a timer in case a
+ * notification was missed. Answers are claimed with a conditional update before they are posted,
+ * so a question is answered once even if more than one bot process is connected.
+ */
+import tmi from 'tmi.js';
+import { logger } from '../logger';
+import { connectToWingmanDB } from '../databaseConnections';
+import { LRUCache, cacheManager } from '../cacheManager';
+import { getSharedStore } from '../sharedStore';
+import TwitchBotChannel from '../../models/TwitchBotChannel';
+import TwitchQueuedQuestion, { IQueuedQuestionAsker } from '../../models/TwitchQueuedQuestion';
+import {
+  TwitchQuestionQueueSettings,
+  QueuedQuestionStatus,
+  defaultQuestionQueueSettings,
+  normalizeQuestion,
+  questionSimilarity,
+  QUESTION_SIMILARITY_THRESHOLD,
+  MAX_PENDING_QUESTIONS,
+  APPROVED_ANSWER_WINDOW_MS,
+} from '../../config/twitchQuestionQueue';
+
+const QUEUE_SETTINGS_CACHE = 'TwitchQuestionQueueSettings';
+const queueSettingsCache = new LRUCache<TwitchQuestionQueueSettings>(
+  500,
+  5 * 60 * 1000, // 5 minutes
+  60 * 1000
+);
+cacheManager.registerCache(QUEUE_SETTINGS_CACHE, queueSettingsCache);
+
+// Shared store channel the queue API publishes approvals on (the message is the channel name)
+const QUESTION_APPROVED_CHANNEL = 'twitch:question-approved';
+
+// A claim older than this is from a process that stopped or failed, and can be taken over
+const ANSWER_CLAIM_TIMEOUT_MS = 2 * 60 * 1000;
+
+/**
+ * Queued question as stored, as read by the bot
+ */
+export interface QueuedQuestionRecord {
+  _id: unknown;
+  channelName: string;
+  number: number;
+  question: string;
+  askers: IQueuedQuestionAsker[];
+  answer?: string;
+  claimedAt?: Date;
+}
+
+/**
+ * Stored fields the queue page and overlay are built from
+ */
+export interface QueuedQuestionFields {
+  number: number;
+  question: string;
+  askers?: IQueuedQuestionAsker[];
+  votes?: number;
+  status: QueuedQuestionStatus;
+  answer?: string;
+  answeredBy?: 'bot' | 'streamer';
+  reviewedBy?: string;
+  createdAt?: Date;
+  reviewedAt?: Date;
+  answeredAt?: Date;
+}
+
+/**
+ * Queued question as shown on the queue page and overlay (no usernames or linked accounts)
+ */
+export interface QueuedQuestionView {
+  id: number;
+  question: string;
+  askedBy: string;
+  askerCount: number;
+  votes: number;
+  status: QueuedQuestionStatus;
+  answer?: string;
+  answeredBy?: 'bot' | 'streamer';
+  reviewedBy?: string;
+  createdAt?: Date;
+  reviewedAt?: Date;
+  answeredAt?: Date;
+}
+
+export type EnqueueResult =
+  | { status: 'queued'; number: number }
+  | { status: 'duplicate'; number: number; voted: boolean }
+  | { status: 'full' };
+
+function normalizeChannelName(channelName: string): string {
+  return channelName.replace('#', '').toLowerCase().trim();
+}
+
+/**
+ * Get a channel's queue settings (cached)
+ * Falls back to the defaults (queue off) if the channel is unknown or the database is unavailable.
+ */
+export async function getQuestionQueueSettings(channelName: string): Promise<TwitchQuestionQueueSettings> {
+  const normalizedChannelName = normalizeChannelName(channelName);
+  const cached = queueSettingsCache.get(normalizedChannelName);
+  if (cached) {
+    return cached;
+  }
+
+  try {
+    await connectToWingmanDB();
+    const channel = await TwitchBotChannel.findOne({ channelName: normalizedChannelName })
+      .select('questionQueue')
+      .lean() as { questionQueue?: TwitchQuestionQueueSettings } | null;
+
+    const settings: TwitchQuestionQueueSettings = {
+      ...defaultQuestionQueueSettings,
+      ...channel?.questionQueue
+    };
+    queueSettingsCache.set(normalizedChannelName, settings);
+    return settings;
+  } catch (error) {
+    logger.warn('Failed to load question queue settings', {
+      channelName: normalizedChannelName,
+      error: error instanceof Error ? error.message : String(error)
+    });
+    return defaultQuestionQueueSettings;
+  }
+}
+
+/**
+ * Drop a channel's cached queue settings on every instance (call after editing them)
+ */
+export function invalidateQuestionQueueSettings(channelName: string): void {
+  cacheManager.invalidate(QUEUE_SETTINGS_CACHE, normalizeChannelName(channelName));
+}
+
+/**
+ * Add a question to a channel's queue
+ * A question similar to one already waiting is merged into it as a vote instead.
+ */
+export async function enqueueQuestion(
+  channelName: string,
+  question: string,
+  asker: Omit<IQueuedQuestionAsker, 'askedAt'>
+): Promise<EnqueueResult> {
+  const normalizedChannelName = normalizeChannelName(channelName);
+  const normalizedQuestion = normalizeQuestion(question);
+  const username = asker.username.toLowerCase();
+  await connectToWingmanDB();
+
+  const waiting = await TwitchQueuedQuestion.find({
+    channelName: normalizedChannelName,
+    status: { $in: ['pending', 'approved'] }
+  }).select('number normalizedQuestion status').lean<{ _id: unknown; number: number; normalizedQuestion: string; status: QueuedQuestionStatus }[]>();
+
+  let bestMatch: { _id: unknown; number: number } | null = null;
+  let bestSimilarity = QUESTION_SIMILARITY_THRESHOLD;
+  for (const item of waiting) {
+    const similarity = questionSimilarity(normalizedQuestion, item.normalizedQuestion);
+    if (similarity >= bestSimilarity) {
+      bestMatch = item;
+      bestSimilarity = similarity;
+    }
+  }
+
+  if (bestMatch) {
+    const merged = await TwitchQueuedQuestion.updateOne(
+      { _id: bestMatch._id, voters: { $ne: username } },
+      {
+        $push: { askers: { ...asker, username, askedAt: new Date() } },
+        $addToSet: { voters: username },
+        $inc: { votes: 1 }
+      }
+    );
+    return { status: 'duplicate', number: bestMatch.number, voted: merged.modifiedCount > 0 };
+  }
+
+  if (waiting.filter(item => item.status === 'pending').length >= MAX_PENDING_QUESTIONS) {
+    return { status: 'full' };
+  }
+
+  const channel = await TwitchBotChannel.findOneAndUpdate(
+    { channelName: normalizedChannelName },
+    { $inc: { 'questionQueue.lastQuestionNumber': 1 } },
+    { new: true, projection: { 'questionQueue.lastQuestionNumber': 1 } }
+  ).lean() as { questionQueue?: { lastQuestionNumber?: number } } | null;
+  const number = channel?.questionQueue?.lastQuestionNumber;
+  if (!number) {
+    throw new Error(`Channel ${normalizedChannelName} not found`);
+  }
+
+  await TwitchQueuedQuestion.create({
+    channelName: normalizedChannelName,
+    number,
+    question,
+    normalizedQuestion,
+    askers: [{ ...asker, username, askedAt: new Date() }],
+    voters: [username],
+    votes: 1,
+    status: 'pending'
+  });
+
+  return { status: 'queued', number };
+}
+
+/**
+ * Vote for a pending question (once per viewer)
+ */
+export async function upvoteQuestion(
+  channelName: string,
+  number: number,
+  username: string
+): Promise<'upvoted' | 'already_voted' | 'not_found'> {
+  const normalizedChannelName = normalizeChannelName(channelName);
+  const voter = username.toLowerCase();
+  await connectToWingmanDB();
+
+  const result = await TwitchQueuedQuestion.updateOne(
+    { channelName: normalizedChannelName, number, status: 'pending', voters: { $ne: voter } },
+    { $addToSet: { voters: voter }, $inc: { votes: 1 } }
+  );
+  if (result.modifiedCount > 0) {
+    return 'upvoted';
+  }
+
+  const exists = await TwitchQueuedQuestion.exists({ channelName: normalizedChannelName, number, status: 'pending' });
+  return exists ? 'already_voted' : 'not_found';
+}
+
+/**
+ * Tell the bot a question was approved, so it is answered without waiting for the next check
+ */
+export async function notifyQuestionApproved(channelName: string): Promise<void> {
+  try {
+    await getSharedStore().publish(QUESTION_APPROVED_CHANNEL, normalizeChannelName(channelName));
+  } catch (error) {
+    // The runner's periodic check picks the question up anyway
+    logger.warn('Failed to publish question approval', {
+      channelName,
+      error: error instanceof Error ? error.message : String(error)
+    });
+  }
+}
+
+/**
+ * Shape a stored question for the queue page and overlay
+ */
+export function toQueuedQuestionView(item: QueuedQuestionFields): QueuedQuestionView {
+  return {
+    id: item.number,
+    question: item.question,
+    askedBy: item.askers?.[0]?.displayName || 'unknown',
+    askerCount: item.askers?.length || 1,
+    votes: item.votes || 1,
+    status: item.status,
+    answer: item.answer,
+    answeredBy: item.answeredBy,
+    reviewedBy: item.reviewedBy,
+    createdAt: item.createdAt,
+    reviewedAt: item.reviewedAt,
+    answeredAt: item.answeredAt,
+  };
+}
+
+export class TwitchQuestionQueueRunner {
+  private client: tmi.Client;
+  private answer: (item: QueuedQuestionRecord) => Promise<string | null>;
+  private running = false;
+  private rerun = false; // A notification arrived during a check
+
+  /**
+   * @param answer - Posts the answer to a question in chat and returns it (null if none was posted)
+   */
+  constructor(client: tmi.Client, answer: (item: QueuedQuestionRecord) => Promise<string | null>) {
+    this.client = client;
+    this.answer = answer;
+  }
+
+  /**
+   * Answer questions as soon as the queue API reports an approval
+   */
+  async start(): Promise<void> {
+    try {
+      await getSharedStore().subscribe(QUESTION_APPROVED_CHANNEL, () => {
+        void this.tick();
+      });
+    } catch (error) {
+      logger.warn('Failed to subscribe to question approvals, relying on periodic checks', {
+        error: error instanceof Error ? error.message : String(error)
+      });
+    }
+  }
+
+  /**
+   * Answer every approved question in the channels the bot has joined
+   */
+  async tick(now: Date = new Date()): Promise<void> {
+    if (this.running) {
+      this.rerun = true;
+      return;
+    }
+    this.running = true;
+
+    try {
+      const joinedChannels = this.client.getChannels().map(channel => channel.replace('#', '').toLowerCase());
+      if (joinedChannels.length === 0) return;
+
+      await connectToWingmanDB();
+      const approved = await TwitchQueuedQuestion.find({
+        channelName: { $in: joinedChannels },
+        status: 'approved',
+        reviewedAt: { $gte: new Date(now.getTime() - APPROVED_ANSWER_WINDOW_MS) },
+        $or: [
+          { claimedAt: { $exists: false } },
+          { claimedAt: { $lt: new Date(now.getTime() - ANSWER_CLAIM_TIMEOUT_MS) } }
+        ]
+      })
+        .select('channelName number question askers answer claimedAt')
+        .sort({ reviewedAt: 1 })
+        .lean<QueuedQuestionRecord[]>();
+
+      for (const item of approved) {
+        await this.answerQuestion(item);
+      }
+    } catch (error) {
+      logger.error('Error answering approved questions:', error);
+    } finally {
+      this.running = false;
+      if (this.rerun) {
+        this.rerun = false;
+        void this.tick();
+      }
+    }
+  }
+
+  private async answerQuestion(item: QueuedQuestionRecord): Promise<void> {
+    const claimed = await TwitchQueuedQuestion.updateOne(
+      {
+        _id: item._id,
+        status: 'approved',
+        claimedAt: item.claimedAt || { $exists: false }
+      },
+      { $set: { claimedAt: new Date() } }
+    );
+    // Another process is answering it, or it was reviewed again meanwhile
+    if (claimed.modifiedCount === 0) return;
+
+    try {
+      const answer = await this.answer(item);
+      if (!answer) return;
+
+      await TwitchQueuedQuestion.updateOne(
+        { _id: item._id, status: 'approved' },
+        {
+          $set: {
+            status: 'answered',
+            answer,
+            answeredBy: item.answer ? 'streamer' : 'bot',
+            answeredAt: new Date()
+          }
+        }
+      );
+      logger.info('Answered queued question', { channel: item.channelName, number: item.number });
+    } catch (error) {
+      // The claim expires, so the question is retried until the answer window closes
+      logger.error('Error answering queued question', {
+        error,
+        channel: item.channelName,
+        number: item.number
+      });
+    }
+  }
+}
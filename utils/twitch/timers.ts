@@ -0,0 +1,161 @@
+/**
+ * Runs per-channel timers and scheduled announcements (see config/twitchTimers.ts)
+ *
+ * TwitchBotHandler counts chat lines into recordChatLine() and calls tick() from its maintenance
+ * tasks. Posts are claimed with a conditional update on TwitchBotChannel before they are sent, so
+ * a message is posted once even if more than one bot process is connected.
+ */
+import tmi from 'tmi.js';
+import { logger } from '../logger';
+import { connectToWingmanDB } from '../databaseConnections';
+import TwitchBotChannel from '../../models/TwitchBotChannel';
+import {
+  TwitchTimer,
+  TwitchScheduledAnnouncement,
+  ANNOUNCEMENT_GRACE_PERIOD_MS,
+} from '../../config/twitchTimers';
+
+interface ChannelTimerState {
+  channelName: string;
+  timers?: TwitchTimer[];
+  timersPaused?: boolean;
+  scheduledAnnouncements?: TwitchScheduledAnnouncement[];
+}
+
+export class TwitchTimerRunner {
+  private client: tmi.Client;
+  private chatLines: Map<string, number> = new Map(); // Chat lines seen per channel by this process
+  private linesAtLastPost: Map<string, number> = new Map(); // `${channel}:${timerId}` -> chatLines when it last posted
+  private running = false;
+
+  constructor(client: tmi.Client) {
+    this.client = client;
+  }
+
+  /**
+   * Count a chat line towards the channel's timers' minimum activity
+   */
+  recordChatLine(channelName: string): void {
+    this.chatLines.set(channelName, (this.chatLines.get(channelName) || 0) + 1);
+  }
+
+  /**
+   * Post every due timer and announcement in the channels the bot has joined
+   * Overlapping calls are skipped rather than queued.
+   */
+  async tick(now: Date = new Date()): Promise<void> {
+    if (this.running) return;
+    this.running = true;
+
+    try {
+      const joinedChannels = this.client.getChannels().map(channel => channel.replace('#', '').toLowerCase());
+      if (joinedChannels.length === 0) return;
+
+      await connectToWingmanDB();
+      const channels = await TwitchBotChannel.find({
+        channelName: { $in: joinedChannels },
+        isActive: true,
+        $or: [
+          { 'timers.0': { $exists: true } },
+          { 'scheduledAnnouncements.status': 'pending' }
+        ]
+      }).select('channelName timers timersPaused scheduledAnnouncements').lean<ChannelTimerState[]>();
+
+      for (const channel of channels) {
+        await this.runAnnouncements(channel, now);
+        if (!channel.timersPaused) {
+          await this.runTimers(channel, now);
+        }
+      }
+    } catch (error) {
+      logger.error('Error running Twitch timers:', error);
+    } finally {
+      this.running = false;
+    }
+  }
+
+  private async runTimers(channel: ChannelTimerState, now: Date): Promise<void> {
+    const lines = this.chatLines.get(channel.channelName) || 0;
+
+    for (const timer of channel.timers || []) {
+      if (timer.paused || !timer.messages || timer.messages.length === 0) continue;
+
+      // The first time this process sees a timer, activity is counted from now
+      const key = `${channel.channelName}:${timer.id}`;
+      if (!this.linesAtLastPost.has(key)) {
+        this.linesAtLastPost.set(key, lines);
+      }
+
+      const lastPostedAt = timer.lastPostedAt ? new Date(timer.lastPostedAt).getTime() : 0;
+      if (now.getTime() - lastPostedAt < timer.intervalMinutes * 60 * 1000) continue;
+      if (lines - (this.linesAtLastPost.get(key) || 0) < timer.minChatLines) continue;
+
+      const index = (timer.nextMessageIndex || 0) % timer.messages.length;
+      const claimed = await TwitchBotChannel.updateOne(
+        {
+          channelName: channel.channelName,
+          timers: {
+            $elemMatch: timer.lastPostedAt
+              ? { id: timer.id, lastPostedAt: timer.lastPostedAt }
+              : { id: timer.id, lastPostedAt: { $exists: false } }
+          }
+        },
+        {
+          $set: {
+            'timers.$.lastPostedAt': now,
+            'timers.$.nextMessageIndex': (index + 1) % timer.messages.length
+          }
+        }
+      );
+      // Another process posted it, or the streamer edited the timer meanwhile
+      if (claimed.modifiedCount === 0) continue;
+
+      this.linesAtLastPost.set(key, lines);
+      await this.say(channel.channelName, timer.messages[index], { timer: timer.name });
+    }
+  }
+
+  private async runAnnouncements(channel: ChannelTimerState, now: Date): Promise<void> {
+    for (const announcement of channel.scheduledAnnouncements || []) {
+      if (announcement.status !== 'pending') continue;
+
+      const sendAt = new Date(announcement.sendAt).getTime();
+      if (sendAt > now.getTime()) continue;
+
+      // Too late to be useful (e.g. the bot was offline at the time)
+      const missed = now.getTime() - sendAt > ANNOUNCEMENT_GRACE_PERIOD_MS;
+      const claimed = await TwitchBotChannel.updateOne(
+        {
+          channelName: channel.channelName,
+          scheduledAnnouncements: { $elemMatch: { id: announcement.id, status: 'pending' } }
+        },
+        {
+          $set: missed
+            ? { 'scheduledAnnouncements.$.status': 'missed' }
+            : { 'scheduledAnnouncements.$.status': 'sent', 'scheduledAnnouncements.$.sentAt': now }
+        }
+      );
+      if (claimed.modifiedCount === 0) continue;
+
+      if (missed) {
+        logger.warn('Scheduled announcement missed', {
+          channel: channel.channelName,
+          announcementId: announcement.id,
+          sendAt: announcement.sendAt
+        });
+        continue;
+      }
+
+      await this.say(channel.channelName, announcement.message, { announcementId: announcement.id });
+    }
+  }
+
+  private async say(channelName: string, message: string, context: Record<string, string>): Promise<void> {
+    try {
+      await this.client.say(`#${channelName}`, message);
+      logger.info('Posted timed message', { channel: channelName, ...context });
+    } catch (error) {
+      logger.error('Error posting timed message', { error, channel: channelName, ...context });
+    }
+  }
+}
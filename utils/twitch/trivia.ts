@@ -0,0 +1,547 @@
+/**
+ * Runs !trivia rounds and keeps the per-channel leaderboards (see config/twitchTrivia.ts)
+ *
+ * TwitchBotHandler starts rounds with startRound(), passes chat messages to checkAnswer() and
+ * calls tick() from its maintenance tasks. The process that starts a round closes it when the
+ * answer window ends; tick() closes rounds whose timer was lost (e.g. a restart). Rounds are
+ * closed with a conditional update, so points are awarded and results posted once even if more
+ * than one bot process is connected. Closed rounds are recorded as engagement events.
+ */
+import tmi from 'tmi.js';
+import { logger } from '../logger';
+import { connectToWingmanDB } from '../databaseConnections';
+import { LRUCache, cacheManager } from '../cacheManager';
+import { generateTriviaQuestions } from '../aiHelper';
+import { checkAIResponse } from './twitchModeration';
+import TwitchBotChannel from '../../models/TwitchBotChannel';
+import TwitchTriviaRound, { ITriviaCorrectAnswer } from '../../models/TwitchTriviaRound';
+import TwitchTriviaScore from '../../models/TwitchTriviaScore';
+import TwitchTriviaQuestion from '../../models/TwitchTriviaQuestion';
+import type { EngagementTracker } from './engagementTracker';
+import {
+  TwitchTriviaSettings,
+  TriviaBankQuestion,
+  defaultTriviaSettings,
+  isCorrectTriviaAnswer,
+  getTriviaGameKey,
+  RECENT_QUESTION_MEMORY,
+  AI_TRIVIA_BATCH_SIZE,
+} from '../../config/twitchTrivia';
+
+const TRIVIA_SETTINGS_CACHE = 'TwitchTriviaSettings';
+const triviaSettingsCache = new LRUCache<TwitchTriviaSettings>(
+  500,
+  5 * 60 * 1000, // 5 minutes
+  60 * 1000
+);
+cacheManager.registerCache(TRIVIA_SETTINGS_CACHE, triviaSettingsCache);
+
+// Every chat message is checked against the open round, so it is cached (including "no round")
+const ACTIVE_ROUND_CACHE = 'TwitchTriviaActiveRound';
+const activeRoundCache = new LRUCache<{ round: ActiveTriviaRound | null }>(
+  500,
+  30 * 1000, // 30 seconds
+  60 * 1000
+);
+cacheManager.registerCache(ACTIVE_ROUND_CACHE, activeRoundCache);
+
+/**
+ * The open round in a channel, as checked against chat
+ */
+export interface ActiveTriviaRound {
+  id: string;
+  channelName: string;
+  question: string;
+  answers: string[];
+  gameTitle?: string;
+  endsAt: number;
+}
+
+/**
+ * A trivia round as stored, as read when closing it
+ */
+interface TriviaRoundRecord {
+  _id: unknown;
+  channelName: string;
+  question: string;
+  answers: string[];
+  gameTitle?: string;
+  startedAt: Date;
+  endsAt: Date;
+  correct: ITriviaCorrectAnswer[];
+  participants: string[];
+}
+
+export interface TriviaLeaderboardEntry {
+  username: string;
+  displayName: string;
+  points: number;
+  correctAnswers: number;
+  firstAnswers: number;
+  correctPredictions?: number; // Missing on scores from before predictions
+}
+
+export type StartRoundResult =
+  | { status: 'started'; round: ActiveTriviaRound }
+  | { status: 'active'; round: ActiveTriviaRound | null }
+  | { status: 'no_question' };
+
+type EngagementEventData = Parameters<EngagementTracker['recordEngagementEvent']>[0];
+
+// AI batches being generated, so channels playing the same game share one request
+const pendingGenerations = new Map<string, Promise<void>>();
+
+function normalizeChannelName(channelName: string): string {
+  return channelName.replace('#', '').toLowerCase().trim();
+}
+
+function pickRandom<T>(items: T[]): T {
+  return items[Math.floor(Math.random() * items.length)];
+}
+
+/**
+ * Get a channel's trivia settings and question bank (cached)
+ * Falls back to the defaults (trivia off) if the channel is unknown or the database is unavailable.
+ */
+export async function getTriviaSettings(channelName: string): Promise<TwitchTriviaSettings> {
+  const normalizedChannelName = normalizeChannelName(channelName);
+  const cached = triviaSettingsCache.get(normalizedChannelName);
+  if (cached) {
+    return cached;
+  }
+
+  try {
+    await connectToWingmanDB();
+    const channel = await TwitchBotChannel.findOne({ channelName: normalizedChannelName })
+      .select('trivia')
+      .lean() as { trivia?: TwitchTriviaSettings } | null;
+
+    const settings: TwitchTriviaSettings = {
+      ...defaultTriviaSettings,
+      ...channel?.trivia
+    };
+    triviaSettingsCache.set(normalizedChannelName, settings);
+    return settings;
+  } catch (error) {
+    logger.warn('Failed to load trivia settings', {
+      channelName: normalizedChannelName,
+      error: error instanceof Error ? error.message : String(error)
+    });
+    return defaultTriviaSettings;
+  }
+}
+
+/**
+ * Drop a channel's cached trivia settings on every instance (call after editing them)
+ */
+export function invalidateTriviaSettings(channelName: string): void {
+  cacheManager.invalidate(TRIVIA_SETTINGS_CACHE, normalizeChannelName(channelName));
+}
+
+/**
+ * Get a channel's open trivia round, if any (cached)
+ */
+export async function getActiveTriviaRound(channelName: string): Promise<ActiveTriviaRound | null> {
+  const normalizedChannelName = normalizeChannelName(channelName);
+  const cached = activeRoundCache.get(normalizedChannelName);
+  if (cached) {
+    return cached.round;
+  }
+
+  await connectToWingmanDB();
+  const round = await TwitchTriviaRound.findOne({ channelName: normalizedChannelName, status: 'open' })
+    .select('channelName question answers gameTitle endsAt')
+    .lean<{ _id: unknown; channelName: string; question: string; answers: string[]; gameTitle?: string; endsAt: Date } | null>();
+
+  const active: ActiveTriviaRound | null = round
+    ? {
+        id: String(round._id),
+        channelName: round.channelName,
+        question: round.question,
+        answers: round.answers,
+        gameTitle: round.gameTitle,
+        endsAt: new Date(round.endsAt).getTime()
+      }
+    : null;
+  activeRoundCache.set(normalizedChannelName, { round: active });
+  return active;
+}
+
+/**
+ * A channel's leaderboard, highest points first
+ */
+export async function getTriviaLeaderboard(channelName: string, limit: number = 10): Promise<TriviaLeaderboardEntry[]> {
+  await connectToWingmanDB();
+  return TwitchTriviaScore.find({ channelName: normalizeChannelName(channelName), points: { $gt: 0 } })
+    .sort({ points: -1, lastCorrectAt: 1 })
+    .limit(limit)
+    .select('username displayName points correctAnswers firstAnswers correctPredictions')
+    .lean<TriviaLeaderboardEntry[]>();
+}
+
+/**
+ * Pick a question for a new round that the channel has not been asked recently
+ * @returns null if neither the bank nor the AI has a question for the current game
+ */
+async function pickQuestion(
+  channelName: string,
+  settings: TwitchTriviaSettings,
+  gameTitle?: string
+): Promise<{ question: string; answers: string[]; source: 'bank' | 'ai'; bankQuestionId?: string } | null> {
+  const recentRounds = await TwitchTriviaRound.find({ channelName })
+    .sort({ startedAt: -1 })
+    .limit(RECENT_QUESTION_MEMORY)
+    .select('question')
+    .lean<{ question: string }[]>();
+  const recentQuestions = recentRounds.map(round => round.question);
+  const isFresh = (question: string) => recentQuestions.indexOf(question) === -1;
+
+  if (settings.source !== 'ai') {
+    const gameKey = gameTitle ? getTriviaGameKey(gameTitle) : null;
+    const matching = (settings.questions || []).filter((question: TriviaBankQuestion) =>
+      !question.gameTitle || (gameKey !== null && getTriviaGameKey(question.gameTitle) === gameKey)
+    );
+    const fresh = matching.filter(question => isFresh(question.question));
+    // A bank-only channel would rather repeat a question than have no round
+    const candidates = fresh.length > 0 ? fresh : settings.source === 'bank' ? matching : [];
+    if (candidates.length > 0) {
+      const picked = pickRandom(candidates);
+      return { question: picked.question, answers: picked.answers, source: 'bank', bankQuestionId: picked.id };
+    }
+  }
+
+  if (settings.source === 'bank' || !gameTitle) {
+    return null;
+  }
+
+  const gameKey = getTriviaGameKey(gameTitle);
+  const findCached = () => TwitchTriviaQuestion.find({ gameKey })
+    .select('question answers')
+    .lean<{ _id: unknown; question: string; answers: string[] }[]>();
+
+  let cached = await findCached();
+  if (cached.filter(question => isFresh(question.question)).length === 0) {
+    await generateQuestions(gameKey, gameTitle, cached.map(question => question.question));
+    cached = await findCached();
+  }
+
+  const fresh = cached.filter(question => isFresh(question.question));
+  if (fresh.length === 0) {
+    return null;
+  }
+
+  const picked = pickRandom(fresh);
+  await TwitchTriviaQuestion.updateOne(
+    { _id: picked._id },
+    { $inc: { timesAsked: 1 }, $set: { lastAskedAt: new Date() } }
+  );
+  return { question: picked.question, answers: picked.answers, source: 'ai' };
+}
+
+/**
+ * Generate and cache a batch of AI questions for a game
+ */
+async function generateQuestions(gameKey: string, gameTitle: string, existing: string[]): Promise<void> {
+  const pending = pendingGenerations.get(gameKey);
+  if (pending) {
+    return pending;
+  }
+
+  const generation = (async () => {
+    const generated = await generateTriviaQuestions(gameTitle, AI_TRIVIA_BATCH_SIZE, existing);
+
+    // Cached questions are shared by every channel, so check them against the global rules
+    // rather than one channel's (which may have AI checks turned off)
+    const checks = await Promise.all(generated.map(question =>
+      checkAIResponse([question.question, ...question.answers].join('\n'), 'trivia')
+    ));
+    const questions = generated.filter((_, index) => checks[index].shouldProcess);
+    if (questions.length < generated.length) {
+      logger.warn('Dropped AI trivia questions that failed moderation', {
+        gameTitle,
+        dropped: generated.length - questions.length
+      });
+    }
+    if (questions.length === 0) return;
+
+    try {
+      await TwitchTriviaQuestion.insertMany(
+        questions.map(question => ({ ...question, gameKey, gameTitle })),
+        { ordered: false } // Skip questions already cached by another process
+      );
+    } catch (error: any) {
+      if (error?.code !== 11000) throw error;
+    }
+    logger.info('Generated trivia questions', { gameTitle, count: questions.length });
+  })();
+
+  pendingGenerations.set(gameKey, generation);
+  try {
+    await generation;
+  } finally {
+    pendingGenerations.delete(gameKey);
+  }
+}
+
+export class TwitchTriviaRunner {
+  private client: tmi.Client;
+  private recordEngagementEvent: (event: EngagementEventData) => Promise<void>;
+  private closeTimers: Map<string, NodeJS.Timeout> = new Map(); // Round id -> timer closing it
+  private guessers: Map<string, Set<string>> = new Map(); // Round id -> usernames recorded as participants
+  private running = false;
+
+  /**
+   * @param recordEngagementEvent - Records a closed round for analytics (the engagement tracker's)
+   */
+  constructor(client: tmi.Client, recordEngagementEvent: (event: EngagementEventData) => Promise<void>) {
+    this.client = client;
+    this.recordEngagementEvent = recordEngagementEvent;
+  }
+
+  /**
+   * Start a round in a channel, unless one is already running
+   * @param gameTitle - The channel's current game; AI questions need one
+   */
+  async startRound(
+    channelName: string,
+    startedBy: string,
+    settings: TwitchTriviaSettings,
+    gameTitle?: string
+  ): Promise<StartRoundResult> {
+    const normalizedChannelName = normalizeChannelName(channelName);
+
+    const existing = await getActiveTriviaRound(normalizedChannelName);
+    if (existing) {
+      if (existing.endsAt > Date.now()) {
+        return { status: 'active', round: existing };
+      }
+      // Its timer was lost; close it before starting the next one
+      await this.closeRound(existing.id);
+    }
+
+    const picked = await pickQuestion(normalizedChannelName, settings, gameTitle);
+    if (!picked) {
+      return { status: 'no_question' };
+    }
+
+    const startedAt = new Date();
+    const endsAt = new Date(startedAt.getTime() + settings.answerWindowSeconds * 1000);
+    let created: { _id: unknown };
+    try {
+      created = await TwitchTriviaRound.create({
+        channelName: normalizedChannelName,
+        ...picked,
+        gameTitle,
+        status: 'open',
+        startedBy,
+        startedAt,
+        endsAt
+      });
+    } catch (error: any) {
+      // Another moderator (or bot process) started one at the same time
+      if (error?.code === 11000) {
+        cacheManager.invalidate(ACTIVE_ROUND_CACHE, normalizedChannelName);
+        return { status: 'active', round: await getActiveTriviaRound(normalizedChannelName) };
+      }
+      throw error;
+    }
+
+    const round: ActiveTriviaRound = {
+      id: String(created._id),
+      channelName: normalizedChannelName,
+      question: picked.question,
+      answers: picked.answers,
+      gameTitle,
+      endsAt: endsAt.getTime()
+    };
+    cacheManager.invalidate(ACTIVE_ROUND_CACHE, normalizedChannelName);
+    activeRoundCache.set(normalizedChannelName, { round });
+    this.scheduleClose(round);
+
+    logger.info('Trivia round started', {
+      channel: normalizedChannelName,
+      startedBy,
+      source: picked.source,
+      gameTitle
+    });
+    return { status: 'started', round };
+  }
+
+  /**
+   * End a channel's open round early
+   * @returns false if there was no open round
+   */
+  async endRound(channelName: string): Promise<boolean> {
+    const round = await getActiveTriviaRound(channelName);
+    if (!round) return false;
+    await this.closeRound(round.id);
+    return true;
+  }
+
+  /**
+   * Check a chat message against the channel's open round
+   * Correct answers are not acknowledged until the round closes, so everyone gets the full window.
+   */
+  async checkAnswer(channelName: string, username: string, displayName: string, message: string): Promise<void> {
+    try {
+      const round = await getActiveTriviaRound(channelName);
+      if (!round || round.endsAt <= Date.now()) return;
+
+      const user = username.toLowerCase();
+      let guessers = this.guessers.get(round.id);
+      if (!guessers) {
+        guessers = new Set();
+        this.guessers.set(round.id, guessers);
+      }
+
+      if (isCorrectTriviaAnswer(message, round.answers)) {
+        // Only the first correct answer per viewer counts; order decides the first-answer bonus
+        await TwitchTriviaRound.updateOne(
+          { _id: round.id, status: 'open', 'correct.username': { $ne: user } },
+          {
+            $push: { correct: { username: user, displayName, answeredAt: new Date() } },
+            $addToSet: { participants: user }
+          }
+        );
+        guessers.add(user);
+      } else if (!guessers.has(user)) {
+        guessers.add(user);
+        await TwitchTriviaRound.updateOne(
+          { _id: round.id, status: 'open' },
+          { $addToSet: { participants: user } }
+        );
+      }
+    } catch (error) {
+      logger.error('Error checking trivia answer', { error, channel: channelName });
+    }
+  }
+
+  /**
+   * Close every overdue round in the channels the bot has joined
+   * Overlapping calls are skipped rather than queued.
+   */
+  async tick(now: Date = new Date()): Promise<void> {
+    if (this.running) return;
+    this.running = true;
+
+    try {
+      const joinedChannels = this.client.getChannels().map(channel => channel.replace('#', '').toLowerCase());
+      if (joinedChannels.length === 0) return;
+
+      await connectToWingmanDB();
+      const overdue = await TwitchTriviaRound.find({
+        channelName: { $in: joinedChannels },
+        status: 'open',
+        endsAt: { $lte: now }
+      }).select('_id').lean<{ _id: unknown }[]>();
+
+      for (const round of overdue) {
+        await this.closeRound(String(round._id));
+      }
+    } catch (error) {
+      logger.error('Error closing trivia rounds:', error);
+    } finally {
+      this.running = false;
+    }
+  }
+
+  private scheduleClose(round: ActiveTriviaRound): void {
+    const timer = setTimeout(() => {
+      void this.closeRound(round.id);
+    }, Math.max(0, round.endsAt - Date.now()));
+    this.closeTimers.set(round.id, timer);
+  }
+
+  /**
+   * Close a round, award points, post the results and record the round for analytics
+   */
+  private async closeRound(roundId: string): Promise<void> {
+    const timer = this.closeTimers.get(roundId);
+    if (timer) {
+      clearTimeout(timer);
+      this.closeTimers.delete(roundId);
+    }
+    this.guessers.delete(roundId);
+
+    try {
+      await connectToWingmanDB();
+      const round = await TwitchTriviaRound.findOneAndUpdate(
+        { _id: roundId, status: 'open' },
+        { $set: { status: 'closed', closedAt: new Date() } },
+        { new: true }
+      ).lean<TriviaRoundRecord>();
+      // Already closed by another process or an earlier call
+      if (!round) return;
+
+      cacheManager.invalidate(ACTIVE_ROUND_CACHE, round.channelName);
+      const settings = await getTriviaSettings(round.channelName);
+
+      let pointsAwarded = 0;
+      for (let i = 0; i < round.correct.length; i++) {
+        const answer = round.correct[i];
+        const isFirst = i === 0;
+        const points = settings.points + (isFirst ? settings.firstAnswerBonus : 0);
+        pointsAwarded += points;
+        await TwitchTriviaScore.updateOne(
+          { channelName: round.channelName, username: answer.username },
+          {
+            $inc: { points, correctAnswers: 1, firstAnswers: isFirst ? 1 : 0 },
+            $set: { displayName: answer.displayName, lastCorrectAt: answer.answeredAt }
+          },
+          { upsert: true }
+        );
+      }
+      await TwitchTriviaRound.updateOne({ _id: round._id }, { $set: { pointsAwarded } });
+
+      await this.say(round.channelName, this.formatResults(round, settings), { roundId });
+
+      const first = round.correct[0];
+      await this.recordEngagementEvent({
+        channelName: round.channelName,
+        eventType: 'trivia_round',
+        eventSource: 'chat_game',
+        username: first?.username,
+        displayName: first?.displayName,
+        participants: round.participants.length,
+        correctAnswers: round.correct.length,
+        gameTitle: round.gameTitle,
+        chatActivity: round.participants.length,
+        engagementScore: Math.min(100, 20 + round.participants.length * 5),
+        eventTimestamp: new Date(round.startedAt)
+      });
+
+      logger.info('Trivia round closed', {
+        channel: round.channelName,
+        participants: round.participants.length,
+        correctAnswers: round.correct.length,
+        pointsAwarded
+      });
+    } catch (error) {
+      logger.error('Error closing trivia round', { error, roundId });
+    }
+  }
+
+  private formatResults(round: TriviaRoundRecord, settings: TwitchTriviaSettings): string {
+    const answer = round.answers[0];
+    if (round.correct.length === 0) {
+      return `⏰ Time's up! Nobody got it. The answer was: ${answer}`;
+    }
+
+    const [first, ...others] = round.correct;
+    let message = `⏰ Time's up! The answer was: ${answer}. 🏆 ${first.displayName} got it first (+${settings.points + settings.firstAnswerBonus})`;
+    if (others.length > 0) {
+      const named = others.slice(0, 5).map(other => other.displayName).join(', ');
+      const more = others.length > 5 ? ` and ${others.length - 5} more` : '';
+      message += `. Also correct: ${named}${more} (+${settings.points})`;
+    }
+    return `${message}. Type !top for the leaderboard`;
+  }
+
+  private async say(channelName: string, message: string, context: Record<string, string>): Promise<void> {
+    try {
+      await this.client.say(`#${channelName}`, message);
+    } catch (error) {
+      logger.error('Error posting trivia message', { error, channel: channelName, ...context });
+    }
+  }
+}
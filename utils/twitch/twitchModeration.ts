@@ -1,28 +1,14 @@
-import { containsOffensiveContent } from '../contentModeration';
 import { logger } from '../logger';
 import { getClient } from '../twitchBot';
 import connectToMongoDB from '../mongodb';
 import TwitchUserViolation from '../../models/TwitchUserViolation';
 import TwitchModerationLog from '../../models/TwitchModerationLog';
 import { getModerationConfig } from '../../config/twitchModerationConfig';
+import { ModerationAction } from '../../config/moderationRules';
+import { checkContentAgainstRules, RecentMessageTracker } from '../moderation/rulesEngine';
 
-/**
- * Helper function to check for offensive words without violation tracking
- */
-async function checkWordsDirectly(message: string): Promise<string[]> {
-  // Dynamically import the word list
-  const contentModeration = await import('../contentModeration');
-  // Access the word list - we need to read the file or use a different approach
-  // For now, use containsOffensiveContent with a unique ID to avoid duplicate key errors
-  const uniqueId = `twitch_check_${Date.now()}_${Math.random()}`;
-  try {
-    const result = await containsOffensiveContent(message, uniqueId);
-    return result.offendingWords || [];
-  } catch {
-    // If it fails, return empty array (fail open)
-    return [];
-  }
-}
+// Recent messages per channel and user, for the repeated-message rule
+const recentMessages = new RecentMessageTracker();
 
 /**
  * Violation result type from violation handler
@@ -49,6 +35,8 @@ export interface ModerationResult {
   violationResult?: ViolationResult;
   /** Reason for rejection (if shouldProcess is false) */
   reason?: string;
+  /** Most severe action from the moderation rules (see config/moderationRules.ts) */
+  action?: ModerationAction;
 }
 
 /**
@@ -76,32 +64,25 @@ export async function checkMessageContent(
         shouldProcess: true,
       };
     }
-    // Check for offensive words directly (without violation tracking)
+    // Evaluate the shared moderation rules (no side effects)
     // We handle violations separately using TwitchUserViolation model
-    // Import the word checking logic without triggering violation tracking
-    const contentModeration = await import('../contentModeration');
-    
-    // Use containsOffensiveContent but catch the violation tracking error
-    // The violation tracking uses old UserViolation model, which we don't need for Twitch
-    let moderationCheck;
-    try {
-      moderationCheck = await containsOffensiveContent(message, `twitch_${twitchUsername}_${Date.now()}`);
-    } catch (violationError: any) {
-      // If violation tracking fails (e.g., duplicate key), just check words manually
-      // This is expected for Twitch since we use separate violation tracking
-      if (violationError?.message?.includes('duplicate key') || violationError?.code === 11000) {
-        // Duplicate key error - violation was already tracked, just check words
-        const foundWords = await checkWordsDirectly(message);
-        moderationCheck = {
-          isOffensive: foundWords.length > 0,
-          offendingWords: foundWords
-        };
-      } else {
-        throw violationError; // Re-throw if it's a different error
-      }
+    const historyKey = `${(channelName || '').replace('#', '').toLowerCase()}:${twitchUsername.toLowerCase()}`;
+    const evaluation = await checkContentAgainstRules(message, {
+      platform: 'twitch',
+      strict: config.strictMode,
+      recentMessages: recentMessages.get(historyKey)
+    });
+    recentMessages.record(historyKey, message);
+
+    if (evaluation.action === 'log') {
+      logger.info('Twitch message flagged by moderation rules', {
+        twitchUsername,
+        channelName,
+        matches: evaluation.matches.map(match => ({ rule: match.rule, matched: match.matched }))
+      });
     }
 
-    if (!moderationCheck.isOffensive) {
+    if (!evaluation.isBlocked) {
       // Content is clean - allow processing
       return {
         isOffensive: false,
@@ -113,7 +94,8 @@ export async function checkMessageContent(
     // Offensive content detected
     logger.warn('Offensive content detected in Twitch message', {
       twitchUsername,
-      offendingWords: moderationCheck.offendingWords,
+      offendingWords: evaluation.offendingWords,
+      action: evaluation.action,
       messagePreview: message.substring(0, 100), // Log first 100 chars for context
     });
 
@@ -123,10 +105,11 @@ export async function checkMessageContent(
 
     return {
       isOffensive: true,
-      offendingWords: moderationCheck.offendingWords,
+      offendingWords: evaluation.offendingWords,
       shouldProcess: false, // Don't process offensive messages
       // No violationResult here - we handle violations separately using TwitchUserViolation
       reason: 'Message contains offensive content',
+      action: evaluation.action as ModerationAction,
     };
   } catch (error) {
     // If moderation check fails, log error but allow processing (fail open)
@@ -174,14 +157,14 @@ export async function checkAIResponse(
       };
     }
     
-    // Use existing content moderation utility
-    // Note: We use a special identifier for AI responses to avoid penalizing users
-    const moderationCheck = await containsOffensiveContent(
-      response,
-      `ai_response_${twitchUsername}_${Date.now()}` // Unique identifier to avoid user penalties
-    );
+    // Evaluate the shared moderation rules (no side effects, so the user is never penalized)
+    const moderationCheck = await checkContentAgainstRules(response, {
+      platform: 'twitch',
+      source: 'ai',
+      strict: config.strictMode
+    });
 
-    if (!moderationCheck.isOffensive) {
+    if (!moderationCheck.isBlocked) {
       // Response is clean - allow sending
       return {
         isOffensive: false,
@@ -605,6 +588,16 @@ export async function handleModerationViolation(
       });
       return false;
     }
+
+    // Rules whose action is 'block' reject the message without counting a violation
+    if (moderationResult.action === 'block') {
+      logger.info('Message blocked by moderation rules, no violation recorded', {
+        twitchUsername,
+        channel,
+        offendingWords: moderationResult.offendingWords
+      });
+      return false;
+    }
     
     await connectToMongoDB();
     
@@ -657,7 +650,37 @@ export async function handleModerationViolation(
       reason: string;
     };
     
-    if (totalViolations === 1) {
+    if (moderationResult.action === 'ban' || totalViolations >= config.maxViolationsBeforeBan) {
+      // Max violations reached (or a rule calls for an immediate ban): Permanent ban
+      actionTaken = 'ban';
+      violationRecord = {
+        offendingWords: moderationResult.offendingWords,
+        message: messageContent || '',
+        timestamp: new Date(),
+        actionTaken: 'ban',
+        reason: moderationResult.reason || 'Offensive content detected'
+      };
+      
+      actionSuccess = await banUser(
+        channel,
+        twitchUsername,
+        `${moderationResult.action === 'ban' ? 'Banned content' : `Repeated violations (${totalViolations})`}: ${moderationResult.offendingWords.join(', ')}`
+      );
+      
+      violation.warningCount = totalViolations;
+      violation.timeoutCount = violation.timeoutCount; // Keep existing count
+      violation.isBanned = true;
+      violation.bannedAt = new Date();
+      violation.violations.push(violationRecord);
+      
+      logger.warn('Max violations reached - permanent ban', {
+        twitchUsername: normalizedUsername,
+        channel: normalizedChannel,
+        totalViolations,
+        maxViolations: config.maxViolationsBeforeBan,
+        immediate: moderationResult.action === 'ban'
+      });
+    } else if (totalViolations === 1) {
       // First violation: Warning only (or timeout if configured)
       actionTaken = config.timeoutDurations.first > 0 ? 'timeout' : 'warning';
       timeoutDuration = config.timeoutDurations.first;
@@ -797,35 +820,6 @@ export async function handleModerationViolation(
         duration: timeoutDuration
       });
       
-    } else if (totalViolations >= config.maxViolationsBeforeBan) {
-      // Max violations reached: Permanent ban
-      actionTaken = 'ban';
-      violationRecord = {
-        offendingWords: moderationResult.offendingWords,
-        message: messageContent || '',
-        timestamp: new Date(),
-        actionTaken: 'ban',
-        reason: moderationResult.reason || 'Offensive content detected'
-      };
-      
-      actionSuccess = await banUser(
-        channel,
-        twitchUsername,
-        `Repeated violations (${totalViolations}): ${moderationResult.offendingWords.join(', ')}`
-      );
-      
-      violation.warningCount = totalViolations;
-      violation.timeoutCount = violation.timeoutCount; // Keep existing count
-      violation.isBanned = true;
-      violation.bannedAt = new Date();
-      violation.violations.push(violationRecord);
-      
-      logger.warn('Max violations reached - permanent ban', {
-        twitchUsername: normalizedUsername,
-        channel: normalizedChannel,
-        totalViolations,
-        maxViolations: config.maxViolationsBeforeBan
-      });
     } else {
       // Between 4th and max violations: Continue with longest timeout
       actionTaken = 'timeout';
@@ -161,12 +161,12 @@ export async function initializeTwitchBot(): Promise<boolean> {
       channels: channelsToJoin, // Channels to join on connect
     });
 
-    // Initialize bot handler
-    botHandler = new TwitchBotHandler(client);
-    
-    // Initialize engagement tracker
+    // Initialize engagement tracker (the bot handler records trivia rounds with it)
     engagementTracker = new EngagementTracker(client);
 
+    // Initialize bot handler
+    botHandler = new TwitchBotHandler(client, engagementTracker);
+
     // Set up event handlers
     client.on('connected', (addr, port) => {
       console.log(`✅ Twitch bot connected to ${addr}:${port}`);
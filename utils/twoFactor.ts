@@ -0,0 +1,404 @@
+/**
+ * TOTP two-factor authentication (RFC 6238)
+ *
+ * Enrollment is two steps: beginTwoFactorSetup() stores an encrypted pending secret and returns the
+ * otpauth:// provisioning URI, and enableTwoFactor() promotes it once the user proves their
+ * authenticator works, returning one-time recovery codes (only their hashes are stored).
+ *
+ * Once enabled, signin stops after the password check and issues a challenge token
+ * (see generateTwoFactorChallengeToken in utils/jwt.ts), and sensitive account actions call
+ * requireTwoFactorReauth() before doing anything.
+ *
+ * Callers are responsible for connecting to the database and saving the user, except for
+ * consumeTwoFactorCode(), which records used codes itself.
+ */
+import crypto from 'crypto';
+import User, { IUser } from '../models/User';
+import { HttpError } from './httpError';
+
+export const TOTP_ISSUER = 'Video Game Wingman';
+const TOTP_PERIOD_SECONDS = 30;
+const TOTP_DIGITS = 6;
+const TOTP_WINDOW = 1; // Accept one step either side for clock drift
+const SECRET_BYTES = 20; // 160-bit secret, as recommended by RFC 4226
+const RECOVERY_CODE_COUNT = 10;
+const BASE32_ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ234567';
+
+/**
+ * Re-authentication failed; routes pass twoFactorRequired on so the client asks for a code
+ */
+class TwoFactorRequiredError extends HttpError {
+  readonly twoFactorRequired = true;
+
+  constructor(message: string) {
+    super(message, 403);
+  }
+}
+
+function base32Encode(buffer: Buffer): string {
+  let bits = 0;
+  let value = 0;
+  let output = '';
+
+  for (let i = 0; i < buffer.length; i++) {
+    value = (value << 8) | buffer[i];
+    bits += 8;
+    while (bits >= 5) {
+      output += BASE32_ALPHABET[(value >>> (bits - 5)) & 31];
+      bits -= 5;
+    }
+  }
+  if (bits > 0) {
+    output += BASE32_ALPHABET[(value << (5 - bits)) & 31];
+  }
+
+  return output;
+}
+
+function base32Decode(input: string): Buffer {
+  const cleaned = input.toUpperCase().replace(/[^A-Z2-7]/g, '');
+  let bits = 0;
+  let value = 0;
+  const bytes: number[] = [];
+
+  for (let i = 0; i < cleaned.length; i++) {
+    value = (value << 5) | BASE32_ALPHABET.indexOf(cleaned[i]);
+    bits += 5;
+    if (bits >= 8) {
+      bytes.push((value >>> (bits - 8)) & 255);
+      bits -= 8;
+    }
+  }
+
+  return Buffer.from(bytes);
+}
+
+/**
+ * Secrets are encrypted at rest with AES-256-GCM so a database dump alone can't mint codes
+ */
+function getEncryptionKey(): Buffer {
+  const keySource = process.env.TWO_FACTOR_ENCRYPTION_KEY || process.env.JWT_SECRET;
+  if (!keySource) {
+    throw new Error('TWO_FACTOR_ENCRYPTION_KEY or JWT_SECRET must be set to use two-factor authentication');
+  }
+  return crypto.createHash('sha256').update(keySource).digest();
+}
+
+function encryptSecret(secret: string): string {
+  const iv = crypto.randomBytes(12);
+  const cipher = crypto.createCipheriv('aes-256-gcm', getEncryptionKey(), iv);
+  const encrypted = Buffer.concat([cipher.update(secret, 'utf8'), cipher.final()]);
+  const tag = cipher.getAuthTag();
+  return [iv.toString('base64'), tag.toString('base64'), encrypted.toString('base64')].join(':');
+}
+
+function decryptSecret(payload: string): string {
+  const [iv, tag, encrypted] = payload.split(':');
+  const decipher = crypto.createDecipheriv('aes-256-gcm', getEncryptionKey(), Buffer.from(iv, 'base64'));
+  decipher.setAuthTag(Buffer.from(tag, 'base64'));
+  return Buffer.concat([decipher.update(Buffer.from(encrypted, 'base64')), decipher.final()]).toString('utf8');
+}
+
+/**
+ * Compute the TOTP code for a base32 secret at a given time step
+ */
+export function generateTotp(secret: string, step: number): string {
+  const counter = Buffer.alloc(8);
+  counter.writeUInt32BE(Math.floor(step / 0x100000000), 0);
+  counter.writeUInt32BE(step % 0x100000000, 4);
+
+  const hmac = crypto.createHmac('sha1', base32Decode(secret)).update(counter).digest();
+  const offset = hmac[hmac.length - 1] & 0xf;
+  const binary =
+    ((hmac[offset] & 0x7f) << 24) |
+    (hmac[offset + 1] << 16) |
+    (hmac[offset + 2] << 8) |
+    hmac[offset + 3];
+
+  return (binary % Math.pow(10, TOTP_DIGITS)).toString().padStart(TOTP_DIGITS, '0');
+}
+
+function safeEqual(a: string, b: string): boolean {
+  const bufferA = Buffer.from(a);
+  const bufferB = Buffer.from(b);
+  return bufferA.length === bufferB.length && crypto.timingSafeEqual(bufferA, bufferB);
+}
+
+/**
+ * Find the time step a code was generated for, or null if it doesn't match within the window
+ */
+export function matchTotpStep(secret: string, code: string, now: number = Date.now()): number | null {
+  const currentStep = Math.floor(now / 1000 / TOTP_PERIOD_SECONDS);
+  for (let offset = -TOTP_WINDOW; offset <= TOTP_WINDOW; offset++) {
+    const step = currentStep + offset;
+    if (safeEqual(generateTotp(secret, step), code)) {
+      return step;
+    }
+  }
+  return null;
+}
+
+function hashRecoveryCode(code: string): string {
+  return crypto
+    .createHash('sha256')
+    .update(code.toUpperCase().replace(/[^A-Z0-9]/g, ''))
+    .digest('hex');
+}
+
+/**
+ * Generate one-time recovery codes in XXXXX-XXXXX form
+ */
+function generateRecoveryCodes(): { codes: string[]; hashes: Array<{ hash: string }> } {
+  const codes: string[] = [];
+  for (let i = 0; i < RECOVERY_CODE_COUNT; i++) {
+    const raw = base32Encode(crypto.randomBytes(7)).slice(0, 10);
+    codes.push(`${raw.slice(0, 5)}-${raw.slice(5)}`);
+  }
+  return { codes, hashes: codes.map(code => ({ hash: hashRecoveryCode(code) })) };
+}
+
+/**
+ * Build the otpauth:// URI that authenticator apps read from a QR code
+ */
+export function buildProvisioningUri(secret: string, accountName: string): string {
+  const label = `${encodeURIComponent(TOTP_ISSUER)}:${encodeURIComponent(accountName)}`;
+  const params = [
+    `secret=${secret}`,
+    `issuer=${encodeURIComponent(TOTP_ISSUER)}`,
+    'algorithm=SHA1',
+    `digits=${TOTP_DIGITS}`,
+    `period=${TOTP_PERIOD_SECONDS}`,
+  ].join('&');
+  return `otpauth://totp/${label}?${params}`;
+}
+
+/**
+ * The secret and recovery codes are select: false on the User model; load them with
+ * User.findOne(...).select(TWO_FACTOR_SECRET_FIELDS) before enrolling or checking codes
+ */
+export const TWO_FACTOR_SECRET_FIELDS = '+twoFactor.secret +twoFactor.pendingSecret +twoFactor.recoveryCodes';
+
+export function isTwoFactorEnabled(user: Pick<IUser, 'twoFactor'>): boolean {
+  return Boolean(user.twoFactor?.enabled);
+}
+
+export function getRemainingRecoveryCodes(user: Pick<IUser, 'twoFactor'>): number {
+  return (user.twoFactor?.recoveryCodes || []).filter(code => !code.usedAt).length;
+}
+
+/**
+ * Start enrollment: store a new pending secret and return what the authenticator app needs
+ * @throws HttpError with statusCode 409 if two-factor is already enabled
+ */
+export function beginTwoFactorSetup(user: IUser): { secret: string; provisioningUri: string } {
+  if (isTwoFactorEnabled(user)) {
+    throw new HttpError('Two-factor authentication is already enabled', 409);
+  }
+
+  const secret = base32Encode(crypto.randomBytes(SECRET_BYTES));
+  user.twoFactor = {
+    enabled: false,
+    pendingSecret: encryptSecret(secret),
+  };
+  user.markModified('twoFactor');
+
+  return { secret, provisioningUri: buildProvisioningUri(secret, user.email || user.username) };
+}
+
+/**
+ * Finish enrollment with a code from the authenticator app
+ * @returns The plain recovery codes, which are never shown again
+ * @throws HttpError with statusCode 400 if there is no pending setup or the code is wrong
+ */
+export function enableTwoFactor(user: IUser, code: string): { recoveryCodes: string[] } {
+  if (isTwoFactorEnabled(user)) {
+    throw new HttpError('Two-factor authentication is already enabled', 409);
+  }
+  if (!user.twoFactor?.pendingSecret) {
+    throw new HttpError('Start two-factor setup first', 400);
+  }
+
+  const secret = decryptSecret(user.twoFactor.pendingSecret);
+  const step = matchTotpStep(secret, normalizeCode(code));
+  if (step === null) {
+    throw new HttpError('Invalid verification code', 400);
+  }
+
+  const { codes, hashes } = generateRecoveryCodes();
+  user.twoFactor = {
+    enabled: true,
+    secret: user.twoFactor.pendingSecret,
+    pendingSecret: undefined,
+    enabledAt: new Date(),
+    lastUsedStep: step,
+    recoveryCodes: hashes,
+  };
+  user.markModified('twoFactor');
+
+  return { recoveryCodes: codes };
+}
+
+/**
+ * Turn two-factor off and forget the secret and recovery codes
+ */
+export function disableTwoFactor(user: IUser): void {
+  user.twoFactor = { enabled: false };
+  user.markModified('twoFactor');
+}
+
+/**
+ * Replace all recovery codes with a fresh set
+ */
+export function regenerateRecoveryCodes(user: IUser): { recoveryCodes: string[] } {
+  if (!isTwoFactorEnabled(user)) {
+    throw new HttpError('Two-factor authentication is not enabled', 400);
+  }
+
+  const { codes, hashes } = generateRecoveryCodes();
+  user.twoFactor!.recoveryCodes = hashes;
+  user.markModified('twoFactor');
+
+  return { recoveryCodes: codes };
+}
+
+function normalizeCode(code: string): string {
+  return String(code || '').replace(/\s+/g, '');
+}
+
+type TwoFactorCodeMatch =
+  | { valid: false }
+  | { valid: true; method: 'totp'; step: number }
+  | { valid: true; method: 'recovery_code'; hash: string };
+
+/**
+ * Check a code against the user as loaded, without recording anything
+ */
+function matchTwoFactorCode(user: IUser, code: string): TwoFactorCodeMatch {
+  if (!isTwoFactorEnabled(user) || !code) {
+    return { valid: false };
+  }
+
+  if (!user.twoFactor!.secret) {
+    throw new Error('Two-factor secret not loaded; select TWO_FACTOR_SECRET_FIELDS');
+  }
+
+  const normalized = normalizeCode(code);
+
+  if (/^\d+$/.test(normalized)) {
+    const step = matchTotpStep(decryptSecret(user.twoFactor!.secret!), normalized);
+    if (step === null || (user.twoFactor!.lastUsedStep !== undefined && step <= user.twoFactor!.lastUsedStep)) {
+      return { valid: false };
+    }
+    return { valid: true, method: 'totp', step };
+  }
+
+  const hash = hashRecoveryCode(normalized);
+  const recoveryCode = (user.twoFactor!.recoveryCodes || []).find(
+    entry => !entry.usedAt && safeEqual(entry.hash, hash)
+  );
+  return recoveryCode ? { valid: true, method: 'recovery_code', hash: recoveryCode.hash } : { valid: false };
+}
+
+/**
+ * Mark a matched code as used on the in-memory user
+ */
+function markTwoFactorCodeUsed(user: IUser, match: TwoFactorCodeMatch, usedAt: Date): void {
+  if (!match.valid) {
+    return;
+  }
+  if (match.method === 'totp') {
+    user.twoFactor!.lastUsedStep = match.step;
+    return;
+  }
+  const { hash } = match;
+  const recoveryCode = (user.twoFactor!.recoveryCodes || []).find(entry => entry.hash === hash);
+  if (recoveryCode) {
+    recoveryCode.usedAt = usedAt;
+  }
+}
+
+/**
+ * Check an authenticator code or an unused recovery code on the loaded user only
+ *
+ * Accepted TOTP steps and used recovery codes are recorded on the user object, so the same code
+ * can't be checked twice against it. Requests handling real sign-ins use consumeTwoFactorCode(),
+ * which also records the use in the database.
+ */
+export function verifyTwoFactorCode(
+  user: IUser,
+  code: string
+): { valid: boolean; method?: 'totp' | 'recovery_code' } {
+  const match = matchTwoFactorCode(user, code);
+  if (!match.valid) {
+    return { valid: false };
+  }
+  markTwoFactorCodeUsed(user, match, new Date());
+  user.markModified('twoFactor');
+  return { valid: true, method: match.method };
+}
+
+/**
+ * Check a code and record its use in the database in one conditional update
+ *
+ * The update only matches while the TOTP step is newer than the last one used, or while the
+ * recovery code is unused, so of two requests racing with the same code exactly one succeeds.
+ * The user object is updated to match; it doesn't need saving afterwards.
+ */
+export async function consumeTwoFactorCode(
+  user: IUser,
+  code: string
+): Promise<{ valid: boolean; method?: 'totp' | 'recovery_code' }> {
+  const match = matchTwoFactorCode(user, code);
+  if (!match.valid) {
+    return { valid: false };
+  }
+
+  const usedAt = new Date();
+  const result = match.method === 'totp'
+    ? await User.updateOne(
+        {
+          _id: user._id,
+          'twoFactor.enabled': true,
+          $or: [
+            { 'twoFactor.lastUsedStep': { $exists: false } },
+            { 'twoFactor.lastUsedStep': { $lt: match.step } },
+          ],
+        },
+        { $set: { 'twoFactor.lastUsedStep': match.step } }
+      )
+    : await User.updateOne(
+        {
+          _id: user._id,
+          'twoFactor.enabled': true,
+          'twoFactor.recoveryCodes': { $elemMatch: { hash: match.hash, usedAt: null } },
+        },
+        { $set: { 'twoFactor.recoveryCodes.$.usedAt': usedAt } }
+      );
+  if (result.modifiedCount !== 1) {
+    return { valid: false };
+  }
+
+  markTwoFactorCodeUsed(user, match, usedAt);
+  return { valid: true, method: match.method };
+}
+
+/**
+ * Re-authentication for sensitive actions (password/email change, revoking all sessions, ...)
+ *
+ * No-op for users without two-factor enabled. The accepted code is recorded in the database.
+ * @throws HttpError with statusCode 403 and twoFactorRequired: true if the code is missing or wrong
+ */
+export async function requireTwoFactorReauth(user: IUser, code?: string): Promise<void> {
+  if (!isTwoFactorEnabled(user)) {
+    return;
+  }
+
+  if (!code) {
+    throw new TwoFactorRequiredError('Enter a code from your authenticator app to continue');
+  }
+
+  const result = await consumeTwoFactorCode(user, code);
+  if (!result.valid) {
+    throw new TwoFactorRequiredError('Invalid two-factor code');
+  }
+}
@@ -1,22 +1,5 @@
 import { Forum } from '../types';
 
-/**
- * Validates user authentication
- * @param username - The user's username to validate
- * @returns Array of error messages, empty if validation passes
- */
-export const validateUserAuthentication = (username: string | null) => {
-  const errors: string[] = [];
-
-  if (!username) {
-    errors.push('User authentication required');
-  } else if (typeof username !== 'string' || username.length < 1) {
-    errors.push('Invalid username format');
-  }
-
-  return errors;
-};
-
 /**
  * Validates forum data for creation or updates
  * @param data - Partial Forum object containing the data to validate
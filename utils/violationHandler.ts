@@ -1,14 +1,34 @@
 import UserViolation from '../models/UserViolation';
 import { banEmail } from './emailCheck';
 
-export const handleContentViolation = async (username: string, offendingWords: string[], userEmail?: string) => {
+// Longest excerpt of the offending content kept for moderators reviewing the violation
+const MAX_STORED_CONTENT_LENGTH = 1000;
+
+/**
+ * Record a content violation and escalate: warning -> 30-day ban -> 50-day ban -> permanent ban
+ * @param username - The user's username
+ * @param offendingWords - Words or rules that matched
+ * @param userEmail - Optional user email for permanent ban handling
+ * @param content - Optional offending content, stored so moderators can review the violation
+ *                  (defaults to the offending words)
+ */
+export const handleContentViolation = async (
+  username: string,
+  offendingWords: string[],
+  userEmail?: string,
+  content?: string
+) => {
   const violation = await UserViolation.findOne({ username });
+  const record = {
+    offendingWords,
+    content: content ? content.slice(0, MAX_STORED_CONTENT_LENGTH) : offendingWords.join(', ')
+  };
   
   if (!violation) {
     // First violation - create record and warn
     await UserViolation.create({
       username,
-      violations: [{ offendingWords, content: offendingWords.join(', ') }],
+      violations: [record],
       warningCount: 1,
       banCount: 0,
       isPermanentlyBanned: false
@@ -28,7 +48,7 @@ export const handleContentViolation = async (username: string, offendingWords: s
     // Reset warning count after ban expires, but keep violation history
     violation.warningCount = 1;
     violation.banExpiresAt = new Date(0); // Use epoch date instead of null
-    violation.violations.push({ offendingWords, content: offendingWords.join(', ') });
+    violation.violations.push(record);
     await violation.save();
     return { action: 'warning', count: 1, message: 'Post-ban warning' };
   }
@@ -39,7 +59,7 @@ export const handleContentViolation = async (username: string, offendingWords: s
   }
 
   // Add new violation and increment warning count
-  violation.violations.push({ offendingWords, content: offendingWords.join(', ') });
+  violation.violations.push(record);
   violation.warningCount += 1;
 
   // Handle ban logic based on ban count
@@ -1,5 +1,6 @@
 import User from '../models/User';
 import Forum from '../models/Forum';
+import ForumPost from '../models/ForumPost';
 import Question from '../models/Question';
 import { fetchRecommendations } from './aiHelper';
 import { Achievement } from '../types';
@@ -78,7 +79,6 @@ export async function getWeeklyAchievements(
 /**
  * Get forum activity for the past week
  * Returns posts created by the user in the past 7 days
- * Optimized query with better index usage
  */
 export async function getWeeklyForumActivity(
   username: string
@@ -93,24 +93,38 @@ export async function getWeeklyForumActivity(
     const oneWeekAgo = new Date();
     oneWeekAgo.setDate(oneWeekAgo.getDate() - 7);
 
-    // Optimized query: Use $elemMatch for nested array queries and better index usage
-    // This query structure works better with MongoDB's indexing capabilities
+    // The user's recent posts, newest first (uses the ForumPost username + timestamp index)
+    const posts = await ForumPost.find({
+      username,
+      timestamp: { $gte: oneWeekAgo },
+      'metadata.status': 'active'
+    })
+      .sort({ timestamp: -1 })
+      .limit(100)
+      .select('forumId message timestamp metadata.likes')
+      .lean() as unknown as Array<{
+        forumId: string;
+        message?: string;
+        timestamp: Date;
+        metadata?: { likes?: number };
+      }>;
+
+    if (posts.length === 0) {
+      return [];
+    }
+
+    // Only count posts in active forums the user can still see
     const forums = await Forum.find({
+      forumId: { $in: Array.from(new Set(posts.map(post => post.forumId))) },
       $or: [
         { isPrivate: false },
         { allowedUsers: username }
       ],
-      'metadata.status': 'active',
-      posts: {
-        $elemMatch: {
-          username: username,
-          timestamp: { $gte: oneWeekAgo },
-          'metadata.status': 'active'
-        }
-      }
+      'metadata.status': 'active'
     })
-      .select('title gameTitle posts')
-      .lean();
+      .select('forumId title gameTitle')
+      .lean() as unknown as Array<{ forumId: string; title?: string; gameTitle?: string }>;
+    const forumsById = new Map(forums.map(forum => [forum.forumId, forum]));
 
     const activities: Array<{
       forumTitle: string;
@@ -120,32 +134,19 @@ export async function getWeeklyForumActivity(
       likes: number;
     }> = [];
 
-    for (const forum of forums) {
-      if (!forum.posts || !Array.isArray(forum.posts)) continue;
+    for (const post of posts) {
+      const forum = forumsById.get(post.forumId);
+      if (!forum) continue;
 
-      const userPosts = forum.posts.filter((post: any) => {
-        const postDate = new Date(post.timestamp);
-        return (
-          post.username === username &&
-          postDate >= oneWeekAgo &&
-          post.metadata?.status === 'active'
-        );
+      activities.push({
+        forumTitle: forum.title || 'Untitled Forum',
+        gameTitle: forum.gameTitle || 'Unknown Game',
+        message: post.message || '',
+        timestamp: new Date(post.timestamp),
+        likes: post.metadata?.likes || 0
       });
-
-      for (const post of userPosts) {
-        activities.push({
-          forumTitle: forum.title || 'Untitled Forum',
-          gameTitle: forum.gameTitle || 'Unknown Game',
-          message: post.message || '',
-          timestamp: new Date(post.timestamp),
-          likes: post.metadata?.likes || 0
-        });
-      }
     }
 
-    // Sort by timestamp (most recent first)
-    activities.sort((a, b) => b.timestamp.getTime() - a.timestamp.getTime());
-
     // Limit to top 10 most recent activities
     return activities.slice(0, 10);
   } catch (error) {